@@ -1,5 +1,5 @@
-const CACHE_NAME = 'drivenet-v2-fresh';
-const RUNTIME_CACHE = 'drivenet-runtime-v2-fresh';
+const CACHE_NAME = 'drivenet-v3';
+const RUNTIME_CACHE = 'drivenet-runtime-v3';
 
 // Assets to cache on install
 const STATIC_ASSETS = [
@@ -35,6 +35,12 @@ self.addEventListener('activate', (event) => {
 // Fetch event - network first, fallback to cache
 self.addEventListener('fetch', (event) => {
   const { request } = event;
+
+  // Check-ins, check-outs, job changes and messages are queued when offline
+  if (isQueueable(request)) {
+    event.respondWith(sendOrQueue(event, request));
+    return;
+  }
   
   // Skip non-GET requests
   if (request.method !== 'GET') {
@@ -82,3 +88,192 @@ self.addEventListener('fetch', (event) => {
       })
   );
 });
+
+// ------------------------------------
+// Offline queue
+// ------------------------------------
+// Queued requests wait in IndexedDB, in the order they were made, and are replayed by Background
+// Sync when the connection is back (or when a page says it is, where there's no Background Sync).
+// Each carries an Idempotency-Key so the server applies it once however often it's sent.
+const OUTBOX_DB = 'drivenet-outbox';
+const OUTBOX_STORE = 'requests';
+const SYNC_TAG = 'drivenet-outbox';
+const QUEUED_HEADER = 'X-Queued-Offline';
+// The server keeps idempotency keys for 7 days (server/idempotency.ts), so older requests are dropped
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Server errors are retried this many times before the request is given up on
+const MAX_ATTEMPTS = 5;
+
+const QUEUEABLE = [
+  { method: 'POST', path: /^\/api\/jobs$/ },
+  { method: 'PATCH', path: /^\/api\/jobs\/[^/]+$/ },
+  { method: 'POST', path: /^\/api\/jobs\/[^/]+\/check-(in|out)$/ },
+  { method: 'POST', path: /^\/api\/messages$/ },
+];
+
+function isQueueable(request) {
+  const url = new URL(request.url);
+  return url.origin === self.location.origin
+    && QUEUEABLE.some(route => route.method === request.method && route.path.test(url.pathname));
+}
+
+function openOutbox() {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(OUTBOX_DB, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+}
+
+// Runs one IndexedDB request against the queue and resolves with its result once committed
+function outbox(mode, run) {
+  return openOutbox().then(db => new Promise((resolve, reject) => {
+    const transaction = db.transaction(OUTBOX_STORE, mode);
+    const request = run(transaction.objectStore(OUTBOX_STORE));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = transaction.onabort = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  }));
+}
+
+const queuedRequests = () => outbox('readonly', store => store.getAll()); // Oldest first
+const addToOutbox = entry => outbox('readwrite', store => store.add(entry));
+const updateInOutbox = entry => outbox('readwrite', store => store.put(entry));
+const removeFromOutbox = id => outbox('readwrite', store => store.delete(id));
+
+function send(entry) {
+  return fetch(entry.url, {
+    method: entry.method,
+    headers: { 'Content-Type': entry.contentType, 'Idempotency-Key': entry.idempotencyKey },
+    body: entry.body,
+    credentials: 'include',
+  });
+}
+
+async function sendOrQueue(event, request) {
+  const entry = {
+    method: request.method,
+    url: request.url,
+    contentType: request.headers.get('Content-Type') || 'application/json',
+    body: await request.text(),
+    idempotencyKey: request.headers.get('Idempotency-Key') || self.crypto.randomUUID(),
+    queuedAt: Date.now(),
+    attempts: 0,
+  };
+
+  // Anything already waiting goes first, so a check-out never overtakes its check-in
+  if ((await queuedRequests()).length === 0) {
+    try {
+      return await send(entry);
+    } catch (error) {
+      // Offline: queue it
+    }
+  }
+
+  await addToOutbox(entry);
+  if (self.registration.sync) {
+    await self.registration.sync.register(SYNC_TAG).catch(() => undefined);
+  } else {
+    event.waitUntil(replayOutbox());
+  }
+  event.waitUntil(notifyClients());
+  return new Response(JSON.stringify({ queued: true }), {
+    status: 202,
+    headers: { 'Content-Type': 'application/json', [QUEUED_HEADER]: 'true' },
+  });
+}
+
+function describe(entry, status, error) {
+  return { method: entry.method, path: new URL(entry.url).pathname, queuedAt: entry.queuedAt, status, error };
+}
+
+async function errorMessage(response) {
+  try {
+    const body = await response.json();
+    return body.error || body.message || response.statusText;
+  } catch (error) {
+    return response.statusText;
+  }
+}
+
+// Sends the queue in order, stopping at the first request that can't be sent yet so later ones
+// (which may depend on it) wait too. Resolves with whether the queue is now empty.
+async function replay() {
+  let synced = 0;
+  const failed = [];
+  let done = true;
+
+  for (const entry of await queuedRequests()) {
+    if (Date.now() - entry.queuedAt > MAX_AGE_MS) {
+      await removeFromOutbox(entry.id);
+      failed.push(describe(entry, 0, 'Not sent within 7 days'));
+      continue;
+    }
+
+    let response;
+    try {
+      response = await send(entry);
+    } catch (error) {
+      done = false; // Still offline
+      break;
+    }
+
+    // A server error, or the first attempt is still being handled
+    const retry = response.status >= 500 || response.status === 429 || (response.status === 409 && response.headers.has('Retry-After'));
+    if (retry && entry.attempts + 1 < MAX_ATTEMPTS) {
+      await updateInOutbox({ ...entry, attempts: entry.attempts + 1 });
+      done = false;
+      break;
+    }
+
+    await removeFromOutbox(entry.id);
+    if (response.ok) {
+      synced++;
+    } else {
+      failed.push(describe(entry, response.status, await errorMessage(response)));
+    }
+  }
+
+  await notifyClients({ synced, failed });
+  return done;
+}
+
+// One replay at a time: a sync and a page's "online" message can arrive together
+let replaying = null;
+function replayOutbox() {
+  if (!replaying) {
+    replaying = replay().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+// Pages show how many requests are waiting, and what was sent or refused since the last message
+async function notifyClients({ synced = 0, failed = [] } = {}) {
+  const pending = (await queuedRequests()).length;
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  clients.forEach(client => client.postMessage({ type: 'outbox', pending, synced, failed }));
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== SYNC_TAG) return;
+  // Rejecting makes the browser try the sync again later
+  event.waitUntil(replayOutbox().then(done => {
+    if (!done) throw new Error('Offline queue not sent yet');
+  }));
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'replay-outbox') {
+    event.waitUntil(replayOutbox());
+  } else if (event.data?.type === 'outbox-status') {
+    event.waitUntil(notifyClients());
+  }
+});
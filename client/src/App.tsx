@@ -5,6 +5,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import BottomNav from "@/components/BottomNav";
 import ThemeToggle from "@/components/ThemeToggle";
+import PendingSyncIndicator from "@/components/PendingSyncIndicator";
 import DriverNotifications from "@/components/DriverNotifications";
 import RoleSelect from "@/components/RoleSelect";
 import MapPage from "@/pages/MapPage";
@@ -103,6 +104,7 @@ function AppContent() {
             />
           </div>
           <div className="flex items-center gap-2">
+            <PendingSyncIndicator />
             <ThemeToggle />
           </div>
         </header>
@@ -146,6 +148,7 @@ function AppContent() {
           />
         </div>
         <div className="flex items-center gap-2">
+          <PendingSyncIndicator />
           <Button variant="ghost" size="icon" data-testid="button-notifications">
             <Bell className="h-5 w-5" />
           </Button>
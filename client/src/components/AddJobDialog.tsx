@@ -10,9 +10,12 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { MapPin, Loader2, Search, Navigation, Clock } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isQueuedOffline } from "@/lib/offline-queue";
 import { useToast } from "@/hooks/use-toast";
+import { jobTimesOnDate, useJobFeasibility } from "@/hooks/use-job-feasibility";
 import { estimateJourneyTime, formatDuration, formatDistance, calculateDistance } from "@/lib/journey";
 import type { Job } from "@shared/schema";
+import FeasibilityNotice from "./FeasibilityNotice";
 
 interface AddJobDialogProps {
   open: boolean;
@@ -34,6 +37,8 @@ const createJobFormSchema = (lastJobEndTime?: string, scheduleDate?: string) =>
   toLng: z.number(),
   estimatedStartTime: z.string().min(1, "Start time is required").regex(/^\d{2}:\d{2}$/, "Invalid time format"),
   estimatedEndTime: z.string().min(1, "End time is required").regex(/^\d{2}:\d{2}$/, "Invalid time format"),
+  tradePlateNumber: z.string().max(20, "At most 20 characters"),
+  vehicleRegistration: z.string().max(20, "At most 20 characters"),
 }).refine((data) => {
   // Validate that end time is after start time
   // Note: We allow cross-midnight jobs (end time can be "earlier" if it's next day)
@@ -150,9 +155,14 @@ export default function AddJobDialog({ open, onOpenChange, scheduleId, jobCount,
       toLng: 0,
       estimatedStartTime: getInitialStartTime(),
       estimatedEndTime: "",
+      tradePlateNumber: "",
+      vehicleRegistration: "",
     },
   });
 
+  // Overlaps, reachability and working-day limits, checked by the server as the form changes
+  const feasibility = useJobFeasibility(scheduleId, scheduleDate, form.watch());
+
   // Reset times when dialog opens
   useEffect(() => {
     if (open) {
@@ -162,7 +172,7 @@ export default function AddJobDialog({ open, onOpenChange, scheduleId, jobCount,
     }
   }, [open, scheduleDate, form]);
 
-  // Journey calculation using Mapbox API with real-time traffic
+  // Journey calculation via the server's routing providers (Mapbox real-time traffic when configured)
   const calculateJourney = useMutation({
     mutationFn: async ({ fromLat, fromLng, toLat, toLng }: { fromLat: number; fromLng: number; toLat: number; toLng: number }) => {
       const res = await apiRequest("POST", "/api/calculate-journey", {
@@ -194,7 +204,7 @@ export default function AddJobDialog({ open, onOpenChange, scheduleId, jobCount,
     onError: (error) => {
       toast({
         title: "Journey Calculation Failed",
-        description: error instanceof Error ? error.message : "Could not calculate journey time with Mapbox",
+        description: error instanceof Error ? error.message : "Could not calculate journey time",
         variant: "destructive",
       });
     },
@@ -278,20 +288,8 @@ export default function AddJobDialog({ open, onOpenChange, scheduleId, jobCount,
       const FALLBACK_LAT = 53.4808;
       const FALLBACK_LNG = -2.2426;
       
-      // Create datetime objects
-      const [startHour, startMin] = data.estimatedStartTime.split(':').map(Number);
-      const [endHour, endMin] = data.estimatedEndTime.split(':').map(Number);
-      
-      const startDate = new Date(scheduleDate);
-      startDate.setHours(startHour, startMin, 0, 0);
-      
-      const endDate = new Date(scheduleDate);
-      endDate.setHours(endHour, endMin, 0, 0);
-      
-      // If end time is before start time, it crosses midnight - add a day
-      if (endDate <= startDate) {
-        endDate.setDate(endDate.getDate() + 1);
-      }
+      // Create datetime objects; an end before the start crosses midnight
+      const { startDate, endDate } = jobTimesOnDate(scheduleDate, data.estimatedStartTime, data.estimatedEndTime);
       
       const res = await apiRequest("POST", "/api/jobs", {
         scheduleId,
@@ -305,12 +303,21 @@ export default function AddJobDialog({ open, onOpenChange, scheduleId, jobCount,
         estimatedEndTime: endDate.toISOString(),
         orderInSchedule: jobCount + 1,
         status: "pending",
+        tradePlateNumber: data.tradePlateNumber,
+        vehicleRegistration: data.vehicleRegistration,
       });
-      return res.json();
+      return isQueuedOffline(res) ? { queued: true } : res.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/jobs/schedule", scheduleId] });
-      // No toast - job appears in list immediately, speeds up workflow
+    onSuccess: (result) => {
+      if (result?.queued) {
+        toast({
+          title: "Job Saved Offline",
+          description: "It will be added to your schedule when you're back online",
+        });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs/schedule", scheduleId] });
+        // No toast - job appears in list immediately, speeds up workflow
+      }
       form.reset();
       setHasShownInspectionInfo(false);
       onOpenChange(false);
@@ -357,7 +364,13 @@ export default function AddJobDialog({ open, onOpenChange, scheduleId, jobCount,
         form.setValue("toLocation", data.address);
       }
       
-      // No toast - location name shows success, speeds up workflow
+      // No toast - location name shows success, speeds up workflow. Only flag area-level matches
+      if (data.approximate) {
+        toast({
+          title: "Approximate Location",
+          description: `Full postcode not found offline, using the ${data.postcode} area. Check the location before calculating the journey.`,
+        });
+      }
     } catch (error) {
       // Only show toast if dialog is still open (prevents stale errors)
       if (open) {
@@ -705,6 +718,7 @@ export default function AddJobDialog({ open, onOpenChange, scheduleId, jobCount,
                         />
                       </FormControl>
                       <FormMessage />
+                      <FeasibilityNotice report={feasibility.report} field="estimatedStartTime" />
                     </FormItem>
                   )}
                 />
@@ -724,6 +738,43 @@ export default function AddJobDialog({ open, onOpenChange, scheduleId, jobCount,
                         />
                       </FormControl>
                       <FormMessage />
+                      <FeasibilityNotice report={feasibility.report} field="estimatedEndTime" />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FeasibilityNotice report={feasibility.report} />
+            </div>
+
+            {/* Recorded in the trade plate log when the job is checked in */}
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold">Vehicle</h3>
+
+              <div className="flex gap-3">
+                <FormField
+                  control={form.control}
+                  name="tradePlateNumber"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>Trade Plate</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. 123 A" {...field} data-testid="input-trade-plate" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="vehicleRegistration"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>Registration or VIN</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. AB12 CDE" {...field} data-testid="input-vehicle-registration" />
+                      </FormControl>
+                      <FormMessage />
                     </FormItem>
                   )}
                 />
@@ -769,6 +820,7 @@ export default function AddJobDialog({ open, onOpenChange, scheduleId, jobCount,
                 })()}
                 disabled={
                   createJob.isPending ||
+                  feasibility.hasErrors ||
                   !form.watch("fromLocation") ||
                   !form.watch("toLocation") ||
                   !form.watch("estimatedStartTime") ||
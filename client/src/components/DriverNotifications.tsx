@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { useWebSocket } from "@/hooks/useWebSocket";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { X, MapPin, Navigation } from "lucide-react";
 import { formatDistance } from "@/lib/journey";
 import { calculateDistance } from "@/lib/journey";
+import { regionTopicsAround } from "@shared/realtime";
 
 interface Notification {
   id: string;
@@ -35,6 +36,11 @@ export default function DriverNotifications({
   const maxDistance = 10; // 10 miles radius
 
   const handleNotification = useCallback((notification: any) => {
+    // Only check-in/out events are shown here; other notifications carry their own payloads
+    if (notification.type !== 'driver-check-in' && notification.type !== 'driver-check-out') {
+      return;
+    }
+
     // Don't show notifications for the current user's own actions
     if (notification.driverId === currentUserId) {
       return;
@@ -70,7 +76,15 @@ export default function DriverNotifications({
     }, 10000);
   }, [currentUserId, currentUserLat, currentUserLng, maxDistance]);
 
-  const { isConnected } = useWebSocket(handleNotification);
+  // Check-ins are published per region, so only listen around the current user
+  const topics = useMemo(
+    () => currentUserLat !== undefined && currentUserLng !== undefined
+      ? regionTopicsAround(currentUserLat, currentUserLng)
+      : [],
+    [currentUserLat, currentUserLng]
+  );
+
+  const { isConnected } = useWebSocket(handleNotification, { topics });
 
   const removeNotification = (id: string) => {
     setNotifications(prev => prev.filter(n => n.id !== id));
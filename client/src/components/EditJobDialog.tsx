@@ -7,11 +7,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { MapPin, Loader2, Search, Clock, Navigation } from "lucide-react";
+import { MapPin, Loader2, Search, Clock, Navigation, Car } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isQueuedOffline } from "@/lib/offline-queue";
 import { useToast } from "@/hooks/use-toast";
+import { jobTimesOnDate, useJobFeasibility } from "@/hooks/use-job-feasibility";
 import { estimateJourneyTime, formatDuration, formatDistance, calculateDistance } from "@/lib/journey";
 import type { Job } from "@shared/schema";
+import FeasibilityNotice from "./FeasibilityNotice";
 
 interface EditJobDialogProps {
   open: boolean;
@@ -33,6 +36,8 @@ const createEditJobFormSchema = (previousJobEndTime?: string, nextJobStartTime?:
   toLng: z.number(),
   estimatedStartTime: z.string().min(1, "Start time is required").regex(/^\d{2}:\d{2}$/, "Invalid time format"),
   estimatedEndTime: z.string().min(1, "End time is required").regex(/^\d{2}:\d{2}$/, "Invalid time format"),
+  tradePlateNumber: z.string().max(20, "At most 20 characters"),
+  vehicleRegistration: z.string().max(20, "At most 20 characters"),
 }).refine((data) => {
   // Validate that end time is different from start time
   // Note: We allow cross-midnight jobs (end time can be "earlier" if it's next day)
@@ -121,9 +126,14 @@ export default function EditJobDialog({ open, onOpenChange, job, scheduleId, pre
       toLng: job.toLng,
       estimatedStartTime: formatTimeForInput(job.estimatedStartTime),
       estimatedEndTime: formatTimeForInput(job.estimatedEndTime),
+      tradePlateNumber: job.tradePlateNumber ?? "",
+      vehicleRegistration: job.vehicleRegistration ?? "",
     },
   });
 
+  // Overlaps, reachability and working-day limits, checked by the server as the form changes
+  const feasibility = useJobFeasibility(scheduleId, scheduleDate, form.watch(), job.id);
+
   // Reset form when job changes
   useEffect(() => {
     if (open && job) {
@@ -138,6 +148,8 @@ export default function EditJobDialog({ open, onOpenChange, job, scheduleId, pre
         toLng: job.toLng,
         estimatedStartTime: formatTimeForInput(job.estimatedStartTime),
         estimatedEndTime: formatTimeForInput(job.estimatedEndTime),
+        tradePlateNumber: job.tradePlateNumber ?? "",
+        vehicleRegistration: job.vehicleRegistration ?? "",
       });
     }
   }, [open, job, form]);
@@ -193,20 +205,8 @@ export default function EditJobDialog({ open, onOpenChange, job, scheduleId, pre
       const existingStart = new Date(job.estimatedStartTime);
       const scheduleDate = existingStart.toISOString().split('T')[0]; // YYYY-MM-DD
       
-      // Create datetime objects
-      const [startHour, startMin] = data.estimatedStartTime.split(':').map(Number);
-      const [endHour, endMin] = data.estimatedEndTime.split(':').map(Number);
-      
-      const startDate = new Date(scheduleDate);
-      startDate.setHours(startHour, startMin, 0, 0);
-      
-      const endDate = new Date(scheduleDate);
-      endDate.setHours(endHour, endMin, 0, 0);
-      
-      // If end time is before start time, it crosses midnight - add a day
-      if (endDate <= startDate) {
-        endDate.setDate(endDate.getDate() + 1);
-      }
+      // Create datetime objects; an end before the start crosses midnight
+      const { startDate, endDate } = jobTimesOnDate(scheduleDate, data.estimatedStartTime, data.estimatedEndTime);
       
       const res = await apiRequest("PATCH", `/api/jobs/${job.id}`, {
         fromLocation: data.fromLocation,
@@ -217,15 +217,24 @@ export default function EditJobDialog({ open, onOpenChange, job, scheduleId, pre
         toLng: data.toLng || FALLBACK_LNG,
         estimatedStartTime: startDate.toISOString(),
         estimatedEndTime: endDate.toISOString(),
+        tradePlateNumber: data.tradePlateNumber,
+        vehicleRegistration: data.vehicleRegistration,
       });
-      return res.json();
+      return isQueuedOffline(res) ? { queued: true } : res.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/jobs/schedule", scheduleId] });
-      toast({
-        title: "Job Updated",
-        description: "Delivery job has been updated successfully",
-      });
+    onSuccess: (result) => {
+      if (result?.queued) {
+        toast({
+          title: "Changes Saved Offline",
+          description: "The job will be updated when you're back online",
+        });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs/schedule", scheduleId] });
+        toast({
+          title: "Job Updated",
+          description: "Delivery job has been updated successfully",
+        });
+      }
       form.reset();
       onOpenChange(false);
     },
@@ -265,8 +274,10 @@ export default function EditJobDialog({ open, onOpenChange, job, scheduleId, pre
       }
       
       toast({
-        title: "Location Found",
-        description: `Address resolved: ${data.address}`,
+        title: data.approximate ? "Approximate Location" : "Location Found",
+        description: data.approximate
+          ? `Full postcode not found offline, using the ${data.postcode} area: ${data.address}`
+          : `Address resolved: ${data.address}`,
       });
     } catch (error) {
       // Only show toast if dialog is still open (prevents stale errors)
@@ -514,6 +525,7 @@ export default function EditJobDialog({ open, onOpenChange, job, scheduleId, pre
                       <Input type="time" {...field} data-testid="input-edit-start-time" />
                     </FormControl>
                     <FormMessage />
+                    <FeasibilityNotice report={feasibility.report} field="estimatedStartTime" />
                   </FormItem>
                 )}
               />
@@ -528,10 +540,13 @@ export default function EditJobDialog({ open, onOpenChange, job, scheduleId, pre
                       <Input type="time" {...field} data-testid="input-edit-end-time" />
                     </FormControl>
                     <FormMessage />
+                    <FeasibilityNotice report={feasibility.report} field="estimatedEndTime" />
                   </FormItem>
                 )}
               />
 
+              <FeasibilityNotice report={feasibility.report} />
+
               <Button
                 type="button"
                 variant="outline"
@@ -544,11 +559,47 @@ export default function EditJobDialog({ open, onOpenChange, job, scheduleId, pre
               </Button>
             </div>
 
+            {/* Vehicle Section: recorded in the trade plate log when the job is checked in */}
+            <div className="space-y-3 rounded-lg border p-4">
+              <h3 className="font-medium flex items-center gap-2">
+                <Car className="h-4 w-4" />
+                Vehicle
+              </h3>
+
+              <FormField
+                control={form.control}
+                name="tradePlateNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Trade Plate Number</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. 123 A" {...field} data-testid="input-edit-trade-plate" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="vehicleRegistration"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vehicle Registration or VIN</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. AB12 CDE" {...field} data-testid="input-edit-vehicle-registration" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <div className="flex gap-3">
               <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
                 Cancel
               </Button>
-              <Button type="submit" disabled={updateJob.isPending} className="flex-1" data-testid="button-update-job">
+              <Button type="submit" disabled={updateJob.isPending || feasibility.hasErrors} className="flex-1" data-testid="button-update-job">
                 {updateJob.isPending ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
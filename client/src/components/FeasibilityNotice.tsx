@@ -0,0 +1,34 @@
+import { AlertTriangle, XCircle } from "lucide-react";
+import type { FeasibilityIssue, FeasibilityReport } from "@shared/feasibility";
+
+interface FeasibilityNoticeProps {
+  report?: FeasibilityReport;
+  // Only the issues shown against this time field; issues with no field when left out
+  field?: FeasibilityIssue["field"];
+}
+
+// Schedule problems with the job being added or edited: errors stop it being saved, warnings don't
+export default function FeasibilityNotice({ report, field }: FeasibilityNoticeProps) {
+  if (!report) return null;
+
+  const issues = [
+    ...report.errors.map((issue) => ({ issue, error: true })),
+    ...report.warnings.map((issue) => ({ issue, error: false })),
+  ].filter(({ issue }) => issue.field === field);
+  if (issues.length === 0) return null;
+
+  return (
+    <ul className="space-y-1" data-testid={`feasibility-${field ?? "day"}`}>
+      {issues.map(({ issue, error }, i) => (
+        <li
+          key={`${issue.code}-${issue.relatedJobId ?? i}`}
+          className={`flex items-start gap-1.5 text-xs ${error ? "text-destructive" : "text-yellow-600"}`}
+          data-testid={`feasibility-${error ? "error" : "warning"}-${issue.code}`}
+        >
+          {error ? <XCircle className="h-3.5 w-3.5 mt-px shrink-0" /> : <AlertTriangle className="h-3.5 w-3.5 mt-px shrink-0" />}
+          <span>{issue.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,384 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Camera, Eraser, Loader2, Trash2 } from "lucide-react";
+import VehicleDiagram from "@/components/VehicleDiagram";
+import {
+  DAMAGE_SEVERITIES,
+  DAMAGE_TYPES,
+  DEFAULT_CHECKLIST_ITEMS,
+  FUEL_EIGHTHS,
+  SIGNATURE_HEIGHT,
+  SIGNATURE_WIDTH,
+  type DiagramView,
+  type InspectionStage,
+} from "@shared/inspections";
+
+// The inspection as POST /api/jobs/:id/check-in and /check-out take it
+export interface InspectionSubmission {
+  checklist: { item: string; passed: boolean; note?: string }[];
+  damage: { view: DiagramView; x: number; y: number; type: string; severity: string; note?: string }[];
+  mileage?: number;
+  fuelLevel?: number;
+  notes?: string;
+  signature?: { name: string; path: string };
+  photos: { content: string; caption?: string }[];
+}
+
+interface InspectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stage: InspectionStage;
+  pending: boolean;
+  // Without an inspection when the driver skips it
+  onSubmit: (inspection?: InspectionSubmission) => void;
+}
+
+const MAX_PHOTOS = 8;
+const MAX_PHOTO_EDGE = 1600;
+
+// Phone photos are scaled down and re-encoded as JPEG, which is what the server takes
+async function toJpeg(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_PHOTO_EDGE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 0.8);
+}
+
+// Draws with a finger or mouse; the strokes come back as an SVG path in the signature box
+function SignaturePad({ onChange }: { onChange: (path: string) => void }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const strokes = useRef<[number, number][][]>([]);
+  const drawing = useRef(false);
+
+  const point = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const box = e.currentTarget.getBoundingClientRect();
+    const clamp = (value: number, max: number) => Math.round(Math.min(max, Math.max(0, value)) * 10) / 10;
+    return [
+      clamp(((e.clientX - box.left) / box.width) * SIGNATURE_WIDTH, SIGNATURE_WIDTH),
+      clamp(((e.clientY - box.top) / box.height) * SIGNATURE_HEIGHT, SIGNATURE_HEIGHT),
+    ];
+  };
+
+  const redraw = () => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+    context.clearRect(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+    context.lineWidth = 2;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    for (const stroke of strokes.current) {
+      context.beginPath();
+      stroke.forEach(([x, y], i) => (i === 0 ? context.moveTo(x, y) : context.lineTo(x, y)));
+      context.stroke();
+    }
+  };
+
+  const emit = () => {
+    onChange(strokes.current
+      .map((stroke) => stroke.map(([x, y], i) => `${i === 0 ? "M" : "L"}${x} ${y}`).join(" "))
+      .join(" "));
+  };
+
+  return (
+    <div className="space-y-1">
+      <canvas
+        ref={canvasRef}
+        width={SIGNATURE_WIDTH}
+        height={SIGNATURE_HEIGHT}
+        className="w-full rounded-md border bg-white touch-none"
+        style={{ aspectRatio: `${SIGNATURE_WIDTH} / ${SIGNATURE_HEIGHT}` }}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          drawing.current = true;
+          strokes.current.push([point(e)]);
+        }}
+        onPointerMove={(e) => {
+          if (!drawing.current) return;
+          strokes.current[strokes.current.length - 1].push(point(e));
+          redraw();
+        }}
+        onPointerUp={() => {
+          drawing.current = false;
+          emit();
+        }}
+        data-testid="canvas-signature"
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => {
+          strokes.current = [];
+          redraw();
+          emit();
+        }}
+        data-testid="button-clear-signature"
+      >
+        <Eraser className="h-3 w-3 mr-1" />
+        Clear
+      </Button>
+    </div>
+  );
+}
+
+// The condition report taken with a check-in (pickup) or check-out (dropoff)
+export default function InspectionDialog({ open, onOpenChange, stage, pending, onSubmit }: InspectionDialogProps) {
+  const [checklist, setChecklist] = useState(() => DEFAULT_CHECKLIST_ITEMS.map((item) => ({ item, passed: true })));
+  const [damage, setDamage] = useState<InspectionSubmission["damage"]>([]);
+  const [damageType, setDamageType] = useState<string>(DAMAGE_TYPES[0]);
+  const [severity, setSeverity] = useState<string>(DAMAGE_SEVERITIES[0]);
+  const [mileage, setMileage] = useState("");
+  const [fuelLevel, setFuelLevel] = useState<number | undefined>(undefined);
+  const [photos, setPhotos] = useState<{ dataUrl: string; caption: string }[]>([]);
+  const [signatureName, setSignatureName] = useState("");
+  const [signaturePath, setSignaturePath] = useState("");
+  const [notes, setNotes] = useState("");
+  const [addingPhotos, setAddingPhotos] = useState(false);
+
+  // Each check-in or check-out starts from a fresh form
+  useEffect(() => {
+    if (!open) return;
+    setChecklist(DEFAULT_CHECKLIST_ITEMS.map((item) => ({ item, passed: true })));
+    setDamage([]);
+    setMileage("");
+    setFuelLevel(undefined);
+    setPhotos([]);
+    setSignatureName("");
+    setSignaturePath("");
+    setNotes("");
+  }, [open]);
+
+  const addPhotos = async (files: FileList | null) => {
+    if (!files) return;
+    setAddingPhotos(true);
+    try {
+      const room = MAX_PHOTOS - photos.length;
+      const added = await Promise.all(Array.from(files).slice(0, room).map(toJpeg));
+      setPhotos((current) => [...current, ...added.map((dataUrl) => ({ dataUrl, caption: "" }))]);
+    } finally {
+      setAddingPhotos(false);
+    }
+  };
+
+  const submit = () => {
+    onSubmit({
+      checklist,
+      damage,
+      mileage: mileage ? Number(mileage) : undefined,
+      fuelLevel,
+      notes: notes.trim() || undefined,
+      signature: signatureName.trim() && signaturePath ? { name: signatureName.trim(), path: signaturePath } : undefined,
+      photos: photos.map(({ dataUrl, caption }) => ({
+        content: dataUrl.slice(dataUrl.indexOf(",") + 1),
+        caption: caption.trim() || undefined,
+      })),
+    });
+  };
+
+  const label = stage === "pickup" ? "Check In" : "Check Out";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{stage === "pickup" ? "Pickup" : "Dropoff"} condition report</DialogTitle>
+          <DialogDescription>
+            Record the vehicle's condition {stage === "pickup" ? "before you move it" : "as you hand it over"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">Checklist</h3>
+            {checklist.map((entry, i) => (
+              <div key={entry.item} className="flex items-center justify-between gap-3">
+                <Label htmlFor={`check-${i}`} className="text-sm font-normal">{entry.item}</Label>
+                <div className="flex items-center gap-2">
+                  <span className={`text-xs ${entry.passed ? "text-muted-foreground" : "text-destructive"}`}>
+                    {entry.passed ? "OK" : "Fault"}
+                  </span>
+                  <Switch
+                    id={`check-${i}`}
+                    checked={entry.passed}
+                    onCheckedChange={(passed) => setChecklist((items) => items.map((item, j) => (j === i ? { ...item, passed } : item)))}
+                    data-testid={`switch-check-${i}`}
+                  />
+                </div>
+              </div>
+            ))}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">Damage</h3>
+            <div className="flex gap-2">
+              <Select value={damageType} onValueChange={setDamageType}>
+                <SelectTrigger className="flex-1 capitalize" data-testid="select-damage-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAMAGE_TYPES.map((type) => (
+                    <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={severity} onValueChange={setSeverity}>
+                <SelectTrigger className="flex-1 capitalize" data-testid="select-damage-severity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAMAGE_SEVERITIES.map((level) => (
+                    <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground">Tap the diagram where the damage is.</p>
+            <VehicleDiagram
+              markers={damage}
+              onMark={(view, x, y) => setDamage((markers) => [...markers, { view, x, y, type: damageType, severity }])}
+            />
+            {damage.length > 0 && (
+              <ol className="space-y-1 text-sm">
+                {damage.map((marker, i) => (
+                  <li key={i} className="flex items-center justify-between gap-2" data-testid={`damage-${i + 1}`}>
+                    <span className="capitalize">
+                      {i + 1}. {marker.severity} {marker.type} ({marker.view})
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setDamage((markers) => markers.filter((_, j) => j !== i))}
+                      data-testid={`button-remove-damage-${i + 1}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </section>
+
+          <section className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="inspection-mileage">Mileage</Label>
+              <Input
+                id="inspection-mileage"
+                type="number"
+                inputMode="numeric"
+                min={0}
+                value={mileage}
+                onChange={(e) => setMileage(e.target.value.replace(/\D/g, ""))}
+                data-testid="input-mileage"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Fuel {fuelLevel === undefined ? "" : `${fuelLevel}/${FUEL_EIGHTHS}`}</Label>
+              <Slider
+                min={0}
+                max={FUEL_EIGHTHS}
+                step={1}
+                value={[fuelLevel ?? FUEL_EIGHTHS / 2]}
+                onValueChange={([value]) => setFuelLevel(value)}
+                className="pt-3"
+                data-testid="slider-fuel"
+              />
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">Photos</h3>
+            <div className="grid grid-cols-3 gap-2">
+              {photos.map((photo, i) => (
+                <div key={i} className="space-y-1">
+                  <div className="relative">
+                    <img src={photo.dataUrl} alt={`Photo ${i + 1}`} className="aspect-[4/3] w-full rounded object-cover" />
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      size="icon"
+                      className="absolute right-1 top-1 h-6 w-6"
+                      onClick={() => setPhotos((current) => current.filter((_, j) => j !== i))}
+                      data-testid={`button-remove-photo-${i + 1}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  <Input
+                    placeholder="Caption"
+                    className="h-7 text-xs"
+                    value={photo.caption}
+                    onChange={(e) => setPhotos((current) => current.map((p, j) => (j === i ? { ...p, caption: e.target.value } : p)))}
+                  />
+                </div>
+              ))}
+            </div>
+            {photos.length < MAX_PHOTOS && (
+              <Button type="button" variant="outline" size="sm" asChild disabled={addingPhotos}>
+                <label className="cursor-pointer" data-testid="button-add-photos">
+                  {addingPhotos ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Camera className="h-3 w-3 mr-1" />}
+                  Add photos
+                  <input
+                    type="file"
+                    accept="image/*"
+                    capture="environment"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      addPhotos(e.target.files);
+                      e.target.value = "";
+                    }}
+                  />
+                </label>
+              </Button>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">Customer signature</h3>
+            <Input
+              placeholder="Customer name"
+              value={signatureName}
+              onChange={(e) => setSignatureName(e.target.value)}
+              data-testid="input-signature-name"
+            />
+            <SignaturePad onChange={setSignaturePath} />
+          </section>
+
+          <section className="space-y-1">
+            <Label htmlFor="inspection-notes">Notes</Label>
+            <Textarea id="inspection-notes" value={notes} onChange={(e) => setNotes(e.target.value)} data-testid="input-inspection-notes" />
+          </section>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={() => onSubmit()} disabled={pending} data-testid="button-skip-inspection">
+            Skip inspection
+          </Button>
+          <Button type="button" onClick={submit} disabled={pending || addingPhotos} data-testid="button-submit-inspection">
+            {pending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {label}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,166 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Share2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import VehicleDiagram from "@/components/VehicleDiagram";
+import { FUEL_EIGHTHS, type JobInspections, type VehicleInspectionView } from "@shared/inspections";
+
+interface InspectionReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobId: string;
+}
+
+function StageReport({ title, inspection, newDamageIds }: { title: string; inspection: VehicleInspectionView; newDamageIds: Set<string> }) {
+  const failed = inspection.checklist.filter((item) => !item.passed);
+
+  return (
+    <section className="space-y-2" data-testid={`report-${inspection.stage}`}>
+      <div className="flex items-baseline justify-between gap-2">
+        <h3 className="text-sm font-semibold">{title}</h3>
+        {inspection.createdAt && (
+          <span className="text-xs text-muted-foreground">{format(new Date(inspection.createdAt), "d MMM h:mm a")}</span>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {inspection.mileage !== null ? `${inspection.mileage.toLocaleString()} miles` : "Mileage not recorded"}
+        {" · "}
+        {inspection.fuelLevel !== null ? `Fuel ${inspection.fuelLevel}/${FUEL_EIGHTHS}` : "Fuel not recorded"}
+      </p>
+      <VehicleDiagram
+        markers={inspection.damage.map((damage) => ({ ...damage, isNew: newDamageIds.has(damage.id) }))}
+        testId={`diagram-${inspection.stage}`}
+      />
+      {inspection.damage.length > 0 && (
+        <ol className="space-y-0.5 text-sm">
+          {inspection.damage.map((damage, i) => (
+            <li key={damage.id} className="capitalize">
+              {i + 1}. {damage.severity} {damage.type} ({damage.view})
+              {damage.note && <span className="normal-case text-muted-foreground"> – {damage.note}</span>}
+              {newDamageIds.has(damage.id) && <Badge variant="destructive" className="ml-2">New</Badge>}
+            </li>
+          ))}
+        </ol>
+      )}
+      {failed.length > 0 && (
+        <p className="text-sm">
+          <span className="font-medium">Faults:</span> {failed.map((item) => item.item).join(", ")}
+        </p>
+      )}
+      {inspection.photos.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {inspection.photos.map((photo) => (
+            <a key={photo.id} href={photo.url} target="_blank" rel="noreferrer">
+              <img src={photo.url} alt={photo.caption ?? "Inspection photo"} className="aspect-[4/3] w-full rounded object-cover" />
+            </a>
+          ))}
+        </div>
+      )}
+      {inspection.notes && <p className="text-sm whitespace-pre-wrap">{inspection.notes}</p>}
+      {inspection.signatureName && (
+        <p className="text-xs text-muted-foreground">Signed by {inspection.signatureName}</p>
+      )}
+    </section>
+  );
+}
+
+// Pickup and dropoff reports side by side with the damage found since pickup, and a link to the PDF
+export default function InspectionReportDialog({ open, onOpenChange, jobId }: InspectionReportDialogProps) {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<JobInspections>({
+    queryKey: [`/api/jobs/${jobId}/inspections`],
+    enabled: open,
+  });
+
+  const share = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("GET", `/api/jobs/${jobId}/inspection-report`);
+      const { url } = (await res.json()) as { url: string };
+      if (navigator.share) {
+        await navigator.share({ title: "Vehicle condition report", url });
+        return "shared";
+      }
+      if (navigator.clipboard) {
+        await navigator.clipboard.writeText(url);
+        return "copied";
+      }
+      window.open(url, "_blank");
+      return "opened";
+    },
+    onSuccess: (result) => {
+      if (result === "copied") {
+        toast({ title: "Link copied", description: "Anyone with the link can open the PDF report" });
+      }
+    },
+    onError: (error) => {
+      // Closing the share sheet isn't a failure
+      if (error instanceof Error && error.name === "AbortError") return;
+      toast({
+        title: "Could not share report",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const comparison = data?.comparison;
+  const newDamageIds = new Set(comparison?.newDamage.map((damage) => damage.id) ?? []);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Vehicle condition</DialogTitle>
+          <DialogDescription>Reports taken at pickup and dropoff.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !data?.pickup && !data?.dropoff ? (
+          <p className="py-6 text-center text-sm text-muted-foreground" data-testid="text-no-inspections">
+            No condition reports were taken for this job.
+          </p>
+        ) : (
+          <div className="space-y-5">
+            {comparison && (
+              <section className="rounded-md border p-3 text-sm space-y-1" data-testid="report-comparison">
+                <p className={comparison.newDamage.length > 0 ? "font-medium text-destructive" : "font-medium"}>
+                  {comparison.newDamage.length === 0
+                    ? "No new damage since pickup"
+                    : `${comparison.newDamage.length} new ${comparison.newDamage.length === 1 ? "damage mark" : "damage marks"} since pickup`}
+                </p>
+                {comparison.checklistFailures.length > 0 && (
+                  <p>Failed since pickup: {comparison.checklistFailures.join(", ")}</p>
+                )}
+                {comparison.milesDriven !== null && <p>{comparison.milesDriven.toLocaleString()} miles driven</p>}
+                {comparison.fuelChange !== null && (
+                  <p>
+                    Fuel {comparison.fuelChange === 0 ? "unchanged" : `${comparison.fuelChange > 0 ? "+" : ""}${comparison.fuelChange}/${FUEL_EIGHTHS}`}
+                  </p>
+                )}
+              </section>
+            )}
+            {data.pickup && <StageReport title="Pickup" inspection={data.pickup} newDamageIds={newDamageIds} />}
+            {data.dropoff && <StageReport title="Dropoff" inspection={data.dropoff} newDamageIds={newDamageIds} />}
+            <Button className="w-full" onClick={() => share.mutate()} disabled={share.isPending} data-testid="button-share-report">
+              {share.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Share2 className="h-4 w-4 mr-2" />}
+              Share PDF report
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
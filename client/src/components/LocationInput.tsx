@@ -1,7 +1,20 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { MapPin, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface GeocodeResult {
+  kind: "postcode" | "outcode" | "place";
+  name: string;
+  latitude: number;
+  longitude: number;
+  address: string;
+  approximate: boolean;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
 
 interface LocationInputProps {
   value: string;
@@ -15,6 +28,28 @@ export default function LocationInput({
   placeholder = "Enter location",
 }: LocationInputProps) {
   const [isGettingLocation, setIsGettingLocation] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [query, setQuery] = useState("");
+
+  // Towns and postcodes resolve from the server's offline gazetteer, so this works without signal
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setQuery(value.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [value]);
+
+  const { data: suggestions } = useQuery<{ results: GeocodeResult[] }>({
+    queryKey: ["/api/geocode/search", query],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/geocode/search?q=${encodeURIComponent(query)}`);
+      return res.json();
+    },
+    enabled: showSuggestions && query.length >= 2,
+  });
+
+  const selectSuggestion = (result: GeocodeResult) => {
+    onChange(result.kind === "place" ? result.name : result.address, result.latitude, result.longitude);
+    setShowSuggestions(false);
+  };
 
   const getCurrentLocation = () => {
     if (!navigator.geolocation) {
@@ -28,13 +63,11 @@ export default function LocationInput({
       (position) => {
         const { latitude, longitude } = position.coords;
         
-        // Use reverse geocoding to get address (simplified version)
-        fetch(
-          `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}`
-        )
+        // Nearest postcode/place from the server's gazetteer
+        apiRequest("GET", `/api/geocode/reverse?lat=${latitude}&lng=${longitude}`)
           .then((res) => res.json())
-          .then((data) => {
-            const location = data.display_name || `${latitude}, ${longitude}`;
+          .then((data: GeocodeResult) => {
+            const location = data.address || `${latitude}, ${longitude}`;
             onChange(location, latitude, longitude);
             setIsGettingLocation(false);
           })
@@ -56,11 +89,35 @@ export default function LocationInput({
       <div className="relative flex-1">
         <Input
           value={value}
-          onChange={(e) => onChange(e.target.value)}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setShowSuggestions(true);
+          }}
+          onBlur={() => setShowSuggestions(false)}
           placeholder={placeholder}
           spellCheck="true"
           data-testid="input-location"
         />
+        {showSuggestions && suggestions && suggestions.results.length > 0 && (
+          <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover shadow-md" data-testid="list-location-suggestions">
+            {suggestions.results.map((result) => (
+              <button
+                key={`${result.kind}-${result.name}`}
+                type="button"
+                className="w-full px-3 py-2 text-left text-sm hover-elevate"
+                // Select before the input's blur hides the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  selectSuggestion(result);
+                }}
+                data-testid={`button-location-suggestion-${result.name}`}
+              >
+                <span className="font-medium">{result.name}</span>
+                <span className="block text-xs text-muted-foreground">{result.address}</span>
+              </button>
+            ))}
+          </div>
+        )}
       </div>
       <Button
         type="button"
@@ -0,0 +1,45 @@
+import { useEffect } from "react";
+import { CloudOff } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePendingSync } from "@/hooks/use-pending-sync";
+import { subscribeOutbox } from "@/lib/offline-queue";
+
+const ACTIONS: [RegExp, string][] = [
+  [/\/check-in$/, "Check-in"],
+  [/\/check-out$/, "Check-out"],
+  [/^\/api\/messages$/, "Message"],
+  [/^\/api\/jobs$/, "New job"],
+  [/^\/api\/jobs\//, "Job change"],
+];
+
+// Shows what's waiting to sync, refreshes the app once queued changes are sent and reports any the
+// server refused
+export default function PendingSyncIndicator() {
+  const pending = usePendingSync();
+  const { toast } = useToast();
+
+  useEffect(() => subscribeOutbox(({ synced, failed }) => {
+    if (synced > 0 || failed.length > 0) {
+      queryClient.invalidateQueries();
+    }
+    for (const failure of failed) {
+      const action = ACTIONS.find(([pattern]) => pattern.test(failure.path))?.[1] ?? "Change";
+      toast({
+        title: `${action} made offline wasn't saved`,
+        description: failure.error,
+        variant: "destructive",
+      });
+    }
+  }), [toast]);
+
+  if (pending === 0) return null;
+
+  return (
+    <Badge variant="secondary" className="gap-1 whitespace-nowrap" data-testid="badge-pending-sync">
+      <CloudOff className="h-3 w-3" />
+      {pending} pending sync
+    </Badge>
+  );
+}
@@ -0,0 +1,72 @@
+import { DIAGRAM_OUTLINES, DIAGRAM_VIEWS, type DiagramView } from "@shared/inspections";
+
+export interface DiagramMarker {
+  view: string;
+  x: number;
+  y: number;
+  isNew?: boolean;
+}
+
+interface VehicleDiagramProps {
+  markers: DiagramMarker[];
+  // Called with the view and where on it (as fractions of its size) the driver tapped; read-only when left out
+  onMark?: (view: DiagramView, x: number, y: number) => void;
+  testId?: string;
+}
+
+const VIEW_WIDTH = 100;
+const VIEW_HEIGHT = 70;
+const GAP = 6;
+
+// The vehicle from each side with numbered damage markers; new damage shows in red
+export default function VehicleDiagram({ markers, onMark, testId = "vehicle-diagram" }: VehicleDiagramProps) {
+  const width = DIAGRAM_VIEWS.length * VIEW_WIDTH + (DIAGRAM_VIEWS.length - 1) * GAP;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${VIEW_HEIGHT + 12}`} className="w-full select-none" data-testid={testId}>
+      {DIAGRAM_VIEWS.map((view, i) => {
+        const left = i * (VIEW_WIDTH + GAP);
+        return (
+          <g key={view} transform={`translate(${left} 0)`}>
+            <rect
+              width={VIEW_WIDTH}
+              height={VIEW_HEIGHT}
+              rx={4}
+              className={`fill-muted/40 stroke-border ${onMark ? "cursor-crosshair" : ""}`}
+              onClick={onMark ? (e) => {
+                const box = e.currentTarget.getBoundingClientRect();
+                onMark(view, (e.clientX - box.left) / box.width, (e.clientY - box.top) / box.height);
+              } : undefined}
+              data-testid={`${testId}-${view}`}
+            />
+            {DIAGRAM_OUTLINES[view].map((line, j) => (
+              <polyline
+                key={j}
+                points={line.map(([x, y]) => `${x * VIEW_WIDTH},${y * VIEW_HEIGHT}`).join(" ")}
+                className="fill-none stroke-muted-foreground pointer-events-none"
+                strokeWidth={1}
+              />
+            ))}
+            <text x={VIEW_WIDTH / 2} y={VIEW_HEIGHT + 10} textAnchor="middle" className="fill-muted-foreground text-[8px] capitalize">
+              {view}
+            </text>
+          </g>
+        );
+      })}
+      {markers.map((marker, i) => {
+        const index = DIAGRAM_VIEWS.indexOf(marker.view as DiagramView);
+        if (index < 0) return null;
+        const cx = index * (VIEW_WIDTH + GAP) + marker.x * VIEW_WIDTH;
+        const cy = marker.y * VIEW_HEIGHT;
+        return (
+          <g key={i} className="pointer-events-none" data-testid={`${testId}-marker-${i + 1}`}>
+            <circle cx={cx} cy={cy} r={4.5} className={marker.isNew ? "fill-red-600" : "fill-foreground"} />
+            <text x={cx} y={cy + 2.5} textAnchor="middle" className="fill-background text-[6px] font-bold">
+              {i + 1}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
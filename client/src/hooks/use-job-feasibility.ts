@@ -0,0 +1,76 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { FeasibilityReport } from "@shared/feasibility";
+
+export interface JobFeasibilityFormValues {
+  fromLocation: string;
+  fromLat: number;
+  fromLng: number;
+  toLocation: string;
+  toLat: number;
+  toLng: number;
+  estimatedStartTime: string;
+  estimatedEndTime: string;
+}
+
+// The job dialogs' HH:MM times on the schedule's date; an end at or before the start is the next day
+export function jobTimesOnDate(scheduleDate: string, start: string, end: string) {
+  const [startHour, startMin] = start.split(':').map(Number);
+  const [endHour, endMin] = end.split(':').map(Number);
+
+  const startDate = new Date(scheduleDate);
+  startDate.setHours(startHour, startMin, 0, 0);
+  const endDate = new Date(scheduleDate);
+  endDate.setHours(endHour, endMin, 0, 0);
+  if (endDate <= startDate) {
+    endDate.setDate(endDate.getDate() + 1);
+  }
+  return { startDate, endDate };
+}
+
+// Checks the job being added or edited against the rest of the day as the form changes.
+// Nothing is checked until both locations are resolved and both times are set.
+export function useJobFeasibility(
+  scheduleId: string,
+  scheduleDate: string,
+  values: JobFeasibilityFormValues,
+  jobId?: string,
+) {
+  const timePattern = /^\d{2}:\d{2}$/;
+  const complete =
+    !!values.fromLat && !!values.fromLng && !!values.toLat && !!values.toLng &&
+    timePattern.test(values.estimatedStartTime) && timePattern.test(values.estimatedEndTime);
+
+  const check = complete ? (() => {
+    const { startDate, endDate } = jobTimesOnDate(scheduleDate, values.estimatedStartTime, values.estimatedEndTime);
+    return {
+      scheduleId,
+      jobId,
+      fromLocation: values.fromLocation,
+      fromLat: values.fromLat,
+      fromLng: values.fromLng,
+      toLocation: values.toLocation,
+      toLat: values.toLat,
+      toLng: values.toLng,
+      estimatedStartTime: startDate.toISOString(),
+      estimatedEndTime: endDate.toISOString(),
+    };
+  })() : null;
+
+  const query = useQuery<FeasibilityReport>({
+    queryKey: ["/api/jobs/check-feasibility", check],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/jobs/check-feasibility", check);
+      return res.json();
+    },
+    enabled: check !== null,
+    placeholderData: keepPreviousData,
+  });
+
+  const report = check ? query.data : undefined;
+  return {
+    report,
+    isChecking: query.isFetching,
+    hasErrors: !!report && !report.feasible,
+  };
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { getPendingCount, subscribeOutbox } from "@/lib/offline-queue";
+
+// How many requests the service worker is holding until the connection is back
+export function usePendingSync(): number {
+  return useSyncExternalStore(subscribeOutbox, getPendingCount);
+}
@@ -1,4 +1,5 @@
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ClientMessage } from '@shared/realtime';
 
 interface WebSocketNotification {
   type: 'driver-check-in' | 'driver-check-out';
@@ -11,14 +12,60 @@ interface WebSocketNotification {
   timestamp: string;
 }
 
-export function useWebSocket(onNotification: (notification: WebSocketNotification) => void) {
+interface UseWebSocketOptions {
+  // Topics to receive shared events for (see @shared/realtime); private notifications arrive regardless
+  topics?: string[];
+}
+
+const MAX_RECONNECT_DELAY = 30000;
+// Keeps idle connections open through proxies that drop quiet sockets
+const HEARTBEAT_INTERVAL = 25000;
+
+// The socket authenticates with the session cookie; the server rejects it until the user is signed in
+export function useWebSocket<T = WebSocketNotification>(
+  onNotification: (notification: T) => void,
+  { topics = [] }: UseWebSocketOptions = {}
+) {
   const wsRef = useRef<WebSocket | null>(null);
+  const onNotificationRef = useRef(onNotification);
+  const subscribedRef = useRef<Set<string>>(new Set());
   const [isConnected, setIsConnected] = useState(false);
+  const topicsKey = Array.from(new Set(topics)).sort().join(',');
+
+  onNotificationRef.current = onNotification;
+
+  // Returns false when the socket isn't open; the message is not queued
+  const send = useCallback((message: ClientMessage) => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return false;
+    ws.send(JSON.stringify(message));
+    return true;
+  }, []);
+
+  const syncTopics = () => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+    const wanted = new Set(topicsKey ? topicsKey.split(',') : []);
+    subscribedRef.current.forEach((topic) => {
+      if (!wanted.has(topic)) send({ type: 'unsubscribe', topic });
+    });
+    wanted.forEach((topic) => {
+      if (!subscribedRef.current.has(topic)) send({ type: 'subscribe', topic });
+    });
+    subscribedRef.current = wanted;
+  };
+  const syncTopicsRef = useRef(syncTopics);
+  syncTopicsRef.current = syncTopics;
 
   useEffect(() => {
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsUrl = `${protocol}//${window.location.host}/ws`;
-    
+    let reconnectDelay = 3000;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    let closed = false;
+
     const connect = () => {
       const ws = new WebSocket(wsUrl);
       wsRef.current = ws;
@@ -26,12 +73,22 @@ export function useWebSocket(onNotification: (notification: WebSocketNotificatio
       ws.onopen = () => {
         console.log('WebSocket connected');
         setIsConnected(true);
+        reconnectDelay = 3000;
+        subscribedRef.current = new Set();
+        syncTopicsRef.current();
+        heartbeat = setInterval(() => send({ type: 'ping' }), HEARTBEAT_INTERVAL);
       };
 
       ws.onmessage = (event) => {
         try {
           const notification = JSON.parse(event.data);
-          onNotification(notification);
+          // Protocol replies; errors are logged so rejected messages don't fail silently
+          if (notification.type === 'pong' || notification.type === 'ack') return;
+          if (notification.type === 'error') {
+            console.warn('WebSocket error reply:', notification.code, notification.message);
+            return;
+          }
+          onNotificationRef.current(notification);
         } catch (error) {
           console.error('Failed to parse WebSocket message:', error);
         }
@@ -44,19 +101,29 @@ export function useWebSocket(onNotification: (notification: WebSocketNotificatio
       ws.onclose = () => {
         console.log('WebSocket disconnected');
         setIsConnected(false);
-        // Reconnect after 3 seconds
-        setTimeout(connect, 3000);
+        clearInterval(heartbeat);
+        if (closed) return;
+        // Back off while signed out or the server is down
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
       };
     };
 
     connect();
 
     return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      clearInterval(heartbeat);
       if (wsRef.current) {
         wsRef.current.close();
       }
     };
-  }, [onNotification]);
+  }, []);
+
+  useEffect(() => {
+    syncTopicsRef.current();
+  }, [topicsKey]);
 
-  return { isConnected };
+  return { isConnected, send };
 }
@@ -1,3 +1,5 @@
+import { estimateDriveMinutes } from "@shared/speed-model";
+
 export function calculateDistance(
   lat1: number,
   lon1: number,
@@ -22,6 +24,8 @@ function toRad(degrees: number): number {
   return (degrees * Math.PI) / 180;
 }
 
+// Driving minutes between two points on the same speed model the server's offline routing uses;
+// an average speed overrides it for a flat straight-line estimate
 export function estimateJourneyTime(
   fromLat: number,
   fromLng: number,
@@ -30,25 +34,10 @@ export function estimateJourneyTime(
   averageSpeedMph?: number
 ): number {
   const distanceMiles = calculateDistance(fromLat, fromLng, toLat, toLng);
-  
-  // Smart speed estimation based on distance for UK driving conditions
-  // Short trips (<15 miles) are likely urban with heavy traffic
-  // Medium trips (15-40 miles) mix of urban/suburban
-  // Long trips (>40 miles) include motorways but still conservative
-  let speedMph = averageSpeedMph;
-  if (!speedMph) {
-    if (distanceMiles < 15) {
-      speedMph = 20; // Urban: London, Birmingham, Manchester traffic
-    } else if (distanceMiles < 40) {
-      speedMph = 30; // Mixed urban/suburban
-    } else {
-      speedMph = 40; // Longer routes with motorway portions
-    }
+  if (averageSpeedMph) {
+    return Math.max(1, Math.ceil((distanceMiles / averageSpeedMph) * 60));
   }
-  
-  const timeHours = distanceMiles / speedMph;
-  const timeMinutes = Math.ceil(timeHours * 60);
-  return Math.max(1, timeMinutes);
+  return estimateDriveMinutes(distanceMiles);
 }
 
 export function formatDuration(minutes: number): string {
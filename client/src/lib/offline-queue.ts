@@ -0,0 +1,62 @@
+// The service worker (client/public/sw.js) queues check-ins, check-outs, job changes and messages
+// made without a connection and sends them once it's back. A queued request gets a 202 with this
+// header instead of the server's response.
+export const QUEUED_HEADER = "X-Queued-Offline";
+
+export function isQueuedOffline(res: Response): boolean {
+  return res.status === 202 && res.headers.get(QUEUED_HEADER) === "true";
+}
+
+export interface OutboxFailure {
+  method: string;
+  path: string;
+  queuedAt: number;
+  status: number; // 0 when it was never sent
+  error: string;
+}
+
+// Posted by the service worker whenever the queue changes
+export interface OutboxStatus {
+  pending: number;
+  synced: number; // Sent since the last status
+  failed: OutboxFailure[]; // Refused by the server, or given up on, since the last status
+}
+
+type OutboxListener = (status: OutboxStatus) => void;
+
+const listeners = new Set<OutboxListener>();
+let pending = 0;
+
+export function getPendingCount(): number {
+  return pending;
+}
+
+export function subscribeOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function postToWorker(message: { type: "replay-outbox" | "outbox-status" }) {
+  navigator.serviceWorker.ready.then((registration) => registration.active?.postMessage(message));
+}
+
+export function registerServiceWorker(): void {
+  if (!("serviceWorker" in navigator)) return;
+
+  navigator.serviceWorker.addEventListener("message", (event: MessageEvent) => {
+    if (event.data?.type !== "outbox") return;
+    const status = event.data as OutboxStatus & { type: "outbox" };
+    pending = status.pending;
+    listeners.forEach((listener) => listener(status));
+  });
+
+  navigator.serviceWorker.register("/sw.js").catch((error) => {
+    console.error("Service worker registration failed:", error);
+  });
+
+  // Browsers without Background Sync send the queue when the page sees the connection come back
+  window.addEventListener("online", () => postToWorker({ type: "replay-outbox" }));
+  postToWorker({ type: navigator.onLine ? "replay-outbox" : "outbox-status" });
+}
@@ -1,22 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
 import "./index.css";
+import { registerServiceWorker } from "./lib/offline-queue";
 
-// SERVICE WORKER DISABLED - UNREGISTERING OLD CACHE
-if ('serviceWorker' in navigator) {
-  navigator.serviceWorker.getRegistrations().then((registrations) => {
-    registrations.forEach((registration) => {
-      registration.unregister();
-      console.log('🗑️ OLD Service Worker unregistered');
-    });
-  });
-  // Clear all caches
-  caches.keys().then((cacheNames) => {
-    cacheNames.forEach((cacheName) => {
-      caches.delete(cacheName);
-      console.log('🗑️ Cache deleted:', cacheName);
-    });
-  });
-}
+// The service worker caches the app shell and queues check-ins and other changes made offline
+registerServiceWorker();
 
 createRoot(document.getElementById("root")!).render(<App />);
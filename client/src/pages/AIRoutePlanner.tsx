@@ -8,6 +8,8 @@ import { apiRequest } from "@/lib/queryClient";
 import { format } from "date-fns";
 
 const currentUserId = "user-1"; // Mock - will be replaced with real auth
+// Jobs can be collected this long either side of their scheduled start
+const PICKUP_FLEX_MINUTES = 30;
 
 interface Job {
   id: string;
@@ -29,17 +31,35 @@ interface RoutePlan {
   summary: string;
   itinerary: Array<{
     leg_id: string;
+    arrive_pickup: string;
+    wait_minutes: number;
     pickup_eta: string;
+    inspection_end: string;
     dropoff_eta: string;
     eta_low: string;
     eta_high: string;
+    reposition_miles: number;
+    reposition_minutes: number;
+    late_minutes: number;
     advisories: string[];
   }>;
   route: {
     polyline: string;
     distance_miles: number;
     drive_minutes: number;
+    reposition_miles: number;
   };
+  comparison: {
+    original: RouteTotals;
+    optimized: RouteTotals;
+    miles_saved: number;
+    minutes_saved: number;
+    late_minutes_saved: number;
+  };
+  infeasible_legs: Array<{
+    leg_id: string;
+    reasons: string[];
+  }>;
   suggested_meet_windows: Array<{
     window_start: string;
     window_end: string;
@@ -52,14 +72,24 @@ interface RoutePlan {
   }>;
 }
 
+interface RouteTotals {
+  order: string[];
+  distance_miles: number;
+  total_minutes: number;
+  late_minutes: number;
+  finish: string;
+}
+
 interface DensityAnalysis {
   density_score: number;
   label: string;
   active_driver_count: number;
+  expected_from_history: number;
   predicted_available_in_window: number;
   hotspots: Array<{
     center: { lat: number; lng: number };
     radius_miles: number;
+    count: number;
     score: number;
     why: string;
   }>;
@@ -119,12 +149,21 @@ export default function AIRoutePlanner() {
         throw new Error("No valid jobs selected");
       }
 
-      const legs = selectedJobs.map((j) => ({
-        leg_id: j.id,
-        pickup: { lat: j.fromLat, lng: j.fromLng },
-        dropoff: { lat: j.toLat, lng: j.toLng },
-        notes: ""
-      }));
+      const flexMs = PICKUP_FLEX_MINUTES * 60 * 1000;
+      const legs = selectedJobs.map((j) => {
+        const start = new Date(j.estimatedStartTime).getTime();
+        return {
+          leg_id: j.id,
+          pickup: { lat: j.fromLat, lng: j.fromLng },
+          dropoff: { lat: j.toLat, lng: j.toLng },
+          time_window: {
+            earliest: new Date(start - flexMs).toISOString(),
+            latest: new Date(start + flexMs).toISOString()
+          },
+          notes: `${j.fromLocation} → ${j.toLocation}`
+        };
+      });
+      const firstStart = Math.min(...selectedJobs.map((j) => new Date(j.estimatedStartTime).getTime()));
 
       // Call route optimization
       const planRes = await apiRequest("POST", "/api/ai/plan-route", {
@@ -133,7 +172,7 @@ export default function AIRoutePlanner() {
         legs,
         optimize_order: true,
         preferences: {
-          start_time: selectedJobs[0]?.estimatedStartTime || new Date().toISOString()
+          start_time: new Date(firstStart - flexMs).toISOString()
         }
       });
       
@@ -363,6 +402,37 @@ export default function AIRoutePlanner() {
                   </p>
                 </div>
               </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">vs. selected order</span>
+                <span className="font-semibold" data-testid="text-route-savings">
+                  {routePlan.comparison.minutes_saved > 0 || routePlan.comparison.miles_saved > 0
+                    ? `${routePlan.comparison.minutes_saved} min, ${routePlan.comparison.miles_saved} mi saved`
+                    : "Already optimal"}
+                </span>
+              </div>
+              {routePlan.comparison.late_minutes_saved > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {routePlan.comparison.late_minutes_saved} fewer minutes outside pickup windows
+                </p>
+              )}
+              {routePlan.infeasible_legs.length > 0 && (
+                <div className="space-y-2" data-testid="list-infeasible-legs">
+                  <p className="text-xs font-medium text-destructive">Can't meet time window</p>
+                  {routePlan.infeasible_legs.map((leg) => {
+                    const job = jobs?.find((j) => j.id === leg.leg_id);
+                    return (
+                      <div key={leg.leg_id} className="p-2 border border-destructive/30 rounded-md text-xs space-y-1">
+                        <p className="font-medium">
+                          {job ? `${job.fromLocation} → ${job.toLocation}` : leg.leg_id}
+                        </p>
+                        {leg.reasons.map((reason, idx) => (
+                          <p key={idx} className="text-muted-foreground">{reason}</p>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -391,6 +461,10 @@ export default function AIRoutePlanner() {
                 <span className="text-sm text-muted-foreground">Active Drivers</span>
                 <span className="text-sm font-semibold">{densityAnalysis.active_driver_count}</span>
               </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Usual at This Hour</span>
+                <span className="text-sm font-semibold">{densityAnalysis.expected_from_history}</span>
+              </div>
               <div className="flex items-center justify-between">
                 <span className="text-sm text-muted-foreground">Predicted Available</span>
                 <span className="text-sm font-semibold">{densityAnalysis.predicted_available_in_window}</span>
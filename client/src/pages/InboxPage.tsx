@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { ArrowLeft, Send, Search } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isQueuedOffline } from "@/lib/offline-queue";
 import { useToast } from "@/hooks/use-toast";
 import type { Message } from "@shared/schema";
 
@@ -51,15 +52,23 @@ export default function InboxPage() {
     mutationFn: async (content: string) => {
       if (!selectedUserId) return;
       const res = await apiRequest("POST", "/api/messages", {
-        senderId: currentUserId,
         receiverId: selectedUserId,
         content,
+        // Sent later if queued offline; the message keeps the time it was written
+        recordedAt: new Date().toISOString(),
       });
-      return res.json();
+      return isQueuedOffline(res) ? { queued: true } : res.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/messages/between", currentUserId, selectedUserId] });
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations", currentUserId] });
+    onSuccess: (result) => {
+      if (result?.queued) {
+        toast({
+          title: "Message Queued",
+          description: "It will be sent when you're back online",
+        });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/messages/between", currentUserId, selectedUserId] });
+        queryClient.invalidateQueries({ queryKey: ["/api/conversations", currentUserId] });
+      }
       setNewMessage("");
     },
     onError: (error) => {
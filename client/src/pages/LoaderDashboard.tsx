@@ -11,6 +11,9 @@ import { useToast } from "@/hooks/use-toast";
 import type { LoaderSpace, User } from "@shared/schema";
 import { Truck, Package, Clock } from "lucide-react";
 
+// The server resolves these to coordinates; the slashes are optional
+const THREE_WORD_ADDRESS = /^(\/\/\/)?[^\s./\d]+\.[^\s./\d]+\.[^\s./\d]+$/;
+
 interface LoaderSpaceWithUser extends LoaderSpace {
   user: User;
 }
@@ -81,6 +84,16 @@ export default function LoaderDashboard() {
 
   const handlePostSpace = async () => {
     const userId = localStorage.getItem("uid") || "user-1";
+    const invalidW3W = [formData.originW3W, formData.destW3W]
+      .find((address) => address.trim() && !THREE_WORD_ADDRESS.test(address.trim()));
+    if (invalidW3W) {
+      toast({
+        title: "Check the What3Words address",
+        description: `"${invalidW3W}" should look like ///filled.count.soap`,
+        variant: "destructive",
+      });
+      return;
+    }
     setIsPosting(true);
 
     try {
@@ -107,7 +120,7 @@ export default function LoaderDashboard() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to post space",
+        description: error instanceof Error ? error.message : "Failed to post space",
         variant: "destructive",
       });
     } finally {
@@ -192,7 +205,7 @@ export default function LoaderDashboard() {
               id="origin"
               value={formData.originW3W}
               onChange={(e) => setFormData({ ...formData, originW3W: e.target.value })}
-              placeholder="e.g., filled.count.soap"
+              placeholder="e.g., ///filled.count.soap"
               data-testid="input-origin-w3w"
             />
           </div>
@@ -203,7 +216,7 @@ export default function LoaderDashboard() {
               id="dest"
               value={formData.destW3W}
               onChange={(e) => setFormData({ ...formData, destW3W: e.target.value })}
-              placeholder="e.g., index.home.raft"
+              placeholder="e.g., ///index.home.raft"
               data-testid="input-dest-w3w"
             />
           </div>
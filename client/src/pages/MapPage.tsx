@@ -1,11 +1,23 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useWebSocket } from "@/hooks/useWebSocket";
 import MapView from "@/components/MapView";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Navigation, Car, Users as UsersIcon, MapPin } from "lucide-react";
-import type { LiftOffer, LiftRequest } from "@shared/schema";
+import type { LiftOffer, LiftRequest, LoaderSpace, User } from "@shared/schema";
+import { regionTopicsAround, type LivePosition, type ServerMessage } from "@shared/realtime";
+
+interface LiveDriver extends LivePosition {
+  distance: number;
+  driverName: string;
+  callSign: string | null;
+}
+
+// Matches the server's POSITION_TTL_MS; drivers who stop sending drop off the map
+const LIVE_POSITION_TTL_MS = 2 * 60 * 1000;
 
 export default function MapPage() {
   // Initialize with Birmingham fallback for mobile
@@ -30,6 +42,64 @@ export default function MapPage() {
     refetchInterval: 30000, // Refresh every 30 seconds
   });
 
+  // Low-loader space, placed by its resolved What3Words origin
+  const { data: loaderSpaces = [] } = useQuery<(LoaderSpace & { user: User })[]>({
+    queryKey: ["/api/loader-spaces/available"],
+  });
+
+  // Drivers streaming their location nearby, kept current by driver-position events
+  const liveQueryKey = ["/api/live-positions", userLocation?.lat, userLocation?.lng];
+  const { data: liveDrivers = [] } = useQuery<LiveDriver[]>({
+    queryKey: liveQueryKey,
+    queryFn: async () => {
+      const params = new URLSearchParams({ lat: String(userLocation!.lat), lng: String(userLocation!.lng) });
+      const response = await apiRequest("GET", `/api/live-positions?${params}`);
+      return response.json();
+    },
+    enabled: !!userLocation,
+    refetchInterval: 60000,
+  });
+
+  const handleNotification = useCallback((update: ServerMessage) => {
+    if (update.type !== "driver-position") return;
+    queryClient.setQueryData<LiveDriver[]>(liveQueryKey, (drivers = []) => {
+      const existing = drivers.find((d) => d.userId === update.driverId);
+      // Unknown drivers are picked up with their names on the next refetch
+      if (!existing) return drivers;
+      return drivers.map((d) => d.userId === update.driverId
+        ? { ...d, lat: update.lat, lng: update.lng, speedKph: update.speedKph, bearingDeg: update.bearingDeg, updatedAt: update.timestamp }
+        : d);
+    });
+  }, [userLocation?.lat, userLocation?.lng]);
+
+  const topics = useMemo(
+    () => userLocation ? regionTopicsAround(userLocation.lat, userLocation.lng) : [],
+    [userLocation?.lat, userLocation?.lng]
+  );
+  const { send } = useWebSocket(handleNotification, { topics });
+
+  // Optionally stream my own position so nearby users see me live
+  const [sharingLocation, setSharingLocation] = useState(false);
+  useEffect(() => {
+    if (!sharingLocation || !navigator.geolocation) return;
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        const { heading } = position.coords;
+        send({
+          type: "location",
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          speedKph: position.coords.speed != null ? position.coords.speed * 3.6 : undefined,
+          bearingDeg: heading == null || Number.isNaN(heading) ? null : heading,
+          accuracyM: position.coords.accuracy,
+        });
+      },
+      () => setSharingLocation(false),
+      { enableHighAccuracy: true, maximumAge: 5000 }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [sharingLocation, send]);
+
   // Get user's current GPS location
   useEffect(() => {
     if (navigator.geolocation) {
@@ -48,8 +118,8 @@ export default function MapPage() {
     }
   }, []);
 
-  // Convert lift offers to map markers
-  const offerMarkers = liftOffers.map((offer) => ({
+  // Convert lift offers to map markers; a repeating offer's template is shown through its dated lifts
+  const offerMarkers = liftOffers.filter((offer) => offer.status !== "recurring").map((offer) => ({
     id: offer.id,
     name: `Offer by ${offer.driverId}`, // TODO: Fetch actual driver name
     fromLat: offer.fromLat,
@@ -84,7 +154,36 @@ export default function MapPage() {
       toLocation: job.toLocation,
     }));
 
-  const allOffers = [...offerMarkers, ...driverMarkers];
+  // Live drivers sit where they are now; an update older than the TTL means they've gone quiet
+  const now = Date.now();
+  const liveMarkers = liveDrivers
+    .filter((driver) => now - new Date(driver.updatedAt).getTime() <= LIVE_POSITION_TTL_MS)
+    .map((driver) => ({
+      id: `live-${driver.userId}`,
+      name: driver.callSign || driver.driverName,
+      fromLat: driver.lat,
+      fromLng: driver.lng,
+      toLat: driver.lat,
+      toLng: driver.lng,
+      fromLocation: "Live location",
+      toLocation: "",
+    }));
+
+  // Spaces whose origin hasn't been resolved to coordinates yet stay off the map until back-filled
+  const loaderMarkers = loaderSpaces
+    .filter((space) => space.originLat !== null && space.originLng !== null)
+    .map((space) => ({
+      id: `loader-${space.id}`,
+      name: `Loader space by ${space.user.callSign || space.user.name}`,
+      fromLat: space.originLat!,
+      fromLng: space.originLng!,
+      toLat: space.destLat ?? space.originLat!,
+      toLng: space.destLng ?? space.originLng!,
+      fromLocation: space.originLocation || space.originW3W || "",
+      toLocation: space.destLocation || space.destW3W || "",
+    }));
+
+  const allOffers = [...offerMarkers, ...driverMarkers, ...liveMarkers, ...loaderMarkers];
 
   return (
     <div className="h-full flex flex-col">
@@ -103,7 +202,7 @@ export default function MapPage() {
           </Card>
           <Card className="p-3 flex flex-col items-center gap-1">
             <MapPin className="h-5 w-5 text-green-600" />
-            <span className="text-xl font-bold">{checkedInDrivers.length}</span>
+            <span className="text-xl font-bold">{checkedInDrivers.length + liveMarkers.length}</span>
             <span className="text-xs text-muted-foreground">Active</span>
           </Card>
         </div>
@@ -116,6 +215,18 @@ export default function MapPage() {
           liftRequests={requestMarkers}
         />
 
+        {/* Share Live Location Toggle */}
+        <Button
+          variant={sharingLocation ? "default" : "secondary"}
+          size="sm"
+          className="absolute bottom-4 left-4 shadow-lg"
+          onClick={() => setSharingLocation((sharing) => !sharing)}
+          data-testid="button-share-location"
+        >
+          <MapPin className="h-4 w-4 mr-1" />
+          {sharingLocation ? "Sharing live" : "Share location"}
+        </Button>
+
         {/* Center on User Button */}
         {userLocation && (
           <Button
@@ -1,13 +1,115 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueries, useMutation } from "@tanstack/react-query";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
-import { MapPin, Clock, Car, Users, MessageCircle, Trash2, TrendingUp } from "lucide-react";
+import { MapPin, Clock, Car, Users, MessageCircle, Trash2, TrendingUp, Check, X, Repeat, SkipForward, CalendarClock } from "lucide-react";
 import { format } from "date-fns";
-import type { LiftOffer, LiftRequest } from "@shared/schema";
-import { useState } from "react";
-import { findMatchingRequests, findMatchingOffers } from "@/lib/matching";
+import type { LiftBooking, LiftOffer, LiftRequest } from "@shared/schema";
+import { useCallback, useState } from "react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWebSocket } from "@/hooks/useWebSocket";
+import { liftOfferTopic } from "@shared/realtime";
+
+const ACTIVE_BOOKING_STATUSES = ["requested", "accepted", "picked-up"];
+
+interface MatchComponent {
+  score: number;
+  max: number;
+  detail: string;
+}
+
+// Response shape of GET /api/lift-offers/:id/matches and /api/lift-requests/:id/matches
+interface LiftMatch {
+  offerId: string;
+  requestId: string;
+  score: number;
+  detourKm: number;
+  pickupAt: string | null;
+  components: Record<"detour" | "time" | "coverage" | "price", MatchComponent>;
+  request?: LiftRequest;
+  offer?: LiftOffer;
+}
+
+// One line per score component, shown as the match row's tooltip
+function describeMatch(match: LiftMatch): string {
+  return Object.entries(match.components)
+    .map(([name, c]) => `${name}: ${c.score}/${c.max} – ${c.detail}`)
+    .join("\n");
+}
+
+interface OfferBookingsProps {
+  offerId: string;
+  onUpdate: (bookingId: string, status: "accepted" | "cancelled") => void;
+  isUpdating: boolean;
+}
+
+// Pending and confirmed seat bookings on one of my offers, with accept/decline for new requests
+function OfferBookings({ offerId, onUpdate, isUpdating }: OfferBookingsProps) {
+  const { data: bookings = [] } = useQuery<LiftBooking[]>({
+    queryKey: ["/api/lift-offers", offerId, "bookings"],
+  });
+
+  const activeBookings = bookings.filter((b) => ACTIVE_BOOKING_STATUSES.includes(b.status));
+  if (activeBookings.length === 0) return null;
+
+  return (
+    <div className="pt-3 border-t">
+      <p className="text-xs font-medium text-muted-foreground mb-2">
+        Seat Bookings ({activeBookings.length})
+      </p>
+      <div className="space-y-1">
+        {activeBookings.map((booking) => (
+          <div
+            key={booking.id}
+            className="text-xs p-2 bg-muted rounded-md flex items-center justify-between"
+            data-testid={`booking-${booking.id}`}
+          >
+            <div>
+              <span className="font-medium">
+                {booking.seats} {booking.seats === 1 ? 'seat' : 'seats'}
+              </span>
+              {booking.message && (
+                <span className="text-muted-foreground"> · {booking.message}</span>
+              )}
+            </div>
+            {booking.status === "requested" ? (
+              <div className="flex gap-1">
+                <Button
+                  variant="default"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  disabled={isUpdating}
+                  onClick={() => onUpdate(booking.id, "accepted")}
+                  data-testid={`button-accept-booking-${booking.id}`}
+                >
+                  <Check className="h-3 w-3 mr-1" />
+                  Accept
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  disabled={isUpdating}
+                  onClick={() => onUpdate(booking.id, "cancelled")}
+                  data-testid={`button-decline-booking-${booking.id}`}
+                >
+                  <X className="h-3 w-3 mr-1" />
+                  Decline
+                </Button>
+              </div>
+            ) : (
+              <Badge variant="secondary" className="text-[10px] h-4">
+                {booking.status}
+              </Badge>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
 
 export default function MatchesPage() {
   const userId = "user-1"; // TODO: Get from auth context
@@ -23,19 +125,147 @@ export default function MatchesPage() {
     queryKey: ["/api/lift-requests/requester", userId],
   });
 
-  // Fetch ALL lift offers
-  const { data: allOffers = [] } = useQuery<LiftOffer[]>({
-    queryKey: ["/api/lift-offers"],
+  // Fetch seats I've booked on other drivers' offers
+  const { data: myBookings = [] } = useQuery<LiftBooking[]>({
+    queryKey: ["/api/lift-bookings/passenger", userId],
+  });
+
+  const { toast } = useToast();
+
+  const refreshBookings = (offerId: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/lift-offers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/lift-offers/driver", userId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/lift-offers", offerId, "bookings"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/lift-bookings/passenger", userId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/lift-requests"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/lift-requests/requester", userId] });
+  };
+
+  // New matches and booking changes are pushed by the server; refresh and let the user know
+  const handleNotification = useCallback((notification: any) => {
+    // Seats changed on an offer matched to one of my requests
+    if (notification.type === "lift-offer-updated") {
+      queryClient.invalidateQueries({ queryKey: ["/api/lift-requests"] });
+      return;
+    }
+    if (notification.userId !== userId) return;
+    if (notification.type !== "lift-match" && notification.type !== "lift-booking") return;
+
+    refreshBookings(notification.offerId);
+    queryClient.invalidateQueries({ queryKey: ["/api/conversations", userId] });
+    toast({
+      title: notification.type === "lift-match" ? "New Lift Match" : "Lift Booking Update",
+      description: notification.message,
+    });
+  }, [toast]);
+
+  // Request a seat on a matching offer
+  const requestSeat = useMutation({
+    mutationFn: async ({ offerId, requestId }: { offerId: string; requestId: string }) => {
+      const res = await apiRequest("POST", `/api/lift-offers/${offerId}/bookings`, { requestId });
+      return res.json() as Promise<LiftBooking>;
+    },
+    onSuccess: (booking) => {
+      refreshBookings(booking.offerId);
+      toast({
+        title: "Seat Requested",
+        description: "The driver will be notified of your request",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Request Seat",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Accept or decline a seat request on one of my offers
+  const updateBooking = useMutation({
+    mutationFn: async ({ bookingId, status }: { bookingId: string; status: "accepted" | "cancelled" }) => {
+      const res = await apiRequest("PATCH", `/api/lift-bookings/${bookingId}/status`, { status });
+      return res.json() as Promise<LiftBooking>;
+    },
+    onSuccess: (booking) => {
+      refreshBookings(booking.offerId);
+      toast({
+        title: booking.status === "accepted" ? "Booking Accepted" : "Booking Declined",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Update Booking",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Skip one date of a repeating offer; the rest of the series carries on
+  const skipOccurrence = useMutation({
+    mutationFn: async (offerId: string) => {
+      const res = await apiRequest("POST", `/api/lift-offers/${offerId}/skip`);
+      return res.json() as Promise<LiftOffer>;
+    },
+    onSuccess: (offer) => {
+      refreshBookings(offer.id);
+      toast({ title: "Lift Skipped", description: format(new Date(offer.departureTime), "PPP") });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Skip Lift",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    },
   });
 
-  // Fetch ALL lift requests
-  const { data: allRequests = [] } = useQuery<LiftRequest[]>({
-    queryKey: ["/api/lift-requests"],
+  // Deleting a repeating offer also cancels its upcoming lifts
+  const deleteOffer = useMutation({
+    mutationFn: async (offer: LiftOffer) => {
+      await apiRequest("DELETE", `/api/lift-offers/${offer.id}`);
+      return offer;
+    },
+    onSuccess: (offer) => {
+      refreshBookings(offer.id);
+      toast({
+        title: offer.status === "recurring" ? "Repeating Offer Deleted" : "Lift Offer Deleted",
+        description: offer.status === "recurring" ? "Upcoming lifts in the series were cancelled" : undefined,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Delete Offer",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    },
   });
 
-  // Filter out my own posts
-  const otherRequests = allRequests.filter((req: LiftRequest) => req.requesterId !== userId);
-  const otherOffers = allOffers.filter((offer: LiftOffer) => offer.driverId !== userId);
+  // Server-side matches for each of my offers and requests, scored by detour and time window
+  const offerMatches = useQueries({
+    queries: myOffers.map((offer) => ({ queryKey: ["/api/lift-offers", offer.id, "matches"] })),
+    combine: (results) => results.map((result) =>
+      ((result.data ?? []) as LiftMatch[]).map((match) => ({ ...match.request!, matchScore: match.score, match }))
+    ),
+  });
+  const requestMatches = useQueries({
+    queries: myRequests.map((request) => ({ queryKey: ["/api/lift-requests", request.id, "matches"] })),
+    combine: (results) => results.map((result) =>
+      ((result.data ?? []) as LiftMatch[]).map((match) => ({ ...match.offer!, matchScore: match.score, match }))
+    ),
+  });
+
+  useWebSocket(handleNotification, {
+    topics: requestMatches.flat().map((offer) => liftOfferTopic(offer.id)),
+  });
+
+  const bookingsByOffer = new Map(
+    myBookings
+      .filter((b) => ACTIVE_BOOKING_STATUSES.includes(b.status))
+      .map((b) => [b.offerId, b] as const)
+  );
 
   return (
     <div className="h-full overflow-y-auto p-4">
@@ -62,9 +292,8 @@ export default function MatchesPage() {
               </p>
             </Card>
           ) : (
-            myOffers.map((offer) => {
-              // Find SMART matches for THIS specific offer
-              const matches = findMatchingRequests(offer, otherRequests);
+            myOffers.map((offer, index) => {
+              const matches = offerMatches[index] ?? [];
               
               return (
                 <Card key={offer.id} data-testid={`card-offer-${offer.id}`}>
@@ -75,9 +304,23 @@ export default function MatchesPage() {
                           <Car className="h-4 w-4 text-primary" />
                           Your Lift Offer
                         </CardTitle>
-                        <Badge variant="outline" className="text-xs">
-                          {offer.availableSeats} {offer.availableSeats === 1 ? 'seat' : 'seats'}
-                        </Badge>
+                        <div className="flex gap-1">
+                          <Badge variant="outline" className="text-xs">
+                            {offer.availableSeats} {offer.availableSeats === 1 ? 'seat' : 'seats'}
+                          </Badge>
+                          {offer.repeatPattern && offer.repeatPattern !== 'None' && (
+                            <Badge variant="outline" className="text-xs" data-testid={`badge-repeat-${offer.id}`}>
+                              <Repeat className="h-3 w-3 mr-1" />
+                              {offer.status === 'recurring' ? `Repeats ${offer.repeatPattern.toLowerCase()}` : offer.repeatPattern}
+                            </Badge>
+                          )}
+                          {offer.sourceJobId && (
+                            <Badge variant="outline" className="text-xs" data-testid={`badge-schedule-${offer.id}`}>
+                              <CalendarClock className="h-3 w-3 mr-1" />
+                              From schedule
+                            </Badge>
+                          )}
+                        </div>
                       </div>
                       <Badge variant={offer.status === 'available' ? 'default' : 'secondary'}>
                         {offer.status}
@@ -112,11 +355,35 @@ export default function MatchesPage() {
                         <MessageCircle className="h-4 w-4 mr-1" />
                         Messages
                       </Button>
-                      <Button variant="ghost" size="sm" data-testid={`button-delete-offer-${offer.id}`}>
+                      {offer.occurrenceDate && offer.status === 'available' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => skipOccurrence.mutate(offer.id)}
+                          disabled={skipOccurrence.isPending}
+                          data-testid={`button-skip-offer-${offer.id}`}
+                        >
+                          <SkipForward className="h-4 w-4 mr-1" />
+                          Skip
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteOffer.mutate(offer)}
+                        disabled={deleteOffer.isPending}
+                        data-testid={`button-delete-offer-${offer.id}`}
+                      >
                         <Trash2 className="h-4 w-4" />
                       </Button>
                     </div>
 
+                    <OfferBookings
+                      offerId={offer.id}
+                      onUpdate={(bookingId, status) => updateBooking.mutate({ bookingId, status })}
+                      isUpdating={updateBooking.isPending}
+                    />
+
                     {/* Smart Matches - ONLY relevant requests based on route/time proximity */}
                     <div className="pt-3 border-t">
                       <div className="flex items-center justify-between mb-2">
@@ -140,6 +407,7 @@ export default function MatchesPage() {
                             <div 
                               key={match.id} 
                               className="text-xs p-2 bg-muted rounded-md hover-elevate"
+                              title={describeMatch(match.match)}
                               data-testid={`match-request-${match.id}`}
                             >
                               <div className="flex items-center justify-between mb-1">
@@ -153,7 +421,7 @@ export default function MatchesPage() {
                               </div>
                               <div className="flex items-center justify-between">
                                 <span className="text-muted-foreground">
-                                  {format(new Date(match.requestedTime), "MMM d, h:mm a")}
+                                  {format(new Date(match.requestedTime), "MMM d, h:mm a")} · +{match.match.detourKm} km
                                 </span>
                                 <Button 
                                   variant="ghost" 
@@ -192,18 +460,25 @@ export default function MatchesPage() {
               </p>
             </Card>
           ) : (
-            myRequests.map((request) => {
-              // Find SMART matches for THIS specific request
-              const matches = findMatchingOffers(request, otherOffers);
+            myRequests.map((request, index) => {
+              const matches = requestMatches[index] ?? [];
               
               return (
                 <Card key={request.id} data-testid={`card-request-${request.id}`}>
                   <CardHeader className="pb-3">
                     <div className="flex items-start justify-between">
-                      <CardTitle className="text-base flex items-center gap-2">
-                        <Users className="h-4 w-4 text-destructive" />
-                        Your Lift Request
-                      </CardTitle>
+                      <div className="flex-1">
+                        <CardTitle className="text-base flex items-center gap-2 mb-1">
+                          <Users className="h-4 w-4 text-destructive" />
+                          Your Lift Request
+                        </CardTitle>
+                        {request.sourceJobId && (
+                          <Badge variant="outline" className="text-xs" data-testid={`badge-schedule-${request.id}`}>
+                            <CalendarClock className="h-3 w-3 mr-1" />
+                            From schedule
+                          </Badge>
+                        )}
+                      </div>
                       <Badge variant={request.status === 'active' ? 'default' : 'secondary'}>
                         {request.status}
                       </Badge>
@@ -265,6 +540,7 @@ export default function MatchesPage() {
                             <div 
                               key={match.id} 
                               className="text-xs p-2 bg-muted rounded-md hover-elevate"
+                              title={describeMatch(match.match)}
                               data-testid={`match-offer-${match.id}`}
                             >
                               <div className="flex items-center justify-between mb-1">
@@ -283,16 +559,34 @@ export default function MatchesPage() {
                               </div>
                               <div className="flex items-center justify-between">
                                 <span className="text-muted-foreground">
-                                  {format(new Date(match.departureTime), "MMM d, h:mm a")}
+                                  {format(new Date(match.departureTime), "MMM d, h:mm a")} · +{match.match.detourKm} km
                                 </span>
-                                <Button 
-                                  variant="ghost" 
-                                  size="sm" 
-                                  className="h-auto p-0 text-xs text-primary"
-                                  data-testid={`button-contact-driver-${match.id}`}
-                                >
-                                  Contact
-                                </Button>
+                                <div className="flex items-center gap-2">
+                                  <Button 
+                                    variant="ghost" 
+                                    size="sm" 
+                                    className="h-auto p-0 text-xs text-primary"
+                                    data-testid={`button-contact-driver-${match.id}`}
+                                  >
+                                    Contact
+                                  </Button>
+                                  {bookingsByOffer.has(match.id) ? (
+                                    <Badge variant="secondary" className="text-[10px] h-4" data-testid={`status-booking-${match.id}`}>
+                                      {bookingsByOffer.get(match.id)!.status}
+                                    </Badge>
+                                  ) : (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-auto p-0 text-xs text-primary"
+                                      disabled={requestSeat.isPending}
+                                      onClick={() => requestSeat.mutate({ offerId: match.id, requestId: request.id })}
+                                      data-testid={`button-request-seat-${match.id}`}
+                                    >
+                                      Request seat
+                                    </Button>
+                                  )}
+                                </div>
                               </div>
                             </div>
                           ))}
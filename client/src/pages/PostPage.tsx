@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -22,6 +23,7 @@ const offerFormSchema = z.object({
   departureDate: z.string().min(1, "Departure date is required"),
   departureTime: z.string().min(1, "Departure time is required"),
   availableSeats: z.coerce.number().min(1, "At least 1 seat required").max(4, "Maximum 4 seats"),
+  repeatPattern: z.enum(["None", "Weekdays", "Weekends"]),
   notes: z.string().optional(),
 });
 
@@ -49,6 +51,7 @@ export default function PostPage() {
       departureDate: new Date().toISOString().split('T')[0],
       departureTime: "",
       availableSeats: 1,
+      repeatPattern: "None",
       notes: "",
     },
   });
@@ -80,16 +83,19 @@ export default function PostPage() {
         toLng: -2.2426,
         departureTime: departureTime.toISOString(),
         availableSeats: data.availableSeats,
+        repeatPattern: data.repeatPattern,
         notes: data.notes || null,
       });
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (offer) => {
       queryClient.invalidateQueries({ queryKey: ["/api/lift-offers"] });
       offerForm.reset();
       toast({
         title: "Lift Offer Posted",
-        description: "Your lift offer is now visible to other drivers",
+        description: offer.occurrences
+          ? `Repeating ${offer.repeatPattern.toLowerCase()}: ${offer.occurrences.length} upcoming lifts posted`
+          : "Your lift offer is now visible to other drivers",
       });
     },
     onError: (error) => {
@@ -264,6 +270,29 @@ export default function PostPage() {
                     )}
                   />
 
+                  <FormField
+                    control={offerForm.control}
+                    name="repeatPattern"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Repeat</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-offer-repeat">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="None">Just this once</SelectItem>
+                            <SelectItem value="Weekdays">Every weekday</SelectItem>
+                            <SelectItem value="Weekends">Every weekend</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <FormField
                     control={offerForm.control}
                     name="notes"
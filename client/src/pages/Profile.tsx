@@ -5,6 +5,8 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Star, Trophy, TrendingUp, Award, Zap, Target, Mail, Phone } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -18,7 +20,9 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import type { UserStats, UserBadge, Badge as BadgeType, SelectUser } from "@shared/schema";
+import type { UserStats, SelectUser } from "@shared/schema";
+import type { BadgeProgress } from "@shared/badges";
+import type { Leaderboard, LeaderboardPeriod } from "@shared/leaderboards";
 
 const currentUserId = "user-1"; // Mock - will be replaced with real auth
 
@@ -50,8 +54,44 @@ export default function Profile() {
     queryKey: ["/api/users", currentUserId, "stats"],
   });
 
-  const { data: userBadges = [] } = useQuery<(UserBadge & { badge: BadgeType })[]>({
-    queryKey: ["/api/users", currentUserId, "badges"],
+  const { data: badgeProgress = [] } = useQuery<BadgeProgress[]>({
+    queryKey: ["/api/users", currentUserId, "badges?includeProgress=true"],
+  });
+  const userBadges = badgeProgress.filter((b) => b.earned);
+  // The closest few still to earn
+  const nextBadges = badgeProgress
+    .filter((b) => !b.earned)
+    .sort((a, b) => b.progress - a.progress)
+    .slice(0, 3);
+
+  const [leaderboardPeriod, setLeaderboardPeriod] = useState<LeaderboardPeriod>("weekly");
+  const leaderboardKey = `/api/leaderboards?period=${leaderboardPeriod}&pageSize=5&userId=${currentUserId}`;
+  const { data: leaderboard } = useQuery<Leaderboard>({
+    queryKey: [leaderboardKey],
+  });
+
+  const leaderboardOptOutMutation = useMutation({
+    mutationFn: async (leaderboardOptOut: boolean) => {
+      const response = await apiRequest("PATCH", `/api/users/${currentUserId}`, { leaderboardOptOut });
+      return response.json();
+    },
+    onSuccess: (_data, leaderboardOptOut) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users", currentUserId] });
+      queryClient.invalidateQueries({ queryKey: [leaderboardKey] });
+      toast({
+        title: leaderboardOptOut ? "Hidden from Leaderboards" : "Shown on Leaderboards",
+        description: leaderboardOptOut
+          ? "Other drivers won't see you on leaderboards. You still earn points."
+          : "You'll appear on leaderboards for the points you earn",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update leaderboard setting. Please try again.",
+        variant: "destructive",
+      });
+    },
   });
 
   const updateProfileMutation = useMutation({
@@ -291,13 +331,62 @@ export default function Profile() {
           </div>
         </Card>
 
+        {/* Leaderboard */}
+        <Card className="p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold">Leaderboard</h3>
+            <Tabs value={leaderboardPeriod} onValueChange={(val) => setLeaderboardPeriod(val as LeaderboardPeriod)}>
+              <TabsList className="h-8">
+                <TabsTrigger value="weekly" className="text-xs" data-testid="tab-leaderboard-weekly">Week</TabsTrigger>
+                <TabsTrigger value="monthly" className="text-xs" data-testid="tab-leaderboard-monthly">Month</TabsTrigger>
+                <TabsTrigger value="all-time" className="text-xs" data-testid="tab-leaderboard-all-time">All Time</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+          <p className="text-sm text-muted-foreground mb-3" data-testid="text-leaderboard-rank">
+            {user?.leaderboardOptOut
+              ? "You're hidden from leaderboards"
+              : leaderboard?.currentUser
+                ? `You're #${leaderboard.currentUser.rank} of ${leaderboard.totalEntries} with ${leaderboard.currentUser.points} points`
+                : "Earn points to get on the board"}
+          </p>
+          {leaderboard && leaderboard.entries.length > 0 && (
+            <div className="space-y-2 mb-3">
+              {leaderboard.entries.map((entry) => (
+                <div
+                  key={entry.userId}
+                  className={`flex items-center justify-between text-sm ${entry.userId === currentUserId ? 'font-semibold' : ''}`}
+                  data-testid={`leaderboard-entry-${entry.userId}`}
+                >
+                  <span>
+                    <span className="inline-block w-8 text-muted-foreground">#{entry.rank}</span>
+                    {entry.name}
+                    {entry.region && <span className="text-xs text-muted-foreground ml-2">{entry.region}</span>}
+                  </span>
+                  <span>{entry.points} pts</span>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center justify-between border-t pt-3">
+            <Label htmlFor="leaderboard-visible" className="text-sm">Show me on leaderboards</Label>
+            <Switch
+              id="leaderboard-visible"
+              checked={!user?.leaderboardOptOut}
+              onCheckedChange={(visible) => leaderboardOptOutMutation.mutate(!visible)}
+              disabled={leaderboardOptOutMutation.isPending}
+              data-testid="switch-leaderboard-visible"
+            />
+          </div>
+        </Card>
+
         {/* Achievement Badges */}
         <div>
           <h2 className="font-semibold mb-3">Achievements ({userBadges.length})</h2>
           {userBadges.length > 0 ? (
             <div className="grid grid-cols-2 gap-3">
               {userBadges.map((ub) => (
-                <Card key={ub.id} className="p-4" data-testid={`badge-${ub.badge.id}`}>
+                <Card key={ub.badge.id} className="p-4" data-testid={`badge-${ub.badge.id}`}>
                   <div className="text-center">
                     <div className="text-3xl mb-2">{ub.badge.icon}</div>
                     <div className="font-semibold text-sm">{ub.badge.name}</div>
@@ -313,6 +402,22 @@ export default function Profile() {
               <p className="text-xs text-muted-foreground mt-1">Complete lifts and maintain high ratings to earn achievements</p>
             </Card>
           )}
+          {nextBadges.length > 0 && (
+            <Card className="p-4 mt-3">
+              <h3 className="font-semibold text-sm mb-3">Next Badges</h3>
+              <div className="space-y-3">
+                {nextBadges.map((b) => (
+                  <div key={b.badge.id} data-testid={`badge-progress-${b.badge.id}`}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span>{b.badge.icon} {b.badge.name}</span>
+                      <span className="text-muted-foreground">{b.current}/{b.target} {b.unit}</span>
+                    </div>
+                    <Progress value={b.progress} className="h-2" />
+                  </div>
+                ))}
+              </div>
+            </Card>
+          )}
         </div>
 
         {/* Lifetime Stats */}
@@ -1,14 +1,17 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Plus, MapPin, Clock, CheckCircle, PlayCircle, StopCircle, Edit, Trash2 } from "lucide-react";
+import { Plus, MapPin, Clock, CheckCircle, PlayCircle, StopCircle, Edit, Trash2, Upload, Download, CalendarPlus, ClipboardCheck } from "lucide-react";
 import { format } from "date-fns";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { isQueuedOffline } from "@/lib/offline-queue";
 import { useToast } from "@/hooks/use-toast";
 import AddJobDialog from "@/components/AddJobDialog";
 import EditJobDialog from "@/components/EditJobDialog";
+import InspectionDialog, { type InspectionSubmission } from "@/components/InspectionDialog";
+import InspectionReportDialog from "@/components/InspectionReportDialog";
 import type { Job, Schedule as ScheduleType } from "@shared/schema";
 
 export default function Schedule() {
@@ -17,6 +20,10 @@ export default function Schedule() {
   const [addJobOpen, setAddJobOpen] = useState(false);
   const [editJobOpen, setEditJobOpen] = useState(false);
   const [selectedJob, setSelectedJob] = useState<Job | null>(null);
+  // The job being checked in or out, with the condition report taken as part of it
+  const [inspecting, setInspecting] = useState<{ job: Job; stage: "pickup" | "dropoff" } | null>(null);
+  const [reportJobId, setReportJobId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   // Mock user ID - in real app would come from auth context
   const userId = "user-1";
@@ -55,9 +62,18 @@ export default function Schedule() {
     },
   });
 
+  // Updates a job in the cached schedule, for a check-in or check-out queued offline
+  const markJob = (jobId: string, changes: Partial<Job>) => {
+    queryClient.setQueryData<Job[]>(["/api/jobs/schedule", currentSchedule?.id], (cached) =>
+      cached?.map((job) => (job.id === jobId ? { ...job, ...changes } : job)));
+  };
+
   // Check-in mutation
   const checkIn = useMutation({
-    mutationFn: async (jobId: string) => {
+    mutationFn: async ({ jobId, inspection }: { jobId: string; inspection?: InspectionSubmission }) => {
+      // When the driver tapped, which is what counts if the request is queued offline and sent later
+      const recordedAt = new Date().toISOString();
+
       // Get current location with timeout and fallback
       let lat = 0;
       let lng = 0;
@@ -98,10 +114,25 @@ export default function Schedule() {
       const res = await apiRequest("POST", `/api/jobs/${jobId}/check-in`, {
         lat,
         lng,
+        recordedAt,
+        inspection,
       });
+      if (isQueuedOffline(res)) {
+        // Shown as done until the queue is sent and the schedule is refetched
+        markJob(jobId, { status: "in-progress", actualStartTime: new Date(recordedAt) });
+        return { queued: true };
+      }
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      setInspecting(null);
+      if (result?.queued) {
+        toast({
+          title: "Checked In Offline",
+          description: "Your check-in will sync when you're back online",
+        });
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/jobs/schedule", currentSchedule?.id] });
       toast({
         title: "Checked In",
@@ -119,7 +150,10 @@ export default function Schedule() {
 
   // Check-out mutation
   const checkOut = useMutation({
-    mutationFn: async (jobId: string) => {
+    mutationFn: async ({ jobId, inspection }: { jobId: string; inspection?: InspectionSubmission }) => {
+      // When the driver tapped, which is what counts if the request is queued offline and sent later
+      const recordedAt = new Date().toISOString();
+
       // Get current location with timeout and fallback
       let lat = 0;
       let lng = 0;
@@ -160,10 +194,25 @@ export default function Schedule() {
       const res = await apiRequest("POST", `/api/jobs/${jobId}/check-out`, {
         lat,
         lng,
+        recordedAt,
+        inspection,
       });
+      if (isQueuedOffline(res)) {
+        // Shown as done until the queue is sent and the schedule is refetched
+        markJob(jobId, { status: "completed", actualEndTime: new Date(recordedAt) });
+        return { queued: true };
+      }
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      setInspecting(null);
+      if (result?.queued) {
+        toast({
+          title: "Checked Out Offline",
+          description: "Your check-out will sync when you're back online",
+        });
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/jobs/schedule", currentSchedule?.id] });
       toast({
         title: "Checked Out",
@@ -204,6 +253,59 @@ export default function Schedule() {
     },
   });
 
+  // Import a dispatcher's spreadsheet (CSV) or calendar invites (ICS) into the day's schedule
+  const importJobs = useMutation({
+    mutationFn: async (file: File) => {
+      const schedule = currentSchedule ?? await createSchedule.mutateAsync();
+      const content = await file.text();
+      const format = file.name.toLowerCase().endsWith(".ics") ? "ics" : "csv";
+      const res = await apiRequest("POST", `/api/schedules/${schedule.id}/import`, { format, content });
+      return res.json() as Promise<{ imported: Job[]; skipped: unknown[]; errors: { row: number; message: string }[] }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/schedule"] });
+      const firstError = result.errors[0];
+      toast({
+        title: `Imported ${result.imported.length} ${result.imported.length === 1 ? "job" : "jobs"}`,
+        description: firstError
+          ? `${result.errors.length} ${result.errors.length === 1 ? "row" : "rows"} not imported. Row ${firstError.row}: ${firstError.message}`
+          : result.skipped.length > 0 ? `${result.skipped.length} already on your schedule` : undefined,
+        variant: result.imported.length === 0 && firstError ? "destructive" : undefined,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Could not read the file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Copy the subscribable feed so the driver's phone calendar keeps up with their jobs
+  const subscribeCalendar = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("GET", `/api/users/${userId}/calendar-feed`);
+      const { url } = await res.json() as { url: string };
+      const webcal = url.replace(/^https?:/, "webcal:");
+      await navigator.clipboard.writeText(webcal);
+      return webcal;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Calendar Link Copied",
+        description: "Add it to your phone calendar as a subscription",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't Get Calendar Link",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleAddJob = async () => {
     if (!currentSchedule) {
       try {
@@ -249,6 +351,63 @@ export default function Schedule() {
           <Plus className="h-6 w-6 mr-2" />
           Add Delivery Job
         </Button>
+
+        <div className="flex gap-2">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".csv,.ics,text/csv,text/calendar"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importJobs.mutate(file);
+              e.target.value = "";
+            }}
+            data-testid="input-import-schedule"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => importInputRef.current?.click()}
+            disabled={importJobs.isPending || schedulesLoading || schedulesError}
+            data-testid="button-import-schedule"
+          >
+            <Upload className="h-3 w-3 mr-1" />
+            Import
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            disabled={!currentSchedule}
+            asChild={!!currentSchedule}
+            data-testid="button-export-schedule"
+          >
+            {currentSchedule ? (
+              <a href={`/api/schedules/${currentSchedule.id}.ics`} download>
+                <Download className="h-3 w-3 mr-1" />
+                Export
+              </a>
+            ) : (
+              <>
+                <Download className="h-3 w-3 mr-1" />
+                Export
+              </>
+            )}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => subscribeCalendar.mutate()}
+            disabled={subscribeCalendar.isPending}
+            data-testid="button-subscribe-calendar"
+          >
+            <CalendarPlus className="h-3 w-3 mr-1" />
+            Subscribe
+          </Button>
+        </div>
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 space-y-3">
@@ -360,7 +519,7 @@ export default function Schedule() {
                         Delete
                       </Button>
                       <Button
-                        onClick={() => checkIn.mutate(job.id)}
+                        onClick={() => setInspecting({ job, stage: "pickup" })}
                         disabled={checkIn.isPending}
                         size="sm"
                         className="flex-1"
@@ -374,7 +533,7 @@ export default function Schedule() {
                   
                   {job.actualStartTime && !job.actualEndTime && (
                     <Button
-                      onClick={() => checkOut.mutate(job.id)}
+                      onClick={() => setInspecting({ job, stage: "dropoff" })}
                       disabled={checkOut.isPending}
                       size="sm"
                       className="flex-1"
@@ -391,6 +550,18 @@ export default function Schedule() {
                       Completed at {format(new Date(job.actualEndTime), "h:mm a")}
                     </div>
                   )}
+
+                  {job.actualStartTime && (
+                    <Button
+                      onClick={() => setReportJobId(job.id)}
+                      variant="outline"
+                      size="sm"
+                      data-testid={`button-condition-report-${job.id}`}
+                    >
+                      <ClipboardCheck className="h-3 w-3 mr-1" />
+                      Report
+                    </Button>
+                  )}
                 </div>
               </div>
             </Card>
@@ -401,6 +572,21 @@ export default function Schedule() {
         )}
       </div>
 
+      {inspecting && (
+        <InspectionDialog
+          open
+          onOpenChange={(open) => !open && setInspecting(null)}
+          stage={inspecting.stage}
+          pending={checkIn.isPending || checkOut.isPending}
+          onSubmit={(inspection) =>
+            (inspecting.stage === "pickup" ? checkIn : checkOut).mutate({ jobId: inspecting.job.id, inspection })
+          }
+        />
+      )}
+      {reportJobId && (
+        <InspectionReportDialog open onOpenChange={(open) => !open && setReportJobId(null)} jobId={reportJobId} />
+      )}
+
       {currentSchedule && (
         <>
           <AddJobDialog
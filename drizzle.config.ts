@@ -5,7 +5,7 @@ if (!process.env.DATABASE_URL) {
 }
 
 export default defineConfig({
-  out: "./migrations",
+  out: "./drizzle", // scratch output for drafting SQL; versioned migrations live in ./migrations
   schema: "./shared/schema.ts",
   dialect: "postgresql",
   dbCredentials: {
@@ -0,0 +1,29 @@
+DROP TABLE IF EXISTS "user_badges";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "badges";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "user_stats";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "ratings";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "messages";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "reports";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "blocks";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "check_ins";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "loader_spaces";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "business_bookings";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "jobs";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "schedules";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "lift_offers";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "lift_requests";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "users";
@@ -0,0 +1,387 @@
+-- Baseline schema. Idempotent so databases previously created with `db:push` can adopt migrations.
+CREATE TABLE IF NOT EXISTS "badges" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text NOT NULL,
+	"category" text NOT NULL,
+	"icon" text NOT NULL,
+	"requirement" text NOT NULL,
+	"threshold" integer
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "blocks" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"blocker_id" varchar NOT NULL,
+	"blocked_user_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "business_bookings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_user_id" varchar NOT NULL,
+	"loader_user_id" varchar,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"pickup_address" text NOT NULL,
+	"pickup_lat" real,
+	"pickup_lng" real,
+	"pickup_window" timestamp NOT NULL,
+	"delivery_address" text NOT NULL,
+	"delivery_lat" real,
+	"delivery_lng" real,
+	"delivery_window" timestamp NOT NULL,
+	"vehicle_make" text NOT NULL,
+	"vehicle_model" text NOT NULL,
+	"vehicle_reg_or_vin" text,
+	"length_m" real,
+	"width_m" real,
+	"height_m" real,
+	"weight_kg" integer,
+	"is_running" boolean DEFAULT true,
+	"requires_winch" boolean DEFAULT false,
+	"requires_ramps" boolean DEFAULT false,
+	"requires_enclosed" boolean DEFAULT false,
+	"price_type" text DEFAULT 'Request quotes',
+	"budget" real,
+	"po_reference" text,
+	"contact_email" text,
+	"notes" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "check_ins" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"driver_type" text NOT NULL,
+	"lat" real,
+	"lng" real,
+	"w3w" text,
+	"from_time" timestamp NOT NULL,
+	"to_time" timestamp NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"schedule_id" varchar NOT NULL,
+	"from_location" text NOT NULL,
+	"from_lat" real NOT NULL,
+	"from_lng" real NOT NULL,
+	"to_location" text NOT NULL,
+	"to_lat" real NOT NULL,
+	"to_lng" real NOT NULL,
+	"estimated_start_time" timestamp NOT NULL,
+	"estimated_end_time" timestamp NOT NULL,
+	"actual_start_time" timestamp,
+	"actual_end_time" timestamp,
+	"check_in_lat" real,
+	"check_in_lng" real,
+	"check_out_lat" real,
+	"check_out_lng" real,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"order_in_schedule" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "lift_offers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"driver_id" varchar NOT NULL,
+	"from_location" text NOT NULL,
+	"from_lat" real NOT NULL,
+	"from_lng" real NOT NULL,
+	"from_w3w" text,
+	"to_location" text NOT NULL,
+	"to_lat" real NOT NULL,
+	"to_lng" real NOT NULL,
+	"to_w3w" text,
+	"departure_time" timestamp NOT NULL,
+	"earliest_depart" timestamp,
+	"latest_arrive" timestamp,
+	"available_seats" integer DEFAULT 1 NOT NULL,
+	"detour_km" real DEFAULT 10,
+	"price_type" text DEFAULT 'Free',
+	"price_value" real,
+	"vehicle_type" text DEFAULT 'Hatchback',
+	"visibility" text DEFAULT 'Everyone',
+	"repeat_pattern" text DEFAULT 'None',
+	"auto_generated" boolean DEFAULT false,
+	"status" text DEFAULT 'available' NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "lift_requests" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"requester_id" varchar NOT NULL,
+	"from_location" text NOT NULL,
+	"from_lat" real NOT NULL,
+	"from_lng" real NOT NULL,
+	"from_w3w" text,
+	"to_location" text NOT NULL,
+	"to_lat" real NOT NULL,
+	"to_lng" real NOT NULL,
+	"to_w3w" text,
+	"requested_time" timestamp NOT NULL,
+	"earliest_depart" timestamp,
+	"latest_arrive" timestamp,
+	"has_bags_kit" boolean DEFAULT false,
+	"max_budget" real,
+	"status" text DEFAULT 'active',
+	"notes" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "loader_spaces" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"status" text DEFAULT 'available' NOT NULL,
+	"capacity_kg" integer,
+	"length_cm" integer,
+	"width_cm" integer,
+	"height_cm" integer,
+	"length_m" real,
+	"width_m" real,
+	"height_m" real,
+	"space_available_percent" integer DEFAULT 100,
+	"accepts_cars" boolean DEFAULT true,
+	"accepts_vans" boolean DEFAULT false,
+	"accepts_bikes" boolean DEFAULT false,
+	"accepts_running" boolean DEFAULT true,
+	"accepts_nonrunners" boolean DEFAULT false,
+	"accepts_sorn" boolean DEFAULT false,
+	"straps_available" boolean DEFAULT true,
+	"winch_available" boolean DEFAULT false,
+	"ramps_available" boolean DEFAULT false,
+	"enclosed_transport" boolean DEFAULT false,
+	"cab_seat_available" boolean DEFAULT false,
+	"price_type" text DEFAULT 'Quote',
+	"price_value" real,
+	"origin_location" text,
+	"origin_lat" real,
+	"origin_lng" real,
+	"origin_w3w" text,
+	"dest_location" text,
+	"dest_lat" real,
+	"dest_lng" real,
+	"dest_w3w" text,
+	"depart_date" text,
+	"depart_after" timestamp,
+	"arrive_before" timestamp,
+	"note" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "messages" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"sender_id" varchar NOT NULL,
+	"receiver_id" varchar NOT NULL,
+	"content" text NOT NULL,
+	"read" boolean DEFAULT false,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ratings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"rater_id" varchar NOT NULL,
+	"rated_user_id" varchar NOT NULL,
+	"lift_type" text NOT NULL,
+	"lift_id" varchar NOT NULL,
+	"stars" integer NOT NULL,
+	"punctuality" integer,
+	"professionalism" integer,
+	"communication" integer,
+	"vehicle_condition" integer,
+	"comment" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "reports" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"reporter_id" varchar NOT NULL,
+	"reported_user_id" varchar NOT NULL,
+	"reason" text NOT NULL,
+	"description" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"reviewed_by" varchar,
+	"review_notes" text,
+	"created_at" timestamp DEFAULT now(),
+	"reviewed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "schedules" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"date" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "user_badges" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"badge_id" varchar NOT NULL,
+	"earned_at" timestamp DEFAULT now(),
+	"progress" integer DEFAULT 0
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "user_stats" (
+	"user_id" varchar PRIMARY KEY NOT NULL,
+	"reputation_score" integer DEFAULT 0,
+	"tier" text DEFAULT 'bronze',
+	"total_lifts_shared" integer DEFAULT 0,
+	"total_lifts_offered" integer DEFAULT 0,
+	"total_lifts_requested" integer DEFAULT 0,
+	"average_rating" real DEFAULT 0,
+	"punctuality_score" real DEFAULT 0,
+	"completion_ratio" real DEFAULT 0,
+	"total_points" integer DEFAULT 0,
+	"current_streak" integer DEFAULT 0,
+	"longest_streak" integer DEFAULT 0,
+	"last_activity_date" timestamp,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"name" text NOT NULL,
+	"call_sign" varchar(6) NOT NULL,
+	"email" text,
+	"phone" text,
+	"avatar" text,
+	"role" text DEFAULT 'user' NOT NULL,
+	"driver_type" text DEFAULT 'driver' NOT NULL,
+	"payment_preference" text DEFAULT 'subscription',
+	"trade_plate_doc" text,
+	"insurance_doc" text,
+	"rating" real DEFAULT 0,
+	"total_trips" integer DEFAULT 0,
+	"verified" boolean DEFAULT false,
+	"stripe_customer_id" text,
+	"subscription_status" text DEFAULT 'inactive',
+	"current_period_end" timestamp,
+	"plan_id" text,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_call_sign_unique" UNIQUE("call_sign"),
+	CONSTRAINT "users_stripe_customer_id_unique" UNIQUE("stripe_customer_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "blocks" ADD CONSTRAINT "blocks_blocker_id_users_id_fk" FOREIGN KEY ("blocker_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "blocks" ADD CONSTRAINT "blocks_blocked_user_id_users_id_fk" FOREIGN KEY ("blocked_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "business_bookings" ADD CONSTRAINT "business_bookings_business_user_id_users_id_fk" FOREIGN KEY ("business_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "business_bookings" ADD CONSTRAINT "business_bookings_loader_user_id_users_id_fk" FOREIGN KEY ("loader_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "check_ins" ADD CONSTRAINT "check_ins_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "jobs" ADD CONSTRAINT "jobs_schedule_id_schedules_id_fk" FOREIGN KEY ("schedule_id") REFERENCES "public"."schedules"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "lift_offers" ADD CONSTRAINT "lift_offers_driver_id_users_id_fk" FOREIGN KEY ("driver_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "lift_requests" ADD CONSTRAINT "lift_requests_requester_id_users_id_fk" FOREIGN KEY ("requester_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "loader_spaces" ADD CONSTRAINT "loader_spaces_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "messages" ADD CONSTRAINT "messages_sender_id_users_id_fk" FOREIGN KEY ("sender_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "messages" ADD CONSTRAINT "messages_receiver_id_users_id_fk" FOREIGN KEY ("receiver_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ratings" ADD CONSTRAINT "ratings_rater_id_users_id_fk" FOREIGN KEY ("rater_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ratings" ADD CONSTRAINT "ratings_rated_user_id_users_id_fk" FOREIGN KEY ("rated_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "reports" ADD CONSTRAINT "reports_reporter_id_users_id_fk" FOREIGN KEY ("reporter_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "reports" ADD CONSTRAINT "reports_reported_user_id_users_id_fk" FOREIGN KEY ("reported_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "reports" ADD CONSTRAINT "reports_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "schedules" ADD CONSTRAINT "schedules_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_badges" ADD CONSTRAINT "user_badges_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_badges" ADD CONSTRAINT "user_badges_badge_id_badges_id_fk" FOREIGN KEY ("badge_id") REFERENCES "public"."badges"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_stats" ADD CONSTRAINT "user_stats_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,16 @@
+-- Only clear values that still equal what the up migration derived; user-entered windows and dimensions are kept.
+UPDATE "lift_offers"
+SET "earliest_depart" = NULL, "latest_arrive" = NULL
+WHERE "earliest_depart" = "departure_time" - interval '2 hours'
+  AND "latest_arrive" = "departure_time" + interval '2 hours';
+--> statement-breakpoint
+UPDATE "lift_requests"
+SET "earliest_depart" = NULL, "latest_arrive" = NULL
+WHERE "earliest_depart" = "requested_time" - interval '2 hours'
+  AND "latest_arrive" = "requested_time" + interval '2 hours';
+--> statement-breakpoint
+UPDATE "loader_spaces" SET "length_m" = NULL WHERE "length_m" = ("length_cm" / 100.0)::real;
+--> statement-breakpoint
+UPDATE "loader_spaces" SET "width_m" = NULL WHERE "width_m" = ("width_cm" / 100.0)::real;
+--> statement-breakpoint
+UPDATE "loader_spaces" SET "height_m" = NULL WHERE "height_m" = ("height_cm" / 100.0)::real;
@@ -0,0 +1,18 @@
+-- Backfill the time-window columns from the legacy single timestamps.
+-- The window is the same ±2 hour tolerance the client matcher applies to departureTime/requestedTime.
+UPDATE "lift_offers"
+SET "earliest_depart" = "departure_time" - interval '2 hours',
+    "latest_arrive" = "departure_time" + interval '2 hours'
+WHERE "earliest_depart" IS NULL AND "latest_arrive" IS NULL;
+--> statement-breakpoint
+UPDATE "lift_requests"
+SET "earliest_depart" = "requested_time" - interval '2 hours',
+    "latest_arrive" = "requested_time" + interval '2 hours'
+WHERE "earliest_depart" IS NULL AND "latest_arrive" IS NULL;
+--> statement-breakpoint
+-- Loader space dimensions moved from centimetres to metres
+UPDATE "loader_spaces" SET "length_m" = "length_cm" / 100.0 WHERE "length_m" IS NULL AND "length_cm" IS NOT NULL;
+--> statement-breakpoint
+UPDATE "loader_spaces" SET "width_m" = "width_cm" / 100.0 WHERE "width_m" IS NULL AND "width_cm" IS NOT NULL;
+--> statement-breakpoint
+UPDATE "loader_spaces" SET "height_m" = "height_cm" / 100.0 WHERE "height_m" IS NULL AND "height_cm" IS NOT NULL;
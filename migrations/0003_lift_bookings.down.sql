@@ -0,0 +1 @@
+DROP TABLE IF EXISTS "lift_bookings";
@@ -0,0 +1,40 @@
+-- Seat bookings against lift offers. Idempotent like the baseline for databases synced with `db:push`.
+CREATE TABLE IF NOT EXISTS "lift_bookings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"offer_id" varchar NOT NULL,
+	"request_id" varchar,
+	"passenger_id" varchar NOT NULL,
+	"seats" integer DEFAULT 1 NOT NULL,
+	"status" text DEFAULT 'requested' NOT NULL,
+	"message" text,
+	"cancelled_by" varchar,
+	"created_at" timestamp DEFAULT now(),
+	"accepted_at" timestamp,
+	"picked_up_at" timestamp,
+	"completed_at" timestamp,
+	"cancelled_at" timestamp
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "lift_bookings" ADD CONSTRAINT "lift_bookings_offer_id_lift_offers_id_fk" FOREIGN KEY ("offer_id") REFERENCES "public"."lift_offers"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "lift_bookings" ADD CONSTRAINT "lift_bookings_request_id_lift_requests_id_fk" FOREIGN KEY ("request_id") REFERENCES "public"."lift_requests"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "lift_bookings" ADD CONSTRAINT "lift_bookings_passenger_id_users_id_fk" FOREIGN KEY ("passenger_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "lift_bookings" ADD CONSTRAINT "lift_bookings_cancelled_by_users_id_fk" FOREIGN KEY ("cancelled_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS "lift_match_alerts";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "match_subscriptions";
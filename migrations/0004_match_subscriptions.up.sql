@@ -0,0 +1,65 @@
+-- Saved match watches on open lift offers/requests, and the once-per-pair alert log
+CREATE TABLE IF NOT EXISTS "match_subscriptions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"lift_offer_id" varchar,
+	"lift_request_id" varchar,
+	"min_score" integer DEFAULT 60 NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "lift_match_alerts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"offer_id" varchar NOT NULL,
+	"request_id" varchar NOT NULL,
+	"score" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "lift_match_alerts_offer_request_unique" UNIQUE("offer_id","request_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "match_subscriptions" ADD CONSTRAINT "match_subscriptions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "match_subscriptions" ADD CONSTRAINT "match_subscriptions_lift_offer_id_lift_offers_id_fk" FOREIGN KEY ("lift_offer_id") REFERENCES "public"."lift_offers"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "match_subscriptions" ADD CONSTRAINT "match_subscriptions_lift_request_id_lift_requests_id_fk" FOREIGN KEY ("lift_request_id") REFERENCES "public"."lift_requests"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "lift_match_alerts" ADD CONSTRAINT "lift_match_alerts_offer_id_lift_offers_id_fk" FOREIGN KEY ("offer_id") REFERENCES "public"."lift_offers"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "lift_match_alerts" ADD CONSTRAINT "lift_match_alerts_request_id_lift_requests_id_fk" FOREIGN KEY ("request_id") REFERENCES "public"."lift_requests"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+-- Watch every offer and request that is still open (same expiry rule as server/match-subscriptions.ts)
+INSERT INTO "match_subscriptions" ("user_id", "lift_offer_id", "expires_at")
+SELECT o."driver_id", o."id", coalesce(o."latest_arrive", o."departure_time" + interval '2 hours')
+FROM "lift_offers" o
+WHERE o."status" = 'available'
+  AND coalesce(o."latest_arrive", o."departure_time" + interval '2 hours') > now()
+  AND NOT EXISTS (SELECT 1 FROM "match_subscriptions" s WHERE s."lift_offer_id" = o."id");
+--> statement-breakpoint
+INSERT INTO "match_subscriptions" ("user_id", "lift_request_id", "expires_at")
+SELECT r."requester_id", r."id", coalesce(r."latest_arrive", r."requested_time" + interval '2 hours')
+FROM "lift_requests" r
+WHERE r."status" = 'active'
+  AND coalesce(r."latest_arrive", r."requested_time" + interval '2 hours') > now()
+  AND NOT EXISTS (SELECT 1 FROM "match_subscriptions" s WHERE s."lift_request_id" = r."id");
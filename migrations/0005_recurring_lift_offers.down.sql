@@ -0,0 +1,9 @@
+ALTER TABLE "lift_offers" DROP CONSTRAINT IF EXISTS "lift_offers_template_occurrence_unique";
+--> statement-breakpoint
+ALTER TABLE "lift_offers" DROP CONSTRAINT IF EXISTS "lift_offers_template_id_lift_offers_id_fk";
+--> statement-breakpoint
+ALTER TABLE "lift_offers" DROP COLUMN IF EXISTS "occurrence_date";
+--> statement-breakpoint
+ALTER TABLE "lift_offers" DROP COLUMN IF EXISTS "template_id";
+--> statement-breakpoint
+ALTER TABLE "lift_offers" DROP COLUMN IF EXISTS "recurrence_rule";
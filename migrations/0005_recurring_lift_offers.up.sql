@@ -0,0 +1,19 @@
+-- Recurring lift offers: templates carry the rule, generated occurrences link back to their template
+ALTER TABLE "lift_offers" ADD COLUMN IF NOT EXISTS "recurrence_rule" text;
+--> statement-breakpoint
+ALTER TABLE "lift_offers" ADD COLUMN IF NOT EXISTS "template_id" varchar;
+--> statement-breakpoint
+ALTER TABLE "lift_offers" ADD COLUMN IF NOT EXISTS "occurrence_date" text;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "lift_offers" ADD CONSTRAINT "lift_offers_template_id_lift_offers_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."lift_offers"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "lift_offers" ADD CONSTRAINT "lift_offers_template_occurrence_unique" UNIQUE("template_id","occurrence_date");
+EXCEPTION
+ WHEN duplicate_table THEN null;
+ WHEN duplicate_object THEN null;
+END $$;
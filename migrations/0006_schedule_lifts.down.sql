@@ -0,0 +1,9 @@
+ALTER TABLE "lift_requests" DROP CONSTRAINT IF EXISTS "lift_requests_source_job_id_jobs_id_fk";
+--> statement-breakpoint
+ALTER TABLE "lift_offers" DROP CONSTRAINT IF EXISTS "lift_offers_source_job_id_jobs_id_fk";
+--> statement-breakpoint
+ALTER TABLE "lift_requests" DROP COLUMN IF EXISTS "source_job_id";
+--> statement-breakpoint
+ALTER TABLE "lift_requests" DROP COLUMN IF EXISTS "auto_generated";
+--> statement-breakpoint
+ALTER TABLE "lift_offers" DROP COLUMN IF EXISTS "source_job_id";
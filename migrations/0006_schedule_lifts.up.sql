@@ -0,0 +1,18 @@
+-- Lift offers and requests derived from a driver's schedule point back at the job they came from
+ALTER TABLE "lift_offers" ADD COLUMN IF NOT EXISTS "source_job_id" varchar;
+--> statement-breakpoint
+ALTER TABLE "lift_requests" ADD COLUMN IF NOT EXISTS "auto_generated" boolean DEFAULT false;
+--> statement-breakpoint
+ALTER TABLE "lift_requests" ADD COLUMN IF NOT EXISTS "source_job_id" varchar;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "lift_offers" ADD CONSTRAINT "lift_offers_source_job_id_jobs_id_fk" FOREIGN KEY ("source_job_id") REFERENCES "public"."jobs"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "lift_requests" ADD CONSTRAINT "lift_requests_source_job_id_jobs_id_fk" FOREIGN KEY ("source_job_id") REFERENCES "public"."jobs"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,5 @@
+ALTER TABLE "user_stats" DROP COLUMN IF EXISTS "home_region";
+--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN IF EXISTS "leaderboard_opt_out";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "points_ledger";
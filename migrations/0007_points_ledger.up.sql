@@ -0,0 +1,27 @@
+-- Points are recorded in a ledger so totals can be audited; leaderboards use it, a home region and an opt-out
+CREATE TABLE IF NOT EXISTS "points_ledger" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"points" integer NOT NULL,
+	"reason" text NOT NULL,
+	"source_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "points_ledger_user_reason_source_unique" UNIQUE("user_id","reason","source_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "points_ledger" ADD CONSTRAINT "points_ledger_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "leaderboard_opt_out" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "user_stats" ADD COLUMN IF NOT EXISTS "home_region" text;
+--> statement-breakpoint
+-- Points awarded before the ledger existed become one opening entry, so totals still add up
+INSERT INTO "points_ledger" ("user_id", "points", "reason", "source_id")
+SELECT s."user_id", s."total_points", 'opening-balance', s."user_id"
+FROM "user_stats" s
+WHERE coalesce(s."total_points", 0) <> 0
+ON CONFLICT DO NOTHING;
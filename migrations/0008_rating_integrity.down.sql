@@ -0,0 +1,18 @@
+ALTER TABLE "ratings" DROP CONSTRAINT IF EXISTS "ratings_rater_lift_unique";
+--> statement-breakpoint
+DROP INDEX IF EXISTS "ratings_rater_lift_unique";
+--> statement-breakpoint
+ALTER TABLE "ratings" DROP CONSTRAINT IF EXISTS "ratings_resolved_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "ratings" DROP COLUMN IF EXISTS "resolved_at";
+--> statement-breakpoint
+ALTER TABLE "ratings" DROP COLUMN IF EXISTS "resolution_notes";
+--> statement-breakpoint
+ALTER TABLE "ratings" DROP COLUMN IF EXISTS "resolved_by";
+--> statement-breakpoint
+ALTER TABLE "ratings" DROP COLUMN IF EXISTS "disputed_at";
+--> statement-breakpoint
+ALTER TABLE "ratings" DROP COLUMN IF EXISTS "dispute_reason";
+--> statement-breakpoint
+-- Superseded repeat ratings count again once the status goes
+ALTER TABLE "ratings" DROP COLUMN IF EXISTS "status";
@@ -0,0 +1,31 @@
+-- One rating per rater per lift, and the dispute trail for ratings the recipient appeals
+ALTER TABLE "ratings" ADD COLUMN IF NOT EXISTS "status" text DEFAULT 'active' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "ratings" ADD COLUMN IF NOT EXISTS "dispute_reason" text;
+--> statement-breakpoint
+ALTER TABLE "ratings" ADD COLUMN IF NOT EXISTS "disputed_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "ratings" ADD COLUMN IF NOT EXISTS "resolved_by" varchar;
+--> statement-breakpoint
+ALTER TABLE "ratings" ADD COLUMN IF NOT EXISTS "resolution_notes" text;
+--> statement-breakpoint
+ALTER TABLE "ratings" ADD COLUMN IF NOT EXISTS "resolved_at" timestamp;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ratings" ADD CONSTRAINT "ratings_resolved_by_users_id_fk" FOREIGN KEY ("resolved_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+-- Repeat ratings of the same lift by the same rater were never meant to be possible; the first one
+-- stands and the rest are kept as superseded, which the unique index and the rating queries skip.
+-- Databases set up with db:push from an earlier schema have it as a plain constraint.
+ALTER TABLE "ratings" DROP CONSTRAINT IF EXISTS "ratings_rater_lift_unique";
+--> statement-breakpoint
+UPDATE "ratings" r SET "status" = 'superseded'
+FROM "ratings" earlier
+WHERE r."rater_id" = earlier."rater_id"
+  AND r."lift_id" = earlier."lift_id"
+  AND (earlier."created_at", earlier."id") < (r."created_at", r."id");
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "ratings_rater_lift_unique" ON "ratings" ("rater_id","lift_id") WHERE "status" <> 'superseded';
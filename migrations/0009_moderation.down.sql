@@ -0,0 +1,9 @@
+ALTER TABLE "blocks" DROP CONSTRAINT IF EXISTS "blocks_blocker_blocked_unique";
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN IF EXISTS "action";
+--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN IF EXISTS "warning_count";
+--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN IF EXISTS "suspended_until";
+--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN IF EXISTS "account_status";
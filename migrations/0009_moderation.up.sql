@@ -0,0 +1,21 @@
+-- Account standing set by moderators acting on reports, and what they did about each report
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "account_status" text DEFAULT 'active' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "suspended_until" timestamp;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "warning_count" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN IF NOT EXISTS "action" text;
+--> statement-breakpoint
+-- Blocking someone twice means the same as blocking them once; the first block stands
+DELETE FROM "blocks" b
+USING "blocks" earlier
+WHERE b."blocker_id" = earlier."blocker_id"
+  AND b."blocked_user_id" = earlier."blocked_user_id"
+  AND (earlier."created_at", earlier."id") < (b."created_at", b."id");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "blocks" ADD CONSTRAINT "blocks_blocker_blocked_unique" UNIQUE("blocker_id","blocked_user_id");
+EXCEPTION
+ WHEN duplicate_table OR duplicate_object THEN null;
+END $$;
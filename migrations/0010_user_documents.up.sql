@@ -0,0 +1,30 @@
+-- Uploaded trade plate and insurance documents, reviewed by moderators before a user is verified
+CREATE TABLE IF NOT EXISTS "user_documents" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"type" text NOT NULL,
+	"document_number" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"blob_key" text NOT NULL,
+	"file_name" text NOT NULL,
+	"content_type" text NOT NULL,
+	"size_bytes" integer NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"reviewed_by" varchar,
+	"reviewed_at" timestamp,
+	"rejection_reason" text,
+	"reminder_days" integer,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_documents" ADD CONSTRAINT "user_documents_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_documents" ADD CONSTRAINT "user_documents_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,7 @@
+DROP TABLE IF EXISTS "trade_plate_log_edits";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "trade_plate_log_entries";
+--> statement-breakpoint
+ALTER TABLE "jobs" DROP COLUMN IF EXISTS "vehicle_registration";
+--> statement-breakpoint
+ALTER TABLE "jobs" DROP COLUMN IF EXISTS "trade_plate_number";
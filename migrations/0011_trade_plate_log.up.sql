@@ -0,0 +1,56 @@
+-- Jobs say which trade plate and vehicle they move; checked-in jobs build the DVLA usage log, whose edits are audited
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "trade_plate_number" text;
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "vehicle_registration" text;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "trade_plate_log_entries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"job_id" varchar,
+	"date" text NOT NULL,
+	"plate_number" text NOT NULL,
+	"vehicle_registration" text,
+	"start_time" timestamp NOT NULL,
+	"end_time" timestamp,
+	"start_location" text NOT NULL,
+	"end_location" text NOT NULL,
+	"purpose" text DEFAULT 'Delivery' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "trade_plate_log_entries_job_id_unique" UNIQUE("job_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "trade_plate_log_edits" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"entry_id" varchar NOT NULL,
+	"edited_by" varchar NOT NULL,
+	"field" text NOT NULL,
+	"old_value" text,
+	"new_value" text,
+	"reason" text NOT NULL,
+	"edited_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "trade_plate_log_entries" ADD CONSTRAINT "trade_plate_log_entries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "trade_plate_log_entries" ADD CONSTRAINT "trade_plate_log_entries_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "trade_plate_log_edits" ADD CONSTRAINT "trade_plate_log_edits_entry_id_trade_plate_log_entries_id_fk" FOREIGN KEY ("entry_id") REFERENCES "public"."trade_plate_log_entries"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "trade_plate_log_edits" ADD CONSTRAINT "trade_plate_log_edits_edited_by_users_id_fk" FOREIGN KEY ("edited_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
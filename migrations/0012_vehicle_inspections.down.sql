@@ -0,0 +1,7 @@
+DROP TABLE IF EXISTS "inspection_photos";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "inspection_damage";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "inspection_checklist_items";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "vehicle_inspections";
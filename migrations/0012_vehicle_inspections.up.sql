@@ -0,0 +1,78 @@
+-- Condition reports taken at pickup and dropoff: checklist, damage markers, photos and the customer's signature
+CREATE TABLE IF NOT EXISTS "vehicle_inspections" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" varchar,
+	"user_id" varchar NOT NULL,
+	"stage" text NOT NULL,
+	"mileage" integer,
+	"fuel_level" integer,
+	"notes" text,
+	"signature_name" text,
+	"signature_path" text,
+	"signed_at" timestamp,
+	"lat" real,
+	"lng" real,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "vehicle_inspections_job_stage_unique" UNIQUE("job_id","stage")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "inspection_checklist_items" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"inspection_id" varchar NOT NULL,
+	"position" integer NOT NULL,
+	"item" text NOT NULL,
+	"passed" boolean NOT NULL,
+	"note" text
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "inspection_damage" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"inspection_id" varchar NOT NULL,
+	"position" integer NOT NULL,
+	"view" text NOT NULL,
+	"x" real NOT NULL,
+	"y" real NOT NULL,
+	"type" text NOT NULL,
+	"severity" text DEFAULT 'minor' NOT NULL,
+	"note" text
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "inspection_photos" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"inspection_id" varchar NOT NULL,
+	"position" integer NOT NULL,
+	"blob_key" text NOT NULL,
+	"content_type" text NOT NULL,
+	"size_bytes" integer NOT NULL,
+	"caption" text
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "vehicle_inspections" ADD CONSTRAINT "vehicle_inspections_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "vehicle_inspections" ADD CONSTRAINT "vehicle_inspections_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "inspection_checklist_items" ADD CONSTRAINT "inspection_checklist_items_inspection_id_vehicle_inspections_id_fk" FOREIGN KEY ("inspection_id") REFERENCES "public"."vehicle_inspections"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "inspection_damage" ADD CONSTRAINT "inspection_damage_inspection_id_vehicle_inspections_id_fk" FOREIGN KEY ("inspection_id") REFERENCES "public"."vehicle_inspections"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "inspection_photos" ADD CONSTRAINT "inspection_photos_inspection_id_vehicle_inspections_id_fk" FOREIGN KEY ("inspection_id") REFERENCES "public"."vehicle_inspections"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,12 @@
+-- Responses to mutations sent with an Idempotency-Key, so the offline queue's replays never apply twice
+CREATE TABLE IF NOT EXISTS "idempotency_keys" (
+	"key" varchar PRIMARY KEY NOT NULL,
+	"user_id" varchar,
+	"method" text NOT NULL,
+	"path" text NOT NULL,
+	"request_hash" text NOT NULL,
+	"status_code" integer,
+	"response" text,
+	"created_at" timestamp DEFAULT now(),
+	"completed_at" timestamp
+);
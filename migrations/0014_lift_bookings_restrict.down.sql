@@ -0,0 +1,3 @@
+ALTER TABLE "lift_bookings" DROP CONSTRAINT IF EXISTS "lift_bookings_offer_id_lift_offers_id_fk";
+--> statement-breakpoint
+ALTER TABLE "lift_bookings" ADD CONSTRAINT "lift_bookings_offer_id_lift_offers_id_fk" FOREIGN KEY ("offer_id") REFERENCES "public"."lift_offers"("id") ON DELETE cascade ON UPDATE no action;
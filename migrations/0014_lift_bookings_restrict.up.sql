@@ -0,0 +1,4 @@
+-- Bookings are the passengers' record of a lift, so a booked offer can no longer be deleted out from under them
+ALTER TABLE "lift_bookings" DROP CONSTRAINT IF EXISTS "lift_bookings_offer_id_lift_offers_id_fk";
+--> statement-breakpoint
+ALTER TABLE "lift_bookings" ADD CONSTRAINT "lift_bookings_offer_id_lift_offers_id_fk" FOREIGN KEY ("offer_id") REFERENCES "public"."lift_offers"("id") ON DELETE restrict ON UPDATE no action;
@@ -0,0 +1,5 @@
+ALTER TABLE "messages" DROP COLUMN IF EXISTS "received_at";
+--> statement-breakpoint
+ALTER TABLE "jobs" DROP COLUMN IF EXISTS "check_out_received_at";
+--> statement-breakpoint
+ALTER TABLE "jobs" DROP COLUMN IF EXISTS "check_in_received_at";
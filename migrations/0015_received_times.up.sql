@@ -0,0 +1,11 @@
+-- When the server got each check-in, check-out and message, kept apart from the time it happened on the
+-- driver's device for ones queued offline. Earlier rows were all sent live, so the two times match.
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "check_in_received_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "check_out_received_at" timestamp;
+--> statement-breakpoint
+UPDATE "jobs" SET "check_in_received_at" = "actual_start_time", "check_out_received_at" = "actual_end_time";
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "received_at" timestamp DEFAULT now();
+--> statement-breakpoint
+UPDATE "messages" SET "received_at" = "created_at";
@@ -0,0 +1,29 @@
+import { storage } from "../server/storage.js";
+import { backfillThreeWordCoordinates, threeWords } from "../server/what3words.js";
+
+// Usage:
+//   tsx scripts/backfill-w3w.ts
+// Resolves What3Words addresses saved without coordinates (check-ins and loader spaces posted while
+// W3W_API_KEY was unset or the API was unreachable) and fills in their lat/lng.
+// Reads from the configured storage backend (STORAGE_BACKEND=postgres for real data).
+async function main() {
+  if (!threeWords) {
+    throw new Error("Set W3W_API_KEY (or W3W_FIXTURES) to resolve What3Words addresses");
+  }
+
+  const result = await backfillThreeWordCoordinates(storage, threeWords);
+  console.log(`📍 What3Words back-fill via ${threeWords.name}: ${result.resolved} rows updated`);
+  if (result.notFound.length > 0) {
+    console.log(`   Not What3Words addresses: ${result.notFound.join(", ")}`);
+  }
+  if (result.unavailable > 0) {
+    console.log(`   ${result.unavailable} lookups failed, run again later`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ What3Words back-fill failed:", error);
+    process.exit(1);
+  });
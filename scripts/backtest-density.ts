@@ -0,0 +1,39 @@
+import { storage } from "../server/storage.js";
+import { backtestDensity, observationsFromJobs } from "../server/driver-density.js";
+
+// Usage:
+//   tsx scripts/backtest-density.ts [heldOutDays] [trainingDays]
+// Replays the last heldOutDays (default 7) of job check-ins/check-outs: each day is predicted per
+// region cell and hour from the trainingDays (default 28) before it and compared with what happened.
+// Reads from the configured storage backend (STORAGE_BACKEND=postgres for real history).
+async function main() {
+  const [heldOutArg, trainingArg] = process.argv.slice(2);
+  const heldOutDays = heldOutArg ? parseInt(heldOutArg, 10) : 7;
+  const trainingDays = trainingArg ? parseInt(trainingArg, 10) : 28;
+  if (!(heldOutDays > 0) || !(trainingDays > 0) || trainingDays % 7 !== 0) {
+    throw new Error("heldOutDays must be positive and trainingDays a positive multiple of 7");
+  }
+
+  const jobs = await storage.getRecentCheckIns((heldOutDays + trainingDays + 1) * 24);
+  const history = observationsFromJobs(jobs);
+  if (history.length === 0) {
+    console.log("No job check-ins in range, nothing to backtest");
+    return;
+  }
+
+  const result = backtestDensity(history, { end: new Date(), heldOutDays, trainingDays });
+  console.log(`📊 Driver density backtest: ${history.length} observations, ${result.cells} region cells`);
+  console.log(`   Held out ${result.heldOutDays} days, trained on the ${result.trainingDays} days before each`);
+  console.log(`   Cell-hours evaluated: ${result.hoursEvaluated}`);
+  console.log(`   MAE:  ${result.mae} drivers (flat hourly baseline ${result.baselineMae})`);
+  console.log(`   RMSE: ${result.rmse}`);
+  console.log(`   Bias: ${result.bias > 0 ? "+" : ""}${result.bias}`);
+  console.log(`   Low/Medium/High label accuracy: ${Math.round(result.labelAccuracy * 100)}%`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Backtest failed:", error);
+    process.exit(1);
+  });
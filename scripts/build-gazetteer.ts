@@ -0,0 +1,83 @@
+import { createReadStream, createWriteStream, readFileSync } from "fs";
+import path from "path";
+import { createInterface } from "readline";
+import { GAZETTEER_DIR, normalizePostcode, parseCsv } from "../server/gazetteer.js";
+
+// Usage:
+//   tsx scripts/build-gazetteer.ts <ONSPD.csv> [code-names.csv ...]
+// Converts an ONS Postcode Directory download into data/gazetteer/postcodes.csv and outcodes.csv
+// (or GAZETTEER_DIR). Terminated postcodes and ones without coordinates are dropped. Each optional
+// names file maps codes (first column) to names (second column), e.g. the ONSPD "LA_UA names and
+// codes" and "Region names and codes" documents, so districts and regions read as names.
+// places.csv is maintained separately from the ONS Index of Place Names.
+async function main() {
+  const [onspdPath, ...namesPaths] = process.argv.slice(2);
+  if (!onspdPath) {
+    throw new Error("Usage: tsx scripts/build-gazetteer.ts <ONSPD.csv> [code-names.csv ...]");
+  }
+
+  const names = new Map<string, string>();
+  for (const namesPath of namesPaths) {
+    for (const row of parseCsv(readFileSync(namesPath, "utf-8"))) {
+      const [code, name] = Object.values(row);
+      if (code && name) names.set(code, name);
+    }
+  }
+
+  const outDir = process.env.GAZETTEER_DIR || GAZETTEER_DIR;
+  const postcodesOut = createWriteStream(path.join(outDir, "postcodes.csv"));
+  postcodesOut.write("pcds,lat,long,district,region\n");
+  const outcodes = new Map<string, { lat: number; lng: number; n: number; district: string; region: string }>();
+  const quote = (value: string) => (value.includes(",") ? `"${value.replace(/"/g, '""')}"` : value);
+
+  // The full directory is over a gigabyte, so stream it a line at a time
+  const lines = createInterface({ input: createReadStream(onspdPath), crlfDelay: Infinity });
+  let header: string | undefined;
+  let kept = 0;
+  let skipped = 0;
+  for await (const line of lines) {
+    if (!header) {
+      header = line;
+      continue;
+    }
+    const [row] = parseCsv(`${header}\n${line}`);
+    const postcode = normalizePostcode(row.pcds ?? row.pcd ?? "");
+    const lat = parseFloat(row.lat);
+    const lng = parseFloat(row.long);
+    if (!postcode || row.doterm || !Number.isFinite(lat) || !Number.isFinite(lng) || lat > 90) {
+      skipped++;
+      continue;
+    }
+
+    const district = names.get(row.oslaua ?? row.lad) ?? row.oslaua ?? "";
+    const region = names.get(row.rgn) ?? row.rgn ?? "";
+    postcodesOut.write(`${postcode},${lat},${lng},${quote(district)},${quote(region)}\n`);
+    kept++;
+
+    const outcode = postcode.split(" ")[0];
+    const sum = outcodes.get(outcode) ?? { lat: 0, lng: 0, n: 0, district, region };
+    sum.lat += lat;
+    sum.lng += lng;
+    sum.n++;
+    outcodes.set(outcode, sum);
+  }
+  await new Promise((resolve) => postcodesOut.end(resolve));
+
+  const outcodesOut = createWriteStream(path.join(outDir, "outcodes.csv"));
+  outcodesOut.write("outcode,lat,long,district,region\n");
+  outcodes.forEach(({ lat, lng, n, district, region }, outcode) => {
+    outcodesOut.write(`${outcode},${(lat / n).toFixed(6)},${(lng / n).toFixed(6)},${quote(district)},${quote(region)}\n`);
+  });
+  await new Promise((resolve) => outcodesOut.end(resolve));
+
+  console.log(`📮 Gazetteer written to ${outDir}`);
+  console.log(`   Postcodes: ${kept} (skipped ${skipped} terminated or without coordinates)`);
+  console.log(`   Outward codes: ${outcodes.size}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Gazetteer build failed:", error);
+    process.exit(1);
+  });
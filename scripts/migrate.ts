@@ -0,0 +1,43 @@
+import { createDb } from "../server/db.js";
+import { migrateDown, migrateUp, migrationStatus } from "../server/migrator.js";
+
+// Usage:
+//   tsx scripts/migrate.ts up [targetVersion]
+//   tsx scripts/migrate.ts down [steps]
+//   tsx scripts/migrate.ts status
+async function main() {
+  const [command = "up", arg] = process.argv.slice(2);
+  const db = createDb();
+
+  switch (command) {
+    case "up": {
+      const applied = await migrateUp(db, { to: arg ? parseInt(arg, 10) : undefined });
+      if (applied.length === 0) console.log("✅ Database is up to date");
+      applied.forEach((m) => console.log(`⬆️  Applied ${m.version}_${m.name}`));
+      break;
+    }
+    case "down": {
+      const reverted = await migrateDown(db, { steps: arg ? parseInt(arg, 10) : 1 });
+      if (reverted.length === 0) console.log("Nothing to roll back");
+      reverted.forEach((m) => console.log(`⬇️  Reverted ${m.version}_${m.name}`));
+      break;
+    }
+    case "status": {
+      const status = await migrationStatus(db);
+      status.forEach((m) => {
+        const state = m.appliedAt ? `applied ${m.appliedAt.toISOString()}` : "pending";
+        console.log(`${String(m.version).padStart(4, "0")}_${m.name}: ${state}`);
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}". Use up, down or status.`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  });
@@ -1,7 +1,13 @@
 import WebSocket from 'ws';
 
-const SERVER = process.env.WS || 'ws://localhost:5000';
+const SERVER = process.env.WS || 'ws://localhost:5000/ws';
 const N = parseInt(process.env.CLIENTS || '100', 10);
+// /ws only accepts signed-in sessions: pass a dn.sid cookie, e.g. COOKIE='dn.sid=s%3A...'
+const COOKIE = process.env.COOKIE;
+
+if (!COOKIE) {
+  console.warn('No COOKIE set, the server will reject every connection with 401');
+}
 
 function jitter(base: number) {
   return base + (Math.random() - 0.5) * 0.01;
@@ -10,7 +16,7 @@ function jitter(base: number) {
 console.log(`Starting ${N} WebSocket clients to ${SERVER}...`);
 
 for (let i = 0; i < N; i++) {
-  const ws = new WebSocket(SERVER);
+  const ws = new WebSocket(SERVER, { headers: COOKIE ? { Cookie: COOKIE } : {} });
   const baseLat = 51.50 + Math.random() * 0.1;
   const baseLng = -0.14 + Math.random() * 0.1;
 
@@ -1,4 +1,4 @@
-import bcrypt from "bcrypt";
+import bcrypt from "bcryptjs";
 import { storage } from "../server/storage.js";
 
 // North East England cities with coordinates
@@ -0,0 +1,23 @@
+import { createDb } from "../server/db.js";
+import { migrateUp } from "../server/migrator.js";
+import { seedReferenceData } from "../server/seed.js";
+
+// Brings the database to the latest migration, then seeds badges and demo data.
+// Safe to run repeatedly: existing rows are left untouched.
+async function main() {
+  const db = createDb();
+
+  const applied = await migrateUp(db);
+  applied.forEach((m) => console.log(`⬆️  Applied ${m.version}_${m.name}`));
+
+  const seeded = await seedReferenceData(db);
+  console.log(`🌱 Badges upserted: ${seeded.badges}`);
+  console.log(`🌱 New demo users: ${seeded.users}, user stats: ${seeded.userStats}, lift requests: ${seeded.liftRequests}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Seeding failed:", error);
+    process.exit(1);
+  });
@@ -1,5 +1,7 @@
 // AI Routing Utilities
-// Haversine distance, ETA estimation, route optimization helpers
+// Haversine distance, ETA estimation, polyline and corridor helpers
+
+import { estimateDriveMinutes } from "@shared/speed-model";
 
 export interface Coordinates {
   lat: number;
@@ -13,10 +15,6 @@ export interface RouteLeg {
   notes?: string;
 }
 
-export interface OrderedLeg extends RouteLeg {
-  __idx: number;
-}
-
 // Haversine distance in miles (UK standard)
 export function haversineMiles(a: Coordinates, b: Coordinates): number {
   const R = 3959; // Earth radius in miles
@@ -35,43 +33,9 @@ function toRad(degrees: number): number {
   return degrees * Math.PI / 180;
 }
 
-// Estimate travel time in minutes
-// Assumes avg 60 mph road mix, adds bias for peak hours
+// Estimate driving time in minutes for a straight-line distance, on the shared speed model
 export function estimateMinutes(distanceMiles: number, whenISO?: string): number {
-  const baseMins = (distanceMiles / 60) * 60; // 60 mph average
-  const dt = whenISO ? new Date(whenISO) : new Date();
-  const hour = dt.getHours();
-  const peak = (hour >= 7 && hour <= 9) || (hour >= 16 && hour <= 18);
-  const bias = peak ? 1.25 : 1.1; // Peak hours 25% slower, off-peak 10% overhead
-  return Math.round(baseMins * bias + 5); // add 5 min overhead for stops
-}
-
-// Nearest neighbor route optimization
-// Orders legs to minimize total travel distance
-export function orderLegs(startPoint: Coordinates, legs: RouteLeg[]): RouteLeg[] {
-  const remaining = legs.map((leg, i) => ({ ...leg, __idx: i } as OrderedLeg));
-  const ordered: RouteLeg[] = [];
-  let cursor = startPoint;
-  
-  while (remaining.length > 0) {
-    // Find pickup nearest to current position
-    let bestIdx = 0;
-    let bestDist = Infinity;
-    
-    for (let i = 0; i < remaining.length; i++) {
-      const d = haversineMiles(cursor, remaining[i].pickup);
-      if (d < bestDist) {
-        bestDist = d;
-        bestIdx = i;
-      }
-    }
-    
-    const chosen = remaining.splice(bestIdx, 1)[0];
-    ordered.push(chosen);
-    cursor = chosen.dropoff;
-  }
-  
-  return ordered;
+  return estimateDriveMinutes(distanceMiles, whenISO ? new Date(whenISO) : new Date());
 }
 
 // Simple polyline encoding (lat/lng pairs as base64 JSON)
@@ -0,0 +1,267 @@
+// Badge Engine
+// Each badge in the catalog can have a rule (BADGE_RULES, next to the catalog in demo-data):
+// a metric, a comparison against a threshold, and optionally a window of recent activity and a
+// minimum number of samples. Rules are evaluated when something their metric depends on happens,
+// badges whose rules are met are awarded, and progress towards the rest is stored on the
+// user's badge rows so Profile can show how far there is to go.
+
+import type { UserBadge } from "@shared/schema";
+import type { BadgeProgress } from "@shared/badges";
+import type { IStorage } from "./storage";
+import { BADGE_RULES } from "./demo-data";
+import { awardBadgePoints } from "./points";
+import { loadUserActivity, punctualitySamples, timeliness, type UserActivity } from "./user-metrics";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const QUICK_REPLY_MS = 5 * 60 * 1000;
+const THANK_YOU_PATTERN = /\b(thanks|thank you|thank u|thx|cheers|much appreciated)\b/i;
+
+// What can trigger a re-evaluation; rules only run for events their metric depends on
+export type BadgeEvent = "lift-completed" | "rating-received" | "message" | "job-completed" | "metrics";
+
+export type BadgeMetric =
+  | "liftsShared"
+  | "averageRating"
+  | "lowestRating"
+  | "thankYouMessages"
+  | "quickReplies"
+  | "punctuality"
+  | "onTimeJobs";
+
+export interface BadgeRule {
+  metric: BadgeMetric;
+  comparator: "gte" | "lte";
+  threshold: number;
+  // Only activity in the last `days` days, or the most recent `count` samples, counts
+  window?: { days?: number; count?: number };
+  // Averages and lowest values need this many samples in the window before they count
+  minSamples?: number;
+}
+
+interface Sample {
+  at: Date | null;
+  value: number;
+}
+
+interface MetricSources {
+  storage: IStorage;
+  userId: string;
+  activity(): Promise<UserActivity>;
+  ratings(): Promise<{ at: Date | null; stars: number }[]>;
+  messages(): Promise<{ senderId: string; content: string; createdAt: Date | null }[][]>;
+}
+
+interface MetricDefinition {
+  aggregate: "sum" | "average" | "minimum";
+  unit: string;
+  // What minSamples counts
+  sampleUnit: string;
+  events: BadgeEvent[];
+  samples(sources: MetricSources): Promise<Sample[]>;
+}
+
+const METRICS: Record<BadgeMetric, MetricDefinition> = {
+  liftsShared: {
+    aggregate: "sum",
+    unit: "lifts",
+    sampleUnit: "lifts",
+    events: ["lift-completed", "metrics"],
+    // The running total kept as bookings complete; it has no dates, so windows don't apply
+    samples: async ({ storage, userId }) => {
+      const stats = await storage.getUserStats(userId);
+      return [{ at: null, value: stats?.totalLiftsShared ?? 0 }];
+    },
+  },
+  averageRating: {
+    aggregate: "average",
+    unit: "stars",
+    sampleUnit: "ratings",
+    events: ["rating-received"],
+    samples: async ({ ratings }) => (await ratings()).map(({ at, stars }) => ({ at, value: stars })),
+  },
+  lowestRating: {
+    aggregate: "minimum",
+    unit: "stars",
+    sampleUnit: "ratings",
+    events: ["rating-received", "metrics"],
+    samples: async ({ ratings }) => (await ratings()).map(({ at, stars }) => ({ at, value: stars })),
+  },
+  thankYouMessages: {
+    aggregate: "sum",
+    unit: "thank-you messages",
+    sampleUnit: "messages",
+    events: ["message"],
+    samples: async ({ userId, messages }) => (await messages()).flat()
+      .filter((m) => m.senderId !== userId && THANK_YOU_PATTERN.test(m.content))
+      .map((m) => ({ at: m.createdAt, value: 1 })),
+  },
+  quickReplies: {
+    aggregate: "sum",
+    unit: "quick replies",
+    sampleUnit: "replies",
+    events: ["message"],
+    // A reply within five minutes of the other person's last message
+    samples: async ({ userId, messages }) => (await messages()).flatMap((conversation) =>
+      conversation.flatMap((message, i) => {
+        const previous = conversation[i - 1];
+        if (!previous || message.senderId !== userId || previous.senderId === userId) return [];
+        if (!message.createdAt || !previous.createdAt) return [];
+        return message.createdAt.getTime() - previous.createdAt.getTime() <= QUICK_REPLY_MS
+          ? [{ at: message.createdAt, value: 1 }]
+          : [];
+      })),
+  },
+  punctuality: {
+    aggregate: "average",
+    unit: "% on time",
+    sampleUnit: "check-ins",
+    events: ["job-completed", "metrics"],
+    samples: async ({ activity }) => punctualitySamples(await activity()).map(({ at, score }) => ({ at, value: score * 100 })),
+  },
+  onTimeJobs: {
+    aggregate: "sum",
+    unit: "on-time deliveries",
+    sampleUnit: "deliveries",
+    events: ["job-completed"],
+    samples: async ({ activity }) => (await activity()).jobs
+      .filter((job) => job.status === "completed" && job.actualEndTime && timeliness(job.estimatedEndTime, job.actualEndTime) === 1)
+      .map((job) => ({ at: job.actualEndTime, value: 1 })),
+  },
+};
+
+function inWindow(samples: Sample[], window: BadgeRule["window"], now: Date): Sample[] {
+  let result = samples;
+  if (window?.days !== undefined) {
+    const since = now.getTime() - window.days * MS_PER_DAY;
+    result = result.filter((s) => s.at !== null && s.at.getTime() >= since);
+  }
+  if (window?.count !== undefined) {
+    result = [...result].sort((a, b) => (b.at?.getTime() ?? 0) - (a.at?.getTime() ?? 0)).slice(0, window.count);
+  }
+  return result;
+}
+
+function aggregate(kind: MetricDefinition["aggregate"], samples: Sample[]): number {
+  if (samples.length === 0) return 0;
+  const values = samples.map((s) => s.value);
+  if (kind === "sum") return values.reduce((sum, v) => sum + v, 0);
+  if (kind === "minimum") return Math.min(...values);
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// Progress towards one rule, without the badge or whether it was already earned
+export function evaluateBadgeRule(rule: BadgeRule, allSamples: Sample[], now: Date = new Date()) {
+  const metric = METRICS[rule.metric];
+  const samples = inWindow(allSamples, rule.window, now);
+  const value = aggregate(metric.aggregate, samples);
+  // Totals count from zero; averages and lowest values mean nothing without samples
+  const minSamples = Math.max(1, rule.minSamples ?? 1);
+
+  if (metric.aggregate !== "sum" && samples.length < minSamples) {
+    return {
+      met: false,
+      progress: Math.floor((samples.length / minSamples) * 100),
+      current: samples.length,
+      target: minSamples,
+      unit: metric.sampleUnit,
+    };
+  }
+
+  const met = rule.comparator === "gte" ? value >= rule.threshold : value <= rule.threshold;
+  const ratio = rule.comparator === "gte" ? value / rule.threshold : value === 0 ? 1 : rule.threshold / value;
+  return {
+    met,
+    // Not there until it's met, however close
+    progress: met ? 100 : Math.min(99, Math.floor(Math.max(0, ratio) * 100)),
+    current: Math.round(value * 10) / 10,
+    target: rule.threshold,
+    unit: metric.unit,
+  };
+}
+
+function metricSources(storage: IStorage, userId: string): MetricSources {
+  // Each source is loaded at most once per evaluation, and only if a rule needs it
+  const once = <T>(load: () => Promise<T>) => {
+    let loaded: Promise<T> | undefined;
+    return () => (loaded ??= load());
+  };
+  return {
+    storage,
+    userId,
+    activity: once(() => loadUserActivity(storage, userId)),
+    ratings: once(async () => (await storage.getRatingsByUserId(userId)).map((r) => ({ at: r.createdAt, stars: r.stars }))),
+    messages: once(async () => {
+      const conversations = await storage.getConversations(userId);
+      return Promise.all(conversations.map((c) => storage.getMessagesBetweenUsers(userId, c.userId)));
+    }),
+  };
+}
+
+// The rules relevant to `event` (all of them when it's left out), each with the user's badge row
+// and how they stand against it
+async function evaluateRules(storage: IStorage, userId: string, event: BadgeEvent | undefined, now: Date) {
+  const catalog = await storage.getAllBadges();
+  const existing = new Map((await storage.getUserBadgeProgress(userId)).map((ub) => [ub.badgeId, ub]));
+  const sources = metricSources(storage, userId);
+  const samplesByMetric = new Map<BadgeMetric, Promise<Sample[]>>();
+
+  const evaluated = [];
+  for (const badge of catalog) {
+    const rule = BADGE_RULES[badge.id];
+    if (!rule) continue;
+    if (event && !METRICS[rule.metric].events.includes(event)) continue;
+
+    if (!samplesByMetric.has(rule.metric)) {
+      samplesByMetric.set(rule.metric, METRICS[rule.metric].samples(sources));
+    }
+    const result = evaluateBadgeRule(rule, await samplesByMetric.get(rule.metric)!, now);
+    evaluated.push({ badge, row: existing.get(badge.id), result });
+  }
+  return evaluated;
+}
+
+// Evaluates the rules relevant to `event` (all of them when it's left out), awarding badges
+// whose rules are met and storing progress towards the others. Progress is returned for the
+// rules evaluated, so for every ruled badge in the catalog when there's no event.
+export async function evaluateBadges(
+  storage: IStorage,
+  userId: string,
+  event?: BadgeEvent,
+  now: Date = new Date(),
+): Promise<{ awarded: UserBadge[]; progress: BadgeProgress[] }> {
+  const awarded: UserBadge[] = [];
+  const progress: BadgeProgress[] = [];
+  for (const { badge, row, result } of await evaluateRules(storage, userId, event, now)) {
+    const earnedAt = row?.earnedAt ?? null;
+    if (earnedAt) {
+      // Earned badges are kept even if the rule lapses
+      progress.push({ badge, earned: true, earnedAt, ...result, progress: 100 });
+      continue;
+    }
+    if (result.met) {
+      const userBadge = await storage.awardBadge(userId, badge.id);
+      if (userBadge) {
+        awarded.push(userBadge);
+        await awardBadgePoints(storage, userId, badge.id);
+      }
+      progress.push({ badge, earned: true, earnedAt: userBadge?.earnedAt ?? now, ...result });
+      continue;
+    }
+    if (row?.progress !== result.progress) {
+      await storage.setBadgeProgress(userId, badge.id, result.progress);
+    }
+    progress.push({ badge, earned: false, earnedAt: null, ...result });
+  }
+  return { awarded, progress };
+}
+
+// Progress towards every ruled badge in the catalog, for showing only: nothing is awarded or stored.
+// Badges are awarded by the events their rules depend on.
+export async function badgeProgress(storage: IStorage, userId: string, now: Date = new Date()): Promise<BadgeProgress[]> {
+  return (await evaluateRules(storage, userId, undefined, now)).map(({ badge, row, result }) => {
+    const earnedAt = row?.earnedAt ?? null;
+    return earnedAt
+      ? { badge, earned: true, earnedAt, ...result, progress: 100 }
+      : { badge, earned: false, earnedAt: null, ...result };
+  });
+}
@@ -0,0 +1,93 @@
+// Blob Stores
+// Uploaded files (verification documents) kept behind one interface so the backing store can be
+// swapped: a directory on the local filesystem by default, or memory for tests. Callers choose the
+// keys and keep content types and sizes in their own metadata.
+
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+export interface BlobStore {
+  readonly name: string;
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<boolean>;
+}
+
+export class BlobKeyError extends Error {
+  constructor(readonly key: string) {
+    super(`Invalid blob key "${key}"`);
+    this.name = "BlobKeyError";
+  }
+}
+
+// Slash-separated segments of letters, digits, dots, dashes and underscores; no "..", so a key
+// can't reach outside the store's directory
+export function assertBlobKey(key: string): void {
+  const segments = key.split("/");
+  if (segments.some(segment => !/^[A-Za-z0-9._-]+$/.test(segment) || segment === "." || segment === "..")) {
+    throw new BlobKeyError(key);
+  }
+}
+
+export class LocalBlobStore implements BlobStore {
+  readonly name = "local";
+
+  constructor(private rootDir: string) {}
+
+  private pathFor(key: string): string {
+    assertBlobKey(key);
+    return path.join(this.rootDir, ...key.split("/"));
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.pathFor(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const file = this.pathFor(key);
+    if (!(await this.get(key))) return false;
+    await rm(file);
+    return true;
+  }
+}
+
+export class MemoryBlobStore implements BlobStore {
+  readonly name = "memory";
+  private blobs = new Map<string, Buffer>();
+
+  async put(key: string, data: Buffer): Promise<void> {
+    assertBlobKey(key);
+    this.blobs.set(key, Buffer.from(data));
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    return this.blobs.get(key);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.blobs.delete(key);
+  }
+}
+
+// BLOB_STORE=memory keeps uploads in memory (tests, throwaway demos). Otherwise files go under
+// BLOB_STORE_DIR, by default ./uploads in the working directory.
+export function createBlobStore(env: NodeJS.ProcessEnv = process.env): BlobStore {
+  if (env.BLOB_STORE === "memory") return new MemoryBlobStore();
+  if (env.BLOB_STORE && env.BLOB_STORE !== "local") {
+    console.warn(`Unknown blob store "${env.BLOB_STORE}" in BLOB_STORE, using local`);
+  }
+  return new LocalBlobStore(path.resolve(env.BLOB_STORE_DIR || "uploads"));
+}
+
+export const blobStore: BlobStore = createBlobStore();
@@ -0,0 +1,19 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any Drizzle Postgres database built over the shared schema (Neon in production, PGlite in tests)
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createDb(connectionString = process.env.DATABASE_URL): Database {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set to use the postgres storage backend");
+  }
+
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
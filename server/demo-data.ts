@@ -0,0 +1,249 @@
+// Demo data shared by MemStorage's development seed and the `db:seed` command.
+// Fixed ids keep seeding idempotent against Postgres.
+
+import type { Badge, LiftRequest, PointsLedgerEntry, User, UserStats } from "@shared/schema";
+import type { BadgeRule } from "./badge-engine";
+
+export const DEMO_BADGES: Badge[] = [
+  // Milestone badges
+  { id: 'first-lift', name: 'First Lift', description: 'Complete your first shared lift', category: 'milestone', icon: '🚗', requirement: 'Share 1 lift', threshold: 1 },
+  { id: '10-lifts', name: '10 Lifts', description: 'Share 10 lifts with other drivers', category: 'milestone', icon: '🔟', requirement: 'Share 10 lifts', threshold: 10 },
+  { id: '50-lifts', name: '50 Lifts', description: 'Share 50 lifts with other drivers', category: 'milestone', icon: '⭐', requirement: 'Share 50 lifts', threshold: 50 },
+  { id: '100-lifts', name: 'Century Club', description: 'Share 100 lifts with other drivers', category: 'milestone', icon: '💯', requirement: 'Share 100 lifts', threshold: 100 },
+  
+  // Quality badges
+  { id: '5-star-pro', name: '5-Star Pro', description: 'Maintain 4.8+ rating over 20 trips', category: 'quality', icon: '⭐', requirement: 'Average 4.8+ stars over 20 lifts', threshold: null },
+  { id: 'perfect-week', name: 'Perfect Week', description: 'Receive only 5-star ratings for a week', category: 'quality', icon: '🌟', requirement: '7 days of 5-star ratings', threshold: null },
+  
+  // Community badges
+  { id: 'helpful-driver', name: 'Helpful Driver', description: 'Receive 10 thank you messages', category: 'community', icon: '🤝', requirement: '10 thank you messages', threshold: 10 },
+  { id: 'quick-responder', name: 'Quick Responder', description: 'Reply to messages within 5 minutes', category: 'community', icon: '⚡', requirement: '20 quick responses', threshold: 20 },
+  
+  // Safety badges
+  { id: 'on-time-champion', name: 'On-Time Champion', description: 'Maintain 95%+ punctuality for 30 days', category: 'safety', icon: '⏰', requirement: '95%+ punctuality for 30 days', threshold: null },
+  { id: 'route-master', name: 'Route Master', description: 'Complete 50 routes without delays', category: 'safety', icon: '🗺️', requirement: '50 on-time deliveries', threshold: 50 },
+];
+
+// How each catalog badge is earned, evaluated by the badge engine (server/badge-engine.ts)
+export const BADGE_RULES: Record<string, BadgeRule> = {
+  'first-lift': { metric: 'liftsShared', comparator: 'gte', threshold: 1 },
+  '10-lifts': { metric: 'liftsShared', comparator: 'gte', threshold: 10 },
+  '50-lifts': { metric: 'liftsShared', comparator: 'gte', threshold: 50 },
+  '100-lifts': { metric: 'liftsShared', comparator: 'gte', threshold: 100 },
+
+  '5-star-pro': { metric: 'averageRating', comparator: 'gte', threshold: 4.8, window: { count: 20 }, minSamples: 20 },
+  'perfect-week': { metric: 'lowestRating', comparator: 'gte', threshold: 5, window: { days: 7 }, minSamples: 5 },
+
+  'helpful-driver': { metric: 'thankYouMessages', comparator: 'gte', threshold: 10 },
+  'quick-responder': { metric: 'quickReplies', comparator: 'gte', threshold: 20 },
+
+  'on-time-champion': { metric: 'punctuality', comparator: 'gte', threshold: 95, window: { days: 30 }, minSamples: 20 },
+  'route-master': { metric: 'onTimeJobs', comparator: 'gte', threshold: 50 },
+};
+
+export function buildDemoUsers(hashedPassword: string): User[] {
+  return [
+    { 
+      id: 'user-1', 
+      username: 'john_driver', 
+      password: hashedPassword, 
+      name: 'John Smith', 
+      callSign: 'JS1234',
+      email: null,
+      phone: null,
+      avatar: null, 
+      role: 'user',
+      driverType: 'driver',
+      paymentPreference: 'subscription',
+      tradePlateDoc: null,
+      insuranceDoc: null,
+      rating: 4.8, 
+      totalTrips: 156, 
+      verified: true,
+      leaderboardOptOut: false,
+      accountStatus: 'active',
+      suspendedUntil: null,
+      warningCount: 0,
+      stripeCustomerId: null,
+      subscriptionStatus: 'active', // Give demo users active subscription
+      currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
+      planId: 'demo-plan',
+      createdAt: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000), // 90 days ago
+    },
+    { 
+      id: 'user-2', 
+      username: 'sarah_delivers', 
+      password: hashedPassword, 
+      name: 'Sarah Johnson', 
+      callSign: 'SJ5678',
+      email: null,
+      phone: null,
+      avatar: null, 
+      role: 'user',
+      driverType: 'driver',
+      paymentPreference: 'subscription',
+      tradePlateDoc: null,
+      insuranceDoc: null,
+      rating: 4.9, 
+      totalTrips: 203, 
+      verified: true,
+      leaderboardOptOut: false,
+      accountStatus: 'active',
+      suspendedUntil: null,
+      warningCount: 0,
+      stripeCustomerId: null,
+      subscriptionStatus: 'active',
+      currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+      planId: 'demo-plan',
+      createdAt: new Date(Date.now() - 120 * 24 * 60 * 60 * 1000), // 120 days ago
+    },
+    { 
+      id: 'user-3', 
+      username: 'mike_transport', 
+      password: hashedPassword, 
+      name: 'Mike Williams', 
+      callSign: 'MW9012',
+      email: null,
+      phone: null,
+      avatar: null, 
+      role: 'user',
+      driverType: 'driver',
+      paymentPreference: 'subscription',
+      tradePlateDoc: null,
+      insuranceDoc: null,
+      rating: 4.7, 
+      totalTrips: 98, 
+      verified: true,
+      leaderboardOptOut: false,
+      accountStatus: 'active',
+      suspendedUntil: null,
+      warningCount: 0,
+      stripeCustomerId: null,
+      subscriptionStatus: 'active',
+      currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+      planId: 'demo-plan',
+      createdAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000), // 60 days ago
+    },
+    { 
+      id: 'user-4', 
+      username: 'emma_driver', 
+      password: hashedPassword, 
+      name: 'Emma Brown', 
+      callSign: 'EB3456',
+      email: null,
+      phone: null,
+      avatar: null, 
+      role: 'moderator', // Make one demo user a moderator for testing
+      driverType: 'loader', // Make this user a loader for testing
+      paymentPreference: 'per_job',
+      tradePlateDoc: null,
+      insuranceDoc: null,
+      rating: 4.6, 
+      totalTrips: 134, 
+      verified: true,
+      leaderboardOptOut: false,
+      accountStatus: 'active',
+      suspendedUntil: null,
+      warningCount: 0,
+      stripeCustomerId: null,
+      subscriptionStatus: 'active',
+      currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+      planId: 'demo-plan',
+      createdAt: new Date(Date.now() - 45 * 24 * 60 * 60 * 1000), // 45 days ago
+    },
+  ];
+}
+
+export function buildDemoLiftRequests(): LiftRequest[] {
+  const now = new Date();
+  const today4pm = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 16, 0);
+  const today630pm = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 18, 30);
+  const twoHours = 2 * 60 * 60 * 1000;
+
+  return [
+    {
+      id: '1',
+      requesterId: 'user-2',
+      fromLat: 53.7960,
+      fromLng: -1.5491,
+      toLat: 53.3808,
+      toLng: -1.4703,
+      fromLocation: 'Leeds Station',
+      toLocation: 'Sheffield Dealership',
+      requestedTime: today4pm,
+      fromW3W: null,
+      toW3W: null,
+      earliestDepart: new Date(today4pm.getTime() - twoHours),
+      latestArrive: new Date(today4pm.getTime() + twoHours),
+      hasBagsKit: false,
+      maxBudget: null,
+      autoGenerated: false,
+      sourceJobId: null,
+      status: 'active',
+      notes: null,
+      createdAt: new Date(Date.now() - 5 * 60 * 1000),
+    },
+    {
+      id: '2',
+      requesterId: 'user-3',
+      fromLat: 52.9548,
+      fromLng: -1.1581,
+      toLat: 52.9225,
+      toLng: -1.4746,
+      fromLocation: 'Nottingham Centre',
+      toLocation: 'Derby Train Station',
+      requestedTime: today630pm,
+      fromW3W: null,
+      toW3W: null,
+      earliestDepart: new Date(today630pm.getTime() - twoHours),
+      latestArrive: new Date(today630pm.getTime() + twoHours),
+      hasBagsKit: false,
+      maxBudget: null,
+      autoGenerated: false,
+      sourceJobId: null,
+      status: 'active',
+      notes: null,
+      createdAt: new Date(Date.now() - 12 * 60 * 1000),
+    },
+  ];
+}
+
+// Seed initial user stats for demo users
+export function buildDemoUserStats(demoUsers: User[]): UserStats[] {
+  return demoUsers.map(user => {
+    const rating = user.rating ?? 0;
+    const totalTrips = user.totalTrips ?? 0;
+    const stats: UserStats = {
+      userId: user.id,
+      reputationScore: Math.round((rating / 5) * 60 + 20), // Simplified initial score
+      tier: rating >= 4.8 ? 'gold' : rating >= 4.5 ? 'silver' : 'bronze',
+      totalLiftsShared: totalTrips,
+      totalLiftsOffered: Math.floor(totalTrips * 0.6),
+      totalLiftsRequested: Math.floor(totalTrips * 0.4),
+      averageRating: rating,
+      punctualityScore: 85 + Math.random() * 10,
+      completionRatio: 90 + Math.random() * 8,
+      totalPoints: totalTrips * 100,
+      currentStreak: Math.floor(Math.random() * 7),
+      longestStreak: Math.floor(Math.random() * 30),
+      lastActivityDate: new Date(),
+      homeRegion: null,
+      updatedAt: new Date(),
+    };
+    return stats;
+  });
+}
+
+// The demo users' starting points, as ledger entries so their totals add up
+export function buildDemoPointsLedger(demoStats: UserStats[]): PointsLedgerEntry[] {
+  return demoStats
+    .filter(stats => (stats.totalPoints ?? 0) !== 0)
+    .map(stats => ({
+      id: `demo-points-${stats.userId}`,
+      userId: stats.userId,
+      points: stats.totalPoints ?? 0,
+      reason: 'opening-balance',
+      sourceId: stats.userId,
+      createdAt: new Date(),
+    }));
+}
@@ -0,0 +1,258 @@
+// Document Verification
+// Drivers upload their trade plate and insurance documents (type, number, expiry date and the
+// file, which goes to the blob store). Moderators approve or reject each upload with a reason, and
+// a user is verified while they hold an approved, unexpired document of each type; approving a
+// newer document supersedes the old one. A periodic sweep expires documents past their date,
+// which unverifies the user, and reminds them REMINDER_DAYS before that happens.
+
+import { randomUUID } from "crypto";
+import type { User, UserDocument } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { BlobStore } from "./blob-store";
+import { syncScheduleLifts } from "./schedule-lifts";
+import { cancelFutureOccurrences } from "./recurring-offers";
+
+export const DOCUMENT_TYPES = ["trade_plate", "insurance"] as const;
+export type DocumentType = (typeof DOCUMENT_TYPES)[number];
+export const DOCUMENT_CONTENT_TYPES = ["application/pdf", "image/jpeg", "image/png"];
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// Reminders go out this many days before expiry, once each
+export const REMINDER_DAYS = [30, 7, 1];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const EXPIRY_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+const DOCUMENT_LABELS: Record<DocumentType, string> = {
+  trade_plate: "trade plate",
+  insurance: "insurance",
+};
+
+// Carries the HTTP status the routes answer with
+export class DocumentError extends Error {
+  constructor(message: string, readonly status: 400 | 403 | 404 | 409) {
+    super(message);
+    this.name = "DocumentError";
+  }
+}
+
+export interface DocumentUpload {
+  type: DocumentType;
+  documentNumber: string;
+  expiresAt: Date;
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface DocumentNotification {
+  type: "document-reviewed" | "document-expiring" | "document-expired";
+  userId: string;
+  documentId: string;
+  documentType: string;
+  message: string;
+  timestamp: string;
+}
+
+export type DocumentNotifier = (notification: DocumentNotification) => void;
+
+// Where the file is served from; stored on the user for the document that currently counts
+export function documentFileUrl(document: UserDocument): string {
+  return `/api/documents/${document.id}/file`;
+}
+
+function label(document: UserDocument): string {
+  return DOCUMENT_LABELS[document.type as DocumentType] ?? document.type;
+}
+
+function notification(
+  type: DocumentNotification["type"],
+  document: UserDocument,
+  message: string,
+  now: Date,
+): DocumentNotification {
+  return { type, userId: document.userId, documentId: document.id, documentType: document.type, message, timestamp: now.toISOString() };
+}
+
+// Verified while every document type has an approved one in date; the user's document URLs follow
+export async function refreshVerification(storage: IStorage, userId: string, now: Date = new Date()): Promise<User | undefined> {
+  const wasVerified = (await storage.getUser(userId))?.verified;
+  const current = new Map<string, UserDocument>();
+  for (const document of await storage.getUserDocumentsByUserId(userId)) {
+    if (document.status !== "approved" || document.expiresAt <= now || current.has(document.type)) continue;
+    current.set(document.type, document);
+  }
+  const tradePlate = current.get("trade_plate");
+  const insurance = current.get("insurance");
+  const user = await storage.updateUserVerification(userId, {
+    verified: DOCUMENT_TYPES.every((type) => current.has(type)),
+    tradePlateDoc: tradePlate ? documentFileUrl(tradePlate) : null,
+    insuranceDoc: insurance ? documentFileUrl(insurance) : null,
+  });
+  if (wasVerified && user && !user.verified) await withdrawLiftOffers(storage, userId, now);
+  return user;
+}
+
+// Only verified drivers offer lifts: withdraw the open offers from their schedules and the upcoming
+// occurrences of their recurring offers. Lifts with passengers booked stay for the driver to settle
+// with them. Schedule offers come back at the next sync once they're verified again, and the
+// templates generate new occurrences.
+async function withdrawLiftOffers(storage: IStorage, userId: string, now: Date) {
+  for (const schedule of await storage.getSchedulesByUserId(userId)) {
+    await syncScheduleLifts(storage, schedule.id, {}, now);
+  }
+  for (const offer of await storage.getLiftOffersByDriverId(userId)) {
+    if (offer.status === "recurring") await cancelFutureOccurrences(storage, offer.id, now);
+  }
+}
+
+export async function uploadDocument(
+  storage: IStorage,
+  blobs: BlobStore,
+  userId: string,
+  upload: DocumentUpload,
+  now: Date = new Date(),
+): Promise<UserDocument> {
+  if (!DOCUMENT_CONTENT_TYPES.includes(upload.contentType)) {
+    throw new DocumentError(`Documents must be one of ${DOCUMENT_CONTENT_TYPES.join(", ")}`, 400);
+  }
+  if (upload.data.length === 0) throw new DocumentError("The document file is empty", 400);
+  if (upload.data.length > MAX_DOCUMENT_BYTES) {
+    throw new DocumentError(`Documents can be at most ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB`, 400);
+  }
+  if (upload.expiresAt <= now) throw new DocumentError("This document has already expired", 400);
+
+  const blobKey = `documents/${userId}/${randomUUID()}`;
+  await blobs.put(blobKey, upload.data);
+  try {
+    return await storage.createUserDocument({
+      userId,
+      type: upload.type,
+      documentNumber: upload.documentNumber,
+      expiresAt: upload.expiresAt,
+      blobKey,
+      fileName: upload.fileName,
+      contentType: upload.contentType,
+      sizeBytes: upload.data.length,
+    });
+  } catch (error) {
+    // Don't leave an orphaned file behind
+    await blobs.delete(blobKey).catch(() => false);
+    throw error;
+  }
+}
+
+// The owner and moderators can see a document and its file
+export async function getDocumentFile(
+  storage: IStorage,
+  blobs: BlobStore,
+  viewer: User,
+  documentId: string,
+): Promise<{ document: UserDocument; data: Buffer }> {
+  const document = await storage.getUserDocument(documentId);
+  if (!document) throw new DocumentError("Document not found", 404);
+  if (document.userId !== viewer.id && viewer.role !== "moderator" && viewer.role !== "admin") {
+    throw new DocumentError("You can't view this document", 403);
+  }
+  const data = await blobs.get(document.blobKey);
+  if (!data) throw new DocumentError("Document file not found", 404);
+  return { document, data };
+}
+
+export async function reviewDocument(
+  storage: IStorage,
+  moderatorId: string,
+  documentId: string,
+  decision: { approve: boolean; reason?: string },
+  notify: DocumentNotifier = () => {},
+  now: Date = new Date(),
+): Promise<UserDocument> {
+  const document = await storage.getUserDocument(documentId);
+  if (!document) throw new DocumentError("Document not found", 404);
+  if (!decision.approve && !decision.reason?.trim()) {
+    throw new DocumentError("A reason is required to reject a document", 400);
+  }
+  if (decision.approve && document.expiresAt <= now) {
+    throw new DocumentError("This document has expired; it can only be rejected", 409);
+  }
+
+  const reviewed = await storage.transitionUserDocument(documentId, "pending", decision.approve ? "approved" : "rejected", {
+    reviewedBy: moderatorId,
+    rejectionReason: decision.approve ? null : decision.reason!.trim(),
+  });
+  if (!reviewed) throw new DocumentError("This document has already been reviewed", 409);
+
+  if (decision.approve) {
+    // The newly approved document replaces any earlier approved one of the same type
+    for (const other of await storage.getUserDocumentsByUserId(document.userId)) {
+      if (other.id !== reviewed.id && other.type === reviewed.type && other.status === "approved") {
+        await storage.transitionUserDocument(other.id, "approved", "superseded");
+      }
+    }
+  }
+  await refreshVerification(storage, document.userId, now);
+
+  notify(notification("document-reviewed", reviewed, decision.approve
+    ? `Your ${label(reviewed)} document was approved.`
+    : `Your ${label(reviewed)} document was rejected: ${reviewed.rejectionReason}`, now));
+  return reviewed;
+}
+
+export interface ExpirySweepResult {
+  expired: UserDocument[];
+  reminded: UserDocument[];
+}
+
+// Expires approved documents past their date (unverifying their owners) and sends each due reminder once
+export async function sweepDocumentExpiry(
+  storage: IStorage,
+  notify: DocumentNotifier = () => {},
+  now: Date = new Date(),
+): Promise<ExpirySweepResult> {
+  const result: ExpirySweepResult = { expired: [], reminded: [] };
+  const unverified = new Set<string>();
+
+  for (const document of await storage.getUserDocumentsByStatus("approved")) {
+    const msLeft = document.expiresAt.getTime() - now.getTime();
+    if (msLeft <= 0) {
+      const expired = await storage.transitionUserDocument(document.id, "approved", "expired");
+      if (!expired) continue;
+      result.expired.push(expired);
+      unverified.add(expired.userId);
+      notify(notification("document-expired", expired,
+        `Your ${label(expired)} document has expired. Upload a new one to stay verified.`, now));
+      continue;
+    }
+
+    // The closest reminder due; one that was skipped (the sweep wasn't running) isn't sent late
+    const due = REMINDER_DAYS.filter((days) => msLeft <= days * MS_PER_DAY);
+    if (due.length === 0) continue;
+    const days = Math.min(...due);
+    const reminded = await storage.markUserDocumentReminded(document.id, days);
+    if (!reminded) continue;
+    result.reminded.push(reminded);
+    notify(notification("document-expiring", reminded,
+      `Your ${label(reminded)} document expires on ${reminded.expiresAt.toISOString().slice(0, 10)}. Upload a new one before then to stay verified.`, now));
+  }
+
+  for (const userId of Array.from(unverified)) {
+    await refreshVerification(storage, userId, now);
+  }
+  return result;
+}
+
+// Runs the expiry sweep hourly while the server runs; returns a stop function
+export function startDocumentExpiryJob(
+  storage: IStorage,
+  notify: DocumentNotifier,
+  intervalMs: number = EXPIRY_SWEEP_INTERVAL_MS,
+): () => void {
+  const run = () => {
+    sweepDocumentExpiry(storage, notify).catch((error) => {
+      console.error("Document expiry job error:", error);
+    });
+  };
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,459 @@
+// Driver Density Model
+// Estimates how many drivers will be along a route corridor in a time window from observed data:
+// GPS check-ins/check-outs on jobs (a 28-day histogram by hour-of-week and corridor segment),
+// plus who is there now (live positions, active availability check-ins, jobs in progress).
+// Hotspots are clusters of those observations rather than fixed points on the route.
+// Hours of the week are in UTC, Monday 00:00 = 0.
+
+import type { CheckIn, Job } from "@shared/schema";
+import { regionTopic } from "@shared/realtime";
+import type { IStorage } from "./storage";
+import type { LivePositionStore } from "./live-positions";
+import { haversineMiles, bearingDeg, angleDiffDeg, type Coordinates } from "./ai-routing-utils";
+
+export const LOOKBACK_DAYS = 28;
+// Route polylines are split into segments no longer than this
+const SEGMENT_MILES = 5;
+// Expected drivers at which the density score reaches 1 - 1/e (~0.63)
+const DENSITY_SATURATION = 4;
+// Job check-ins this recent, still in progress, count as drivers on the road now
+const ACTIVE_JOB_HOURS = 4;
+// Drivers seen now count fully for windows starting within the hour, fading out by 4 hours ahead
+const ACTIVE_FADE_HOURS = { full: 1, none: 4 };
+const HOTSPOT_RADIUS_MILES = 1.5;
+const MAX_HOTSPOTS = 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MILES_PER_DEGREE_LAT = 69.0;
+
+export interface DensityObservation {
+  driverKey: string; // User id, or the schedule id for job history (one driver's day)
+  lat: number;
+  lng: number;
+  at: Date;
+  bearingDeg: number | null;
+  source: "job-check-in" | "job-check-out" | "check-in" | "live";
+}
+
+export interface CorridorSegment {
+  index: number;
+  start: Coordinates;
+  end: Coordinates;
+  bearingDeg: number;
+}
+
+export interface CorridorOptions {
+  radiusMiles: number;
+  // Observations with a known heading must be within this many degrees of the segment's bearing
+  bearingToleranceDeg?: number;
+}
+
+export interface DensityHotspot {
+  center: Coordinates;
+  radius_miles: number;
+  count: number;
+  score: number;
+  why: string;
+}
+
+export interface DensityPrediction {
+  density_score: number;
+  label: "Low" | "Medium" | "High";
+  active_driver_count: number;
+  expected_from_history: number;
+  predicted_available_in_window: number;
+  hotspots: DensityHotspot[];
+  segments: { index: number; start: Coordinates; end: Coordinates; expected: number; active: number }[];
+  method: {
+    radius_miles: number;
+    bearing_match_deg: number | undefined;
+    lookback_days: number;
+    hour_of_week: number;
+    observations: number;
+  };
+}
+
+export interface DensityData {
+  history: DensityObservation[];
+  active: DensityObservation[];
+}
+
+export function hourOfWeek(date: Date): number {
+  return ((date.getUTCDay() + 6) % 7) * 24 + date.getUTCHours();
+}
+
+function describeHourOfWeek(how: number): string {
+  const day = ["Mondays", "Tuesdays", "Wednesdays", "Thursdays", "Fridays", "Saturdays", "Sundays"][Math.floor(how / 24)];
+  const hour = how % 24;
+  return `${day} ${String(hour).padStart(2, "0")}:00–${String((hour + 1) % 24).padStart(2, "0")}:00`;
+}
+
+export function densityLabel(score: number): DensityPrediction["label"] {
+  return score < 0.34 ? "Low" : score < 0.67 ? "Medium" : "High";
+}
+
+export function densityScore(expectedDrivers: number): number {
+  return 1 - Math.exp(-Math.max(0, expectedDrivers) / DENSITY_SATURATION);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// ---------- Observations ----------
+
+export function observationsFromJobs(jobs: Job[]): DensityObservation[] {
+  const observations: DensityObservation[] = [];
+  for (const job of jobs) {
+    const heading = bearingDeg({ lat: job.fromLat, lng: job.fromLng }, { lat: job.toLat, lng: job.toLng });
+    if (job.actualStartTime && job.checkInLat != null && job.checkInLng != null) {
+      observations.push({
+        driverKey: job.scheduleId, lat: job.checkInLat, lng: job.checkInLng,
+        at: new Date(job.actualStartTime), bearingDeg: heading, source: "job-check-in",
+      });
+    }
+    if (job.actualEndTime && job.checkOutLat != null && job.checkOutLng != null) {
+      observations.push({
+        driverKey: job.scheduleId, lat: job.checkOutLat, lng: job.checkOutLng,
+        at: new Date(job.actualEndTime), bearingDeg: heading, source: "job-check-out",
+      });
+    }
+  }
+  return observations;
+}
+
+function observationsFromCheckIns(checkIns: CheckIn[], now: Date): DensityObservation[] {
+  return checkIns
+    .filter((c) => c.lat != null && c.lng != null && new Date(c.fromTime) <= now)
+    .map((c) => ({ driverKey: c.userId, lat: c.lat!, lng: c.lng!, at: now, bearingDeg: null, source: "check-in" as const }));
+}
+
+// Job history for the lookback window plus everyone on the road now
+export async function loadDensityData(
+  storage: IStorage,
+  positions: LivePositionStore,
+  now: Date = new Date(),
+  lookbackDays: number = LOOKBACK_DAYS
+): Promise<DensityData> {
+  const jobs = await storage.getRecentCheckIns(lookbackDays * 24 + (Date.now() - now.getTime()) / HOUR_MS);
+  const history = observationsFromJobs(jobs).filter((o) => o.at.getTime() < now.getTime());
+
+  const live: DensityObservation[] = positions.active(now).map((p) => ({
+    driverKey: p.userId, lat: p.lat, lng: p.lng, at: new Date(p.updatedAt),
+    bearingDeg: p.bearingDeg, source: "live",
+  }));
+
+  // Jobs in progress, keyed by driver so they merge with the same driver's live position
+  const activeCutoff = now.getTime() - ACTIVE_JOB_HOURS * HOUR_MS;
+  const inProgress: DensityObservation[] = [];
+  for (const job of jobs) {
+    if (job.status !== "in-progress" || !job.actualStartTime || job.checkInLat == null || job.checkInLng == null) continue;
+    if (new Date(job.actualStartTime).getTime() < activeCutoff) continue;
+    const schedule = await storage.getSchedule(job.scheduleId);
+    if (!schedule) continue;
+    inProgress.push({
+      driverKey: schedule.userId, lat: job.checkInLat, lng: job.checkInLng, at: new Date(job.actualStartTime),
+      bearingDeg: bearingDeg({ lat: job.fromLat, lng: job.fromLng }, { lat: job.toLat, lng: job.toLng }),
+      source: "job-check-in",
+    });
+  }
+
+  const checkIns = observationsFromCheckIns(await storage.getActiveCheckIns(), now);
+
+  // Prefer the freshest source per driver: live, then job, then availability check-in
+  const active = new Map<string, DensityObservation>();
+  for (const observation of [...checkIns, ...inProgress, ...live]) active.set(observation.driverKey, observation);
+
+  return { history, active: Array.from(active.values()) };
+}
+
+// ---------- Corridor ----------
+
+function interpolate(a: Coordinates, b: Coordinates, t: number): Coordinates {
+  return { lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t };
+}
+
+export function buildCorridor(points: Coordinates[], maxSegmentMiles: number = SEGMENT_MILES): CorridorSegment[] {
+  if (points.length === 0) return [];
+  if (points.length === 1) return [{ index: 0, start: points[0], end: points[0], bearingDeg: 0 }];
+
+  const segments: CorridorSegment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    const pieces = Math.max(1, Math.ceil(haversineMiles(a, b) / maxSegmentMiles));
+    for (let p = 0; p < pieces; p++) {
+      const start = interpolate(a, b, p / pieces);
+      const end = interpolate(a, b, (p + 1) / pieces);
+      segments.push({ index: segments.length, start, end, bearingDeg: bearingDeg(a, b) });
+    }
+  }
+  return segments;
+}
+
+// Distance from a point to a segment, on a local flat projection (fine at corridor scale)
+function distanceToSegmentMiles(point: Coordinates, segment: CorridorSegment): number {
+  const milesPerDegreeLng = MILES_PER_DEGREE_LAT * Math.cos((point.lat * Math.PI) / 180);
+  const ax = (segment.start.lng - point.lng) * milesPerDegreeLng;
+  const ay = (segment.start.lat - point.lat) * MILES_PER_DEGREE_LAT;
+  const bx = (segment.end.lng - point.lng) * milesPerDegreeLng;
+  const by = (segment.end.lat - point.lat) * MILES_PER_DEGREE_LAT;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+// Nearest corridor segment within the radius (and heading tolerance), or null when off-corridor
+export function locateOnCorridor(
+  observation: Pick<DensityObservation, "lat" | "lng" | "bearingDeg">,
+  segments: CorridorSegment[],
+  options: CorridorOptions
+): number | null {
+  let best: number | null = null;
+  let bestDistance = Infinity;
+  for (const segment of segments) {
+    const distance = distanceToSegmentMiles(observation, segment);
+    if (distance > options.radiusMiles || distance >= bestDistance) continue;
+    if (observation.bearingDeg != null && options.bearingToleranceDeg != null && segment.start !== segment.end
+      && angleDiffDeg(observation.bearingDeg, segment.bearingDeg) > options.bearingToleranceDeg) continue;
+    best = segment.index;
+    bestDistance = distance;
+  }
+  return best;
+}
+
+// ---------- Histogram ----------
+
+// Distinct drivers per (key, hour-of-week), summed over the days in [from, to)
+function hourlyCounts(
+  observations: DensityObservation[],
+  keyOf: (observation: DensityObservation) => string | null,
+  from: Date,
+  to: Date
+): Map<string, number> {
+  const seen = new Set<string>();
+  const counts = new Map<string, number>();
+  for (const observation of observations) {
+    const at = observation.at.getTime();
+    if (at < from.getTime() || at >= to.getTime()) continue;
+    const key = keyOf(observation);
+    if (key === null) continue;
+
+    const cell = `${key}@${hourOfWeek(observation.at)}`;
+    const driverDay = `${Math.floor(at / DAY_MS)}|${cell}|${observation.driverKey}`;
+    if (seen.has(driverDay)) continue;
+    seen.add(driverDay);
+    counts.set(cell, (counts.get(cell) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export interface DensityHistogram {
+  weeks: number;
+  corridor: Map<string, number>;
+  bySegment: Map<string, number>;
+}
+
+export function buildHistogram(
+  history: DensityObservation[],
+  segments: CorridorSegment[],
+  options: CorridorOptions,
+  end: Date,
+  lookbackDays: number = LOOKBACK_DAYS
+): DensityHistogram {
+  const from = new Date(end.getTime() - lookbackDays * DAY_MS);
+  const segmentOf = new Map(history.map((o) => [o, locateOnCorridor(o, segments, options)]));
+  return {
+    weeks: lookbackDays / 7,
+    corridor: hourlyCounts(history, (o) => (segmentOf.get(o) != null ? "corridor" : null), from, end),
+    bySegment: hourlyCounts(history, (o) => (segmentOf.get(o) != null ? `segment-${segmentOf.get(o)}` : null), from, end),
+  };
+}
+
+// Mean distinct drivers seen in one hour-of-week across the lookback
+function expectedAt(counts: Map<string, number>, key: string, how: number, weeks: number): number {
+  return (counts.get(`${key}@${how}`) ?? 0) / weeks;
+}
+
+// ---------- Hotspots ----------
+
+function clusterObservations(observations: DensityObservation[], radiusMiles: number) {
+  const clusters: { center: Coordinates; members: DensityObservation[] }[] = [];
+  for (const observation of observations) {
+    const cluster = clusters.find((c) => haversineMiles(c.center, observation) <= radiusMiles);
+    if (!cluster) {
+      clusters.push({ center: { lat: observation.lat, lng: observation.lng }, members: [observation] });
+      continue;
+    }
+    cluster.members.push(observation);
+    const n = cluster.members.length;
+    cluster.center = {
+      lat: cluster.center.lat + (observation.lat - cluster.center.lat) / n,
+      lng: cluster.center.lng + (observation.lng - cluster.center.lng) / n,
+    };
+  }
+  return clusters;
+}
+
+function buildHotspots(historical: DensityObservation[], active: DensityObservation[], how: number): DensityHotspot[] {
+  const clusters = clusterObservations([...active, ...historical], HOTSPOT_RADIUS_MILES)
+    .map((c) => ({ ...c, count: new Set(c.members.map((m) => `${m.driverKey}|${Math.floor(m.at.getTime() / DAY_MS)}`)).size }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_HOTSPOTS);
+  const top = clusters[0]?.count ?? 0;
+
+  return clusters.map((c) => {
+    const now = c.members.filter((m) => active.includes(m)).length;
+    const past = c.members.length - now;
+    const parts = [];
+    if (past > 0) parts.push(`${past} check-in${past === 1 ? "" : "s"} on ${describeHourOfWeek(how)} over the last ${LOOKBACK_DAYS / 7} weeks`);
+    if (now > 0) parts.push(`${now} driver${now === 1 ? "" : "s"} here now`);
+    return {
+      center: { lat: round3(c.center.lat), lng: round3(c.center.lng) },
+      radius_miles: round2(Math.max(0.5, ...c.members.map((m) => haversineMiles(c.center, m)))),
+      count: c.count,
+      score: round2(top > 0 ? c.count / top : 0),
+      why: parts.join(", "),
+    };
+  });
+}
+
+// ---------- Prediction ----------
+
+export function predictDensity(
+  data: DensityData,
+  route: Coordinates[],
+  options: CorridorOptions,
+  windowStart: Date,
+  now: Date = new Date()
+): DensityPrediction {
+  const segments = buildCorridor(route);
+  const histogram = buildHistogram(data.history, segments, options, now);
+  const how = hourOfWeek(windowStart);
+
+  const activeOnCorridor = data.active
+    .map((o) => ({ observation: o, segment: locateOnCorridor(o, segments, options) }))
+    .filter((a) => a.segment !== null);
+  const activeCount = new Set(activeOnCorridor.map((a) => a.observation.driverKey)).size;
+
+  const expected = expectedAt(histogram.corridor, "corridor", how, histogram.weeks);
+  const hoursAhead = Math.max(0, (windowStart.getTime() - now.getTime()) / HOUR_MS);
+  const activeWeight = Math.max(0, Math.min(1,
+    (ACTIVE_FADE_HOURS.none - hoursAhead) / (ACTIVE_FADE_HOURS.none - ACTIVE_FADE_HOURS.full)));
+  const predicted = Math.max(expected, activeCount * activeWeight);
+  const score = densityScore(predicted);
+
+  // Historical observations in the same hour of the week, for hotspots
+  const lookbackStart = now.getTime() - LOOKBACK_DAYS * DAY_MS;
+  const sameHour = data.history.filter((o) =>
+    o.at.getTime() >= lookbackStart && hourOfWeek(o.at) === how && locateOnCorridor(o, segments, options) !== null);
+
+  return {
+    density_score: round2(score),
+    label: densityLabel(score),
+    active_driver_count: activeCount,
+    expected_from_history: round2(expected),
+    predicted_available_in_window: Math.round(predicted),
+    hotspots: buildHotspots(sameHour, activeOnCorridor.map((a) => a.observation), how),
+    segments: segments.map((segment) => ({
+      index: segment.index,
+      start: segment.start,
+      end: segment.end,
+      expected: round2(expectedAt(histogram.bySegment, `segment-${segment.index}`, how, histogram.weeks)),
+      active: new Set(activeOnCorridor.filter((a) => a.segment === segment.index).map((a) => a.observation.driverKey)).size,
+    })),
+    method: {
+      radius_miles: options.radiusMiles,
+      bearing_match_deg: options.bearingToleranceDeg,
+      lookback_days: LOOKBACK_DAYS,
+      hour_of_week: how,
+      observations: sameHour.length,
+    },
+  };
+}
+
+// ---------- Backtest ----------
+
+export interface BacktestResult {
+  heldOutDays: number;
+  trainingDays: number;
+  cells: number; // Region cells with any activity
+  hoursEvaluated: number;
+  mae: number; // Mean absolute error in drivers per cell-hour
+  rmse: number;
+  bias: number; // Mean (predicted - actual); positive means over-prediction
+  baselineMae: number; // Same cells predicted by their flat hourly average, ignoring hour-of-week
+  labelAccuracy: number; // Share of cell-hours where the predicted Low/Medium/High label was right
+}
+
+// Replays the last `heldOutDays` days before `end`: each day is predicted per region cell and hour
+// from the `trainingDays` before it, then compared with the distinct drivers actually seen
+export function backtestDensity(
+  history: DensityObservation[],
+  { end, heldOutDays = 7, trainingDays = LOOKBACK_DAYS }: { end: Date; heldOutDays?: number; trainingDays?: number }
+): BacktestResult {
+  const cellOf = (o: DensityObservation) => regionTopic(o.lat, o.lng);
+  const lastDay = Math.floor(end.getTime() / DAY_MS);
+  const weeks = trainingDays / 7;
+  const cells = new Set<string>();
+
+  let hours = 0;
+  let absError = 0;
+  let sqError = 0;
+  let signedError = 0;
+  let baselineAbsError = 0;
+  let labelHits = 0;
+
+  for (let day = lastDay - heldOutDays; day < lastDay; day++) {
+    const dayStart = new Date(day * DAY_MS);
+    const dayEnd = new Date((day + 1) * DAY_MS);
+    const training = hourlyCounts(history, cellOf, new Date(dayStart.getTime() - trainingDays * DAY_MS), dayStart);
+    const actual = hourlyCounts(history, cellOf, dayStart, dayEnd);
+
+    const dayCells = new Set<string>();
+    for (const key of Array.from(training.keys()).concat(Array.from(actual.keys()))) dayCells.add(key.split("@")[0]);
+    dayCells.forEach((cell) => cells.add(cell));
+
+    for (const cell of Array.from(dayCells)) {
+      let cellTotal = 0;
+      training.forEach((count, key) => {
+        if (key.startsWith(`${cell}@`)) cellTotal += count;
+      });
+      const flat = cellTotal / (trainingDays * 24);
+
+      for (let hour = 0; hour < 24; hour++) {
+        const how = hourOfWeek(new Date(dayStart.getTime() + hour * HOUR_MS));
+        const predicted = expectedAt(training, cell, how, weeks);
+        const observed = actual.get(`${cell}@${how}`) ?? 0;
+        const error = predicted - observed;
+
+        hours++;
+        absError += Math.abs(error);
+        sqError += error * error;
+        signedError += error;
+        baselineAbsError += Math.abs(flat - observed);
+        if (densityLabel(densityScore(predicted)) === densityLabel(densityScore(observed))) labelHits++;
+      }
+    }
+  }
+
+  const mean = (total: number) => (hours > 0 ? round2(total / hours) : 0);
+  return {
+    heldOutDays,
+    trainingDays,
+    cells: cells.size,
+    hoursEvaluated: hours,
+    mae: mean(absError),
+    rmse: hours > 0 ? round2(Math.sqrt(sqError / hours)) : 0,
+    bias: mean(signedError),
+    baselineMae: mean(baselineAbsError),
+    labelAccuracy: hours > 0 ? round2(labelHits / hours) : 0,
+  };
+}
@@ -0,0 +1,487 @@
+// Gazetteer
+// Offline UK geocoding from bundled ONS-style data files: full postcodes, outward-code centroids and
+// place names. Forward lookup handles full postcodes, outward codes and town names (with typos);
+// reverse lookup finds the nearest postcode and place. postcodes.io is an optional fallback for
+// postcodes the bundled files don't cover, so job entry keeps working in depots with no signal.
+//
+// Files in GAZETTEER_DIR (default ./data/gazetteer), CSV with a header row:
+//   postcodes.csv  pcds,lat,long,district,region        (ONSPD column names; extra columns ignored)
+//   outcodes.csv   outcode,lat,long,district,region     (optional, derived from postcodes.csv otherwise)
+//   places.csv     name,type,lat,long,county,region     (type: city, town or village)
+// scripts/build-gazetteer.ts turns a full ONSPD download into postcodes.csv and outcodes.csv.
+
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { haversineMiles, type Coordinates } from "./ai-routing-utils";
+
+export const GAZETTEER_DIR = path.resolve(process.cwd(), "data", "gazetteer");
+
+// Reverse lookups only report a postcode this close; beyond it the point isn't in the bundled data
+const MAX_POSTCODE_MILES = 1;
+const MAX_PLACE_MILES = 25;
+const GRID_DEGREES = 0.1;
+const FALLBACK_TIMEOUT_MS = 5000;
+
+const POSTCODE_PATTERN = /^[A-Z]{1,2}[0-9][0-9A-Z]?[0-9][A-Z]{2}$/;
+const OUTCODE_PATTERN = /^[A-Z]{1,2}[0-9][0-9A-Z]?$/;
+const PLACE_TYPE_RANK: Record<string, number> = { city: 0, town: 1, village: 2 };
+
+export type GeocodeKind = "postcode" | "outcode" | "place";
+
+export interface GeocodeResult {
+  kind: GeocodeKind;
+  name: string;
+  latitude: number;
+  longitude: number;
+  address: string;
+  postcode?: string;
+  district?: string;
+  region?: string;
+  // Outward-code and place centroids are only roughly where the job is
+  approximate: boolean;
+  source: "gazetteer" | "postcodes.io";
+}
+
+export interface ReverseGeocodeResult extends GeocodeResult {
+  distanceMiles: number;
+  place?: string;
+}
+
+interface PostcodeRecord extends Coordinates {
+  postcode: string;
+  district?: string;
+  region?: string;
+}
+
+interface OutcodeRecord extends Coordinates {
+  outcode: string;
+  district?: string;
+  region?: string;
+}
+
+interface PlaceRecord extends Coordinates {
+  name: string;
+  key: string;
+  type: string;
+  county?: string;
+  region?: string;
+}
+
+export interface GazetteerData {
+  postcodes: PostcodeRecord[];
+  outcodes: OutcodeRecord[];
+  places: Omit<PlaceRecord, "key">[];
+}
+
+// "ls14 6uf" → "LS14 6UF"; undefined when it isn't shaped like a full postcode
+export function normalizePostcode(input: string): string | undefined {
+  const compact = input.replace(/\s+/g, "").toUpperCase();
+  if (!POSTCODE_PATTERN.test(compact)) return undefined;
+  return `${compact.slice(0, -3)} ${compact.slice(-3)}`;
+}
+
+export function normalizeOutcode(input: string): string | undefined {
+  const compact = input.replace(/\s+/g, "").toUpperCase();
+  return OUTCODE_PATTERN.test(compact) ? compact : undefined;
+}
+
+function placeKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/\bst\.?\s/g, "saint ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Optimal string alignment distance: Levenshtein plus adjacent transpositions ("mancehster")
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function allowedEdits(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+}
+
+// 1 for an exact match down to ~0.5 for a typo'd prefix; 0 when it doesn't match
+function placeScore(query: string, key: string): number {
+  if (key === query) return 1;
+  if (key.startsWith(query)) return 0.9;
+  if (key.split(" ").some(word => word.startsWith(query))) return 0.8;
+  const limit = allowedEdits(query.length);
+  if (limit === 0) return 0;
+  const whole = editDistance(query, key);
+  if (whole <= limit) return 0.75 - whole * 0.05;
+  const prefix = editDistance(query, key.slice(0, query.length));
+  if (prefix <= limit) return 0.6 - prefix * 0.05;
+  return 0;
+}
+
+function joinAddress(...parts: (string | undefined)[]): string {
+  return parts.filter((part, i) => part && parts.indexOf(part) === i).join(", ");
+}
+
+// Minimal RFC 4180 reader: quoted fields may hold commas and doubled quotes
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some(value => value !== "")) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(value => value !== "")) rows.push(row);
+
+  const [header = [], ...body] = rows;
+  const columns = header.map(name => name.trim().toLowerCase());
+  return body.map(values => Object.fromEntries(columns.map((name, i) => [name, (values[i] ?? "").trim()])));
+}
+
+function coordinates(row: Record<string, string>): Coordinates | undefined {
+  const lat = parseFloat(row.lat ?? row.latitude);
+  const lng = parseFloat(row.long ?? row.lng ?? row.longitude);
+  // ONSPD marks postcodes without a grid reference with lat 99.999999
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return undefined;
+  return { lat, lng };
+}
+
+// Buckets points into 0.1° cells so reverse lookups only scan the cells around them
+class GridIndex<T extends Coordinates> {
+  private cells = new Map<string, T[]>();
+
+  constructor(items: T[]) {
+    for (const item of items) {
+      const key = this.key(Math.floor(item.lat / GRID_DEGREES), Math.floor(item.lng / GRID_DEGREES));
+      const cell = this.cells.get(key);
+      if (cell) cell.push(item);
+      else this.cells.set(key, [item]);
+    }
+  }
+
+  private key(row: number, col: number): string {
+    return `${row}:${col}`;
+  }
+
+  nearest(point: Coordinates, maxMiles: number): { item: T; miles: number } | undefined {
+    const row = Math.floor(point.lat / GRID_DEGREES);
+    const col = Math.floor(point.lng / GRID_DEGREES);
+    // A 0.1° cell is ~4 miles of longitude at UK latitudes and ~7 of latitude
+    const rings = Math.ceil(maxMiles / 4) + 1;
+    let best: { item: T; miles: number } | undefined;
+    for (let r = row - rings; r <= row + rings; r++) {
+      for (let c = col - rings; c <= col + rings; c++) {
+        for (const item of this.cells.get(this.key(r, c)) ?? []) {
+          const miles = haversineMiles(point, item);
+          if (miles <= maxMiles && (!best || miles < best.miles)) best = { item, miles };
+        }
+      }
+    }
+    return best;
+  }
+}
+
+export class Gazetteer {
+  private postcodes = new Map<string, PostcodeRecord>();
+  private outcodes = new Map<string, OutcodeRecord>();
+  private places: PlaceRecord[];
+  private postcodeIndex: GridIndex<PostcodeRecord>;
+  private placeIndex: GridIndex<PlaceRecord>;
+
+  constructor(data: GazetteerData) {
+    for (const record of data.postcodes) this.postcodes.set(record.postcode, record);
+
+    // Outward-code centroids from the postcodes, overridden by any published centroids
+    const sums = new Map<string, { lat: number; lng: number; n: number; record: PostcodeRecord }>();
+    for (const record of data.postcodes) {
+      const outcode = record.postcode.split(" ")[0];
+      const sum = sums.get(outcode) ?? { lat: 0, lng: 0, n: 0, record };
+      sum.lat += record.lat;
+      sum.lng += record.lng;
+      sum.n++;
+      sums.set(outcode, sum);
+    }
+    sums.forEach(({ lat, lng, n, record }, outcode) => {
+      this.outcodes.set(outcode, { outcode, lat: lat / n, lng: lng / n, district: record.district, region: record.region });
+    });
+    for (const record of data.outcodes) this.outcodes.set(record.outcode, record);
+
+    this.places = data.places.map(place => ({ ...place, key: placeKey(place.name) }));
+    this.postcodeIndex = new GridIndex(Array.from(this.postcodes.values()));
+    this.placeIndex = new GridIndex(this.places);
+  }
+
+  static fromDirectory(dir: string = GAZETTEER_DIR): Gazetteer {
+    const read = (file: string) => {
+      const fullPath = path.join(dir, file);
+      return existsSync(fullPath) ? parseCsv(readFileSync(fullPath, "utf-8")) : [];
+    };
+
+    const postcodes: PostcodeRecord[] = [];
+    for (const row of read("postcodes.csv")) {
+      const postcode = normalizePostcode(row.pcds ?? row.pcd ?? row.postcode ?? "");
+      const point = coordinates(row);
+      // ONSPD keeps terminated postcodes with a termination date
+      if (!postcode || !point || row.doterm) continue;
+      postcodes.push({ postcode, ...point, district: row.district || undefined, region: row.region || undefined });
+    }
+
+    const outcodes: OutcodeRecord[] = [];
+    for (const row of read("outcodes.csv")) {
+      const outcode = normalizeOutcode(row.outcode ?? "");
+      const point = coordinates(row);
+      if (outcode && point) outcodes.push({ outcode, ...point, district: row.district || undefined, region: row.region || undefined });
+    }
+
+    const places: GazetteerData["places"] = [];
+    for (const row of read("places.csv")) {
+      const point = coordinates(row);
+      if (!row.name || !point) continue;
+      places.push({ name: row.name, type: row.type || "town", ...point, county: row.county || undefined, region: row.region || undefined });
+    }
+
+    return new Gazetteer({ postcodes, outcodes, places });
+  }
+
+  get size(): { postcodes: number; outcodes: number; places: number } {
+    return { postcodes: this.postcodes.size, outcodes: this.outcodes.size, places: this.places.length };
+  }
+
+  // Exact full postcode only; see lookupOutcode for the approximate fallback
+  lookupPostcode(input: string): GeocodeResult | undefined {
+    const postcode = normalizePostcode(input);
+    const record = postcode ? this.postcodes.get(postcode) : undefined;
+    if (!record) return undefined;
+    return {
+      kind: "postcode",
+      name: record.postcode,
+      latitude: record.lat,
+      longitude: record.lng,
+      address: joinAddress(record.district, record.region, record.postcode),
+      postcode: record.postcode,
+      district: record.district,
+      region: record.region,
+      approximate: false,
+      source: "gazetteer",
+    };
+  }
+
+  // Accepts an outward code or a full postcode, answering with the outward code's centroid
+  lookupOutcode(input: string): GeocodeResult | undefined {
+    const outcode = normalizeOutcode(input) ?? normalizePostcode(input)?.split(" ")[0];
+    const record = outcode ? this.outcodes.get(outcode) : undefined;
+    if (!record) return undefined;
+    return {
+      kind: "outcode",
+      name: record.outcode,
+      latitude: record.lat,
+      longitude: record.lng,
+      address: joinAddress(record.district, record.region, record.outcode),
+      district: record.district,
+      region: record.region,
+      approximate: true,
+      source: "gazetteer",
+    };
+  }
+
+  // Town and city names, best match first; tolerates typos, punctuation and "St"/"Saint"
+  searchPlaces(query: string, limit = 5): GeocodeResult[] {
+    const key = placeKey(query);
+    if (!key) return [];
+    return this.places
+      .map(place => ({ place, score: placeScore(key, place.key) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) =>
+        b.score - a.score ||
+        (PLACE_TYPE_RANK[a.place.type] ?? 3) - (PLACE_TYPE_RANK[b.place.type] ?? 3) ||
+        a.place.name.localeCompare(b.place.name))
+      .slice(0, limit)
+      .map(({ place }) => ({
+        kind: "place" as const,
+        name: place.name,
+        latitude: place.lat,
+        longitude: place.lng,
+        address: joinAddress(place.name, place.county, place.region),
+        district: place.county,
+        region: place.region,
+        approximate: true,
+        source: "gazetteer" as const,
+      }));
+  }
+
+  // Postcodes first when the query is shaped like one, then place names
+  search(query: string, limit = 5): GeocodeResult[] {
+    const code = this.lookupPostcode(query) ?? this.lookupOutcode(query);
+    const places = this.searchPlaces(query, limit);
+    return (code ? [code, ...places] : places).slice(0, limit);
+  }
+
+  reverse(point: Coordinates): ReverseGeocodeResult | undefined {
+    const place = this.placeIndex.nearest(point, MAX_PLACE_MILES);
+    const postcode = this.postcodeIndex.nearest(point, MAX_POSTCODE_MILES);
+
+    if (postcode) {
+      const { item } = postcode;
+      return {
+        kind: "postcode",
+        name: item.postcode,
+        latitude: item.lat,
+        longitude: item.lng,
+        address: joinAddress(place?.item.name, item.district, item.postcode),
+        postcode: item.postcode,
+        district: item.district,
+        region: item.region,
+        approximate: false,
+        source: "gazetteer",
+        distanceMiles: postcode.miles,
+        place: place?.item.name,
+      };
+    }
+    if (!place) return undefined;
+    return {
+      kind: "place",
+      name: place.item.name,
+      latitude: place.item.lat,
+      longitude: place.item.lng,
+      address: joinAddress(`Near ${place.item.name}`, place.item.county, place.item.region),
+      district: place.item.county,
+      region: place.item.region,
+      approximate: true,
+      source: "gazetteer",
+      distanceMiles: place.miles,
+      place: place.item.name,
+    };
+  }
+}
+
+// Online lookups for postcodes the bundled files don't cover
+export interface GeocodingFallback {
+  readonly name: string;
+  lookupPostcode(postcode: string): Promise<GeocodeResult | undefined>;
+  reverse(point: Coordinates): Promise<ReverseGeocodeResult | undefined>;
+}
+
+function fromPostcodesIo(result: any): GeocodeResult {
+  return {
+    kind: "postcode",
+    name: result.postcode,
+    latitude: result.latitude,
+    longitude: result.longitude,
+    // Ward if it differs from the district, then district, county and region
+    address: joinAddress(result.admin_ward, result.admin_district, result.admin_county, result.region, result.postcode),
+    postcode: result.postcode,
+    district: result.admin_district ?? undefined,
+    region: result.region ?? undefined,
+    approximate: false,
+    source: "postcodes.io",
+  };
+}
+
+export class PostcodesIoFallback implements GeocodingFallback {
+  readonly name = "postcodes.io";
+
+  constructor(private baseUrl = "https://api.postcodes.io") {}
+
+  private async get(pathAndQuery: string): Promise<any | undefined> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), FALLBACK_TIMEOUT_MS);
+    try {
+      const response = await fetch(`${this.baseUrl}${pathAndQuery}`, { signal: controller.signal });
+      if (response.status === 404) return undefined;
+      if (!response.ok) throw new Error(`postcodes.io HTTP ${response.status}`);
+      const data = await response.json();
+      return data.status === 200 ? data.result : undefined;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  async lookupPostcode(postcode: string): Promise<GeocodeResult | undefined> {
+    const result = await this.get(`/postcodes/${encodeURIComponent(postcode.replace(/\s/g, ""))}`);
+    return result ? fromPostcodesIo(result) : undefined;
+  }
+
+  async reverse(point: Coordinates): Promise<ReverseGeocodeResult | undefined> {
+    const results = await this.get(`/postcodes?lon=${point.lng}&lat=${point.lat}&limit=1`);
+    const nearest = results?.[0];
+    if (!nearest) return undefined;
+    return { ...fromPostcodesIo(nearest), distanceMiles: (nearest.distance ?? 0) / 1609.34 };
+  }
+}
+
+// Bundled data first; the fallback (when configured and reachable) fills gaps, and an
+// outward-code centroid is the last resort for a postcode nobody could resolve
+export class Geocoder {
+  constructor(readonly gazetteer: Gazetteer, private fallback?: GeocodingFallback) {}
+
+  private async tryFallback<T>(lookup: (fallback: GeocodingFallback) => Promise<T | undefined>): Promise<T | undefined> {
+    if (!this.fallback) return undefined;
+    try {
+      return await lookup(this.fallback);
+    } catch (error) {
+      console.warn(`Geocoding fallback ${this.fallback.name} unavailable:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  async lookupPostcode(input: string): Promise<GeocodeResult | undefined> {
+    const local = this.gazetteer.lookupPostcode(input);
+    if (local) return local;
+    const postcode = normalizePostcode(input);
+    if (postcode) {
+      const remote = await this.tryFallback(fallback => fallback.lookupPostcode(postcode));
+      if (remote) return remote;
+    }
+    return this.gazetteer.lookupOutcode(input);
+  }
+
+  search(query: string, limit?: number): GeocodeResult[] {
+    return this.gazetteer.search(query, limit);
+  }
+
+  async reverse(point: Coordinates): Promise<ReverseGeocodeResult | undefined> {
+    const local = this.gazetteer.reverse(point);
+    if (local?.kind === "postcode") return local;
+    return (await this.tryFallback(fallback => fallback.reverse(point))) ?? local;
+  }
+}
+
+// GEOCODER_FALLBACK=none keeps lookups fully offline; by default postcodes.io fills gaps when reachable
+export function createGeocoder(env: NodeJS.ProcessEnv = process.env): Geocoder {
+  const gazetteer = Gazetteer.fromDirectory(env.GAZETTEER_DIR || GAZETTEER_DIR);
+  const fallback = env.GEOCODER_FALLBACK === "none" ? undefined : new PostcodesIoFallback();
+  return new Geocoder(gazetteer, fallback);
+}
+
+export const geocoder = createGeocoder();
@@ -0,0 +1,96 @@
+import { createHash } from "crypto";
+import type { RequestHandler } from "express";
+import type { IStorage } from "./storage";
+
+// Mutations sent with this header are applied once per key. The service worker's offline queue
+// (client/public/sw.js) gives each queued request a key, so replaying it after a lost response or
+// a second sync never double-applies.
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+export const IDEMPOTENT_REPLAY_HEADER = "Idempotent-Replayed";
+
+// Keys are kept a week; the offline queue gives up on requests older than that
+export const IDEMPOTENCY_KEY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+function requestHash(body: unknown): string {
+  return createHash("sha256").update(JSON.stringify(body ?? null)).digest("hex");
+}
+
+// The first request with a key is handled as usual and its response stored (unless it failed with a
+// 5xx, which frees the key for a retry); later ones with the same key get that response back
+export function idempotency(storage: IStorage): RequestHandler {
+  return async (req, res, next) => {
+    const key = req.get(IDEMPOTENCY_KEY_HEADER);
+    if (!key || SAFE_METHODS.includes(req.method)) return next();
+    if (!KEY_PATTERN.test(key)) {
+      return res.status(400).json({ error: `${IDEMPOTENCY_KEY_HEADER} must be 16 to 128 letters, digits, - or _` });
+    }
+
+    try {
+      const request = {
+        userId: req.session?.userId ?? null,
+        method: req.method,
+        path: req.originalUrl,
+        requestHash: requestHash(req.body),
+      };
+      const claimed = await storage.createIdempotencyKey({ key, ...request });
+      if (!claimed) {
+        const existing = await storage.getIdempotencyKey(key);
+        if (existing && (existing.userId !== request.userId || existing.method !== request.method
+          || existing.path !== request.path || existing.requestHash !== request.requestHash)) {
+          return res.status(422).json({ error: `This ${IDEMPOTENCY_KEY_HEADER} was used for a different request` });
+        }
+        if (!existing || existing.statusCode === null) {
+          res.setHeader("Retry-After", "1");
+          return res.status(409).json({ error: `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being handled` });
+        }
+        res.setHeader(IDEMPOTENT_REPLAY_HEADER, "true");
+        res.status(existing.statusCode);
+        return existing.response === null ? res.end() : res.type("json").send(existing.response);
+      }
+
+      let response: string | null = null;
+      const json = res.json.bind(res);
+      res.json = (body: unknown) => {
+        response = JSON.stringify(body);
+        return json(body);
+      };
+      let finished = false;
+      res.on("finish", () => {
+        finished = true;
+        const settle = res.statusCode >= 500
+          ? storage.deleteIdempotencyKey(key)
+          : storage.completeIdempotencyKey(key, res.statusCode, response);
+        settle.catch((error) => console.error("Idempotency key error:", error));
+      });
+      // The connection dropped before a response went out; let the retry through
+      res.on("close", () => {
+        if (finished) return;
+        storage.deleteIdempotencyKey(key).catch((error) => console.error("Idempotency key error:", error));
+      });
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export async function sweepIdempotencyKeys(storage: IStorage, now: Date = new Date()): Promise<number> {
+  return storage.deleteIdempotencyKeysCreatedBefore(new Date(now.getTime() - IDEMPOTENCY_KEY_TTL_MS));
+}
+
+// Drops expired keys hourly while the server runs; returns a stop function
+export function startIdempotencyKeyExpiry(storage: IStorage, intervalMs: number = SWEEP_INTERVAL_MS): () => void {
+  const run = () => {
+    sweepIdempotencyKeys(storage).catch((error) => {
+      console.error("Idempotency key expiry error:", error);
+    });
+  };
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
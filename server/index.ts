@@ -9,7 +9,13 @@ import compression from "compression";
 import { registerRoutes } from "./routes";
 import { registerAuthRoutes } from "./routes/auth";
 import { registerStripeRoutes } from "./routes/stripe";
+import { registerModerationRoutes } from "./routes/moderation";
+import { registerDocumentRoutes } from "./routes/documents";
+import { registerTradePlateLogRoutes } from "./routes/trade-plate-log";
+import { registerInspectionRoutes } from "./routes/inspections";
 import { registerTestHelpers } from "./test-helper";
+import { idempotency, startIdempotencyKeyExpiry } from "./idempotency";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 
 // ------------------------------------
@@ -41,6 +47,11 @@ app.use(
   express.raw({ type: "application/json", limit: "500kb" })
 );
 
+// Document uploads carry the file base64-encoded in JSON (10 MB files)
+app.use("/api/documents", express.json({ limit: "15mb" }));
+// Check-in and check-out can carry an inspection's photos the same way (8 photos of 2 MB)
+app.use(["/api/jobs/:id/check-in", "/api/jobs/:id/check-out"], express.json({ limit: "25mb" }));
+
 // Normal body parsers
 app.use(express.json({ limit: "1mb" }));
 app.use(express.urlencoded({ extended: false, limit: "1mb" }));
@@ -56,21 +67,22 @@ const sessionStore =
     ? new PgSession({ conString: process.env.DATABASE_URL })
     : new MemStore({ checkPeriod: 86_400_000 });
 
-app.use(
-  session({
-    secret: process.env.SESSION_SECRET || "dev-secret-change-in-production",
-    resave: false,
-    saveUninitialized: false,
-    store: sessionStore,
-    name: "dn.sid",
-    cookie: {
-      maxAge: 30 * 24 * 60 * 60 * 1000,
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-    },
-  })
-);
+// Shared with the /ws upgrade so sockets authenticate with the same cookie
+const sessionMiddleware = session({
+  secret: process.env.SESSION_SECRET || "dev-secret-change-in-production",
+  resave: false,
+  saveUninitialized: false,
+  store: sessionStore,
+  name: "dn.sid",
+  cookie: {
+    maxAge: 30 * 24 * 60 * 60 * 1000,
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+  },
+});
+
+app.use(sessionMiddleware);
 
 // ------------------------------------
 // ✅ 2.5. Test helpers (dev only)
@@ -104,6 +116,12 @@ app.use("/api/auth/login", authLimiter);
 app.use("/api/auth/register", authLimiter);
 app.use("/api/stripe/webhook", webhookLimiter);
 
+// ------------------------------------
+// ✅ 3.5. Idempotency keys (replays from the offline queue apply once)
+// ------------------------------------
+app.use("/api/", idempotency(storage));
+startIdempotencyKeyExpiry(storage);
+
 // ------------------------------------
 // ✅ 4. Request logging (trim long responses)
 // ------------------------------------
@@ -138,7 +156,11 @@ app.use((req, res, next) => {
 (async () => {
   registerAuthRoutes(app);
   registerStripeRoutes(app);
-  const server = await registerRoutes(app);
+  registerModerationRoutes(app);
+  registerDocumentRoutes(app);
+  registerTradePlateLogRoutes(app);
+  registerInspectionRoutes(app);
+  const server = await registerRoutes(app, sessionMiddleware);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
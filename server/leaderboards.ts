@@ -0,0 +1,109 @@
+// Leaderboards
+// Users ranked by the points they earned this week (from Monday), this month, or ever, nationally
+// or within a region, and optionally within a reputation tier. Totals come from the points ledger,
+// and storage ranks and pages them; a user's region is where they usually check in, looked up in
+// the bundled gazetteer and kept on their stats. Users who opt out, or who haven't earned anything
+// in the period, aren't listed.
+
+import type { Leaderboard, LeaderboardPeriod, LeaderboardTier } from "@shared/leaderboards";
+import type { IStorage } from "./storage";
+import type { Coordinates } from "./ai-routing-utils";
+import { geocoder, type Gazetteer } from "./gazetteer";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface LeaderboardQuery {
+  period: LeaderboardPeriod;
+  region?: string;
+  tier?: LeaderboardTier;
+  page?: number;
+  pageSize?: number;
+  userId?: string;
+}
+
+// Local midnight on Monday for weekly boards, on the 1st for monthly ones
+export function periodStart(period: LeaderboardPeriod, now: Date = new Date()): Date | null {
+  if (period === "weekly") {
+    const daysSinceMonday = (now.getDay() + 6) % 7;
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate() - daysSinceMonday);
+  }
+  if (period === "monthly") return new Date(now.getFullYear(), now.getMonth(), 1);
+  return null;
+}
+
+// The region most of these points fall in; ties go to the one visited most recently
+export function usualRegion(
+  points: (Coordinates & { at: Date | null })[],
+  gazetteer: Gazetteer = geocoder.gazetteer,
+): string | null {
+  const regions = new Map<string, { count: number; latest: number }>();
+  for (const point of points) {
+    const region = gazetteer.reverse(point)?.region;
+    if (!region) continue;
+    const seen = regions.get(region) ?? { count: 0, latest: 0 };
+    regions.set(region, { count: seen.count + 1, latest: Math.max(seen.latest, point.at?.getTime() ?? 0) });
+  }
+  let best: [string, { count: number; latest: number }] | undefined;
+  for (const candidate of Array.from(regions)) {
+    const [, { count, latest }] = candidate;
+    if (!best || count > best[1].count || (count === best[1].count && latest > best[1].latest)) best = candidate;
+  }
+  return best?.[0] ?? null;
+}
+
+// From availability check-ins and where the user checked in to their jobs
+export async function refreshHomeRegion(
+  storage: IStorage,
+  userId: string,
+  gazetteer: Gazetteer = geocoder.gazetteer,
+): Promise<string | null> {
+  const points: (Coordinates & { at: Date | null })[] = [];
+  for (const checkIn of await storage.getCheckInsByUserId(userId)) {
+    if (checkIn.lat !== null && checkIn.lng !== null) points.push({ lat: checkIn.lat, lng: checkIn.lng, at: checkIn.fromTime });
+  }
+  for (const schedule of await storage.getSchedulesByUserId(userId)) {
+    for (const job of await storage.getJobsByScheduleId(schedule.id)) {
+      if (job.checkInLat !== null && job.checkInLng !== null) points.push({ lat: job.checkInLat, lng: job.checkInLng, at: job.actualStartTime });
+    }
+  }
+
+  const homeRegion = usualRegion(points, gazetteer);
+  const stats = await storage.getUserStats(userId);
+  if (stats && stats.homeRegion !== homeRegion) {
+    await storage.updateUserStats(userId, { homeRegion });
+  }
+  return homeRegion;
+}
+
+export async function getLeaderboard(storage: IStorage, query: LeaderboardQuery, now: Date = new Date()): Promise<Leaderboard> {
+  const since = periodStart(query.period, now);
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, query.pageSize ?? DEFAULT_PAGE_SIZE));
+  const page = Math.max(1, query.page ?? 1);
+  const region = query.region?.trim() || null;
+  const tier = query.tier ?? null;
+
+  const { entries, totalEntries, regions, currentUser } = await storage.getLeaderboard({
+    since: since ?? undefined,
+    region,
+    tier,
+    offset: (page - 1) * pageSize,
+    limit: pageSize,
+    userId: query.userId,
+  });
+
+  const leaderboard: Leaderboard = {
+    period: query.period,
+    region,
+    tier,
+    since,
+    page,
+    pageSize,
+    totalEntries,
+    totalPages: Math.max(1, Math.ceil(totalEntries / pageSize)),
+    entries,
+    regions,
+  };
+  if (query.userId) leaderboard.currentUser = currentUser ?? null;
+  return leaderboard;
+}
@@ -0,0 +1,214 @@
+// Lift Matching Engine
+// Scores a lift request against a lift offer by the detour its pickup and drop-off add to the
+// driver's route, whether the time windows allow it, and the practical constraints
+// (seats, visibility, blocks, budget). Every score comes with a per-component explanation.
+
+import type { LiftOffer, LiftRequest } from "@shared/schema";
+import { haversineMiles, estimateMinutes, type Coordinates } from "./ai-routing-utils";
+
+const KM_PER_MILE = 1.609344;
+const DEFAULT_DETOUR_KM = 10;
+// Tolerance applied when an offer or request has no explicit window (same as the 0002 backfill)
+const DEFAULT_WINDOW_MINUTES = 120;
+// Combined pickup/departure deviation at which the time component reaches zero
+const MAX_TIME_DEVIATION_MINUTES = 240;
+
+const WEIGHTS = {
+  detour: 45,
+  time: 30,
+  coverage: 15,
+  price: 10,
+};
+
+export interface MatchComponent {
+  score: number;
+  max: number;
+  detail: string;
+}
+
+export interface LiftMatch {
+  offerId: string;
+  requestId: string;
+  score: number; // 0-100, 0 when ineligible
+  eligible: boolean;
+  reasons: string[]; // Why the pair can't be matched (empty when eligible)
+  detourKm: number;
+  departAt: string | null; // Suggested driver departure
+  pickupAt: string | null; // Estimated pickup time
+  components: {
+    detour: MatchComponent;
+    time: MatchComponent;
+    coverage: MatchComponent;
+    price: MatchComponent;
+  };
+}
+
+export interface MatchContext {
+  // Users the offer's driver or the requester have blocked, or been blocked by
+  blockedUserIds?: Set<string>;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+function distanceKm(a: Coordinates, b: Coordinates): number {
+  return haversineMiles(a, b) * KM_PER_MILE;
+}
+
+function minutesBetween(a: Coordinates, b: Coordinates, when: Date): number {
+  return estimateMinutes(haversineMiles(a, b), when.toISOString());
+}
+
+function formatTime(date: Date): string {
+  return date.toISOString().slice(11, 16);
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+// Departure window for a trip. Without explicit bounds: ±2h around the planned time,
+// with the latest arrival pushed back by the direct travel time
+function tripWindow(
+  planned: Date,
+  earliestDepart: Date | null,
+  latestArrive: Date | null,
+  directMinutes: number
+): { earliest: number; latestArrival: number } {
+  const plannedMs = new Date(planned).getTime();
+  return {
+    earliest: earliestDepart
+      ? new Date(earliestDepart).getTime()
+      : plannedMs - DEFAULT_WINDOW_MINUTES * MINUTE_MS,
+    latestArrival: latestArrive
+      ? new Date(latestArrive).getTime()
+      : plannedMs + (directMinutes + DEFAULT_WINDOW_MINUTES) * MINUTE_MS,
+  };
+}
+
+function priceComponent(offer: LiftOffer, request: LiftRequest): MatchComponent & { withinBudget: boolean } {
+  const max = WEIGHTS.price;
+  if (offer.priceType !== "Fixed" || offer.priceValue == null) {
+    return { score: max, max, withinBudget: true, detail: `${offer.priceType ?? "Free"} lift` };
+  }
+  if (request.maxBudget == null) {
+    return { score: max / 2, max, withinBudget: true, detail: `£${offer.priceValue} fixed, no budget given` };
+  }
+  if (offer.priceValue > request.maxBudget) {
+    return { score: 0, max, withinBudget: false, detail: `£${offer.priceValue} is over the £${request.maxBudget} budget` };
+  }
+  const score = round1(max * (1 - (offer.priceValue / request.maxBudget) / 2));
+  return { score, max, withinBudget: true, detail: `£${offer.priceValue} within the £${request.maxBudget} budget` };
+}
+
+export function scoreLiftMatch(offer: LiftOffer, request: LiftRequest, context: MatchContext = {}): LiftMatch {
+  const reasons: string[] = [];
+
+  if (offer.driverId === request.requesterId) reasons.push("Offer and request belong to the same user");
+  if (context.blockedUserIds?.has(offer.driverId) || context.blockedUserIds?.has(request.requesterId)) {
+    reasons.push("One of the users has blocked the other");
+  }
+  if (offer.status !== "available" || offer.availableSeats < 1) reasons.push("Offer has no seats available");
+  if (request.status !== "active") reasons.push(`Request is ${request.status}`);
+  if (offer.visibility === "Followers") reasons.push("Offer is only visible to the driver's followers");
+
+  // Driver route with the passenger's pickup and drop-off inserted in order: A → P → D → B
+  const start = { lat: offer.fromLat, lng: offer.fromLng };
+  const end = { lat: offer.toLat, lng: offer.toLng };
+  const pickup = { lat: request.fromLat, lng: request.fromLng };
+  const dropoff = { lat: request.toLat, lng: request.toLng };
+
+  const directKm = distanceKm(start, end);
+  const sharedKm = distanceKm(pickup, dropoff);
+  const routeKm = distanceKm(start, pickup) + sharedKm + distanceKm(dropoff, end);
+  const detourKm = Math.max(0, routeKm - directKm);
+  const maxDetourKm = offer.detourKm ?? DEFAULT_DETOUR_KM;
+
+  let detour: MatchComponent;
+  if (detourKm > maxDetourKm) {
+    reasons.push(`Detour of ${round1(detourKm)} km exceeds the driver's ${maxDetourKm} km limit`);
+    detour = { score: 0, max: WEIGHTS.detour, detail: `${round1(detourKm)} km extra, limit ${maxDetourKm} km` };
+  } else {
+    const share = maxDetourKm > 0 ? detourKm / maxDetourKm : 0;
+    detour = {
+      score: round1(WEIGHTS.detour * (1 - share)),
+      max: WEIGHTS.detour,
+      detail: `${round1(detourKm)} km extra of the driver's ${maxDetourKm} km limit`,
+    };
+  }
+
+  const coverage: MatchComponent = {
+    score: routeKm > 0 ? round1(WEIGHTS.coverage * (sharedKm / routeKm)) : WEIGHTS.coverage,
+    max: WEIGHTS.coverage,
+    detail: `Passenger rides ${round1(sharedKm)} of ${round1(routeKm)} km`,
+  };
+
+  const price = priceComponent(offer, request);
+  if (!price.withinBudget) reasons.push("Price is over the passenger's budget");
+
+  // Time: find a driver departure that reaches the pickup inside the passenger's window and
+  // still arrives at both destinations in time, preferring the driver's planned departure
+  const plannedDeparture = new Date(offer.departureTime);
+  const toPickup = minutesBetween(start, pickup, plannedDeparture);
+  const pickupToDropoff = minutesBetween(pickup, dropoff, plannedDeparture);
+  const dropoffToEnd = minutesBetween(dropoff, end, plannedDeparture);
+
+  const offerWindow = tripWindow(offer.departureTime, offer.earliestDepart, offer.latestArrive,
+    minutesBetween(start, end, plannedDeparture));
+  const requestWindow = tripWindow(request.requestedTime, request.earliestDepart, request.latestArrive, pickupToDropoff);
+
+  const earliestDepart = Math.max(offerWindow.earliest, requestWindow.earliest - toPickup * MINUTE_MS);
+  const latestDepart = Math.min(
+    offerWindow.latestArrival - (toPickup + pickupToDropoff + dropoffToEnd) * MINUTE_MS,
+    requestWindow.latestArrival - (toPickup + pickupToDropoff) * MINUTE_MS,
+  );
+
+  let time: MatchComponent;
+  let departAt: Date | null = null;
+  let pickupAt: Date | null = null;
+  if (earliestDepart > latestDepart) {
+    reasons.push("Time windows don't overlap once travel to the pickup is included");
+    time = { score: 0, max: WEIGHTS.time, detail: "No departure time works for both" };
+  } else {
+    departAt = new Date(clamp(plannedDeparture.getTime(), earliestDepart, latestDepart));
+    pickupAt = new Date(departAt.getTime() + toPickup * MINUTE_MS);
+    const departShift = Math.abs(departAt.getTime() - plannedDeparture.getTime()) / MINUTE_MS;
+    const pickupShift = Math.abs(pickupAt.getTime() - new Date(request.requestedTime).getTime()) / MINUTE_MS;
+    time = {
+      score: round1(WEIGHTS.time * Math.max(0, 1 - (departShift + pickupShift) / MAX_TIME_DEVIATION_MINUTES)),
+      max: WEIGHTS.time,
+      detail: `Pickup ${formatTime(pickupAt)} (${Math.round(pickupShift)} min from requested), ` +
+        (departShift === 0 ? "driver leaves as planned" : `driver leaves ${Math.round(departShift)} min off plan`),
+    };
+  }
+
+  const eligible = reasons.length === 0;
+  const total = detour.score + time.score + coverage.score + price.score;
+
+  return {
+    offerId: offer.id,
+    requestId: request.id,
+    score: eligible ? clamp(Math.round(total), 0, 100) : 0,
+    eligible,
+    reasons,
+    detourKm: round1(detourKm),
+    departAt: departAt?.toISOString() ?? null,
+    pickupAt: pickupAt?.toISOString() ?? null,
+    components: {
+      detour,
+      time,
+      coverage,
+      price: { score: price.score, max: price.max, detail: price.detail },
+    },
+  };
+}
+
+// Best matches first; ineligible pairs are dropped unless asked for (with their reasons)
+export function rankMatches(matches: LiftMatch[], includeIneligible = false): LiftMatch[] {
+  return matches
+    .filter((match) => includeIneligible || match.eligible)
+    .sort((a, b) => b.score - a.score || a.detourKm - b.detourKm);
+}
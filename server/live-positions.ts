@@ -0,0 +1,63 @@
+// Live Driver Positions
+// Latest GPS fix per driver, fed by `location` messages on /ws. Positions are kept in memory
+// only and go stale after POSITION_TTL_MS without an update; stale entries are dropped lazily
+// whenever the store is read.
+
+import type { LivePosition, LocationMessage } from "@shared/realtime";
+import { haversineMiles, type Coordinates } from "./ai-routing-utils";
+
+export const POSITION_TTL_MS = 2 * 60 * 1000;
+
+export class LivePositionStore {
+  private positions = new Map<string, LivePosition>();
+
+  constructor(private ttlMs: number = POSITION_TTL_MS) {}
+
+  update(userId: string, fix: Omit<LocationMessage, "type" | "v" | "id">, now: Date = new Date()): LivePosition {
+    const position: LivePosition = {
+      userId,
+      lat: fix.lat,
+      lng: fix.lng,
+      speedKph: fix.speedKph ?? null,
+      bearingDeg: fix.bearingDeg ?? null,
+      accuracyM: fix.accuracyM ?? null,
+      updatedAt: now.toISOString(),
+    };
+    this.positions.set(userId, position);
+    return position;
+  }
+
+  get(userId: string, now: Date = new Date()): LivePosition | undefined {
+    const position = this.positions.get(userId);
+    if (!position) return undefined;
+    if (this.isStale(position, now)) {
+      this.positions.delete(userId);
+      return undefined;
+    }
+    return position;
+  }
+
+  // Every fresh position, dropping the stale ones
+  active(now: Date = new Date()): LivePosition[] {
+    const fresh: LivePosition[] = [];
+    for (const [userId, position] of Array.from(this.positions)) {
+      if (this.isStale(position, now)) this.positions.delete(userId);
+      else fresh.push(position);
+    }
+    return fresh;
+  }
+
+  // Fresh positions within a radius, nearest first
+  nearby(center: Coordinates, maxDistanceMiles: number, now: Date = new Date()): (LivePosition & { distance: number })[] {
+    return this.active(now)
+      .map((position) => ({ ...position, distance: haversineMiles(center, position) }))
+      .filter((position) => position.distance <= maxDistanceMiles)
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  private isStale(position: LivePosition, now: Date): boolean {
+    return now.getTime() - new Date(position.updatedAt).getTime() > this.ttlMs;
+  }
+}
+
+export const livePositions = new LivePositionStore();
@@ -0,0 +1,157 @@
+// Match Subscriptions
+// Every lift offer and request gets a saved "watch" when it is posted. Each new post is scored
+// against the open watches on the other side, and when a pair crosses both watches' thresholds the
+// driver and passenger each get a targeted WebSocket event and an inbox message, once per pair.
+// Watches stop firing when their offer/request is no longer open or its time window has passed.
+
+import type { LiftOffer, LiftRequest, MatchSubscription } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { scoreLiftMatch, type LiftMatch } from "./lift-matching";
+
+export const DEFAULT_MIN_SCORE = 60;
+const DEFAULT_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+export interface LiftMatchNotification {
+  type: "lift-match";
+  userId: string;
+  offerId: string;
+  requestId: string;
+  score: number;
+  message: string;
+  timestamp: string;
+}
+
+export type LiftMatchNotifier = (notification: LiftMatchNotification) => void;
+
+// A watch lasts until the post's latest arrival, or 2 hours after its planned time
+export function subscriptionExpiry(plannedTime: Date, latestArrive: Date | null): Date {
+  return latestArrive
+    ? new Date(latestArrive)
+    : new Date(new Date(plannedTime).getTime() + DEFAULT_WINDOW_MS);
+}
+
+// Close watches that have expired or whose post is no longer open; returns the rest with their posts
+async function openSubscriptions<T>(
+  storage: IStorage,
+  subscriptions: MatchSubscription[],
+  load: (subscription: MatchSubscription) => Promise<T | undefined>,
+  isOpen: (target: T) => boolean,
+  now: Date
+): Promise<{ subscription: MatchSubscription; target: T }[]> {
+  const open: { subscription: MatchSubscription; target: T }[] = [];
+
+  for (const subscription of subscriptions) {
+    if (subscription.expiresAt.getTime() <= now.getTime()) {
+      await storage.updateMatchSubscriptionStatus(subscription.id, "expired");
+      continue;
+    }
+    const target = await load(subscription);
+    if (!target) continue;
+    if (!isOpen(target)) {
+      await storage.updateMatchSubscriptionStatus(subscription.id, "fulfilled");
+      continue;
+    }
+    open.push({ subscription, target });
+  }
+
+  return open;
+}
+
+function formatWhen(iso: string | null, fallback: Date): string {
+  const date = iso ? new Date(iso) : new Date(fallback);
+  return date.toISOString().slice(0, 16).replace("T", " ");
+}
+
+async function alertMatch(
+  storage: IStorage,
+  offer: LiftOffer,
+  request: LiftRequest,
+  match: LiftMatch,
+  notify: LiftMatchNotifier
+): Promise<boolean> {
+  const alert = await storage.recordLiftMatchAlert({ offerId: offer.id, requestId: request.id, score: match.score });
+  if (!alert) return false;
+
+  const driver = await storage.getUser(offer.driverId);
+  const passenger = await storage.getUser(request.requesterId);
+  const pickup = formatWhen(match.pickupAt, request.requestedTime);
+
+  // Inbox messages appear to come from the other party, like schedule matches
+  const toPassenger = `Lift Match (${match.score}%)! ${driver?.callSign || "A driver"} is driving ${offer.fromLocation} → ${offer.toLocation} and can pick you up around ${pickup}. Open Matches to request a seat.`;
+  const toDriver = `Lift Match (${match.score}%)! ${passenger?.callSign || "A driver"} needs a lift ${request.fromLocation} → ${request.toLocation} around ${pickup}, a ${match.detourKm} km detour on your route.`;
+  await storage.createMessage({ senderId: offer.driverId, receiverId: request.requesterId, content: toPassenger });
+  await storage.createMessage({ senderId: request.requesterId, receiverId: offer.driverId, content: toDriver });
+
+  const timestamp = new Date().toISOString();
+  notify({ type: "lift-match", userId: request.requesterId, offerId: offer.id, requestId: request.id, score: match.score, message: toPassenger, timestamp });
+  notify({ type: "lift-match", userId: offer.driverId, offerId: offer.id, requestId: request.id, score: match.score, message: toDriver, timestamp });
+  return true;
+}
+
+// Watch a newly posted offer and alert the requesters it matches; returns the matches alerted
+export async function subscribeLiftOffer(
+  storage: IStorage,
+  offer: LiftOffer,
+  notify: LiftMatchNotifier,
+  now: Date = new Date()
+): Promise<LiftMatch[]> {
+  const own = await storage.createMatchSubscription({
+    userId: offer.driverId,
+    liftOfferId: offer.id,
+    minScore: DEFAULT_MIN_SCORE,
+    expiresAt: subscriptionExpiry(offer.departureTime, offer.latestArrive),
+  });
+
+  const requestWatches = (await storage.getActiveMatchSubscriptions()).filter((s) => s.liftRequestId);
+  const open = await openSubscriptions(
+    storage,
+    requestWatches,
+    (s) => storage.getLiftRequest(s.liftRequestId!),
+    (request) => request.status === "active",
+    now
+  );
+
+  const blockedUserIds = new Set(await storage.getBlockedUserIds(offer.driverId));
+  const alerted: LiftMatch[] = [];
+  for (const { subscription, target: request } of open) {
+    if (request.requesterId === offer.driverId) continue;
+    const match = scoreLiftMatch(offer, request, { blockedUserIds });
+    if (!match.eligible || match.score < Math.max(own.minScore, subscription.minScore)) continue;
+    if (await alertMatch(storage, offer, request, match, notify)) alerted.push(match);
+  }
+  return alerted;
+}
+
+// Watch a newly posted request and alert the drivers whose offers it fits; returns the matches alerted
+export async function subscribeLiftRequest(
+  storage: IStorage,
+  request: LiftRequest,
+  notify: LiftMatchNotifier,
+  now: Date = new Date()
+): Promise<LiftMatch[]> {
+  const own = await storage.createMatchSubscription({
+    userId: request.requesterId,
+    liftRequestId: request.id,
+    minScore: DEFAULT_MIN_SCORE,
+    expiresAt: subscriptionExpiry(request.requestedTime, request.latestArrive),
+  });
+
+  const offerWatches = (await storage.getActiveMatchSubscriptions()).filter((s) => s.liftOfferId);
+  const open = await openSubscriptions(
+    storage,
+    offerWatches,
+    (s) => storage.getLiftOffer(s.liftOfferId!),
+    (offer) => offer.status === "available" && offer.availableSeats > 0,
+    now
+  );
+
+  const blockedUserIds = new Set(await storage.getBlockedUserIds(request.requesterId));
+  const alerted: LiftMatch[] = [];
+  for (const { subscription, target: offer } of open) {
+    if (offer.driverId === request.requesterId) continue;
+    const match = scoreLiftMatch(offer, request, { blockedUserIds });
+    if (!match.eligible || match.score < Math.max(own.minScore, subscription.minScore)) continue;
+    if (await alertMatch(storage, offer, request, match, notify)) alerted.push(match);
+  }
+  return alerted;
+}
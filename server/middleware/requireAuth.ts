@@ -1,9 +1,20 @@
 import type { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { accountRestriction } from "../moderation";
 
-// Middleware to ensure user is authenticated
-export function requireAuth(req: Request, res: Response, next: NextFunction) {
-  if (!req.session?.userId) {
+// Middleware to ensure user is authenticated and not suspended or banned
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const userId = req.session?.userId;
+  if (!userId) {
     return res.status(401).json({ error: "Authentication required" });
   }
+
+  // Suspended or banned while signed in: end the session
+  const user = await storage.getUser(userId);
+  const restriction = user && accountRestriction(user);
+  if (restriction) {
+    return req.session.destroy(() => res.status(403).json({ error: restriction }));
+  }
+
   next();
 }
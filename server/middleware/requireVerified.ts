@@ -0,0 +1,28 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { accountRestriction } from "../moderation";
+
+// Middleware to ensure user holds approved, in-date trade plate and insurance documents
+export async function requireVerified(req: Request, res: Response, next: NextFunction) {
+  const userId = req.session?.userId;
+  if (!userId) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+
+  const user = await storage.getUser(userId);
+  if (!user) {
+    return res.status(401).json({ error: "User not found" });
+  }
+
+  // Suspended or banned while signed in: end the session
+  const restriction = accountRestriction(user);
+  if (restriction) {
+    return req.session.destroy(() => res.status(403).json({ error: restriction }));
+  }
+
+  if (!user.verified) {
+    return res.status(403).json({ error: "Verified trade plate and insurance documents required" });
+  }
+
+  next();
+}
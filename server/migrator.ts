@@ -0,0 +1,143 @@
+// Versioned schema migrations
+// Each migration is a pair of files in migrations/: NNNN_name.up.sql and NNNN_name.down.sql.
+// Statements are separated by "--> statement-breakpoint" (the drizzle-kit convention) and
+// every migration runs in its own transaction, recorded in the schema_migrations table.
+
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { eq, sql } from "drizzle-orm";
+import { integer, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+import type { Database } from "./db";
+
+export const MIGRATIONS_DIR = path.resolve(process.cwd(), "migrations");
+
+const STATEMENT_BREAKPOINT = "--> statement-breakpoint";
+const MIGRATION_FILE = /^(\d{4})_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+// Bookkeeping table; deliberately not part of shared/schema.ts so `db:push` leaves it alone
+const schemaMigrations = pgTable("schema_migrations", {
+  version: integer("version").primaryKey(),
+  name: text("name").notNull(),
+  appliedAt: timestamp("applied_at").notNull().defaultNow(),
+});
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: Date | null;
+}
+
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const byVersion = new Map<number, Partial<Migration>>();
+
+  for (const file of readdirSync(dir)) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) continue;
+
+    const version = parseInt(match[1], 10);
+    const entry = byVersion.get(version) ?? { version, name: match[2] };
+    if (entry.name !== match[2]) {
+      throw new Error(`Migration ${match[1]} has conflicting names: ${entry.name} and ${match[2]}`);
+    }
+    entry[match[3] as "up" | "down"] = readFileSync(path.join(dir, file), "utf8");
+    byVersion.set(version, entry);
+  }
+
+  return Array.from(byVersion.values())
+    .map((entry) => {
+      if (entry.up === undefined || entry.down === undefined) {
+        throw new Error(`Migration ${entry.version}_${entry.name} needs both an up and a down file`);
+      }
+      return entry as Migration;
+    })
+    .sort((a, b) => a.version - b.version);
+}
+
+function splitStatements(script: string): string[] {
+  return script
+    .split(STATEMENT_BREAKPOINT)
+    .map((statement) => statement.trim())
+    .filter((statement) => statement.replace(/^--.*$/gm, "").trim().length > 0);
+}
+
+async function ensureMigrationsTable(db: Database): Promise<void> {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version integer PRIMARY KEY,
+      name text NOT NULL,
+      applied_at timestamp NOT NULL DEFAULT now()
+    )
+  `);
+}
+
+async function getAppliedVersions(db: Database): Promise<Map<number, Date>> {
+  await ensureMigrationsTable(db);
+  const rows = await db.select().from(schemaMigrations);
+  return new Map(rows.map((row) => [row.version, row.appliedAt]));
+}
+
+// Apply pending migrations in order, up to and including `to` (defaults to the latest)
+export async function migrateUp(
+  db: Database,
+  options: { to?: number; migrations?: Migration[] } = {}
+): Promise<Migration[]> {
+  const migrations = options.migrations ?? loadMigrations();
+  const applied = await getAppliedVersions(db);
+  const pending = migrations.filter(
+    (m) => !applied.has(m.version) && (options.to === undefined || m.version <= options.to)
+  );
+
+  for (const migration of pending) {
+    await db.transaction(async (tx) => {
+      for (const statement of splitStatements(migration.up)) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.insert(schemaMigrations).values({ version: migration.version, name: migration.name });
+    });
+  }
+
+  return pending;
+}
+
+// Roll back the most recently applied migrations (one step by default)
+export async function migrateDown(
+  db: Database,
+  options: { steps?: number; migrations?: Migration[] } = {}
+): Promise<Migration[]> {
+  const migrations = options.migrations ?? loadMigrations();
+  const applied = await getAppliedVersions(db);
+  const toRevert = migrations
+    .filter((m) => applied.has(m.version))
+    .sort((a, b) => b.version - a.version)
+    .slice(0, options.steps ?? 1);
+
+  for (const migration of toRevert) {
+    await db.transaction(async (tx) => {
+      for (const statement of splitStatements(migration.down)) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.delete(schemaMigrations).where(eq(schemaMigrations.version, migration.version));
+    });
+  }
+
+  return toRevert;
+}
+
+export async function migrationStatus(
+  db: Database,
+  migrations: Migration[] = loadMigrations()
+): Promise<MigrationStatus[]> {
+  const applied = await getAppliedVersions(db);
+  return migrations.map((m) => ({
+    version: m.version,
+    name: m.name,
+    appliedAt: applied.get(m.version) ?? null,
+  }));
+}
@@ -0,0 +1,122 @@
+// Moderation
+// Users report each other for abuse or safety problems and block people they don't want to deal
+// with. Reports queue up for moderators, who review them and either dismiss them or act against
+// the reported user: a warning, a suspension for a number of days, or a ban. Suspended and banned
+// users can't sign in. Blocks work both ways: neither user sees the other in matches, on the map
+// or in their conversations, and neither can message the other.
+
+import type { Block, Report, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export const REPORT_REASONS = ["harassment", "unsafe_driving", "fake_location", "spam", "other"] as const;
+export const REPORT_STATUSES = ["pending", "reviewed", "action_taken", "dismissed"] as const;
+export const MODERATION_ACTIONS = ["warn", "suspend", "ban"] as const;
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number];
+
+export const DEFAULT_SUSPENSION_DAYS = 7;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Carries the HTTP status the routes answer with
+export class ModerationError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 409) {
+    super(message);
+    this.name = "ModerationError";
+  }
+}
+
+export interface ReportDetails {
+  reportedUserId: string;
+  reason: string;
+  description?: string | null;
+}
+
+export interface ReportDecision {
+  status: "reviewed" | "action_taken" | "dismissed";
+  action?: ModerationAction;
+  suspensionDays?: number;
+  notes?: string;
+}
+
+// Why the user can't use their account right now, or null if they can; suspensions lapse by themselves
+export function accountRestriction(user: User, now: Date = new Date()): string | null {
+  if (user.accountStatus === "banned") return "This account has been banned";
+  if (user.accountStatus === "suspended" && (!user.suspendedUntil || user.suspendedUntil > now)) {
+    return user.suspendedUntil
+      ? `This account is suspended until ${user.suspendedUntil.toISOString().slice(0, 10)}`
+      : "This account is suspended";
+  }
+  return null;
+}
+
+// Users the viewer mustn't see or be seen by; nobody is hidden from anonymous requests
+export async function hiddenUserIds(storage: IStorage, viewerId?: string): Promise<Set<string>> {
+  return new Set(viewerId ? await storage.getBlockedUserIds(viewerId) : []);
+}
+
+export async function reportUser(storage: IStorage, reporterId: string, details: ReportDetails): Promise<Report> {
+  if (details.reportedUserId === reporterId) throw new ModerationError("You can't report yourself", 400);
+  if (!(await storage.getUser(details.reportedUserId))) throw new ModerationError("User not found", 404);
+  if (await storage.getOpenReport(reporterId, details.reportedUserId)) {
+    throw new ModerationError("You've already reported this user; a moderator will look at it", 409);
+  }
+  return storage.createReport({ ...details, reporterId });
+}
+
+export async function blockUser(storage: IStorage, blockerId: string, blockedUserId: string): Promise<Block> {
+  if (blockedUserId === blockerId) throw new ModerationError("You can't block yourself", 400);
+  if (!(await storage.getUser(blockedUserId))) throw new ModerationError("User not found", 404);
+  return storage.createBlock({ blockerId, blockedUserId });
+}
+
+export async function unblockUser(storage: IStorage, blockerId: string, blockedUserId: string): Promise<void> {
+  if (!(await storage.deleteBlock(blockerId, blockedUserId))) {
+    throw new ModerationError("You haven't blocked this user", 404);
+  }
+}
+
+// The account changes each action makes to the reported user
+function actionUpdates(user: User, decision: ReportDecision, now: Date) {
+  switch (decision.action) {
+    case "warn":
+      return { warningCount: user.warningCount + 1 };
+    case "suspend": {
+      const days = decision.suspensionDays ?? DEFAULT_SUSPENSION_DAYS;
+      // A longer suspension already in force isn't shortened
+      const until = new Date(Math.max(now.getTime() + days * MS_PER_DAY, user.suspendedUntil?.getTime() ?? 0));
+      return user.accountStatus === "banned" ? {} : { accountStatus: "suspended", suspendedUntil: until };
+    }
+    case "ban":
+      return { accountStatus: "banned", suspendedUntil: null };
+    default:
+      return {};
+  }
+}
+
+// Records the moderator's decision and applies any action to the reported user. Reviewed reports
+// stay open for a later decision; action_taken needs an action and dismissed mustn't have one.
+export async function reviewReport(
+  storage: IStorage,
+  moderatorId: string,
+  reportId: string,
+  decision: ReportDecision,
+  now: Date = new Date(),
+): Promise<{ report: Report; user: User }> {
+  if ((decision.status === "action_taken") !== Boolean(decision.action)) {
+    throw new ModerationError("An action is required when, and only when, the status is action_taken", 400);
+  }
+  const report = await storage.getReport(reportId);
+  if (!report) throw new ModerationError("Report not found", 404);
+  const user = await storage.getUser(report.reportedUserId);
+  if (!user) throw new ModerationError("Reported user not found", 404);
+
+  const reviewed = await storage.reviewReport(reportId, {
+    status: decision.status,
+    action: decision.action ?? null,
+    reviewedBy: moderatorId,
+    reviewNotes: decision.notes ?? null,
+  });
+  if (!reviewed) throw new ModerationError("This report has already been closed", 409);
+
+  const updated = await storage.updateUserModeration(user.id, actionUpdates(user, decision, now));
+  return { report: reviewed, user: updated ?? user };
+}
@@ -0,0 +1,285 @@
+// PDF Documents
+// Builds PDFs without a dependency: A4 pages, portrait or landscape, in the built-in Helvetica,
+// laid out top to bottom as lines of text, tables (the header row repeated after a page break),
+// vector drawings and JPEG images, with page numbers in the footer. Text is limited to printable
+// ASCII (anything else prints as "?"), and text too long for its space is cut short with "...".
+
+export type PdfColor = [number, number, number]; // RGB, each 0-1
+
+export interface PdfColumn {
+  header: string;
+  width: number; // points; the columns should add up to the content width
+}
+
+export interface PdfTable {
+  title: string;
+  subtitle?: string;
+  columns: PdfColumn[];
+  rows: string[][];
+}
+
+export interface PdfTextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+}
+
+export interface PdfShapeStyle {
+  stroke?: PdfColor;
+  fill?: PdfColor;
+  lineWidth?: number;
+}
+
+// Draws inside a block of the page; x and y are points from the block's top left corner
+export interface PdfCanvas {
+  readonly width: number;
+  readonly height: number;
+  rect(x: number, y: number, width: number, height: number, style?: PdfShapeStyle): void;
+  circle(x: number, y: number, radius: number, style?: PdfShapeStyle): void;
+  polyline(points: [number, number][], style?: PdfShapeStyle): void;
+  text(x: number, y: number, value: string, style?: PdfTextStyle & { maxWidth?: number }): void; // y is the baseline
+  image(jpeg: Buffer, x: number, y: number, width: number, height: number): boolean; // false if it isn't a JPEG
+}
+
+const MARGIN = 36;
+const FOOTER = 16; // Kept clear at the bottom for the page number
+const ROW_HEIGHT = 14;
+const TABLE_FONT_SIZE = 8;
+const BLACK: PdfColor = [0, 0, 0];
+const A4: [number, number] = [595, 842];
+const JPEG_COLOR_SPACES: Record<number, string> = { 1: "DeviceGray", 3: "DeviceRGB", 4: "DeviceCMYK" };
+
+function ascii(value: string): string {
+  return value.replace(/[^\x20-\x7e]/g, "?");
+}
+
+// Helvetica averages about half an em per character, which is close enough to decide where to cut
+function fit(value: string, width: number, size: number): string {
+  const max = Math.floor((width - 4) / (size * 0.5));
+  return value.length <= max ? value : `${value.slice(0, Math.max(0, max - 3))}...`;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function color(rgb: PdfColor, operator: "rg" | "RG"): string {
+  return `${rgb.map(num).join(" ")} ${operator}`;
+}
+
+function textOp(x: number, y: number, value: string, style: PdfTextStyle = {}): string {
+  const escaped = ascii(value).replace(/[\\()]/g, (c) => `\\${c}`);
+  return `BT /${style.bold ? "F2" : "F1"} ${style.size ?? 10} Tf ${color(style.color ?? BLACK, "rg")} ${num(x)} ${num(y)} Td (${escaped}) Tj ET`;
+}
+
+function paint(style: PdfShapeStyle): string {
+  const ops = [`${num(style.lineWidth ?? 0.5)} w`];
+  if (style.fill) ops.push(color(style.fill, "rg"));
+  ops.push(color(style.stroke ?? BLACK, "RG"));
+  return ops.join(" ");
+}
+
+// "B" fills and strokes, "f" only fills, "S" only strokes
+function paintOperator(style: PdfShapeStyle): string {
+  if (style.fill) return style.stroke ? "B" : "f";
+  return "S";
+}
+
+// The pixel size and colour components from a JPEG's start-of-frame marker; undefined if the data isn't a JPEG
+export function jpegSize(data: Buffer): { width: number; height: number; components: number } | undefined {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return undefined;
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return undefined;
+    const marker = data[offset + 1];
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC), which share the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7), components: data[offset + 9] };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+export class PdfDocument {
+  readonly pageWidth: number;
+  readonly pageHeight: number;
+  private pages: string[][] = [];
+  private images: { data: Buffer; width: number; height: number; components: number }[] = [];
+  private y = 0;
+
+  constructor(options: { landscape?: boolean } = {}) {
+    [this.pageWidth, this.pageHeight] = options.landscape ? [A4[1], A4[0]] : A4;
+    this.newPage();
+  }
+
+  get contentWidth(): number {
+    return this.pageWidth - 2 * MARGIN;
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  newPage(): void {
+    this.pages.push([]);
+    this.y = this.pageHeight - MARGIN;
+  }
+
+  // Starts a new page unless `height` more points fit on this one
+  private ensureSpace(height: number): void {
+    if (this.y - height < MARGIN + FOOTER && this.y < this.pageHeight - MARGIN) this.newPage();
+  }
+
+  gap(points: number): void {
+    this.y -= points;
+  }
+
+  text(value: string, style: PdfTextStyle = {}): void {
+    const size = style.size ?? 10;
+    this.ensureSpace(size * 1.4);
+    this.y -= size * 1.4;
+    this.ops.push(textOp(MARGIN, this.y + size * 0.3, fit(ascii(value), this.contentWidth, size), style));
+  }
+
+  table(columns: PdfColumn[], rows: string[][]): void {
+    const row = (cells: string[], bold: boolean) => {
+      this.y -= ROW_HEIGHT;
+      let x = MARGIN;
+      columns.forEach((column, i) => {
+        this.ops.push(textOp(x + 2, this.y + 4, fit(ascii(cells[i] ?? ""), column.width, TABLE_FONT_SIZE), { size: TABLE_FONT_SIZE, bold }));
+        x += column.width;
+      });
+    };
+    const header = () => {
+      this.ensureSpace(2 * ROW_HEIGHT);
+      row(columns.map((column) => column.header), true);
+      this.ops.push(`0.5 w ${color(BLACK, "RG")} ${MARGIN} ${num(this.y + 1)} m ${MARGIN + this.contentWidth} ${num(this.y + 1)} l S`);
+    };
+
+    header();
+    for (const cells of rows) {
+      if (this.y - ROW_HEIGHT < MARGIN + FOOTER) {
+        this.newPage();
+        header();
+      }
+      row(cells, false);
+    }
+  }
+
+  // A block the full content width and `height` points tall, drawn by `draw`
+  drawing(height: number, draw: (canvas: PdfCanvas) => void): void {
+    this.ensureSpace(height);
+    const top = this.y;
+    const ops = this.ops;
+    const images = this.images;
+    const pdfY = (y: number) => top - y;
+
+    draw({
+      width: this.contentWidth,
+      height,
+      rect(x, y, width, height, style = {}) {
+        ops.push(`${paint(style)} ${num(MARGIN + x)} ${num(pdfY(y + height))} ${num(width)} ${num(height)} re ${paintOperator(style)}`);
+      },
+      circle(x, y, radius, style = {}) {
+        // Four Bezier quarter-arcs
+        const k = radius * 0.5523;
+        const cx = MARGIN + x;
+        const cy = pdfY(y);
+        ops.push([
+          paint(style),
+          `${num(cx + radius)} ${num(cy)} m`,
+          `${num(cx + radius)} ${num(cy + k)} ${num(cx + k)} ${num(cy + radius)} ${num(cx)} ${num(cy + radius)} c`,
+          `${num(cx - k)} ${num(cy + radius)} ${num(cx - radius)} ${num(cy + k)} ${num(cx - radius)} ${num(cy)} c`,
+          `${num(cx - radius)} ${num(cy - k)} ${num(cx - k)} ${num(cy - radius)} ${num(cx)} ${num(cy - radius)} c`,
+          `${num(cx + k)} ${num(cy - radius)} ${num(cx + radius)} ${num(cy - k)} ${num(cx + radius)} ${num(cy)} c`,
+          paintOperator(style),
+        ].join(" "));
+      },
+      polyline(points, style = {}) {
+        if (points.length < 2) return;
+        const path = points.map(([x, y], i) => `${num(MARGIN + x)} ${num(pdfY(y))} ${i === 0 ? "m" : "l"}`);
+        ops.push(`${paint({ ...style, fill: undefined })} 1 J 1 j ${path.join(" ")} S`);
+      },
+      text(x, y, value, style = {}) {
+        const shown = style.maxWidth ? fit(ascii(value), style.maxWidth, style.size ?? 10) : value;
+        ops.push(textOp(MARGIN + x, pdfY(y), shown, style));
+      },
+      image(jpeg, x, y, width, height) {
+        const size = jpegSize(jpeg);
+        if (!size) return false;
+        images.push({ data: jpeg, ...size });
+        ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(MARGIN + x)} ${num(pdfY(y + height))} cm /Im${images.length} Do Q`);
+        return true;
+      },
+    });
+    this.y -= height;
+  }
+
+  render(): Buffer {
+    const pageCount = this.pages.length;
+    const imageIds = this.images.map((_, i) => 5 + i);
+    const firstPageId = 5 + this.images.length;
+    const pageIds = this.pages.map((_, i) => firstPageId + i * 2);
+
+    // Objects 1-4 are the catalog, page tree and two fonts, then the images; each page takes two, itself and its content
+    const objects: Buffer[] = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageCount} >>`,
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    ].map((body) => Buffer.from(body, "latin1"));
+    for (const image of this.images) {
+      objects.push(Buffer.concat([
+        Buffer.from(
+          `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+          `/ColorSpace /${JPEG_COLOR_SPACES[image.components] ?? "DeviceRGB"} /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`,
+          "latin1",
+        ),
+        image.data,
+        Buffer.from("\nendstream", "latin1"),
+      ]));
+    }
+    const xObjects = imageIds.map((id, i) => `/Im${i + 1} ${id} 0 R`).join(" ");
+    this.pages.forEach((ops, i) => {
+      const content = [
+        ...ops,
+        textOp(this.pageWidth - MARGIN - 60, MARGIN - 12, `Page ${i + 1} of ${pageCount}`, { size: TABLE_FONT_SIZE }),
+      ].join("\n");
+      objects.push(
+        Buffer.from(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.pageWidth} ${this.pageHeight}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ""} >> /Contents ${pageIds[i] + 1} 0 R >>`,
+          "latin1",
+        ),
+        Buffer.from(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`, "latin1"),
+      );
+    });
+
+    const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n", "latin1")];
+    let length = chunks[0].length;
+    const offsets = objects.map((body, i) => {
+      const offset = length;
+      const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, "latin1"), body, Buffer.from("\nendobj\n", "latin1")]);
+      chunks.push(chunk);
+      length += chunk.length;
+      return offset;
+    });
+    const trailer =
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+      offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("") +
+      `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${length}\n%%EOF\n`;
+    chunks.push(Buffer.from(trailer, "latin1"));
+    return Buffer.concat(chunks);
+  }
+}
+
+// A titled table on landscape pages
+export function renderTablePdf(table: PdfTable): Buffer {
+  const pdf = new PdfDocument({ landscape: true });
+  pdf.text(table.title, { size: 14, bold: true });
+  if (table.subtitle) pdf.text(table.subtitle, { size: 9 });
+  pdf.gap(8);
+  pdf.table(table.columns, table.rows);
+  return pdf.render();
+}
@@ -0,0 +1,48 @@
+// Points
+// What earns points and how many. Every award is an entry in the points ledger, keyed by the
+// lift, job or badge it was for, so replaying an event can't count it twice and a user's total
+// can always be explained entry by entry. Leaderboards rank users by their ledger totals.
+
+import type { Job, LiftBooking, PointsLedgerEntry } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { timeliness } from "./user-metrics";
+
+export type PointsReason =
+  | "lift-driven"
+  | "lift-ridden"
+  | "job-completed"
+  | "on-time-delivery"
+  | "badge-earned"
+  | "opening-balance"; // Points held before the ledger existed
+
+export const POINTS: Record<Exclude<PointsReason, "opening-balance">, number> = {
+  "lift-driven": 50,
+  "lift-ridden": 20,
+  "job-completed": 20,
+  "on-time-delivery": 10,
+  "badge-earned": 100,
+};
+
+// Both sides of a completed lift; the driver gets more for giving it
+export async function awardLiftPoints(storage: IStorage, booking: LiftBooking, driverId: string): Promise<PointsLedgerEntry[]> {
+  if (booking.status !== "completed") return [];
+  const entries = [
+    await storage.recordPoints({ userId: driverId, points: POINTS["lift-driven"], reason: "lift-driven", sourceId: booking.id }),
+    await storage.recordPoints({ userId: booking.passengerId, points: POINTS["lift-ridden"], reason: "lift-ridden", sourceId: booking.id }),
+  ];
+  return entries.filter((entry): entry is PointsLedgerEntry => !!entry);
+}
+
+// A delivered job, with a bonus when it was checked out on time
+export async function awardJobPoints(storage: IStorage, userId: string, job: Job): Promise<PointsLedgerEntry[]> {
+  if (job.status !== "completed" || !job.actualEndTime) return [];
+  const entries = [await storage.recordPoints({ userId, points: POINTS["job-completed"], reason: "job-completed", sourceId: job.id })];
+  if (timeliness(job.estimatedEndTime, job.actualEndTime) === 1) {
+    entries.push(await storage.recordPoints({ userId, points: POINTS["on-time-delivery"], reason: "on-time-delivery", sourceId: job.id }));
+  }
+  return entries.filter((entry): entry is PointsLedgerEntry => !!entry);
+}
+
+export async function awardBadgePoints(storage: IStorage, userId: string, badgeId: string): Promise<PointsLedgerEntry | undefined> {
+  return storage.recordPoints({ userId, points: POINTS["badge-earned"], reason: "badge-earned", sourceId: badgeId });
+}
@@ -0,0 +1,96 @@
+// Rating Integrity
+// Ratings are tied to lift bookings: only the driver and passenger of a completed booking can
+// rate, each rates the other once, and only within RATING_WINDOW_DAYS of the lift finishing. A
+// user who believes a rating was retaliatory can dispute it once; a moderator then upholds it or
+// removes it, and removed ratings stop counting towards averages, reputation and badges.
+
+import type { InsertRating, LiftBooking, LiftOffer, Rating, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export const RATING_WINDOW_DAYS = 14;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const MODERATOR_ROLES = ["moderator", "admin"];
+
+// Carries the HTTP status the routes answer with
+export class RatingError extends Error {
+  constructor(message: string, readonly status: 403 | 404 | 409) {
+    super(message);
+    this.name = "RatingError";
+  }
+}
+
+// Star scores and comment; who and what is being rated comes from the booking
+export type RatingDetails = Omit<InsertRating, "raterId" | "ratedUserId" | "liftType" | "liftId">;
+
+// The other person on the booking, and which side of the lift they were on
+export function ratingSubject(
+  booking: LiftBooking,
+  offer: LiftOffer,
+  raterId: string,
+  now: Date = new Date(),
+): Pick<InsertRating, "ratedUserId" | "liftType" | "liftId"> {
+  const isDriver = raterId === offer.driverId;
+  if (!isDriver && raterId !== booking.passengerId) {
+    throw new RatingError("Only the driver and passenger of a lift can rate it", 403);
+  }
+  if (booking.status !== "completed" || !booking.completedAt) {
+    throw new RatingError("Lifts can only be rated once they're completed", 409);
+  }
+  const closesAt = new Date(booking.completedAt.getTime() + RATING_WINDOW_DAYS * MS_PER_DAY);
+  if (now > closesAt) {
+    throw new RatingError(`Ratings for this lift closed on ${closesAt.toISOString().slice(0, 10)}`, 409);
+  }
+  return isDriver
+    ? { ratedUserId: booking.passengerId, liftType: "request", liftId: booking.id }
+    : { ratedUserId: offer.driverId, liftType: "offer", liftId: booking.id };
+}
+
+export async function rateLift(
+  storage: IStorage,
+  raterId: string,
+  bookingId: string,
+  details: RatingDetails,
+  now: Date = new Date(),
+): Promise<Rating> {
+  const booking = await storage.getLiftBooking(bookingId);
+  const offer = booking && await storage.getLiftOffer(booking.offerId);
+  if (!booking || !offer) throw new RatingError("Lift booking not found", 404);
+
+  const subject = ratingSubject(booking, offer, raterId, now);
+  // Vehicle condition is about the driver's car, so it only applies when rating the driver
+  const scores = subject.liftType === "offer" ? details : { ...details, vehicleCondition: undefined };
+  if (await storage.getRatingForLift(raterId, booking.id)) {
+    throw new RatingError("You've already rated this lift", 409);
+  }
+  const rating = await storage.createRating({ ...scores, ...subject, raterId });
+  // Another request from the same rater got there first
+  if (!rating) throw new RatingError("You've already rated this lift", 409);
+  return rating;
+}
+
+export async function disputeRating(storage: IStorage, userId: string, ratingId: string, reason: string): Promise<Rating> {
+  const rating = await storage.getRating(ratingId);
+  if (!rating) throw new RatingError("Rating not found", 404);
+  if (rating.ratedUserId !== userId) throw new RatingError("Only the person rated can dispute a rating", 403);
+
+  const disputed = await storage.disputeRating(ratingId, reason);
+  if (!disputed) throw new RatingError("This rating has already been disputed", 409);
+  return disputed;
+}
+
+export async function resolveRatingDispute(
+  storage: IStorage,
+  moderator: User,
+  ratingId: string,
+  outcome: "upheld" | "removed",
+  notes?: string,
+): Promise<Rating> {
+  if (!MODERATOR_ROLES.includes(moderator.role)) throw new RatingError("Only moderators can decide disputes", 403);
+  const rating = await storage.getRating(ratingId);
+  if (!rating) throw new RatingError("Rating not found", 404);
+
+  const resolved = await storage.resolveRatingDispute(ratingId, outcome, moderator.id, notes);
+  if (!resolved) throw new RatingError("This rating isn't awaiting a decision", 409);
+  return resolved;
+}
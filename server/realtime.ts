@@ -0,0 +1,301 @@
+// Realtime Hub
+// Owns the /ws WebSocket server. Upgrades are authenticated with the same express-session
+// cookie (dn.sid) as the REST API and rejected with 401 when there's no signed-in user, or 403
+// when their account is suspended or banned.
+// Private notifications are sent to one user's sockets; shared events (check-ins in a region,
+// seat changes on a lift offer) are published to topics that sockets subscribe to. Events about
+// a user never reach the users on either side of a block with them.
+// Incoming messages follow the protocol in @shared/realtime: location fixes update the live
+// position store and are republished to their region, each connection is rate limited.
+
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import {
+  PROTOCOL_VERSION,
+  clientEnvelopeSchema,
+  clientMessageSchema,
+  regionTopic,
+  type ClientMessage,
+  type DriverPositionMessage,
+  type ErrorCode,
+  type LocationMessage,
+  type ServerMessage,
+} from "@shared/realtime";
+import { livePositions, type LivePositionStore } from "./live-positions";
+import { accountRestriction, hiddenUserIds } from "./moderation";
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+const MAX_TOPICS_PER_SOCKET = 50;
+
+// Any message: bursts of 20, then 5 per second
+const MESSAGE_RATE = { capacity: 20, perSecond: 5 };
+// Location fixes: bursts of 3, then one per second
+const LOCATION_RATE = { capacity: 3, perSecond: 1 };
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private capacity: number, private perSecond: number) {
+    this.tokens = capacity;
+  }
+
+  // Takes a token, or returns how many ms until one is available
+  take(now: number = Date.now()): { ok: true } | { ok: false; retryAfterMs: number } {
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.perSecond);
+    this.updatedAt = now;
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return { ok: true };
+    }
+    return { ok: false, retryAfterMs: Math.ceil(((1 - this.tokens) / this.perSecond) * 1000) };
+  }
+}
+
+interface Connection {
+  userId: string;
+  sessionId: string;
+  topics: Set<string>;
+  messages: TokenBucket;
+  locations: TokenBucket;
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string) {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// Run the session middleware against the upgrade request to load req.session
+function loadSession(req: IncomingMessage, sessionMiddleware: RequestHandler): Promise<Request> {
+  return new Promise((resolve, reject) => {
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, (err?: unknown) => (err ? reject(err) : resolve(request)));
+  });
+}
+
+export class RealtimeHub {
+  private wss: WebSocketServer | null = null;
+  private connections = new Map<WebSocket, Connection>();
+  private socketsByUser = new Map<string, Set<WebSocket>>();
+  private socketsByTopic = new Map<string, Set<WebSocket>>();
+
+  constructor(
+    private positions: LivePositionStore = livePositions,
+    private storage: IStorage = defaultStorage,
+  ) {}
+
+  attach(server: Server, sessionMiddleware: RequestHandler, path = "/ws"): WebSocketServer {
+    const wss = new WebSocketServer({ noServer: true });
+    this.wss = wss;
+
+    server.on("upgrade", async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      // Other upgrade listeners (Vite HMR) handle their own paths
+      if (new URL(req.url || "/", "http://localhost").pathname !== path) return;
+
+      try {
+        const request = await loadSession(req, sessionMiddleware);
+        const userId = request.session?.userId;
+        if (!userId) return rejectUpgrade(socket, 401, "Unauthorized");
+        const user = await this.storage.getUser(userId);
+        if (user && accountRestriction(user)) return rejectUpgrade(socket, 403, "Forbidden");
+
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          this.register(ws, userId, request.sessionID);
+          wss.emit("connection", ws, req);
+        });
+      } catch (error) {
+        console.error("WebSocket upgrade error:", error);
+        rejectUpgrade(socket, 500, "Internal Server Error");
+      }
+    });
+
+    return wss;
+  }
+
+  private register(ws: WebSocket, userId: string, sessionId: string) {
+    this.connections.set(ws, {
+      userId,
+      sessionId,
+      topics: new Set(),
+      messages: new TokenBucket(MESSAGE_RATE.capacity, MESSAGE_RATE.perSecond),
+      locations: new TokenBucket(LOCATION_RATE.capacity, LOCATION_RATE.perSecond),
+    });
+    if (!this.socketsByUser.has(userId)) this.socketsByUser.set(userId, new Set());
+    this.socketsByUser.get(userId)!.add(ws);
+
+    ws.on("message", (data) => this.handleMessage(ws, data.toString()));
+    ws.on("close", () => this.unregister(ws));
+    ws.on("error", (error) => console.error("WebSocket error:", error));
+  }
+
+  private unregister(ws: WebSocket) {
+    const connection = this.connections.get(ws);
+    if (!connection) return;
+
+    for (const topic of Array.from(connection.topics)) this.unsubscribe(ws, topic);
+    const sockets = this.socketsByUser.get(connection.userId);
+    sockets?.delete(ws);
+    if (sockets?.size === 0) this.socketsByUser.delete(connection.userId);
+    this.connections.delete(ws);
+  }
+
+  private handleMessage(ws: WebSocket, raw: string) {
+    const connection = this.connections.get(ws);
+    if (!connection) return;
+
+    const allowed = connection.messages.take();
+    if (!allowed.ok) {
+      return this.sendError(ws, undefined, "rate-limited", "Too many messages", allowed.retryAfterMs);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      return this.sendError(ws, undefined, "invalid-json", "Message is not valid JSON");
+    }
+
+    const result = clientMessageSchema.safeParse(data);
+    if (!result.success) {
+      const envelope = clientEnvelopeSchema.safeParse(data);
+      return this.sendError(ws, envelope.success ? envelope.data.id : undefined, "invalid-message", result.error.issues[0]?.message ?? "Invalid message");
+    }
+
+    const message = result.data;
+    if (message.v !== undefined && message.v !== PROTOCOL_VERSION) {
+      return this.sendError(ws, message.id, "unsupported-version", `Protocol version ${message.v} is not supported (server speaks ${PROTOCOL_VERSION})`);
+    }
+
+    switch (message.type) {
+      case "ping":
+        return this.reply(ws, { type: "pong", v: PROTOCOL_VERSION, id: message.id, serverTime: new Date().toISOString() });
+      case "subscribe":
+        if (!this.subscribe(ws, message.topic)) {
+          return this.sendError(ws, message.id, "too-many-topics", `Too many topics (max ${MAX_TOPICS_PER_SOCKET})`);
+        }
+        return this.ack(ws, message);
+      case "unsubscribe":
+        this.unsubscribe(ws, message.topic);
+        return this.ack(ws, message);
+      case "location":
+        return this.handleLocation(ws, connection, message);
+    }
+  }
+
+  private handleLocation(ws: WebSocket, connection: Connection, message: LocationMessage) {
+    const allowed = connection.locations.take();
+    if (!allowed.ok) {
+      return this.sendError(ws, message.id, "rate-limited", "Location updates are limited to one per second", allowed.retryAfterMs);
+    }
+
+    const { type: _type, v: _v, id: _id, ...fix } = message;
+    const position = this.positions.update(connection.userId, fix);
+    const update: DriverPositionMessage = {
+      type: "driver-position",
+      driverId: position.userId,
+      lat: position.lat,
+      lng: position.lng,
+      speedKph: position.speedKph,
+      bearingDeg: position.bearingDeg,
+      timestamp: position.updatedAt,
+    };
+    this.ack(ws, message);
+    this.publishFrom(connection.userId, regionTopic(position.lat, position.lng), update).catch((error) => {
+      console.error("Realtime publish error:", error);
+    });
+  }
+
+  private ack(ws: WebSocket, message: ClientMessage) {
+    this.reply(ws, { type: "ack", v: PROTOCOL_VERSION, id: message.id, of: message.type });
+  }
+
+  private sendError(ws: WebSocket, id: string | undefined, code: ErrorCode, message: string, retryAfterMs?: number) {
+    this.reply(ws, { type: "error", v: PROTOCOL_VERSION, id, code, message, retryAfterMs });
+  }
+
+  private reply(ws: WebSocket, message: ServerMessage) {
+    this.send(ws, message);
+  }
+
+  private subscribe(ws: WebSocket, topic: string): boolean {
+    const connection = this.connections.get(ws);
+    if (!connection) return false;
+    if (connection.topics.has(topic)) return true;
+    if (connection.topics.size >= MAX_TOPICS_PER_SOCKET) return false;
+
+    connection.topics.add(topic);
+    if (!this.socketsByTopic.has(topic)) this.socketsByTopic.set(topic, new Set());
+    this.socketsByTopic.get(topic)!.add(ws);
+    return true;
+  }
+
+  private unsubscribe(ws: WebSocket, topic: string) {
+    this.connections.get(ws)?.topics.delete(topic);
+    const sockets = this.socketsByTopic.get(topic);
+    sockets?.delete(ws);
+    if (sockets?.size === 0) this.socketsByTopic.delete(topic);
+  }
+
+  private send(ws: WebSocket, payload: unknown): boolean {
+    if (ws.readyState !== WebSocket.OPEN) return false;
+    ws.send(typeof payload === "string" ? payload : JSON.stringify(payload));
+    return true;
+  }
+
+  private sendAll(sockets: Iterable<WebSocket>, payload: unknown): number {
+    const message = JSON.stringify(payload);
+    let delivered = 0;
+    for (const ws of Array.from(sockets)) {
+      if (this.send(ws, message)) delivered++;
+    }
+    return delivered;
+  }
+
+  // Deliver to every open socket of one user; returns the number of sockets reached
+  sendToUser(userId: string, payload: unknown): number {
+    return this.sendAll(this.socketsByUser.get(userId) ?? [], payload);
+  }
+
+  sendToUsers(userIds: Iterable<string>, payload: unknown): number {
+    const sockets = new Set<WebSocket>();
+    for (const userId of Array.from(userIds)) {
+      this.socketsByUser.get(userId)?.forEach((ws) => sockets.add(ws));
+    }
+    return this.sendAll(sockets, payload);
+  }
+
+  // Deliver to every socket subscribed to a topic (see @shared/realtime for topic names)
+  publish(topic: string, payload: unknown): number {
+    return this.sendAll(this.socketsByTopic.get(topic) ?? [], payload);
+  }
+
+  // Publish an event about one user (their position, a check-in), skipping subscribers on either
+  // side of a block with them
+  async publishFrom(userId: string, topic: string, payload: unknown): Promise<number> {
+    const hidden = await hiddenUserIds(this.storage, userId);
+    const sockets = Array.from(this.socketsByTopic.get(topic) ?? []);
+    return this.sendAll(sockets.filter((ws) => !hidden.has(this.connections.get(ws)!.userId)), payload);
+  }
+
+  // Close the sockets opened with a session, e.g. when it is logged out
+  closeSession(sessionId: string) {
+    for (const [ws, connection] of Array.from(this.connections)) {
+      if (connection.sessionId === sessionId) ws.close(4001, "Session ended");
+    }
+  }
+
+  // Close every socket a user has open, e.g. when a moderator suspends or bans them
+  closeUser(userId: string, reason = "Account restricted") {
+    this.socketsByUser.get(userId)?.forEach((ws) => ws.close(4003, reason));
+  }
+
+  close() {
+    this.connections.forEach((_, ws) => ws.terminate());
+    this.wss?.close();
+    this.wss = null;
+  }
+}
+
+export const realtime = new RealtimeHub();
@@ -0,0 +1,186 @@
+// Recurrence Rules
+// A subset of iCalendar RRULE (RFC 5545) that covers how drivers repeat journeys:
+//   FREQ=DAILY|WEEKLY, INTERVAL=n, BYDAY=MO,TU,..., COUNT=n, UNTIL=YYYYMMDD[THHMMSS[Z]]
+// Occurrences keep the start's wall-clock time in UK time (Europe/London, whatever the server's own
+// zone), so a 07:30 commute stays at 07:30 across the clock change.
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY";
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  // 0 = Sunday … 6 = Saturday, as Date.getDay()
+  byDay?: number[];
+  count?: number;
+  until?: Date;
+}
+
+// The UK calendar date and time of day at an instant; month is 1–12 and weekday as Date.getDay()
+export interface WallClockTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number;
+}
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecurrenceRuleError";
+  }
+}
+
+const DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+// Expansion walks day by day from the start; templates older than this stop generating
+const MAX_SCAN_DAYS = 5 * 366;
+
+// Drivers keep UK hours, so dates and times of day are read in this zone
+export const SERVICE_TIME_ZONE = "Europe/London";
+const wallClockFormat = new Intl.DateTimeFormat("en-GB", {
+  timeZone: SERVICE_TIME_ZONE,
+  year: "numeric", month: "numeric", day: "numeric",
+  hour: "numeric", minute: "numeric", second: "numeric", hourCycle: "h23",
+});
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export function wallClock(date: Date): WallClockTime {
+  const parts: Record<string, number> = {};
+  for (const part of wallClockFormat.formatToParts(date)) parts[part.type] = Number(part.value);
+  const { year, month, day, hour, minute, second } = parts;
+  return { year, month, day, hour, minute, second, weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay() };
+}
+
+// The instant a UK wall-clock time happens. Days and months overflow as in the Date constructor;
+// a time skipped by the spring clock change lands an hour later.
+export function fromWallClock(year: number, month: number, day: number, hour = 0, minute = 0, second = 0, ms = 0): Date {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second, ms);
+  const zoneOffset = (at: number) => {
+    const clock = wallClock(new Date(at));
+    return Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second) - Math.floor(at / 1000) * 1000;
+  };
+  const guess = asUtc - zoneOffset(asUtc);
+  return new Date(asUtc - zoneOffset(guess));
+}
+
+// The repeatPattern choices offered in the UI, as rules
+export const REPEAT_PATTERN_RULES: Record<string, string | undefined> = {
+  None: undefined,
+  Weekdays: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+  Weekends: "FREQ=WEEKLY;BYDAY=SA,SU",
+};
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) throw new RecurrenceRuleError(`UNTIL must be YYYYMMDD or YYYYMMDDTHHMMSS, got "${value}"`);
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (!h) return fromWallClock(+y, +mo, +d, 23, 59, 59, 999); // a date means "through that day"
+  return utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+    : fromWallClock(+y, +mo, +d, +h, +mi, +s);
+}
+
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of text.trim().replace(/^RRULE:/i, "").split(";").filter(Boolean)) {
+    const [key, value] = part.split("=");
+    if (!key || !value) throw new RecurrenceRuleError(`Expected KEY=VALUE, got "${part}"`);
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY") {
+    throw new RecurrenceRuleError("FREQ must be DAILY or WEEKLY");
+  }
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  parts.forEach((value, key) => {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = parseInt(value, 10);
+        if (!(rule.interval >= 1) || String(rule.interval) !== value) throw new RecurrenceRuleError("INTERVAL must be a positive whole number");
+        break;
+      case "COUNT":
+        rule.count = parseInt(value, 10);
+        if (!(rule.count >= 1) || String(rule.count) !== value) throw new RecurrenceRuleError("COUNT must be a positive whole number");
+        break;
+      case "UNTIL":
+        rule.until = parseUntil(value);
+        break;
+      case "BYDAY":
+        rule.byDay = value.split(",").map((code) => {
+          const day = DAY_CODES.indexOf(code);
+          if (day < 0) throw new RecurrenceRuleError(`Unknown BYDAY "${code}"`);
+          return day;
+        });
+        break;
+      default:
+        throw new RecurrenceRuleError(`${key} isn't supported`);
+    }
+  });
+
+  if (rule.count !== undefined && rule.until) throw new RecurrenceRuleError("Use COUNT or UNTIL, not both");
+  return rule;
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map((day) => DAY_CODES[day]).join(",")}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, "").slice(0, 15)}Z`);
+  return parts.join(";");
+}
+
+// UK calendar date, the key an occurrence keeps even if its time is edited
+export function localDateKey(date: Date): string {
+  const { year, month, day } = wallClock(date);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// The date key `days` calendar days after (or before) another
+export function shiftDateKey(key: string, days: number): string {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// UK time of day as HH:MM
+export function localTimeOfDay(date: Date): string {
+  const { hour, minute } = wallClock(date);
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+// Occurrences of the rule starting at `start` (the first occurrence when it matches the rule, as
+// DTSTART does) that fall in [from, to). COUNT counts from the start, not from `from`.
+export function expandRecurrence(rule: RecurrenceRule, start: Date, from: Date, to: Date): Date[] {
+  const occurrences: Date[] = [];
+  const clock = wallClock(start);
+  const byDay = rule.byDay?.length ? rule.byDay : [clock.weekday];
+  // Weeks are counted from the Monday of the start's week, as WKST=MO
+  const startWeekday = (clock.weekday + 6) % 7;
+  let counted = 0;
+
+  for (let offset = 0; offset <= MAX_SCAN_DAYS; offset++) {
+    const occurrence = fromWallClock(
+      clock.year, clock.month, clock.day + offset,
+      clock.hour, clock.minute, clock.second, start.getUTCMilliseconds(),
+    );
+    if (occurrence.getTime() >= to.getTime()) break;
+    if (rule.until && occurrence.getTime() > rule.until.getTime()) break;
+
+    const matches = rule.freq === "DAILY"
+      ? offset % rule.interval === 0
+      : Math.floor((offset + startWeekday) / 7) % rule.interval === 0 && byDay.includes((clock.weekday + offset) % 7);
+    if (!matches) continue;
+
+    counted++;
+    if (rule.count !== undefined && counted > rule.count) break;
+    if (occurrence.getTime() >= from.getTime()) occurrences.push(occurrence);
+  }
+  return occurrences;
+}
@@ -0,0 +1,165 @@
+// Recurring Lift Offers
+// Posting a repeating journey creates a template offer (status "recurring") that holds the rule.
+// Dated occurrences are generated from it over a rolling horizon as ordinary offers, marked
+// autoGenerated with a link back to the template, so matching, bookings and the map treat them
+// like any other offer. A single occurrence can be skipped or edited without touching the rest;
+// deleting the template cancels the occurrences that haven't happened yet, and is refused while
+// passengers are booked on any of them. Occurrences are only generated while the driver is verified.
+
+import type { InsertLiftOffer, LiftOffer } from "@shared/schema";
+import type { IStorage } from "./storage";
+import {
+  REPEAT_PATTERN_RULES,
+  RecurrenceRuleError,
+  expandRecurrence,
+  formatRecurrenceRule,
+  localDateKey,
+  parseRecurrenceRule,
+} from "./recurrence";
+
+export const RECURRENCE_HORIZON_DAYS = 14;
+const GENERATION_INTERVAL_MS = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Occurrences in these states are withdrawn when their template goes
+const CANCELLABLE_STATUSES = ["available", "full", "booked"];
+// Bookings that tie an occurrence to a passenger; such occurrences are never withdrawn behind their back
+const ACTIVE_BOOKING_STATUSES = ["requested", "accepted", "picked-up"];
+
+export type OccurrenceListener = (occurrence: LiftOffer) => void | Promise<void>;
+
+// The stored rule for a new offer: an explicit RRULE wins, otherwise the repeat pattern's rule.
+// Undefined for one-off offers.
+export function recurrenceRuleFor(repeatPattern: string | null | undefined, recurrenceRule?: string | null): string | undefined {
+  if (recurrenceRule) return formatRecurrenceRule(parseRecurrenceRule(recurrenceRule));
+  if (repeatPattern === "Custom") {
+    throw new RecurrenceRuleError("Custom repeats need a recurrenceRule, e.g. FREQ=WEEKLY;BYDAY=MO,WE");
+  }
+  return REPEAT_PATTERN_RULES[repeatPattern ?? "None"];
+}
+
+// Copies the template to a new departure, moving its time window by the same amount
+export function occurrenceFromTemplate(
+  template: LiftOffer,
+  departure: Date,
+): InsertLiftOffer & { templateId: string; occurrenceDate: string } {
+  const shift = departure.getTime() - template.departureTime.getTime();
+  const moved = (time: Date | null) => (time ? new Date(time.getTime() + shift) : undefined);
+  return {
+    driverId: template.driverId,
+    fromLocation: template.fromLocation,
+    fromLat: template.fromLat,
+    fromLng: template.fromLng,
+    fromW3W: template.fromW3W,
+    toLocation: template.toLocation,
+    toLat: template.toLat,
+    toLng: template.toLng,
+    toW3W: template.toW3W,
+    departureTime: departure,
+    earliestDepart: moved(template.earliestDepart),
+    latestArrive: moved(template.latestArrive),
+    availableSeats: template.availableSeats,
+    detourKm: template.detourKm,
+    priceType: template.priceType,
+    priceValue: template.priceValue,
+    vehicleType: template.vehicleType,
+    visibility: template.visibility,
+    repeatPattern: template.repeatPattern,
+    autoGenerated: true,
+    status: "available",
+    notes: template.notes,
+    templateId: template.id,
+    occurrenceDate: localDateKey(departure),
+  };
+}
+
+// Creates the template's occurrences departing within the horizon that don't exist yet.
+// Skipped, edited and cancelled occurrences keep their date, so they are never recreated.
+export async function generateOccurrences(
+  storage: IStorage,
+  template: LiftOffer,
+  now: Date = new Date(),
+  onCreated?: OccurrenceListener,
+): Promise<LiftOffer[]> {
+  if (!template.recurrenceRule) return [];
+  if (!(await storage.getUser(template.driverId))?.verified) return [];
+  const rule = parseRecurrenceRule(template.recurrenceRule);
+  const horizon = new Date(now.getTime() + RECURRENCE_HORIZON_DAYS * MS_PER_DAY);
+
+  const created: LiftOffer[] = [];
+  for (const departure of expandRecurrence(rule, template.departureTime, now, horizon)) {
+    const occurrence = await storage.createLiftOfferOccurrence(occurrenceFromTemplate(template, departure));
+    if (!occurrence) continue;
+    created.push(occurrence);
+    await onCreated?.(occurrence);
+  }
+  return created;
+}
+
+// Tops up every template; one bad template doesn't stop the others
+export async function generateAllOccurrences(
+  storage: IStorage,
+  now: Date = new Date(),
+  onCreated?: OccurrenceListener,
+): Promise<LiftOffer[]> {
+  const created: LiftOffer[] = [];
+  for (const template of await storage.getRecurringLiftOfferTemplates()) {
+    try {
+      created.push(...await generateOccurrences(storage, template, now, onCreated));
+    } catch (error) {
+      console.error(`Recurring offer ${template.id} generation error:`, error);
+    }
+  }
+  return created;
+}
+
+// The template's occurrences that haven't departed and still have passengers booked on them
+export async function bookedFutureOccurrences(
+  storage: IStorage,
+  templateId: string,
+  now: Date = new Date(),
+): Promise<LiftOffer[]> {
+  const booked: LiftOffer[] = [];
+  for (const occurrence of await storage.getLiftOfferOccurrences(templateId)) {
+    if (occurrence.departureTime.getTime() <= now.getTime()) continue;
+    const bookings = await storage.getLiftBookingsByOfferId(occurrence.id);
+    if (bookings.some((b) => ACTIVE_BOOKING_STATUSES.includes(b.status))) booked.push(occurrence);
+  }
+  return booked;
+}
+
+// Withdraws the template's occurrences that haven't departed; past ones are left as history, and
+// booked ones stay until the driver deals with their passengers.
+// Used when the template is deleted and when its driver loses verification.
+export async function cancelFutureOccurrences(
+  storage: IStorage,
+  templateId: string,
+  now: Date = new Date(),
+): Promise<LiftOffer[]> {
+  const booked = new Set((await bookedFutureOccurrences(storage, templateId, now)).map((o) => o.id));
+  const cancelled: LiftOffer[] = [];
+  for (const occurrence of await storage.getLiftOfferOccurrences(templateId)) {
+    if (occurrence.departureTime.getTime() <= now.getTime()) continue;
+    if (!CANCELLABLE_STATUSES.includes(occurrence.status) || booked.has(occurrence.id)) continue;
+    const updated = await storage.updateLiftOfferStatus(occurrence.id, "cancelled");
+    if (updated) cancelled.push(updated);
+  }
+  return cancelled;
+}
+
+// Keeps the rolling horizon filled while the server runs; returns a stop function
+export function startRecurringOfferGeneration(
+  storage: IStorage,
+  onCreated?: OccurrenceListener,
+  intervalMs: number = GENERATION_INTERVAL_MS,
+): () => void {
+  const run = () => {
+    generateAllOccurrences(storage, new Date(), onCreated).catch((error) => {
+      console.error("Recurring offer generation error:", error);
+    });
+  };
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,280 @@
+// Route Planner
+// Orders a trade-plate driver's jobs (legs) under time windows. Each leg is a pickup, a
+// mandatory vehicle inspection, a drive to the dropoff and an optional handover. Between a
+// dropoff and the next pickup the driver has no vehicle, so they reposition on foot, by lift
+// or by public transport, which is slower than driving.
+// The order is built by cheapest insertion and improved with 2-opt and or-opt moves; legs that
+// still miss their windows are reported with reasons, and the plan is compared with the order
+// the legs were given in.
+
+import { haversineMiles, estimateMinutes, type Coordinates } from "./ai-routing-utils";
+import { INSPECTION_TIME_MINUTES } from "@shared/speed-model";
+
+export const DEFAULT_INSPECTION_MINUTES = INSPECTION_TIME_MINUTES;
+// Minutes late are weighted far above anything else, so a feasible order always wins
+const LATENESS_WEIGHT = 1000;
+const MAX_IMPROVEMENT_ROUNDS = 50;
+const OR_OPT_CHAIN = 3;
+
+export type RepositionMode = "lift" | "foot" | "transit";
+
+// Speeds and fixed overheads (waiting for the lift or the next train) between jobs
+const REPOSITION: Record<RepositionMode, { label: string; mph?: number; overheadMinutes: number }> = {
+  lift: { label: "by lift", overheadMinutes: 15 },
+  foot: { label: "on foot", mph: 3, overheadMinutes: 0 },
+  transit: { label: "by public transport", mph: 20, overheadMinutes: 10 },
+};
+
+export interface PlannerLeg {
+  leg_id: string;
+  pickup: Coordinates;
+  dropoff: Coordinates;
+  earliestPickup?: Date;
+  latestPickup?: Date;
+  latestDropoff?: Date;
+  serviceMinutes?: number; // Inspection at pickup, defaults to 45
+  dropoffServiceMinutes?: number; // Handover at dropoff
+  notes?: string;
+}
+
+export interface PlannerOptions {
+  start: Coordinates;
+  startTime: Date;
+  reposition?: RepositionMode;
+}
+
+export interface LegSchedule {
+  leg: PlannerLeg;
+  repositionMiles: number;
+  repositionMinutes: number;
+  arrival: Date;
+  waitMinutes: number;
+  inspectionStart: Date;
+  inspectionEnd: Date;
+  dropoff: Date;
+  driveMiles: number;
+  driveMinutes: number;
+  departure: Date; // After the dropoff handover
+  lateMinutes: number;
+}
+
+export interface RouteSimulation {
+  legs: LegSchedule[];
+  finish: Date;
+  totalMinutes: number;
+  driveMiles: number;
+  repositionMiles: number;
+  lateMinutes: number;
+  cost: number;
+}
+
+export interface InfeasibleLeg {
+  leg_id: string;
+  reasons: string[];
+}
+
+export interface RoutePlanResult {
+  order: PlannerLeg[];
+  plan: RouteSimulation;
+  original: RouteSimulation;
+  infeasible: InfeasibleLeg[];
+}
+
+const MINUTE_MS = 60 * 1000;
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * MINUTE_MS);
+}
+
+function minutesBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / MINUTE_MS;
+}
+
+function formatTime(date: Date): string {
+  return date.toISOString().slice(11, 16);
+}
+
+export function repositionMinutes(miles: number, mode: RepositionMode, when: Date): number {
+  if (miles === 0) return 0;
+  const { mph, overheadMinutes } = REPOSITION[mode];
+  const travel = mph ? (miles / mph) * 60 : estimateMinutes(miles, when.toISOString());
+  return Math.round(travel + overheadMinutes);
+}
+
+// Walk an order from the start, waiting for windows to open and recording lateness
+export function simulateRoute(order: PlannerLeg[], options: PlannerOptions): RouteSimulation {
+  const mode = options.reposition ?? "lift";
+  let cursor = options.start;
+  let clock = options.startTime;
+  let driveMiles = 0;
+  let repositionMiles = 0;
+  let lateMinutes = 0;
+  const legs: LegSchedule[] = [];
+
+  for (const leg of order) {
+    const toPickupMiles = haversineMiles(cursor, leg.pickup);
+    const toPickupMinutes = repositionMinutes(toPickupMiles, mode, clock);
+    const arrival = addMinutes(clock, toPickupMinutes);
+    const inspectionStart = leg.earliestPickup && leg.earliestPickup > arrival ? leg.earliestPickup : arrival;
+    const inspectionEnd = addMinutes(inspectionStart, leg.serviceMinutes ?? DEFAULT_INSPECTION_MINUTES);
+
+    const legMiles = haversineMiles(leg.pickup, leg.dropoff);
+    const legMinutes = estimateMinutes(legMiles, inspectionEnd.toISOString());
+    const dropoff = addMinutes(inspectionEnd, legMinutes);
+    const departure = addMinutes(dropoff, leg.dropoffServiceMinutes ?? 0);
+
+    let late = 0;
+    if (leg.latestPickup) late += Math.max(0, minutesBetween(leg.latestPickup, inspectionStart));
+    if (leg.latestDropoff) late += Math.max(0, minutesBetween(leg.latestDropoff, dropoff));
+
+    legs.push({
+      leg,
+      repositionMiles: toPickupMiles,
+      repositionMinutes: toPickupMinutes,
+      arrival,
+      waitMinutes: minutesBetween(arrival, inspectionStart),
+      inspectionStart,
+      inspectionEnd,
+      dropoff,
+      driveMiles: legMiles,
+      driveMinutes: legMinutes,
+      departure,
+      lateMinutes: Math.round(late),
+    });
+
+    driveMiles += legMiles;
+    repositionMiles += toPickupMiles;
+    lateMinutes += late;
+    cursor = leg.dropoff;
+    clock = departure;
+  }
+
+  const totalMinutes = minutesBetween(options.startTime, clock);
+  return {
+    legs,
+    finish: clock,
+    totalMinutes: Math.round(totalMinutes),
+    driveMiles,
+    repositionMiles,
+    lateMinutes: Math.round(lateMinutes),
+    // Lateness first, then finish time, then miles as a tie-break
+    cost: lateMinutes * LATENESS_WEIGHT + totalMinutes + (driveMiles + repositionMiles) / 100,
+  };
+}
+
+// Cheapest insertion: repeatedly place the leg whose best position adds the least cost
+function insertionOrder(legs: PlannerLeg[], options: PlannerOptions): PlannerLeg[] {
+  const order: PlannerLeg[] = [];
+  const remaining = [...legs];
+
+  while (remaining.length > 0) {
+    let best: { index: number; position: number; cost: number } | null = null;
+    remaining.forEach((leg, index) => {
+      for (let position = 0; position <= order.length; position++) {
+        const candidate = [...order.slice(0, position), leg, ...order.slice(position)];
+        const cost = simulateRoute(candidate, options).cost;
+        if (!best || cost < best.cost) best = { index, position, cost };
+      }
+    });
+    const { index, position } = best!;
+    order.splice(position, 0, remaining.splice(index, 1)[0]);
+  }
+  return order;
+}
+
+function twoOptMoves(order: PlannerLeg[]): PlannerLeg[][] {
+  const moves: PlannerLeg[][] = [];
+  for (let i = 0; i < order.length - 1; i++) {
+    for (let j = i + 1; j < order.length; j++) {
+      moves.push([...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)]);
+    }
+  }
+  return moves;
+}
+
+// Move a chain of 1-3 consecutive legs to every other position
+function orOptMoves(order: PlannerLeg[]): PlannerLeg[][] {
+  const moves: PlannerLeg[][] = [];
+  for (let length = 1; length <= Math.min(OR_OPT_CHAIN, order.length - 1); length++) {
+    for (let from = 0; from + length <= order.length; from++) {
+      const chain = order.slice(from, from + length);
+      const rest = [...order.slice(0, from), ...order.slice(from + length)];
+      for (let to = 0; to <= rest.length; to++) {
+        if (to === from) continue;
+        moves.push([...rest.slice(0, to), ...chain, ...rest.slice(to)]);
+      }
+    }
+  }
+  return moves;
+}
+
+// First-improvement local search until neither neighbourhood helps
+function improveOrder(order: PlannerLeg[], options: PlannerOptions): PlannerLeg[] {
+  let current = order;
+  let currentCost = simulateRoute(current, options).cost;
+
+  for (let round = 0; round < MAX_IMPROVEMENT_ROUNDS; round++) {
+    let improved = false;
+    for (const candidate of [...twoOptMoves(current), ...orOptMoves(current)]) {
+      const cost = simulateRoute(candidate, options).cost;
+      if (cost < currentCost - 1e-6) {
+        current = candidate;
+        currentCost = cost;
+        improved = true;
+        break;
+      }
+    }
+    if (!improved) break;
+  }
+  return current;
+}
+
+// Why a leg misses its window: on its own from the start, or only because of the legs before it
+function explainLeg(schedule: LegSchedule, options: PlannerOptions, previous: LegSchedule | undefined): string[] {
+  const { leg } = schedule;
+  const reasons: string[] = [];
+  const alone = simulateRoute([leg], options).legs[0];
+  const mode = REPOSITION[options.reposition ?? "lift"].label;
+
+  if (leg.latestPickup && schedule.inspectionStart > leg.latestPickup) {
+    const late = Math.round(minutesBetween(leg.latestPickup, schedule.inspectionStart));
+    if (alone.inspectionStart > leg.latestPickup) {
+      reasons.push(`Can't reach the pickup by ${formatTime(leg.latestPickup)} even as the first job: ${alone.repositionMinutes} min ${mode} from the start`);
+    } else {
+      reasons.push(`Earliest pickup ${formatTime(schedule.inspectionStart)} is ${late} min after the window closes at ${formatTime(leg.latestPickup)}` +
+        (previous ? `, after ${previous.repositionMinutes + previous.driveMinutes} min on the previous job and ${schedule.repositionMinutes} min ${mode}` : ""));
+    }
+  }
+
+  if (leg.latestDropoff && schedule.dropoff > leg.latestDropoff) {
+    const late = Math.round(minutesBetween(leg.latestDropoff, schedule.dropoff));
+    const service = leg.serviceMinutes ?? DEFAULT_INSPECTION_MINUTES;
+    if (leg.earliestPickup && addMinutes(leg.earliestPickup, service + alone.driveMinutes) > leg.latestDropoff) {
+      reasons.push(`The ${service} min inspection and ${alone.driveMinutes} min drive can't finish by ${formatTime(leg.latestDropoff)} after a ${formatTime(leg.earliestPickup)} pickup`);
+    } else {
+      reasons.push(`Dropoff at ${formatTime(schedule.dropoff)} is ${late} min after the ${formatTime(leg.latestDropoff)} deadline`);
+    }
+  }
+
+  return reasons;
+}
+
+export function planRoute(legs: PlannerLeg[], options: PlannerOptions, optimize = true): RoutePlanResult {
+  const original = simulateRoute(legs, options);
+  const order = optimize ? improveOrder(insertionOrder(legs, options), options) : legs;
+  let plan = simulateRoute(order, options);
+
+  // Never return something worse than the order we were given
+  let finalOrder = order;
+  if (optimize && original.cost < plan.cost) {
+    finalOrder = legs;
+    plan = original;
+  }
+
+  const infeasible = plan.legs
+    .map((schedule, i) => ({ schedule, previous: plan.legs[i - 1] }))
+    .filter(({ schedule }) => schedule.lateMinutes > 0)
+    .map(({ schedule, previous }) => ({ leg_id: schedule.leg.leg_id, reasons: explainLeg(schedule, options, previous) }));
+
+  return { order: finalOrder, plan, original, infeasible };
+}
@@ -1,39 +1,229 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
+import { realtime } from "./realtime";
+import { livePositions } from "./live-positions";
+import { loadDensityData, predictDensity } from "./driver-density";
+import { regionTopic, liftOfferTopic } from "@shared/realtime";
 import { 
   insertScheduleSchema, 
   insertJobSchema, 
   insertLiftOfferSchema, 
   insertLiftRequestSchema,
+  insertLiftBookingSchema,
   insertMessageSchema,
   insertRatingSchema,
   updateUserProfileSchema,
   insertCheckInSchema,
   insertLoaderSpaceSchema,
+  type Job,
+  type LiftBooking,
+  type LiftOffer,
+  type Schedule,
 } from "@shared/schema";
 import { z } from "zod";
 import {
   haversineMiles,
-  estimateMinutes,
-  orderLegs,
   encodePolyline,
   decodePolyline,
-  pointNearPolyline,
-  bearingDeg,
-  angleDiffDeg,
-  seededRand,
   type Coordinates,
   type RouteLeg
 } from "./ai-routing-utils";
+import { scoreLiftMatch, rankMatches } from "./lift-matching";
+import { planRoute, DEFAULT_INSPECTION_MINUTES, type PlannerLeg } from "./route-planner";
+import { routing, RoutingError } from "./routing-provider";
+import { geocoder } from "./gazetteer";
+import {
+  resolveThreeWordAddresses,
+  ThreeWordAddressError,
+  CHECK_IN_W3W_FIELDS,
+  LIFT_W3W_FIELDS,
+  LOADER_SPACE_W3W_FIELDS,
+} from "./what3words";
+import { INSPECTION_TIME_MINUTES } from "@shared/speed-model";
+import { subscribeLiftOffer, subscribeLiftRequest, type LiftMatchNotification } from "./match-subscriptions";
+import { RecurrenceRuleError } from "./recurrence";
+import { syncScheduleLifts, withdrawJobLifts, type ScheduleLiftHooks } from "./schedule-lifts";
+import { checkJobFeasibility, type FeasibilityJob } from "./schedule-feasibility";
+import { refreshUserMetrics, startUserMetricsJob } from "./user-metrics";
+import { badgeProgress } from "./badge-engine";
+import { awardJobPoints, awardLiftPoints } from "./points";
+import { disputeRating, MODERATOR_ROLES, rateLift, RatingError, resolveRatingDispute } from "./ratings";
+import { hiddenUserIds } from "./moderation";
+import { requireAuth } from "./middleware/requireAuth";
+import { requireAdmin } from "./middleware/requireAdmin";
+import { requireVerified } from "./middleware/requireVerified";
+import { syncJobLogEntry } from "./trade-plate-log";
+import { IDEMPOTENCY_KEY_HEADER } from "./idempotency";
+import { InspectionError, discardInspection, recordInspection, type InspectionInput } from "./vehicle-inspections";
+import { blobStore } from "./blob-store";
+import { DAMAGE_SEVERITIES, DAMAGE_TYPES, DIAGRAM_VIEWS, FUEL_EIGHTHS } from "@shared/inspections";
+import { getLeaderboard, MAX_PAGE_SIZE } from "./leaderboards";
+import { LEADERBOARD_PERIODS, LEADERBOARD_TIERS } from "@shared/leaderboards";
+import {
+  calendarFeedToken,
+  importScheduleJobs,
+  jobsToIcs,
+  userCalendarIcs,
+  verifyCalendarFeedToken,
+  ScheduleImportError,
+} from "./schedule-calendar";
+import {
+  bookedFutureOccurrences,
+  cancelFutureOccurrences,
+  generateOccurrences,
+  recurrenceRuleFor,
+  startRecurringOfferGeneration,
+} from "./recurring-offers";
 
 const updateScheduleSchema = insertScheduleSchema.partial();
 const updateJobSchema = insertJobSchema.partial();
+// A job as the dialogs would save it, plus the job being edited so it isn't checked against itself
+const jobFeasibilitySchema = insertJobSchema.pick({
+  scheduleId: true,
+  fromLocation: true,
+  fromLat: true,
+  fromLng: true,
+  toLocation: true,
+  toLat: true,
+  toLng: true,
+  estimatedStartTime: true,
+  estimatedEndTime: true,
+}).extend({
+  jobId: z.string().optional(),
+});
+// Fields that move a job in time or space; other edits (status, order) skip the feasibility check
+const FEASIBILITY_FIELDS = ["scheduleId", "fromLat", "fromLng", "toLat", "toLng", "estimatedStartTime", "estimatedEndTime"] as const;
+const scheduleImportSchema = z.object({
+  format: z.enum(["ics", "csv"]).optional(),
+  content: z.string().min(1, "The file is empty"),
+  // CSV header for each field, when the file doesn't use the usual names
+  mapping: z.object({
+    from: z.string().optional(),
+    to: z.string().optional(),
+    fromPostcode: z.string().optional(),
+    toPostcode: z.string().optional(),
+    date: z.string().optional(),
+    start: z.string().optional(),
+    end: z.string().optional(),
+  }).optional(),
+});
+// A condition report can come with a check-in (pickup) or check-out (dropoff); photos are base64 JPEGs
+const inspectionSchema = z.object({
+  checklist: z.array(z.object({
+    item: z.string().trim().min(1).max(100),
+    passed: z.boolean(),
+    note: z.string().max(500).optional(),
+  })).max(50).default([]),
+  damage: z.array(z.object({
+    view: z.enum(DIAGRAM_VIEWS),
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    type: z.enum(DAMAGE_TYPES),
+    severity: z.enum(DAMAGE_SEVERITIES).default("minor"),
+    note: z.string().max(500).optional(),
+  })).max(100).default([]),
+  mileage: z.number().int().min(0).max(2_000_000).optional(),
+  fuelLevel: z.number().int().min(0).max(FUEL_EIGHTHS).optional(),
+  notes: z.string().max(2000).optional(),
+  signature: z.object({ name: z.string().trim().min(1).max(100), path: z.string().min(1).max(50_000) }).optional(),
+  photos: z.array(z.object({ content: z.string().min(1), caption: z.string().max(200).optional() })).default([]),
+});
+// A device clock this far ahead is tolerated
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+// How far back a queued request's device time is believed; older replays take the time they arrive
+const RECORDED_AT_WINDOW_MS = 6 * 60 * 60 * 1000;
+// When the user did it on their device, for requests queued offline and sent later
+const recordedAtSchema = z.coerce.date().refine(
+  (date) => date.getTime() <= Date.now() + CLOCK_SKEW_MS,
+  "recordedAt can't be in the future",
+).optional();
 const checkInOutSchema = z.object({
   lat: z.number(),
   lng: z.number(),
+  recordedAt: recordedAtSchema,
+  inspection: inspectionSchema.optional(),
+});
+// The sender is always the session user, never the body
+const createMessageSchema = insertMessageSchema
+  .omit({ senderId: true })
+  .extend({ recordedAt: recordedAtSchema });
+
+// The time a check-in, check-out or message happened: now, unless it's a replay from the offline
+// queue (which sends an Idempotency-Key) recorded within the window, and never before the given
+// earliest time. Storage keeps the time it was received alongside.
+function recordedTime(req: Request, recordedAt: Date | undefined, earliest?: Date | null, now: Date = new Date()): Date {
+  const replayed = req.get(IDEMPOTENCY_KEY_HEADER) !== undefined;
+  const time = replayed && recordedAt && recordedAt < now && now.getTime() - recordedAt.getTime() <= RECORDED_AT_WINDOW_MS
+    ? recordedAt
+    : now;
+  return earliest && time < earliest ? earliest : time;
+}
+
+function inspectionInput({ photos, ...inspection }: z.infer<typeof inspectionSchema>): InspectionInput {
+  return { ...inspection, photos: photos.map(({ content, caption }) => ({ data: Buffer.from(content, "base64"), caption })) };
+}
+// Occurrence and job links are set by the recurrence engine and schedule sync, never by clients
+const createLiftOfferSchema = insertLiftOfferSchema.omit({ templateId: true, occurrenceDate: true, sourceJobId: true });
+const createLiftRequestSchema = insertLiftRequestSchema.omit({ sourceJobId: true });
+// What a driver may change on one offer, including a single occurrence of a recurring one
+const updateLiftOfferSchema = insertLiftOfferSchema.pick({
+  departureTime: true,
+  earliestDepart: true,
+  latestArrive: true,
+  availableSeats: true,
+  detourKm: true,
+  priceType: true,
+  priceValue: true,
+  vehicleType: true,
+  notes: true,
+}).partial();
+// The passenger and the acting user are the session user
+const createLiftBookingSchema = insertLiftBookingSchema.omit({ offerId: true, passengerId: true });
+const liftBookingStatusSchema = z.object({
+  status: z.enum(["accepted", "picked-up", "completed", "cancelled", "no-show"]),
+});
+
+// Booking state machine: which party may move a booking from each status to the next
+const liftBookingTransitions: Record<string, Record<string, "driver" | "passenger" | "either">> = {
+  requested: { accepted: "driver", cancelled: "either" },
+  accepted: { "picked-up": "driver", "no-show": "driver", cancelled: "either" },
+  "picked-up": { completed: "either" },
+};
+const activeLiftBookingStatuses = ["requested", "accepted", "picked-up"];
+// Statuses a driver may set by hand. Seats move an offer between available and full on their own;
+// a driver can close it early or reopen it while seats remain, and cancel or complete it once its bookings allow
+const liftOfferStatusSchema = z.object({
+  status: z.enum(["available", "full", "completed", "cancelled"]),
+});
+const liftOfferTransitions: Record<string, string[]> = {
+  available: ["full", "completed", "cancelled"],
+  full: ["available", "completed", "cancelled"],
+  booked: ["completed", "cancelled"],
+};
+// Bookings whose seats have been taken off the offer's availableSeats
+const seatHoldingLiftBookingStatuses = ["accepted", "picked-up", "completed"];
+
+// The rater is the session user and the rated user comes from the booking, so neither is accepted here
+const createRatingSchema = insertRatingSchema.omit({ raterId: true, ratedUserId: true, liftType: true, liftId: true }).extend({
+  bookingId: z.string().min(1),
+});
+const disputeRatingSchema = z.object({
+  reason: z.string().trim().min(10, "Tell the moderators why the rating is unfair").max(1000),
+});
+const resolveRatingDisputeSchema = z.object({
+  outcome: z.enum(["upheld", "removed"]),
+  notes: z.string().trim().max(1000).optional(),
 });
+const leaderboardQuerySchema = z.object({
+  period: z.enum(LEADERBOARD_PERIODS).default("weekly"),
+  region: z.string().optional(),
+  tier: z.enum(LEADERBOARD_TIERS).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  userId: z.string().optional(),
+});
+
 const findMatchesSchema = z.object({
   lat: z.number().min(-90).max(90),
   lng: z.number().min(-180).max(180),
@@ -55,11 +245,26 @@ const planRouteSchema = z.object({
       lat: z.number().min(-90).max(90),
       lng: z.number().min(-180).max(180)
     }),
+    // Pickup window, plus an optional deadline for delivering the vehicle
+    time_window: z.object({
+      earliest: z.string().datetime().optional(),
+      latest: z.string().datetime().optional()
+    }).optional(),
+    dropoff_by: z.string().datetime().optional(),
+    // Vehicle inspection at pickup, handover at dropoff
+    service_minutes: z.number().int().min(0).max(480).optional().default(DEFAULT_INSPECTION_MINUTES),
+    dropoff_service_minutes: z.number().int().min(0).max(240).optional().default(0),
     notes: z.string().optional()
-  })).min(1),
+  })).min(1).max(25),
   optimize_order: z.boolean().optional().default(true),
   preferences: z.object({
-    start_time: z.string().optional()
+    start_time: z.string().optional(),
+    start_location: z.object({
+      lat: z.number().min(-90).max(90),
+      lng: z.number().min(-180).max(180)
+    }).optional(),
+    // How the driver gets from a dropoff to the next pickup
+    reposition_mode: z.enum(["lift", "foot", "transit"]).optional().default("lift")
   }).optional()
 });
 
@@ -86,7 +291,7 @@ const aiSummarySchema = z.object({
   tone: z.enum(["concise", "friendly"]).optional().default("concise")
 });
 
-export async function registerRoutes(app: Express): Promise<Server> {
+export async function registerRoutes(app: Express, sessionMiddleware: RequestHandler): Promise<Server> {
   // DIAGNOSTIC LOGGER - Log all POST/PUT requests with body
   app.use((req, _res, next) => {
     if (req.method === "POST" || req.method === "PUT") {
@@ -100,10 +305,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ ok: true });
   });
 
-  // POST /api/calculate-journey - Calculate journey time using Mapbox with real-time traffic
-  // NOTE: Requires MAPBOX_API_KEY environment variable (set in Replit Secrets)
-  // Get your free API key at: https://account.mapbox.com/auth/signup/
-  // Free tier: 100K requests/month (typical usage: ~9K/month for 100 drivers)
+  // POST /api/calculate-journey - Calculate journey time via the configured routing providers
+  // Mapbox (MAPBOX_API_KEY, real-time traffic) and OSRM (OSRM_URL) when configured, with the
+  // offline speed model as the fallback, so journeys calculate even with no network
   app.post("/api/calculate-journey", async (req, res) => {
     try {
       const schema = z.object({
@@ -111,63 +315,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fromLng: z.number().min(-180).max(180),
         toLat: z.number().min(-90).max(90),
         toLng: z.number().min(-180).max(180),
+        departureTime: z.string().datetime().optional(),
       });
 
-      const { fromLat, fromLng, toLat, toLng } = schema.parse(req.body);
-      
-      const MAPBOX_API_KEY = process.env.MAPBOX_API_KEY;
-      if (!MAPBOX_API_KEY) {
-        return res.status(500).json({ error: "Mapbox API key not configured" });
-      }
+      const { fromLat, fromLng, toLat, toLng, departureTime } = schema.parse(req.body);
 
-      // Build Mapbox Directions API URL with driving-traffic profile for real-time traffic
-      const coords = `${fromLng},${fromLat};${toLng},${toLat}`;
-      const url = `https://api.mapbox.com/directions/v5/mapbox/driving-traffic/${coords}?access_token=${MAPBOX_API_KEY}&geometries=geojson&overview=full`;
-
-      // Add timeout to prevent hanging requests (15 second timeout)
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 15000);
-      
-      let response;
+      let route;
       try {
-        response = await fetch(url, { signal: controller.signal });
-        clearTimeout(timeoutId);
-      } catch (fetchError: any) {
-        clearTimeout(timeoutId);
-        if (fetchError.name === 'AbortError') {
-          console.error("Mapbox API timeout");
-          return res.status(504).json({ error: "Journey calculation timed out. Please try again." });
+        route = await routing.route({
+          from: { lat: fromLat, lng: fromLng },
+          to: { lat: toLat, lng: toLng },
+          departure: departureTime ? new Date(departureTime) : new Date(),
+        });
+      } catch (routingError) {
+        if (routingError instanceof RoutingError) {
+          console.error("Routing error:", routingError.message);
+          return res.status(502).json({ error: "Could not calculate a route between these locations" });
         }
-        throw fetchError;
-      }
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("Mapbox API error:", errorText);
-        return res.status(500).json({ error: "Failed to calculate journey with Mapbox" });
+        throw routingError;
       }
 
-      const data = await response.json();
-      const route = data.routes?.[0];
-      
-      if (!route) {
-        return res.status(404).json({ error: "No route found" });
-      }
-
-      // Duration is in seconds, distance is in meters
-      const drivingTimeMinutes = Math.ceil(route.duration / 60);
-      const distanceMiles = (route.distance / 1609.34); // meters to miles
-      
       // Add 45 minutes for vehicle inspection (required for every pickup)
-      const INSPECTION_TIME_MINUTES = 45;
-      const totalTimeMinutes = drivingTimeMinutes + INSPECTION_TIME_MINUTES;
+      const totalTimeMinutes = route.drivingMinutes + INSPECTION_TIME_MINUTES;
 
       res.json({
-        drivingTimeMinutes,
+        drivingTimeMinutes: route.drivingMinutes,
         inspectionTimeMinutes: INSPECTION_TIME_MINUTES,
         totalTimeMinutes,
-        distanceMiles: parseFloat(distanceMiles.toFixed(1)),
-        trafficAware: true,
+        distanceMiles: parseFloat(route.distanceMiles.toFixed(1)),
+        trafficAware: route.trafficAware,
+        provider: route.provider,
       });
 
     } catch (error) {
@@ -179,7 +356,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // POST /api/lookup-postcode - Backend proxy for postcodes.io to avoid CORS issues on deployed apps
+  // POST /api/lookup-postcode - Resolve a postcode from the bundled gazetteer, falling back to postcodes.io
+  // and, with no signal, to the outward code's centroid (approximate: true)
   app.post("/api/lookup-postcode", async (req, res) => {
     try {
       const schema = z.object({
@@ -187,62 +365,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const { postcode } = schema.parse(req.body);
-      
-      // Clean the postcode (remove spaces, uppercase)
-      const cleanPostcode = postcode.replace(/\s/g, "").toUpperCase();
-      
-      // Call postcodes.io API from the backend (no CORS issues)
-      const response = await fetch(`https://api.postcodes.io/postcodes/${cleanPostcode}`);
-      
-      if (!response.ok) {
-        if (response.status === 404) {
-          return res.status(404).json({ error: "Postcode not found" });
-        }
-        return res.status(response.status).json({ error: "Failed to lookup postcode" });
+      const result = await geocoder.lookupPostcode(postcode);
+      if (!result) {
+        return res.status(404).json({ error: "Postcode not found" });
       }
 
-      const data = await response.json();
-      
-      if (data.status === 200 && data.result) {
-        const result = data.result;
-        
-        // Build a complete address from available data
-        const addressParts: string[] = [];
-        
-        // Add ward if it's different from district
-        if (result.admin_ward && result.admin_ward !== result.admin_district) {
-          addressParts.push(result.admin_ward);
-        }
-        
-        // Add district
-        if (result.admin_district) {
-          addressParts.push(result.admin_district);
-        }
-        
-        // Add county if available and different from district
-        if (result.admin_county && result.admin_county !== result.admin_district) {
-          addressParts.push(result.admin_county);
-        }
-        
-        // Add region
-        if (result.region) {
-          addressParts.push(result.region);
-        }
-        
-        // Add postcode at the end
-        if (result.postcode) {
-          addressParts.push(result.postcode);
-        }
-        
-        res.json({
-          latitude: result.latitude,
-          longitude: result.longitude,
-          address: addressParts.join(", "),
-          postcode: result.postcode,
-        });
-      } else {
-        res.status(500).json({ error: "Invalid postcode data received" });
-      }
+      res.json({
+        latitude: result.latitude,
+        longitude: result.longitude,
+        address: result.address,
+        postcode: result.postcode ?? result.name,
+        approximate: result.approximate,
+        source: result.source,
+      });
 
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -253,71 +388,129 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/geocode/search?q= - Postcodes, outward codes and town names from the offline gazetteer
+  app.get("/api/geocode/search", async (req, res) => {
+    try {
+      const schema = z.object({
+        q: z.string().trim().min(2).max(100),
+        limit: z.coerce.number().int().min(1).max(20).optional().default(5),
+      });
+
+      const { q, limit } = schema.parse(req.query);
+      res.json({ results: geocoder.search(q, limit) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid search", details: error.errors });
+      }
+      console.error("Geocode search error:", error);
+      res.status(500).json({ error: "Failed to search locations" });
+    }
+  });
+
+  // GET /api/geocode/reverse?lat=&lng= - Nearest postcode and place to a GPS fix
+  app.get("/api/geocode/reverse", async (req, res) => {
+    try {
+      const schema = z.object({
+        lat: z.coerce.number().min(-90).max(90),
+        lng: z.coerce.number().min(-180).max(180),
+      });
+
+      const { lat, lng } = schema.parse(req.query);
+      const result = await geocoder.reverse({ lat, lng });
+      if (!result) {
+        return res.status(404).json({ error: "No known place near this location" });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid coordinates", details: error.errors });
+      }
+      console.error("Reverse geocode error:", error);
+      res.status(500).json({ error: "Failed to reverse geocode" });
+    }
+  });
+
   // AI Routing Endpoints
   
   // POST /api/ai/plan-route - Optimize multi-stop route with ETA predictions
   app.post("/api/ai/plan-route", async (req, res) => {
     try {
       const validatedData = planRouteSchema.parse(req.body);
-      const { driver_id, date, legs, optimize_order, preferences = {} } = validatedData;
+      const { driver_id, date, legs, optimize_order, preferences } = validatedData;
 
       // Start time and location
-      const startTime = preferences?.start_time || (date ? `${date}T08:00:00Z` : new Date().toISOString());
-      const startPoint: Coordinates = legs[0]?.pickup || { lat: 52.4862, lng: -1.8904 }; // Birmingham default
-
-      // Optimize route order
-      const ordered = optimize_order ? orderLegs(startPoint, legs) : legs;
+      const startTime = new Date(preferences?.start_time || (date ? `${date}T08:00:00Z` : new Date().toISOString()));
+      if (isNaN(startTime.getTime())) {
+        return res.status(400).json({ error: "Invalid request data", details: [{ path: ["preferences", "start_time"], message: "Invalid datetime" }] });
+      }
+      const startPoint: Coordinates = preferences?.start_location || legs[0]?.pickup || { lat: 52.4862, lng: -1.8904 }; // Birmingham default
+
+      const plannerLegs: PlannerLeg[] = legs.map((leg, i) => ({
+        leg_id: leg.leg_id || `leg_${i + 1}`,
+        pickup: leg.pickup,
+        dropoff: leg.dropoff,
+        earliestPickup: leg.time_window?.earliest ? new Date(leg.time_window.earliest) : undefined,
+        latestPickup: leg.time_window?.latest ? new Date(leg.time_window.latest) : undefined,
+        latestDropoff: leg.dropoff_by ? new Date(leg.dropoff_by) : undefined,
+        serviceMinutes: leg.service_minutes,
+        dropoffServiceMinutes: leg.dropoff_service_minutes,
+        notes: leg.notes,
+      }));
+
+      // Insertion + 2-opt/or-opt under the time windows, compared with the order given
+      const { plan, original, infeasible } = planRoute(
+        plannerLegs,
+        { start: startPoint, startTime, reposition: preferences?.reposition_mode },
+        optimize_order,
+      );
 
-      // Build route path and calculate ETAs
+      // Build route path and ETAs
       const path: Coordinates[] = [];
       let cursor = startPoint;
-      let totalMiles = 0;
-      const itinerary: any[] = [];
-
-      for (let i = 0; i < ordered.length; i++) {
-        const leg = ordered[i];
-        
-        // Add path segments
-        path.push(cursor);
-        path.push(leg.pickup);
-        totalMiles += haversineMiles(cursor, leg.pickup);
-
-        path.push(leg.dropoff);
-        totalMiles += haversineMiles(leg.pickup, leg.dropoff);
-
-        // Calculate ETAs
-        const prevDropEta = itinerary.length 
-          ? new Date(itinerary[itinerary.length - 1].dropoff_eta)
-          : new Date(startTime);
-        
-        const toPickupMins = estimateMinutes(haversineMiles(cursor, leg.pickup), prevDropEta.toISOString());
-        const pickupEta = new Date(prevDropEta.getTime() + toPickupMins * 60000);
-
-        const toDropMins = estimateMinutes(haversineMiles(leg.pickup, leg.dropoff), pickupEta.toISOString());
-        const dropEta = new Date(pickupEta.getTime() + toDropMins * 60000);
-
-        // ETA window (±10 minutes)
-        const band = 10;
-        itinerary.push({
-          leg_id: leg.leg_id || `leg_${i + 1}`,
-          pickup_eta: pickupEta.toISOString(),
-          dropoff_eta: dropEta.toISOString(),
-          eta_low: new Date(dropEta.getTime() - band * 60000).toISOString(),
-          eta_high: new Date(dropEta.getTime() + band * 60000).toISOString(),
-          advisories: leg.notes ? [leg.notes] : []
-        });
+      const band = 10; // ETA window (±10 minutes)
+      const itinerary = plan.legs.map((stop) => {
+        path.push(cursor, stop.leg.pickup, stop.leg.dropoff);
+        cursor = stop.leg.dropoff;
+        const advisories = stop.leg.notes ? [stop.leg.notes] : [];
+        if (stop.waitMinutes > 0) advisories.push(`Wait ${Math.round(stop.waitMinutes)} min for the pickup window`);
+        if (stop.lateMinutes > 0) advisories.push(`${stop.lateMinutes} min outside its time window`);
+        return {
+          leg_id: stop.leg.leg_id,
+          arrive_pickup: stop.arrival.toISOString(),
+          wait_minutes: Math.round(stop.waitMinutes),
+          pickup_eta: stop.inspectionStart.toISOString(),
+          inspection_end: stop.inspectionEnd.toISOString(),
+          dropoff_eta: stop.dropoff.toISOString(),
+          eta_low: new Date(stop.dropoff.getTime() - band * 60000).toISOString(),
+          eta_high: new Date(stop.dropoff.getTime() + band * 60000).toISOString(),
+          reposition_miles: Number(stop.repositionMiles.toFixed(1)),
+          reposition_minutes: stop.repositionMinutes,
+          late_minutes: stop.lateMinutes,
+          advisories
+        };
+      });
 
-        cursor = leg.dropoff;
-      }
+      const totalMiles = plan.driveMiles + plan.repositionMiles;
+      const driveMinutes = Math.max(0, plan.totalMinutes);
+      const summarise = (sim: typeof plan) => ({
+        order: sim.legs.map(stop => stop.leg.leg_id),
+        distance_miles: Number((sim.driveMiles + sim.repositionMiles).toFixed(1)),
+        total_minutes: sim.totalMinutes,
+        late_minutes: sim.lateMinutes,
+        finish: sim.finish.toISOString()
+      });
+      const comparison = {
+        original: summarise(original),
+        optimized: summarise(plan),
+        miles_saved: Number((original.driveMiles + original.repositionMiles - totalMiles).toFixed(1)),
+        minutes_saved: original.totalMinutes - plan.totalMinutes,
+        late_minutes_saved: original.lateMinutes - plan.lateMinutes
+      };
 
-      const driveMinutes = itinerary.length 
-        ? Math.max(0, Math.round((new Date(itinerary[itinerary.length - 1].dropoff_eta).getTime() - new Date(startTime).getTime()) / 60000))
-        : 0;
-      
       const polyline = encodePolyline(path);
 
       // Suggest meet-up window after first drop
-      const firstDrop = itinerary[0] ? new Date(itinerary[0].dropoff_eta) : new Date(startTime);
+      const firstDrop = itinerary[0] ? new Date(itinerary[0].dropoff_eta) : startTime;
       const meetStart = new Date(firstDrop.getTime() + 10 * 60000);
       const meetEnd = new Date(firstDrop.getTime() + 30 * 60000);
       const nearPoint = path[Math.floor(path.length / 3)] || cursor;
@@ -326,13 +519,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         plan_id: `plan_${Math.random().toString(36).slice(2, 8)}`,
         driver_id,
         date: date || new Date().toISOString().slice(0, 10),
-        summary: `Start ${new Date(startTime).toISOString().slice(11, 16)}. ${ordered.length} legs. Est finish ${itinerary.length ? itinerary[itinerary.length - 1].dropoff_eta.slice(11, 16) : "N/A"}.`,
+        summary: `Start ${startTime.toISOString().slice(11, 16)}. ${plan.legs.length} legs. Est finish ${plan.finish.toISOString().slice(11, 16)}.` +
+          (infeasible.length ? ` ${infeasible.length} leg(s) can't meet their time windows.` : ""),
         itinerary,
         route: {
           polyline,
           distance_miles: Number(totalMiles.toFixed(1)),
-          drive_minutes: driveMinutes
+          drive_minutes: driveMinutes,
+          reposition_miles: Number(plan.repositionMiles.toFixed(1))
         },
+        comparison,
+        infeasible_legs: infeasible,
         suggested_meet_windows: [{
           window_start: meetStart.toISOString(),
           window_end: meetEnd.toISOString(),
@@ -377,78 +574,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "MISSING_ROUTE", detail: "Provide route_polyline or legs[]" });
       }
 
-      // Get all lift offers and requests for driver density calculation
-      const liftOffers = await storage.getAllLiftOffers();
-      const liftRequests = await storage.getAllLiftRequests();
-
-      // Simulate active driver pings from lift offers and requests
-      const nowISO = new Date().toISOString();
-      const activePings = [
-        ...liftOffers.map(o => ({ 
-          driver_id: o.driverId, 
-          lat: o.fromLat, 
-          lng: o.fromLng,
-          speed_kph: 60,
-          bearing_deg: bearingDeg({ lat: o.fromLat, lng: o.fromLng }, { lat: o.toLat, lng: o.toLng }),
-          ping_time: o.createdAt ? o.createdAt.toISOString() : nowISO
-        })),
-        ...liftRequests.map(r => ({ 
-          driver_id: r.requesterId, 
-          lat: r.fromLat, 
-          lng: r.fromLng,
-          speed_kph: 0,
-          bearing_deg: 0,
-          ping_time: r.createdAt ? r.createdAt.toISOString() : nowISO
-        }))
-      ];
-
-      // Filter pings near the corridor
-      const active = activePings.filter(p => {
-        const near = pointNearPolyline({ lat: p.lat, lng: p.lng }, polyPts, corridor_radius_miles);
-        if (!near) return false;
-        
-        // Optional bearing match
-        if (typeof p.bearing_deg === "number" && typeof min_bearing_match_deg === "number") {
-          const segBearing = bearingDeg(polyPts[0], polyPts[polyPts.length - 1]);
-          const diff = angleDiffDeg(p.bearing_deg, segBearing);
-          return diff <= min_bearing_match_deg;
-        }
-        return true;
-      });
-
-      // Simple density scoring
-      const lookbackSeed = new Date(time_window_start || new Date().toISOString()).getHours() + active.length * 7;
-      const histCluster = Math.floor(seededRand(lookbackSeed) * 10); // 0-9 virtual historical count
-      const activeNow = active.length;
-      const hour = new Date(time_window_start || new Date().toISOString()).getHours();
-      const weekdayEffect = [1, 1.05, 1.1, 1.1, 1.15, 1.05, 0.9][new Date().getDay()] || 1;
-
-      // Logistic scoring
-      const z = 0.15 * activeNow + 0.1 * histCluster + 0.02 * hour + Math.log(weekdayEffect);
-      const densityScore = Math.max(0, Math.min(1, 1 / (1 + Math.exp(-z))));
-      const label = densityScore < 0.34 ? "Low" : densityScore < 0.67 ? "Medium" : "High";
-      const predictedAvailable = Math.max(activeNow, Math.round((activeNow + histCluster) * densityScore));
-
-      const centerIdx = Math.max(1, Math.floor(polyPts.length / 2));
-      const hotspotCenter = polyPts[centerIdx] || polyPts[0];
+      // Observed check-ins along the corridor: job history for the hour-of-week baseline,
+      // live positions, availability check-ins and jobs in progress for who is there now
+      const now = new Date();
+      const windowStart = time_window_start ? new Date(time_window_start) : now;
+      const data = await loadDensityData(storage, livePositions, now);
+      const prediction = predictDensity(
+        data,
+        polyPts,
+        { radiusMiles: corridor_radius_miles, bearingToleranceDeg: min_bearing_match_deg },
+        windowStart,
+        now
+      );
 
-      res.json({
-        density_score: Number(densityScore.toFixed(2)),
-        label,
-        active_driver_count: activeNow,
-        predicted_available_in_window: predictedAvailable,
-        hotspots: [{
-          center: hotspotCenter,
-          radius_miles: Math.max(3, corridor_radius_miles - 1),
-          score: Number(Math.min(1, densityScore + 0.1).toFixed(2)),
-          why: "Time and route match typical activity pattern"
-        }],
-        method: {
-          radius_miles: corridor_radius_miles,
-          bearing_match_deg: min_bearing_match_deg,
-          lookback_days: 28
-        }
-      });
+      res.json(prediction);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid request data", details: error.errors });
@@ -487,13 +626,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Seed demo data endpoint (for marketing/testing)
   // Create messages for current user with demo users
-  app.post("/api/seed-user-messages", async (req, res) => {
+  app.post("/api/seed-user-messages", requireAuth, async (req, res) => {
     try {
-      const { userId } = req.body;
-      
-      if (!userId) {
-        return res.status(400).json({ error: "userId is required" });
-      }
+      const userId = req.session.userId!;
 
       const cities = [
         { name: "Newcastle" },
@@ -559,9 +694,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/seed-demo-data", async (req, res) => {
+  app.post("/api/seed-demo-data", requireAdmin, async (req, res) => {
     try {
-      const bcrypt = await import("bcrypt");
+      const bcrypt = await import("bcryptjs");
       const hashedPassword = await bcrypt.hash("demo1234", 10);
       
       // North East England cities
@@ -718,9 +853,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/schedules", async (req, res) => {
+  const notifyLiftMatch = (notification: LiftMatchNotification) => {
+    realtime.sendToUser(notification.userId, notification);
+  };
+
+  // Seat and status changes go to everyone viewing the offer
+  const publishLiftOfferUpdate = (offer: LiftOffer) => {
+    realtime.publish(liftOfferTopic(offer.id), {
+      type: 'lift-offer-updated',
+      offerId: offer.id,
+      status: offer.status,
+      availableSeats: offer.availableSeats,
+      timestamp: new Date().toISOString(),
+    });
+  };
+
+  // Watch a new offer and alert matching requesters; a failure here shouldn't fail the post
+  const watchLiftOffer = async (offer: LiftOffer) => {
+    try {
+      await subscribeLiftOffer(storage, offer, notifyLiftMatch);
+    } catch (error) {
+      console.error("Lift offer match subscription error:", error);
+    }
+  };
+
+  // Recurring offers' occurrences are generated over a rolling horizon while the server runs
+  startRecurringOfferGeneration(storage, watchLiftOffer);
+
+  // Punctuality, completion and streaks are recomputed hourly (streaks lapse on their own) and
+  // straight away for the people involved when a job or lift finishes
+  startUserMetricsJob(storage);
+  const refreshMetrics = async (...userIds: string[]) => {
+    for (const userId of userIds) {
+      try {
+        await refreshUserMetrics(storage, userId);
+      } catch (error) {
+        console.error("User metrics refresh error:", error);
+      }
+    }
+  };
+
+  const scheduleLiftHooks: ScheduleLiftHooks = {
+    onOfferCreated: watchLiftOffer,
+    onOfferChanged: publishLiftOfferUpdate,
+    onRequestCreated: async (request) => {
+      try {
+        await subscribeLiftRequest(storage, request, notifyLiftMatch);
+      } catch (error) {
+        console.error("Lift request match subscription error:", error);
+      }
+    },
+  };
+
+  // Keep the offers and requests derived from a schedule in step with its jobs; a failure here
+  // shouldn't fail the job change that triggered it
+  const syncJobLifts = async (scheduleId: string) => {
     try {
-      const validatedData = insertScheduleSchema.parse(req.body);
+      await syncScheduleLifts(storage, scheduleId, scheduleLiftHooks);
+    } catch (error) {
+      console.error("Schedule lift sync error:", error);
+    }
+  };
+
+  // Check a job against the rest of its schedule's day
+  const checkScheduleFeasibility = async (scheduleId: string, candidate: FeasibilityJob) =>
+    checkJobFeasibility(candidate, await storage.getJobsByScheduleId(scheduleId));
+
+  // The schedule, if it belongs to the session user; otherwise the response has been sent
+  const ownSchedule = async (req: Request, res: Response, id = req.params.id): Promise<Schedule | undefined> => {
+    const schedule = await storage.getSchedule(id);
+    if (!schedule) {
+      res.status(404).json({ error: "Schedule not found" });
+      return undefined;
+    }
+    if (schedule.userId !== req.session.userId) {
+      res.status(403).json({ error: "Only the driver can use this schedule" });
+      return undefined;
+    }
+    return schedule;
+  };
+
+  // Likewise a job, through its schedule
+  const ownJob = async (req: Request, res: Response): Promise<Job | undefined> => {
+    const job = await storage.getJob(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: "Job not found" });
+      return undefined;
+    }
+    const schedule = await storage.getSchedule(job.scheduleId);
+    if (schedule?.userId !== req.session.userId) {
+      res.status(403).json({ error: "Only the driver can change this job" });
+      return undefined;
+    }
+    return job;
+  };
+
+  app.post("/api/schedules", requireAuth, async (req, res) => {
+    try {
+      const validatedData = insertScheduleSchema.parse({ ...req.body, userId: req.session.userId });
       const schedule = await storage.createSchedule(validatedData);
       res.json(schedule);
     } catch (error) {
@@ -743,6 +973,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Registered before /api/schedules/:id, which would otherwise take "<id>.ics" as the id
+  app.get("/api/schedules/:id.ics", requireAuth, async (req, res) => {
+    try {
+      const schedule = await ownSchedule(req, res);
+      if (!schedule) return;
+
+      const jobs = await storage.getJobsByScheduleId(schedule.id);
+      res.type("text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="drivenet-${schedule.date}.ics"`);
+      res.send(jobsToIcs(jobs, `DriveNet jobs ${schedule.date}`));
+    } catch (error) {
+      console.error("Export schedule error:", error);
+      res.status(500).json({ error: "Failed to export schedule" });
+    }
+  });
+
+  app.post("/api/schedules/:id/import", requireAuth, async (req, res) => {
+    try {
+      const { format, content, mapping } = scheduleImportSchema.parse(req.body);
+      const schedule = await ownSchedule(req, res);
+      if (!schedule) return;
+
+      const result = await importScheduleJobs(storage, schedule, content, { format, mapping });
+      if (result.imported.length > 0) await syncJobLifts(schedule.id);
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid import data", details: error });
+      }
+      if (error instanceof ScheduleImportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Import schedule error:", error);
+      res.status(500).json({ error: "Failed to import schedule" });
+    }
+  });
+
   app.get("/api/schedules/:id", async (req, res) => {
     try {
       const { id } = req.params;
@@ -759,10 +1027,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/schedules/:id", async (req, res) => {
+  app.patch("/api/schedules/:id", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
       const validatedUpdates = updateScheduleSchema.parse(req.body);
+      if (!(await ownSchedule(req, res))) return;
       
       const updatedSchedule = await storage.updateSchedule(id, validatedUpdates);
       
@@ -780,9 +1049,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/schedules/:id", async (req, res) => {
+  app.delete("/api/schedules/:id", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
+      if (!(await ownSchedule(req, res))) return;
+      for (const job of await storage.getJobsByScheduleId(id)) {
+        await withdrawJobLifts(storage, job.id, scheduleLiftHooks);
+      }
       const deleted = await storage.deleteSchedule(id);
       
       if (!deleted) {
@@ -830,10 +1103,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/jobs", async (req, res) => {
+  // POST /api/jobs/check-feasibility - Overlaps, reachability and working-day limits for a job
+  // before it's saved, so the job dialogs can show them inline
+  app.post("/api/jobs/check-feasibility", async (req, res) => {
+    try {
+      const { jobId, scheduleId, ...candidate } = jobFeasibilitySchema.parse(req.body);
+      res.json(await checkScheduleFeasibility(scheduleId, { ...candidate, id: jobId }));
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid job data", details: error });
+      }
+      console.error("Check feasibility error:", error);
+      res.status(500).json({ error: "Failed to check job feasibility" });
+    }
+  });
+
+  app.post("/api/jobs", requireAuth, async (req, res) => {
     try {
       const validatedData = insertJobSchema.parse(req.body);
+      if (!(await ownSchedule(req, res, validatedData.scheduleId))) return;
+      // Hard errors block the save; warnings are returned with the job
+      const feasibility = await checkScheduleFeasibility(validatedData.scheduleId, validatedData);
+      if (!feasibility.feasible) {
+        return res.status(409).json({ error: feasibility.errors[0].message, feasibility });
+      }
       const job = await storage.createJob(validatedData);
+      await syncJobLifts(job.scheduleId);
       
       // Check for matching schedules (within 3km and 60 minutes)
       const matches = await storage.findMatchingSchedules(job.id, 3, 60);
@@ -859,9 +1154,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
               match.distance
             );
 
-            // Broadcast WebSocket notification to both drivers
+            // Notify both drivers on their own sockets
             if (currentUser) {
-              (app as any).broadcastNotification({
+              realtime.sendToUser(schedule.userId, {
                 type: 'schedule-match',
                 userId: schedule.userId,
                 matchedWith: match.userName,
@@ -872,7 +1167,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 message: `Schedule match! You'll both be near ${job.toLocation} around ${time}`,
               });
 
-              (app as any).broadcastNotification({
+              realtime.sendToUser(match.scheduleUserId, {
                 type: 'schedule-match',
                 userId: match.scheduleUserId,
                 matchedWith: currentUser.name,
@@ -887,7 +1182,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      res.json(job);
+      res.json({ ...job, feasibility });
     } catch (error) {
       if (error instanceof Error && error.name === "ZodError") {
         return res.status(400).json({ error: "Invalid job data", details: error });
@@ -901,6 +1196,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const hoursAgo = parseInt(req.query.hours as string) || 4;
       const jobs = await storage.getRecentCheckIns(hoursAgo);
+      const hidden = await hiddenUserIds(storage, req.session?.userId);
       
       // Get user details for each job
       const jobsWithDrivers = await Promise.all(
@@ -909,7 +1205,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if (!schedule) return null;
           
           const driver = await storage.getUser(schedule.userId);
-          if (!driver) return null;
+          if (!driver || hidden.has(driver.id)) return null;
           
           return {
             jobId: job.id,
@@ -966,39 +1262,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/jobs/:id/check-in", async (req, res) => {
+  app.post("/api/jobs/:id/check-in", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const { lat, lng } = checkInOutSchema.parse(req.body);
-      const job = await storage.getJob(id);
-      
-      if (!job) {
-        return res.status(404).json({ error: "Job not found" });
-      }
+      const { lat, lng, recordedAt, inspection } = checkInOutSchema.parse(req.body);
+      const job = await ownJob(req, res);
+      if (!job) return;
 
       if (job.status !== "pending") {
         return res.status(400).json({ error: "Job is not in pending status" });
       }
+      const checkedInAt = recordedTime(req, recordedAt);
+
+      // The pickup condition report goes in first, so a rejected one leaves the job pending, and
+      // comes out again if the job then can't be checked in
+      const pickup = inspection
+        ? await recordInspection(storage, blobStore, job, "pickup", inspectionInput(inspection), { lat, lng }, checkedInAt)
+        : undefined;
 
       const updatedJob = await storage.updateJobStatus(
         id,
         "in-progress",
-        new Date(),
+        checkedInAt,
         undefined,
         lat,
         lng
-      );
+      ).catch(async (error) => {
+        if (pickup) await discardInspection(storage, blobStore, pickup);
+        throw error;
+      });
 
       if (!updatedJob) {
+        if (pickup) await discardInspection(storage, blobStore, pickup);
         return res.status(500).json({ error: "Failed to update job status" });
       }
+      await syncJobLifts(updatedJob.scheduleId);
+      await syncJobLogEntry(storage, updatedJob);
 
-      // Broadcast check-in notification to all connected clients
+      // Update the driver's punctuality and publish the check-in to drivers watching this region
       const schedule = await storage.getSchedule(job.scheduleId);
       if (schedule) {
+        await refreshMetrics(schedule.userId);
         const driver = await storage.getUser(schedule.userId);
         if (driver) {
-          (app as any).broadcastNotification({
+          realtime.publishFrom(driver.id, regionTopic(lat, lng), {
             type: 'driver-check-in',
             driverId: driver.id,
             driverName: driver.name,
@@ -1006,8 +1313,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             location: updatedJob.fromLocation,
             lat,
             lng,
-            timestamp: new Date().toISOString(),
-          });
+            timestamp: checkedInAt.toISOString(),
+          }).catch((error) => console.error("Publish check-in error:", error));
         }
       }
 
@@ -1016,46 +1323,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof Error && error.name === "ZodError") {
         return res.status(400).json({ error: "Invalid location data", details: error });
       }
+      if (error instanceof InspectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Check-in error:", error);
       res.status(500).json({ error: "Failed to check in" });
     }
   });
 
-  app.post("/api/jobs/:id/check-out", async (req, res) => {
+  app.post("/api/jobs/:id/check-out", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const { lat, lng } = checkInOutSchema.parse(req.body);
-      const job = await storage.getJob(id);
-      
-      if (!job) {
-        return res.status(404).json({ error: "Job not found" });
-      }
+      const { lat, lng, recordedAt, inspection } = checkInOutSchema.parse(req.body);
+      const job = await ownJob(req, res);
+      if (!job) return;
 
       if (job.status !== "in-progress") {
         return res.status(400).json({ error: "Job is not in progress" });
       }
+      const checkedOutAt = recordedTime(req, recordedAt, job.actualStartTime);
+
+      // Likewise the dropoff report, before the job completes
+      const dropoff = inspection
+        ? await recordInspection(storage, blobStore, job, "dropoff", inspectionInput(inspection), { lat, lng }, checkedOutAt)
+        : undefined;
 
       const updatedJob = await storage.updateJobStatus(
         id,
         "completed",
         undefined,
-        new Date(),
+        checkedOutAt,
         undefined,
         undefined,
         lat,
         lng
-      );
+      ).catch(async (error) => {
+        if (dropoff) await discardInspection(storage, blobStore, dropoff);
+        throw error;
+      });
 
       if (!updatedJob) {
+        if (dropoff) await discardInspection(storage, blobStore, dropoff);
         return res.status(500).json({ error: "Failed to update job status" });
       }
+      await syncJobLifts(updatedJob.scheduleId);
+      await syncJobLogEntry(storage, updatedJob);
 
-      // Broadcast check-out notification to all connected clients
+      // Update the driver's punctuality and publish the check-out to drivers watching this region
       const schedule = await storage.getSchedule(job.scheduleId);
       if (schedule) {
+        await refreshMetrics(schedule.userId);
+        await awardJobPoints(storage, schedule.userId, updatedJob);
+        await storage.checkAndAwardBadges(schedule.userId, "job-completed");
         const driver = await storage.getUser(schedule.userId);
         if (driver) {
-          (app as any).broadcastNotification({
+          realtime.publishFrom(driver.id, regionTopic(lat, lng), {
             type: 'driver-check-out',
             driverId: driver.id,
             driverName: driver.name,
@@ -1063,8 +1385,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             location: updatedJob.toLocation,
             lat,
             lng,
-            timestamp: new Date().toISOString(),
-          });
+            timestamp: checkedOutAt.toISOString(),
+          }).catch((error) => console.error("Publish check-out error:", error));
         }
       }
 
@@ -1073,23 +1395,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof Error && error.name === "ZodError") {
         return res.status(400).json({ error: "Invalid location data", details: error });
       }
+      if (error instanceof InspectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Check-out error:", error);
       res.status(500).json({ error: "Failed to check out" });
     }
   });
 
-  app.patch("/api/jobs/:id", async (req, res) => {
+  app.patch("/api/jobs/:id", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
       const validatedUpdates = updateJobSchema.parse(req.body);
-      
+      const existing = await ownJob(req, res);
+      if (!existing) return;
+      // Moving a job only onto another of the driver's own schedules
+      if (validatedUpdates.scheduleId && !(await ownSchedule(req, res, validatedUpdates.scheduleId))) return;
+
+      const feasibility = FEASIBILITY_FIELDS.some((field) => validatedUpdates[field] !== undefined)
+        ? await checkScheduleFeasibility(validatedUpdates.scheduleId ?? existing.scheduleId, { ...existing, ...validatedUpdates })
+        : undefined;
+      if (feasibility && !feasibility.feasible) {
+        return res.status(409).json({ error: feasibility.errors[0].message, feasibility });
+      }
+
       const updatedJob = await storage.updateJob(id, validatedUpdates);
       
       if (!updatedJob) {
         return res.status(404).json({ error: "Job not found" });
       }
+      await syncJobLifts(updatedJob.scheduleId);
+      // A plate or registration added after check-in still reaches the trade plate log
+      await syncJobLogEntry(storage, updatedJob);
 
-      res.json(updatedJob);
+      res.json(feasibility ? { ...updatedJob, feasibility } : updatedJob);
     } catch (error) {
       if (error instanceof Error && error.name === "ZodError") {
         return res.status(400).json({ error: "Invalid update data", details: error });
@@ -1099,14 +1438,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/jobs/:id", async (req, res) => {
+  app.delete("/api/jobs/:id", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const deleted = await storage.deleteJob(id);
-      
-      if (!deleted) {
-        return res.status(404).json({ error: "Job not found" });
-      }
+      const job = await ownJob(req, res);
+      if (!job) return;
+
+      // The job's own lifts go with it; the neighbouring jobs' dead-legs are re-derived
+      await withdrawJobLifts(storage, id, scheduleLiftHooks);
+      await storage.deleteJob(id);
+      await syncJobLifts(job.scheduleId);
 
       res.status(204).send();
     } catch (error) {
@@ -1115,12 +1456,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/lift-offers", async (req, res) => {
+  // Only verified drivers can offer lifts, and they offer them as themselves
+  app.post("/api/lift-offers", requireVerified, async (req, res) => {
     try {
-      const validatedData = insertLiftOfferSchema.parse(req.body);
-      const offer = await storage.createLiftOffer(validatedData);
-      res.json(offer);
+      const body = await resolveThreeWordAddresses(req.body, LIFT_W3W_FIELDS);
+      const validatedData = createLiftOfferSchema.parse({ ...body, driverId: req.session.userId });
+      const recurrenceRule = recurrenceRuleFor(validatedData.repeatPattern, validatedData.recurrenceRule);
+
+      if (!recurrenceRule) {
+        const offer = await storage.createLiftOffer({ ...validatedData, recurrenceRule: null });
+        await watchLiftOffer(offer);
+        return res.json(offer);
+      }
+
+      // A repeating journey is a template; its dated occurrences are the offers passengers book
+      const template = await storage.createLiftOffer({ ...validatedData, recurrenceRule, status: "recurring", autoGenerated: false });
+      const occurrences = await generateOccurrences(storage, template, new Date(), watchLiftOffer);
+      res.json({ ...template, occurrences });
     } catch (error) {
+      if (error instanceof ThreeWordAddressError) {
+        return res.status(400).json({ error: error.message, field: error.field });
+      }
+      if (error instanceof RecurrenceRuleError) {
+        return res.status(400).json({ error: "Invalid recurrence rule", details: error.message });
+      }
       if (error instanceof Error && error.name === "ZodError") {
         return res.status(400).json({ error: "Invalid lift offer data", details: error });
       }
@@ -1131,8 +1490,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/lift-offers", async (req, res) => {
     try {
+      const hidden = await hiddenUserIds(storage, req.session?.userId);
       const offers = await storage.getAllLiftOffers();
-      res.json(offers);
+      res.json(offers.filter((offer) => !hidden.has(offer.driverId)));
     } catch (error) {
       console.error("Get lift offers error:", error);
       res.status(500).json({ error: "Failed to get lift offers" });
@@ -1155,6 +1515,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Requests that fit this offer's route and time window, best first, with a score breakdown
+  app.get("/api/lift-offers/:id/matches", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const includeIneligible = req.query.includeIneligible === "true";
+      const offer = await storage.getLiftOffer(id);
+
+      if (!offer) {
+        return res.status(404).json({ error: "Lift offer not found" });
+      }
+
+      const blockedUserIds = new Set(await storage.getBlockedUserIds(offer.driverId));
+      const requests = (await storage.getAllLiftRequests()).filter((r) => r.requesterId !== offer.driverId);
+      const requestsById = new Map(requests.map((r) => [r.id, r]));
+      const matches = rankMatches(
+        requests.map((request) => scoreLiftMatch(offer, request, { blockedUserIds })),
+        includeIneligible
+      );
+
+      res.json(matches.map((match) => ({ ...match, request: requestsById.get(match.requestId) })));
+    } catch (error) {
+      console.error("Get lift offer matches error:", error);
+      res.status(500).json({ error: "Failed to get matches" });
+    }
+  });
+
   app.get("/api/lift-offers/driver/:driverId", async (req, res) => {
     try {
       const { driverId } = req.params;
@@ -1166,35 +1552,177 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/lift-offers/:id/status", async (req, res) => {
+  app.patch("/api/lift-offers/:id/status", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const { status } = req.body;
-      
-      const validStatuses = ["available", "booked", "completed", "cancelled"];
-      if (!status || !validStatuses.includes(status)) {
-        return res.status(400).json({ 
-          error: "Invalid status", 
-          validStatuses 
-        });
+      const { status } = liftOfferStatusSchema.parse(req.body);
+      const offer = await ownLiftOffer(req, res);
+      if (!offer) return;
+
+      if (!liftOfferTransitions[offer.status]?.includes(status)) {
+        return res.status(409).json({ error: "Invalid status transition", from: offer.status, to: status });
+      }
+      if (status === "available" && offer.availableSeats < 1) {
+        return res.status(409).json({ error: "No seats left on this offer" });
+      }
+
+      // Passengers on board finish the lift first; completing also needs every accepted seat settled.
+      // Whatever is still open after that is cancelled on the driver's behalf.
+      const bookings = await storage.getLiftBookingsByOfferId(id);
+      const unsettled = status === "completed" ? ["accepted", "picked-up"] : status === "cancelled" ? ["picked-up"] : [];
+      if (bookings.some((b) => unsettled.includes(b.status))) {
+        const error = status === "completed"
+          ? "Complete, cancel or mark no-show every accepted booking first"
+          : "A passenger is already on board; complete the lift instead";
+        return res.status(409).json({ error });
+      }
+      if (status === "completed" || status === "cancelled") {
+        await cancelLiftBookings(offer, bookings, status === "completed" ? "the lift has finished" : "the driver cancelled the lift");
       }
 
       const updatedOffer = await storage.updateLiftOfferStatus(id, status);
-      
       if (!updatedOffer) {
         return res.status(404).json({ error: "Lift offer not found" });
       }
 
+      publishLiftOfferUpdate(updatedOffer);
       res.json(updatedOffer);
     } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid lift offer status", details: error });
+      }
       console.error("Update lift offer error:", error);
       res.status(500).json({ error: "Failed to update lift offer" });
     }
   });
 
-  app.delete("/api/lift-offers/:id", async (req, res) => {
+  // Cancels a lift's requested and accepted bookings as its driver and tells each passenger why
+  const cancelLiftBookings = async (offer: LiftOffer, bookings: LiftBooking[], reason: string) => {
+    const passengerIds: string[] = [];
+    for (const booking of bookings) {
+      if (booking.status !== "requested" && booking.status !== "accepted") continue;
+      const cancelled = await storage.transitionLiftBooking(booking.id, booking.status, "cancelled", offer.driverId);
+      if (!cancelled) continue;
+      passengerIds.push(booking.passengerId);
+      realtime.sendToUser(booking.passengerId, {
+        type: 'lift-booking',
+        userId: booking.passengerId,
+        bookingId: cancelled.id,
+        offerId: offer.id,
+        status: cancelled.status,
+        message: `Your lift booking to ${offer.toLocation} was cancelled: ${reason}`,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    if (passengerIds.length > 0) {
+      await refreshMetrics(offer.driverId, ...passengerIds);
+    }
+  };
+
+  // The offer, if the session user is its driver; otherwise the response has been sent
+  const ownLiftOffer = async (req: Request, res: Response): Promise<LiftOffer | undefined> => {
+    const offer = await storage.getLiftOffer(req.params.id);
+    if (!offer) {
+      res.status(404).json({ error: "Lift offer not found" });
+      return undefined;
+    }
+    if (offer.driverId !== req.session.userId) {
+      res.status(403).json({ error: "Only the driver can change this lift offer" });
+      return undefined;
+    }
+    return offer;
+  };
+
+  // Edit one offer; for a recurring offer's occurrence the rest of the series is unaffected
+  app.patch("/api/lift-offers/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const updates = updateLiftOfferSchema.parse(req.body);
+      if (!(await ownLiftOffer(req, res))) return;
+
+      // Accepted bookings have already taken their seats off availableSeats
+      if (updates.availableSeats !== undefined) {
+        const bookings = await storage.getLiftBookingsByOfferId(id);
+        if (bookings.some((b) => seatHoldingLiftBookingStatuses.includes(b.status))) {
+          return res.status(409).json({ error: "This lift has accepted bookings, so its seats can't be changed" });
+        }
+      }
+
+      const updatedOffer = await storage.updateLiftOffer(id, updates);
+      if (!updatedOffer) {
+        return res.status(404).json({ error: "Lift offer not found" });
+      }
+
+      publishLiftOfferUpdate(updatedOffer);
+      res.json(updatedOffer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid lift offer data", details: error.errors });
+      }
+      console.error("Edit lift offer error:", error);
+      res.status(500).json({ error: "Failed to update lift offer" });
+    }
+  });
+
+  // Skip one occurrence of a recurring offer; it won't be generated again
+  app.post("/api/lift-offers/:id/skip", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const offer = await ownLiftOffer(req, res);
+      if (!offer) return;
+      if (!offer.occurrenceDate) {
+        return res.status(400).json({ error: "Only occurrences of a recurring offer can be skipped" });
+      }
+
+      const bookings = await storage.getLiftBookingsByOfferId(id);
+      if (bookings.some((b) => activeLiftBookingStatuses.includes(b.status))) {
+        return res.status(409).json({ error: "This lift has bookings; cancel them before skipping it" });
+      }
+
+      const skipped = await storage.updateLiftOfferStatus(id, "skipped");
+      publishLiftOfferUpdate(skipped!);
+      res.json(skipped);
+    } catch (error) {
+      console.error("Skip lift offer error:", error);
+      res.status(500).json({ error: "Failed to skip lift offer" });
+    }
+  });
+
+  app.get("/api/lift-offers/:id/occurrences", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const template = await storage.getLiftOffer(id);
+      if (!template || !template.recurrenceRule) {
+        return res.status(404).json({ error: "Recurring lift offer not found" });
+      }
+
+      res.json(await storage.getLiftOfferOccurrences(id));
+    } catch (error) {
+      console.error("Get lift offer occurrences error:", error);
+      res.status(500).json({ error: "Failed to get occurrences" });
+    }
+  });
+
+  app.delete("/api/lift-offers/:id", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
+      const offer = await ownLiftOffer(req, res);
+      if (!offer) return;
+
+      // Bookings are the passengers' record of the lift; a booked offer is cancelled instead
+      if ((await storage.getLiftBookingsByOfferId(id)).length > 0) {
+        return res.status(409).json({ error: "Lift offer has bookings; cancel it instead" });
+      }
+
+      // Deleting a recurring offer withdraws the occurrences that haven't happened yet, once nobody is booked on them
+      if (offer.status === "recurring") {
+        if ((await bookedFutureOccurrences(storage, id)).length > 0) {
+          return res.status(409).json({ error: "Upcoming lifts on this offer have bookings; cancel them before deleting it" });
+        }
+        const cancelled = await cancelFutureOccurrences(storage, id);
+        cancelled.forEach(publishLiftOfferUpdate);
+      }
+
       const deleted = await storage.deleteLiftOffer(id);
       
       if (!deleted) {
@@ -1208,12 +1736,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/lift-requests", async (req, res) => {
+  app.post("/api/lift-requests", requireAuth, async (req, res) => {
     try {
-      const validatedData = insertLiftRequestSchema.parse(req.body);
+      const body = await resolveThreeWordAddresses(req.body, LIFT_W3W_FIELDS);
+      const validatedData = createLiftRequestSchema.parse({ ...body, requesterId: req.session.userId });
       const request = await storage.createLiftRequest(validatedData);
+
+      // Watch the new request and alert matching drivers; a failure here shouldn't fail the post
+      try {
+        await subscribeLiftRequest(storage, request, notifyLiftMatch);
+      } catch (error) {
+        console.error("Lift request match subscription error:", error);
+      }
+
       res.json(request);
     } catch (error) {
+      if (error instanceof ThreeWordAddressError) {
+        return res.status(400).json({ error: error.message, field: error.field });
+      }
       if (error instanceof Error && error.name === "ZodError") {
         return res.status(400).json({ error: "Invalid lift request data", details: error });
       }
@@ -1224,8 +1764,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/lift-requests", async (req, res) => {
     try {
+      const hidden = await hiddenUserIds(storage, req.session?.userId);
       const requests = await storage.getAllLiftRequests();
-      res.json(requests);
+      res.json(requests.filter((request) => !hidden.has(request.requesterId)));
     } catch (error) {
       console.error("Get lift requests error:", error);
       res.status(500).json({ error: "Failed to get lift requests" });
@@ -1259,11 +1800,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Offers whose route and time window can take this request, best first, with a score breakdown
+  app.get("/api/lift-requests/:id/matches", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const includeIneligible = req.query.includeIneligible === "true";
+      const request = await storage.getLiftRequest(id);
+
+      if (!request) {
+        return res.status(404).json({ error: "Lift request not found" });
+      }
+
+      const blockedUserIds = new Set(await storage.getBlockedUserIds(request.requesterId));
+      const offers = (await storage.getAllLiftOffers()).filter((o) => o.driverId !== request.requesterId);
+      const offersById = new Map(offers.map((o) => [o.id, o]));
+      const matches = rankMatches(
+        offers.map((offer) => scoreLiftMatch(offer, request, { blockedUserIds })),
+        includeIneligible
+      );
+
+      res.json(matches.map((match) => ({ ...match, offer: offersById.get(match.offerId) })));
+    } catch (error) {
+      console.error("Get lift request matches error:", error);
+      res.status(500).json({ error: "Failed to get matches" });
+    }
+  });
+
   app.post("/api/lift-requests/find-matches", async (req, res) => {
     try {
       const { lat, lng, maxDistanceMiles, hoursAgo } = findMatchesSchema.parse(req.body);
       
-      const matches = await storage.findMatchingDrivers(lat, lng, maxDistanceMiles, hoursAgo);
+      const hidden = await hiddenUserIds(storage, req.session?.userId);
+      const matches = (await storage.findMatchingDrivers(lat, lng, maxDistanceMiles, hoursAgo))
+        .filter((match) => !hidden.has(match.scheduleUserId));
       
       const enrichedMatches = await Promise.all(
         matches.map(async (match) => {
@@ -1292,14 +1861,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/lift-requests/:id", async (req, res) => {
+  app.delete("/api/lift-requests/:id", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const deleted = await storage.deleteLiftRequest(id);
-      
-      if (!deleted) {
+      const request = await storage.getLiftRequest(id);
+
+      if (!request) {
         return res.status(404).json({ error: "Lift request not found" });
       }
+      if (request.requesterId !== req.session.userId) {
+        return res.status(403).json({ error: "Only the requester can delete this lift request" });
+      }
+      await storage.deleteLiftRequest(id);
 
       res.status(204).send();
     } catch (error) {
@@ -1308,10 +1881,202 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/messages", async (req, res) => {
+  // Lift bookings: a passenger reserves seats on an offer, the driver accepts or declines
+  app.post("/api/lift-offers/:id/bookings", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = { ...createLiftBookingSchema.parse(req.body), passengerId: req.session.userId! };
+      const seats = validatedData.seats ?? 1;
+
+      const offer = await storage.getLiftOffer(id);
+      if (!offer) {
+        return res.status(404).json({ error: "Lift offer not found" });
+      }
+      if (offer.driverId === validatedData.passengerId) {
+        return res.status(400).json({ error: "You can't book your own lift offer" });
+      }
+      const blocked = await storage.getBlockedUserIds(validatedData.passengerId);
+      if (blocked.includes(offer.driverId)) {
+        return res.status(403).json({ error: "You can't book a lift with this driver" });
+      }
+      if (offer.status !== "available" || offer.availableSeats < seats) {
+        return res.status(409).json({ error: "Not enough seats left on this offer", availableSeats: offer.availableSeats });
+      }
+
+      if (validatedData.requestId) {
+        const request = await storage.getLiftRequest(validatedData.requestId);
+        if (!request || request.requesterId !== validatedData.passengerId) {
+          return res.status(400).json({ error: "Lift request not found for this passenger" });
+        }
+      }
+
+      const existing = await storage.getLiftBookingsByOfferId(id);
+      if (existing.some((b) => b.passengerId === validatedData.passengerId && activeLiftBookingStatuses.includes(b.status))) {
+        return res.status(409).json({ error: "You already have a booking on this offer" });
+      }
+
+      const booking = await storage.createLiftBooking({ ...validatedData, offerId: id, seats });
+
+      const passenger = await storage.getUser(booking.passengerId);
+      realtime.sendToUser(offer.driverId, {
+        type: 'lift-booking',
+        userId: offer.driverId,
+        bookingId: booking.id,
+        offerId: offer.id,
+        status: booking.status,
+        message: `${passenger?.callSign || passenger?.name || "A driver"} asked for ${seats} seat${seats > 1 ? "s" : ""} to ${offer.toLocation}`,
+        timestamp: new Date().toISOString(),
+      });
+
+      res.json(booking);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid lift booking data", details: error });
+      }
+      console.error("Create lift booking error:", error);
+      res.status(500).json({ error: "Failed to create lift booking" });
+    }
+  });
+
+  app.get("/api/lift-offers/:id/bookings", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const bookings = await storage.getLiftBookingsByOfferId(id);
+      res.json(bookings);
+    } catch (error) {
+      console.error("Get offer lift bookings error:", error);
+      res.status(500).json({ error: "Failed to get lift bookings" });
+    }
+  });
+
+  app.get("/api/lift-bookings/passenger/:passengerId", async (req, res) => {
     try {
-      const validatedData = insertMessageSchema.parse(req.body);
-      const message = await storage.createMessage(validatedData);
+      const { passengerId } = req.params;
+      const bookings = await storage.getLiftBookingsByPassengerId(passengerId);
+      res.json(bookings);
+    } catch (error) {
+      console.error("Get passenger lift bookings error:", error);
+      res.status(500).json({ error: "Failed to get lift bookings" });
+    }
+  });
+
+  app.patch("/api/lift-bookings/:id/status", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { status } = liftBookingStatusSchema.parse(req.body);
+      const userId = req.session.userId!;
+
+      const booking = await storage.getLiftBooking(id);
+      if (!booking) {
+        return res.status(404).json({ error: "Lift booking not found" });
+      }
+      const offer = await storage.getLiftOffer(booking.offerId);
+      if (!offer) {
+        return res.status(404).json({ error: "Lift offer not found" });
+      }
+
+      const role = userId === offer.driverId ? "driver" : userId === booking.passengerId ? "passenger" : null;
+      if (!role) {
+        return res.status(403).json({ error: "Only the driver or passenger can update this booking" });
+      }
+
+      const allowedActor = liftBookingTransitions[booking.status]?.[status];
+      if (!allowedActor) {
+        return res.status(409).json({ error: "Invalid status transition", from: booking.status, to: status });
+      }
+      if (allowedActor !== "either" && allowedActor !== role) {
+        return res.status(403).json({ error: `Only the ${allowedActor} can mark this booking ${status}` });
+      }
+
+      const updatedBooking = await storage.transitionLiftBooking(id, booking.status, status, userId);
+      if (!updatedBooking) {
+        const error = status === "accepted"
+          ? "Not enough seats left on this offer"
+          : "Booking was updated by someone else, please refresh";
+        return res.status(409).json({ error });
+      }
+
+      // Accepting or cancelling an accepted booking moves seats on the offer
+      if (status === "accepted" || booking.status === "accepted") {
+        const updatedOffer = await storage.getLiftOffer(offer.id);
+        if (updatedOffer) publishLiftOfferUpdate(updatedOffer);
+      }
+
+      // Pickups feed the driver's punctuality; how a booking ends feeds both people's completion ratio
+      if (status !== "accepted") {
+        await refreshMetrics(offer.driverId, booking.passengerId);
+      }
+
+      if (status === "completed") {
+        await awardLiftPoints(storage, updatedBooking, offer.driverId);
+        await storage.checkAndAwardBadges(offer.driverId, "lift-completed");
+        await storage.checkAndAwardBadges(booking.passengerId, "lift-completed");
+      }
+
+      const otherUserId = role === "driver" ? booking.passengerId : offer.driverId;
+      const declined = status === "cancelled" && booking.status === "requested" && role === "driver";
+      realtime.sendToUser(otherUserId, {
+        type: 'lift-booking',
+        userId: otherUserId,
+        bookingId: updatedBooking.id,
+        offerId: offer.id,
+        status: updatedBooking.status,
+        message: `Your lift booking to ${offer.toLocation} was ${declined ? "declined" : status}`,
+        timestamp: new Date().toISOString(),
+      });
+
+      res.json(updatedBooking);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid lift booking status", details: error });
+      }
+      console.error("Update lift booking error:", error);
+      res.status(500).json({ error: "Failed to update lift booking" });
+    }
+  });
+
+  // Saved match watches, created automatically for each posted offer and request
+  app.get("/api/match-subscriptions/user/:userId", async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const subscriptions = await storage.getMatchSubscriptionsByUserId(userId);
+      res.json(subscriptions);
+    } catch (error) {
+      console.error("Get match subscriptions error:", error);
+      res.status(500).json({ error: "Failed to get match subscriptions" });
+    }
+  });
+
+  app.delete("/api/match-subscriptions/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const own = await storage.getMatchSubscriptionsByUserId(req.session.userId!);
+
+      if (!own.some((subscription) => subscription.id === id)) {
+        return res.status(404).json({ error: "Match subscription not found" });
+      }
+      await storage.updateMatchSubscriptionStatus(id, "cancelled");
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Cancel match subscription error:", error);
+      res.status(500).json({ error: "Failed to cancel match subscription" });
+    }
+  });
+
+  app.post("/api/messages", requireAuth, async (req, res) => {
+    try {
+      const { recordedAt, ...body } = createMessageSchema.parse(req.body);
+      const validatedData = { ...body, senderId: req.session.userId! };
+      const blocked = await storage.getBlockedUserIds(validatedData.senderId);
+      if (blocked.includes(validatedData.receiverId)) {
+        return res.status(403).json({ error: "You can't message this user" });
+      }
+      // A message queued offline keeps its place in the conversation
+      const message = await storage.createMessage(validatedData, recordedTime(req, recordedAt));
+      // Thank-yous count for the receiver, quick replies for the sender
+      await storage.checkAndAwardBadges(message.receiverId, "message");
+      await storage.checkAndAwardBadges(message.senderId, "message");
       res.json(message);
     } catch (error) {
       if (error instanceof Error && error.name === "ZodError") {
@@ -1345,20 +2110,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Gamification endpoints
-  app.post("/api/ratings", async (req, res) => {
+  // POST /api/ratings - The session user rates the other person on a completed lift booking, once,
+  // within the rating window
+  app.post("/api/ratings", requireAuth, async (req, res) => {
     try {
-      const validatedData = insertRatingSchema.parse(req.body);
-      const rating = await storage.createRating(validatedData);
+      const { bookingId, ...details } = createRatingSchema.parse(req.body);
+      const rating = await rateLift(storage, req.session.userId!, bookingId, details);
       res.json(rating);
     } catch (error) {
       if (error instanceof Error && error.name === "ZodError") {
         return res.status(400).json({ error: "Invalid rating data", details: error });
       }
+      if (error instanceof RatingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Create rating error:", error);
       res.status(500).json({ error: "Failed to create rating" });
     }
   });
 
+  // POST /api/ratings/:id/dispute - The rated user appeals a rating they believe is retaliatory; it
+  // keeps counting until a moderator decides
+  app.post("/api/ratings/:id/dispute", requireAuth, async (req, res) => {
+    try {
+      const { reason } = disputeRatingSchema.parse(req.body);
+      const rating = await disputeRating(storage, req.session.userId!, req.params.id, reason);
+      res.json(rating);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid dispute", details: error });
+      }
+      if (error instanceof RatingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Dispute rating error:", error);
+      res.status(500).json({ error: "Failed to dispute rating" });
+    }
+  });
+
+  // GET /api/ratings/disputes - Moderators' queue of disputed ratings, oldest first
+  app.get("/api/ratings/disputes", async (req, res) => {
+    try {
+      if (!req.session?.userId) {
+        return res.status(401).json({ error: "UNAUTHORIZED" });
+      }
+      const user = await storage.getUser(req.session.userId);
+      if (!user || !MODERATOR_ROLES.includes(user.role)) {
+        return res.status(403).json({ error: "Only moderators can review disputes" });
+      }
+      res.json(await storage.getDisputedRatings());
+    } catch (error) {
+      console.error("Get rating disputes error:", error);
+      res.status(500).json({ error: "Failed to get rating disputes" });
+    }
+  });
+
+  // POST /api/ratings/:id/resolve - A moderator upholds a disputed rating or removes it
+  app.post("/api/ratings/:id/resolve", requireAuth, async (req, res) => {
+    try {
+      const { outcome, notes } = resolveRatingDisputeSchema.parse(req.body);
+      const moderator = await storage.getUser(req.session.userId!);
+      if (!moderator) {
+        return res.status(401).json({ error: "UNAUTHORIZED" });
+      }
+      const rating = await resolveRatingDispute(storage, moderator, req.params.id, outcome, notes);
+      res.json(rating);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid dispute decision", details: error });
+      }
+      if (error instanceof RatingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Resolve rating dispute error:", error);
+      res.status(500).json({ error: "Failed to resolve rating dispute" });
+    }
+  });
+
   // User profile endpoints
   // GET /api/user - Get current authenticated user
   app.get("/api/user", async (req, res) => {
@@ -1400,15 +2228,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/users/:userId", async (req, res) => {
+  app.patch("/api/users/:userId", requireAuth, async (req, res) => {
     try {
       const { userId } = req.params;
+      if (userId !== req.session.userId) {
+        return res.status(403).json({ error: "You can only update your own profile" });
+      }
       const validated = updateUserProfileSchema.parse(req.body);
       
       const updates: any = {};
       if (validated.name) updates.name = validated.name.trim();
       if (validated.email !== undefined) updates.email = validated.email || null;
       if (validated.phone !== undefined) updates.phone = validated.phone || null;
+      if (validated.leaderboardOptOut !== undefined) updates.leaderboardOptOut = validated.leaderboardOptOut;
       
       const updatedUser = await storage.updateUser(userId, updates);
       
@@ -1428,6 +2260,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Subscription URL for the driver's jobs in their phone calendar
+  app.get("/api/users/:userId/calendar-feed", requireAuth, async (req, res) => {
+    try {
+      const { userId } = req.params;
+      // The link opens the feed without a session, so only hand it to its own driver
+      if (userId !== req.session.userId) {
+        return res.status(403).json({ error: "You can only get your own calendar feed" });
+      }
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const token = calendarFeedToken(userId);
+      const path = `/api/users/${encodeURIComponent(userId)}/calendar.ics?token=${token}`;
+      res.json({ path, url: `${req.protocol}://${req.get("host")}${path}` });
+    } catch (error) {
+      console.error("Get calendar feed error:", error);
+      res.status(500).json({ error: "Failed to get calendar feed" });
+    }
+  });
+
+  // Calendar apps fetch this without the session cookie, so the token is the credential
+  app.get("/api/users/:userId/calendar.ics", async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const token = typeof req.query.token === "string" ? req.query.token : "";
+      if (!verifyCalendarFeedToken(userId, token)) {
+        return res.status(403).json({ error: "Invalid calendar feed token" });
+      }
+
+      res.type("text/calendar; charset=utf-8");
+      res.send(await userCalendarIcs(storage, userId));
+    } catch (error) {
+      console.error("Calendar feed error:", error);
+      res.status(500).json({ error: "Failed to build calendar feed" });
+    }
+  });
+
   app.get("/api/users/:userId/stats", async (req, res) => {
     try {
       const { userId } = req.params;
@@ -1444,9 +2315,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/users/:userId/badges - Earned badges; ?includeProgress=true returns the whole catalog with
+  // progress, e.g. 7 of 10 lifts towards the next milestone. Reading never awards anything.
   app.get("/api/users/:userId/badges", async (req, res) => {
     try {
       const { userId } = req.params;
+      if (req.query.includeProgress === "true") {
+        return res.json(await badgeProgress(storage, userId));
+      }
       const badges = await storage.getUserBadges(userId);
       res.json(badges);
     } catch (error) {
@@ -1455,6 +2331,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/users/:userId/points - The user's total and every ledger entry behind it, newest first
+  app.get("/api/users/:userId/points", async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const ledger = await storage.getPointsLedger(userId);
+      const stats = await storage.getUserStats(userId);
+      res.json({ totalPoints: stats?.totalPoints ?? 0, ledger });
+    } catch (error) {
+      console.error("Get user points error:", error);
+      res.status(500).json({ error: "Failed to get user points" });
+    }
+  });
+
+  // GET /api/leaderboards?period=weekly|monthly|all-time&region=&tier=&page=&pageSize=&userId=
+  // Ranked by points earned in the period; region narrows it to users who usually check in there,
+  // and userId adds that user's own entry wherever it falls
+  app.get("/api/leaderboards", async (req, res) => {
+    try {
+      const query = leaderboardQuerySchema.parse(req.query);
+      res.json(await getLeaderboard(storage, query));
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid leaderboard query", details: error });
+      }
+      console.error("Get leaderboard error:", error);
+      res.status(500).json({ error: "Failed to get leaderboard" });
+    }
+  });
+
   app.get("/api/badges", async (req, res) => {
     try {
       const badges = await storage.getAllBadges();
@@ -1513,13 +2423,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/users/:userId/driver-type - Update user driver type (driver or loader)
-  app.post("/api/users/:userId/driver-type", async (req, res) => {
+  app.post("/api/users/:userId/driver-type", requireAuth, async (req, res) => {
     try {
       console.log("🔵 Received POST /api/users/:userId/driver-type");
       console.log("🔵 Request params:", req.params);
       console.log("🔵 Request body:", req.body);
       
       const { userId } = req.params;
+      if (userId !== req.session.userId) {
+        return res.status(403).json({ error: "You can only update your own profile" });
+      }
       const schema = z.object({
         driverType: z.enum(["driver", "loader"]),
       });
@@ -1565,12 +2478,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/checkins - Create a check-in
-  app.post("/api/checkins", async (req, res) => {
+  app.post("/api/checkins", requireAuth, async (req, res) => {
     try {
-      const validated = insertCheckInSchema.parse(req.body);
+      const body = await resolveThreeWordAddresses(req.body, CHECK_IN_W3W_FIELDS);
+      const validated = insertCheckInSchema.parse({ ...body, userId: req.session.userId });
       const checkIn = await storage.createCheckIn(validated);
       res.json(checkIn);
     } catch (error) {
+      if (error instanceof ThreeWordAddressError) {
+        return res.status(400).json({ error: error.message, field: error.field });
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid input", details: error.errors });
       }
@@ -1590,7 +2507,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const { lat, lng, maxDistanceMiles, driverType } = schema.parse(req.query);
-      const checkIns = await storage.getNearbyCheckIns(lat, lng, maxDistanceMiles, driverType);
+
+      // Drivers streaming their location are placed where they are now, not where they checked in
+      const hidden = await hiddenUserIds(storage, req.session?.userId);
+      const activeCheckIns = await storage.getNearbyCheckIns(lat, lng, Number.POSITIVE_INFINITY, driverType);
+      const checkIns = activeCheckIns
+        .filter((checkIn) => !hidden.has(checkIn.userId))
+        .map((checkIn) => {
+          const live = livePositions.get(checkIn.userId);
+          if (!live) return { ...checkIn, live: false, lastSeenAt: null };
+          return {
+            ...checkIn,
+            lat: live.lat,
+            lng: live.lng,
+            distance: haversineMiles({ lat, lng }, live),
+            live: true,
+            lastSeenAt: live.updatedAt,
+          };
+        })
+        .filter((checkIn) => checkIn.distance <= maxDistanceMiles)
+        .sort((a, b) => a.distance - b.distance);
+
       res.json(checkIns);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1601,11 +2538,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/live-positions - Drivers currently streaming their location over /ws
+  app.get("/api/live-positions", async (req, res) => {
+    try {
+      const schema = z.object({
+        lat: z.coerce.number(),
+        lng: z.coerce.number(),
+        maxDistanceMiles: z.coerce.number().optional().default(25),
+      });
+
+      const { lat, lng, maxDistanceMiles } = schema.parse(req.query);
+      const hidden = await hiddenUserIds(storage, req.session?.userId);
+      const positions = await Promise.all(
+        livePositions.nearby({ lat, lng }, maxDistanceMiles).map(async (position) => {
+          const driver = await storage.getUser(position.userId);
+          return driver && !hidden.has(driver.id)
+            ? { ...position, driverName: driver.name, callSign: driver.callSign }
+            : null;
+        })
+      );
+
+      res.json(positions.filter((position) => position !== null));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      console.error("Get live positions error:", error);
+      res.status(500).json({ error: "Failed to get live positions" });
+    }
+  });
+
   // GET /api/checkins/active - Get all active check-ins
-  app.get("/api/checkins/active", async (_req, res) => {
+  app.get("/api/checkins/active", async (req, res) => {
     try {
+      const hidden = await hiddenUserIds(storage, req.session?.userId);
       const checkIns = await storage.getActiveCheckIns();
-      res.json(checkIns);
+      res.json(checkIns.filter((checkIn) => !hidden.has(checkIn.userId)));
     } catch (error) {
       console.error("Get active check-ins error:", error);
       res.status(500).json({ error: "Failed to get active check-ins" });
@@ -1625,13 +2593,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // DELETE /api/checkins/:id - Delete a check-in
-  app.delete("/api/checkins/:id", async (req, res) => {
+  app.delete("/api/checkins/:id", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const deleted = await storage.deleteCheckIn(id);
-      if (!deleted) {
+      const checkIn = await storage.getCheckIn(id);
+      if (!checkIn) {
         return res.status(404).json({ error: "Check-in not found" });
       }
+      if (checkIn.userId !== req.session.userId) {
+        return res.status(403).json({ error: "Only the driver can delete this check-in" });
+      }
+      await storage.deleteCheckIn(id);
       res.json({ success: true });
     } catch (error) {
       console.error("Delete check-in error:", error);
@@ -1640,12 +2612,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/loader-spaces - Create a loader space advertisement
-  app.post("/api/loader-spaces", async (req, res) => {
+  app.post("/api/loader-spaces", requireAuth, async (req, res) => {
     try {
-      const validated = insertLoaderSpaceSchema.parse(req.body);
+      const body = await resolveThreeWordAddresses(req.body, LOADER_SPACE_W3W_FIELDS);
+      const validated = insertLoaderSpaceSchema.parse({ ...body, userId: req.session.userId });
       const space = await storage.createLoaderSpace(validated);
       res.json(space);
     } catch (error) {
+      if (error instanceof ThreeWordAddressError) {
+        return res.status(400).json({ error: error.message, field: error.field });
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid input", details: error.errors });
       }
@@ -1655,10 +2631,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // GET /api/loader-spaces/available - Get all available loader spaces
-  app.get("/api/loader-spaces/available", async (_req, res) => {
+  app.get("/api/loader-spaces/available", async (req, res) => {
     try {
+      const hidden = await hiddenUserIds(storage, req.session?.userId);
       const spaces = await storage.getAllAvailableLoaderSpaces();
-      res.json(spaces);
+      res.json(spaces.filter((space) => !hidden.has(space.userId)));
     } catch (error) {
       console.error("Get available loader spaces error:", error);
       res.status(500).json({ error: "Failed to get available loader spaces" });
@@ -1678,7 +2655,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // PATCH /api/loader-spaces/:id/status - Update loader space status
-  app.patch("/api/loader-spaces/:id/status", async (req, res) => {
+  app.patch("/api/loader-spaces/:id/status", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
       const schema = z.object({
@@ -1686,11 +2663,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const { status } = schema.parse(req.body);
-      const space = await storage.updateLoaderSpaceStatus(id, status);
-
-      if (!space) {
+      const existing = await storage.getLoaderSpace(id);
+      if (!existing) {
         return res.status(404).json({ error: "Loader space not found" });
       }
+      if (existing.userId !== req.session.userId) {
+        return res.status(403).json({ error: "Only the loader can change this space" });
+      }
+      const space = await storage.updateLoaderSpaceStatus(id, status);
 
       res.json(space);
     } catch (error) {
@@ -1700,13 +2680,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // DELETE /api/loader-spaces/:id - Delete a loader space
-  app.delete("/api/loader-spaces/:id", async (req, res) => {
+  app.delete("/api/loader-spaces/:id", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const deleted = await storage.deleteLoaderSpace(id);
-      if (!deleted) {
+      const space = await storage.getLoaderSpace(id);
+      if (!space) {
         return res.status(404).json({ error: "Loader space not found" });
       }
+      if (space.userId !== req.session.userId) {
+        return res.status(403).json({ error: "Only the loader can delete this space" });
+      }
+      await storage.deleteLoaderSpace(id);
       res.json({ success: true });
     } catch (error) {
       console.error("Delete loader space error:", error);
@@ -1716,38 +2700,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
 
-  // WebSocket server for real-time notifications
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  
-  wss.on('connection', (ws) => {
-    console.log('Client connected to WebSocket');
-    
-    ws.on('message', (data) => {
-      try {
-        const message = JSON.parse(data.toString());
-        console.log('Received WebSocket message:', message);
-      } catch (error) {
-        console.error('Invalid WebSocket message:', error);
-      }
-    });
-
-    ws.on('close', () => {
-      console.log('Client disconnected from WebSocket');
-    });
-  });
-
-  // Broadcast function to notify all connected clients
-  function broadcastNotification(notification: any) {
-    const message = JSON.stringify(notification);
-    wss.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(message);
-      }
-    });
-  }
-
-  // Store broadcast function for use in routes
-  (app as any).broadcastNotification = broadcastNotification;
+  // Authenticated WebSocket server for real-time notifications
+  realtime.attach(httpServer, sessionMiddleware);
 
   return httpServer;
 }
@@ -1,8 +1,10 @@
 import type { Express } from "express";
-import bcrypt from "bcrypt";
+import bcrypt from "bcryptjs";
 import { storage } from "../storage";
+import { realtime } from "../realtime";
 import { insertUserSchema } from "@shared/schema";
 import { fromError } from "zod-validation-error";
+import { accountRestriction } from "../moderation";
 
 const SALT_ROUNDS = 10;
 
@@ -67,6 +69,11 @@ export function registerAuthRoutes(app: Express) {
         return res.status(401).json({ error: "Invalid credentials" });
       }
 
+      const restriction = accountRestriction(user);
+      if (restriction) {
+        return res.status(403).json({ error: restriction });
+      }
+
       // Set session
       req.session.userId = user.id;
 
@@ -80,6 +87,7 @@ export function registerAuthRoutes(app: Express) {
 
   // Logout
   app.post("/api/auth/logout", (req, res) => {
+    realtime.closeSession(req.sessionID);
     req.session.destroy((err) => {
       if (err) {
         return res.status(500).json({ error: "Failed to logout" });
@@ -100,6 +108,14 @@ export function registerAuthRoutes(app: Express) {
         return res.status(404).json({ error: "User not found" });
       }
 
+      // Suspended or banned while signed in: end the session
+      const restriction = accountRestriction(user);
+      if (restriction) {
+        realtime.closeSession(req.sessionID);
+        req.session.destroy(() => res.status(403).json({ error: restriction }));
+        return;
+      }
+
       // Return user without password
       const { password: _, ...userWithoutPassword } = user;
       res.json({ user: userWithoutPassword });
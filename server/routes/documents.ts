@@ -0,0 +1,130 @@
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { fromError } from "zod-validation-error";
+import type { UserDocument } from "@shared/schema";
+import { storage } from "../storage";
+import { realtime } from "../realtime";
+import { blobStore } from "../blob-store";
+import { requireAuth } from "../middleware/requireAuth";
+import { requireAdmin } from "../middleware/requireAdmin";
+import {
+  DOCUMENT_TYPES,
+  DocumentError,
+  getDocumentFile,
+  reviewDocument,
+  startDocumentExpiryJob,
+  uploadDocument,
+  type DocumentNotification,
+} from "../documents";
+
+// The file travels base64-encoded in the JSON body (see the /api/documents body limit in index.ts)
+const uploadDocumentSchema = z.object({
+  type: z.enum(DOCUMENT_TYPES),
+  documentNumber: z.string().trim().min(1).max(100),
+  expiresAt: z.coerce.date(),
+  fileName: z.string().trim().min(1).max(255),
+  contentType: z.string(),
+  content: z.string().min(1),
+});
+
+const reviewDocumentSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+  reason: z.string().max(1000).optional(),
+});
+
+// What the owner and moderators see; the blob key stays on the server
+function documentView({ blobKey: _, ...document }: UserDocument) {
+  return document;
+}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: fromError(error).toString() });
+  }
+  if (error instanceof DocumentError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+export function registerDocumentRoutes(app: Express) {
+  const notifyDocument = (notification: DocumentNotification) => {
+    realtime.sendToUser(notification.userId, notification);
+  };
+
+  // Expired documents unverify their owners, and reminders go out before that, while the server runs
+  startDocumentExpiryJob(storage, notifyDocument);
+
+  // Upload a trade plate or insurance document for review
+  app.post("/api/documents", requireAuth, async (req, res) => {
+    try {
+      const { content, ...details } = uploadDocumentSchema.parse(req.body);
+      const document = await uploadDocument(storage, blobStore, req.session.userId!, {
+        ...details,
+        data: Buffer.from(content, "base64"),
+      });
+      res.status(201).json(documentView(document));
+    } catch (error) {
+      sendError(res, error, "Failed to upload document");
+    }
+  });
+
+  // The session user's documents, newest first
+  app.get("/api/documents", requireAuth, async (req, res) => {
+    try {
+      const documents = await storage.getUserDocumentsByUserId(req.session.userId!);
+      res.json(documents.map(documentView));
+    } catch (error) {
+      sendError(res, error, "Failed to get documents");
+    }
+  });
+
+  app.get("/api/documents/:id/file", requireAuth, async (req, res) => {
+    try {
+      const viewer = await storage.getUser(req.session.userId!);
+      if (!viewer) {
+        return res.status(401).json({ error: "User not found" });
+      }
+      const { document, data } = await getDocumentFile(storage, blobStore, viewer, req.params.id);
+      res.setHeader("Content-Type", document.contentType);
+      res.setHeader("Content-Disposition", `inline; filename="${encodeURIComponent(document.fileName)}"`);
+      res.send(data);
+    } catch (error) {
+      sendError(res, error, "Failed to get document file");
+    }
+  });
+
+  // Review queue: documents awaiting a decision, oldest first, with their owner
+  app.get("/api/admin/documents", requireAdmin, async (_req, res) => {
+    try {
+      const queue = await Promise.all((await storage.getUserDocumentsByStatus("pending")).map(async (document) => {
+        const owner = await storage.getUser(document.userId);
+        return {
+          ...documentView(document),
+          user: owner ? { id: owner.id, name: owner.name, callSign: owner.callSign, verified: owner.verified } : null,
+        };
+      }));
+      res.json(queue);
+    } catch (error) {
+      sendError(res, error, "Failed to get documents");
+    }
+  });
+
+  // Approve a document, or reject it with a reason
+  app.patch("/api/admin/documents/:id", requireAdmin, async (req, res) => {
+    try {
+      const { decision, reason } = reviewDocumentSchema.parse(req.body);
+      const document = await reviewDocument(
+        storage,
+        req.session.userId!,
+        req.params.id,
+        { approve: decision === "approve", reason },
+        notifyDocument,
+      );
+      res.json(documentView(document));
+    } catch (error) {
+      sendError(res, error, "Failed to review document");
+    }
+  });
+}
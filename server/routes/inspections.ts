@@ -0,0 +1,92 @@
+import type { Express, Request, Response } from "express";
+import type { Job } from "@shared/schema";
+import { storage } from "../storage";
+import { blobStore } from "../blob-store";
+import { requireAuth } from "../middleware/requireAuth";
+import {
+  InspectionError,
+  getJobInspections,
+  inspectionReportPdf,
+  inspectionReportToken,
+  verifyInspectionReportToken,
+} from "../vehicle-inspections";
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof InspectionError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// The job, if it is on the session user's schedule
+async function ownJob(req: Request): Promise<Job> {
+  const job = await storage.getJob(req.params.id);
+  if (!job) throw new InspectionError("Job not found", 404);
+  const schedule = await storage.getSchedule(job.scheduleId);
+  if (schedule?.userId !== req.session.userId) {
+    throw new InspectionError("Only the job's driver can see its condition reports", 403);
+  }
+  return job;
+}
+
+// Inspections are recorded with POST /api/jobs/:id/check-in and /check-out (see routes.ts)
+export function registerInspectionRoutes(app: Express) {
+  // Pickup and dropoff reports, and what changed between them once both are in
+  app.get("/api/jobs/:id/inspections", requireAuth, async (req, res) => {
+    try {
+      const job = await ownJob(req);
+      res.json(await getJobInspections(storage, job.id));
+    } catch (error) {
+      sendError(res, error, "Failed to get inspections");
+    }
+  });
+
+  app.get("/api/jobs/:id/inspections/photos/:photoId", requireAuth, async (req, res) => {
+    try {
+      const job = await ownJob(req);
+      const photo = await storage.getInspectionPhoto(req.params.photoId);
+      const inspections = photo ? await storage.getVehicleInspectionsByJobId(job.id) : [];
+      if (!photo || !inspections.some((inspection) => inspection.id === photo.inspectionId)) {
+        return res.status(404).json({ error: "Photo not found" });
+      }
+      const data = await blobStore.get(photo.blobKey);
+      if (!data) {
+        return res.status(404).json({ error: "Photo file not found" });
+      }
+      res.type(photo.contentType).send(data);
+    } catch (error) {
+      sendError(res, error, "Failed to get inspection photo");
+    }
+  });
+
+  // Link to the PDF report, to share with the customer or whoever receives the vehicle
+  app.get("/api/jobs/:id/inspection-report", requireAuth, async (req, res) => {
+    try {
+      const job = await ownJob(req);
+      const path = `/api/jobs/${encodeURIComponent(job.id)}/inspection-report.pdf?token=${inspectionReportToken(job.id)}`;
+      res.json({ path, url: `${req.protocol}://${req.get("host")}${path}` });
+    } catch (error) {
+      sendError(res, error, "Failed to get inspection report link");
+    }
+  });
+
+  // Whoever has the link can open the report without signing in, so the token is the credential
+  app.get("/api/jobs/:id/inspection-report.pdf", async (req, res) => {
+    try {
+      const token = typeof req.query.token === "string" ? req.query.token : "";
+      if (!verifyInspectionReportToken(req.params.id, token)) {
+        return res.status(403).json({ error: "Invalid inspection report token" });
+      }
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.type("application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="condition-report-${job.id}.pdf"`);
+      res.send(await inspectionReportPdf(storage, blobStore, job));
+    } catch (error) {
+      sendError(res, error, "Failed to build inspection report");
+    }
+  });
+}
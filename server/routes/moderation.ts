@@ -0,0 +1,136 @@
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { fromError } from "zod-validation-error";
+import { storage } from "../storage";
+import { realtime } from "../realtime";
+import { requireAuth } from "../middleware/requireAuth";
+import { requireAdmin } from "../middleware/requireAdmin";
+import {
+  MODERATION_ACTIONS,
+  REPORT_REASONS,
+  REPORT_STATUSES,
+  ModerationError,
+  blockUser,
+  reportUser,
+  reviewReport,
+  unblockUser,
+} from "../moderation";
+
+const createReportSchema = z.object({
+  reportedUserId: z.string().min(1),
+  reason: z.enum(REPORT_REASONS),
+  description: z.string().max(2000).optional(),
+});
+
+const blockSchema = z.object({
+  blockedUserId: z.string().min(1),
+});
+
+const reportQueueSchema = z.object({
+  status: z.enum(REPORT_STATUSES).optional().default("pending"),
+});
+
+const reviewReportSchema = z.object({
+  status: z.enum(["reviewed", "action_taken", "dismissed"]),
+  action: z.enum(MODERATION_ACTIONS).optional(),
+  suspensionDays: z.number().int().min(1).max(365).optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: fromError(error).toString() });
+  }
+  if (error instanceof ModerationError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+export function registerModerationRoutes(app: Express) {
+  // Report another user to the moderators
+  app.post("/api/reports", requireAuth, async (req, res) => {
+    try {
+      const details = createReportSchema.parse(req.body);
+      const report = await reportUser(storage, req.session.userId!, details);
+      res.status(201).json(report);
+    } catch (error) {
+      sendError(res, error, "Failed to create report");
+    }
+  });
+
+  // The people the session user has blocked
+  app.get("/api/blocks", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getBlocksByBlockerId(req.session.userId!));
+    } catch (error) {
+      sendError(res, error, "Failed to get blocks");
+    }
+  });
+
+  // Block a user; blocking someone already blocked returns the existing block
+  app.post("/api/blocks", requireAuth, async (req, res) => {
+    try {
+      const { blockedUserId } = blockSchema.parse(req.body);
+      const block = await blockUser(storage, req.session.userId!, blockedUserId);
+      res.status(201).json(block);
+    } catch (error) {
+      sendError(res, error, "Failed to block user");
+    }
+  });
+
+  app.delete("/api/blocks/:blockedUserId", requireAuth, async (req, res) => {
+    try {
+      await unblockUser(storage, req.session.userId!, req.params.blockedUserId);
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "Failed to unblock user");
+    }
+  });
+
+  // Moderation queue: pending reports by default, oldest first, with both users attached
+  app.get("/api/admin/reports", requireAdmin, async (req, res) => {
+    try {
+      const { status } = reportQueueSchema.parse(req.query);
+      const queue = await Promise.all((await storage.getReports(status)).map(async (report) => {
+        const [reporter, reportedUser] = await Promise.all([
+          storage.getUser(report.reporterId),
+          storage.getUser(report.reportedUserId),
+        ]);
+        return {
+          ...report,
+          reporter: reporter ? { id: reporter.id, name: reporter.name, callSign: reporter.callSign } : null,
+          reportedUser: reportedUser ? {
+            id: reportedUser.id,
+            name: reportedUser.name,
+            callSign: reportedUser.callSign,
+            accountStatus: reportedUser.accountStatus,
+            suspendedUntil: reportedUser.suspendedUntil,
+            warningCount: reportedUser.warningCount,
+          } : null,
+        };
+      }));
+      res.json(queue);
+    } catch (error) {
+      sendError(res, error, "Failed to get reports");
+    }
+  });
+
+  // Review a report and, for action_taken, warn, suspend or ban the reported user
+  app.patch("/api/admin/reports/:id", requireAdmin, async (req, res) => {
+    try {
+      const decision = reviewReportSchema.parse(req.body);
+      const { report, user } = await reviewReport(storage, req.session.userId!, req.params.id, decision);
+      if (decision.action === "suspend" || decision.action === "ban") {
+        realtime.closeUser(user.id);
+      }
+      res.json({
+        report,
+        user: { id: user.id, accountStatus: user.accountStatus, suspendedUntil: user.suspendedUntil, warningCount: user.warningCount },
+      });
+    } catch (error) {
+      sendError(res, error, "Failed to review report");
+    }
+  });
+}
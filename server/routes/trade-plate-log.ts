@@ -0,0 +1,103 @@
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { fromError } from "zod-validation-error";
+import { vehicleIdentifierSchema } from "@shared/schema";
+import { storage } from "../storage";
+import { requireAuth } from "../middleware/requireAuth";
+import {
+  TRADE_PLATE_LOG_FORMATS,
+  TradePlateLogError,
+  editLogEntry,
+  getLogEntryEdits,
+  tradePlateLogCsv,
+  tradePlateLogFileName,
+  tradePlateLogPdf,
+  type TradePlateLogFilter,
+} from "../trade-plate-log";
+
+const dateKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const logFilterSchema = z.object({
+  plate: vehicleIdentifierSchema,
+  from: dateKey.optional(),
+  to: dateKey.optional(),
+});
+
+const exportLogSchema = logFilterSchema.extend({
+  format: z.enum(TRADE_PLATE_LOG_FORMATS).default("csv"),
+});
+
+const editLogEntrySchema = z.object({
+  plateNumber: vehicleIdentifierSchema,
+  vehicleRegistration: vehicleIdentifierSchema,
+  startTime: z.coerce.date().optional(),
+  endTime: z.coerce.date().nullable().optional(),
+  startLocation: z.string().trim().min(1).max(200).optional(),
+  endLocation: z.string().trim().min(1).max(200).optional(),
+  purpose: z.string().trim().min(1).max(100).optional(),
+  reason: z.string().max(500),
+});
+
+function logFilter(query: z.infer<typeof logFilterSchema>): TradePlateLogFilter {
+  return { plateNumber: query.plate ?? undefined, from: query.from, to: query.to };
+}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: fromError(error).toString() });
+  }
+  if (error instanceof TradePlateLogError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+export function registerTradePlateLogRoutes(app: Express) {
+  // The session user's log, in start order, for an optional plate and date range
+  app.get("/api/trade-plate-log", requireAuth, async (req, res) => {
+    try {
+      const filter = logFilter(logFilterSchema.parse(req.query));
+      res.json(await storage.getTradePlateLog(req.session.userId!, filter));
+    } catch (error) {
+      sendError(res, error, "Failed to get trade plate log");
+    }
+  });
+
+  app.get("/api/trade-plate-log/export", requireAuth, async (req, res) => {
+    try {
+      const { format, ...query } = exportLogSchema.parse(req.query);
+      const filter = logFilter(query);
+      const entries = await storage.getTradePlateLog(req.session.userId!, filter);
+      res.setHeader("Content-Disposition", `attachment; filename="${tradePlateLogFileName(format, filter)}"`);
+      if (format === "pdf") {
+        const driver = await storage.getUser(req.session.userId!);
+        res.type("application/pdf").send(tradePlateLogPdf(entries, driver?.name ?? "", filter));
+      } else {
+        res.type("text/csv").send(tradePlateLogCsv(entries));
+      }
+    } catch (error) {
+      sendError(res, error, "Failed to export trade plate log");
+    }
+  });
+
+  // Correct an entry; the reason and each changed field go into its audit trail
+  app.patch("/api/trade-plate-log/:id", requireAuth, async (req, res) => {
+    try {
+      const { reason, ...correction } = editLogEntrySchema.parse(req.body);
+      const { entry } = await editLogEntry(storage, req.session.userId!, req.params.id, correction, reason);
+      res.json(entry);
+    } catch (error) {
+      sendError(res, error, "Failed to update trade plate log entry");
+    }
+  });
+
+  // The entry's audit trail, oldest first
+  app.get("/api/trade-plate-log/:id/edits", requireAuth, async (req, res) => {
+    try {
+      res.json(await getLogEntryEdits(storage, req.session.userId!, req.params.id));
+    } catch (error) {
+      sendError(res, error, "Failed to get trade plate log edits");
+    }
+  });
+}
@@ -0,0 +1,257 @@
+// Routing Providers
+// Journey distance and driving time behind one interface: Mapbox Directions (traffic-aware),
+// any OSRM-compatible HTTP server, an offline heuristic on the shared speed model, and recorded
+// fixtures for tests. Providers are tried in order with failover, and answers are cached by
+// rounded coordinates and departure hour.
+
+import { readFileSync } from "fs";
+import { haversineMiles, type Coordinates } from "./ai-routing-utils";
+import { estimateDriveMinutes, roadMiles } from "@shared/speed-model";
+
+const METERS_PER_MILE = 1609.34;
+const REQUEST_TIMEOUT_MS = 15000;
+// A provider that fails is skipped for a while rather than slowing every request
+const FAILURE_COOLDOWN_MS = 60 * 1000;
+const CACHE_TTL_MS = 15 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 1000;
+// Departures this close to now are routed on live traffic
+const LIVE_TRAFFIC_WINDOW_MS = 15 * 60 * 1000;
+
+export interface RouteQuery {
+  from: Coordinates;
+  to: Coordinates;
+  departure?: Date;
+}
+
+export interface JourneyRoute {
+  distanceMiles: number;
+  drivingMinutes: number;
+  trafficAware: boolean;
+  provider: string;
+}
+
+export interface RoutingProvider {
+  readonly name: string;
+  route(query: RouteQuery): Promise<JourneyRoute>;
+}
+
+export class RoutingError extends Error {
+  constructor(readonly provider: string, message: string) {
+    super(`${provider}: ${message}`);
+    this.name = "RoutingError";
+  }
+}
+
+// ~110m at UK latitudes: close enough to share a route, far enough apart to be different streets
+export function coordinateKey({ from, to }: RouteQuery): string {
+  return [from.lat, from.lng, to.lat, to.lng].map(n => n.toFixed(3)).join(",");
+}
+
+export function routeCacheKey(query: RouteQuery): string {
+  const departure = query.departure ?? new Date();
+  return `${coordinateKey(query)}@${departure.toISOString().slice(0, 13)}`;
+}
+
+// Offline: straight-line distance scaled to road miles on the shared speed model
+export class HeuristicRoutingProvider implements RoutingProvider {
+  readonly name = "heuristic";
+
+  async route({ from, to, departure }: RouteQuery): Promise<JourneyRoute> {
+    const straightLine = haversineMiles(from, to);
+    return {
+      distanceMiles: roadMiles(straightLine),
+      drivingMinutes: estimateDriveMinutes(straightLine, departure),
+      trafficAware: false,
+      provider: this.name,
+    };
+  }
+}
+
+// Mapbox and OSRM share the Directions response shape: routes[0].duration in seconds, distance in meters
+async function fetchDirections(provider: string, url: string): Promise<{ duration: number; distance: number }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: controller.signal });
+  } catch (error: any) {
+    throw new RoutingError(provider, error.name === "AbortError" ? "timed out" : error.message);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (!response.ok) {
+    throw new RoutingError(provider, `HTTP ${response.status} ${(await response.text()).slice(0, 200)}`);
+  }
+  const data = await response.json();
+  const route = data.routes?.[0];
+  if (!route || typeof route.duration !== "number" || typeof route.distance !== "number") {
+    throw new RoutingError(provider, `no route (${data.code ?? "empty response"})`);
+  }
+  return route;
+}
+
+function toJourneyRoute(provider: string, route: { duration: number; distance: number }, trafficAware: boolean): JourneyRoute {
+  return {
+    distanceMiles: route.distance / METERS_PER_MILE,
+    drivingMinutes: Math.ceil(route.duration / 60),
+    trafficAware,
+    provider,
+  };
+}
+
+// Mapbox Directions with the driving-traffic profile: live traffic for journeys leaving now, predicted
+// traffic (depart_at) for later ones. Past departures get today's traffic, so they aren't traffic-aware.
+// Free tier: 100K requests/month (typical usage: ~9K/month for 100 drivers)
+export class MapboxRoutingProvider implements RoutingProvider {
+  readonly name = "mapbox";
+
+  constructor(private apiKey: string, private baseUrl = "https://api.mapbox.com") {}
+
+  async route({ from, to, departure }: RouteQuery): Promise<JourneyRoute> {
+    const coords = `${from.lng},${from.lat};${to.lng},${to.lat}`;
+    let url = `${this.baseUrl}/directions/v5/mapbox/driving-traffic/${coords}?access_token=${this.apiKey}&overview=false`;
+    const now = Date.now();
+    if (departure && departure.getTime() > now + LIVE_TRAFFIC_WINDOW_MS) {
+      url += `&depart_at=${encodeURIComponent(departure.toISOString().slice(0, 16))}`;
+    }
+    const trafficAware = !departure || departure.getTime() >= now - LIVE_TRAFFIC_WINDOW_MS;
+    return toJourneyRoute(this.name, await fetchDirections(this.name, url), trafficAware);
+  }
+}
+
+// Self-hosted or public OSRM (and compatible servers such as Valhalla's OSRM endpoint)
+export class OsrmRoutingProvider implements RoutingProvider {
+  readonly name = "osrm";
+
+  constructor(private baseUrl: string, private profile = "driving") {}
+
+  async route({ from, to }: RouteQuery): Promise<JourneyRoute> {
+    const coords = `${from.lng},${from.lat};${to.lng},${to.lat}`;
+    const url = `${this.baseUrl.replace(/\/$/, "")}/route/v1/${this.profile}/${coords}?overview=false`;
+    return toJourneyRoute(this.name, await fetchDirections(this.name, url), false);
+  }
+}
+
+export interface RecordedRoute {
+  from: Coordinates;
+  to: Coordinates;
+  distanceMiles: number;
+  drivingMinutes: number;
+  trafficAware?: boolean;
+}
+
+// Answers only from recorded routes, so tests calculate journeys with no network
+export class FixtureRoutingProvider implements RoutingProvider {
+  readonly name = "fixture";
+  private routes = new Map<string, RecordedRoute>();
+
+  constructor(recorded: RecordedRoute[]) {
+    for (const route of recorded) this.routes.set(coordinateKey(route), route);
+  }
+
+  static fromFile(path: string): FixtureRoutingProvider {
+    return new FixtureRoutingProvider(JSON.parse(readFileSync(path, "utf-8")));
+  }
+
+  async route(query: RouteQuery): Promise<JourneyRoute> {
+    const recorded = this.routes.get(coordinateKey(query));
+    if (!recorded) throw new RoutingError(this.name, `no recorded route for ${coordinateKey(query)}`);
+    return {
+      distanceMiles: recorded.distanceMiles,
+      drivingMinutes: recorded.drivingMinutes,
+      trafficAware: recorded.trafficAware ?? false,
+      provider: this.name,
+    };
+  }
+}
+
+// Tries each provider in turn, skipping ones that failed recently
+export class FailoverRoutingProvider implements RoutingProvider {
+  readonly name: string;
+  private skipUntil = new Map<string, number>();
+
+  constructor(private providers: RoutingProvider[], private cooldownMs = FAILURE_COOLDOWN_MS) {
+    if (providers.length === 0) throw new Error("FailoverRoutingProvider needs at least one provider");
+    this.name = providers.map(p => p.name).join(",");
+  }
+
+  async route(query: RouteQuery): Promise<JourneyRoute> {
+    const errors: string[] = [];
+    const now = Date.now();
+    for (let i = 0; i < this.providers.length; i++) {
+      const provider = this.providers[i];
+      const isLast = i === this.providers.length - 1;
+      if (!isLast && (this.skipUntil.get(provider.name) ?? 0) > now) continue;
+      try {
+        const route = await provider.route(query);
+        this.skipUntil.delete(provider.name);
+        return route;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Routing provider ${provider.name} failed, trying the next:`, message);
+        errors.push(message);
+        this.skipUntil.set(provider.name, now + this.cooldownMs);
+      }
+    }
+    throw new RoutingError(this.name, `all providers failed (${errors.join("; ")})`);
+  }
+}
+
+// Caches answers by rounded coordinates and departure hour; Map order doubles as LRU order
+export class CachedRoutingProvider implements RoutingProvider {
+  private entries = new Map<string, { route: JourneyRoute; expiresAt: number }>();
+
+  constructor(private inner: RoutingProvider, private ttlMs = CACHE_TTL_MS, private maxEntries = CACHE_MAX_ENTRIES) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async route(query: RouteQuery): Promise<JourneyRoute> {
+    const key = routeCacheKey(query);
+    const now = Date.now();
+    const hit = this.entries.get(key);
+    if (hit && hit.expiresAt > now) {
+      this.entries.delete(key);
+      this.entries.set(key, hit);
+      return hit.route;
+    }
+
+    const route = await this.inner.route(query);
+    this.entries.delete(key);
+    this.entries.set(key, { route, expiresAt: now + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return route;
+  }
+}
+
+// ROUTING_FIXTURES=path answers only from recorded routes (tests, offline demos).
+// Otherwise ROUTING_PROVIDERS picks the order (default "mapbox,osrm"); mapbox needs MAPBOX_API_KEY
+// and osrm needs OSRM_URL, unconfigured ones are left out. The offline heuristic is always the last resort.
+export function createRoutingProvider(env: NodeJS.ProcessEnv = process.env): RoutingProvider {
+  if (env.ROUTING_FIXTURES) {
+    return FixtureRoutingProvider.fromFile(env.ROUTING_FIXTURES);
+  }
+
+  const providers: RoutingProvider[] = [];
+  const names = (env.ROUTING_PROVIDERS || "mapbox,osrm").split(",").map(n => n.trim()).filter(Boolean);
+  for (const name of names) {
+    if (name === "mapbox" && env.MAPBOX_API_KEY) providers.push(new MapboxRoutingProvider(env.MAPBOX_API_KEY));
+    else if (name === "osrm" && env.OSRM_URL) providers.push(new OsrmRoutingProvider(env.OSRM_URL));
+    else if (name !== "mapbox" && name !== "osrm" && name !== "heuristic") {
+      console.warn(`Unknown routing provider "${name}" in ROUTING_PROVIDERS, ignoring`);
+    }
+  }
+  providers.push(new HeuristicRoutingProvider());
+
+  return new CachedRoutingProvider(new FailoverRoutingProvider(providers));
+}
+
+export const routing: RoutingProvider = createRoutingProvider();
@@ -0,0 +1,513 @@
+// Schedule Calendar Import & Export
+// Dispatchers hand drivers their day as a spreadsheet or calendar invites. Imports read either into
+// jobs: CSV columns are matched by common header names (or an explicit mapping), ICS events by
+// their LOCATION/SUMMARY ("Coventry CV1 2GT → Leicester LE1 1RE") or the X-DRIVENET-* properties
+// our own export writes. Locations are geocoded from their postcode, falling back to a place name.
+// Problems are reported per row and don't stop the other rows importing.
+//
+// Exports are iCalendar (RFC 5545): one event per job spanning the whole job, plus an event for
+// the vehicle inspection at its start, so the buffer shows in the driver's phone calendar. The
+// per-user feed is signed with an HMAC token because calendar apps can't send the session cookie.
+
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Job, Schedule } from "@shared/schema";
+import { INSPECTION_TIME_MINUTES, estimateDriveMinutes } from "@shared/speed-model";
+import { haversineMiles, type Coordinates } from "./ai-routing-utils";
+import { geocoder, parseCsv, type Geocoder } from "./gazetteer";
+import { fromWallClock, localDateKey, localTimeOfDay } from "./recurrence";
+import type { IStorage } from "./storage";
+
+export type CalendarFormat = "ics" | "csv";
+export type LocationGeocoder = Pick<Geocoder, "lookupPostcode" | "search">;
+
+// Which CSV header holds each field; headers are compared case-insensitively
+export interface CsvColumnMapping {
+  from?: string;
+  to?: string;
+  fromPostcode?: string;
+  toPostcode?: string;
+  date?: string;
+  start?: string;
+  end?: string;
+}
+
+export interface ImportRowIssue {
+  // CSV: the line in the file (the header is line 1). ICS: the event's position, from 1.
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface ScheduleImportResult {
+  imported: Job[];
+  skipped: ImportRowIssue[];
+  errors: ImportRowIssue[];
+}
+
+export interface ScheduleImportOptions {
+  format?: CalendarFormat;
+  mapping?: CsvColumnMapping;
+  geocoder?: LocationGeocoder;
+}
+
+// The whole file is unusable (wrong format, no rows, a required column missing)
+export class ScheduleImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleImportError";
+  }
+}
+
+interface JobDraft {
+  row: number;
+  fromLocation: string;
+  from: Coordinates;
+  toLocation: string;
+  to: Coordinates;
+  start: Date;
+  end: Date;
+}
+
+// A job as read from the file, before its locations are geocoded
+interface RawJob {
+  row: number;
+  fromLocation: string;
+  from?: Coordinates;
+  toLocation: string;
+  to?: Coordinates;
+  start: Date;
+  end?: Date;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+const FEED_HISTORY_DAYS = 14;
+const PRODUCT_ID = "-//DriveNet//Schedule//EN";
+const UID_DOMAIN = "drivenet";
+
+const CSV_COLUMN_ALIASES: Record<keyof CsvColumnMapping, string[]> = {
+  from: ["from", "from location", "pickup", "pick up", "pickup address", "collection", "collection address", "collect from"],
+  to: ["to", "to location", "dropoff", "drop off", "dropoff address", "delivery", "delivery address", "deliver to"],
+  fromPostcode: ["from postcode", "pickup postcode", "collection postcode"],
+  toPostcode: ["to postcode", "dropoff postcode", "delivery postcode"],
+  date: ["date", "job date"],
+  start: ["start", "start time", "pickup time", "collection time", "estimated start", "time"],
+  end: ["end", "end time", "dropoff time", "delivery time", "estimated end"],
+};
+
+const POSTCODE_IN_TEXT = /\b([A-Z]{1,2}[0-9][0-9A-Z]?\s*[0-9][A-Z]{2})\b/i;
+// "Coventry → Leicester", "Coventry -> Leicester", "Coventry to Leicester"
+const ROUTE_SEPARATOR = /\s*(?:→|->|\bto\b)\s*/i;
+
+const addMinutes = (time: Date, minutes: number) => new Date(time.getTime() + minutes * MS_PER_MINUTE);
+
+export function detectCalendarFormat(content: string): CalendarFormat {
+  return /^\s*BEGIN:VCALENDAR/i.test(content) ? "ics" : "csv";
+}
+
+// Postcode first (exact, or its district when unknown), then the text and each comma-separated
+// part of it as a place name, most specific last: "Unit 4, Bilton Way, Coventry" finds Coventry.
+export async function geocodeLocation(text: string, lookup: LocationGeocoder = geocoder): Promise<Coordinates | undefined> {
+  const postcode = POSTCODE_IN_TEXT.exec(text)?.[1];
+  if (postcode) {
+    const result = await lookup.lookupPostcode(postcode);
+    if (result) return { lat: result.latitude, lng: result.longitude };
+  }
+  const parts = text.split(",").map((part) => part.trim()).filter(Boolean);
+  for (const query of [text, ...parts.reverse()]) {
+    const [place] = lookup.search(query, 1);
+    if (place) return { lat: place.latitude, lng: place.longitude };
+  }
+  return undefined;
+}
+
+// ------------------------------------
+// CSV
+// ------------------------------------
+
+// YYYY-MM-DD or the UK's DD/MM/YYYY
+function parseCsvDate(value: string): string | undefined {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (iso) return value;
+  const uk = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  if (uk) return `${uk[3]}-${uk[2].padStart(2, "0")}-${uk[1].padStart(2, "0")}`;
+  return undefined;
+}
+
+// A time of day ("9:30", "2:15pm") on `date`, or a full date and time. Times without a zone are
+// UK wall-clock time, as drivers enter them in the app.
+function parseCsvTime(value: string, date: string): Date | undefined {
+  const time = /^(\d{1,2})[:.](\d{2})(?::\d{2})?\s*(am|pm)?$/i.exec(value);
+  if (time) {
+    let hour = parseInt(time[1], 10);
+    const meridiem = time[3]?.toLowerCase();
+    if (meridiem === "pm" && hour < 12) hour += 12;
+    if (meridiem === "am" && hour === 12) hour = 0;
+    const [y, m, d] = date.split("-").map(Number);
+    return hour < 24 ? fromWallClock(y, m, d, hour, parseInt(time[2], 10)) : undefined;
+  }
+  const dated = /^(\S+)[ T](\d{1,2}[:.]\d{2}(?::\d{2})?(?:\s*[ap]m)?)$/i.exec(value);
+  if (dated && parseCsvDate(dated[1])) return parseCsvTime(dated[2], parseCsvDate(dated[1])!);
+  if (/(?:Z|[+-]\d{2}:?\d{2})$/.test(value)) {
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+function resolveColumns(headers: string[], mapping: CsvColumnMapping = {}): Partial<Record<keyof CsvColumnMapping, string>> {
+  const columns: Partial<Record<keyof CsvColumnMapping, string>> = {};
+  (Object.keys(CSV_COLUMN_ALIASES) as (keyof CsvColumnMapping)[]).forEach((field) => {
+    const mapped = mapping[field]?.trim().toLowerCase();
+    if (mapped) {
+      if (!headers.includes(mapped)) throw new ScheduleImportError(`Column "${mapping[field]}" mapped to ${field} isn't in the file`);
+      columns[field] = mapped;
+      return;
+    }
+    columns[field] = CSV_COLUMN_ALIASES[field].find((alias) => headers.includes(alias));
+  });
+  if (!columns.from && !columns.fromPostcode) throw new ScheduleImportError("No pickup column found; map one with mapping.from");
+  if (!columns.to && !columns.toPostcode) throw new ScheduleImportError("No delivery column found; map one with mapping.to");
+  if (!columns.start) throw new ScheduleImportError("No start time column found; map one with mapping.start");
+  return columns;
+}
+
+function readCsvJobs(content: string, scheduleDate: string, mapping?: CsvColumnMapping): { jobs: RawJob[]; errors: ImportRowIssue[] } {
+  const records = parseCsv(content);
+  if (records.length === 0) throw new ScheduleImportError("The file has no job rows");
+  const columns = resolveColumns(Object.keys(records[0]), mapping);
+  const jobs: RawJob[] = [];
+  const errors: ImportRowIssue[] = [];
+
+  records.forEach((record, index) => {
+    const row = index + 2;
+    const cell = (field: keyof CsvColumnMapping) => (columns[field] ? record[columns[field]!] ?? "" : "");
+    const location = (place: string, postcode: string) =>
+      [place, postcode].filter((part, i) => part && !(i === 1 && place.toUpperCase().includes(part.toUpperCase()))).join(", ");
+
+    const fromLocation = location(cell("from"), cell("fromPostcode"));
+    const toLocation = location(cell("to"), cell("toPostcode"));
+    if (!fromLocation) return errors.push({ row, field: "from", message: "Pickup location is empty" });
+    if (!toLocation) return errors.push({ row, field: "to", message: "Delivery location is empty" });
+
+    const date = cell("date") ? parseCsvDate(cell("date")) : scheduleDate;
+    if (!date) return errors.push({ row, field: "date", message: `Unrecognised date "${cell("date")}"; use YYYY-MM-DD or DD/MM/YYYY` });
+    const start = parseCsvTime(cell("start"), date);
+    if (!start) return errors.push({ row, field: "start", message: `Unrecognised start time "${cell("start")}"` });
+    const end = cell("end") ? parseCsvTime(cell("end"), date) : undefined;
+    if (cell("end") && !end) return errors.push({ row, field: "end", message: `Unrecognised end time "${cell("end")}"` });
+
+    jobs.push({ row, fromLocation, toLocation, start, end });
+  });
+  return { jobs, errors };
+}
+
+// ------------------------------------
+// iCalendar
+// ------------------------------------
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+type IcsEvent = Map<string, IcsProperty>;
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === "n" || ch === "N" ? "\n" : ch));
+}
+
+function escapeIcsText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// NAME;PARAM=VALUE;PARAM="quoted:value":VALUE
+function parseIcsLine(line: string): [string, IcsProperty] | undefined {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ":" && !quoted) { colon = i; break; }
+  }
+  if (colon < 0) return undefined;
+  const [name, ...paramParts] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, value = ""] = part.split("=");
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, "");
+  }
+  return [name.toUpperCase(), { params, value: line.slice(colon + 1) }];
+}
+
+export function parseIcsEvents(content: string): IcsEvent[] {
+  // Continuation lines start with a space or tab (RFC 5545 §3.1)
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: IcsEvent | undefined;
+  for (const line of lines) {
+    const property = parseIcsLine(line.trim());
+    if (!property) continue;
+    const [name, { value }] = property;
+    if (name === "BEGIN" && value.toUpperCase() === "VEVENT") current = new Map();
+    else if (name === "END" && value.toUpperCase() === "VEVENT" && current) {
+      events.push(current);
+      current = undefined;
+    } else if (current && !current.has(name)) {
+      current.set(name, property[1]);
+    }
+  }
+  return events;
+}
+
+// UTC when it ends in Z; floating and TZID times are read as UK wall-clock time
+function parseIcsDate(property: IcsProperty): Date | "all-day" | undefined {
+  if (property.params.VALUE === "DATE" || /^\d{8}$/.test(property.value)) return "all-day";
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z)?$/.exec(property.value);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  return utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+    : fromWallClock(+y, +mo, +d, +h, +mi, +s);
+}
+
+function parseIcsGeo(property: IcsProperty | undefined): Coordinates | undefined {
+  const [lat, lng] = (property?.value ?? "").split(";").map(Number);
+  return Number.isFinite(lat) && Number.isFinite(lng) && property?.value.includes(";") ? { lat, lng } : undefined;
+}
+
+function splitRoute(text: string | undefined): [string, string] | undefined {
+  if (!text) return undefined;
+  const parts = unescapeIcsText(text).split(ROUTE_SEPARATOR).map((part) => part.trim());
+  return parts.length === 2 && parts[0] && parts[1] ? [parts[0], parts[1]] : undefined;
+}
+
+function readIcsJobs(content: string): { jobs: RawJob[]; skipped: ImportRowIssue[]; errors: ImportRowIssue[] } {
+  const events = parseIcsEvents(content);
+  if (events.length === 0) throw new ScheduleImportError("The calendar has no events");
+  const jobs: RawJob[] = [];
+  const skipped: ImportRowIssue[] = [];
+  const errors: ImportRowIssue[] = [];
+
+  events.forEach((event, index) => {
+    const row = index + 1;
+    const text = (name: string) => (event.has(name) ? unescapeIcsText(event.get(name)!.value).trim() : undefined);
+    if (text("X-DRIVENET-PART") === "inspection") {
+      return skipped.push({ row, message: "Inspection buffer; it comes with its job" });
+    }
+
+    const route = text("X-DRIVENET-FROM") && text("X-DRIVENET-TO")
+      ? [text("X-DRIVENET-FROM")!, text("X-DRIVENET-TO")!] as [string, string]
+      : splitRoute(event.get("LOCATION")?.value) ?? splitRoute(event.get("SUMMARY")?.value);
+    if (!route) {
+      return errors.push({ row, field: "location", message: `"${text("SUMMARY") ?? "Event"}" needs "pickup → delivery" in its LOCATION or SUMMARY` });
+    }
+
+    const start = event.get("DTSTART") ? parseIcsDate(event.get("DTSTART")!) : undefined;
+    if (start === "all-day") return errors.push({ row, field: "start", message: "All-day events need a start time" });
+    if (!start) return errors.push({ row, field: "start", message: "Missing or unrecognised DTSTART" });
+    const end = event.get("DTEND") ? parseIcsDate(event.get("DTEND")!) : undefined;
+    if (end === "all-day" || (event.has("DTEND") && !end)) return errors.push({ row, field: "end", message: "Unrecognised DTEND" });
+
+    jobs.push({
+      row,
+      fromLocation: route[0],
+      from: parseIcsGeo(event.get("X-DRIVENET-FROM-GEO")),
+      toLocation: route[1],
+      to: parseIcsGeo(event.get("X-DRIVENET-TO-GEO")),
+      start,
+      end,
+    });
+  });
+  return { jobs, skipped, errors };
+}
+
+// ------------------------------------
+// Import
+// ------------------------------------
+
+// Geocodes and checks each job read from the file; the end defaults to the app's own estimate
+// (drive time plus the inspection) when the file doesn't give one.
+async function completeJob(job: RawJob, scheduleDate: string, lookup: LocationGeocoder): Promise<JobDraft | ImportRowIssue> {
+  const { row } = job;
+  if (localDateKey(job.start) !== scheduleDate) {
+    return { row, field: "start", message: `Starts on ${localDateKey(job.start)}, not this schedule's day (${scheduleDate})` };
+  }
+  const from = job.from ?? await geocodeLocation(job.fromLocation, lookup);
+  if (!from) return { row, field: "from", message: `Couldn't find "${job.fromLocation}"; add a postcode` };
+  const to = job.to ?? await geocodeLocation(job.toLocation, lookup);
+  if (!to) return { row, field: "to", message: `Couldn't find "${job.toLocation}"; add a postcode` };
+
+  const end = job.end ?? addMinutes(job.start, INSPECTION_TIME_MINUTES + estimateDriveMinutes(haversineMiles(from, to), job.start));
+  if (end.getTime() <= job.start.getTime()) return { row, field: "end", message: "Ends before it starts" };
+  return { row, fromLocation: job.fromLocation, from, toLocation: job.toLocation, to, start: job.start, end };
+}
+
+const jobKey = (fromLocation: string, toLocation: string, start: Date) =>
+  `${fromLocation.toLowerCase()}|${toLocation.toLowerCase()}|${new Date(start).getTime()}`;
+
+// Reads the file and adds its jobs to the schedule after the existing ones, in start-time order.
+// Rows that match a job already on the schedule (same route and start) are skipped, so importing
+// the same file twice is harmless.
+export async function importScheduleJobs(
+  storage: IStorage,
+  schedule: Schedule,
+  content: string,
+  options: ScheduleImportOptions = {},
+): Promise<ScheduleImportResult> {
+  const format = options.format ?? detectCalendarFormat(content);
+  const read = format === "ics"
+    ? readIcsJobs(content)
+    : { ...readCsvJobs(content, schedule.date, options.mapping), skipped: [] as ImportRowIssue[] };
+  const result: ScheduleImportResult = { imported: [], skipped: read.skipped, errors: read.errors };
+
+  const existing = await storage.getJobsByScheduleId(schedule.id);
+  const seen = new Set(existing.map((job) => jobKey(job.fromLocation, job.toLocation, job.estimatedStartTime)));
+  const drafts: JobDraft[] = [];
+  for (const job of read.jobs) {
+    const draft = await completeJob(job, schedule.date, options.geocoder ?? geocoder);
+    if (!("start" in draft)) {
+      result.errors.push(draft);
+      continue;
+    }
+    const key = jobKey(draft.fromLocation, draft.toLocation, draft.start);
+    if (seen.has(key)) {
+      result.skipped.push({ row: draft.row, message: "Already on this schedule" });
+      continue;
+    }
+    seen.add(key);
+    drafts.push(draft);
+  }
+
+  let order = existing.reduce((max, job) => Math.max(max, job.orderInSchedule), 0);
+  for (const draft of drafts.sort((a, b) => a.start.getTime() - b.start.getTime())) {
+    result.imported.push(await storage.createJob({
+      scheduleId: schedule.id,
+      fromLocation: draft.fromLocation,
+      fromLat: draft.from.lat,
+      fromLng: draft.from.lng,
+      toLocation: draft.toLocation,
+      toLat: draft.to.lat,
+      toLng: draft.to.lng,
+      estimatedStartTime: draft.start,
+      estimatedEndTime: draft.end,
+      orderInSchedule: ++order,
+    }));
+  }
+  result.errors.sort((a, b) => a.row - b.row);
+  result.skipped.sort((a, b) => a.row - b.row);
+  return result;
+}
+
+// ------------------------------------
+// Export
+// ------------------------------------
+
+function formatIcsDate(date: Date): string {
+  return new Date(date).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 §3.1)
+function foldIcsLine(line: string): string {
+  const folded: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const ch of Array.from(line)) {
+    const size = Buffer.byteLength(ch);
+    if (octets + size > (folded.length === 0 ? 75 : 74)) {
+      folded.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  folded.push(current);
+  return folded.join("\r\n ");
+}
+
+function jobEvents(job: Job, stamp: string): string[] {
+  const start = new Date(job.estimatedStartTime);
+  const end = new Date(job.estimatedEndTime);
+  const inspectionEnd = new Date(Math.min(addMinutes(start, INSPECTION_TIME_MINUTES).getTime(), end.getTime()));
+  const uid = `${job.id}@${UID_DOMAIN}`;
+  const description = [
+    `Vehicle inspection at ${job.fromLocation} from ${localTimeOfDay(start)} to ${localTimeOfDay(inspectionEnd)}`,
+    `then deliver to ${job.toLocation} by ${localTimeOfDay(end)}.`,
+  ].join(", ");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatIcsDate(start)}`,
+    `DTEND:${formatIcsDate(end)}`,
+    `SUMMARY:${escapeIcsText(`${job.fromLocation} → ${job.toLocation}`)}`,
+    `LOCATION:${escapeIcsText(job.fromLocation)}`,
+    `GEO:${job.fromLat};${job.fromLng}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    `STATUS:${job.status === "completed" ? "CONFIRMED" : "TENTATIVE"}`,
+    `X-DRIVENET-FROM:${escapeIcsText(job.fromLocation)}`,
+    `X-DRIVENET-FROM-GEO:${job.fromLat};${job.fromLng}`,
+    `X-DRIVENET-TO:${escapeIcsText(job.toLocation)}`,
+    `X-DRIVENET-TO-GEO:${job.toLat};${job.toLng}`,
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    `UID:${job.id}-inspection@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatIcsDate(start)}`,
+    `DTEND:${formatIcsDate(inspectionEnd)}`,
+    `SUMMARY:${escapeIcsText(`Inspection: ${job.fromLocation}`)}`,
+    `LOCATION:${escapeIcsText(job.fromLocation)}`,
+    `RELATED-TO:${uid}`,
+    "X-DRIVENET-PART:inspection",
+    "END:VEVENT",
+  ];
+}
+
+export function jobsToIcs(jobs: Job[], name: string, now: Date = new Date()): string {
+  const stamp = formatIcsDate(now);
+  const ordered = [...jobs].sort((a, b) => new Date(a.estimatedStartTime).getTime() - new Date(b.estimatedStartTime).getTime());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    // Subscribed calendars refresh hourly where the app honours it
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...ordered.flatMap((job) => jobEvents(job, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+// The driver's jobs from the last two weeks onwards, for a subscribed calendar
+export async function userCalendarIcs(storage: IStorage, userId: string, now: Date = new Date()): Promise<string> {
+  const since = localDateKey(addMinutes(now, -FEED_HISTORY_DAYS * 24 * 60));
+  const jobs: Job[] = [];
+  for (const schedule of await storage.getSchedulesByUserId(userId)) {
+    if (schedule.date < since) continue;
+    jobs.push(...await storage.getJobsByScheduleId(schedule.id));
+  }
+  return jobsToIcs(jobs, "DriveNet jobs", now);
+}
+
+// ------------------------------------
+// Feed tokens
+// ------------------------------------
+
+function calendarFeedSecret(env: NodeJS.ProcessEnv = process.env): string {
+  return env.CALENDAR_FEED_SECRET || env.SESSION_SECRET || "dev-secret-change-in-production";
+}
+
+// Stable per user, so the subscription URL keeps working; rotate the secret to revoke all feeds
+export function calendarFeedToken(userId: string, secret: string = calendarFeedSecret()): string {
+  return createHmac("sha256", secret).update(`calendar-feed:${userId}`).digest("base64url");
+}
+
+export function verifyCalendarFeedToken(userId: string, token: string, secret: string = calendarFeedSecret()): boolean {
+  const expected = Buffer.from(calendarFeedToken(userId, secret));
+  const given = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,172 @@
+// Schedule Feasibility
+// Checks a new or edited job against the rest of the driver's day: that it doesn't overlap another
+// job, that its own window fits the inspection and the drive, that the driver can get from the
+// previous dropoff to its pickup (and from its dropoff to the next pickup) in the gap, and that
+// the day stays within working-time limits. Only problems involving the job being saved are
+// reported, so an old clash elsewhere in the day doesn't block unrelated edits.
+
+import {
+  MAX_DRIVING_MINUTES,
+  MAX_WORKING_DAY_MINUTES,
+  REPOSITION_MARGIN,
+  type FeasibilityIssue,
+  type FeasibilityReport,
+} from "@shared/feasibility";
+import { INSPECTION_TIME_MINUTES, estimateDriveMinutes } from "@shared/speed-model";
+import { haversineMiles, type Coordinates } from "./ai-routing-utils";
+import { localTimeOfDay } from "./recurrence";
+import { routing, type RoutingProvider } from "./routing-provider";
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// A job as it is or would be saved; existing jobs use their actual times once checked in/out
+export interface FeasibilityJob {
+  id?: string;
+  fromLocation: string;
+  fromLat: number;
+  fromLng: number;
+  toLocation: string;
+  toLat: number;
+  toLng: number;
+  estimatedStartTime: Date | string;
+  estimatedEndTime: Date | string;
+  actualStartTime?: Date | string | null;
+  actualEndTime?: Date | string | null;
+}
+
+interface TimedJob {
+  job: FeasibilityJob;
+  start: Date;
+  end: Date;
+}
+
+const timed = (job: FeasibilityJob): TimedJob => ({
+  job,
+  start: new Date(job.actualStartTime ?? job.estimatedStartTime),
+  end: new Date(job.actualEndTime ?? job.estimatedEndTime),
+});
+
+const minutesBetween = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / MS_PER_MINUTE);
+const describe = ({ job, start, end }: TimedJob) =>
+  `${job.fromLocation} → ${job.toLocation} job (${localTimeOfDay(start)}–${localTimeOfDay(end)})`;
+
+// Routed where a provider answers, otherwise the offline speed model, so checks never fail on the network
+async function driveMinutes(from: Coordinates, to: Coordinates, departure: Date, provider: RoutingProvider): Promise<number> {
+  try {
+    return (await provider.route({ from, to, departure })).drivingMinutes;
+  } catch (error) {
+    console.warn("Feasibility routing fell back to the speed model:", error instanceof Error ? error.message : error);
+    return estimateDriveMinutes(haversineMiles(from, to), departure);
+  }
+}
+
+// The connection from one job's dropoff to the next job's pickup
+async function checkConnection(
+  before: TimedJob,
+  after: TimedJob,
+  field: FeasibilityIssue["field"],
+  relatedJobId: string | undefined,
+  provider: RoutingProvider,
+): Promise<FeasibilityIssue | undefined> {
+  const gap = minutesBetween(before.end, after.start);
+  const drive = await driveMinutes(
+    { lat: before.job.toLat, lng: before.job.toLng },
+    { lat: after.job.fromLat, lng: after.job.fromLng },
+    before.end,
+    provider,
+  );
+  const route = `from ${before.job.toLocation} to ${after.job.fromLocation}`;
+  if (gap < drive) {
+    return {
+      code: "unreachable",
+      message: `Can't get ${route} in time: about ${drive} min by car, but only ${gap} min between jobs`,
+      field,
+      relatedJobId,
+    };
+  }
+  if (gap < Math.ceil(drive * REPOSITION_MARGIN)) {
+    return {
+      code: "tight-connection",
+      message: `Only ${gap} min to get ${route}: about ${drive} min by car, longer by lift or public transport`,
+      field,
+      relatedJobId,
+    };
+  }
+  return undefined;
+}
+
+export async function checkJobFeasibility(
+  candidate: FeasibilityJob,
+  scheduleJobs: FeasibilityJob[],
+  provider: RoutingProvider = routing,
+): Promise<FeasibilityReport> {
+  const errors: FeasibilityIssue[] = [];
+  const warnings: FeasibilityIssue[] = [];
+  const report = (): FeasibilityReport => ({ feasible: errors.length === 0, errors, warnings });
+
+  const job = timed(candidate);
+  if (!(job.end.getTime() > job.start.getTime())) {
+    errors.push({ code: "invalid-times", message: "The job must end after it starts", field: "estimatedEndTime" });
+    return report();
+  }
+
+  // The window has to fit the inspection at pickup and the drive to the dropoff
+  const drive = await driveMinutes(
+    { lat: candidate.fromLat, lng: candidate.fromLng },
+    { lat: candidate.toLat, lng: candidate.toLng },
+    new Date(job.start.getTime() + INSPECTION_TIME_MINUTES * MS_PER_MINUTE),
+    provider,
+  );
+  const needed = INSPECTION_TIME_MINUTES + drive;
+  if (minutesBetween(job.start, job.end) < needed) {
+    errors.push({
+      code: "job-too-short",
+      message: `Allow at least ${needed} min: the ${INSPECTION_TIME_MINUTES} min inspection plus about ${drive} min to drive to ${candidate.toLocation}`,
+      field: "estimatedEndTime",
+    });
+  }
+
+  const others = scheduleJobs
+    .filter((other) => !candidate.id || other.id !== candidate.id)
+    .map(timed)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  for (const other of others) {
+    if (other.start.getTime() < job.end.getTime() && job.start.getTime() < other.end.getTime()) {
+      errors.push({ code: "overlap", message: `Overlaps the ${describe(other)}`, field: "estimatedStartTime", relatedJobId: other.job.id });
+    }
+  }
+
+  // Connections to the jobs either side that don't overlap it
+  const previous = others.filter((other) => other.end.getTime() <= job.start.getTime()).pop();
+  const next = others.find((other) => other.start.getTime() >= job.end.getTime());
+  for (const issue of [
+    previous && await checkConnection(previous, job, "estimatedStartTime", previous.job.id, provider),
+    next && await checkConnection(job, next, "estimatedEndTime", next.job.id, provider),
+  ]) {
+    if (!issue) continue;
+    (issue.code === "unreachable" ? errors : warnings).push(issue);
+  }
+
+  // The whole day, with this job in it
+  const day = [...others, job];
+  const dayStart = new Date(Math.min(...day.map((d) => d.start.getTime())));
+  const dayEnd = new Date(Math.max(...day.map((d) => d.end.getTime())));
+  const onDuty = minutesBetween(dayStart, dayEnd);
+  if (onDuty > MAX_WORKING_DAY_MINUTES) {
+    errors.push({
+      code: "working-day",
+      message: `The day would run ${localTimeOfDay(dayStart)}–${localTimeOfDay(dayEnd)}, over the ${MAX_WORKING_DAY_MINUTES / 60} hour working-day limit`,
+      field: job.end.getTime() === dayEnd.getTime() ? "estimatedEndTime" : "estimatedStartTime",
+    });
+  }
+  const driving = day.reduce((total, d) => total + Math.max(0, minutesBetween(d.start, d.end) - INSPECTION_TIME_MINUTES), 0);
+  if (driving > MAX_DRIVING_MINUTES) {
+    warnings.push({
+      code: "driving-hours",
+      message: `About ${Math.round(driving / 6) / 10} hours of driving in the day, over the recommended ${MAX_DRIVING_MINUTES / 60}`,
+    });
+  }
+
+  return report();
+}
@@ -0,0 +1,281 @@
+// Schedule Lifts
+// A trade-plate driver's day is a chain of jobs: collect a customer car, drive it to its dropoff,
+// then get to the next pickup. Each job leg is a journey the driver makes anyway, so it becomes a
+// lift offer; each dead-leg from a dropoff to the next pickup is a journey they need a lift for,
+// so it becomes a lift request. Both are ordinary offers/requests marked autoGenerated and linked
+// to their job by sourceJobId, and are reconciled against the schedule whenever a job is added,
+// edited, checked in or out, or deleted. Only verified drivers offer lifts, so an unverified
+// driver's schedule derives requests only. Once a passenger books a derived offer it is theirs as
+// much as the driver's: the sync no longer moves or withdraws it, and the driver settles it through
+// its bookings.
+
+import type { InsertLiftOffer, InsertLiftRequest, Job, LiftOffer, LiftRequest } from "@shared/schema";
+import { INSPECTION_TIME_MINUTES } from "@shared/speed-model";
+import { haversineMiles } from "./ai-routing-utils";
+import type { IStorage } from "./storage";
+
+// Next pickup within walking distance of the dropoff: no lift needed
+export const DEAD_LEG_MIN_MILES = 1;
+// A customer car has room for one passenger alongside the driver's plates and kit
+const JOB_OFFER_SEATS = 1;
+const MS_PER_MINUTE = 60 * 1000;
+
+// Derived rows in these states are still live and kept in step with the schedule
+const OPEN_OFFER_STATUSES = ["available", "full", "booked"];
+const OPEN_REQUEST_STATUSES = ["active"];
+// Bookings that tie an offer to a passenger
+const ACTIVE_BOOKING_STATUSES = ["requested", "accepted", "picked-up"];
+
+export interface ScheduleLiftHooks {
+  onOfferCreated?: (offer: LiftOffer) => void | Promise<void>;
+  onOfferChanged?: (offer: LiftOffer) => void | Promise<void>;
+  onRequestCreated?: (request: LiftRequest) => void | Promise<void>;
+}
+
+export interface ScheduleLiftChanges {
+  createdOffers: LiftOffer[];
+  updatedOffers: LiftOffer[];
+  withdrawnOffers: LiftOffer[];
+  createdRequests: LiftRequest[];
+  updatedRequests: LiftRequest[];
+  withdrawnRequests: LiftRequest[];
+}
+
+type DerivedOffer = InsertLiftOffer & { sourceJobId: string };
+type DerivedRequest = InsertLiftRequest & { sourceJobId: string };
+
+const emptyChanges = (): ScheduleLiftChanges => ({
+  createdOffers: [],
+  updatedOffers: [],
+  withdrawnOffers: [],
+  createdRequests: [],
+  updatedRequests: [],
+  withdrawnRequests: [],
+});
+
+const addMinutes = (time: Date, minutes: number) => new Date(time.getTime() + minutes * MS_PER_MINUTE);
+
+// The job leg as an offer: the car leaves once it has been inspected and arrives by the job's end.
+// Nothing is offered once the job is completed or its leg has already finished.
+export function offerFromJob(driverId: string, job: Job, now: Date = new Date()): DerivedOffer | undefined {
+  if (job.status !== "pending" && job.status !== "in-progress") return undefined;
+  const end = new Date(job.estimatedEndTime);
+  if (end.getTime() <= now.getTime()) return undefined;
+
+  const start = new Date(job.actualStartTime ?? job.estimatedStartTime);
+  const departure = addMinutes(start, INSPECTION_TIME_MINUTES);
+  return {
+    driverId,
+    fromLocation: job.fromLocation,
+    fromLat: job.fromLat,
+    fromLng: job.fromLng,
+    toLocation: job.toLocation,
+    toLat: job.toLat,
+    toLng: job.toLng,
+    departureTime: departure,
+    earliestDepart: departure,
+    latestArrive: end.getTime() > departure.getTime() ? end : departure,
+    availableSeats: JOB_OFFER_SEATS,
+    autoGenerated: true,
+    status: "available",
+    notes: `Delivering a car to ${job.toLocation} (from my schedule)`,
+    sourceJobId: job.id,
+  };
+}
+
+// The dead-leg after `job` as a request: from its dropoff, once it's done, to the next pickup in time.
+// Not needed once the driver has started the next job or when the pickup is a short walk away.
+export function deadLegRequest(driverId: string, job: Job, next: Job, now: Date = new Date()): DerivedRequest | undefined {
+  if (next.status !== "pending") return undefined;
+  const pickupBy = new Date(next.estimatedStartTime);
+  if (pickupBy.getTime() <= now.getTime()) return undefined;
+  const gap = haversineMiles({ lat: job.toLat, lng: job.toLng }, { lat: next.fromLat, lng: next.fromLng });
+  if (gap < DEAD_LEG_MIN_MILES) return undefined;
+
+  const droppedAt = new Date(job.actualEndTime ?? job.estimatedEndTime);
+  return {
+    requesterId: driverId,
+    fromLocation: job.toLocation,
+    fromLat: job.toLat,
+    fromLng: job.toLng,
+    toLocation: next.fromLocation,
+    toLat: next.fromLat,
+    toLng: next.fromLng,
+    requestedTime: droppedAt,
+    earliestDepart: droppedAt,
+    latestArrive: pickupBy.getTime() > droppedAt.getTime() ? pickupBy : droppedAt,
+    autoGenerated: true,
+    status: "active",
+    notes: `Getting to my next pickup at ${next.fromLocation} (from my schedule)`,
+    sourceJobId: job.id,
+  };
+}
+
+// The offers and requests a schedule's jobs call for, keyed by the job they come from
+export function deriveScheduleLifts(
+  driverId: string,
+  jobs: Job[],
+  now: Date = new Date(),
+): { offers: Map<string, DerivedOffer>; requests: Map<string, DerivedRequest> } {
+  const ordered = [...jobs].sort((a, b) => a.orderInSchedule - b.orderInSchedule);
+  const offers = new Map<string, DerivedOffer>();
+  const requests = new Map<string, DerivedRequest>();
+
+  ordered.forEach((job, index) => {
+    const offer = offerFromJob(driverId, job, now);
+    if (offer) offers.set(job.id, offer);
+    const next = ordered[index + 1];
+    const request = next ? deadLegRequest(driverId, job, next, now) : undefined;
+    if (request) requests.set(job.id, request);
+  });
+  return { offers, requests };
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  a instanceof Date || b instanceof Date
+    ? (a ? new Date(a as Date).getTime() : null) === (b ? new Date(b as Date).getTime() : null)
+    : (a ?? null) === (b ?? null);
+
+// The route and timing fields that differ between what's stored and what the schedule now says
+function changedFields<T extends object>(stored: object, derived: T, fields: (keyof T)[]): Partial<T> {
+  const changes: Partial<T> = {};
+  for (const field of fields) {
+    if (!sameValue((stored as Record<string, unknown>)[field as string], derived[field])) {
+      changes[field] = derived[field];
+    }
+  }
+  return changes;
+}
+
+const ROUTE_FIELDS = ["fromLocation", "fromLat", "fromLng", "toLocation", "toLat", "toLng", "earliestDepart", "latestArrive", "notes"] as const;
+const OFFER_SYNC_FIELDS: (keyof DerivedOffer)[] = [...ROUTE_FIELDS, "departureTime"];
+const REQUEST_SYNC_FIELDS: (keyof DerivedRequest)[] = [...ROUTE_FIELDS, "requestedTime"];
+
+// A leg that has been driven is done; anything else that drops out of the schedule is withdrawn
+const closedOfferStatus = (job: Job | undefined) => (job?.status === "completed" ? "completed" : "cancelled");
+const closedRequestStatus = (job: Job | undefined) => (job?.status === "completed" ? "fulfilled" : "cancelled");
+
+// Each job's derived row: the open one if there is one, otherwise the most recent
+function rowsByJob<T extends { sourceJobId: string | null; autoGenerated: boolean | null; createdAt: Date | null }>(
+  rows: T[],
+  isOpen: (row: T) => boolean,
+): Map<string, T> {
+  const byJob = new Map<string, T>();
+  const created = (row: T) => (row.createdAt ? new Date(row.createdAt).getTime() : 0);
+  for (const row of rows) {
+    if (!row.autoGenerated || !row.sourceJobId) continue;
+    const current = byJob.get(row.sourceJobId);
+    const better = !current
+      || (isOpen(row) && !isOpen(current))
+      || (isOpen(row) === isOpen(current) && created(row) >= created(current));
+    if (better) byJob.set(row.sourceJobId, row);
+  }
+  return byJob;
+}
+
+const isOpenOffer = (offer: LiftOffer) => OPEN_OFFER_STATUSES.includes(offer.status);
+const isOpenRequest = (request: LiftRequest) => OPEN_REQUEST_STATUSES.includes(request.status ?? "active");
+const isBooked = async (storage: IStorage, offer: LiftOffer) =>
+  (await storage.getLiftBookingsByOfferId(offer.id)).some((booking) => ACTIVE_BOOKING_STATUSES.includes(booking.status));
+
+// Brings the schedule's derived offers and requests in line with its jobs: creates what's missing,
+// updates what moved and withdraws what no longer applies. A row the sync withdrew comes back if
+// its leg does; rows closed any other way (completed, fulfilled by a booking) and offers with
+// passengers booked are left alone.
+export async function syncScheduleLifts(
+  storage: IStorage,
+  scheduleId: string,
+  hooks: ScheduleLiftHooks = {},
+  now: Date = new Date(),
+): Promise<ScheduleLiftChanges> {
+  const changes = emptyChanges();
+  const schedule = await storage.getSchedule(scheduleId);
+  if (!schedule) return changes;
+
+  const jobs = await storage.getJobsByScheduleId(scheduleId);
+  const jobIds = jobs.map((job) => job.id);
+  const derived = deriveScheduleLifts(schedule.userId, jobs, now);
+  // Withdraws the open offers of a driver who has lost verification, like any other unwanted offer
+  if (!(await storage.getUser(schedule.userId))?.verified) derived.offers.clear();
+  const offers = rowsByJob(await storage.getLiftOffersBySourceJobIds(jobIds), isOpenOffer);
+  const requests = rowsByJob(await storage.getLiftRequestsBySourceJobIds(jobIds), isOpenRequest);
+
+  for (const job of jobs) {
+    const wanted = derived.offers.get(job.id);
+    const offer = offers.get(job.id);
+    if (!offer || (!isOpenOffer(offer) && offer.status !== "cancelled")) {
+      if (!wanted || offer) continue;
+      const created = await storage.createLiftOffer(wanted);
+      changes.createdOffers.push(created);
+      await hooks.onOfferCreated?.(created);
+      continue;
+    }
+    if (isOpenOffer(offer) && await isBooked(storage, offer)) continue;
+    if (!wanted) {
+      if (!isOpenOffer(offer)) continue;
+      const closed = await storage.updateLiftOfferStatus(offer.id, closedOfferStatus(job));
+      if (closed) {
+        changes.withdrawnOffers.push(closed);
+        await hooks.onOfferChanged?.(closed);
+      }
+      continue;
+    }
+    const updates: Partial<InsertLiftOffer> = changedFields(offer, wanted, OFFER_SYNC_FIELDS);
+    if (!isOpenOffer(offer)) updates.status = "available";
+    if (Object.keys(updates).length === 0) continue;
+    const updated = await storage.updateLiftOffer(offer.id, updates);
+    if (updated) {
+      changes.updatedOffers.push(updated);
+      await hooks.onOfferChanged?.(updated);
+    }
+  }
+
+  for (const job of jobs) {
+    const wanted = derived.requests.get(job.id);
+    const request = requests.get(job.id);
+    if (!request || (!isOpenRequest(request) && request.status !== "cancelled")) {
+      if (!wanted || request) continue;
+      const created = await storage.createLiftRequest(wanted);
+      changes.createdRequests.push(created);
+      await hooks.onRequestCreated?.(created);
+      continue;
+    }
+    if (!wanted) {
+      if (!isOpenRequest(request)) continue;
+      const closed = await storage.updateLiftRequest(request.id, { status: closedRequestStatus(job) });
+      if (closed) changes.withdrawnRequests.push(closed);
+      continue;
+    }
+    const updates: Partial<InsertLiftRequest> = changedFields(request, wanted, REQUEST_SYNC_FIELDS);
+    if (!isOpenRequest(request)) updates.status = "active";
+    if (Object.keys(updates).length === 0) continue;
+    const updated = await storage.updateLiftRequest(request.id, updates);
+    if (updated) changes.updatedRequests.push(updated);
+  }
+
+  return changes;
+}
+
+// Withdraws a job's open derived offer and request before the job itself is deleted; the rows
+// stay as history with their sourceJobId cleared by the delete. A booked offer stays open for its
+// passengers.
+export async function withdrawJobLifts(
+  storage: IStorage,
+  jobId: string,
+  hooks: ScheduleLiftHooks = {},
+): Promise<{ offers: LiftOffer[]; requests: LiftRequest[] }> {
+  const withdrawn = { offers: [] as LiftOffer[], requests: [] as LiftRequest[] };
+  for (const offer of await storage.getLiftOffersBySourceJobIds([jobId])) {
+    if (!offer.autoGenerated || !isOpenOffer(offer) || await isBooked(storage, offer)) continue;
+    const closed = await storage.updateLiftOfferStatus(offer.id, "cancelled");
+    if (!closed) continue;
+    withdrawn.offers.push(closed);
+    await hooks.onOfferChanged?.(closed);
+  }
+  for (const request of await storage.getLiftRequestsBySourceJobIds([jobId])) {
+    if (!request.autoGenerated || !isOpenRequest(request)) continue;
+    const closed = await storage.updateLiftRequest(request.id, { status: "cancelled" });
+    if (closed) withdrawn.requests.push(closed);
+  }
+  return withdrawn;
+}
@@ -1,4 +1,8 @@
+import bcrypt from "bcryptjs";
+import { badges, liftRequests, pointsLedger, userStats, users } from "@shared/schema";
 import { storage } from "./storage";
+import type { Database } from "./db";
+import { DEMO_BADGES, buildDemoLiftRequests, buildDemoPointsLedger, buildDemoUserStats, buildDemoUsers } from "./demo-data";
 
 const firstNames = [
   "James", "John", "Robert", "Michael", "William", "David", "Richard", "Joseph", "Thomas", "Charles",
@@ -144,4 +148,31 @@ async function seedDatabase() {
 //     });
 // }
 
-export { seedDatabase };
+// Idempotent reference/demo seed for a migrated Postgres database (`npm run db:seed`).
+// Badges are upserted so catalog edits propagate; demo rows are only inserted when missing.
+async function seedReferenceData(db: Database) {
+  for (const badge of DEMO_BADGES) {
+    const { id, ...details } = badge;
+    await db.insert(badges).values(badge).onConflictDoUpdate({ target: badges.id, set: details });
+  }
+
+  const demoUsers = buildDemoUsers(await bcrypt.hash("demo", 10));
+  const insertedUsers = await db.insert(users).values(demoUsers).onConflictDoNothing().returning({ id: users.id });
+  const demoStats = buildDemoUserStats(demoUsers);
+  const insertedStats = await db.insert(userStats).values(demoStats).onConflictDoNothing().returning({ userId: userStats.userId });
+  // Opening balances only for stats inserted just now, so a user's total and ledger stay in step
+  const openingBalances = buildDemoPointsLedger(demoStats.filter(stats => insertedStats.some(({ userId }) => userId === stats.userId)));
+  if (openingBalances.length > 0) {
+    await db.insert(pointsLedger).values(openingBalances).onConflictDoNothing();
+  }
+  const insertedRequests = await db.insert(liftRequests).values(buildDemoLiftRequests()).onConflictDoNothing().returning({ id: liftRequests.id });
+
+  return {
+    badges: DEMO_BADGES.length,
+    users: insertedUsers.length,
+    userStats: insertedStats.length,
+    liftRequests: insertedRequests.length,
+  };
+}
+
+export { seedDatabase, seedReferenceData };
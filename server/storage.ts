@@ -4,18 +4,41 @@ import {
   type Job, type InsertJob,
   type LiftOffer, type InsertLiftOffer,
   type LiftRequest, type InsertLiftRequest,
+  type LiftBooking, type InsertLiftBooking,
+  type MatchSubscription, type InsertMatchSubscription,
+  type LiftMatchAlert, type InsertLiftMatchAlert,
   type Message, type InsertMessage,
   type Rating, type InsertRating,
   type UserStats, type InsertUserStats,
+  type PointsLedgerEntry, type InsertPointsLedgerEntry,
   type Badge, type InsertBadge,
   type UserBadge, type InsertUserBadge,
   type Report, type InsertReport,
   type Block, type InsertBlock,
+  type UserDocument, type InsertUserDocument,
+  type TradePlateLogEntry, type InsertTradePlateLogEntry, type TradePlateLogEdit,
+  type InsertVehicleInspection,
+  type InspectionChecklistItem, type InsertInspectionChecklistItem,
+  type InspectionDamage, type InsertInspectionDamage,
+  type InspectionPhoto, type InsertInspectionPhoto,
+  type IdempotencyKey, type InsertIdempotencyKey,
   type CheckIn, type InsertCheckIn,
   type LoaderSpace, type InsertLoaderSpace,
 } from "@shared/schema";
+import {
+  users, schedules, jobs, liftOffers, liftRequests, liftBookings, matchSubscriptions, liftMatchAlerts, messages, ratings,
+  userStats, pointsLedger, badges, userBadges, reports, blocks, userDocuments, checkIns, loaderSpaces,
+  tradePlateLogEntries, tradePlateLogEdits, vehicleInspections, inspectionChecklistItems, inspectionDamage, inspectionPhotos,
+  idempotencyKeys,
+} from "@shared/schema";
+import type { VehicleInspectionDetails } from "@shared/inspections";
+import type { LeaderboardEntry } from "@shared/leaderboards";
 import { randomUUID } from "crypto";
-import bcrypt from "bcrypt";
+import bcrypt from "bcryptjs";
+import { TransactionRollbackError, and, asc, desc, eq, gt, gte, inArray, isNotNull, isNull, lt, lte, ne, notInArray, or, sql } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+import { DEMO_BADGES, buildDemoLiftRequests, buildDemoPointsLedger, buildDemoUserStats, buildDemoUsers } from "./demo-data";
+import { evaluateBadges, type BadgeEvent } from "./badge-engine";
 
 function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
   const R = 3959; // Earth's radius in miles
@@ -32,6 +55,9 @@ function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: numbe
   return R * c;
 }
 
+// Ratings that no longer count towards averages, reputation and badges
+const uncountedRatingStatuses = ["removed", "superseded"];
+
 function generateCallSign(): string {
   const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
   const letter1 = letters[Math.floor(Math.random() * letters.length)];
@@ -40,6 +66,157 @@ function generateCallSign(): string {
   return `${letter1}${letter2}${numbers}`;
 }
 
+type Conversation = {
+  userId: string;
+  name: string;
+  lastMessage: string;
+  timestamp: string;
+  unreadCount: number;
+};
+
+type ScheduleMatch = { job: Job, distance: number, timeDifferenceMinutes: number, scheduleUserId: string, userName: string };
+
+function averageStars(ratingList: Rating[]): number {
+  return ratingList.length > 0
+    ? ratingList.reduce((sum, r) => sum + r.stars, 0) / ratingList.length
+    : 0;
+}
+
+function computeReputationScore(ratingList: Rating[], stats: UserStats): number {
+  // Calculate 90-day rolling average rating (60% weight)
+  const ninetyDaysAgo = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+  const recentRatings = ratingList.filter(r => r.createdAt && r.createdAt >= ninetyDaysAgo);
+  const ratingScore = (averageStars(recentRatings) / 5) * 60;
+
+  // Punctuality score (25% weight)
+  const punctualityScore = ((stats.punctualityScore ?? 0) / 100) * 25;
+
+  // Completion ratio (15% weight)
+  const completionScore = ((stats.completionRatio ?? 0) / 100) * 15;
+
+  return Math.round(ratingScore + punctualityScore + completionScore);
+}
+
+function tierForReputation(reputationScore: number): string {
+  if (reputationScore >= 95) return 'platinum';
+  if (reputationScore >= 85) return 'gold';
+  if (reputationScore >= 70) return 'silver';
+  return 'bronze';
+}
+
+function summarizeConversations(
+  userId: string,
+  userMessages: Message[],
+  lookupUser: (id: string) => User | undefined,
+): Conversation[] {
+  const conversationMap = new Map<string, { 
+    lastMessage: Message; 
+    unreadCount: number;
+  }>();
+  
+  userMessages.forEach((msg) => {
+    const otherUserId = msg.senderId === userId ? msg.receiverId : msg.senderId;
+    const existing = conversationMap.get(otherUserId);
+    
+    const unreadIncrement = (msg.receiverId === userId && !msg.read) ? 1 : 0;
+    
+    if (!existing) {
+      conversationMap.set(otherUserId, {
+        lastMessage: msg,
+        unreadCount: unreadIncrement,
+      });
+    } else {
+      const msgTime = msg.createdAt?.getTime() ?? 0;
+      const existingTime = existing.lastMessage.createdAt?.getTime() ?? 0;
+      
+      if (msgTime > existingTime || (msgTime === existingTime && msg.id > existing.lastMessage.id)) {
+        existing.lastMessage = msg;
+      }
+      existing.unreadCount += unreadIncrement;
+    }
+  });
+
+  const conversations = Array.from(conversationMap.entries()).map(([otherUserId, data]) => {
+    const otherUser = lookupUser(otherUserId);
+    return {
+      userId: otherUserId,
+      name: otherUser?.callSign || otherUser?.name || "Unknown User",
+      lastMessage: data.lastMessage.content,
+      timestamp: data.lastMessage.createdAt ? data.lastMessage.createdAt.toISOString() : "",
+      unreadCount: data.unreadCount,
+      sortTime: data.lastMessage.createdAt?.getTime() ?? 0,
+    };
+  });
+
+  return conversations.sort((a, b) => b.sortTime - a.sortTime).map(({ sortTime, ...conv }) => conv);
+}
+
+function scheduleMatchContent(otherUser: User, location: string, time: string, distance: number): string {
+  const distanceText = distance < 1 
+    ? `${Math.round(distance * 1000)}m` 
+    : `${distance.toFixed(1)}km`;
+
+  return `Schedule Match! Your route matches ${otherUser.callSign}'s schedule. You'll both be near ${location} around ${time} (within ${distanceText}). Contact them to discuss pickup arrangements.`;
+}
+
+// The fields of a log entry that changed, as text for the audit trail
+function tradePlateLogChanges(entry: TradePlateLogEntry, updates: TradePlateLogChanges): { field: string; oldValue: string | null; newValue: string | null }[] {
+  const asText = (value: unknown) => value instanceof Date ? value.toISOString() : value == null ? null : String(value);
+  return (Object.keys(updates) as (keyof TradePlateLogChanges)[])
+    .map((field) => ({ field, oldValue: asText(entry[field]), newValue: asText(updates[field]) }))
+    .filter((change) => change.oldValue !== change.newValue);
+}
+
+// Most points first, by name within equal points, which share a rank (1, 2, 2, 4)
+function rankLeaderboard(rows: { user: User; stats?: UserStats; points: number }[]): LeaderboardEntry[] {
+  const sorted = [...rows].sort((a, b) => b.points - a.points || a.user.name.localeCompare(b.user.name));
+  let rank = 0;
+  return sorted.map(({ user, stats, points }, i) => {
+    if (i === 0 || points !== sorted[i - 1].points) rank = i + 1;
+    return {
+      rank,
+      userId: user.id,
+      name: user.name,
+      callSign: user.callSign,
+      avatar: user.avatar,
+      tier: stats?.tier ?? null,
+      region: stats?.homeRegion ?? null,
+      points,
+    };
+  });
+}
+
+// Reports a moderator can still act on; action_taken and dismissed close them
+const OPEN_REPORT_STATUSES = ["pending", "reviewed"];
+
+// Timestamp column stamped when a booking enters each status (no-show closes it like a cancellation)
+const LIFT_BOOKING_TIMESTAMPS: Record<string, "acceptedAt" | "pickedUpAt" | "completedAt" | "cancelledAt"> = {
+  accepted: "acceptedAt",
+  "picked-up": "pickedUpAt",
+  completed: "completedAt",
+  cancelled: "cancelledAt",
+  "no-show": "cancelledAt",
+};
+
+function liftBookingUpdates(status: string, actorId: string): Partial<LiftBooking> {
+  const updates: Partial<LiftBooking> = { status };
+  const column = LIFT_BOOKING_TIMESTAMPS[status];
+  if (column) updates[column] = new Date();
+  if (status === "cancelled") updates.cancelledBy = actorId;
+  return updates;
+}
+
+// A completed booking counts as a shared lift for both people in the car
+function sharedLiftStats(stats: UserStats, role: "driver" | "passenger"): Partial<InsertUserStats> {
+  return {
+    totalLiftsShared: (stats.totalLiftsShared ?? 0) + 1,
+    ...(role === "driver"
+      ? { totalLiftsOffered: (stats.totalLiftsOffered ?? 0) + 1 }
+      : { totalLiftsRequested: (stats.totalLiftsRequested ?? 0) + 1 }),
+    lastActivityDate: new Date(),
+  };
+}
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
@@ -47,13 +224,23 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByStripeCustomerId(stripeCustomerId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  updateUser(userId: string, updates: { name?: string }): Promise<User | undefined>;
+  updateUser(userId: string, updates: { name?: string; leaderboardOptOut?: boolean }): Promise<User | undefined>;
   updateUserSubscription(userId: string, updates: {
     stripeCustomerId?: string;
     subscriptionStatus?: string;
     currentPeriodEnd?: Date | null;
     planId?: string | null;
   }): Promise<User | undefined>;
+  updateUserModeration(userId: string, updates: {
+    accountStatus?: string;
+    suspendedUntil?: Date | null;
+    warningCount?: number;
+  }): Promise<User | undefined>;
+  updateUserVerification(userId: string, updates: {
+    verified: boolean;
+    tradePlateDoc: string | null;
+    insuranceDoc: string | null;
+  }): Promise<User | undefined>;
   
   // Schedules
   createSchedule(schedule: InsertSchedule): Promise<Schedule>;
@@ -71,7 +258,7 @@ export interface IStorage {
   updateJobStatus(id: string, status: string, actualStartTime?: Date, actualEndTime?: Date, checkInLat?: number, checkInLng?: number, checkOutLat?: number, checkOutLng?: number): Promise<Job | undefined>;
   updateJob(id: string, updates: Partial<InsertJob>): Promise<Job | undefined>;
   deleteJob(id: string): Promise<boolean>;
-  findMatchingSchedules(jobId: string, maxDistanceKm: number, maxTimeWindowMinutes: number): Promise<{ job: Job, distance: number, timeDifferenceMinutes: number, scheduleUserId: string, userName: string }[]>;
+  findMatchingSchedules(jobId: string, maxDistanceKm: number, maxTimeWindowMinutes: number): Promise<ScheduleMatch[]>;
   
   // Lift Offers
   createLiftOffer(offer: InsertLiftOffer): Promise<LiftOffer>;
@@ -79,32 +266,58 @@ export interface IStorage {
   getAllLiftOffers(): Promise<LiftOffer[]>;
   getLiftOffersByDriverId(driverId: string): Promise<LiftOffer[]>;
   updateLiftOfferStatus(id: string, status: string): Promise<LiftOffer | undefined>;
+  updateLiftOffer(id: string, updates: Partial<InsertLiftOffer>): Promise<LiftOffer | undefined>;
   deleteLiftOffer(id: string): Promise<boolean>;
+  // Recurring offers: templates with a rule, and the dated occurrences generated from them
+  getRecurringLiftOfferTemplates(): Promise<LiftOffer[]>;
+  getLiftOfferOccurrences(templateId: string): Promise<LiftOffer[]>;
+  // Undefined when the template already has an occurrence on that date
+  createLiftOfferOccurrence(offer: InsertLiftOffer & { templateId: string; occurrenceDate: string }): Promise<LiftOffer | undefined>;
+  // Schedule-derived offers, by the jobs they were derived from
+  getLiftOffersBySourceJobIds(jobIds: string[]): Promise<LiftOffer[]>;
   
   // Lift Requests
   createLiftRequest(request: InsertLiftRequest): Promise<LiftRequest>;
   getLiftRequest(id: string): Promise<LiftRequest | undefined>;
   getAllLiftRequests(): Promise<LiftRequest[]>;
   getLiftRequestsByRequesterId(requesterId: string): Promise<LiftRequest[]>;
+  getLiftRequestsBySourceJobIds(jobIds: string[]): Promise<LiftRequest[]>;
+  updateLiftRequest(id: string, updates: Partial<InsertLiftRequest>): Promise<LiftRequest | undefined>;
   findMatchingDrivers(requestLat: number, requestLng: number, maxDistanceKm: number, hoursAgo: number): Promise<{ job: Job, distance: number, scheduleUserId: string }[]>;
   deleteLiftRequest(id: string): Promise<boolean>;
+
+  // Lift Bookings
+  createLiftBooking(booking: InsertLiftBooking): Promise<LiftBooking>;
+  getLiftBooking(id: string): Promise<LiftBooking | undefined>;
+  getLiftBookingsByOfferId(offerId: string): Promise<LiftBooking[]>;
+  getLiftBookingsByPassengerId(passengerId: string): Promise<LiftBooking[]>;
+  // Compare-and-set on status. Accepting reserves seats on the offer (undefined if it can't take them),
+  // cancelling an accepted booking releases them, and completion credits both users' lift stats.
+  transitionLiftBooking(id: string, fromStatus: string, toStatus: string, actorId: string): Promise<LiftBooking | undefined>;
+
+  // Match Subscriptions
+  createMatchSubscription(subscription: InsertMatchSubscription): Promise<MatchSubscription>;
+  getActiveMatchSubscriptions(): Promise<MatchSubscription[]>;
+  getMatchSubscriptionsByUserId(userId: string): Promise<MatchSubscription[]>;
+  updateMatchSubscriptionStatus(id: string, status: string): Promise<MatchSubscription | undefined>;
+  recordLiftMatchAlert(alert: InsertLiftMatchAlert): Promise<LiftMatchAlert | undefined>; // undefined if the pair was already alerted
   
   // Messages
-  createMessage(message: InsertMessage): Promise<Message>;
+  createMessage(message: InsertMessage, createdAt?: Date): Promise<Message>; // createdAt defaults to now; receivedAt is always now
   getMessagesBetweenUsers(userId1: string, userId2: string): Promise<Message[]>;
-  getConversations(userId: string): Promise<{ 
-    userId: string; 
-    name: string;
-    lastMessage: string; 
-    timestamp: string;
-    unreadCount: number;
-  }[]>;
+  getConversations(userId: string): Promise<Conversation[]>; // Leaves out blocked users
   createScheduleMatchMessage(user1Id: string, user2Id: string, location: string, time: string, distance: number): Promise<Message[]>;
   
   // Ratings
-  createRating(rating: InsertRating): Promise<Rating>;
-  getRatingsByUserId(userId: string): Promise<Rating[]>;
+  createRating(rating: InsertRating): Promise<Rating | undefined>; // undefined if the rater already rated that lift
+  getRating(id: string): Promise<Rating | undefined>;
+  getRatingsByUserId(userId: string): Promise<Rating[]>; // The ones that count: removed and superseded ratings are left out
   getRatingForLift(raterId: string, liftId: string): Promise<Rating | undefined>;
+  getDisputedRatings(): Promise<Rating[]>; // Awaiting a moderator, oldest dispute first
+  // Compare-and-set: only an active rating that was never disputed can be disputed, and only a
+  // disputed one resolved. Removing a rating recalculates the rated user's reputation.
+  disputeRating(id: string, reason: string): Promise<Rating | undefined>;
+  resolveRatingDispute(id: string, outcome: "upheld" | "removed", moderatorId: string, notes?: string): Promise<Rating | undefined>;
   
   // User Stats
   getUserStats(userId: string): Promise<UserStats | undefined>;
@@ -112,19 +325,88 @@ export interface IStorage {
   updateUserStats(userId: string, updates: Partial<InsertUserStats>): Promise<UserStats | undefined>;
   calculateReputationScore(userId: string): Promise<number>;
   updateReputationScore(userId: string): Promise<void>;
+
+  // Points Ledger: userStats.totalPoints is the sum of a user's entries
+  recordPoints(entry: InsertPointsLedgerEntry): Promise<PointsLedgerEntry | undefined>; // undefined if already recorded
+  getPointsLedger(userId: string): Promise<PointsLedgerEntry[]>; // Newest first
+  getPointsTotals(since?: Date): Promise<{ userId: string; points: number }[]>; // Per user, counting entries since `since`
+  // Users with points since `since` who haven't opted out, ranked within the region and tier and paged
+  getLeaderboard(filter: LeaderboardFilter): Promise<LeaderboardRows>;
   
   // Badges
   getBadge(id: string): Promise<Badge | undefined>;
   getAllBadges(): Promise<Badge[]>;
   createBadge(badge: InsertBadge): Promise<Badge>;
   
-  // User Badges
-  getUserBadges(userId: string): Promise<(UserBadge & { badge: Badge })[]>;
+  // User Badges: earned ones, plus unearned rows (earnedAt null) holding progress towards the rest
+  getUserBadges(userId: string): Promise<(UserBadge & { badge: Badge })[]>; // Earned only
+  getUserBadgeProgress(userId: string): Promise<UserBadge[]>;
+  setBadgeProgress(userId: string, badgeId: string, progress: number): Promise<UserBadge | undefined>; // undefined once earned
   awardBadge(userId: string, badgeId: string): Promise<UserBadge | null>;
-  checkAndAwardBadges(userId: string): Promise<UserBadge[]>;
+  // Runs the badge rules relevant to the event (all of them without one); returns newly awarded badges
+  checkAndAwardBadges(userId: string, event?: BadgeEvent): Promise<UserBadge[]>;
   
   // Driver Type (role selection)
   updateUserDriverType(userId: string, driverType: string): Promise<User | undefined>;
+
+  // Reports: the moderation queue works through pending ones, oldest first
+  createReport(report: InsertReport): Promise<Report>;
+  getReport(id: string): Promise<Report | undefined>;
+  getReports(status?: string): Promise<Report[]>;
+  getOpenReport(reporterId: string, reportedUserId: string): Promise<Report | undefined>; // Pending or reviewed
+  // Only while the report is still open (pending or reviewed); undefined once it has been closed
+  reviewReport(id: string, review: {
+    status: string;
+    action?: string | null;
+    reviewedBy: string;
+    reviewNotes?: string | null;
+  }): Promise<Report | undefined>;
+
+  // Blocks
+  createBlock(block: InsertBlock): Promise<Block>; // Returns the existing block if already blocked
+  deleteBlock(blockerId: string, blockedUserId: string): Promise<boolean>;
+  getBlocksByBlockerId(blockerId: string): Promise<Block[]>;
+  getBlockedUserIds(userId: string): Promise<string[]>; // Blocked by or blocking this user
+
+  // Trade plate usage log
+  createTradePlateLogEntry(entry: InsertTradePlateLogEntry): Promise<TradePlateLogEntry | undefined>; // undefined if the job already has one
+  getTradePlateLogEntry(id: string): Promise<TradePlateLogEntry | undefined>;
+  getTradePlateLogEntryByJobId(jobId: string): Promise<TradePlateLogEntry | undefined>;
+  // In start order; from/to are inclusive YYYY-MM-DD dates
+  getTradePlateLog(userId: string, filter?: { plateNumber?: string; from?: string; to?: string }): Promise<TradePlateLogEntry[]>;
+  updateTradePlateLogEntry(id: string, updates: TradePlateLogChanges): Promise<TradePlateLogEntry | undefined>;
+  // A driver's correction: applies the changes and records each field that changed, with the reason
+  editTradePlateLogEntry(id: string, updates: TradePlateLogChanges, edit: {
+    editedBy: string;
+    reason: string;
+  }): Promise<{ entry: TradePlateLogEntry; edits: TradePlateLogEdit[] } | undefined>;
+  getTradePlateLogEdits(entryId: string): Promise<TradePlateLogEdit[]>; // Oldest first
+
+  // Vehicle inspections
+  createVehicleInspection(inspection: InsertVehicleInspection, details: InspectionRows): Promise<VehicleInspectionDetails | undefined>; // undefined if the job already has one for the stage
+  getVehicleInspectionsByJobId(jobId: string): Promise<VehicleInspectionDetails[]>; // Oldest first
+  getInspectionPhoto(id: string): Promise<InspectionPhoto | undefined>;
+  deleteVehicleInspection(id: string): Promise<boolean>; // With its checklist, damage and photo rows
+
+  // Idempotency keys
+  createIdempotencyKey(key: InsertIdempotencyKey): Promise<IdempotencyKey | undefined>; // undefined if the key is taken
+  getIdempotencyKey(key: string): Promise<IdempotencyKey | undefined>;
+  completeIdempotencyKey(key: string, statusCode: number, response: string | null): Promise<IdempotencyKey | undefined>;
+  deleteIdempotencyKey(key: string): Promise<boolean>;
+  deleteIdempotencyKeysCreatedBefore(cutoff: Date): Promise<number>;
+
+  // Verification documents
+  createUserDocument(document: InsertUserDocument): Promise<UserDocument>;
+  getUserDocument(id: string): Promise<UserDocument | undefined>;
+  getUserDocumentsByUserId(userId: string): Promise<UserDocument[]>; // Newest first
+  getUserDocumentsByStatus(status: string): Promise<UserDocument[]>; // Oldest first
+  // Compare-and-set: undefined unless the document is still in fromStatus; a review stamps reviewedBy/At
+  transitionUserDocument(id: string, fromStatus: string, toStatus: string, review?: {
+    reviewedBy: string;
+    rejectionReason?: string | null;
+  }): Promise<UserDocument | undefined>;
+  // Undefined if an approved document has already been reminded about this close to expiry
+  markUserDocumentReminded(id: string, days: number): Promise<UserDocument | undefined>;
   
   // Check-ins
   createCheckIn(checkIn: InsertCheckIn): Promise<CheckIn>;
@@ -133,6 +415,9 @@ export interface IStorage {
   getActiveCheckIns(): Promise<CheckIn[]>;
   getNearbyCheckIns(lat: number, lng: number, maxDistanceMiles: number, driverType?: string): Promise<(CheckIn & { user: User, distance: number })[]>;
   deleteCheckIn(id: string): Promise<boolean>;
+  // Check-ins with a What3Words address that hasn't been resolved to coordinates yet
+  getCheckInsMissingCoordinates(): Promise<CheckIn[]>;
+  updateCheckInCoordinates(id: string, lat: number, lng: number): Promise<CheckIn | undefined>;
   
   // Loader Spaces
   createLoaderSpace(space: InsertLoaderSpace): Promise<LoaderSpace>;
@@ -141,6 +426,33 @@ export interface IStorage {
   getAllAvailableLoaderSpaces(): Promise<(LoaderSpace & { user: User })[]>;
   updateLoaderSpaceStatus(id: string, status: string): Promise<LoaderSpace | undefined>;
   deleteLoaderSpace(id: string): Promise<boolean>;
+  // Spaces with an origin or destination What3Words address but no coordinates for it
+  getLoaderSpacesMissingCoordinates(): Promise<LoaderSpace[]>;
+  updateLoaderSpaceCoordinates(id: string, coordinates: LoaderSpaceCoordinates): Promise<LoaderSpace | undefined>;
+}
+
+export type LoaderSpaceCoordinates = Partial<Pick<LoaderSpace, "originLat" | "originLng" | "destLat" | "destLng">>;
+// The rows of an inspection, in the order they were recorded
+export interface InspectionRows {
+  checklist: InsertInspectionChecklistItem[];
+  damage: InsertInspectionDamage[];
+  photos: InsertInspectionPhoto[];
+}
+export type TradePlateLogChanges = Partial<Pick<TradePlateLogEntry,
+  "date" | "plateNumber" | "vehicleRegistration" | "startTime" | "endTime" | "startLocation" | "endLocation" | "purpose">>;
+export interface LeaderboardFilter {
+  since?: Date;
+  region?: string | null;
+  tier?: string | null;
+  offset: number;
+  limit: number;
+  userId?: string; // Also find this user's entry, wherever it falls
+}
+export interface LeaderboardRows {
+  entries: LeaderboardEntry[];
+  totalEntries: number;
+  regions: string[]; // Home regions of everyone listed for the period, whatever the region and tier
+  currentUser?: LeaderboardEntry | null;
 }
 
 export class MemStorage implements IStorage {
@@ -149,11 +461,23 @@ export class MemStorage implements IStorage {
   private jobs: Map<string, Job>;
   private liftOffers: Map<string, LiftOffer>;
   private liftRequests: Map<string, LiftRequest>;
+  private liftBookings: Map<string, LiftBooking>;
+  private matchSubscriptions: Map<string, MatchSubscription>;
+  private liftMatchAlerts: Map<string, LiftMatchAlert>;
   private messages: Map<string, Message>;
   private ratings: Map<string, Rating>;
   private userStats: Map<string, UserStats>;
+  private pointsLedger: Map<string, PointsLedgerEntry>;
   private badges: Map<string, Badge>;
   private userBadges: Map<string, UserBadge>;
+  private reports: Map<string, Report>;
+  private blocks: Map<string, Block>;
+  private userDocuments: Map<string, UserDocument>;
+  private tradePlateLogEntries: Map<string, TradePlateLogEntry>;
+  private tradePlateLogEdits: Map<string, TradePlateLogEdit>;
+  private vehicleInspections: Map<string, VehicleInspectionDetails>;
+  private inspectionPhotos: Map<string, InspectionPhoto>;
+  private idempotencyKeys: Map<string, IdempotencyKey>;
   private checkIns: Map<string, CheckIn>;
   private loaderSpaces: Map<string, LoaderSpace>;
 
@@ -163,11 +487,23 @@ export class MemStorage implements IStorage {
     this.jobs = new Map();
     this.liftOffers = new Map();
     this.liftRequests = new Map();
+    this.liftBookings = new Map();
+    this.matchSubscriptions = new Map();
+    this.liftMatchAlerts = new Map();
     this.messages = new Map();
     this.ratings = new Map();
     this.userStats = new Map();
+    this.pointsLedger = new Map();
     this.badges = new Map();
     this.userBadges = new Map();
+    this.reports = new Map();
+    this.blocks = new Map();
+    this.userDocuments = new Map();
+    this.tradePlateLogEntries = new Map();
+    this.tradePlateLogEdits = new Map();
+    this.vehicleInspections = new Map();
+    this.inspectionPhotos = new Map();
+    this.idempotencyKeys = new Map();
     this.checkIns = new Map();
     this.loaderSpaces = new Map();
     
@@ -180,204 +516,27 @@ export class MemStorage implements IStorage {
     }
 
     // Hash password 'demo' for demo users (synchronous for seed data)
-    const hashedPassword = bcrypt.hashSync('demo', 10);
-
-    const demoUsers: User[] = [
-      { 
-        id: 'user-1', 
-        username: 'john_driver', 
-        password: hashedPassword, 
-        name: 'John Smith', 
-        callSign: 'JS1234',
-        email: null,
-        phone: null,
-        avatar: null, 
-        role: 'user',
-        driverType: 'driver',
-        paymentPreference: 'subscription',
-        tradePlateDoc: null,
-        insuranceDoc: null,
-        rating: 4.8, 
-        totalTrips: 156, 
-        verified: true,
-        stripeCustomerId: null,
-        subscriptionStatus: 'active', // Give demo users active subscription
-        currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
-        planId: 'demo-plan',
-        createdAt: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000), // 90 days ago
-      },
-      { 
-        id: 'user-2', 
-        username: 'sarah_delivers', 
-        password: hashedPassword, 
-        name: 'Sarah Johnson', 
-        callSign: 'SJ5678',
-        email: null,
-        phone: null,
-        avatar: null, 
-        role: 'user',
-        driverType: 'driver',
-        paymentPreference: 'subscription',
-        tradePlateDoc: null,
-        insuranceDoc: null,
-        rating: 4.9, 
-        totalTrips: 203, 
-        verified: true,
-        stripeCustomerId: null,
-        subscriptionStatus: 'active',
-        currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-        planId: 'demo-plan',
-        createdAt: new Date(Date.now() - 120 * 24 * 60 * 60 * 1000), // 120 days ago
-      },
-      { 
-        id: 'user-3', 
-        username: 'mike_transport', 
-        password: hashedPassword, 
-        name: 'Mike Williams', 
-        callSign: 'MW9012',
-        email: null,
-        phone: null,
-        avatar: null, 
-        role: 'user',
-        driverType: 'driver',
-        paymentPreference: 'subscription',
-        tradePlateDoc: null,
-        insuranceDoc: null,
-        rating: 4.7, 
-        totalTrips: 98, 
-        verified: true,
-        stripeCustomerId: null,
-        subscriptionStatus: 'active',
-        currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-        planId: 'demo-plan',
-        createdAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000), // 60 days ago
-      },
-      { 
-        id: 'user-4', 
-        username: 'emma_driver', 
-        password: hashedPassword, 
-        name: 'Emma Brown', 
-        callSign: 'EB3456',
-        email: null,
-        phone: null,
-        avatar: null, 
-        role: 'moderator', // Make one demo user a moderator for testing
-        driverType: 'loader', // Make this user a loader for testing
-        paymentPreference: 'per_job',
-        tradePlateDoc: null,
-        insuranceDoc: null,
-        rating: 4.6, 
-        totalTrips: 134, 
-        verified: true,
-        stripeCustomerId: null,
-        subscriptionStatus: 'active',
-        currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-        planId: 'demo-plan',
-        createdAt: new Date(Date.now() - 45 * 24 * 60 * 60 * 1000), // 45 days ago
-      },
-    ];
+    const demoUsers = buildDemoUsers(bcrypt.hashSync('demo', 10));
 
     demoUsers.forEach(user => {
       this.users.set(user.id, user);
     });
 
-    const now = new Date();
-    const today4pm = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 16, 0);
-    const today630pm = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 18, 30);
-
-    const demoLiftRequests: LiftRequest[] = [
-      {
-        id: '1',
-        requesterId: 'user-2',
-        fromLat: 53.7960,
-        fromLng: -1.5491,
-        toLat: 53.3808,
-        toLng: -1.4703,
-        fromLocation: 'Leeds Station',
-        toLocation: 'Sheffield Dealership',
-        requestedTime: today4pm,
-        fromW3W: null,
-        toW3W: null,
-        earliestDepart: null,
-        latestArrive: null,
-        hasBagsKit: false,
-        maxBudget: null,
-        status: 'active',
-        notes: null,
-        createdAt: new Date(Date.now() - 5 * 60 * 1000),
-      },
-      {
-        id: '2',
-        requesterId: 'user-3',
-        fromLat: 52.9548,
-        fromLng: -1.1581,
-        toLat: 52.9225,
-        toLng: -1.4746,
-        fromLocation: 'Nottingham Centre',
-        toLocation: 'Derby Train Station',
-        requestedTime: today630pm,
-        fromW3W: null,
-        toW3W: null,
-        earliestDepart: null,
-        latestArrive: null,
-        hasBagsKit: false,
-        maxBudget: null,
-        status: 'active',
-        notes: null,
-        createdAt: new Date(Date.now() - 12 * 60 * 1000),
-      },
-    ];
-
-    demoLiftRequests.forEach(request => {
+    buildDemoLiftRequests().forEach(request => {
       this.liftRequests.set(request.id, request);
     });
 
-    // Seed badges
-    const demoBadges: Badge[] = [
-      // Milestone badges
-      { id: 'first-lift', name: 'First Lift', description: 'Complete your first shared lift', category: 'milestone', icon: '🚗', requirement: 'Share 1 lift', threshold: 1 },
-      { id: '10-lifts', name: '10 Lifts', description: 'Share 10 lifts with other drivers', category: 'milestone', icon: '🔟', requirement: 'Share 10 lifts', threshold: 10 },
-      { id: '50-lifts', name: '50 Lifts', description: 'Share 50 lifts with other drivers', category: 'milestone', icon: '⭐', requirement: 'Share 50 lifts', threshold: 50 },
-      { id: '100-lifts', name: 'Century Club', description: 'Share 100 lifts with other drivers', category: 'milestone', icon: '💯', requirement: 'Share 100 lifts', threshold: 100 },
-      
-      // Quality badges
-      { id: '5-star-pro', name: '5-Star Pro', description: 'Maintain 4.8+ rating over 20 trips', category: 'quality', icon: '⭐', requirement: 'Average 4.8+ stars over 20 lifts', threshold: null },
-      { id: 'perfect-week', name: 'Perfect Week', description: 'Receive only 5-star ratings for a week', category: 'quality', icon: '🌟', requirement: '7 days of 5-star ratings', threshold: null },
-      
-      // Community badges
-      { id: 'helpful-driver', name: 'Helpful Driver', description: 'Receive 10 thank you messages', category: 'community', icon: '🤝', requirement: '10 thank you messages', threshold: 10 },
-      { id: 'quick-responder', name: 'Quick Responder', description: 'Reply to messages within 5 minutes', category: 'community', icon: '⚡', requirement: '20 quick responses', threshold: 20 },
-      
-      // Safety badges
-      { id: 'on-time-champion', name: 'On-Time Champion', description: 'Maintain 95%+ punctuality for 30 days', category: 'safety', icon: '⏰', requirement: '95%+ punctuality for 30 days', threshold: null },
-      { id: 'route-master', name: 'Route Master', description: 'Complete 50 routes without delays', category: 'safety', icon: '🗺️', requirement: '50 on-time deliveries', threshold: 50 },
-    ];
-
-    demoBadges.forEach(badge => {
+    DEMO_BADGES.forEach(badge => {
       this.badges.set(badge.id, badge);
     });
 
-    // Seed initial user stats for demo users
-    demoUsers.forEach(user => {
-      const rating = user.rating ?? 0;
-      const totalTrips = user.totalTrips ?? 0;
-      const stats: UserStats = {
-        userId: user.id,
-        reputationScore: Math.round((rating / 5) * 60 + 20), // Simplified initial score
-        tier: rating >= 4.8 ? 'gold' : rating >= 4.5 ? 'silver' : 'bronze',
-        totalLiftsShared: totalTrips,
-        totalLiftsOffered: Math.floor(totalTrips * 0.6),
-        totalLiftsRequested: Math.floor(totalTrips * 0.4),
-        averageRating: rating,
-        punctualityScore: 85 + Math.random() * 10,
-        completionRatio: 90 + Math.random() * 8,
-        totalPoints: totalTrips * 100,
-        currentStreak: Math.floor(Math.random() * 7),
-        longestStreak: Math.floor(Math.random() * 30),
-        lastActivityDate: new Date(),
-        updatedAt: new Date(),
-      };
-      this.userStats.set(user.id, stats);
+    const demoStats = buildDemoUserStats(demoUsers);
+    demoStats.forEach(stats => {
+      this.userStats.set(stats.userId, stats);
+    });
+
+    buildDemoPointsLedger(demoStats).forEach(entry => {
+      this.pointsLedger.set(entry.id, entry);
     });
   }
 
@@ -425,6 +584,10 @@ export class MemStorage implements IStorage {
       rating: 0,
       totalTrips: 0,
       verified: false,
+      leaderboardOptOut: false,
+      accountStatus: 'active',
+      suspendedUntil: null,
+      warningCount: 0,
       avatar: insertUser.avatar ?? null,
       stripeCustomerId: null,
       subscriptionStatus: 'inactive',
@@ -440,7 +603,7 @@ export class MemStorage implements IStorage {
     return user;
   }
 
-  async updateUser(userId: string, updates: { name?: string }): Promise<User | undefined> {
+  async updateUser(userId: string, updates: { name?: string; leaderboardOptOut?: boolean }): Promise<User | undefined> {
     const user = this.users.get(userId);
     if (!user) return undefined;
     
@@ -471,6 +634,32 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
 
+  async updateUserModeration(userId: string, updates: {
+    accountStatus?: string;
+    suspendedUntil?: Date | null;
+    warningCount?: number;
+  }): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, ...updates };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserVerification(userId: string, updates: {
+    verified: boolean;
+    tradePlateDoc: string | null;
+    insuranceDoc: string | null;
+  }): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, ...updates };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
   // Schedules
   async createSchedule(insertSchedule: InsertSchedule): Promise<Schedule> {
     const id = randomUUID();
@@ -522,8 +711,12 @@ export class MemStorage implements IStorage {
       ...insertJob,
       id,
       status: insertJob.status ?? "pending",
+      tradePlateNumber: insertJob.tradePlateNumber ?? null,
+      vehicleRegistration: insertJob.vehicleRegistration ?? null,
       actualStartTime: null,
       actualEndTime: null,
+      checkInReceivedAt: null,
+      checkOutReceivedAt: null,
       checkInLat: null,
       checkInLng: null,
       checkOutLat: null,
@@ -574,11 +767,14 @@ export class MemStorage implements IStorage {
     const job = this.jobs.get(id);
     if (!job) return undefined;
     
+    const receivedAt = new Date();
     const updatedJob: Job = {
       ...job,
       status,
       actualStartTime: actualStartTime ?? job.actualStartTime,
       actualEndTime: actualEndTime ?? job.actualEndTime,
+      checkInReceivedAt: actualStartTime ? receivedAt : job.checkInReceivedAt,
+      checkOutReceivedAt: actualEndTime ? receivedAt : job.checkOutReceivedAt,
       checkInLat: checkInLat ?? job.checkInLat,
       checkInLng: checkInLng ?? job.checkInLng,
       checkOutLat: checkOutLat ?? job.checkOutLat,
@@ -601,6 +797,20 @@ export class MemStorage implements IStorage {
   }
 
   async deleteJob(id: string): Promise<boolean> {
+    // Lifts derived from the job outlive it (ON DELETE SET NULL in Postgres)
+    Array.from(this.liftOffers.values())
+      .filter((offer) => offer.sourceJobId === id)
+      .forEach((offer) => this.liftOffers.set(offer.id, { ...offer, sourceJobId: null }));
+    Array.from(this.liftRequests.values())
+      .filter((request) => request.sourceJobId === id)
+      .forEach((request) => this.liftRequests.set(request.id, { ...request, sourceJobId: null }));
+    // So does its trade plate log entry, which has to be kept
+    Array.from(this.tradePlateLogEntries.values())
+      .filter((entry) => entry.jobId === id)
+      .forEach((entry) => this.tradePlateLogEntries.set(entry.id, { ...entry, jobId: null }));
+    Array.from(this.vehicleInspections.values())
+      .filter((inspection) => inspection.jobId === id)
+      .forEach((inspection) => this.vehicleInspections.set(inspection.id, { ...inspection, jobId: null }));
     return this.jobs.delete(id);
   }
 
@@ -608,17 +818,19 @@ export class MemStorage implements IStorage {
     jobId: string,
     maxDistanceKm: number = 3, // Default 3km for pickup coordination
     maxTimeWindowMinutes: number = 60 // Default 1 hour window
-  ): Promise<{ job: Job, distance: number, timeDifferenceMinutes: number, scheduleUserId: string, userName: string }[]> {
+  ): Promise<ScheduleMatch[]> {
     const sourceJob = await this.getJob(jobId);
     if (!sourceJob) return [];
 
     const sourceSchedule = await this.getSchedule(sourceJob.scheduleId);
     if (!sourceSchedule) return [];
+    // Drivers who have blocked each other are never matched
+    const blockedUserIds = new Set(await this.getBlockedUserIds(sourceSchedule.userId));
 
-    const matches: { job: Job, distance: number, timeDifferenceMinutes: number, scheduleUserId: string, userName: string }[] = [];
+    const matches: ScheduleMatch[] = [];
 
     // Check all jobs for matches
-    for (const job of this.jobs.values()) {
+    for (const job of Array.from(this.jobs.values())) {
       // Skip the source job
       if (job.id === jobId) continue;
 
@@ -627,6 +839,7 @@ export class MemStorage implements IStorage {
 
       // Skip same user
       if (schedule.userId === sourceSchedule.userId) continue;
+      if (blockedUserIds.has(schedule.userId)) continue;
 
       // Check destination proximity
       const distance = calculateDistance(
@@ -673,10 +886,15 @@ export class MemStorage implements IStorage {
       availableSeats: insertOffer.availableSeats ?? 1,
       detourKm: insertOffer.detourKm ?? 10,
       priceType: insertOffer.priceType ?? "Free",
+      priceValue: insertOffer.priceValue ?? null,
       vehicleType: insertOffer.vehicleType ?? "Hatchback",
       visibility: insertOffer.visibility ?? "Everyone",
       repeatPattern: insertOffer.repeatPattern ?? "None",
       autoGenerated: insertOffer.autoGenerated ?? false,
+      recurrenceRule: insertOffer.recurrenceRule ?? null,
+      templateId: insertOffer.templateId ?? null,
+      occurrenceDate: insertOffer.occurrenceDate ?? null,
+      sourceJobId: insertOffer.sourceJobId ?? null,
       status: insertOffer.status ?? "available",
       notes: insertOffer.notes ?? null,
       createdAt: new Date(),
@@ -708,7 +926,54 @@ export class MemStorage implements IStorage {
     return updatedOffer;
   }
 
+  async updateLiftOffer(id: string, updates: Partial<InsertLiftOffer>): Promise<LiftOffer | undefined> {
+    const offer = this.liftOffers.get(id);
+    if (!offer) return undefined;
+
+    const updatedOffer: LiftOffer = { ...offer, ...updates };
+    this.liftOffers.set(id, updatedOffer);
+    return updatedOffer;
+  }
+
+  async getRecurringLiftOfferTemplates(): Promise<LiftOffer[]> {
+    return Array.from(this.liftOffers.values())
+      .filter((offer) => offer.recurrenceRule && !offer.templateId && offer.status === "recurring");
+  }
+
+  async getLiftOfferOccurrences(templateId: string): Promise<LiftOffer[]> {
+    return Array.from(this.liftOffers.values())
+      .filter((offer) => offer.templateId === templateId)
+      .sort((a, b) => a.departureTime.getTime() - b.departureTime.getTime());
+  }
+
+  async createLiftOfferOccurrence(offer: InsertLiftOffer & { templateId: string; occurrenceDate: string }): Promise<LiftOffer | undefined> {
+    const exists = Array.from(this.liftOffers.values())
+      .some((o) => o.templateId === offer.templateId && o.occurrenceDate === offer.occurrenceDate);
+    if (exists) return undefined;
+    return this.createLiftOffer(offer);
+  }
+
+  async getLiftOffersBySourceJobIds(jobIds: string[]): Promise<LiftOffer[]> {
+    return Array.from(this.liftOffers.values())
+      .filter((offer) => offer.sourceJobId !== null && jobIds.includes(offer.sourceJobId));
+  }
+
   async deleteLiftOffer(id: string): Promise<boolean> {
+    // Bookings keep their offer (ON DELETE RESTRICT in Postgres)
+    if (Array.from(this.liftBookings.values()).some((booking) => booking.offerId === id)) {
+      throw new Error(`Lift offer ${id} has bookings`);
+    }
+    // Occurrences outlive their template (ON DELETE SET NULL in Postgres)
+    Array.from(this.liftOffers.values())
+      .filter((offer) => offer.templateId === id)
+      .forEach((offer) => this.liftOffers.set(offer.id, { ...offer, templateId: null }));
+    // Watches and alerts go with their offer (ON DELETE CASCADE in Postgres)
+    Array.from(this.matchSubscriptions.values())
+      .filter((subscription) => subscription.liftOfferId === id)
+      .forEach((subscription) => this.matchSubscriptions.delete(subscription.id));
+    Array.from(this.liftMatchAlerts.values())
+      .filter((alert) => alert.offerId === id)
+      .forEach((alert) => this.liftMatchAlerts.delete(alert.id));
     return this.liftOffers.delete(id);
   }
 
@@ -723,6 +988,9 @@ export class MemStorage implements IStorage {
       earliestDepart: insertRequest.earliestDepart ?? null,
       latestArrive: insertRequest.latestArrive ?? null,
       hasBagsKit: insertRequest.hasBagsKit ?? false,
+      maxBudget: insertRequest.maxBudget ?? null,
+      autoGenerated: insertRequest.autoGenerated ?? false,
+      sourceJobId: insertRequest.sourceJobId ?? null,
       status: insertRequest.status ?? 'active',
       notes: insertRequest.notes ?? null,
       createdAt: new Date(),
@@ -745,6 +1013,20 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getLiftRequestsBySourceJobIds(jobIds: string[]): Promise<LiftRequest[]> {
+    return Array.from(this.liftRequests.values())
+      .filter((request) => request.sourceJobId !== null && jobIds.includes(request.sourceJobId));
+  }
+
+  async updateLiftRequest(id: string, updates: Partial<InsertLiftRequest>): Promise<LiftRequest | undefined> {
+    const request = this.liftRequests.get(id);
+    if (!request) return undefined;
+
+    const updatedRequest: LiftRequest = { ...request, ...updates };
+    this.liftRequests.set(id, updatedRequest);
+    return updatedRequest;
+  }
+
   async findMatchingDrivers(
     requestLat: number, 
     requestLng: number, 
@@ -782,17 +1064,160 @@ export class MemStorage implements IStorage {
   }
 
   async deleteLiftRequest(id: string): Promise<boolean> {
+    // Bookings outlive the request they were made from (ON DELETE SET NULL in Postgres)
+    Array.from(this.liftBookings.values())
+      .filter((booking) => booking.requestId === id)
+      .forEach((booking) => this.liftBookings.set(booking.id, { ...booking, requestId: null }));
+    Array.from(this.matchSubscriptions.values())
+      .filter((subscription) => subscription.liftRequestId === id)
+      .forEach((subscription) => this.matchSubscriptions.delete(subscription.id));
+    Array.from(this.liftMatchAlerts.values())
+      .filter((alert) => alert.requestId === id)
+      .forEach((alert) => this.liftMatchAlerts.delete(alert.id));
     return this.liftRequests.delete(id);
   }
 
+  // Lift Bookings
+  async createLiftBooking(insertBooking: InsertLiftBooking): Promise<LiftBooking> {
+    const id = randomUUID();
+    const booking: LiftBooking = {
+      ...insertBooking,
+      id,
+      requestId: insertBooking.requestId ?? null,
+      seats: insertBooking.seats ?? 1,
+      status: "requested",
+      message: insertBooking.message ?? null,
+      cancelledBy: null,
+      createdAt: new Date(),
+      acceptedAt: null,
+      pickedUpAt: null,
+      completedAt: null,
+      cancelledAt: null,
+    };
+    this.liftBookings.set(id, booking);
+    return booking;
+  }
+
+  async getLiftBooking(id: string): Promise<LiftBooking | undefined> {
+    return this.liftBookings.get(id);
+  }
+
+  async getLiftBookingsByOfferId(offerId: string): Promise<LiftBooking[]> {
+    return Array.from(this.liftBookings.values()).filter(
+      (booking) => booking.offerId === offerId
+    );
+  }
+
+  async getLiftBookingsByPassengerId(passengerId: string): Promise<LiftBooking[]> {
+    return Array.from(this.liftBookings.values()).filter(
+      (booking) => booking.passengerId === passengerId
+    );
+  }
+
+  async transitionLiftBooking(
+    id: string,
+    fromStatus: string,
+    toStatus: string,
+    actorId: string
+  ): Promise<LiftBooking | undefined> {
+    // No awaits until every map is updated, so concurrent requests can't interleave
+    const booking = this.liftBookings.get(id);
+    if (!booking || booking.status !== fromStatus) return undefined;
+    const offer = this.liftOffers.get(booking.offerId);
+    if (!offer) return undefined;
+
+    if (toStatus === "accepted") {
+      if (offer.status !== "available" || offer.availableSeats < booking.seats) return undefined;
+      const availableSeats = offer.availableSeats - booking.seats;
+      this.liftOffers.set(offer.id, { ...offer, availableSeats, status: availableSeats === 0 ? "full" : offer.status });
+      this.setLiftRequestStatus(booking.requestId, "fulfilled");
+    } else if (fromStatus === "accepted" && toStatus === "cancelled") {
+      this.liftOffers.set(offer.id, {
+        ...offer,
+        availableSeats: offer.availableSeats + booking.seats,
+        status: offer.status === "full" ? "available" : offer.status,
+      });
+      this.setLiftRequestStatus(booking.requestId, "active");
+    }
+
+    const updatedBooking: LiftBooking = { ...booking, ...liftBookingUpdates(toStatus, actorId) };
+    this.liftBookings.set(id, updatedBooking);
+
+    if (toStatus === "completed") {
+      for (const [userId, role] of [[offer.driverId, "driver"], [booking.passengerId, "passenger"]] as const) {
+        const stats = this.userStats.get(userId) ?? await this.createUserStats(userId);
+        await this.updateUserStats(userId, sharedLiftStats(stats, role));
+      }
+    }
+
+    return updatedBooking;
+  }
+
+  private setLiftRequestStatus(requestId: string | null, status: string): void {
+    const request = requestId ? this.liftRequests.get(requestId) : undefined;
+    if (request) {
+      this.liftRequests.set(request.id, { ...request, status });
+    }
+  }
+
+  // Match Subscriptions
+  async createMatchSubscription(insertSubscription: InsertMatchSubscription): Promise<MatchSubscription> {
+    const id = randomUUID();
+    const subscription: MatchSubscription = {
+      ...insertSubscription,
+      id,
+      liftOfferId: insertSubscription.liftOfferId ?? null,
+      liftRequestId: insertSubscription.liftRequestId ?? null,
+      minScore: insertSubscription.minScore ?? 60,
+      status: insertSubscription.status ?? "active",
+      createdAt: new Date(),
+    };
+    this.matchSubscriptions.set(id, subscription);
+    return subscription;
+  }
+
+  async getActiveMatchSubscriptions(): Promise<MatchSubscription[]> {
+    return Array.from(this.matchSubscriptions.values()).filter(
+      (subscription) => subscription.status === "active"
+    );
+  }
+
+  async getMatchSubscriptionsByUserId(userId: string): Promise<MatchSubscription[]> {
+    return Array.from(this.matchSubscriptions.values()).filter(
+      (subscription) => subscription.userId === userId
+    );
+  }
+
+  async updateMatchSubscriptionStatus(id: string, status: string): Promise<MatchSubscription | undefined> {
+    const subscription = this.matchSubscriptions.get(id);
+    if (!subscription) return undefined;
+
+    const updatedSubscription: MatchSubscription = { ...subscription, status };
+    this.matchSubscriptions.set(id, updatedSubscription);
+    return updatedSubscription;
+  }
+
+  async recordLiftMatchAlert(insertAlert: InsertLiftMatchAlert): Promise<LiftMatchAlert | undefined> {
+    const existing = Array.from(this.liftMatchAlerts.values()).find(
+      (alert) => alert.offerId === insertAlert.offerId && alert.requestId === insertAlert.requestId
+    );
+    if (existing) return undefined;
+
+    const id = randomUUID();
+    const alert: LiftMatchAlert = { ...insertAlert, id, createdAt: new Date() };
+    this.liftMatchAlerts.set(id, alert);
+    return alert;
+  }
+
   // Messages
-  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+  async createMessage(insertMessage: InsertMessage, createdAt: Date = new Date()): Promise<Message> {
     const id = randomUUID();
     const message: Message = {
       ...insertMessage,
       id,
       read: insertMessage.read ?? false,
-      createdAt: new Date(),
+      createdAt,
+      receivedAt: new Date(),
     };
     this.messages.set(id, message);
     return message;
@@ -808,57 +1233,14 @@ export class MemStorage implements IStorage {
       .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
   }
 
-  async getConversations(userId: string): Promise<{ 
-    userId: string; 
-    name: string;
-    lastMessage: string; 
-    timestamp: string;
-    unreadCount: number;
-  }[]> {
+  async getConversations(userId: string): Promise<Conversation[]> {
+    const blockedUserIds = new Set(await this.getBlockedUserIds(userId));
     const userMessages = Array.from(this.messages.values()).filter(
-      (msg) => msg.senderId === userId || msg.receiverId === userId
+      (msg) => (msg.senderId === userId && !blockedUserIds.has(msg.receiverId)) ||
+        (msg.receiverId === userId && !blockedUserIds.has(msg.senderId))
     );
 
-    const conversationMap = new Map<string, { 
-      lastMessage: Message; 
-      unreadCount: number;
-    }>();
-    
-    userMessages.forEach((msg) => {
-      const otherUserId = msg.senderId === userId ? msg.receiverId : msg.senderId;
-      const existing = conversationMap.get(otherUserId);
-      
-      const unreadIncrement = (msg.receiverId === userId && !msg.read) ? 1 : 0;
-      
-      if (!existing) {
-        conversationMap.set(otherUserId, {
-          lastMessage: msg,
-          unreadCount: unreadIncrement,
-        });
-      } else {
-        const msgTime = msg.createdAt?.getTime() ?? 0;
-        const existingTime = existing.lastMessage.createdAt?.getTime() ?? 0;
-        
-        if (msgTime > existingTime || (msgTime === existingTime && msg.id > existing.lastMessage.id)) {
-          existing.lastMessage = msg;
-        }
-        existing.unreadCount += unreadIncrement;
-      }
-    });
-
-    const conversations = Array.from(conversationMap.entries()).map(([otherUserId, data]) => {
-      const otherUser = this.users.get(otherUserId);
-      return {
-        userId: otherUserId,
-        name: otherUser?.callSign || otherUser?.name || "Unknown User",
-        lastMessage: data.lastMessage.content,
-        timestamp: data.lastMessage.createdAt ? data.lastMessage.createdAt.toISOString() : "",
-        unreadCount: data.unreadCount,
-        sortTime: data.lastMessage.createdAt?.getTime() ?? 0,
-      };
-    });
-
-    return conversations.sort((a, b) => b.sortTime - a.sortTime).map(({ sortTime, ...conv }) => conv);
+    return summarizeConversations(userId, userMessages, (id) => this.users.get(id));
   }
 
   async createScheduleMatchMessage(
@@ -873,13 +1255,9 @@ export class MemStorage implements IStorage {
     
     if (!user1 || !user2) return [];
 
-    const distanceText = distance < 1 
-      ? `${Math.round(distance * 1000)}m` 
-      : `${distance.toFixed(1)}km`;
-
     // Create a system message in their conversation thread
     // This appears in user1's conversation with user2 and vice versa
-    const messageContent = `Schedule Match! Your route matches ${user2.callSign}'s schedule. You'll both be near ${location} around ${time} (within ${distanceText}). Contact them to discuss pickup arrangements.`;
+    const messageContent = scheduleMatchContent(user2, location, time, distance);
     
     // Message in user1's view (appears to come from user2 to encourage conversation)
     const message1: Message = {
@@ -888,11 +1266,12 @@ export class MemStorage implements IStorage {
       receiverId: user1Id,
       content: messageContent,
       createdAt: new Date(),
+      receivedAt: new Date(),
       read: false,
     };
     
     // Message in user2's view (appears to come from user1 to encourage conversation)  
-    const messageContent2 = `Schedule Match! Your route matches ${user1.callSign}'s schedule. You'll both be near ${location} around ${time} (within ${distanceText}). Contact them to discuss pickup arrangements.`;
+    const messageContent2 = scheduleMatchContent(user1, location, time, distance);
     
     const message2: Message = {
       id: randomUUID(),
@@ -900,6 +1279,7 @@ export class MemStorage implements IStorage {
       receiverId: user2Id,
       content: messageContent2,
       createdAt: new Date(),
+      receivedAt: new Date(),
       read: false,
     };
 
@@ -910,7 +1290,9 @@ export class MemStorage implements IStorage {
   }
 
   // Ratings
-  async createRating(insertRating: InsertRating): Promise<Rating> {
+  async createRating(insertRating: InsertRating): Promise<Rating | undefined> {
+    if (await this.getRatingForLift(insertRating.raterId, insertRating.liftId)) return undefined;
+
     const id = randomUUID();
     const rating: Rating = {
       id,
@@ -924,6 +1306,12 @@ export class MemStorage implements IStorage {
       communication: insertRating.communication ?? null,
       vehicleCondition: insertRating.vehicleCondition ?? null,
       comment: insertRating.comment ?? null,
+      status: "active",
+      disputeReason: null,
+      disputedAt: null,
+      resolvedBy: null,
+      resolutionNotes: null,
+      resolvedAt: null,
       createdAt: new Date(),
     };
     this.ratings.set(id, rating);
@@ -935,18 +1323,53 @@ export class MemStorage implements IStorage {
     return rating;
   }
 
+  async getRating(id: string): Promise<Rating | undefined> {
+    return this.ratings.get(id);
+  }
+
   async getRatingsByUserId(userId: string): Promise<Rating[]> {
     return Array.from(this.ratings.values())
-      .filter((rating) => rating.ratedUserId === userId)
+      .filter((rating) => rating.ratedUserId === userId && !uncountedRatingStatuses.includes(rating.status))
       .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
   }
 
   async getRatingForLift(raterId: string, liftId: string): Promise<Rating | undefined> {
     return Array.from(this.ratings.values()).find(
-      (rating) => rating.raterId === raterId && rating.liftId === liftId
+      (rating) => rating.raterId === raterId && rating.liftId === liftId && rating.status !== "superseded"
     );
   }
 
+  async getDisputedRatings(): Promise<Rating[]> {
+    return Array.from(this.ratings.values())
+      .filter((rating) => rating.status === "disputed")
+      .sort((a, b) => (a.disputedAt?.getTime() ?? 0) - (b.disputedAt?.getTime() ?? 0));
+  }
+
+  async disputeRating(id: string, reason: string): Promise<Rating | undefined> {
+    const rating = this.ratings.get(id);
+    if (!rating || rating.status !== "active" || rating.disputedAt) return undefined;
+
+    const disputed: Rating = { ...rating, status: "disputed", disputeReason: reason, disputedAt: new Date() };
+    this.ratings.set(id, disputed);
+    return disputed;
+  }
+
+  async resolveRatingDispute(id: string, outcome: "upheld" | "removed", moderatorId: string, notes?: string): Promise<Rating | undefined> {
+    const rating = this.ratings.get(id);
+    if (!rating || rating.status !== "disputed") return undefined;
+
+    const resolved: Rating = {
+      ...rating,
+      status: outcome === "removed" ? "removed" : "active",
+      resolvedBy: moderatorId,
+      resolutionNotes: notes ?? null,
+      resolvedAt: new Date(),
+    };
+    this.ratings.set(id, resolved);
+    if (outcome === "removed") await this.updateReputationScore(rating.ratedUserId);
+    return resolved;
+  }
+
   // User Stats
   async getUserStats(userId: string): Promise<UserStats | undefined> {
     return this.userStats.get(userId);
@@ -967,6 +1390,7 @@ export class MemStorage implements IStorage {
       currentStreak: 0,
       longestStreak: 0,
       lastActivityDate: null,
+      homeRegion: null,
       updatedAt: new Date(),
     };
     this.userStats.set(userId, stats);
@@ -992,21 +1416,7 @@ export class MemStorage implements IStorage {
     
     if (!stats) return 0;
     
-    // Calculate 90-day rolling average rating (60% weight)
-    const ninetyDaysAgo = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
-    const recentRatings = ratings.filter(r => r.createdAt && r.createdAt >= ninetyDaysAgo);
-    const avgRating = recentRatings.length > 0
-      ? recentRatings.reduce((sum, r) => sum + r.stars, 0) / recentRatings.length
-      : 0;
-    const ratingScore = (avgRating / 5) * 60;
-    
-    // Punctuality score (25% weight)
-    const punctualityScore = ((stats.punctualityScore ?? 0) / 100) * 25;
-    
-    // Completion ratio (15% weight)
-    const completionScore = ((stats.completionRatio ?? 0) / 100) * 15;
-    
-    return Math.round(ratingScore + punctualityScore + completionScore);
+    return computeReputationScore(ratings, stats);
   }
 
   async updateReputationScore(userId: string): Promise<void> {
@@ -1016,25 +1426,56 @@ export class MemStorage implements IStorage {
     }
     
     const reputationScore = await this.calculateReputationScore(userId);
-    
-    // Determine tier based on score
-    let tier: string;
-    if (reputationScore >= 95) tier = 'platinum';
-    else if (reputationScore >= 85) tier = 'gold';
-    else if (reputationScore >= 70) tier = 'silver';
-    else tier = 'bronze';
-    
-    // Calculate average rating
     const ratings = await this.getRatingsByUserId(userId);
-    const averageRating = ratings.length > 0
-      ? ratings.reduce((sum, r) => sum + r.stars, 0) / ratings.length
-      : 0;
     
     await this.updateUserStats(userId, {
       reputationScore,
-      tier,
-      averageRating,
+      tier: tierForReputation(reputationScore),
+      averageRating: averageStars(ratings),
+    });
+  }
+
+  // Points Ledger
+  async recordPoints(insertEntry: InsertPointsLedgerEntry): Promise<PointsLedgerEntry | undefined> {
+    const existing = Array.from(this.pointsLedger.values()).find((entry) =>
+      entry.userId === insertEntry.userId && entry.reason === insertEntry.reason && entry.sourceId === insertEntry.sourceId
+    );
+    if (existing) return undefined;
+
+    const entry: PointsLedgerEntry = { ...insertEntry, id: randomUUID(), createdAt: new Date() };
+    this.pointsLedger.set(entry.id, entry);
+
+    const stats = this.userStats.get(entry.userId) ?? await this.createUserStats(entry.userId);
+    await this.updateUserStats(entry.userId, { totalPoints: (stats.totalPoints ?? 0) + entry.points });
+    return entry;
+  }
+
+  async getPointsLedger(userId: string): Promise<PointsLedgerEntry[]> {
+    return Array.from(this.pointsLedger.values())
+      .filter((entry) => entry.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getPointsTotals(since?: Date): Promise<{ userId: string; points: number }[]> {
+    const totals = new Map<string, number>();
+    for (const entry of Array.from(this.pointsLedger.values())) {
+      if (since && (!entry.createdAt || entry.createdAt < since)) continue;
+      totals.set(entry.userId, (totals.get(entry.userId) ?? 0) + entry.points);
+    }
+    return Array.from(totals, ([userId, points]) => ({ userId, points }));
+  }
+
+  async getLeaderboard({ since, region, tier, offset, limit, userId }: LeaderboardFilter): Promise<LeaderboardRows> {
+    const listed = (await this.getPointsTotals(since)).flatMap(({ userId, points }) => {
+      const user = this.users.get(userId);
+      return user && !user.leaderboardOptOut && points > 0 ? [{ user, stats: this.userStats.get(userId), points }] : [];
     });
+    const regions = Array.from(new Set(listed.flatMap(({ stats }) => (stats?.homeRegion ? [stats.homeRegion] : [])))).sort();
+    const ranked = rankLeaderboard(listed.filter(({ stats }) =>
+      (!region || stats?.homeRegion === region) && (!tier || stats?.tier === tier)));
+    const rows: LeaderboardRows = { entries: ranked.slice(offset, offset + limit), totalEntries: ranked.length, regions };
+    if (userId) rows.currentUser = ranked.find((entry) => entry.userId === userId) ?? null;
+    return rows;
   }
 
   // Badges
@@ -1058,7 +1499,7 @@ export class MemStorage implements IStorage {
   // User Badges
   async getUserBadges(userId: string): Promise<(UserBadge & { badge: Badge })[]> {
     const userBadges = Array.from(this.userBadges.values())
-      .filter((ub) => ub.userId === userId);
+      .filter((ub) => ub.userId === userId && ub.earnedAt);
     
     return userBadges.map((ub) => ({
       ...ub,
@@ -1066,57 +1507,45 @@ export class MemStorage implements IStorage {
     })).filter((ub) => ub.badge); // Filter out badges that don't exist
   }
 
-  async awardBadge(userId: string, badgeId: string): Promise<UserBadge | null> {
-    // Check if user already has this badge
-    const existing = Array.from(this.userBadges.values()).find(
+  async getUserBadgeProgress(userId: string): Promise<UserBadge[]> {
+    return Array.from(this.userBadges.values()).filter((ub) => ub.userId === userId);
+  }
+
+  private findUserBadge(userId: string, badgeId: string): UserBadge | undefined {
+    return Array.from(this.userBadges.values()).find(
       (ub) => ub.userId === userId && ub.badgeId === badgeId
     );
-    if (existing) return null;
+  }
+
+  async setBadgeProgress(userId: string, badgeId: string, progress: number): Promise<UserBadge | undefined> {
+    const existing = this.findUserBadge(userId, badgeId);
+    if (existing?.earnedAt || !this.badges.has(badgeId)) return undefined;
+
+    const userBadge: UserBadge = existing
+      ? { ...existing, progress }
+      : { id: randomUUID(), userId, badgeId, progress, earnedAt: null };
+    this.userBadges.set(userBadge.id, userBadge);
+    return userBadge;
+  }
+
+  async awardBadge(userId: string, badgeId: string): Promise<UserBadge | null> {
+    // Check if user already has this badge; a progress row becomes the earned one
+    const existing = this.findUserBadge(userId, badgeId);
+    if (existing?.earnedAt) return null;
     
-    const id = randomUUID();
     const userBadge: UserBadge = {
-      id,
+      id: existing?.id ?? randomUUID(),
       userId,
       badgeId,
       progress: 100,
       earnedAt: new Date(),
     };
-    this.userBadges.set(id, userBadge);
+    this.userBadges.set(userBadge.id, userBadge);
     return userBadge;
   }
 
-  async checkAndAwardBadges(userId: string): Promise<UserBadge[]> {
-    const stats = await this.getUserStats(userId);
-    if (!stats) return [];
-    
-    const awarded: UserBadge[] = [];
-    
-    // Check milestone badges
-    const milestones = [
-      { id: 'first-lift', threshold: 1 },
-      { id: '10-lifts', threshold: 10 },
-      { id: '50-lifts', threshold: 50 },
-      { id: '100-lifts', threshold: 100 },
-    ];
-    
-    for (const milestone of milestones) {
-      if ((stats.totalLiftsShared ?? 0) >= milestone.threshold) {
-        const badge = await this.awardBadge(userId, milestone.id);
-        if (badge) awarded.push(badge);
-      }
-    }
-    
-    // Check quality badges
-    const ratings = await this.getRatingsByUserId(userId);
-    if (ratings.length >= 20) {
-      const avg = ratings.slice(0, 20).reduce((sum, r) => sum + r.stars, 0) / 20;
-      if (avg >= 4.8) {
-        const badge = await this.awardBadge(userId, '5-star-pro');
-        if (badge) awarded.push(badge);
-      }
-    }
-    
-    return awarded;
+  async checkAndAwardBadges(userId: string, event?: BadgeEvent): Promise<UserBadge[]> {
+    return (await evaluateBadges(this, userId, event)).awarded;
   }
 
   // Driver Type (role selection)
@@ -1129,52 +1558,382 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  // Check-ins
-  async createCheckIn(checkIn: InsertCheckIn): Promise<CheckIn> {
+  // Reports
+  async createReport(insertReport: InsertReport): Promise<Report> {
     const id = randomUUID();
-    const newCheckIn: CheckIn = {
+    const report: Report = {
+      ...insertReport,
       id,
-      ...checkIn,
-      lat: checkIn.lat ?? null,
-      lng: checkIn.lng ?? null,
-      w3w: checkIn.w3w ?? null,
-      note: checkIn.note ?? null,
+      description: insertReport.description ?? null,
+      status: 'pending',
+      reviewedBy: null,
+      reviewNotes: null,
+      action: null,
       createdAt: new Date(),
+      reviewedAt: null,
     };
-    this.checkIns.set(id, newCheckIn);
-    return newCheckIn;
+    this.reports.set(id, report);
+    return report;
   }
 
-  async getCheckIn(id: string): Promise<CheckIn | undefined> {
-    return this.checkIns.get(id);
+  async getReport(id: string): Promise<Report | undefined> {
+    return this.reports.get(id);
   }
 
-  async getCheckInsByUserId(userId: string): Promise<CheckIn[]> {
-    return Array.from(this.checkIns.values())
-      .filter((checkIn) => checkIn.userId === userId);
+  async getReports(status?: string): Promise<Report[]> {
+    return Array.from(this.reports.values())
+      .filter((report) => !status || report.status === status)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
   }
 
-  async getActiveCheckIns(): Promise<CheckIn[]> {
-    const now = new Date();
-    return Array.from(this.checkIns.values())
-      .filter((checkIn) => checkIn.toTime > now);
+  async getOpenReport(reporterId: string, reportedUserId: string): Promise<Report | undefined> {
+    return Array.from(this.reports.values()).find((report) =>
+      report.reporterId === reporterId &&
+      report.reportedUserId === reportedUserId &&
+      OPEN_REPORT_STATUSES.includes(report.status)
+    );
   }
 
-  async getNearbyCheckIns(
-    lat: number,
-    lng: number,
-    maxDistanceMiles: number,
-    driverType?: string
-  ): Promise<(CheckIn & { user: User; distance: number })[]> {
-    const now = new Date();
-    const activeCheckIns = Array.from(this.checkIns.values())
-      .filter((checkIn) => {
-        if (checkIn.toTime < now) return false;
-        if (driverType && checkIn.driverType !== driverType) return false;
-        return true;
-      });
-
-    const nearbyCheckIns = activeCheckIns
+  async reviewReport(id: string, review: {
+    status: string;
+    action?: string | null;
+    reviewedBy: string;
+    reviewNotes?: string | null;
+  }): Promise<Report | undefined> {
+    const report = this.reports.get(id);
+    if (!report || !OPEN_REPORT_STATUSES.includes(report.status)) return undefined;
+
+    const updated: Report = {
+      ...report,
+      status: review.status,
+      action: review.action ?? null,
+      reviewedBy: review.reviewedBy,
+      reviewNotes: review.reviewNotes ?? null,
+      reviewedAt: new Date(),
+    };
+    this.reports.set(id, updated);
+    return updated;
+  }
+
+  // Blocks
+  async createBlock(insertBlock: InsertBlock): Promise<Block> {
+    const existing = Array.from(this.blocks.values()).find((block) =>
+      block.blockerId === insertBlock.blockerId && block.blockedUserId === insertBlock.blockedUserId
+    );
+    if (existing) return existing;
+
+    const id = randomUUID();
+    const block: Block = { ...insertBlock, id, createdAt: new Date() };
+    this.blocks.set(id, block);
+    return block;
+  }
+
+  async deleteBlock(blockerId: string, blockedUserId: string): Promise<boolean> {
+    for (const [id, block] of Array.from(this.blocks)) {
+      if (block.blockerId === blockerId && block.blockedUserId === blockedUserId) {
+        return this.blocks.delete(id);
+      }
+    }
+    return false;
+  }
+
+  async getBlocksByBlockerId(blockerId: string): Promise<Block[]> {
+    return Array.from(this.blocks.values())
+      .filter((block) => block.blockerId === blockerId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getBlockedUserIds(userId: string): Promise<string[]> {
+    const ids = new Set<string>();
+    Array.from(this.blocks.values()).forEach((block) => {
+      if (block.blockerId === userId) ids.add(block.blockedUserId);
+      if (block.blockedUserId === userId) ids.add(block.blockerId);
+    });
+    return Array.from(ids);
+  }
+
+  // Trade plate usage log
+  async createTradePlateLogEntry(insertEntry: InsertTradePlateLogEntry): Promise<TradePlateLogEntry | undefined> {
+    if (insertEntry.jobId && await this.getTradePlateLogEntryByJobId(insertEntry.jobId)) return undefined;
+
+    const id = randomUUID();
+    const now = new Date();
+    const entry: TradePlateLogEntry = {
+      ...insertEntry,
+      id,
+      jobId: insertEntry.jobId ?? null,
+      vehicleRegistration: insertEntry.vehicleRegistration ?? null,
+      endTime: insertEntry.endTime ?? null,
+      purpose: insertEntry.purpose ?? 'Delivery',
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.tradePlateLogEntries.set(id, entry);
+    return entry;
+  }
+
+  async getTradePlateLogEntry(id: string): Promise<TradePlateLogEntry | undefined> {
+    return this.tradePlateLogEntries.get(id);
+  }
+
+  async getTradePlateLogEntryByJobId(jobId: string): Promise<TradePlateLogEntry | undefined> {
+    return Array.from(this.tradePlateLogEntries.values()).find((entry) => entry.jobId === jobId);
+  }
+
+  async getTradePlateLog(userId: string, filter: { plateNumber?: string; from?: string; to?: string } = {}): Promise<TradePlateLogEntry[]> {
+    return Array.from(this.tradePlateLogEntries.values())
+      .filter((entry) =>
+        entry.userId === userId &&
+        (!filter.plateNumber || entry.plateNumber === filter.plateNumber) &&
+        (!filter.from || entry.date >= filter.from) &&
+        (!filter.to || entry.date <= filter.to)
+      )
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  async updateTradePlateLogEntry(id: string, updates: TradePlateLogChanges): Promise<TradePlateLogEntry | undefined> {
+    const entry = this.tradePlateLogEntries.get(id);
+    if (!entry) return undefined;
+
+    const updated = { ...entry, ...updates, updatedAt: new Date() };
+    this.tradePlateLogEntries.set(id, updated);
+    return updated;
+  }
+
+  async editTradePlateLogEntry(id: string, updates: TradePlateLogChanges, edit: {
+    editedBy: string;
+    reason: string;
+  }): Promise<{ entry: TradePlateLogEntry; edits: TradePlateLogEdit[] } | undefined> {
+    const entry = this.tradePlateLogEntries.get(id);
+    if (!entry) return undefined;
+
+    const editedAt = new Date();
+    const edits = tradePlateLogChanges(entry, updates).map((change): TradePlateLogEdit => ({
+      ...change,
+      id: randomUUID(),
+      entryId: id,
+      editedBy: edit.editedBy,
+      reason: edit.reason,
+      editedAt,
+    }));
+    if (edits.length === 0) return { entry, edits };
+
+    edits.forEach((row) => this.tradePlateLogEdits.set(row.id, row));
+    const updated = { ...entry, ...updates, updatedAt: editedAt };
+    this.tradePlateLogEntries.set(id, updated);
+    return { entry: updated, edits };
+  }
+
+  async getTradePlateLogEdits(entryId: string): Promise<TradePlateLogEdit[]> {
+    return Array.from(this.tradePlateLogEdits.values())
+      .filter((edit) => edit.entryId === entryId)
+      .sort((a, b) => (a.editedAt?.getTime() ?? 0) - (b.editedAt?.getTime() ?? 0));
+  }
+
+  // Vehicle inspections
+  async createVehicleInspection(insertInspection: InsertVehicleInspection, details: InspectionRows): Promise<VehicleInspectionDetails | undefined> {
+    const taken = Array.from(this.vehicleInspections.values())
+      .some((inspection) => insertInspection.jobId && inspection.jobId === insertInspection.jobId && inspection.stage === insertInspection.stage);
+    if (taken) return undefined;
+
+    const id = randomUUID();
+    const inspection: VehicleInspectionDetails = {
+      id,
+      jobId: insertInspection.jobId ?? null,
+      userId: insertInspection.userId,
+      stage: insertInspection.stage,
+      mileage: insertInspection.mileage ?? null,
+      fuelLevel: insertInspection.fuelLevel ?? null,
+      notes: insertInspection.notes ?? null,
+      signatureName: insertInspection.signatureName ?? null,
+      signaturePath: insertInspection.signaturePath ?? null,
+      signedAt: insertInspection.signedAt ?? null,
+      lat: insertInspection.lat ?? null,
+      lng: insertInspection.lng ?? null,
+      createdAt: new Date(),
+      checklist: details.checklist.map((item, position): InspectionChecklistItem => ({
+        id: randomUUID(), inspectionId: id, position, item: item.item, passed: item.passed, note: item.note ?? null,
+      })),
+      damage: details.damage.map((marker, position): InspectionDamage => ({
+        ...marker, id: randomUUID(), inspectionId: id, position, severity: marker.severity ?? 'minor', note: marker.note ?? null,
+      })),
+      photos: details.photos.map((photo, position): InspectionPhoto => ({
+        ...photo, id: randomUUID(), inspectionId: id, position, caption: photo.caption ?? null,
+      })),
+    };
+    this.vehicleInspections.set(id, inspection);
+    inspection.photos.forEach((photo) => this.inspectionPhotos.set(photo.id, photo));
+    return inspection;
+  }
+
+  async getVehicleInspectionsByJobId(jobId: string): Promise<VehicleInspectionDetails[]> {
+    return Array.from(this.vehicleInspections.values())
+      .filter((inspection) => inspection.jobId === jobId)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  async getInspectionPhoto(id: string): Promise<InspectionPhoto | undefined> {
+    return this.inspectionPhotos.get(id);
+  }
+
+  async deleteVehicleInspection(id: string): Promise<boolean> {
+    const inspection = this.vehicleInspections.get(id);
+    if (!inspection) return false;
+    inspection.photos.forEach((photo) => this.inspectionPhotos.delete(photo.id));
+    return this.vehicleInspections.delete(id);
+  }
+
+  // Idempotency keys
+  async createIdempotencyKey(insertKey: InsertIdempotencyKey): Promise<IdempotencyKey | undefined> {
+    if (this.idempotencyKeys.has(insertKey.key)) return undefined;
+    const key: IdempotencyKey = {
+      ...insertKey,
+      userId: insertKey.userId ?? null,
+      statusCode: null,
+      response: null,
+      createdAt: new Date(),
+      completedAt: null,
+    };
+    this.idempotencyKeys.set(key.key, key);
+    return key;
+  }
+
+  async getIdempotencyKey(key: string): Promise<IdempotencyKey | undefined> {
+    return this.idempotencyKeys.get(key);
+  }
+
+  async completeIdempotencyKey(key: string, statusCode: number, response: string | null): Promise<IdempotencyKey | undefined> {
+    const existing = this.idempotencyKeys.get(key);
+    if (!existing) return undefined;
+    const completed = { ...existing, statusCode, response, completedAt: new Date() };
+    this.idempotencyKeys.set(key, completed);
+    return completed;
+  }
+
+  async deleteIdempotencyKey(key: string): Promise<boolean> {
+    return this.idempotencyKeys.delete(key);
+  }
+
+  async deleteIdempotencyKeysCreatedBefore(cutoff: Date): Promise<number> {
+    let deleted = 0;
+    for (const key of Array.from(this.idempotencyKeys.values())) {
+      if (key.createdAt && key.createdAt < cutoff) {
+        this.idempotencyKeys.delete(key.key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // Verification documents
+  async createUserDocument(insertDocument: InsertUserDocument): Promise<UserDocument> {
+    const id = randomUUID();
+    const document: UserDocument = {
+      ...insertDocument,
+      id,
+      status: 'pending',
+      reviewedBy: null,
+      reviewedAt: null,
+      rejectionReason: null,
+      reminderDays: null,
+      createdAt: new Date(),
+    };
+    this.userDocuments.set(id, document);
+    return document;
+  }
+
+  async getUserDocument(id: string): Promise<UserDocument | undefined> {
+    return this.userDocuments.get(id);
+  }
+
+  async getUserDocumentsByUserId(userId: string): Promise<UserDocument[]> {
+    return Array.from(this.userDocuments.values())
+      .filter((document) => document.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getUserDocumentsByStatus(status: string): Promise<UserDocument[]> {
+    return Array.from(this.userDocuments.values())
+      .filter((document) => document.status === status)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  async transitionUserDocument(id: string, fromStatus: string, toStatus: string, review?: {
+    reviewedBy: string;
+    rejectionReason?: string | null;
+  }): Promise<UserDocument | undefined> {
+    const document = this.userDocuments.get(id);
+    if (!document || document.status !== fromStatus) return undefined;
+
+    const updated: UserDocument = {
+      ...document,
+      status: toStatus,
+      ...(review && {
+        reviewedBy: review.reviewedBy,
+        reviewedAt: new Date(),
+        rejectionReason: review.rejectionReason ?? null,
+      }),
+    };
+    this.userDocuments.set(id, updated);
+    return updated;
+  }
+
+  async markUserDocumentReminded(id: string, days: number): Promise<UserDocument | undefined> {
+    const document = this.userDocuments.get(id);
+    if (!document || document.status !== 'approved') return undefined;
+    if (document.reminderDays !== null && document.reminderDays <= days) return undefined;
+
+    const updated = { ...document, reminderDays: days };
+    this.userDocuments.set(id, updated);
+    return updated;
+  }
+
+  // Check-ins
+  async createCheckIn(checkIn: InsertCheckIn): Promise<CheckIn> {
+    const id = randomUUID();
+    const newCheckIn: CheckIn = {
+      id,
+      ...checkIn,
+      lat: checkIn.lat ?? null,
+      lng: checkIn.lng ?? null,
+      w3w: checkIn.w3w ?? null,
+      note: checkIn.note ?? null,
+      createdAt: new Date(),
+    };
+    this.checkIns.set(id, newCheckIn);
+    return newCheckIn;
+  }
+
+  async getCheckIn(id: string): Promise<CheckIn | undefined> {
+    return this.checkIns.get(id);
+  }
+
+  async getCheckInsByUserId(userId: string): Promise<CheckIn[]> {
+    return Array.from(this.checkIns.values())
+      .filter((checkIn) => checkIn.userId === userId);
+  }
+
+  async getActiveCheckIns(): Promise<CheckIn[]> {
+    const now = new Date();
+    return Array.from(this.checkIns.values())
+      .filter((checkIn) => checkIn.toTime > now);
+  }
+
+  async getNearbyCheckIns(
+    lat: number,
+    lng: number,
+    maxDistanceMiles: number,
+    driverType?: string
+  ): Promise<(CheckIn & { user: User; distance: number })[]> {
+    const now = new Date();
+    const activeCheckIns = Array.from(this.checkIns.values())
+      .filter((checkIn) => {
+        if (checkIn.toTime < now) return false;
+        if (driverType && checkIn.driverType !== driverType) return false;
+        return true;
+      });
+
+    const nearbyCheckIns = activeCheckIns
       .map((checkIn) => {
         if (!checkIn.lat || !checkIn.lng) return null;
         const distance = calculateDistance(lat, lng, checkIn.lat, checkIn.lng);
@@ -1191,6 +1950,19 @@ export class MemStorage implements IStorage {
     return this.checkIns.delete(id);
   }
 
+  async getCheckInsMissingCoordinates(): Promise<CheckIn[]> {
+    return Array.from(this.checkIns.values())
+      .filter((checkIn) => checkIn.w3w && (checkIn.lat === null || checkIn.lng === null));
+  }
+
+  async updateCheckInCoordinates(id: string, lat: number, lng: number): Promise<CheckIn | undefined> {
+    const checkIn = this.checkIns.get(id);
+    if (!checkIn) return undefined;
+    const updated = { ...checkIn, lat, lng };
+    this.checkIns.set(id, updated);
+    return updated;
+  }
+
   // Loader Spaces
   async createLoaderSpace(space: InsertLoaderSpace): Promise<LoaderSpace> {
     const id = randomUUID();
@@ -1271,6 +2043,1258 @@ export class MemStorage implements IStorage {
   async deleteLoaderSpace(id: string): Promise<boolean> {
     return this.loaderSpaces.delete(id);
   }
+
+  async getLoaderSpacesMissingCoordinates(): Promise<LoaderSpace[]> {
+    return Array.from(this.loaderSpaces.values()).filter((space) =>
+      (space.originW3W && (space.originLat === null || space.originLng === null)) ||
+      (space.destW3W && (space.destLat === null || space.destLng === null)));
+  }
+
+  async updateLoaderSpaceCoordinates(id: string, coordinates: LoaderSpaceCoordinates): Promise<LoaderSpace | undefined> {
+    const space = this.loaderSpaces.get(id);
+    if (!space) return undefined;
+    const updated = { ...space, ...coordinates };
+    this.loaderSpaces.set(id, updated);
+    return updated;
+  }
+}
+
+// Postgres-backed storage over the Drizzle tables in shared/schema.ts.
+// Behaviour mirrors MemStorage so both run through the same conformance suite.
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByStripeCustomerId(stripeCustomerId: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.stripeCustomerId, stripeCustomerId));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    let callSign = generateCallSign();
+    
+    // Ensure unique call sign
+    while ((await this.db.select({ id: users.id }).from(users).where(eq(users.callSign, callSign))).length > 0) {
+      callSign = generateCallSign();
+    }
+    
+    const [user] = await this.db.insert(users).values({
+      username: insertUser.username,
+      password: insertUser.password,
+      name: insertUser.name,
+      callSign,
+      email: insertUser.email ?? null,
+      phone: insertUser.phone ?? null,
+      avatar: insertUser.avatar ?? null,
+    }).returning();
+    
+    // Initialize user stats
+    await this.createUserStats(user.id);
+    
+    return user;
+  }
+
+  async updateUser(userId: string, updates: { name?: string; leaderboardOptOut?: boolean }): Promise<User | undefined> {
+    if (Object.keys(updates).length === 0) return this.getUser(userId);
+    
+    const [user] = await this.db.update(users).set(updates).where(eq(users.id, userId)).returning();
+    return user;
+  }
+
+  async updateUserSubscription(userId: string, updates: {
+    stripeCustomerId?: string;
+    subscriptionStatus?: string;
+    currentPeriodEnd?: Date | null;
+    planId?: string | null;
+  }): Promise<User | undefined> {
+    if (Object.keys(updates).length === 0) return this.getUser(userId);
+    
+    const [user] = await this.db.update(users).set(updates).where(eq(users.id, userId)).returning();
+    return user;
+  }
+
+  async updateUserModeration(userId: string, updates: {
+    accountStatus?: string;
+    suspendedUntil?: Date | null;
+    warningCount?: number;
+  }): Promise<User | undefined> {
+    if (Object.keys(updates).length === 0) return this.getUser(userId);
+    
+    const [user] = await this.db.update(users).set(updates).where(eq(users.id, userId)).returning();
+    return user;
+  }
+
+  async updateUserVerification(userId: string, updates: {
+    verified: boolean;
+    tradePlateDoc: string | null;
+    insuranceDoc: string | null;
+  }): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(updates).where(eq(users.id, userId)).returning();
+    return user;
+  }
+
+  // Schedules
+  async createSchedule(insertSchedule: InsertSchedule): Promise<Schedule> {
+    const [schedule] = await this.db.insert(schedules).values(insertSchedule).returning();
+    return schedule;
+  }
+
+  async getSchedule(id: string): Promise<Schedule | undefined> {
+    const [schedule] = await this.db.select().from(schedules).where(eq(schedules.id, id));
+    return schedule;
+  }
+
+  async getSchedulesByUserId(userId: string): Promise<Schedule[]> {
+    return this.db.select().from(schedules)
+      .where(eq(schedules.userId, userId))
+      .orderBy(asc(schedules.createdAt));
+  }
+
+  async getScheduleByUserAndDate(userId: string, date: string): Promise<Schedule | undefined> {
+    const [schedule] = await this.db.select().from(schedules)
+      .where(and(eq(schedules.userId, userId), eq(schedules.date, date)));
+    return schedule;
+  }
+
+  async updateSchedule(id: string, updates: Partial<InsertSchedule>): Promise<Schedule | undefined> {
+    if (Object.keys(updates).length === 0) return this.getSchedule(id);
+    
+    const [schedule] = await this.db.update(schedules).set(updates).where(eq(schedules.id, id)).returning();
+    return schedule;
+  }
+
+  async deleteSchedule(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(schedules).where(eq(schedules.id, id)).returning({ id: schedules.id });
+    return deleted.length > 0;
+  }
+
+  // Jobs
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await this.db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobsByScheduleId(scheduleId: string): Promise<Job[]> {
+    return this.db.select().from(jobs)
+      .where(eq(jobs.scheduleId, scheduleId))
+      .orderBy(asc(jobs.orderInSchedule));
+  }
+
+  async getRecentCheckIns(hoursAgo: number): Promise<Job[]> {
+    const cutoffTime = new Date(Date.now() - hoursAgo * 60 * 60 * 1000);
+    
+    return this.db.select().from(jobs).where(or(
+      and(
+        gte(jobs.actualStartTime, cutoffTime),
+        isNotNull(jobs.checkInLat),
+        isNotNull(jobs.checkInLng),
+      ),
+      and(
+        gte(jobs.actualEndTime, cutoffTime),
+        isNotNull(jobs.checkOutLat),
+        isNotNull(jobs.checkOutLng),
+      ),
+    ));
+  }
+
+  async updateJobStatus(
+    id: string, 
+    status: string, 
+    actualStartTime?: Date, 
+    actualEndTime?: Date,
+    checkInLat?: number,
+    checkInLng?: number,
+    checkOutLat?: number,
+    checkOutLng?: number
+  ): Promise<Job | undefined> {
+    const [job] = await this.db.update(jobs).set({
+      status,
+      // Drizzle skips undefined values, so omitted fields keep their stored value
+      actualStartTime,
+      actualEndTime,
+      checkInReceivedAt: actualStartTime && new Date(),
+      checkOutReceivedAt: actualEndTime && new Date(),
+      checkInLat,
+      checkInLng,
+      checkOutLat,
+      checkOutLng,
+    }).where(eq(jobs.id, id)).returning();
+    return job;
+  }
+
+  async updateJob(id: string, updates: Partial<InsertJob>): Promise<Job | undefined> {
+    if (Object.keys(updates).length === 0) return this.getJob(id);
+    
+    const [job] = await this.db.update(jobs).set(updates).where(eq(jobs.id, id)).returning();
+    return job;
+  }
+
+  async deleteJob(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(jobs).where(eq(jobs.id, id)).returning({ id: jobs.id });
+    return deleted.length > 0;
+  }
+
+  async findMatchingSchedules(
+    jobId: string,
+    maxDistanceKm: number = 3, // Default 3km for pickup coordination
+    maxTimeWindowMinutes: number = 60 // Default 1 hour window
+  ): Promise<ScheduleMatch[]> {
+    const sourceJob = await this.getJob(jobId);
+    if (!sourceJob) return [];
+
+    const sourceSchedule = await this.getSchedule(sourceJob.scheduleId);
+    if (!sourceSchedule) return [];
+    // Drivers who have blocked each other are never matched
+    const blockedUserIds = new Set(await this.getBlockedUserIds(sourceSchedule.userId));
+
+    // Candidate jobs from other drivers; proximity is filtered in memory like MemStorage
+    const candidates = await this.db
+      .select({ job: jobs, scheduleUserId: schedules.userId, userName: users.name })
+      .from(jobs)
+      .innerJoin(schedules, eq(jobs.scheduleId, schedules.id))
+      .leftJoin(users, eq(schedules.userId, users.id))
+      .where(and(ne(jobs.id, jobId), ne(schedules.userId, sourceSchedule.userId)));
+
+    const matches: ScheduleMatch[] = [];
+
+    for (const { job, scheduleUserId, userName } of candidates) {
+      if (blockedUserIds.has(scheduleUserId)) continue;
+
+      const distance = calculateDistance(
+        sourceJob.toLat,
+        sourceJob.toLng,
+        job.toLat,
+        job.toLng
+      );
+      if (distance > maxDistanceKm) continue;
+
+      const timeDifferenceMinutes = Math.abs(
+        new Date(sourceJob.estimatedEndTime).getTime() - new Date(job.estimatedEndTime).getTime()
+      ) / (1000 * 60);
+
+      if (timeDifferenceMinutes <= maxTimeWindowMinutes) {
+        matches.push({
+          job,
+          distance,
+          timeDifferenceMinutes,
+          scheduleUserId,
+          userName: userName || 'Unknown Driver',
+        });
+      }
+    }
+
+    // Sort by distance (closest first)
+    return matches.sort((a, b) => a.distance - b.distance);
+  }
+
+  // Lift Offers
+  async createLiftOffer(insertOffer: InsertLiftOffer): Promise<LiftOffer> {
+    const [offer] = await this.db.insert(liftOffers).values(insertOffer).returning();
+    return offer;
+  }
+
+  async getLiftOffer(id: string): Promise<LiftOffer | undefined> {
+    const [offer] = await this.db.select().from(liftOffers).where(eq(liftOffers.id, id));
+    return offer;
+  }
+
+  async getAllLiftOffers(): Promise<LiftOffer[]> {
+    return this.db.select().from(liftOffers).orderBy(asc(liftOffers.createdAt));
+  }
+
+  async getLiftOffersByDriverId(driverId: string): Promise<LiftOffer[]> {
+    return this.db.select().from(liftOffers)
+      .where(eq(liftOffers.driverId, driverId))
+      .orderBy(asc(liftOffers.createdAt));
+  }
+
+  async updateLiftOfferStatus(id: string, status: string): Promise<LiftOffer | undefined> {
+    const [offer] = await this.db.update(liftOffers).set({ status }).where(eq(liftOffers.id, id)).returning();
+    return offer;
+  }
+
+  async updateLiftOffer(id: string, updates: Partial<InsertLiftOffer>): Promise<LiftOffer | undefined> {
+    if (Object.keys(updates).length === 0) return this.getLiftOffer(id);
+    const [offer] = await this.db.update(liftOffers).set(updates).where(eq(liftOffers.id, id)).returning();
+    return offer;
+  }
+
+  async getRecurringLiftOfferTemplates(): Promise<LiftOffer[]> {
+    return this.db.select().from(liftOffers)
+      .where(and(isNotNull(liftOffers.recurrenceRule), isNull(liftOffers.templateId), eq(liftOffers.status, "recurring")))
+      .orderBy(asc(liftOffers.createdAt));
+  }
+
+  async getLiftOfferOccurrences(templateId: string): Promise<LiftOffer[]> {
+    return this.db.select().from(liftOffers)
+      .where(eq(liftOffers.templateId, templateId))
+      .orderBy(asc(liftOffers.departureTime));
+  }
+
+  async createLiftOfferOccurrence(offer: InsertLiftOffer & { templateId: string; occurrenceDate: string }): Promise<LiftOffer | undefined> {
+    const [created] = await this.db.insert(liftOffers).values(offer)
+      .onConflictDoNothing({ target: [liftOffers.templateId, liftOffers.occurrenceDate] })
+      .returning();
+    return created;
+  }
+
+  async getLiftOffersBySourceJobIds(jobIds: string[]): Promise<LiftOffer[]> {
+    if (jobIds.length === 0) return [];
+    return this.db.select().from(liftOffers)
+      .where(inArray(liftOffers.sourceJobId, jobIds))
+      .orderBy(asc(liftOffers.createdAt));
+  }
+
+  async deleteLiftOffer(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(liftOffers).where(eq(liftOffers.id, id)).returning({ id: liftOffers.id });
+    return deleted.length > 0;
+  }
+
+  // Lift Requests
+  async createLiftRequest(insertRequest: InsertLiftRequest): Promise<LiftRequest> {
+    const [request] = await this.db.insert(liftRequests).values(insertRequest).returning();
+    return request;
+  }
+
+  async getLiftRequest(id: string): Promise<LiftRequest | undefined> {
+    const [request] = await this.db.select().from(liftRequests).where(eq(liftRequests.id, id));
+    return request;
+  }
+
+  async getAllLiftRequests(): Promise<LiftRequest[]> {
+    return this.db.select().from(liftRequests).orderBy(asc(liftRequests.createdAt));
+  }
+
+  async getLiftRequestsByRequesterId(requesterId: string): Promise<LiftRequest[]> {
+    return this.db.select().from(liftRequests)
+      .where(eq(liftRequests.requesterId, requesterId))
+      .orderBy(asc(liftRequests.createdAt));
+  }
+
+  async getLiftRequestsBySourceJobIds(jobIds: string[]): Promise<LiftRequest[]> {
+    if (jobIds.length === 0) return [];
+    return this.db.select().from(liftRequests)
+      .where(inArray(liftRequests.sourceJobId, jobIds))
+      .orderBy(asc(liftRequests.createdAt));
+  }
+
+  async updateLiftRequest(id: string, updates: Partial<InsertLiftRequest>): Promise<LiftRequest | undefined> {
+    if (Object.keys(updates).length === 0) return this.getLiftRequest(id);
+    const [request] = await this.db.update(liftRequests).set(updates).where(eq(liftRequests.id, id)).returning();
+    return request;
+  }
+
+  async findMatchingDrivers(
+    requestLat: number, 
+    requestLng: number, 
+    maxDistanceKm: number, 
+    hoursAgo: number
+  ): Promise<{ job: Job, distance: number, scheduleUserId: string }[]> {
+    const recentJobs = await this.getRecentCheckIns(hoursAgo);
+    const matches: { job: Job, distance: number, scheduleUserId: string }[] = [];
+
+    for (const job of recentJobs) {
+      let checkLat: number | null = null;
+      let checkLng: number | null = null;
+
+      if (job.checkOutLat !== null && job.checkOutLng !== null && job.actualEndTime) {
+        checkLat = job.checkOutLat;
+        checkLng = job.checkOutLng;
+      } else if (job.checkInLat !== null && job.checkInLng !== null && job.actualStartTime) {
+        checkLat = job.checkInLat;
+        checkLng = job.checkInLng;
+      }
+
+      if (checkLat !== null && checkLng !== null) {
+        const distance = calculateDistance(requestLat, requestLng, checkLat, checkLng);
+        
+        if (distance <= maxDistanceKm) {
+          const schedule = await this.getSchedule(job.scheduleId);
+          if (schedule) {
+            matches.push({ job, distance, scheduleUserId: schedule.userId });
+          }
+        }
+      }
+    }
+
+    return matches.sort((a, b) => a.distance - b.distance);
+  }
+
+  async deleteLiftRequest(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(liftRequests).where(eq(liftRequests.id, id)).returning({ id: liftRequests.id });
+    return deleted.length > 0;
+  }
+
+  // Lift Bookings
+  async createLiftBooking(insertBooking: InsertLiftBooking): Promise<LiftBooking> {
+    const [booking] = await this.db.insert(liftBookings).values(insertBooking).returning();
+    return booking;
+  }
+
+  async getLiftBooking(id: string): Promise<LiftBooking | undefined> {
+    const [booking] = await this.db.select().from(liftBookings).where(eq(liftBookings.id, id));
+    return booking;
+  }
+
+  async getLiftBookingsByOfferId(offerId: string): Promise<LiftBooking[]> {
+    return this.db.select().from(liftBookings)
+      .where(eq(liftBookings.offerId, offerId))
+      .orderBy(asc(liftBookings.createdAt));
+  }
+
+  async getLiftBookingsByPassengerId(passengerId: string): Promise<LiftBooking[]> {
+    return this.db.select().from(liftBookings)
+      .where(eq(liftBookings.passengerId, passengerId))
+      .orderBy(asc(liftBookings.createdAt));
+  }
+
+  async transitionLiftBooking(
+    id: string,
+    fromStatus: string,
+    toStatus: string,
+    actorId: string
+  ): Promise<LiftBooking | undefined> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const [booking] = await tx.update(liftBookings)
+          .set(liftBookingUpdates(toStatus, actorId))
+          .where(and(eq(liftBookings.id, id), eq(liftBookings.status, fromStatus)))
+          .returning();
+        if (!booking) return undefined;
+
+        if (toStatus === "accepted") {
+          // Conditional decrement: concurrent accepts queue on the offer row and re-check the seat count
+          const [offer] = await tx.update(liftOffers)
+            .set({
+              availableSeats: sql`${liftOffers.availableSeats} - ${booking.seats}`,
+              status: sql`CASE WHEN ${liftOffers.availableSeats} - ${booking.seats} = 0 THEN 'full' ELSE ${liftOffers.status} END`,
+            })
+            .where(and(
+              eq(liftOffers.id, booking.offerId),
+              eq(liftOffers.status, "available"),
+              gte(liftOffers.availableSeats, booking.seats),
+            ))
+            .returning({ id: liftOffers.id });
+          if (!offer) tx.rollback();
+          if (booking.requestId) {
+            await tx.update(liftRequests).set({ status: "fulfilled" }).where(eq(liftRequests.id, booking.requestId));
+          }
+        } else if (fromStatus === "accepted" && toStatus === "cancelled") {
+          await tx.update(liftOffers)
+            .set({
+              availableSeats: sql`${liftOffers.availableSeats} + ${booking.seats}`,
+              status: sql`CASE WHEN ${liftOffers.status} = 'full' THEN 'available' ELSE ${liftOffers.status} END`,
+            })
+            .where(eq(liftOffers.id, booking.offerId));
+          if (booking.requestId) {
+            await tx.update(liftRequests).set({ status: "active" }).where(eq(liftRequests.id, booking.requestId));
+          }
+        }
+
+        if (toStatus === "completed") {
+          const [offer] = await tx.select({ driverId: liftOffers.driverId }).from(liftOffers)
+            .where(eq(liftOffers.id, booking.offerId));
+          // Increment in SQL so two bookings completing at once can't lose an update
+          for (const [userId, role] of [[offer.driverId, "driver"], [booking.passengerId, "passenger"]] as const) {
+            await tx.insert(userStats).values({ userId }).onConflictDoNothing();
+            await tx.update(userStats)
+              .set({
+                totalLiftsShared: sql`coalesce(${userStats.totalLiftsShared}, 0) + 1`,
+                ...(role === "driver"
+                  ? { totalLiftsOffered: sql`coalesce(${userStats.totalLiftsOffered}, 0) + 1` }
+                  : { totalLiftsRequested: sql`coalesce(${userStats.totalLiftsRequested}, 0) + 1` }),
+                lastActivityDate: new Date(),
+                updatedAt: new Date(),
+              })
+              .where(eq(userStats.userId, userId));
+          }
+        }
+
+        return booking;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+
+  // Match Subscriptions
+  async createMatchSubscription(insertSubscription: InsertMatchSubscription): Promise<MatchSubscription> {
+    const [subscription] = await this.db.insert(matchSubscriptions).values(insertSubscription).returning();
+    return subscription;
+  }
+
+  async getActiveMatchSubscriptions(): Promise<MatchSubscription[]> {
+    return this.db.select().from(matchSubscriptions)
+      .where(eq(matchSubscriptions.status, "active"))
+      .orderBy(asc(matchSubscriptions.createdAt));
+  }
+
+  async getMatchSubscriptionsByUserId(userId: string): Promise<MatchSubscription[]> {
+    return this.db.select().from(matchSubscriptions)
+      .where(eq(matchSubscriptions.userId, userId))
+      .orderBy(asc(matchSubscriptions.createdAt));
+  }
+
+  async updateMatchSubscriptionStatus(id: string, status: string): Promise<MatchSubscription | undefined> {
+    const [subscription] = await this.db.update(matchSubscriptions)
+      .set({ status })
+      .where(eq(matchSubscriptions.id, id))
+      .returning();
+    return subscription;
+  }
+
+  async recordLiftMatchAlert(insertAlert: InsertLiftMatchAlert): Promise<LiftMatchAlert | undefined> {
+    // The unique (offer, request) constraint makes this safe when both posts are evaluated at once
+    const [alert] = await this.db.insert(liftMatchAlerts)
+      .values(insertAlert)
+      .onConflictDoNothing()
+      .returning();
+    return alert;
+  }
+
+  // Messages
+  async createMessage(insertMessage: InsertMessage, createdAt?: Date): Promise<Message> {
+    const [message] = await this.db.insert(messages).values({ ...insertMessage, createdAt }).returning();
+    return message;
+  }
+
+  async getMessagesBetweenUsers(userId1: string, userId2: string): Promise<Message[]> {
+    return this.db.select().from(messages)
+      .where(or(
+        and(eq(messages.senderId, userId1), eq(messages.receiverId, userId2)),
+        and(eq(messages.senderId, userId2), eq(messages.receiverId, userId1)),
+      ))
+      .orderBy(asc(messages.createdAt));
+  }
+
+  async getConversations(userId: string): Promise<Conversation[]> {
+    const blockedUserIds = new Set(await this.getBlockedUserIds(userId));
+    const userMessages = (await this.db.select().from(messages)
+      .where(or(eq(messages.senderId, userId), eq(messages.receiverId, userId))))
+      .filter((msg) => !blockedUserIds.has(msg.senderId === userId ? msg.receiverId : msg.senderId));
+
+    const otherUserIds = new Set(userMessages.map((msg) => msg.senderId === userId ? msg.receiverId : msg.senderId));
+    const otherUsers = new Map<string, User>();
+    for (const otherUserId of Array.from(otherUserIds)) {
+      const otherUser = await this.getUser(otherUserId);
+      if (otherUser) otherUsers.set(otherUserId, otherUser);
+    }
+
+    return summarizeConversations(userId, userMessages, (id) => otherUsers.get(id));
+  }
+
+  async createScheduleMatchMessage(
+    user1Id: string, 
+    user2Id: string, 
+    location: string, 
+    time: string, 
+    distance: number
+  ): Promise<Message[]> {
+    const user1 = await this.getUser(user1Id);
+    const user2 = await this.getUser(user2Id);
+    
+    if (!user1 || !user2) return [];
+
+    // Each message appears to come from the other driver to encourage conversation
+    return this.db.insert(messages).values([
+      {
+        senderId: user2Id,
+        receiverId: user1Id,
+        content: scheduleMatchContent(user2, location, time, distance),
+        read: false,
+      },
+      {
+        senderId: user1Id,
+        receiverId: user2Id,
+        content: scheduleMatchContent(user1, location, time, distance),
+        read: false,
+      },
+    ]).returning();
+  }
+
+  // Ratings
+  async createRating(insertRating: InsertRating): Promise<Rating | undefined> {
+    // The unique (rater, lift) constraint turns a second rating of the same lift into a no-op
+    const [rating] = await this.db.insert(ratings).values(insertRating).onConflictDoNothing().returning();
+    if (!rating) return undefined;
+    
+    // Update user stats after rating
+    await this.updateReputationScore(insertRating.ratedUserId);
+    await this.checkAndAwardBadges(insertRating.ratedUserId);
+    
+    return rating;
+  }
+
+  async getRating(id: string): Promise<Rating | undefined> {
+    const [rating] = await this.db.select().from(ratings).where(eq(ratings.id, id));
+    return rating;
+  }
+
+  async getRatingsByUserId(userId: string): Promise<Rating[]> {
+    return this.db.select().from(ratings)
+      .where(and(eq(ratings.ratedUserId, userId), notInArray(ratings.status, uncountedRatingStatuses)))
+      .orderBy(desc(ratings.createdAt));
+  }
+
+  async getRatingForLift(raterId: string, liftId: string): Promise<Rating | undefined> {
+    const [rating] = await this.db.select().from(ratings)
+      .where(and(eq(ratings.raterId, raterId), eq(ratings.liftId, liftId), ne(ratings.status, "superseded")));
+    return rating;
+  }
+
+  async getDisputedRatings(): Promise<Rating[]> {
+    return this.db.select().from(ratings)
+      .where(eq(ratings.status, "disputed"))
+      .orderBy(asc(ratings.disputedAt));
+  }
+
+  async disputeRating(id: string, reason: string): Promise<Rating | undefined> {
+    const [rating] = await this.db.update(ratings)
+      .set({ status: "disputed", disputeReason: reason, disputedAt: new Date() })
+      .where(and(eq(ratings.id, id), eq(ratings.status, "active"), isNull(ratings.disputedAt)))
+      .returning();
+    return rating;
+  }
+
+  async resolveRatingDispute(id: string, outcome: "upheld" | "removed", moderatorId: string, notes?: string): Promise<Rating | undefined> {
+    const [rating] = await this.db.update(ratings)
+      .set({
+        status: outcome === "removed" ? "removed" : "active",
+        resolvedBy: moderatorId,
+        resolutionNotes: notes ?? null,
+        resolvedAt: new Date(),
+      })
+      .where(and(eq(ratings.id, id), eq(ratings.status, "disputed")))
+      .returning();
+    if (rating && outcome === "removed") await this.updateReputationScore(rating.ratedUserId);
+    return rating;
+  }
+
+  // User Stats
+  async getUserStats(userId: string): Promise<UserStats | undefined> {
+    const [stats] = await this.db.select().from(userStats).where(eq(userStats.userId, userId));
+    return stats;
+  }
+
+  async createUserStats(userId: string): Promise<UserStats> {
+    // Re-creating stats resets them, matching MemStorage's overwrite semantics
+    await this.db.delete(userStats).where(eq(userStats.userId, userId));
+    const [stats] = await this.db.insert(userStats).values({ userId }).returning();
+    return stats;
+  }
+
+  async updateUserStats(userId: string, updates: Partial<InsertUserStats>): Promise<UserStats | undefined> {
+    const [stats] = await this.db.update(userStats)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(userStats.userId, userId))
+      .returning();
+    return stats;
+  }
+
+  async calculateReputationScore(userId: string): Promise<number> {
+    const stats = await this.getUserStats(userId);
+    if (!stats) return 0;
+    
+    const ratingList = await this.getRatingsByUserId(userId);
+    return computeReputationScore(ratingList, stats);
+  }
+
+  async updateReputationScore(userId: string): Promise<void> {
+    const stats = await this.getUserStats(userId);
+    if (!stats) {
+      await this.createUserStats(userId);
+    }
+    
+    const reputationScore = await this.calculateReputationScore(userId);
+    const ratingList = await this.getRatingsByUserId(userId);
+    
+    await this.updateUserStats(userId, {
+      reputationScore,
+      tier: tierForReputation(reputationScore),
+      averageRating: averageStars(ratingList),
+    });
+  }
+
+  // Points Ledger
+  async recordPoints(insertEntry: InsertPointsLedgerEntry): Promise<PointsLedgerEntry | undefined> {
+    return this.db.transaction(async (tx) => {
+      // The unique (user, reason, source) constraint makes a replayed award a no-op
+      const [entry] = await tx.insert(pointsLedger).values(insertEntry).onConflictDoNothing().returning();
+      if (!entry) return undefined;
+
+      // Increment in SQL so two awards at once can't lose an update
+      await tx.insert(userStats).values({ userId: entry.userId }).onConflictDoNothing();
+      await tx.update(userStats)
+        .set({ totalPoints: sql`coalesce(${userStats.totalPoints}, 0) + ${entry.points}`, updatedAt: new Date() })
+        .where(eq(userStats.userId, entry.userId));
+      return entry;
+    });
+  }
+
+  async getPointsLedger(userId: string): Promise<PointsLedgerEntry[]> {
+    return this.db.select().from(pointsLedger)
+      .where(eq(pointsLedger.userId, userId))
+      .orderBy(desc(pointsLedger.createdAt));
+  }
+
+  async getPointsTotals(since?: Date): Promise<{ userId: string; points: number }[]> {
+    return this.db
+      .select({ userId: pointsLedger.userId, points: sql<number>`cast(sum(${pointsLedger.points}) as integer)` })
+      .from(pointsLedger)
+      .where(since ? gte(pointsLedger.createdAt, since) : undefined)
+      .groupBy(pointsLedger.userId);
+  }
+
+  async getLeaderboard({ since, region, tier, offset, limit, userId }: LeaderboardFilter): Promise<LeaderboardRows> {
+    const totals = this.db
+      .select({ userId: pointsLedger.userId, points: sql<number>`cast(sum(${pointsLedger.points}) as integer)`.as("points") })
+      .from(pointsLedger)
+      .where(since ? gte(pointsLedger.createdAt, since) : undefined)
+      .groupBy(pointsLedger.userId)
+      .as("totals");
+    const listed = and(gt(totals.points, 0), eq(users.leaderboardOptOut, false));
+
+    const ranked = this.db
+      .select({
+        // Equal points share a rank, and the next rank skips past them (1, 2, 2, 4)
+        rank: sql<number>`cast(rank() over (order by ${totals.points} desc) as integer)`.as("rank"),
+        userId: users.id,
+        name: users.name,
+        callSign: users.callSign,
+        avatar: users.avatar,
+        tier: userStats.tier,
+        region: userStats.homeRegion,
+        points: totals.points,
+      })
+      .from(totals)
+      .innerJoin(users, eq(users.id, totals.userId))
+      .leftJoin(userStats, eq(userStats.userId, users.id))
+      .where(and(listed, region ? eq(userStats.homeRegion, region) : undefined, tier ? eq(userStats.tier, tier) : undefined))
+      .as("ranked");
+
+    const entries = await this.db.select().from(ranked).orderBy(asc(ranked.rank), asc(ranked.name)).limit(limit).offset(offset);
+    const [{ count }] = await this.db.select({ count: sql<number>`cast(count(*) as integer)` }).from(ranked);
+    const regions = await this.db
+      .selectDistinct({ region: userStats.homeRegion })
+      .from(totals)
+      .innerJoin(users, eq(users.id, totals.userId))
+      .innerJoin(userStats, eq(userStats.userId, users.id))
+      .where(and(listed, isNotNull(userStats.homeRegion)))
+      .orderBy(asc(userStats.homeRegion));
+
+    const rows: LeaderboardRows = { entries, totalEntries: count, regions: regions.map((r) => r.region!) };
+    if (userId) {
+      const [currentUser] = await this.db.select().from(ranked).where(eq(ranked.userId, userId));
+      rows.currentUser = currentUser ?? null;
+    }
+    return rows;
+  }
+
+  // Badges
+  async getBadge(id: string): Promise<Badge | undefined> {
+    const [badge] = await this.db.select().from(badges).where(eq(badges.id, id));
+    return badge;
+  }
+
+  async getAllBadges(): Promise<Badge[]> {
+    return this.db.select().from(badges);
+  }
+
+  async createBadge(badge: InsertBadge): Promise<Badge> {
+    const [created] = await this.db.insert(badges)
+      .values(badge)
+      .onConflictDoUpdate({ target: badges.id, set: { ...badge, threshold: badge.threshold ?? null } })
+      .returning();
+    return created;
+  }
+
+  // User Badges
+  async getUserBadges(userId: string): Promise<(UserBadge & { badge: Badge })[]> {
+    const rows = await this.db
+      .select({ userBadge: userBadges, badge: badges })
+      .from(userBadges)
+      .innerJoin(badges, eq(userBadges.badgeId, badges.id))
+      .where(and(eq(userBadges.userId, userId), isNotNull(userBadges.earnedAt)))
+      .orderBy(asc(userBadges.earnedAt));
+
+    return rows.map(({ userBadge, badge }) => ({ ...userBadge, badge }));
+  }
+
+  async getUserBadgeProgress(userId: string): Promise<UserBadge[]> {
+    return this.db.select().from(userBadges).where(eq(userBadges.userId, userId));
+  }
+
+  async setBadgeProgress(userId: string, badgeId: string, progress: number): Promise<UserBadge | undefined> {
+    const [existing] = await this.db.select().from(userBadges)
+      .where(and(eq(userBadges.userId, userId), eq(userBadges.badgeId, badgeId)));
+    if (existing?.earnedAt) return undefined;
+
+    if (existing) {
+      const [updated] = await this.db.update(userBadges).set({ progress })
+        .where(and(eq(userBadges.id, existing.id), isNull(userBadges.earnedAt)))
+        .returning();
+      return updated;
+    }
+    if (!(await this.getBadge(badgeId))) return undefined;
+    const [created] = await this.db.insert(userBadges)
+      .values({ userId, badgeId, progress, earnedAt: null })
+      .returning();
+    return created;
+  }
+
+  async awardBadge(userId: string, badgeId: string): Promise<UserBadge | null> {
+    // Check if user already has this badge; a progress row becomes the earned one
+    const [existing] = await this.db.select({ id: userBadges.id, earnedAt: userBadges.earnedAt }).from(userBadges)
+      .where(and(eq(userBadges.userId, userId), eq(userBadges.badgeId, badgeId)));
+    if (existing?.earnedAt) return null;
+
+    if (existing) {
+      const [earned] = await this.db.update(userBadges)
+        .set({ progress: 100, earnedAt: new Date() })
+        .where(and(eq(userBadges.id, existing.id), isNull(userBadges.earnedAt)))
+        .returning();
+      return earned ?? null;
+    }
+
+    // Unlike the in-memory maps, the foreign key needs the badge to exist in the catalog
+    if (!(await this.getBadge(badgeId))) return null;
+    
+    const [userBadge] = await this.db.insert(userBadges)
+      .values({ userId, badgeId, progress: 100 })
+      .returning();
+    return userBadge;
+  }
+
+  async checkAndAwardBadges(userId: string, event?: BadgeEvent): Promise<UserBadge[]> {
+    return (await evaluateBadges(this, userId, event)).awarded;
+  }
+
+  // Driver Type (role selection)
+  async updateUserDriverType(userId: string, driverType: string): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ driverType }).where(eq(users.id, userId)).returning();
+    return user;
+  }
+
+  // Reports
+  async createReport(insertReport: InsertReport): Promise<Report> {
+    const [report] = await this.db.insert(reports).values(insertReport).returning();
+    return report;
+  }
+
+  async getReport(id: string): Promise<Report | undefined> {
+    const [report] = await this.db.select().from(reports).where(eq(reports.id, id));
+    return report;
+  }
+
+  async getReports(status?: string): Promise<Report[]> {
+    return this.db.select().from(reports)
+      .where(status ? eq(reports.status, status) : undefined)
+      .orderBy(asc(reports.createdAt));
+  }
+
+  async getOpenReport(reporterId: string, reportedUserId: string): Promise<Report | undefined> {
+    const [report] = await this.db.select().from(reports)
+      .where(and(
+        eq(reports.reporterId, reporterId),
+        eq(reports.reportedUserId, reportedUserId),
+        inArray(reports.status, OPEN_REPORT_STATUSES),
+      ));
+    return report;
+  }
+
+  async reviewReport(id: string, review: {
+    status: string;
+    action?: string | null;
+    reviewedBy: string;
+    reviewNotes?: string | null;
+  }): Promise<Report | undefined> {
+    const [report] = await this.db.update(reports)
+      .set({
+        status: review.status,
+        action: review.action ?? null,
+        reviewedBy: review.reviewedBy,
+        reviewNotes: review.reviewNotes ?? null,
+        reviewedAt: new Date(),
+      })
+      .where(and(eq(reports.id, id), inArray(reports.status, OPEN_REPORT_STATUSES)))
+      .returning();
+    return report;
+  }
+
+  // Blocks
+  async createBlock(insertBlock: InsertBlock): Promise<Block> {
+    const [block] = await this.db.insert(blocks).values(insertBlock).onConflictDoNothing().returning();
+    if (block) return block;
+
+    const [existing] = await this.db.select().from(blocks)
+      .where(and(eq(blocks.blockerId, insertBlock.blockerId), eq(blocks.blockedUserId, insertBlock.blockedUserId)));
+    return existing;
+  }
+
+  async deleteBlock(blockerId: string, blockedUserId: string): Promise<boolean> {
+    const deleted = await this.db.delete(blocks)
+      .where(and(eq(blocks.blockerId, blockerId), eq(blocks.blockedUserId, blockedUserId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getBlocksByBlockerId(blockerId: string): Promise<Block[]> {
+    return this.db.select().from(blocks)
+      .where(eq(blocks.blockerId, blockerId))
+      .orderBy(desc(blocks.createdAt));
+  }
+
+  async getBlockedUserIds(userId: string): Promise<string[]> {
+    const rows = await this.db.select().from(blocks)
+      .where(or(eq(blocks.blockerId, userId), eq(blocks.blockedUserId, userId)));
+    return Array.from(new Set(rows.map((block) =>
+      block.blockerId === userId ? block.blockedUserId : block.blockerId
+    )));
+  }
+
+  // Trade plate usage log
+  async createTradePlateLogEntry(insertEntry: InsertTradePlateLogEntry): Promise<TradePlateLogEntry | undefined> {
+    // The unique job_id makes a second entry for the same job a no-op
+    const [entry] = await this.db.insert(tradePlateLogEntries).values(insertEntry).onConflictDoNothing().returning();
+    return entry;
+  }
+
+  async getTradePlateLogEntry(id: string): Promise<TradePlateLogEntry | undefined> {
+    const [entry] = await this.db.select().from(tradePlateLogEntries).where(eq(tradePlateLogEntries.id, id));
+    return entry;
+  }
+
+  async getTradePlateLogEntryByJobId(jobId: string): Promise<TradePlateLogEntry | undefined> {
+    const [entry] = await this.db.select().from(tradePlateLogEntries).where(eq(tradePlateLogEntries.jobId, jobId));
+    return entry;
+  }
+
+  async getTradePlateLog(userId: string, filter: { plateNumber?: string; from?: string; to?: string } = {}): Promise<TradePlateLogEntry[]> {
+    return this.db.select().from(tradePlateLogEntries)
+      .where(and(
+        eq(tradePlateLogEntries.userId, userId),
+        filter.plateNumber ? eq(tradePlateLogEntries.plateNumber, filter.plateNumber) : undefined,
+        filter.from ? gte(tradePlateLogEntries.date, filter.from) : undefined,
+        filter.to ? lte(tradePlateLogEntries.date, filter.to) : undefined,
+      ))
+      .orderBy(asc(tradePlateLogEntries.startTime));
+  }
+
+  async updateTradePlateLogEntry(id: string, updates: TradePlateLogChanges): Promise<TradePlateLogEntry | undefined> {
+    const [entry] = await this.db.update(tradePlateLogEntries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(tradePlateLogEntries.id, id))
+      .returning();
+    return entry;
+  }
+
+  async editTradePlateLogEntry(id: string, updates: TradePlateLogChanges, edit: {
+    editedBy: string;
+    reason: string;
+  }): Promise<{ entry: TradePlateLogEntry; edits: TradePlateLogEdit[] } | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the entry so concurrent edits each see the other's values as the old ones
+      const [entry] = await tx.select().from(tradePlateLogEntries).where(eq(tradePlateLogEntries.id, id)).for("update");
+      if (!entry) return undefined;
+
+      const changes = tradePlateLogChanges(entry, updates);
+      if (changes.length === 0) return { entry, edits: [] };
+
+      const edits = await tx.insert(tradePlateLogEdits)
+        .values(changes.map((change) => ({ ...change, entryId: id, editedBy: edit.editedBy, reason: edit.reason })))
+        .returning();
+      const [updated] = await tx.update(tradePlateLogEntries)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(tradePlateLogEntries.id, id))
+        .returning();
+      return { entry: updated, edits };
+    });
+  }
+
+  async getTradePlateLogEdits(entryId: string): Promise<TradePlateLogEdit[]> {
+    return this.db.select().from(tradePlateLogEdits)
+      .where(eq(tradePlateLogEdits.entryId, entryId))
+      .orderBy(asc(tradePlateLogEdits.editedAt));
+  }
+
+  // Vehicle inspections
+  async createVehicleInspection(insertInspection: InsertVehicleInspection, details: InspectionRows): Promise<VehicleInspectionDetails | undefined> {
+    return this.db.transaction(async (tx) => {
+      // The unique (job_id, stage) makes a second inspection for the same stage a no-op
+      const [inspection] = await tx.insert(vehicleInspections).values(insertInspection).onConflictDoNothing().returning();
+      if (!inspection) return undefined;
+
+      const rows = <T extends object>(items: T[]) => items.map((item, position) => ({ ...item, inspectionId: inspection.id, position }));
+      const checklist = details.checklist.length > 0
+        ? await tx.insert(inspectionChecklistItems).values(rows(details.checklist)).returning()
+        : [];
+      const damage = details.damage.length > 0
+        ? await tx.insert(inspectionDamage).values(rows(details.damage)).returning()
+        : [];
+      const photos = details.photos.length > 0
+        ? await tx.insert(inspectionPhotos).values(rows(details.photos)).returning()
+        : [];
+      return { ...inspection, checklist, damage, photos };
+    });
+  }
+
+  async getVehicleInspectionsByJobId(jobId: string): Promise<VehicleInspectionDetails[]> {
+    const inspections = await this.db.select().from(vehicleInspections)
+      .where(eq(vehicleInspections.jobId, jobId))
+      .orderBy(asc(vehicleInspections.createdAt));
+    if (inspections.length === 0) return [];
+
+    const ids = inspections.map((inspection) => inspection.id);
+    const [checklist, damage, photos] = await Promise.all([
+      this.db.select().from(inspectionChecklistItems).where(inArray(inspectionChecklistItems.inspectionId, ids)).orderBy(asc(inspectionChecklistItems.position)),
+      this.db.select().from(inspectionDamage).where(inArray(inspectionDamage.inspectionId, ids)).orderBy(asc(inspectionDamage.position)),
+      this.db.select().from(inspectionPhotos).where(inArray(inspectionPhotos.inspectionId, ids)).orderBy(asc(inspectionPhotos.position)),
+    ]);
+    return inspections.map((inspection) => ({
+      ...inspection,
+      checklist: checklist.filter((row) => row.inspectionId === inspection.id),
+      damage: damage.filter((row) => row.inspectionId === inspection.id),
+      photos: photos.filter((row) => row.inspectionId === inspection.id),
+    }));
+  }
+
+  async getInspectionPhoto(id: string): Promise<InspectionPhoto | undefined> {
+    const [photo] = await this.db.select().from(inspectionPhotos).where(eq(inspectionPhotos.id, id));
+    return photo;
+  }
+
+  async deleteVehicleInspection(id: string): Promise<boolean> {
+    // Checklist, damage and photo rows go with it (ON DELETE CASCADE)
+    const deleted = await this.db.delete(vehicleInspections).where(eq(vehicleInspections.id, id)).returning({ id: vehicleInspections.id });
+    return deleted.length > 0;
+  }
+
+  // Idempotency keys
+  async createIdempotencyKey(insertKey: InsertIdempotencyKey): Promise<IdempotencyKey | undefined> {
+    const [key] = await this.db.insert(idempotencyKeys).values(insertKey).onConflictDoNothing().returning();
+    return key;
+  }
+
+  async getIdempotencyKey(key: string): Promise<IdempotencyKey | undefined> {
+    const [row] = await this.db.select().from(idempotencyKeys).where(eq(idempotencyKeys.key, key));
+    return row;
+  }
+
+  async completeIdempotencyKey(key: string, statusCode: number, response: string | null): Promise<IdempotencyKey | undefined> {
+    const [row] = await this.db.update(idempotencyKeys)
+      .set({ statusCode, response, completedAt: new Date() })
+      .where(eq(idempotencyKeys.key, key))
+      .returning();
+    return row;
+  }
+
+  async deleteIdempotencyKey(key: string): Promise<boolean> {
+    const deleted = await this.db.delete(idempotencyKeys).where(eq(idempotencyKeys.key, key)).returning({ key: idempotencyKeys.key });
+    return deleted.length > 0;
+  }
+
+  async deleteIdempotencyKeysCreatedBefore(cutoff: Date): Promise<number> {
+    const deleted = await this.db.delete(idempotencyKeys).where(lt(idempotencyKeys.createdAt, cutoff)).returning({ key: idempotencyKeys.key });
+    return deleted.length;
+  }
+
+  // Verification documents
+  async createUserDocument(insertDocument: InsertUserDocument): Promise<UserDocument> {
+    const [document] = await this.db.insert(userDocuments).values(insertDocument).returning();
+    return document;
+  }
+
+  async getUserDocument(id: string): Promise<UserDocument | undefined> {
+    const [document] = await this.db.select().from(userDocuments).where(eq(userDocuments.id, id));
+    return document;
+  }
+
+  async getUserDocumentsByUserId(userId: string): Promise<UserDocument[]> {
+    return this.db.select().from(userDocuments)
+      .where(eq(userDocuments.userId, userId))
+      .orderBy(desc(userDocuments.createdAt));
+  }
+
+  async getUserDocumentsByStatus(status: string): Promise<UserDocument[]> {
+    return this.db.select().from(userDocuments)
+      .where(eq(userDocuments.status, status))
+      .orderBy(asc(userDocuments.createdAt));
+  }
+
+  async transitionUserDocument(id: string, fromStatus: string, toStatus: string, review?: {
+    reviewedBy: string;
+    rejectionReason?: string | null;
+  }): Promise<UserDocument | undefined> {
+    const [document] = await this.db.update(userDocuments)
+      .set({
+        status: toStatus,
+        ...(review && {
+          reviewedBy: review.reviewedBy,
+          reviewedAt: new Date(),
+          rejectionReason: review.rejectionReason ?? null,
+        }),
+      })
+      .where(and(eq(userDocuments.id, id), eq(userDocuments.status, fromStatus)))
+      .returning();
+    return document;
+  }
+
+  async markUserDocumentReminded(id: string, days: number): Promise<UserDocument | undefined> {
+    const [document] = await this.db.update(userDocuments)
+      .set({ reminderDays: days })
+      .where(and(
+        eq(userDocuments.id, id),
+        eq(userDocuments.status, "approved"),
+        or(isNull(userDocuments.reminderDays), gt(userDocuments.reminderDays, days)),
+      ))
+      .returning();
+    return document;
+  }
+
+  // Check-ins
+  async createCheckIn(checkIn: InsertCheckIn): Promise<CheckIn> {
+    const [created] = await this.db.insert(checkIns).values(checkIn).returning();
+    return created;
+  }
+
+  async getCheckIn(id: string): Promise<CheckIn | undefined> {
+    const [checkIn] = await this.db.select().from(checkIns).where(eq(checkIns.id, id));
+    return checkIn;
+  }
+
+  async getCheckInsByUserId(userId: string): Promise<CheckIn[]> {
+    return this.db.select().from(checkIns)
+      .where(eq(checkIns.userId, userId))
+      .orderBy(asc(checkIns.createdAt));
+  }
+
+  async getActiveCheckIns(): Promise<CheckIn[]> {
+    return this.db.select().from(checkIns).where(gt(checkIns.toTime, new Date()));
+  }
+
+  async getNearbyCheckIns(
+    lat: number,
+    lng: number,
+    maxDistanceMiles: number,
+    driverType?: string
+  ): Promise<(CheckIn & { user: User; distance: number })[]> {
+    const rows = await this.db
+      .select({ checkIn: checkIns, user: users })
+      .from(checkIns)
+      .innerJoin(users, eq(checkIns.userId, users.id))
+      .where(and(
+        gte(checkIns.toTime, new Date()),
+        driverType ? eq(checkIns.driverType, driverType) : undefined,
+      ));
+
+    const nearbyCheckIns = rows
+      .map(({ checkIn, user }) => {
+        if (!checkIn.lat || !checkIn.lng) return null;
+        const distance = calculateDistance(lat, lng, checkIn.lat, checkIn.lng);
+        if (distance > maxDistanceMiles) return null;
+        return { ...checkIn, user, distance };
+      })
+      .filter((item): item is CheckIn & { user: User; distance: number } => item !== null);
+
+    return nearbyCheckIns.sort((a, b) => a.distance - b.distance);
+  }
+
+  async deleteCheckIn(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(checkIns).where(eq(checkIns.id, id)).returning({ id: checkIns.id });
+    return deleted.length > 0;
+  }
+
+  async getCheckInsMissingCoordinates(): Promise<CheckIn[]> {
+    return this.db.select().from(checkIns)
+      .where(and(isNotNull(checkIns.w3w), or(isNull(checkIns.lat), isNull(checkIns.lng))))
+      .orderBy(asc(checkIns.createdAt));
+  }
+
+  async updateCheckInCoordinates(id: string, lat: number, lng: number): Promise<CheckIn | undefined> {
+    const [checkIn] = await this.db.update(checkIns).set({ lat, lng }).where(eq(checkIns.id, id)).returning();
+    return checkIn;
+  }
+
+  // Loader Spaces
+  async createLoaderSpace(space: InsertLoaderSpace): Promise<LoaderSpace> {
+    const [created] = await this.db.insert(loaderSpaces).values(space).returning();
+    return created;
+  }
+
+  async getLoaderSpace(id: string): Promise<LoaderSpace | undefined> {
+    const [space] = await this.db.select().from(loaderSpaces).where(eq(loaderSpaces.id, id));
+    return space;
+  }
+
+  async getLoaderSpacesByUserId(userId: string): Promise<LoaderSpace[]> {
+    return this.db.select().from(loaderSpaces)
+      .where(eq(loaderSpaces.userId, userId))
+      .orderBy(asc(loaderSpaces.createdAt));
+  }
+
+  async getAllAvailableLoaderSpaces(): Promise<(LoaderSpace & { user: User })[]> {
+    const rows = await this.db
+      .select({ space: loaderSpaces, user: users })
+      .from(loaderSpaces)
+      .innerJoin(users, eq(loaderSpaces.userId, users.id))
+      .where(eq(loaderSpaces.status, 'available'))
+      .orderBy(asc(loaderSpaces.createdAt));
+
+    return rows.map(({ space, user }) => ({ ...space, user }));
+  }
+
+  async updateLoaderSpaceStatus(id: string, status: string): Promise<LoaderSpace | undefined> {
+    const [space] = await this.db.update(loaderSpaces).set({ status }).where(eq(loaderSpaces.id, id)).returning();
+    return space;
+  }
+
+  async deleteLoaderSpace(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(loaderSpaces).where(eq(loaderSpaces.id, id)).returning({ id: loaderSpaces.id });
+    return deleted.length > 0;
+  }
+
+  async getLoaderSpacesMissingCoordinates(): Promise<LoaderSpace[]> {
+    return this.db.select().from(loaderSpaces)
+      .where(or(
+        and(isNotNull(loaderSpaces.originW3W), or(isNull(loaderSpaces.originLat), isNull(loaderSpaces.originLng))),
+        and(isNotNull(loaderSpaces.destW3W), or(isNull(loaderSpaces.destLat), isNull(loaderSpaces.destLng))),
+      ))
+      .orderBy(asc(loaderSpaces.createdAt));
+  }
+
+  async updateLoaderSpaceCoordinates(id: string, coordinates: LoaderSpaceCoordinates): Promise<LoaderSpace | undefined> {
+    if (Object.keys(coordinates).length === 0) return this.getLoaderSpace(id);
+    const [space] = await this.db.update(loaderSpaces).set(coordinates).where(eq(loaderSpaces.id, id)).returning();
+    return space;
+  }
+}
+
+// STORAGE_BACKEND=postgres persists to DATABASE_URL; anything else keeps the in-memory MVP store
+function createStorage(): IStorage {
+  if (process.env.STORAGE_BACKEND === "postgres") {
+    return new DrizzleStorage(createDb());
+  }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = createStorage();
@@ -7,6 +7,7 @@ export function registerTestHelpers(app: Express) {
   app.post("/api/test/seed-user", (req, res) => {
     const { id = "test-user", email = "test@drivernet.local", sub = "active", name = "Test User" } = req.body || {};
     (req.session as any).user = { id, email, name, subscription_status: sub };
+    req.session.userId = id;
     res.json({ ok: true, id, email, sub });
   });
 
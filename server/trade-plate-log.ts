@@ -0,0 +1,165 @@
+// Trade Plate Usage Log
+// Trade plate holders must record each vehicle moved under their plates: the date, plate, vehicle
+// registration or VIN, where and when the movement started and ended, and its purpose. Entries are
+// built from jobs that carry a plate number: one appears when the driver checks in and its end
+// fills in at check-out. Drivers can correct an entry, giving a reason; every changed field is kept
+// in the entry's audit trail, and later job updates leave corrected fields alone. The log exports
+// as CSV or PDF for a plate and date range, with dates and times in UK time.
+
+import type { Job, TradePlateLogEdit, TradePlateLogEntry } from "@shared/schema";
+import { localDateKey, localTimeOfDay } from "./recurrence";
+import { renderTablePdf, type PdfColumn } from "./pdf";
+import type { IStorage, TradePlateLogChanges } from "./storage";
+
+export const TRADE_PLATE_LOG_FORMATS = ["csv", "pdf"] as const;
+export type TradePlateLogFormat = (typeof TRADE_PLATE_LOG_FORMATS)[number];
+
+// Carries the HTTP status the routes answer with
+export class TradePlateLogError extends Error {
+  constructor(message: string, readonly status: 400 | 403 | 404) {
+    super(message);
+    this.name = "TradePlateLogError";
+  }
+}
+
+export interface TradePlateLogFilter {
+  plateNumber?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+}
+
+// What a driver may correct; a plate number can't be removed, only changed
+export type TradePlateLogCorrection = Omit<TradePlateLogChanges, "date" | "plateNumber"> & {
+  plateNumber?: string | null;
+};
+
+// Creates or updates the job's log entry once it has been checked in under a plate
+export async function syncJobLogEntry(storage: IStorage, job: Job): Promise<TradePlateLogEntry | undefined> {
+  const existing = await storage.getTradePlateLogEntryByJobId(job.id);
+  // A job moved under no plate has nothing to record; an entry already made is kept as it is
+  if (!job.actualStartTime || !job.tradePlateNumber) return existing;
+
+  // Everything but the purpose, which only the driver sets
+  const fromJob: Required<Omit<TradePlateLogChanges, "purpose">> = {
+    date: localDateKey(job.actualStartTime),
+    plateNumber: job.tradePlateNumber,
+    vehicleRegistration: job.vehicleRegistration,
+    startTime: job.actualStartTime,
+    endTime: job.actualEndTime,
+    startLocation: job.fromLocation,
+    endLocation: job.toLocation,
+  };
+
+  if (!existing) {
+    const schedule = await storage.getSchedule(job.scheduleId);
+    if (!schedule) return undefined;
+    const created = await storage.createTradePlateLogEntry({ userId: schedule.userId, jobId: job.id, ...fromJob });
+    // A concurrent sync got there first
+    return created ?? storage.getTradePlateLogEntryByJobId(job.id);
+  }
+
+  // The driver's corrections win over the job
+  const corrected = new Set((await storage.getTradePlateLogEdits(existing.id)).map((edit) => edit.field));
+  const updates: TradePlateLogChanges = {};
+  for (const field of Object.keys(fromJob) as (keyof typeof fromJob)[]) {
+    const value = fromJob[field];
+    const current = existing[field];
+    const same = value instanceof Date && current instanceof Date ? value.getTime() === current.getTime() : value === current;
+    if (!corrected.has(field) && !same) Object.assign(updates, { [field]: value });
+  }
+  if (Object.keys(updates).length === 0) return existing;
+  return storage.updateTradePlateLogEntry(existing.id, updates);
+}
+
+async function ownEntry(storage: IStorage, userId: string, entryId: string): Promise<TradePlateLogEntry> {
+  const entry = await storage.getTradePlateLogEntry(entryId);
+  if (!entry) throw new TradePlateLogError("Log entry not found", 404);
+  if (entry.userId !== userId) throw new TradePlateLogError("You can't change this log entry", 403);
+  return entry;
+}
+
+export async function editLogEntry(
+  storage: IStorage,
+  userId: string,
+  entryId: string,
+  correction: TradePlateLogCorrection,
+  reason: string,
+): Promise<{ entry: TradePlateLogEntry; edits: TradePlateLogEdit[] }> {
+  const entry = await ownEntry(storage, userId, entryId);
+  if (!reason.trim()) throw new TradePlateLogError("A reason is required to change a log entry", 400);
+  if (correction.plateNumber === null) throw new TradePlateLogError("A plate number is required", 400);
+
+  const updates = { ...correction } as TradePlateLogChanges;
+  // The date follows the start time
+  if (correction.startTime) updates.date = localDateKey(correction.startTime);
+  const startTime = correction.startTime ?? entry.startTime;
+  const endTime = correction.endTime === undefined ? entry.endTime : correction.endTime;
+  if (endTime && endTime < startTime) {
+    throw new TradePlateLogError("The end time can't be before the start time", 400);
+  }
+
+  const edited = await storage.editTradePlateLogEntry(entryId, updates, { editedBy: userId, reason: reason.trim() });
+  if (!edited) throw new TradePlateLogError("Log entry not found", 404);
+  return edited;
+}
+
+export async function getLogEntryEdits(storage: IStorage, userId: string, entryId: string): Promise<TradePlateLogEdit[]> {
+  await ownEntry(storage, userId, entryId);
+  return storage.getTradePlateLogEdits(entryId);
+}
+
+// Times on the entry's date show as HH:MM; an end on a later day carries its date
+function logRow(entry: TradePlateLogEntry): string[] {
+  const end = entry.endTime
+    ? localDateKey(entry.endTime) === entry.date ? localTimeOfDay(entry.endTime) : `${localDateKey(entry.endTime)} ${localTimeOfDay(entry.endTime)}`
+    : "";
+  return [
+    entry.date,
+    entry.plateNumber,
+    entry.vehicleRegistration ?? "",
+    localTimeOfDay(entry.startTime),
+    end,
+    entry.startLocation,
+    entry.endLocation,
+    entry.purpose,
+  ];
+}
+
+const LOG_COLUMNS: PdfColumn[] = [
+  { header: "Date", width: 60 },
+  { header: "Plate number", width: 70 },
+  { header: "Vehicle reg/VIN", width: 90 },
+  { header: "Start", width: 60 },
+  { header: "End", width: 60 },
+  { header: "From", width: 170 },
+  { header: "To", width: 170 },
+  { header: "Purpose", width: 90 },
+];
+
+// Quoted where needed; a leading =, +, - or @ is defused so spreadsheets don't run it as a formula
+function csvField(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function tradePlateLogCsv(entries: TradePlateLogEntry[]): string {
+  return [LOG_COLUMNS.map((column) => column.header), ...entries.map(logRow)]
+    .map((row) => row.map(csvField).join(","))
+    .join("\r\n") + "\r\n";
+}
+
+export function tradePlateLogPdf(entries: TradePlateLogEntry[], driverName: string, filter: TradePlateLogFilter = {}): Buffer {
+  const period = filter.from || filter.to ? `${filter.from ?? "start"} to ${filter.to ?? "today"}` : "All dates";
+  return renderTablePdf({
+    title: "Trade plate usage record",
+    subtitle: `Driver: ${driverName}   Plate: ${filter.plateNumber ?? "All plates"}   Period: ${period}   Entries: ${entries.length}`,
+    columns: LOG_COLUMNS,
+    rows: entries.map(logRow),
+  });
+}
+
+// The export's file name, e.g. trade-plate-log-123-A-2026-10-01-2026-10-31.csv
+export function tradePlateLogFileName(format: TradePlateLogFormat, filter: TradePlateLogFilter = {}): string {
+  const parts = ["trade-plate-log", filter.plateNumber?.replace(/[^A-Z0-9]+/g, "-"), filter.from, filter.to];
+  return `${parts.filter(Boolean).join("-")}.${format}`;
+}
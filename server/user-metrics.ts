@@ -0,0 +1,165 @@
+// User Metrics
+// Punctuality, completion and activity streaks, computed from what actually happened rather than
+// self-reported: job check-in/out times against the schedule, driver pickups against the offer's
+// departure, and how each user's lift bookings ended. The results feed the reputation score and
+// tier. Recomputed from history each time, so a run is idempotent and can't drift.
+
+import type { Job, LiftBooking, LiftOffer, InsertUserStats } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { localDateKey, shiftDateKey } from "./recurrence";
+import { refreshHomeRegion } from "./leaderboards";
+
+const METRICS_INTERVAL_MS = 60 * 60 * 1000;
+const MS_PER_MINUTE = 60 * 1000;
+
+// Up to this late still counts as on time; punctuality then falls to nothing at LATE_LIMIT_MINUTES
+export const ON_TIME_GRACE_MINUTES = 10;
+export const LATE_LIMIT_MINUTES = 60;
+
+export interface UserActivity {
+  jobs: Job[];
+  // Bookings on the user's own offers, with the offer each belongs to
+  driven: { booking: LiftBooking; offer: LiftOffer }[];
+  ridden: LiftBooking[];
+}
+
+export type UserMetrics = Pick<
+  InsertUserStats,
+  "punctualityScore" | "completionRatio" | "currentStreak" | "longestStreak" | "lastActivityDate"
+>;
+
+// 1 when on time or early, 0 at the late limit or beyond
+export function timeliness(planned: Date, actual: Date): number {
+  const lateMinutes = (actual.getTime() - planned.getTime()) / MS_PER_MINUTE;
+  if (lateMinutes <= ON_TIME_GRACE_MINUTES) return 1;
+  return Math.max(0, 1 - (lateMinutes - ON_TIME_GRACE_MINUTES) / (LATE_LIMIT_MINUTES - ON_TIME_GRACE_MINUTES));
+}
+
+const percent = (fraction: number) => Math.round(fraction * 1000) / 10;
+
+// Each check-in, check-out and pickup with when it happened and how on time it was
+export function punctualitySamples({ jobs, driven }: UserActivity): { at: Date; score: number }[] {
+  const samples: { at: Date; score: number }[] = [];
+  for (const job of jobs) {
+    if (job.actualStartTime) samples.push({ at: job.actualStartTime, score: timeliness(job.estimatedStartTime, job.actualStartTime) });
+    if (job.actualEndTime) samples.push({ at: job.actualEndTime, score: timeliness(job.estimatedEndTime, job.actualEndTime) });
+  }
+  // The driver picking up on time; a late pickup isn't the passenger's doing
+  for (const { booking, offer } of driven) {
+    if (booking.pickedUpAt) samples.push({ at: booking.pickedUpAt, score: timeliness(offer.departureTime, booking.pickedUpAt) });
+  }
+  return samples;
+}
+
+function punctuality(activity: UserActivity): number | undefined {
+  const samples = punctualitySamples(activity);
+  if (samples.length === 0) return undefined;
+  return percent(samples.reduce((sum, s) => sum + s.score, 0) / samples.length);
+}
+
+// Completed lifts against the ones this user let fall through: pulling out of an accepted
+// booking, or not turning up as the passenger. Requests declined or withdrawn before acceptance,
+// and cancellations by the other person, don't count either way.
+function completion(userId: string, { driven, ridden }: UserActivity): number | undefined {
+  const bookings = [...driven.map(({ booking }) => booking), ...ridden];
+  let completed = 0;
+  let failed = 0;
+  for (const booking of bookings) {
+    if (booking.status === "completed") completed++;
+    else if (booking.status === "no-show" && booking.passengerId === userId) failed++;
+    else if (booking.status === "cancelled" && booking.cancelledBy === userId && booking.acceptedAt) failed++;
+  }
+  if (completed + failed === 0) return undefined;
+  return percent(completed / (completed + failed));
+}
+
+// Days with a finished job or a completed lift, as consecutive local dates
+function streaks({ jobs, driven, ridden }: UserActivity, now: Date) {
+  const activity = [
+    ...jobs.map((job) => job.actualEndTime),
+    ...driven.map(({ booking }) => booking.completedAt),
+    ...ridden.map((booking) => booking.completedAt),
+  ].filter((date): date is Date => !!date && date.getTime() <= now.getTime());
+  if (activity.length === 0) return undefined;
+
+  const days = new Set(activity.map(localDateKey));
+  const runEndingOn = (key: string) => {
+    let length = 0;
+    for (let d = key; days.has(d); d = shiftDateKey(d, -1)) length++;
+    return length;
+  };
+
+  // Each run counted once, from its last day
+  const longestStreak = Math.max(...Array.from(days)
+    .filter((day) => !days.has(shiftDateKey(day, 1)))
+    .map(runEndingOn));
+
+  // A streak is still current until a whole day passes without activity
+  const today = localDateKey(now);
+  const currentStreak = runEndingOn(days.has(today) ? today : shiftDateKey(today, -1));
+
+  const lastActivityDate = new Date(Math.max(...activity.map((date) => date.getTime())));
+  return { currentStreak, longestStreak, lastActivityDate };
+}
+
+// Metrics with nothing to go on are left out, so they keep whatever they were
+export function computeUserMetrics(userId: string, activity: UserActivity, now: Date = new Date()): UserMetrics {
+  const metrics: UserMetrics = {};
+  const punctualityScore = punctuality(activity);
+  if (punctualityScore !== undefined) metrics.punctualityScore = punctualityScore;
+  const completionRatio = completion(userId, activity);
+  if (completionRatio !== undefined) metrics.completionRatio = completionRatio;
+  Object.assign(metrics, streaks(activity, now));
+  return metrics;
+}
+
+export async function loadUserActivity(storage: IStorage, userId: string): Promise<UserActivity> {
+  const schedules = await storage.getSchedulesByUserId(userId);
+  const jobs = (await Promise.all(schedules.map((s) => storage.getJobsByScheduleId(s.id)))).flat();
+
+  const offers = await storage.getLiftOffersByDriverId(userId);
+  const driven = (await Promise.all(offers.map(async (offer) =>
+    (await storage.getLiftBookingsByOfferId(offer.id)).map((booking) => ({ booking, offer }))
+  ))).flat();
+  const ridden = await storage.getLiftBookingsByPassengerId(userId);
+
+  return { jobs, driven, ridden };
+}
+
+// Recomputes one user's metrics, then their reputation score, tier, leaderboard region and metric-based badges
+export async function refreshUserMetrics(storage: IStorage, userId: string, now: Date = new Date()): Promise<UserMetrics> {
+  const metrics = computeUserMetrics(userId, await loadUserActivity(storage, userId), now);
+  if (!(await storage.getUserStats(userId))) {
+    await storage.createUserStats(userId);
+  }
+  await storage.updateUserStats(userId, metrics);
+  await storage.updateReputationScore(userId);
+  await refreshHomeRegion(storage, userId);
+  await storage.checkAndAwardBadges(userId, "metrics");
+  return metrics;
+}
+
+export async function refreshAllUserMetrics(storage: IStorage, now: Date = new Date()): Promise<number> {
+  const users = await storage.getAllUsers();
+  for (const user of users) {
+    try {
+      await refreshUserMetrics(storage, user.id, now);
+    } catch (error) {
+      console.error(`User metrics error for ${user.id}:`, error);
+    }
+  }
+  return users.length;
+}
+
+// Keeps streaks current (they lapse without any event to trigger a refresh); returns a stop function
+export function startUserMetricsJob(storage: IStorage, intervalMs: number = METRICS_INTERVAL_MS): () => void {
+  const run = () => {
+    refreshAllUserMetrics(storage).catch((error) => {
+      console.error("User metrics job error:", error);
+    });
+  };
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,372 @@
+// Vehicle Condition Reports
+// A driver records the vehicle's condition when checking in to a job (pickup) and checking out
+// (dropoff): a checklist, damage marked on the vehicle diagram, mileage, fuel level, photos (JPEGs,
+// kept in the blob store) and the customer's signature. Each stage is recorded once. Comparing the
+// two finds damage marked at dropoff that wasn't there at pickup, which goes in a PDF report the
+// driver can share through a signed link.
+
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { InspectionDamage, Job } from "@shared/schema";
+import {
+  DIAGRAM_OUTLINES,
+  DIAGRAM_VIEWS,
+  FUEL_EIGHTHS,
+  SIGNATURE_HEIGHT,
+  SIGNATURE_WIDTH,
+  parseSignaturePath,
+  type DiagramView,
+  type InspectionComparison,
+  type InspectionStage,
+  type JobInspections,
+  type VehicleInspectionDetails,
+  type VehicleInspectionView,
+} from "@shared/inspections";
+import type { IStorage } from "./storage";
+import type { BlobStore } from "./blob-store";
+import { localDateKey, localTimeOfDay } from "./recurrence";
+import { PdfDocument, jpegSize, type PdfCanvas, type PdfColor } from "./pdf";
+
+export const MAX_INSPECTION_PHOTOS = 8;
+export const MAX_PHOTO_BYTES = 2 * 1024 * 1024;
+// Markers this close (as a fraction of the view) on the same view are taken to be the same damage
+export const DAMAGE_MATCH_DISTANCE = 0.08;
+
+const STAGE_LABELS: Record<InspectionStage, string> = { pickup: "Pickup", dropoff: "Dropoff" };
+const NEW_DAMAGE: PdfColor = [0.8, 0.1, 0.1];
+const GREY: PdfColor = [0.45, 0.45, 0.45];
+const DARK: PdfColor = [0.15, 0.15, 0.15];
+
+// Carries the HTTP status the routes answer with
+export class InspectionError extends Error {
+  constructor(message: string, readonly status: 400 | 403 | 404 | 409) {
+    super(message);
+    this.name = "InspectionError";
+  }
+}
+
+export interface InspectionInput {
+  checklist: { item: string; passed: boolean; note?: string }[];
+  damage: { view: DiagramView; x: number; y: number; type: string; severity: string; note?: string }[];
+  mileage?: number;
+  fuelLevel?: number;
+  notes?: string;
+  signature?: { name: string; path: string };
+  photos: { data: Buffer; caption?: string }[];
+}
+
+export function inspectionPhotoUrl(jobId: string, photoId: string): string {
+  return `/api/jobs/${jobId}/inspections/photos/${photoId}`;
+}
+
+export function inspectionView({ photos, ...inspection }: VehicleInspectionDetails): VehicleInspectionView {
+  return {
+    ...inspection,
+    photos: photos.map(({ blobKey: _, ...photo }) => ({ ...photo, url: inspectionPhotoUrl(inspection.jobId ?? "", photo.id) })),
+  };
+}
+
+function assertInspection(input: InspectionInput): void {
+  if (input.photos.length > MAX_INSPECTION_PHOTOS) {
+    throw new InspectionError(`An inspection can have at most ${MAX_INSPECTION_PHOTOS} photos`, 400);
+  }
+  for (const photo of input.photos) {
+    if (photo.data.length > MAX_PHOTO_BYTES) {
+      throw new InspectionError(`Photos can be at most ${MAX_PHOTO_BYTES / (1024 * 1024)} MB`, 400);
+    }
+    if (!jpegSize(photo.data)) throw new InspectionError("Photos must be JPEG images", 400);
+  }
+  if (input.signature && !parseSignaturePath(input.signature.path)) {
+    throw new InspectionError("The signature couldn't be read", 400);
+  }
+  if (input.fuelLevel !== undefined && (input.fuelLevel < 0 || input.fuelLevel > FUEL_EIGHTHS)) {
+    throw new InspectionError(`Fuel level is in eighths, 0 to ${FUEL_EIGHTHS}`, 400);
+  }
+}
+
+// Records the job's inspection for a stage; photos go to the blob store first and are removed again if it fails
+export async function recordInspection(
+  storage: IStorage,
+  blobs: BlobStore,
+  job: Job,
+  stage: InspectionStage,
+  input: InspectionInput,
+  location: { lat?: number; lng?: number } = {},
+  now: Date = new Date(),
+): Promise<VehicleInspectionDetails> {
+  assertInspection(input);
+  const schedule = await storage.getSchedule(job.scheduleId);
+  if (!schedule) throw new InspectionError("Schedule not found", 404);
+
+  const recorded = await storage.getVehicleInspectionsByJobId(job.id);
+  if (recorded.some((inspection) => inspection.stage === stage)) {
+    throw new InspectionError(`The ${stage} inspection has already been recorded`, 409);
+  }
+  const pickup = recorded.find((inspection) => inspection.stage === "pickup");
+  if (stage === "dropoff" && pickup?.mileage != null && input.mileage !== undefined && input.mileage < pickup.mileage) {
+    throw new InspectionError(`Mileage can't be lower than at pickup (${pickup.mileage})`, 400);
+  }
+
+  const photos = input.photos.map((photo) => ({
+    blobKey: `inspections/${job.id}/${randomUUID()}`,
+    contentType: "image/jpeg",
+    sizeBytes: photo.data.length,
+    caption: photo.caption?.trim() || null,
+    data: photo.data,
+  }));
+  const removePhotos = () => Promise.all(photos.map((photo) => blobs.delete(photo.blobKey).catch(() => false)));
+  try {
+    for (const photo of photos) await blobs.put(photo.blobKey, photo.data);
+    const inspection = await storage.createVehicleInspection({
+      jobId: job.id,
+      userId: schedule.userId,
+      stage,
+      mileage: input.mileage ?? null,
+      fuelLevel: input.fuelLevel ?? null,
+      notes: input.notes?.trim() || null,
+      signatureName: input.signature?.name.trim() ?? null,
+      signaturePath: input.signature?.path ?? null,
+      signedAt: input.signature ? now : null,
+      lat: location.lat ?? null,
+      lng: location.lng ?? null,
+    }, {
+      checklist: input.checklist.map((item) => ({ item: item.item.trim(), passed: item.passed, note: item.note?.trim() || null })),
+      damage: input.damage.map((marker) => ({ ...marker, note: marker.note?.trim() || null })),
+      photos: photos.map(({ data: _, ...photo }) => photo),
+    });
+    // Recorded concurrently
+    if (!inspection) throw new InspectionError(`The ${stage} inspection has already been recorded`, 409);
+    return inspection;
+  } catch (error) {
+    await removePhotos();
+    throw error;
+  }
+}
+
+// Takes back an inspection recorded for a check-in or check-out that then didn't go through
+export async function discardInspection(storage: IStorage, blobs: BlobStore, inspection: VehicleInspectionDetails): Promise<void> {
+  await storage.deleteVehicleInspection(inspection.id);
+  await Promise.all(inspection.photos.map((photo) => blobs.delete(photo.blobKey).catch(() => false)));
+}
+
+// Each dropoff marker is matched to the closest unmatched pickup marker on the same view, if one is close enough
+export function compareInspections(pickup: VehicleInspectionDetails, dropoff: VehicleInspectionDetails): InspectionComparison {
+  const unmatched = [...pickup.damage];
+  const newDamage: InspectionDamage[] = [];
+  const existingDamage: InspectionDamage[] = [];
+  for (const marker of dropoff.damage) {
+    let closest = -1;
+    let closestDistance = DAMAGE_MATCH_DISTANCE;
+    unmatched.forEach((before, i) => {
+      const distance = Math.hypot(before.x - marker.x, before.y - marker.y);
+      if (before.view === marker.view && distance <= closestDistance) {
+        closest = i;
+        closestDistance = distance;
+      }
+    });
+    if (closest === -1) {
+      newDamage.push(marker);
+    } else {
+      unmatched.splice(closest, 1);
+      existingDamage.push(marker);
+    }
+  }
+
+  const passedAtPickup = new Set(pickup.checklist.filter((item) => item.passed).map((item) => item.item.toLowerCase()));
+  return {
+    newDamage,
+    existingDamage,
+    checklistFailures: dropoff.checklist
+      .filter((item) => !item.passed && passedAtPickup.has(item.item.toLowerCase()))
+      .map((item) => item.item),
+    milesDriven: pickup.mileage != null && dropoff.mileage != null ? dropoff.mileage - pickup.mileage : null,
+    fuelChange: pickup.fuelLevel != null && dropoff.fuelLevel != null ? dropoff.fuelLevel - pickup.fuelLevel : null,
+  };
+}
+
+export async function getJobInspections(storage: IStorage, jobId: string): Promise<JobInspections> {
+  const inspections = await storage.getVehicleInspectionsByJobId(jobId);
+  const pickup = inspections.find((inspection) => inspection.stage === "pickup");
+  const dropoff = inspections.find((inspection) => inspection.stage === "dropoff");
+  return {
+    pickup: pickup ? inspectionView(pickup) : null,
+    dropoff: dropoff ? inspectionView(dropoff) : null,
+    comparison: pickup && dropoff ? compareInspections(pickup, dropoff) : null,
+  };
+}
+
+// ------------------------------------
+// Report links
+// ------------------------------------
+
+function reportSecret(env: NodeJS.ProcessEnv = process.env): string {
+  return env.INSPECTION_REPORT_SECRET || env.SESSION_SECRET || "dev-secret-change-in-production";
+}
+
+// Stable per job, so a shared link keeps working; rotate the secret to revoke all links
+export function inspectionReportToken(jobId: string, secret: string = reportSecret()): string {
+  return createHmac("sha256", secret).update(`inspection-report:${jobId}`).digest("base64url");
+}
+
+export function verifyInspectionReportToken(jobId: string, token: string, secret: string = reportSecret()): boolean {
+  const expected = Buffer.from(inspectionReportToken(jobId, secret));
+  const given = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// ------------------------------------
+// PDF report
+// ------------------------------------
+
+// UK date and time, as the customer saw it on the day
+function formatTime(date: Date | null): string {
+  if (!date) return "";
+  return `${localDateKey(date)} ${localTimeOfDay(date)}`;
+}
+
+function drawDiagram(canvas: PdfCanvas, damage: InspectionDamage[], isNew: (marker: InspectionDamage) => boolean): void {
+  const gap = 8;
+  const width = (canvas.width - gap * (DIAGRAM_VIEWS.length - 1)) / DIAGRAM_VIEWS.length;
+  const height = canvas.height - 12;
+  DIAGRAM_VIEWS.forEach((view, i) => {
+    const left = i * (width + gap);
+    canvas.rect(left, 0, width, height, { stroke: GREY, lineWidth: 0.3 });
+    for (const line of DIAGRAM_OUTLINES[view]) {
+      canvas.polyline(line.map(([x, y]) => [left + x * width, y * height]), { stroke: GREY, lineWidth: 0.8 });
+    }
+    canvas.text(left + width / 2 - view.length * 2, canvas.height - 2, view, { size: 8, color: GREY });
+  });
+  damage.forEach((marker, i) => {
+    const left = DIAGRAM_VIEWS.indexOf(marker.view as DiagramView) * (width + gap);
+    if (left < 0) return;
+    const x = left + marker.x * width;
+    const y = marker.y * height;
+    const markerColor = isNew(marker) ? NEW_DAMAGE : DARK;
+    canvas.circle(x, y, 4, { fill: markerColor });
+    canvas.text(x + 5, y - 3, String(i + 1), { size: 7, bold: true, color: markerColor });
+  });
+}
+
+async function addInspection(
+  pdf: PdfDocument,
+  blobs: BlobStore,
+  inspection: VehicleInspectionDetails,
+  newDamage: Set<string>,
+): Promise<void> {
+  pdf.gap(10);
+  pdf.text(`${STAGE_LABELS[inspection.stage as InspectionStage] ?? inspection.stage} - ${formatTime(inspection.createdAt)}`, { size: 12, bold: true });
+  const readings = [
+    inspection.mileage != null ? `Mileage: ${inspection.mileage}` : "Mileage: not recorded",
+    inspection.fuelLevel != null ? `Fuel: ${inspection.fuelLevel}/${FUEL_EIGHTHS}` : "Fuel: not recorded",
+  ];
+  if (inspection.lat != null && inspection.lng != null) readings.push(`At ${inspection.lat.toFixed(5)}, ${inspection.lng.toFixed(5)}`);
+  pdf.text(readings.join("   "), { size: 9 });
+  if (inspection.notes) pdf.text(`Notes: ${inspection.notes}`, { size: 9 });
+
+  if (inspection.checklist.length > 0) {
+    pdf.gap(4);
+    pdf.table(
+      [{ header: "Checklist", width: 200 }, { header: "Result", width: 60 }, { header: "Note", width: pdf.contentWidth - 260 }],
+      inspection.checklist.map((item) => [item.item, item.passed ? "OK" : "Fault", item.note ?? ""]),
+    );
+  }
+
+  pdf.gap(6);
+  if (inspection.damage.length === 0) {
+    pdf.text("No damage marked", { size: 9 });
+  } else {
+    pdf.table(
+      [
+        { header: "#", width: 24 }, { header: "View", width: 50 }, { header: "Damage", width: 60 },
+        { header: "Severity", width: 60 }, { header: "", width: 50 }, { header: "Note", width: pdf.contentWidth - 244 },
+      ],
+      inspection.damage.map((marker, i) => [
+        String(i + 1), marker.view, marker.type, marker.severity, newDamage.has(marker.id) ? "NEW" : "", marker.note ?? "",
+      ]),
+    );
+  }
+  pdf.gap(6);
+  pdf.drawing(90, (canvas) => drawDiagram(canvas, inspection.damage, (marker) => newDamage.has(marker.id)));
+
+  // Photos three to a row
+  const photoWidth = (pdf.contentWidth - 16) / 3;
+  const photoHeight = photoWidth * 0.75;
+  for (let i = 0; i < inspection.photos.length; i += 3) {
+    const row = await Promise.all(inspection.photos.slice(i, i + 3).map(async (photo) => ({ photo, data: await blobs.get(photo.blobKey) })));
+    pdf.gap(6);
+    pdf.drawing(photoHeight + 12, (canvas) => {
+      row.forEach(({ photo, data }, j) => {
+        const left = j * (photoWidth + 8);
+        const size = data ? jpegSize(data) : undefined;
+        if (data && size) {
+          // Fit inside the cell, keeping the aspect ratio
+          const scale = Math.min(photoWidth / size.width, photoHeight / size.height);
+          canvas.image(data, left, 0, size.width * scale, size.height * scale);
+        } else {
+          canvas.rect(left, 0, photoWidth, photoHeight, { stroke: GREY });
+          canvas.text(left + 4, photoHeight / 2, "Photo unavailable", { size: 8, color: GREY });
+        }
+        if (photo.caption) canvas.text(left, photoHeight + 10, photo.caption, { size: 8, maxWidth: photoWidth });
+      });
+    });
+  }
+
+  const strokes = inspection.signaturePath ? parseSignaturePath(inspection.signaturePath) : undefined;
+  if (strokes) {
+    const scale = 0.5;
+    pdf.gap(6);
+    pdf.drawing(SIGNATURE_HEIGHT * scale + 14, (canvas) => {
+      canvas.rect(0, 0, SIGNATURE_WIDTH * scale, SIGNATURE_HEIGHT * scale, { stroke: GREY, lineWidth: 0.3 });
+      for (const stroke of strokes) {
+        canvas.polyline(stroke.map(([x, y]) => [x * scale, y * scale]), { lineWidth: 1 });
+      }
+      canvas.text(0, SIGNATURE_HEIGHT * scale + 11, `Signed by ${inspection.signatureName ?? ""} at ${formatTime(inspection.signedAt)}`, { size: 8 });
+    });
+  } else {
+    pdf.text("Not signed by the customer", { size: 9, color: GREY });
+  }
+}
+
+export async function inspectionReportPdf(storage: IStorage, blobs: BlobStore, job: Job): Promise<Buffer> {
+  const inspections = await storage.getVehicleInspectionsByJobId(job.id);
+  const pickup = inspections.find((inspection) => inspection.stage === "pickup");
+  const dropoff = inspections.find((inspection) => inspection.stage === "dropoff");
+  const comparison = pickup && dropoff ? compareInspections(pickup, dropoff) : null;
+  const newDamage = new Set(comparison?.newDamage.map((marker) => marker.id));
+  const schedule = await storage.getSchedule(job.scheduleId);
+  const driver = schedule ? await storage.getUser(schedule.userId) : undefined;
+
+  const pdf = new PdfDocument();
+  pdf.text("Vehicle condition report", { size: 16, bold: true });
+  pdf.text(`${job.fromLocation} to ${job.toLocation}`, { size: 10 });
+  pdf.text([
+    `Vehicle: ${job.vehicleRegistration ?? "not recorded"}`,
+    job.tradePlateNumber ? `Trade plate: ${job.tradePlateNumber}` : "",
+    driver ? `Driver: ${driver.name} (${driver.callSign})` : "",
+  ].filter(Boolean).join("   "), { size: 9 });
+
+  if (comparison) {
+    pdf.gap(8);
+    pdf.text("Changes between pickup and dropoff", { size: 12, bold: true });
+    pdf.text(comparison.newDamage.length === 0
+      ? "No new damage"
+      : `New damage: ${comparison.newDamage.map((marker) => `${marker.type} (${marker.view}, ${marker.severity})`).join(", ")}`,
+    { size: 9, bold: comparison.newDamage.length > 0, color: comparison.newDamage.length > 0 ? NEW_DAMAGE : undefined });
+    if (comparison.checklistFailures.length > 0) {
+      pdf.text(`Checklist items that failed at dropoff: ${comparison.checklistFailures.join(", ")}`, { size: 9, color: NEW_DAMAGE });
+    }
+    const changes = [
+      comparison.milesDriven != null ? `Miles driven: ${comparison.milesDriven}` : "",
+      comparison.fuelChange != null ? `Fuel: ${comparison.fuelChange > 0 ? "+" : ""}${comparison.fuelChange}/${FUEL_EIGHTHS}` : "",
+    ].filter(Boolean);
+    if (changes.length > 0) pdf.text(changes.join("   "), { size: 9 });
+  }
+
+  for (const inspection of [pickup, dropoff]) {
+    if (inspection) await addInspection(pdf, blobs, inspection, newDamage);
+  }
+  if (!pickup && !dropoff) {
+    pdf.gap(8);
+    pdf.text("No inspections have been recorded for this job", { size: 10 });
+  }
+  return pdf.render();
+}
@@ -0,0 +1,216 @@
+// What3Words
+// Three-word addresses (///filled.count.soap) name a 3m square anywhere in the world. Lift offers,
+// lift requests, check-ins and loader spaces store them alongside coordinates; this module checks
+// the format, resolves them to coordinates on create, and backs the back-fill script for rows saved
+// while the provider was unconfigured or unreachable.
+//
+// W3W_API_KEY enables the What3Words API. W3W_FIXTURES=path answers only from a JSON file of
+// { "///words.words.words": { "lat": n, "lng": n } } (tests, offline demos). With neither, addresses
+// are validated and stored, and coordinates are left for scripts/backfill-w3w.ts.
+
+import { readFileSync } from "fs";
+import type { Coordinates } from "./ai-routing-utils";
+import type { IStorage, LoaderSpaceCoordinates } from "./storage";
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+// Words are letters only in every What3Words language; the API accepts them without the slashes
+const WORD = new RegExp("^\\p{L}+$", "u");
+
+export function normalizeThreeWordAddress(input: string): string | undefined {
+  const words = input.trim().replace(/^\/{0,3}/, "").toLowerCase().split(".");
+  if (words.length !== 3 || !words.every(word => WORD.test(word))) return undefined;
+  return `///${words.join(".")}`;
+}
+
+export type ThreeWordErrorCode = "invalid" | "not-found" | "unavailable";
+
+export class ThreeWordAddressError extends Error {
+  constructor(readonly code: ThreeWordErrorCode, message: string, readonly field?: string) {
+    super(message);
+    this.name = "ThreeWordAddressError";
+  }
+}
+
+export interface ThreeWordProvider {
+  readonly name: string;
+  // Takes a normalized ///word.word.word address
+  toCoordinates(address: string): Promise<Coordinates>;
+}
+
+export class What3WordsProvider implements ThreeWordProvider {
+  readonly name = "what3words";
+
+  constructor(private apiKey: string, private baseUrl = "https://api.what3words.com/v3") {}
+
+  async toCoordinates(address: string): Promise<Coordinates> {
+    const words = address.replace(/^\/+/, "");
+    const url = `${this.baseUrl}/convert-to-coordinates?words=${encodeURIComponent(words)}&key=${this.apiKey}`;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: controller.signal });
+    } catch (error: any) {
+      throw new ThreeWordAddressError("unavailable", `What3Words ${error.name === "AbortError" ? "timed out" : error.message}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    // Errors come back as { error: { code, message } }, with HTTP 400 for unknown addresses
+    const data = await response.json().catch(() => ({}));
+    if (data.error) {
+      const notFound = data.error.code === "BadWords" || data.error.code === "BadCoordinates";
+      throw new ThreeWordAddressError(notFound ? "not-found" : "unavailable", notFound
+        ? `${address} isn't a What3Words address`
+        : `What3Words ${data.error.code}: ${data.error.message}`);
+    }
+    if (!response.ok || typeof data.coordinates?.lat !== "number") {
+      throw new ThreeWordAddressError("unavailable", `What3Words HTTP ${response.status}`);
+    }
+    return { lat: data.coordinates.lat, lng: data.coordinates.lng };
+  }
+}
+
+// Answers only from known addresses, so tests resolve three-word addresses with no network
+export class StubThreeWordProvider implements ThreeWordProvider {
+  readonly name = "stub";
+  private addresses = new Map<string, Coordinates>();
+
+  constructor(addresses: Record<string, Coordinates>) {
+    for (const [address, point] of Object.entries(addresses)) {
+      const normalized = normalizeThreeWordAddress(address);
+      if (!normalized) throw new Error(`Invalid three-word address in stub: ${address}`);
+      this.addresses.set(normalized, point);
+    }
+  }
+
+  static fromFile(path: string): StubThreeWordProvider {
+    return new StubThreeWordProvider(JSON.parse(readFileSync(path, "utf-8")));
+  }
+
+  async toCoordinates(address: string): Promise<Coordinates> {
+    const point = this.addresses.get(address);
+    if (!point) throw new ThreeWordAddressError("not-found", `${address} isn't a What3Words address`);
+    return point;
+  }
+}
+
+// A three-word address column and the coordinate columns it fills
+export interface ThreeWordField {
+  address: string;
+  lat: string;
+  lng: string;
+}
+
+export const LIFT_W3W_FIELDS: ThreeWordField[] = [
+  { address: "fromW3W", lat: "fromLat", lng: "fromLng" },
+  { address: "toW3W", lat: "toLat", lng: "toLng" },
+];
+export const CHECK_IN_W3W_FIELDS: ThreeWordField[] = [{ address: "w3w", lat: "lat", lng: "lng" }];
+export const LOADER_SPACE_W3W_FIELDS: ThreeWordField[] = [
+  { address: "originW3W", lat: "originLat", lng: "originLng" },
+  { address: "destW3W", lat: "destLat", lng: "destLng" },
+];
+
+// Normalizes each three-word address in a request body and fills in missing coordinates.
+// Coordinates the client sent win over the address. Badly formed or unknown addresses throw
+// (the caller answers 400); when the provider is unconfigured or unreachable the address is kept
+// without coordinates so the back-fill can resolve it later.
+export async function resolveThreeWordAddresses<T extends Record<string, any>>(
+  body: T,
+  fields: ThreeWordField[],
+  provider: ThreeWordProvider | undefined = threeWords,
+): Promise<T> {
+  const resolved: Record<string, any> = { ...body };
+  for (const field of fields) {
+    const raw = resolved[field.address];
+    if (raw === undefined || raw === null || raw === "") {
+      delete resolved[field.address];
+      continue;
+    }
+    const address = typeof raw === "string" ? normalizeThreeWordAddress(raw) : undefined;
+    if (!address) {
+      throw new ThreeWordAddressError("invalid", "What3Words addresses look like ///word.word.word", field.address);
+    }
+    resolved[field.address] = address;
+
+    const hasCoordinates = typeof resolved[field.lat] === "number" && typeof resolved[field.lng] === "number";
+    if (hasCoordinates || !provider) continue;
+    try {
+      const point = await provider.toCoordinates(address);
+      resolved[field.lat] = point.lat;
+      resolved[field.lng] = point.lng;
+    } catch (error) {
+      if (error instanceof ThreeWordAddressError && error.code === "unavailable") {
+        console.warn(`Three-word provider ${provider.name} unavailable, leaving ${address} for back-fill:`, error.message);
+        continue;
+      }
+      if (error instanceof ThreeWordAddressError) {
+        throw new ThreeWordAddressError(error.code, error.message, field.address);
+      }
+      throw error;
+    }
+  }
+  return resolved as T;
+}
+
+export interface BackfillResult {
+  resolved: number;
+  notFound: string[];
+  unavailable: number;
+}
+
+// Lift offers and requests can't be saved without coordinates, so only check-ins and loader
+// spaces are left with unresolved addresses. Unknown addresses are reported so they can be corrected.
+export async function backfillThreeWordCoordinates(
+  store: IStorage,
+  provider: ThreeWordProvider,
+): Promise<BackfillResult> {
+  const result: BackfillResult = { resolved: 0, notFound: [], unavailable: 0 };
+  const lookup = async (raw: string): Promise<Coordinates | undefined> => {
+    const address = normalizeThreeWordAddress(raw);
+    if (!address) {
+      result.notFound.push(raw);
+      return undefined;
+    }
+    try {
+      return await provider.toCoordinates(address);
+    } catch (error) {
+      if (error instanceof ThreeWordAddressError && error.code === "not-found") result.notFound.push(address);
+      else result.unavailable++;
+      return undefined;
+    }
+  };
+
+  for (const checkIn of await store.getCheckInsMissingCoordinates()) {
+    const point = await lookup(checkIn.w3w!);
+    if (!point) continue;
+    await store.updateCheckInCoordinates(checkIn.id, point.lat, point.lng);
+    result.resolved++;
+  }
+
+  for (const space of await store.getLoaderSpacesMissingCoordinates()) {
+    const coordinates: LoaderSpaceCoordinates = {};
+    if (space.originW3W && (space.originLat === null || space.originLng === null)) {
+      const point = await lookup(space.originW3W);
+      if (point) Object.assign(coordinates, { originLat: point.lat, originLng: point.lng });
+    }
+    if (space.destW3W && (space.destLat === null || space.destLng === null)) {
+      const point = await lookup(space.destW3W);
+      if (point) Object.assign(coordinates, { destLat: point.lat, destLng: point.lng });
+    }
+    if (Object.keys(coordinates).length === 0) continue;
+    await store.updateLoaderSpaceCoordinates(space.id, coordinates);
+    result.resolved++;
+  }
+  return result;
+}
+
+export function createThreeWordProvider(env: NodeJS.ProcessEnv = process.env): ThreeWordProvider | undefined {
+  if (env.W3W_FIXTURES) return StubThreeWordProvider.fromFile(env.W3W_FIXTURES);
+  if (env.W3W_API_KEY) return new What3WordsProvider(env.W3W_API_KEY);
+  return undefined;
+}
+
+export const threeWords: ThreeWordProvider | undefined = createThreeWordProvider();
@@ -0,0 +1,14 @@
+// Badge progress as returned by GET /api/users/:userId/badges?includeProgress=true
+
+import type { Badge } from "./schema";
+
+export interface BadgeProgress {
+  badge: Badge;
+  earned: boolean;
+  earnedAt: Date | string | null;
+  progress: number; // 0-100
+  // e.g. 7 of 10 lifts, or 12 of 20 ratings while there aren't enough ratings to average yet
+  current: number;
+  target: number;
+  unit: string;
+}
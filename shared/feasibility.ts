@@ -0,0 +1,37 @@
+// Schedule feasibility
+// What the server says about a job before it is saved: hard errors (it can't be done as planned,
+// so it isn't saved) and warnings (it can, but it's tight or a long day). Shared so the job
+// dialogs can show them inline next to the fields they concern.
+
+export type FeasibilityCode =
+  | "invalid-times"
+  | "job-too-short"
+  | "overlap"
+  | "unreachable"
+  | "tight-connection"
+  | "working-day"
+  | "driving-hours";
+
+export interface FeasibilityIssue {
+  code: FeasibilityCode;
+  message: string;
+  // The form field to show it against
+  field?: "estimatedStartTime" | "estimatedEndTime";
+  // The other job involved in an overlap or connection
+  relatedJobId?: string;
+}
+
+export interface FeasibilityReport {
+  feasible: boolean;
+  errors: FeasibilityIssue[];
+  warnings: FeasibilityIssue[];
+}
+
+// Working Time Regulations: 11 hours' rest a day leaves at most 13 on duty. Driving beyond 10
+// hours in a day is flagged as a fatigue risk, as the GB domestic driving rules do for goods vehicles.
+export const MAX_WORKING_DAY_MINUTES = 13 * 60;
+export const MAX_DRIVING_MINUTES = 10 * 60;
+
+// Getting from a dropoff to the next pickup by lift or public transport takes longer than the
+// drive; a gap under this multiple of the driving time is flagged as tight
+export const REPOSITION_MARGIN = 1.5;
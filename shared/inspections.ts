@@ -0,0 +1,110 @@
+// Vehicle condition reports as captured by the check-in/check-out dialog and returned by
+// GET /api/jobs/:id/inspections
+
+import type { InspectionChecklistItem, InspectionDamage, InspectionPhoto, VehicleInspection } from "./schema";
+
+export const INSPECTION_STAGES = ["pickup", "dropoff"] as const;
+export type InspectionStage = (typeof INSPECTION_STAGES)[number];
+
+// The checklist the check-in/check-out dialog offers
+export const DEFAULT_CHECKLIST_ITEMS = [
+  "Tyres and wheels",
+  "Lights and indicators",
+  "Windscreen and glass",
+  "Wipers and washers",
+  "Mirrors",
+  "Bodywork",
+  "Interior",
+  "Dashboard warning lights",
+  "Keys and documents",
+  "Spare wheel and tools",
+];
+
+// Views of the vehicle diagram that damage is marked on
+export const DIAGRAM_VIEWS = ["front", "rear", "left", "right", "top"] as const;
+export type DiagramView = (typeof DIAGRAM_VIEWS)[number];
+
+export const DAMAGE_TYPES = ["scratch", "dent", "chip", "crack", "scuff", "missing"] as const;
+export const DAMAGE_SEVERITIES = ["minor", "moderate", "major"] as const;
+
+export const FUEL_EIGHTHS = 8;
+
+// Outlines drawn for each view, as polylines in fractions of the view's width and height (y down),
+// so the app's diagram and the PDF report show the same shapes under the same marker positions
+const mirror = (lines: [number, number][][]) => lines.map((line) => line.map(([x, y]): [number, number] => [1 - x, y]));
+const wheel = (cx: number, cy: number, r: number): [number, number][] =>
+  Array.from({ length: 9 }, (_, i) => [cx + r * Math.cos((i * Math.PI) / 4), cy + r * 2 * Math.sin((i * Math.PI) / 4)]);
+const SIDE: [number, number][][] = [
+  [[0.04, 0.72], [0.04, 0.5], [0.2, 0.44], [0.32, 0.2], [0.66, 0.2], [0.8, 0.44], [0.96, 0.5], [0.96, 0.72], [0.04, 0.72]],
+  [[0.34, 0.26], [0.64, 0.26], [0.74, 0.44], [0.26, 0.44], [0.34, 0.26]],
+  wheel(0.22, 0.74, 0.07),
+  wheel(0.78, 0.74, 0.07),
+];
+const END: [number, number][][] = [
+  [[0.1, 0.78], [0.1, 0.46], [0.2, 0.4], [0.28, 0.14], [0.72, 0.14], [0.8, 0.4], [0.9, 0.46], [0.9, 0.78], [0.1, 0.78]],
+  [[0.3, 0.2], [0.7, 0.2], [0.76, 0.4], [0.24, 0.4], [0.3, 0.2]],
+  [[0.14, 0.78], [0.14, 0.9], [0.28, 0.9], [0.28, 0.78]],
+  [[0.72, 0.78], [0.72, 0.9], [0.86, 0.9], [0.86, 0.78]],
+];
+export const DIAGRAM_OUTLINES: Record<DiagramView, [number, number][][]> = {
+  left: SIDE,
+  right: mirror(SIDE),
+  front: END,
+  rear: END,
+  top: [
+    [[0.32, 0.04], [0.68, 0.04], [0.8, 0.14], [0.8, 0.86], [0.68, 0.96], [0.32, 0.96], [0.2, 0.86], [0.2, 0.14], [0.32, 0.04]],
+    [[0.24, 0.3], [0.76, 0.3]],
+    [[0.24, 0.78], [0.76, 0.78]],
+  ],
+};
+
+// Signatures are drawn in this box and stored as an SVG path of M and L commands
+export const SIGNATURE_WIDTH = 300;
+export const SIGNATURE_HEIGHT = 100;
+
+// The strokes of a signature path; undefined if it isn't only M/L commands inside the box
+export function parseSignaturePath(path: string): [number, number][][] | undefined {
+  const command = /\s*([ML])\s*(\d+(?:\.\d+)?)[\s,]+(\d+(?:\.\d+)?)/g;
+  const strokes: [number, number][][] = [];
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+  while ((match = command.exec(path)) !== null) {
+    // Commands must follow each other with nothing else in between
+    if (match.index !== consumed) return undefined;
+    const point: [number, number] = [Number(match[2]), Number(match[3])];
+    if (point[0] > SIGNATURE_WIDTH || point[1] > SIGNATURE_HEIGHT) return undefined;
+    if (match[1] === "M") strokes.push([point]);
+    else if (strokes.length === 0) return undefined;
+    else strokes[strokes.length - 1].push(point);
+    consumed = command.lastIndex;
+  }
+  if (strokes.length === 0 || path.slice(consumed).trim() !== "") return undefined;
+  return strokes;
+}
+
+export type InspectionPhotoView = Omit<InspectionPhoto, "blobKey"> & { url: string };
+
+export interface VehicleInspectionDetails extends VehicleInspection {
+  checklist: InspectionChecklistItem[];
+  damage: InspectionDamage[];
+  photos: InspectionPhoto[];
+}
+
+// What the owner and the report see; blob keys stay on the server
+export interface VehicleInspectionView extends Omit<VehicleInspectionDetails, "photos"> {
+  photos: InspectionPhotoView[];
+}
+
+export interface InspectionComparison {
+  newDamage: InspectionDamage[]; // Marked at dropoff with nothing close by on the same view at pickup
+  existingDamage: InspectionDamage[]; // Marked at dropoff and already there at pickup
+  checklistFailures: string[]; // Items that passed at pickup and failed at dropoff
+  milesDriven: number | null;
+  fuelChange: number | null; // Eighths of a tank; negative when fuel was used
+}
+
+export interface JobInspections {
+  pickup: VehicleInspectionView | null;
+  dropoff: VehicleInspectionView | null;
+  comparison: InspectionComparison | null; // Once both have been recorded
+}
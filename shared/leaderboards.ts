@@ -0,0 +1,34 @@
+// Leaderboards as returned by GET /api/leaderboards
+
+export const LEADERBOARD_PERIODS = ["weekly", "monthly", "all-time"] as const;
+export type LeaderboardPeriod = (typeof LEADERBOARD_PERIODS)[number];
+// Reputation tiers, lowest first; a board can be limited to one
+export const LEADERBOARD_TIERS = ["bronze", "silver", "gold", "platinum"] as const;
+export type LeaderboardTier = (typeof LEADERBOARD_TIERS)[number];
+
+export interface LeaderboardEntry {
+  rank: number; // Equal points share a rank
+  userId: string;
+  name: string;
+  callSign: string;
+  avatar: string | null;
+  tier: string | null;
+  region: string | null;
+  points: number;
+}
+
+export interface Leaderboard {
+  period: LeaderboardPeriod;
+  region: string | null;
+  tier: LeaderboardTier | null;
+  since: Date | string | null; // null for all-time
+  page: number;
+  pageSize: number;
+  totalEntries: number;
+  totalPages: number;
+  entries: LeaderboardEntry[];
+  // Regions with anyone on this period's board, for picking one
+  regions: string[];
+  // The asking user's own entry wherever it falls, or null when they're not listed
+  currentUser?: LeaderboardEntry | null;
+}
@@ -0,0 +1,120 @@
+// Realtime protocol
+// Messages exchanged over /ws. Private notifications go to a single user's sockets; anything
+// meant for "whoever is looking" is published to a topic that clients subscribe to.
+// Client messages are validated with the schemas below; they may carry a protocol version `v`
+// (defaults to the current one) and an `id` that the server echoes back in its ack or error.
+
+import { z } from "zod";
+
+export const PROTOCOL_VERSION = 1;
+
+// Region cells are 0.25° squares (roughly 28 km north–south, 17 km east–west in the UK)
+export const REGION_CELL_DEGREES = 0.25;
+
+export const TOPIC_PATTERN = /^(region:-?\d+:-?\d+|lift-offer:[\w-]{1,64})$/;
+
+function regionCell(value: number): number {
+  return Math.floor(value / REGION_CELL_DEGREES);
+}
+
+export function regionTopic(lat: number, lng: number): string {
+  return `region:${regionCell(lat)}:${regionCell(lng)}`;
+}
+
+// The cell containing a point plus its eight neighbours, so nearby events just over a cell edge arrive
+export function regionTopicsAround(lat: number, lng: number): string[] {
+  const latCell = regionCell(lat);
+  const lngCell = regionCell(lng);
+  const topics: string[] = [];
+  for (let dLat = -1; dLat <= 1; dLat++) {
+    for (let dLng = -1; dLng <= 1; dLng++) {
+      topics.push(`region:${latCell + dLat}:${lngCell + dLng}`);
+    }
+  }
+  return topics;
+}
+
+export function liftOfferTopic(offerId: string): string {
+  return `lift-offer:${offerId}`;
+}
+
+// ---------- Client → server ----------
+
+const envelope = {
+  v: z.number().int().positive().optional(),
+  id: z.string().max(64).optional(),
+};
+
+// Just the envelope, so a rejected message's id can still be echoed back with the error
+export const clientEnvelopeSchema = z.object(envelope);
+
+export const locationMessageSchema = z.object({
+  ...envelope,
+  type: z.literal("location"),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  speedKph: z.number().min(0).max(250).optional(),
+  // null when the device has no heading, e.g. while stationary
+  bearingDeg: z.number().min(0).max(360).nullable().optional(),
+  accuracyM: z.number().min(0).optional(),
+});
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  locationMessageSchema,
+  z.object({ ...envelope, type: z.literal("ping") }),
+  z.object({ ...envelope, type: z.literal("subscribe"), topic: z.string().regex(TOPIC_PATTERN) }),
+  z.object({ ...envelope, type: z.literal("unsubscribe"), topic: z.string().regex(TOPIC_PATTERN) }),
+]);
+
+export type LocationMessage = z.infer<typeof locationMessageSchema>;
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+// ---------- Server → client ----------
+
+export type ErrorCode = "invalid-json" | "invalid-message" | "unsupported-version" | "rate-limited" | "too-many-topics";
+
+export interface AckMessage {
+  type: "ack";
+  v: typeof PROTOCOL_VERSION;
+  id?: string;
+  of: ClientMessage["type"];
+}
+
+export interface PongMessage {
+  type: "pong";
+  v: typeof PROTOCOL_VERSION;
+  id?: string;
+  serverTime: string;
+}
+
+export interface ErrorMessage {
+  type: "error";
+  v: typeof PROTOCOL_VERSION;
+  id?: string;
+  code: ErrorCode;
+  message: string;
+  retryAfterMs?: number;
+}
+
+// A driver's live position, published to the region it falls in
+export interface DriverPositionMessage {
+  type: "driver-position";
+  driverId: string;
+  lat: number;
+  lng: number;
+  speedKph: number | null;
+  bearingDeg: number | null;
+  timestamp: string;
+}
+
+export interface LivePosition {
+  userId: string;
+  lat: number;
+  lng: number;
+  speedKph: number | null;
+  bearingDeg: number | null;
+  accuracyM: number | null;
+  updatedAt: string;
+}
+
+export type ServerMessage = AckMessage | PongMessage | ErrorMessage | DriverPositionMessage;
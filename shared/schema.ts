@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, real, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, real, integer, boolean, unique, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -15,11 +15,17 @@ export const users = pgTable("users", {
   role: text("role").notNull().default("user"), // user, moderator, admin
   driverType: text("driver_type").notNull().default("driver"), // driver, lowloader, liftseeker, business
   paymentPreference: text("payment_preference").default("subscription"), // subscription, per_job
-  tradePlateDoc: text("trade_plate_doc"), // URL to uploaded document
-  insuranceDoc: text("insurance_doc"), // URL to uploaded document
+  tradePlateDoc: text("trade_plate_doc"), // URL of the approved, unexpired document
+  insuranceDoc: text("insurance_doc"), // URL of the approved, unexpired document
   rating: real("rating").default(0),
   totalTrips: integer("total_trips").default(0),
-  verified: boolean("verified").default(false),
+  verified: boolean("verified").default(false), // Both documents approved and in date
+  leaderboardOptOut: boolean("leaderboard_opt_out").notNull().default(false), // Hidden from leaderboards
+  
+  // Moderation fields
+  accountStatus: text("account_status").notNull().default("active"), // active, suspended, banned
+  suspendedUntil: timestamp("suspended_until"),
+  warningCount: integer("warning_count").notNull().default(0),
   
   // Subscription fields
   stripeCustomerId: text("stripe_customer_id").unique(),
@@ -50,12 +56,17 @@ export const jobs = pgTable("jobs", {
   estimatedEndTime: timestamp("estimated_end_time").notNull(),
   actualStartTime: timestamp("actual_start_time"),
   actualEndTime: timestamp("actual_end_time"),
+  // When the server got the check-in and check-out; the actual times are earlier for ones queued offline
+  checkInReceivedAt: timestamp("check_in_received_at"),
+  checkOutReceivedAt: timestamp("check_out_received_at"),
   checkInLat: real("check_in_lat"),
   checkInLng: real("check_in_lng"),
   checkOutLat: real("check_out_lat"),
   checkOutLng: real("check_out_lng"),
   status: text("status").notNull().default("pending"),
   orderInSchedule: integer("order_in_schedule").notNull(),
+  tradePlateNumber: text("trade_plate_number"), // Trade plate the vehicle is moved under
+  vehicleRegistration: text("vehicle_registration"), // Registration (or VIN) of the vehicle moved
 });
 
 export const liftOffers = pgTable("lift_offers", {
@@ -79,11 +90,21 @@ export const liftOffers = pgTable("lift_offers", {
   vehicleType: text("vehicle_type").default("Hatchback"), // Hatchback, Van, Other
   visibility: text("visibility").default("Everyone"), // Everyone, Followers
   repeatPattern: text("repeat_pattern").default("None"), // None, Weekdays, Weekends, Custom
-  autoGenerated: boolean("auto_generated").default(false), // Generated from driver availability
+  autoGenerated: boolean("auto_generated").default(false), // Generated from a recurring template or driver availability
+  // Recurring offers: the template holds the rule (status "recurring") and each dated occurrence
+  // links back to it. occurrenceDate is the local date the rule produced, kept when a single
+  // occurrence is moved so it isn't generated again.
+  recurrenceRule: text("recurrence_rule"), // RRULE subset, e.g. FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20250630
+  templateId: varchar("template_id").references((): AnyPgColumn => liftOffers.id, { onDelete: "set null" }),
+  occurrenceDate: text("occurrence_date"), // YYYY-MM-DD
+  // Offers derived from a schedule: the job whose leg the driver is driving anyway
+  sourceJobId: varchar("source_job_id").references(() => jobs.id, { onDelete: "set null" }),
   status: text("status").notNull().default("available"),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  unique("lift_offers_template_occurrence_unique").on(table.templateId, table.occurrenceDate),
+]);
 
 export const liftRequests = pgTable("lift_requests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -101,11 +122,54 @@ export const liftRequests = pgTable("lift_requests", {
   latestArrive: timestamp("latest_arrive"), // New: time window end
   hasBagsKit: boolean("has_bags_kit").default(false),
   maxBudget: real("max_budget"), // Maximum willing to pay in £
+  autoGenerated: boolean("auto_generated").default(false), // Derived from the requester's schedule
+  // Requests derived from a schedule: the job whose dropoff starts the dead-leg to the next pickup
+  sourceJobId: varchar("source_job_id").references(() => jobs.id, { onDelete: "set null" }),
   status: text("status").default("active"),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Seat bookings against a lift offer: requested → accepted → picked-up → completed (or cancelled / no-show)
+export const liftBookings = pgTable("lift_bookings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  offerId: varchar("offer_id").notNull().references(() => liftOffers.id, { onDelete: "restrict" }), // Booked offers are cancelled, never deleted
+  requestId: varchar("request_id").references(() => liftRequests.id, { onDelete: "set null" }), // Optional matched request
+  passengerId: varchar("passenger_id").notNull().references(() => users.id),
+  seats: integer("seats").notNull().default(1),
+  status: text("status").notNull().default("requested"), // requested, accepted, picked-up, completed, cancelled, no-show
+  message: text("message"),
+  cancelledBy: varchar("cancelled_by").references(() => users.id), // Driver (declined) or passenger (withdrew)
+  createdAt: timestamp("created_at").defaultNow(),
+  acceptedAt: timestamp("accepted_at"),
+  pickedUpAt: timestamp("picked_up_at"),
+  completedAt: timestamp("completed_at"),
+  cancelledAt: timestamp("cancelled_at"),
+});
+
+// Saved "watch" on an active lift offer or request; new counterpart posts are scored against it
+export const matchSubscriptions = pgTable("match_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  liftOfferId: varchar("lift_offer_id").references(() => liftOffers.id, { onDelete: "cascade" }),
+  liftRequestId: varchar("lift_request_id").references(() => liftRequests.id, { onDelete: "cascade" }),
+  minScore: integer("min_score").notNull().default(60), // Alert threshold, 0-100
+  status: text("status").notNull().default("active"), // active, fulfilled, expired, cancelled
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One alert per offer/request pair, so both parties hear about a match exactly once
+export const liftMatchAlerts = pgTable("lift_match_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  offerId: varchar("offer_id").notNull().references(() => liftOffers.id, { onDelete: "cascade" }),
+  requestId: varchar("request_id").notNull().references(() => liftRequests.id, { onDelete: "cascade" }),
+  score: integer("score").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("lift_match_alerts_offer_request_unique").on(table.offerId, table.requestId),
+]);
+
 export const messages = pgTable("messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   senderId: varchar("sender_id").notNull().references(() => users.id),
@@ -113,23 +177,33 @@ export const messages = pgTable("messages", {
   content: text("content").notNull(),
   read: boolean("read").default(false),
   createdAt: timestamp("created_at").defaultNow(),
+  receivedAt: timestamp("received_at").defaultNow(), // Later than createdAt for a message queued offline
 });
 
-// Ratings for shared lifts
+// Ratings for shared lifts: each participant in a completed booking rates the other once
 export const ratings = pgTable("ratings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   raterId: varchar("rater_id").notNull().references(() => users.id),
   ratedUserId: varchar("rated_user_id").notNull().references(() => users.id),
-  liftType: text("lift_type").notNull(), // 'offer' or 'request'
-  liftId: varchar("lift_id").notNull(), // ID of the lift offer or request
+  liftType: text("lift_type").notNull(), // 'offer' (rating the driver) or 'request' (rating the passenger)
+  liftId: varchar("lift_id").notNull(), // ID of the lift booking (older ratings: the lift offer or request)
   stars: integer("stars").notNull(), // 1-5
   punctuality: integer("punctuality"), // 1-5
   professionalism: integer("professionalism"), // 1-5
   communication: integer("communication"), // 1-5
   vehicleCondition: integer("vehicle_condition"), // 1-5 (for offers only)
   comment: text("comment"),
+  // Disputes: the rated user appeals once, a moderator upholds the rating or removes it
+  status: text("status").notNull().default("active"), // active, disputed, removed, superseded (a repeat rating from before the one-per-lift rule)
+  disputeReason: text("dispute_reason"),
+  disputedAt: timestamp("disputed_at"),
+  resolvedBy: varchar("resolved_by").references(() => users.id), // Moderator who decided the dispute
+  resolutionNotes: text("resolution_notes"),
+  resolvedAt: timestamp("resolved_at"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("ratings_rater_lift_unique").on(table.raterId, table.liftId).where(sql`${table.status} <> 'superseded'`),
+]);
 
 // User statistics and reputation
 export const userStats = pgTable("user_stats", {
@@ -146,9 +220,23 @@ export const userStats = pgTable("user_stats", {
   currentStreak: integer("current_streak").default(0),
   longestStreak: integer("longest_streak").default(0),
   lastActivityDate: timestamp("last_activity_date"),
+  homeRegion: text("home_region"), // Region of the user's usual check-in locations, for regional leaderboards
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Every award of points and why; userStats.totalPoints is the sum of a user's entries.
+// One entry per (user, reason, source), so replaying an event can't award its points twice.
+export const pointsLedger = pgTable("points_ledger", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  points: integer("points").notNull(),
+  reason: text("reason").notNull(), // lift-driven, lift-ridden, job-completed, on-time-delivery, badge-earned, opening-balance
+  sourceId: varchar("source_id").notNull(), // The booking, job or badge the points were for
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("points_ledger_user_reason_source_unique").on(table.userId, table.reason, table.sourceId),
+]);
+
 // Badge catalog
 export const badges = pgTable("badges", {
   id: varchar("id").primaryKey(),
@@ -179,6 +267,7 @@ export const reports = pgTable("reports", {
   status: text("status").notNull().default("pending"), // pending, reviewed, action_taken, dismissed
   reviewedBy: varchar("reviewed_by").references(() => users.id), // admin who reviewed
   reviewNotes: text("review_notes"),
+  action: text("action"), // warn, suspend, ban - taken against the reported user
   createdAt: timestamp("created_at").defaultNow(),
   reviewedAt: timestamp("reviewed_at"),
 });
@@ -189,6 +278,123 @@ export const blocks = pgTable("blocks", {
   blockerId: varchar("blocker_id").notNull().references(() => users.id),
   blockedUserId: varchar("blocked_user_id").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("blocks_blocker_blocked_unique").on(table.blockerId, table.blockedUserId),
+]);
+
+// DVLA trade plate record: one entry per vehicle moved under a plate, built from checked-in jobs.
+// Entries outlive their job; drivers can correct them, and every change is kept in tradePlateLogEdits.
+export const tradePlateLogEntries = pgTable("trade_plate_log_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  jobId: varchar("job_id").unique().references(() => jobs.id, { onDelete: "set null" }),
+  date: text("date").notNull(), // YYYY-MM-DD (local) the movement started
+  plateNumber: text("plate_number").notNull(),
+  vehicleRegistration: text("vehicle_registration"),
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time"),
+  startLocation: text("start_location").notNull(),
+  endLocation: text("end_location").notNull(),
+  purpose: text("purpose").notNull().default("Delivery"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One row per field a driver changed on a log entry
+export const tradePlateLogEdits = pgTable("trade_plate_log_edits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entryId: varchar("entry_id").notNull().references(() => tradePlateLogEntries.id),
+  editedBy: varchar("edited_by").notNull().references(() => users.id),
+  field: text("field").notNull(),
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  reason: text("reason").notNull(),
+  editedAt: timestamp("edited_at").defaultNow(),
+});
+
+// Vehicle condition recorded at check-in (pickup) and check-out (dropoff); kept if the job goes
+export const vehicleInspections = pgTable("vehicle_inspections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").references(() => jobs.id, { onDelete: "set null" }),
+  userId: varchar("user_id").notNull().references(() => users.id), // driver who inspected
+  stage: text("stage").notNull(), // pickup, dropoff
+  mileage: integer("mileage"), // odometer reading
+  fuelLevel: integer("fuel_level"), // eighths of a tank, 0-8
+  notes: text("notes"),
+  signatureName: text("signature_name"), // customer who signed
+  signaturePath: text("signature_path"), // SVG path of the signature, in a 300x100 box
+  signedAt: timestamp("signed_at"),
+  lat: real("lat"),
+  lng: real("lng"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("vehicle_inspections_job_stage_unique").on(table.jobId, table.stage),
+]);
+
+export const inspectionChecklistItems = pgTable("inspection_checklist_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  inspectionId: varchar("inspection_id").notNull().references(() => vehicleInspections.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  item: text("item").notNull(),
+  passed: boolean("passed").notNull(),
+  note: text("note"),
+});
+
+// Damage markers on the vehicle diagram; x and y are fractions of the view's width and height
+export const inspectionDamage = pgTable("inspection_damage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  inspectionId: varchar("inspection_id").notNull().references(() => vehicleInspections.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  view: text("view").notNull(), // front, rear, left, right, top
+  x: real("x").notNull(),
+  y: real("y").notNull(),
+  type: text("type").notNull(), // scratch, dent, chip, crack, scuff, missing
+  severity: text("severity").notNull().default("minor"), // minor, moderate, major
+  note: text("note"),
+});
+
+// Photos taken during an inspection; the file itself is in the blob store
+export const inspectionPhotos = pgTable("inspection_photos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  inspectionId: varchar("inspection_id").notNull().references(() => vehicleInspections.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  blobKey: text("blob_key").notNull(),
+  contentType: text("content_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  caption: text("caption"),
+});
+
+// The first response to each mutation sent with an Idempotency-Key header, so a repeat of the
+// request (the app's offline queue replaying it) gets that response back instead of applying twice
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  key: varchar("key").primaryKey(),
+  userId: varchar("user_id"), // session user when the request was made, if signed in
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  requestHash: text("request_hash").notNull(), // sha256 of the body; a different body with the same key is refused
+  statusCode: integer("status_code"), // null while the first request is still being handled
+  response: text("response"), // JSON body
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Trade plate and insurance documents uploaded for verification; the file itself is in the blob store
+export const userDocuments = pgTable("user_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  type: text("type").notNull(), // trade_plate, insurance
+  documentNumber: text("document_number").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  blobKey: text("blob_key").notNull(),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  status: text("status").notNull().default("pending"), // pending, approved, rejected, expired, superseded
+  reviewedBy: varchar("reviewed_by").references(() => users.id), // moderator who approved or rejected it
+  reviewedAt: timestamp("reviewed_at"),
+  rejectionReason: text("rejection_reason"),
+  reminderDays: integer("reminder_days"), // Days before expiry of the latest reminder sent
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Check-ins for real-time availability
@@ -295,6 +501,7 @@ export const updateUserProfileSchema = z.object({
   name: z.string().min(1, "Name is required").optional(),
   email: z.string().email("Invalid email address").optional().or(z.literal("")),
   phone: z.string().min(10, "Phone number must be at least 10 digits").optional().or(z.literal("")),
+  leaderboardOptOut: z.boolean().optional(),
 });
 
 export const insertScheduleSchema = createInsertSchema(schedules).omit({
@@ -302,10 +509,17 @@ export const insertScheduleSchema = createInsertSchema(schedules).omit({
   createdAt: true,
 });
 
+// Plates and registrations are kept in capitals with single spaces; blank means none
+export const vehicleIdentifierSchema = z.string().max(20)
+  .transform((value) => value.trim().replace(/\s+/g, " ").toUpperCase() || null)
+  .nullish();
+
 export const insertJobSchema = createInsertSchema(jobs).omit({
   id: true,
   actualStartTime: true,
   actualEndTime: true,
+  checkInReceivedAt: true,
+  checkOutReceivedAt: true,
   checkInLat: true,
   checkInLng: true,
   checkOutLat: true,
@@ -319,6 +533,8 @@ export const insertJobSchema = createInsertSchema(jobs).omit({
     z.date(), 
     z.string().min(1, "End time is required").pipe(z.coerce.date())
   ]),
+  tradePlateNumber: vehicleIdentifierSchema,
+  vehicleRegistration: vehicleIdentifierSchema,
 });
 
 export const insertLiftOfferSchema = createInsertSchema(liftOffers).omit({
@@ -357,13 +573,43 @@ export const insertLiftRequestSchema = createInsertSchema(liftRequests).omit({
   ]).optional(),
 });
 
+export const insertLiftBookingSchema = createInsertSchema(liftBookings).omit({
+  id: true,
+  status: true,
+  cancelledBy: true,
+  createdAt: true,
+  acceptedAt: true,
+  pickedUpAt: true,
+  completedAt: true,
+  cancelledAt: true,
+}).extend({
+  seats: z.number().int().min(1).max(8).optional(),
+});
+
+export const insertMatchSubscriptionSchema = createInsertSchema(matchSubscriptions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLiftMatchAlertSchema = createInsertSchema(liftMatchAlerts).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertMessageSchema = createInsertSchema(messages).omit({
   id: true,
   createdAt: true,
+  receivedAt: true,
 });
 
 export const insertRatingSchema = createInsertSchema(ratings).omit({
   id: true,
+  status: true,
+  disputeReason: true,
+  disputedAt: true,
+  resolvedBy: true,
+  resolutionNotes: true,
+  resolvedAt: true,
   createdAt: true,
 }).extend({
   stars: z.number().min(1).max(5),
@@ -377,6 +623,11 @@ export const insertUserStatsSchema = createInsertSchema(userStats).omit({
   updatedAt: true,
 });
 
+export const insertPointsLedgerEntrySchema = createInsertSchema(pointsLedger).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertBadgeSchema = createInsertSchema(badges);
 
 export const insertUserBadgeSchema = createInsertSchema(userBadges).omit({
@@ -385,9 +636,65 @@ export const insertUserBadgeSchema = createInsertSchema(userBadges).omit({
 });
 
 export const insertReportSchema = createInsertSchema(reports).omit({
+  id: true,
+  status: true,
+  reviewedBy: true,
+  reviewNotes: true,
+  action: true,
+  createdAt: true,
+  reviewedAt: true,
+});
+
+export const insertTradePlateLogEntrySchema = createInsertSchema(tradePlateLogEntries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTradePlateLogEditSchema = createInsertSchema(tradePlateLogEdits).omit({
+  id: true,
+  editedAt: true,
+});
+
+export const insertVehicleInspectionSchema = createInsertSchema(vehicleInspections).omit({
   id: true,
   createdAt: true,
+});
+
+// The rows that belong to an inspection are inserted with it
+export const insertInspectionChecklistItemSchema = createInsertSchema(inspectionChecklistItems).omit({
+  id: true,
+  inspectionId: true,
+  position: true,
+});
+
+export const insertInspectionDamageSchema = createInsertSchema(inspectionDamage).omit({
+  id: true,
+  inspectionId: true,
+  position: true,
+});
+
+export const insertInspectionPhotoSchema = createInsertSchema(inspectionPhotos).omit({
+  id: true,
+  inspectionId: true,
+  position: true,
+});
+
+export const insertIdempotencyKeySchema = createInsertSchema(idempotencyKeys).omit({
+  statusCode: true,
+  response: true,
+  createdAt: true,
+  completedAt: true,
+});
+
+export const insertUserDocumentSchema = createInsertSchema(userDocuments).omit({
+  id: true,
+  status: true,
+  reviewedBy: true,
   reviewedAt: true,
+  rejectionReason: true,
+  reminderDays: true,
+  createdAt: true,
 });
 
 export const insertBlockSchema = createInsertSchema(blocks).omit({
@@ -453,6 +760,15 @@ export type LiftOffer = typeof liftOffers.$inferSelect;
 export type InsertLiftRequest = z.infer<typeof insertLiftRequestSchema>;
 export type LiftRequest = typeof liftRequests.$inferSelect;
 
+export type InsertLiftBooking = z.infer<typeof insertLiftBookingSchema>;
+export type LiftBooking = typeof liftBookings.$inferSelect;
+
+export type InsertMatchSubscription = z.infer<typeof insertMatchSubscriptionSchema>;
+export type MatchSubscription = typeof matchSubscriptions.$inferSelect;
+
+export type InsertLiftMatchAlert = z.infer<typeof insertLiftMatchAlertSchema>;
+export type LiftMatchAlert = typeof liftMatchAlerts.$inferSelect;
+
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
 
@@ -462,6 +778,9 @@ export type Rating = typeof ratings.$inferSelect;
 export type InsertUserStats = z.infer<typeof insertUserStatsSchema>;
 export type UserStats = typeof userStats.$inferSelect;
 
+export type InsertPointsLedgerEntry = z.infer<typeof insertPointsLedgerEntrySchema>;
+export type PointsLedgerEntry = typeof pointsLedger.$inferSelect;
+
 export type InsertBadge = z.infer<typeof insertBadgeSchema>;
 export type Badge = typeof badges.$inferSelect;
 
@@ -474,6 +793,30 @@ export type Report = typeof reports.$inferSelect;
 export type InsertBlock = z.infer<typeof insertBlockSchema>;
 export type Block = typeof blocks.$inferSelect;
 
+export type InsertTradePlateLogEntry = z.infer<typeof insertTradePlateLogEntrySchema>;
+export type TradePlateLogEntry = typeof tradePlateLogEntries.$inferSelect;
+
+export type InsertTradePlateLogEdit = z.infer<typeof insertTradePlateLogEditSchema>;
+export type TradePlateLogEdit = typeof tradePlateLogEdits.$inferSelect;
+
+export type InsertVehicleInspection = z.infer<typeof insertVehicleInspectionSchema>;
+export type VehicleInspection = typeof vehicleInspections.$inferSelect;
+
+export type InsertInspectionChecklistItem = z.infer<typeof insertInspectionChecklistItemSchema>;
+export type InspectionChecklistItem = typeof inspectionChecklistItems.$inferSelect;
+
+export type InsertInspectionDamage = z.infer<typeof insertInspectionDamageSchema>;
+export type InspectionDamage = typeof inspectionDamage.$inferSelect;
+
+export type InsertInspectionPhoto = z.infer<typeof insertInspectionPhotoSchema>;
+export type InspectionPhoto = typeof inspectionPhotos.$inferSelect;
+
+export type InsertIdempotencyKey = z.infer<typeof insertIdempotencyKeySchema>;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+
+export type InsertUserDocument = z.infer<typeof insertUserDocumentSchema>;
+export type UserDocument = typeof userDocuments.$inferSelect;
+
 export type InsertCheckIn = z.infer<typeof insertCheckInSchema>;
 export type CheckIn = typeof checkIns.$inferSelect;
 
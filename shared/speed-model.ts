@@ -0,0 +1,47 @@
+// Journey speed model shared by the offline routing provider, the AI planner and client-side estimates.
+// Distances in are straight-line miles; a road factor turns them into road miles, which are driven
+// at urban speed for the first miles, then mixed suburban, then motorway speed for the remainder.
+
+// UK road networks add roughly a quarter to the crow-flies distance
+export const ROAD_FACTOR = 1.25;
+
+// Required for every pickup before the vehicle can be driven away
+export const INSPECTION_TIME_MINUTES = 45;
+
+// Cumulative bands: a 50 mile journey is 15 miles urban, 25 mixed and 10 on the motorway
+const SPEED_BANDS = [
+  { miles: 15, mph: 22 },
+  { miles: 25, mph: 32 },
+  { miles: Infinity, mph: 50 },
+];
+
+// Weekday and weekend rush hours alike: 07:00–09:59 and 16:00–18:59 local time
+const PEAK_FACTOR = 1.25;
+
+export function isPeakHour(hour: number): boolean {
+  return (hour >= 7 && hour <= 9) || (hour >= 16 && hour <= 18);
+}
+
+export function roadMiles(straightLineMiles: number): number {
+  return straightLineMiles * ROAD_FACTOR;
+}
+
+// Driving minutes for a road distance, slowed in rush hour when the departure is known
+export function driveMinutesForRoadMiles(miles: number, departure?: Date): number {
+  if (miles <= 0) return 0;
+  let remaining = miles;
+  let hours = 0;
+  for (const band of SPEED_BANDS) {
+    const driven = Math.min(remaining, band.miles);
+    hours += driven / band.mph;
+    remaining -= driven;
+    if (remaining <= 0) break;
+  }
+  const factor = departure && isPeakHour(departure.getHours()) ? PEAK_FACTOR : 1;
+  return Math.max(1, Math.ceil(hours * 60 * factor));
+}
+
+// Driving minutes between two points given their straight-line distance
+export function estimateDriveMinutes(straightLineMiles: number, departure?: Date): number {
+  return driveMinutesForRoadMiles(roadMiles(straightLineMiles), departure);
+}
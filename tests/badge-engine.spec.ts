@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test';
+import { MemStorage } from '../server/storage';
+import { badgeProgress, evaluateBadgeRule, evaluateBadges } from '../server/badge-engine';
+import { DEMO_BADGES } from '../server/demo-data';
+import { DAY } from './fixtures/time';
+
+const now = new Date('2025-03-05T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY);
+
+async function driverWithStats() {
+  const storage = new MemStorage();
+  for (const badge of DEMO_BADGES) await storage.createBadge(badge);
+  const driver = await storage.createUser({ username: 'plates', password: 'hashed', name: 'Trade Plates' });
+  await storage.createUserStats(driver.id);
+  return { storage, driver };
+}
+
+test('stores progress towards milestones and awards them on the events that matter', async () => {
+  const { storage, driver } = await driverWithStats();
+  await storage.updateUserStats(driver.id, { totalLiftsShared: 7 });
+
+  const { awarded, progress } = await evaluateBadges(storage, driver.id);
+  expect(awarded.map(b => b.badgeId)).toEqual(['first-lift']);
+  expect(progress.find(p => p.badge.id === '10-lifts')).toMatchObject({ earned: false, progress: 70, current: 7, target: 10, unit: 'lifts' });
+  expect(progress.find(p => p.badge.id === '5-star-pro')).toMatchObject({ progress: 0, current: 0, target: 20, unit: 'ratings' });
+  // Every ruled badge in the catalog is reported
+  expect(progress).toHaveLength(10);
+
+  // Progress is kept on unearned rows, which don't count as earned badges
+  const rows = await storage.getUserBadgeProgress(driver.id);
+  const tenLifts = rows.find(r => r.badgeId === '10-lifts');
+  expect(tenLifts).toMatchObject({ progress: 70, earnedAt: null });
+  expect((await storage.getUserBadges(driver.id)).map(b => b.badgeId)).toEqual(['first-lift']);
+
+  // A message doesn't re-check lift milestones; a completed lift does, earning the same row
+  await storage.updateUserStats(driver.id, { totalLiftsShared: 10 });
+  expect(await storage.checkAndAwardBadges(driver.id, 'message')).toEqual([]);
+  const earned = await storage.checkAndAwardBadges(driver.id, 'lift-completed');
+  expect(earned.map(b => [b.id, b.badgeId, b.progress])).toEqual([[tenLifts!.id, '10-lifts', 100]]);
+  expect(await storage.awardBadge(driver.id, '10-lifts')).toBeNull();
+  expect(await storage.setBadgeProgress(driver.id, '10-lifts', 50)).toBeUndefined();
+});
+
+test('reading progress awards nothing and stores nothing', async () => {
+  const { storage, driver } = await driverWithStats();
+  await storage.updateUserStats(driver.id, { totalLiftsShared: 7 });
+
+  const progress = await badgeProgress(storage, driver.id, now);
+  expect(progress).toHaveLength(10);
+  expect(progress.find(p => p.badge.id === 'first-lift')).toMatchObject({ earned: false, met: true, progress: 100 });
+  expect(progress.find(p => p.badge.id === '10-lifts')).toMatchObject({ earned: false, progress: 70, current: 7 });
+  expect(await storage.getUserBadgeProgress(driver.id)).toEqual([]);
+
+  // Once an event has awarded it, the badge shows as earned
+  await storage.checkAndAwardBadges(driver.id, 'lift-completed');
+  expect((await badgeProgress(storage, driver.id, now)).find(p => p.badge.id === 'first-lift')).toMatchObject({ earned: true, progress: 100 });
+});
+
+test('needs enough samples in the window before averages count', async () => {
+  const { storage, driver } = await driverWithStats();
+  const rater = await storage.createUser({ username: 'rater', password: 'hashed', name: 'Rater' });
+  for (let i = 0; i < 5; i++) {
+    await storage.createRating({ raterId: rater.id, ratedUserId: driver.id, liftType: 'offer', liftId: `lift-${i}`, stars: 5 });
+  }
+
+  // Five 5-star ratings this week, but nowhere near the twenty an average needs
+  expect((await storage.getUserBadges(driver.id)).map(b => b.badgeId)).toEqual(['perfect-week']);
+  const { progress } = await evaluateBadges(storage, driver.id);
+  expect(progress.find(p => p.badge.id === '5-star-pro')).toMatchObject({ earned: false, progress: 25, current: 5, target: 20 });
+
+  // Most recent 20 only; then windowed by days
+  const fiveStarPro = { metric: 'averageRating', comparator: 'gte', threshold: 4.8, window: { count: 20 }, minSamples: 20 } as const;
+  const ratings = [
+    ...Array.from({ length: 20 }, (_, i) => ({ at: daysAgo(i), value: 5 })),
+    ...Array.from({ length: 10 }, (_, i) => ({ at: daysAgo(30 + i), value: 1 })),
+  ];
+  expect(evaluateBadgeRule(fiveStarPro, ratings, now)).toMatchObject({ met: true, progress: 100, current: 5 });
+  expect(evaluateBadgeRule({ ...fiveStarPro, window: { days: 25 } }, ratings, now)).toMatchObject({ met: true });
+  // Twenty 5s and six 1s (days 30 to 35 inclusive)
+  expect(evaluateBadgeRule({ ...fiveStarPro, window: { days: 35 } }, ratings, now)).toMatchObject({ met: false, progress: 84, current: 4.1 });
+  // Lower is better
+  expect(evaluateBadgeRule({ metric: 'lowestRating', comparator: 'lte', threshold: 2 }, ratings, now)).toMatchObject({ met: true });
+});
+
+test('counts thank-you messages received and quick replies sent', async () => {
+  const { storage, driver } = await driverWithStats();
+  const passenger = await storage.createUser({ username: 'passenger', password: 'hashed', name: 'Passenger' });
+  await storage.createMessage({ senderId: passenger.id, receiverId: driver.id, content: 'Are you still at the services?' });
+  await storage.createMessage({ senderId: driver.id, receiverId: passenger.id, content: 'Yes, by the entrance' });
+  await storage.createMessage({ senderId: passenger.id, receiverId: driver.id, content: 'Thanks so much for the lift!' });
+  await storage.createMessage({ senderId: driver.id, receiverId: passenger.id, content: 'Cheers, any time' });
+
+  const { progress } = await evaluateBadges(storage, driver.id, 'message');
+  expect(progress.map(p => [p.badge.id, p.current, p.target])).toEqual([
+    ['helpful-driver', 1, 10],
+    ['quick-responder', 2, 20],
+  ]);
+  // The passenger got a "cheers" back
+  const passengerProgress = await evaluateBadges(storage, passenger.id, 'message');
+  expect(passengerProgress.progress.find(p => p.badge.id === 'helpful-driver')?.current).toBe(1);
+});
@@ -0,0 +1,157 @@
+import { test, expect } from './fixtures/test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { BlobKeyError, LocalBlobStore } from '../server/blob-store';
+import {
+  MAX_DOCUMENT_BYTES, getDocumentFile, reviewDocument, sweepDocumentExpiry, uploadDocument,
+  type DocumentNotification, type DocumentUpload,
+} from '../server/documents';
+import { syncScheduleLifts } from '../server/schedule-lifts';
+import { generateOccurrences } from '../server/recurring-offers';
+import { bookLift } from './fixtures/lifts';
+import { DAY } from './fixtures/time';
+import { createUsers } from './fixtures/users';
+
+const daysFrom = (now: Date, days: number) => new Date(now.getTime() + days * DAY);
+const pdf = Buffer.from('%PDF-1.4 scanned document');
+
+const upload = (type: DocumentUpload['type'], expiresAt: Date): DocumentUpload => ({
+  type, documentNumber: type === 'insurance' ? 'POL-123' : 'TP-0042', expiresAt,
+  fileName: `${type}.pdf`, contentType: 'application/pdf', data: pdf,
+});
+
+test('a driver is verified once both documents are approved, and only the owner and moderators see the files', async ({ storage, blobs, driver, moderator }) => {
+  const now = new Date();
+
+  await expect(uploadDocument(storage, blobs, driver.id, { ...upload('insurance', daysFrom(now, 90)), contentType: 'text/html' })).rejects.toMatchObject({ status: 400 });
+  await expect(uploadDocument(storage, blobs, driver.id, { ...upload('insurance', daysFrom(now, 90)), data: Buffer.alloc(MAX_DOCUMENT_BYTES + 1) })).rejects.toMatchObject({ status: 400 });
+  await expect(uploadDocument(storage, blobs, driver.id, upload('insurance', daysFrom(now, -1)))).rejects.toMatchObject({ status: 400 });
+
+  const insurance = await uploadDocument(storage, blobs, driver.id, upload('insurance', daysFrom(now, 90)));
+  const tradePlate = await uploadDocument(storage, blobs, driver.id, upload('trade_plate', daysFrom(now, 365)));
+  expect(insurance).toMatchObject({ status: 'pending', documentNumber: 'POL-123', sizeBytes: pdf.length });
+  expect(await blobs.get(insurance.blobKey)).toEqual(pdf);
+  expect((await storage.getUserDocumentsByStatus('pending')).map(d => d.id)).toEqual([insurance.id, tradePlate.id]);
+
+  const notifications: DocumentNotification[] = [];
+  await expect(reviewDocument(storage, moderator.id, tradePlate.id, { approve: false }, n => notifications.push(n))).rejects.toMatchObject({ status: 400 });
+  const rejected = await reviewDocument(storage, moderator.id, tradePlate.id, { approve: false, reason: 'Plate number unreadable' }, n => notifications.push(n));
+  expect(rejected).toMatchObject({ status: 'rejected', reviewedBy: moderator.id, rejectionReason: 'Plate number unreadable' });
+  await expect(reviewDocument(storage, moderator.id, tradePlate.id, { approve: true })).rejects.toMatchObject({ status: 409 });
+
+  await reviewDocument(storage, moderator.id, insurance.id, { approve: true }, n => notifications.push(n));
+  // Insurance alone isn't enough
+  expect(await storage.getUser(driver.id)).toMatchObject({ verified: false, insuranceDoc: `/api/documents/${insurance.id}/file`, tradePlateDoc: null });
+
+  const resubmitted = await uploadDocument(storage, blobs, driver.id, upload('trade_plate', daysFrom(now, 365)));
+  await reviewDocument(storage, moderator.id, resubmitted.id, { approve: true }, n => notifications.push(n));
+  expect(await storage.getUser(driver.id)).toMatchObject({ verified: true, tradePlateDoc: `/api/documents/${resubmitted.id}/file` });
+  expect(notifications.map(n => [n.type, n.userId, n.message])).toEqual([
+    ['document-reviewed', driver.id, 'Your trade plate document was rejected: Plate number unreadable'],
+    ['document-reviewed', driver.id, 'Your insurance document was approved.'],
+    ['document-reviewed', driver.id, 'Your trade plate document was approved.'],
+  ]);
+
+  // A newer approved document replaces the old one
+  const renewed = await uploadDocument(storage, blobs, driver.id, upload('insurance', daysFrom(now, 400)));
+  await reviewDocument(storage, moderator.id, renewed.id, { approve: true });
+  expect((await storage.getUserDocument(insurance.id))?.status).toBe('superseded');
+  expect((await storage.getUser(driver.id))?.insuranceDoc).toBe(`/api/documents/${renewed.id}/file`);
+
+  const [stranger] = await createUsers(storage, 'stranger');
+  await expect(getDocumentFile(storage, blobs, stranger, renewed.id)).rejects.toMatchObject({ status: 403 });
+  expect((await getDocumentFile(storage, blobs, moderator, renewed.id)).data).toEqual(pdf);
+  expect((await getDocumentFile(storage, blobs, driver, renewed.id)).document.contentType).toBe('application/pdf');
+});
+
+test('reminds before expiry once per step, then expires the document and unverifies the driver', async ({ storage, blobs, driver, moderator }) => {
+  const now = new Date();
+  for (const document of [
+    await uploadDocument(storage, blobs, driver.id, upload('insurance', daysFrom(now, 40))),
+    await uploadDocument(storage, blobs, driver.id, upload('trade_plate', daysFrom(now, 365))),
+  ]) {
+    await reviewDocument(storage, moderator.id, document.id, { approve: true }, undefined, now);
+  }
+  expect((await storage.getUser(driver.id))?.verified).toBe(true);
+
+  const sent: DocumentNotification[] = [];
+  const sweep = async (days: number) => sweepDocumentExpiry(storage, n => sent.push(n), daysFrom(now, days));
+
+  expect((await sweep(5)).reminded).toEqual([]);
+  expect((await sweep(12)).reminded.map(d => d.reminderDays)).toEqual([30]);
+  expect((await sweep(13)).reminded).toEqual([]);
+  // Catching up after downtime sends only the closest reminder
+  expect((await sweep(39.5)).reminded.map(d => d.reminderDays)).toEqual([1]);
+  expect(sent.map(n => n.type)).toEqual(['document-expiring', 'document-expiring']);
+  expect((await storage.getUser(driver.id))?.verified).toBe(true);
+
+  const { expired } = await sweep(41);
+  expect(expired.map(d => d.type)).toEqual(['insurance']);
+  expect(sent[sent.length - 1]).toMatchObject({ type: 'document-expired', userId: driver.id });
+  expect(await storage.getUser(driver.id)).toMatchObject({ verified: false, insuranceDoc: null });
+  expect((await sweep(42)).expired).toEqual([]);
+});
+
+test('withdraws a driver\'s open lift offers when their verification lapses, and offers none until it is back', async ({ storage, blobs, driver, moderator }) => {
+  const now = new Date();
+  for (const document of [
+    await uploadDocument(storage, blobs, driver.id, upload('insurance', daysFrom(now, 10))),
+    await uploadDocument(storage, blobs, driver.id, upload('trade_plate', daysFrom(now, 365))),
+  ]) {
+    await reviewDocument(storage, moderator.id, document.id, { approve: true }, undefined, now);
+  }
+
+  const schedule = await storage.createSchedule({ userId: driver.id, date: daysFrom(now, 12).toISOString().slice(0, 10) });
+  await storage.createJob({
+    scheduleId: schedule.id, orderInSchedule: 1,
+    fromLocation: 'Leeds', fromLat: 53.8, fromLng: -1.55, toLocation: 'York', toLat: 53.96, toLng: -1.08,
+    estimatedStartTime: daysFrom(now, 12), estimatedEndTime: daysFrom(now, 12.1),
+  });
+  await storage.createJob({
+    scheduleId: schedule.id, orderInSchedule: 2,
+    fromLocation: 'York', fromLat: 53.96, fromLng: -1.08, toLocation: 'Leeds', toLat: 53.8, toLng: -1.55,
+    estimatedStartTime: daysFrom(now, 12.2), estimatedEndTime: daysFrom(now, 12.3),
+  });
+  const [jobOffer, bookedOffer] = (await syncScheduleLifts(storage, schedule.id, {}, now)).createdOffers;
+  const [passenger] = await createUsers(storage, 'rider');
+  await bookLift(storage, bookedOffer, passenger.id, 'accepted');
+  const template = await storage.createLiftOffer({
+    driverId: driver.id, fromLocation: 'Leeds', fromLat: 53.8, fromLng: -1.55, toLocation: 'York', toLat: 53.96, toLng: -1.08,
+    departureTime: daysFrom(now, 5), availableSeats: 2, recurrenceRule: 'FREQ=WEEKLY', status: 'recurring',
+  });
+  const occurrences = await generateOccurrences(storage, template, now);
+  expect(occurrences).toHaveLength(2);
+
+  const lapsed = daysFrom(now, 11);
+  await sweepDocumentExpiry(storage, undefined, lapsed);
+  expect((await storage.getUser(driver.id))?.verified).toBe(false);
+  expect((await storage.getLiftOffer(jobOffer.id))?.status).toBe('cancelled');
+  // A passenger's booked lift is left for the driver to settle with them
+  expect((await storage.getLiftOffer(bookedOffer.id))?.status).toBe('full');
+  // The occurrence that has already departed stays as history
+  expect(await Promise.all(occurrences.map(async (o) => (await storage.getLiftOffer(o.id))?.status)))
+    .toEqual(['available', 'cancelled']);
+  expect((await syncScheduleLifts(storage, schedule.id, {}, lapsed)).createdOffers).toEqual([]);
+  expect(await generateOccurrences(storage, template, daysFrom(now, 14))).toEqual([]);
+
+  const renewed = await uploadDocument(storage, blobs, driver.id, upload('insurance', daysFrom(now, 400)), lapsed);
+  await reviewDocument(storage, moderator.id, renewed.id, { approve: true }, undefined, lapsed);
+  expect((await syncScheduleLifts(storage, schedule.id, {}, lapsed)).updatedOffers.map(o => o.status)).toEqual(['available']);
+});
+
+test('the local blob store keeps files under its directory', async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), 'blobs-'));
+  try {
+    const store = new LocalBlobStore(dir);
+    await store.put('documents/u1/abc', pdf);
+    expect(await store.get('documents/u1/abc')).toEqual(pdf);
+    expect(await store.get('documents/u1/missing')).toBeUndefined();
+    await expect(store.put('../outside', pdf)).rejects.toBeInstanceOf(BlobKeyError);
+    await expect(store.get('documents/../../etc/passwd')).rejects.toBeInstanceOf(BlobKeyError);
+    expect(await store.delete('documents/u1/abc')).toBe(true);
+    expect(await store.delete('documents/u1/abc')).toBe(false);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,122 @@
+import { test, expect } from '@playwright/test';
+import { MemStorage } from '../server/storage';
+import { LivePositionStore } from '../server/live-positions';
+import {
+  backtestDensity,
+  hourOfWeek,
+  loadDensityData,
+  predictDensity,
+  type DensityObservation,
+} from '../server/driver-density';
+import { DAY, HOUR, MINUTE } from './fixtures/time';
+
+// Monday 2025-03-31 08:30 UTC
+const now = new Date('2025-03-31T08:30:00Z');
+
+// Leeds → York
+const route = [{ lat: 53.7997, lng: -1.5492 }, { lat: 53.9591, lng: -1.0815 }];
+const seacroft = { lat: 53.8226, lng: -1.4548 };
+const tadcaster = { lat: 53.8847, lng: -1.2620 };
+const harrogate = { lat: 53.9921, lng: -1.5418 };
+const eastbound = 60;
+
+function observation(driverKey: string, at: Date, where: { lat: number; lng: number }, bearingDeg: number | null = eastbound): DensityObservation {
+  return { driverKey, at, ...where, bearingDeg, source: 'job-check-in' };
+}
+
+// Three drivers pass Seacroft every Monday 08:00–09:00, one passes Tadcaster on two of the four Mondays
+function mondayHistory(): DensityObservation[] {
+  const history: DensityObservation[] = [];
+  for (let week = 1; week <= 4; week++) {
+    const monday = new Date(now.getTime() - week * 7 * DAY + 10 * MINUTE);
+    for (const driver of ['a', 'b', 'c']) history.push(observation(`${driver}-${week}`, monday, seacroft));
+    if (week <= 2) history.push(observation(`d-${week}`, monday, tadcaster));
+    // Off the corridor, or heading the other way
+    history.push(observation(`e-${week}`, monday, harrogate));
+    history.push(observation(`f-${week}`, monday, seacroft, eastbound + 180));
+  }
+  return history;
+}
+
+test('predicts from the hour-of-week history along the corridor', () => {
+  const prediction = predictDensity(
+    { history: mondayHistory(), active: [] },
+    route,
+    { radiusMiles: 3, bearingToleranceDeg: 35 },
+    now,
+    now,
+  );
+
+  expect(prediction.method.hour_of_week).toBe(hourOfWeek(now));
+  expect(prediction.expected_from_history).toBe(3.5);
+  expect(prediction.predicted_available_in_window).toBe(4);
+  expect(prediction.label).toBe('Medium');
+  expect(prediction.segments.length).toBeGreaterThan(1);
+  expect(prediction.segments[0].expected).toBe(3);
+
+  const [top, second] = prediction.hotspots;
+  expect(top.count).toBe(12);
+  expect(top.center.lat).toBeCloseTo(seacroft.lat, 2);
+  expect(top.why).toMatch(/^12 check-ins on Mondays 08:00–09:00 over the last 4 weeks/);
+  expect(second).toMatchObject({ count: 2, score: 0.17 });
+
+  // A Tuesday at the same hour has no history
+  const tuesday = new Date(now.getTime() + DAY);
+  expect(predictDensity({ history: mondayHistory(), active: [] }, route, { radiusMiles: 3 }, tuesday, now))
+    .toMatchObject({ expected_from_history: 0, predicted_available_in_window: 0, label: 'Low', hotspots: [] });
+});
+
+test('counts drivers on the corridor now, fading them out for later windows', async () => {
+  const storage = new MemStorage();
+  const positions = new LivePositionStore();
+  const driver = await storage.createUser({ username: 'live', password: 'x', name: 'Live' });
+  const checkedIn = await storage.createUser({ username: 'parked', password: 'x', name: 'Parked' });
+
+  positions.update(driver.id, { ...tadcaster, bearingDeg: eastbound }, now);
+  positions.update('elsewhere', harrogate, now);
+  await storage.createCheckIn({
+    userId: checkedIn.id, driverType: 'driver', ...seacroft,
+    fromTime: new Date(now.getTime() - HOUR), toTime: new Date(Date.now() + DAY),
+  });
+  // Same driver checked in and streaming: counted once, at the live position
+  await storage.createCheckIn({
+    userId: driver.id, driverType: 'driver', ...seacroft,
+    fromTime: new Date(now.getTime() - HOUR), toTime: new Date(Date.now() + DAY),
+  });
+
+  const data = await loadDensityData(storage, positions, now);
+  expect(data.active.map(o => [o.driverKey, o.source]).sort()).toEqual([
+    [checkedIn.id, 'check-in'], [driver.id, 'live'], ['elsewhere', 'live'],
+  ].sort());
+
+  const current = predictDensity(data, route, { radiusMiles: 3 }, now, now);
+  expect(current.active_driver_count).toBe(2);
+  expect(current.predicted_available_in_window).toBe(2);
+  expect(current.hotspots.map(h => h.why)).toEqual(['1 driver here now', '1 driver here now']);
+
+  const later = predictDensity(data, route, { radiusMiles: 3 }, new Date(now.getTime() + 5 * HOUR), now);
+  expect(later.active_driver_count).toBe(2);
+  expect(later.predicted_available_in_window).toBe(0);
+});
+
+test('backtest scores held-out days against the weeks before them', () => {
+  // A driver passes Seacroft every weekday 08:00–09:00 for eight weeks
+  const history: DensityObservation[] = [];
+  for (let day = 1; day <= 56; day++) {
+    const at = new Date(now.getTime() - day * DAY);
+    if (at.getUTCDay() === 0 || at.getUTCDay() === 6) continue;
+    history.push(observation(`a-${day}`, at, seacroft));
+  }
+
+  const regular = backtestDensity(history, { end: now, heldOutDays: 14 });
+  expect(regular).toMatchObject({ heldOutDays: 14, trainingDays: 28, cells: 1, hoursEvaluated: 14 * 24 });
+  expect(regular.mae).toBe(0);
+  expect(regular.baselineMae).toBeGreaterThan(0);
+  expect(regular.labelAccuracy).toBe(1);
+
+  // The driver stops coming in for the last week: the model over-predicts
+  const cutoff = now.getTime() - 7 * DAY;
+  const stopped = backtestDensity(history.filter(o => o.at.getTime() < cutoff), { end: now, heldOutDays: 7 });
+  expect(stopped.bias).toBeGreaterThan(0);
+  expect(stopped.mae).toBeGreaterThan(0);
+});
@@ -0,0 +1,14 @@
+import { insertJobSchema, type InsertJob, type Job } from '../../shared/schema';
+import type { IStorage } from '../../server/storage';
+
+export const LEEDS_TO_YORK = {
+  fromLocation: 'Leeds LS1 4DY', fromLat: 53.8, fromLng: -1.55,
+  toLocation: 'York, YO1 7HH', toLat: 53.96, toLng: -1.08,
+};
+
+type JobFields = Pick<InsertJob, 'scheduleId' | 'estimatedStartTime' | 'estimatedEndTime'> & Partial<InsertJob>;
+
+// A Leeds to York job, first in its schedule unless overridden, parsed as the job dialogs' saves are
+export function createJob(storage: IStorage, job: JobFields): Promise<Job> {
+  return storage.createJob(insertJobSchema.parse({ ...LEEDS_TO_YORK, orderInSchedule: 1, ...job }));
+}
@@ -0,0 +1,32 @@
+import type { InsertLiftOffer, LiftBooking, LiftOffer } from '../../shared/schema';
+import type { IStorage } from '../../server/storage';
+
+export const COVENTRY_TO_LEICESTER = {
+  fromLocation: 'Coventry', fromLat: 52.41, fromLng: -1.51,
+  toLocation: 'Leicester', toLat: 52.64, toLng: -1.13,
+};
+
+// The steps a driver takes a booking through from requested to completed
+export const COMPLETED_LIFT = ['accepted', 'picked-up', 'completed'];
+
+// A Coventry to Leicester lift leaving now with two seats, unless overridden
+export function offerLift(storage: IStorage, driverId: string, overrides: Partial<InsertLiftOffer> = {}): Promise<LiftOffer> {
+  return storage.createLiftOffer({ ...COVENTRY_TO_LEICESTER, driverId, departureTime: new Date(), availableSeats: 2, ...overrides });
+}
+
+// Moves the booking on through each status in turn, as the offer's driver
+export async function advanceBooking(storage: IStorage, booking: LiftBooking, ...statuses: string[]): Promise<LiftBooking> {
+  const offer = (await storage.getLiftOffer(booking.offerId))!;
+  let status = (await storage.getLiftBooking(booking.id))!.status;
+  for (const next of statuses) {
+    await storage.transitionLiftBooking(booking.id, status, next, offer.driverId);
+    status = next;
+  }
+  return (await storage.getLiftBooking(booking.id))!;
+}
+
+// The passenger's booking on the offer, moved on through the given statuses
+export async function bookLift(storage: IStorage, offer: LiftOffer, passengerId: string, ...statuses: string[]): Promise<LiftBooking> {
+  const booking = await storage.createLiftBooking({ offerId: offer.id, passengerId });
+  return advanceBooking(storage, booking, ...statuses);
+}
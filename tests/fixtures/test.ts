@@ -0,0 +1,15 @@
+import { test as base } from '@playwright/test';
+import { MemStorage } from '../../server/storage';
+import { MemoryBlobStore } from '../../server/blob-store';
+import type { User } from '../../shared/schema';
+import { asModerator, createUsers } from './users';
+
+// Node-only specs get a fresh in-memory storage and blob store per test, and the users they ask for
+export const test = base.extend<{ storage: MemStorage; blobs: MemoryBlobStore; driver: User; moderator: User }>({
+  storage: async ({}, use) => use(new MemStorage()),
+  blobs: async ({}, use) => use(new MemoryBlobStore()),
+  driver: async ({ storage }, use) => use((await createUsers(storage, 'driver'))[0]),
+  moderator: async ({ storage }, use) => use(asModerator((await createUsers(storage, 'mod'))[0])),
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,10 @@
+import type { User } from '../../shared/schema';
+import type { IStorage } from '../../server/storage';
+
+// One user per username, in order, each named after their username
+export function createUsers(storage: IStorage, ...usernames: string[]): Promise<User[]> {
+  return Promise.all(usernames.map(username => storage.createUser({ username, password: 'hashed', name: username })));
+}
+
+// The user as a moderator, as the moderation and document reviews take them
+export const asModerator = (user: User): User => ({ ...user, role: 'moderator' });
@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+import { Gazetteer, Geocoder, normalizePostcode, parseCsv, type GeocodingFallback } from '../server/gazetteer';
+
+const gazetteer = Gazetteer.fromDirectory();
+
+test('loads the bundled data and resolves postcodes and outward codes', () => {
+  expect(gazetteer.size.postcodes).toBeGreaterThan(20);
+  expect(gazetteer.size.places).toBeGreaterThan(90);
+
+  expect(normalizePostcode(' ls14 6uf ')).toBe('LS14 6UF');
+  expect(normalizePostcode('LS14')).toBeUndefined();
+
+  expect(gazetteer.lookupPostcode('ls146uf')).toMatchObject({
+    kind: 'postcode', name: 'LS14 6UF', address: 'Leeds, Yorkshire and The Humber, LS14 6UF', approximate: false, source: 'gazetteer',
+  });
+  expect(gazetteer.lookupPostcode('LS14 9ZZ')).toBeUndefined();
+
+  // Unknown full postcodes and bare outward codes fall back to the area centroid
+  expect(gazetteer.lookupOutcode('LS14 9ZZ')).toMatchObject({ kind: 'outcode', name: 'LS14', approximate: true });
+  expect(gazetteer.search('m1')[0]).toMatchObject({ kind: 'outcode', name: 'M1', district: 'Manchester' });
+});
+
+test('matches town names with typos, prefixes and St/Saint', () => {
+  const names = (query: string) => gazetteer.searchPlaces(query).map(r => r.name);
+
+  expect(names('York')[0]).toBe('York');
+  expect(names('mancehster')[0]).toBe('Manchester');
+  expect(names('Newcastle')[0]).toBe('Newcastle upon Tyne');
+  expect(names('saint albans')).toEqual(['St Albans']);
+  expect(names('st. albans')).toEqual(['St Albans']);
+  // Cities rank ahead of towns on equal matches
+  expect(names('le').slice(0, 2)).toEqual(['Leeds', 'Leicester']);
+  expect(names('zzzz')).toEqual([]);
+});
+
+test('reverse geocodes to the nearest postcode, else the nearest place', () => {
+  expect(gazetteer.reverse({ lat: 53.8227, lng: -1.4547 })).toMatchObject({
+    kind: 'postcode', postcode: 'LS14 6UF', place: 'Leeds', approximate: false,
+  });
+
+  const countryside = gazetteer.reverse({ lat: 54.05, lng: -1.60 })!;
+  expect(countryside).toMatchObject({ kind: 'place', place: 'Harrogate', approximate: true });
+  expect(countryside.address).toMatch(/^Near Harrogate/);
+  expect(countryside.distanceMiles).toBeGreaterThan(1);
+
+  // Mid-Atlantic: nothing within range
+  expect(gazetteer.reverse({ lat: 50, lng: -20 })).toBeUndefined();
+});
+
+test('uses the online fallback for gaps and survives it being unreachable', async () => {
+  const looked: string[] = [];
+  const online: GeocodingFallback = {
+    name: 'stub',
+    lookupPostcode: async (postcode) => {
+      looked.push(postcode);
+      return { kind: 'postcode', name: postcode, latitude: 53.83, longitude: -1.45, address: `Seacroft, Leeds, ${postcode}`, postcode, approximate: false, source: 'postcodes.io' };
+    },
+    reverse: async () => undefined,
+  };
+  const offline: GeocodingFallback = {
+    name: 'stub',
+    lookupPostcode: async () => { throw new Error('fetch failed'); },
+    reverse: async () => { throw new Error('fetch failed'); },
+  };
+
+  // Bundled postcodes never hit the network
+  expect((await new Geocoder(gazetteer, online).lookupPostcode('LS14 6UF'))!.source).toBe('gazetteer');
+  expect(looked).toEqual([]);
+  expect(await new Geocoder(gazetteer, online).lookupPostcode('ls14 9zz')).toMatchObject({ source: 'postcodes.io', postcode: 'LS14 9ZZ' });
+  expect(looked).toEqual(['LS14 9ZZ']);
+
+  expect(await new Geocoder(gazetteer, offline).lookupPostcode('LS14 9ZZ')).toMatchObject({ kind: 'outcode', approximate: true });
+  expect(await new Geocoder(gazetteer, offline).reverse({ lat: 54.05, lng: -1.60 })).toMatchObject({ kind: 'place', place: 'Harrogate' });
+  expect(await new Geocoder(gazetteer).lookupPostcode('ZZ99 9ZZ')).toBeUndefined();
+});
+
+test('reads quoted CSV fields', () => {
+  expect(parseCsv('pcds,lat,long,district\r\n"AB1 2CD",57.1,-2.1,"Aberdeen, City of"\r\n')).toEqual([
+    { pcds: 'AB1 2CD', lat: '57.1', long: '-2.1', district: 'Aberdeen, City of' },
+  ]);
+});
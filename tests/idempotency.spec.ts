@@ -0,0 +1,136 @@
+import { test, expect } from '@playwright/test';
+import express from 'express';
+import session from 'express-session';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { MemStorage } from '../server/storage';
+import { IDEMPOTENCY_KEY_TTL_MS, idempotency, sweepIdempotencyKeys } from '../server/idempotency';
+
+let server: Server;
+let storage: MemStorage;
+let baseUrl: string;
+let applied: number;
+let release: (() => void) | undefined;
+
+test.beforeEach(async () => {
+  storage = new MemStorage();
+  applied = 0;
+  release = undefined;
+
+  const app = express();
+  app.use(express.json());
+  app.use(session({ secret: 'test', resave: false, saveUninitialized: false, name: 'dn.sid' }));
+  app.post('/login/:userId', (req, res) => {
+    req.session.userId = req.params.userId;
+    req.session.save(() => res.json({ ok: true }));
+  });
+  app.use('/api/', idempotency(storage));
+  app.post('/api/check-in', (req, res) => {
+    applied++;
+    res.status(201).json({ applied, lat: req.body.lat });
+  });
+  app.post('/api/slow', async (_req, res) => {
+    await new Promise<void>((resolve) => { release = resolve; });
+    res.json({ ok: true });
+  });
+  app.post('/api/broken', (_req, res) => {
+    applied++;
+    res.status(503).json({ error: 'Try later' });
+  });
+  app.post('/api/invalid', (_req, res) => {
+    applied++;
+    res.status(400).json({ error: 'Job is not in pending status' });
+  });
+
+  server = createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+test.afterEach(async () => {
+  release?.();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function post(path: string, body: unknown, key?: string, cookie?: string) {
+  return fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(key ? { 'Idempotency-Key': key } : {}),
+      ...(cookie ? { Cookie: cookie } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+// The response is stored once it has gone out
+const settled = (key: string) => expect.poll(async () => (await storage.getIdempotencyKey(key))?.completedAt ?? null).not.toBeNull();
+
+test('applies a request once per key and replays its response', async () => {
+  const key = 'offline-0000000000000001';
+  const first = await post('/api/check-in', { lat: 53.8 }, key);
+  expect(first.status).toBe(201);
+  expect(await first.json()).toEqual({ applied: 1, lat: 53.8 });
+  await settled(key);
+
+  const replay = await post('/api/check-in', { lat: 53.8 }, key);
+  expect(replay.status).toBe(201);
+  expect(replay.headers.get('idempotent-replayed')).toBe('true');
+  expect(await replay.json()).toEqual({ applied: 1, lat: 53.8 });
+  expect(applied).toBe(1);
+
+  // Requests without a key are handled every time
+  await post('/api/check-in', { lat: 53.8 });
+  await post('/api/check-in', { lat: 53.8 });
+  expect(applied).toBe(3);
+});
+
+test('replays refusals too, but lets a request that failed on the server be retried', async () => {
+  const invalid = 'offline-0000000000000002';
+  expect((await post('/api/invalid', {}, invalid)).status).toBe(400);
+  await settled(invalid);
+  const refused = await post('/api/invalid', {}, invalid);
+  expect(refused.status).toBe(400);
+  expect(await refused.json()).toEqual({ error: 'Job is not in pending status' });
+  expect(applied).toBe(1);
+
+  const broken = 'offline-0000000000000003';
+  expect((await post('/api/broken', {}, broken)).status).toBe(503);
+  await expect.poll(() => storage.getIdempotencyKey(broken)).toBeUndefined();
+  expect((await post('/api/broken', {}, broken)).status).toBe(503);
+  expect(applied).toBe(3);
+});
+
+test('refuses a key reused for a different request or while the first is in flight', async () => {
+  const key = 'offline-0000000000000004';
+  await post('/api/check-in', { lat: 53.8 }, key);
+  await settled(key);
+  expect((await post('/api/check-in', { lat: 51.5 }, key)).status).toBe(422);
+  expect((await post('/api/invalid', { lat: 53.8 }, key)).status).toBe(422);
+
+  // Another user can't read the stored response
+  const login = await fetch(`${baseUrl}/login/user-2`, { method: 'POST' });
+  const cookie = login.headers.get('set-cookie')!.split(';')[0];
+  expect((await post('/api/check-in', { lat: 53.8 }, key, cookie)).status).toBe(422);
+
+  const slow = 'offline-0000000000000005';
+  const first = post('/api/slow', {}, slow);
+  await expect.poll(() => release).toBeDefined();
+  const meanwhile = await post('/api/slow', {}, slow);
+  expect(meanwhile.status).toBe(409);
+  expect(meanwhile.headers.get('retry-after')).toBe('1');
+  release!();
+  expect((await first).status).toBe(200);
+
+  expect((await post('/api/check-in', {}, 'short')).status).toBe(400);
+  expect(applied).toBe(1);
+});
+
+test('forgets keys after a week', async () => {
+  await storage.createIdempotencyKey({ key: 'offline-0000000000000006', method: 'POST', path: '/api/check-in', requestHash: 'x' });
+  const now = new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS - 60_000);
+  expect(await sweepIdempotencyKeys(storage, now)).toBe(0);
+  expect(await sweepIdempotencyKeys(storage, new Date(now.getTime() + 120_000))).toBe(1);
+  expect(await storage.getIdempotencyKey('offline-0000000000000006')).toBeUndefined();
+});
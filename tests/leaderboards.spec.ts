@@ -0,0 +1,116 @@
+import { test, expect } from '@playwright/test';
+import { MemStorage } from '../server/storage';
+import { getLeaderboard, periodStart, refreshHomeRegion } from '../server/leaderboards';
+import { awardJobPoints, awardLiftPoints } from '../server/points';
+import { evaluateBadges } from '../server/badge-engine';
+import { DEMO_BADGES } from '../server/demo-data';
+import { DAY, HOUR } from './fixtures/time';
+import { COMPLETED_LIFT, advanceBooking, bookLift, offerLift } from './fixtures/lifts';
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * HOUR);
+const places = {
+  birmingham: { lat: 52.4862, lng: -1.8904 },
+  manchester: { lat: 53.4808, lng: -2.2426 },
+  stockport: { lat: 53.4106, lng: -2.1575 },
+};
+
+test('awards points for lifts, jobs and badges once each, with a ledger entry behind every point', async () => {
+  const storage = new MemStorage();
+  for (const badge of DEMO_BADGES) await storage.createBadge(badge);
+  const driver = await storage.createUser({ username: 'driver', password: 'hashed', name: 'Driver' });
+  const passenger = await storage.createUser({ username: 'passenger', password: 'hashed', name: 'Passenger' });
+
+  const booking = await bookLift(storage, await offerLift(storage, driver.id), passenger.id);
+  // Not finished yet: nothing to award
+  expect(await awardLiftPoints(storage, booking, driver.id)).toEqual([]);
+  const completed = await advanceBooking(storage, booking, ...COMPLETED_LIFT);
+  expect((await awardLiftPoints(storage, completed, driver.id)).map(e => [e.userId, e.reason, e.points])).toEqual([
+    [driver.id, 'lift-driven', 50],
+    [passenger.id, 'lift-ridden', 20],
+  ]);
+  // Replaying the completion changes nothing
+  expect(await awardLiftPoints(storage, completed, driver.id)).toEqual([]);
+
+  // The completed lift earns the first milestone badge, which is worth points too
+  const { awarded } = await evaluateBadges(storage, driver.id, 'lift-completed');
+  expect(awarded.map(b => b.badgeId)).toEqual(['first-lift']);
+
+  const schedule = await storage.createSchedule({ userId: driver.id, date: new Date().toISOString().slice(0, 10) });
+  const job = await storage.createJob({
+    scheduleId: schedule.id, orderInSchedule: 1,
+    fromLocation: 'Leicester', fromLat: 52.64, fromLng: -1.13, toLocation: 'Coventry', toLat: 52.41, toLng: -1.51,
+    estimatedStartTime: hoursFromNow(-3), estimatedEndTime: hoursFromNow(-1),
+  });
+  const delivered = (await storage.updateJobStatus(job.id, 'completed', hoursFromNow(-3), hoursFromNow(-1)))!;
+  expect((await awardJobPoints(storage, driver.id, delivered)).map(e => e.reason)).toEqual(['job-completed', 'on-time-delivery']);
+
+  const ledger = await storage.getPointsLedger(driver.id);
+  expect(ledger.map(e => e.reason).sort()).toEqual(['badge-earned', 'job-completed', 'lift-driven', 'on-time-delivery']);
+  const stats = await storage.getUserStats(driver.id);
+  expect(stats?.totalPoints).toBe(50 + 100 + 20 + 10);
+  expect(stats?.totalPoints).toBe(ledger.reduce((sum, e) => sum + e.points, 0));
+});
+
+test('ranks users by period and region, pages through them and leaves out anyone who opted out', async () => {
+  const storage = new MemStorage();
+  const users = await Promise.all(['Amara', 'Ben', 'Cleo', 'Dev', 'Esme'].map(name =>
+    storage.createUser({ username: name.toLowerCase(), password: 'hashed', name })));
+  const [amara, ben, cleo, dev, esme] = users;
+  const points: [typeof amara, number][] = [[amara, 120], [ben, 80], [cleo, 80], [dev, 200], [esme, 40]];
+  for (const [user, amount] of points) {
+    await storage.recordPoints({ userId: user.id, points: amount, reason: 'job-completed', sourceId: `job-${user.id}` });
+  }
+
+  // Mostly Manchester and Stockport (North West), once in Birmingham
+  const checkIn = (userId: string, place: { lat: number; lng: number }, hoursAgo: number) =>
+    storage.createCheckIn({ userId, driverType: 'driver', ...place, fromTime: hoursFromNow(-hoursAgo), toTime: hoursFromNow(-hoursAgo + 1) });
+  await checkIn(amara.id, places.manchester, 48);
+  await checkIn(amara.id, places.stockport, 24);
+  await checkIn(amara.id, places.birmingham, 2);
+  await checkIn(ben.id, places.birmingham, 5);
+  await checkIn(dev.id, places.birmingham, 5);
+  for (const user of users) await refreshHomeRegion(storage, user.id);
+  expect((await storage.getUserStats(amara.id))?.homeRegion).toBe('North West');
+
+  const national = await getLeaderboard(storage, { period: 'weekly', userId: cleo.id });
+  expect(national.entries.map(e => [e.rank, e.name, e.points])).toEqual([
+    [1, 'Dev', 200], [2, 'Amara', 120], [3, 'Ben', 80], [3, 'Cleo', 80], [5, 'Esme', 40],
+  ]);
+  expect(national.regions).toEqual(['North West', 'West Midlands']);
+  expect(national.currentUser).toMatchObject({ rank: 3, points: 80, region: null });
+
+  const midlands = await getLeaderboard(storage, { period: 'all-time', region: 'West Midlands' });
+  expect(midlands.entries.map(e => [e.rank, e.name])).toEqual([[1, 'Dev'], [2, 'Ben']]);
+
+  // Ranked among their own tier
+  await storage.updateUserStats(amara.id, { tier: 'silver' });
+  await storage.updateUserStats(cleo.id, { tier: 'silver' });
+  const silver = await getLeaderboard(storage, { period: 'weekly', tier: 'silver', userId: cleo.id });
+  expect(silver.entries.map(e => [e.rank, e.name])).toEqual([[1, 'Amara'], [2, 'Cleo']]);
+  expect(silver).toMatchObject({ tier: 'silver', totalEntries: 2, currentUser: { rank: 2 } });
+
+  const secondPage = await getLeaderboard(storage, { period: 'monthly', page: 2, pageSize: 2 });
+  expect(secondPage).toMatchObject({ totalEntries: 5, totalPages: 3 });
+  expect(secondPage.entries.map(e => e.name)).toEqual(['Ben', 'Cleo']);
+
+  // Opting out hides a user but keeps their points; ranks close up behind them
+  await storage.updateUser(dev.id, { leaderboardOptOut: true });
+  const withoutDev = await getLeaderboard(storage, { period: 'all-time', userId: dev.id });
+  expect(withoutDev.entries.map(e => [e.rank, e.name])).toEqual([[1, 'Amara'], [2, 'Ben'], [2, 'Cleo'], [4, 'Esme']]);
+  expect(withoutDev.currentUser).toBeNull();
+  expect((await storage.getUserStats(dev.id))?.totalPoints).toBe(200);
+
+  // Six weeks on, this week's and this month's points have dropped off
+  const later = new Date(Date.now() + 42 * DAY);
+  expect((await getLeaderboard(storage, { period: 'weekly' }, later)).entries).toEqual([]);
+  expect((await getLeaderboard(storage, { period: 'monthly' }, later)).entries).toEqual([]);
+  expect((await getLeaderboard(storage, { period: 'all-time' }, later)).totalEntries).toBe(4);
+});
+
+test('weekly boards start on Monday and monthly ones on the 1st', () => {
+  const thursday = new Date(2025, 2, 6, 15, 30);
+  expect(periodStart('weekly', thursday)).toEqual(new Date(2025, 2, 3));
+  expect(periodStart('weekly', new Date(2025, 2, 9, 23))).toEqual(new Date(2025, 2, 3));
+  expect(periodStart('monthly', thursday)).toEqual(new Date(2025, 2, 1));
+  expect(periodStart('all-time', thursday)).toBeNull();
+});
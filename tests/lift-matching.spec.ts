@@ -0,0 +1,85 @@
+import { test, expect } from '@playwright/test';
+import type { LiftOffer, LiftRequest } from '../shared/schema';
+import { scoreLiftMatch, rankMatches } from '../server/lift-matching';
+
+const departure = new Date('2025-03-03T10:00:00Z');
+const minutes = (n: number) => new Date(departure.getTime() + n * 60 * 1000);
+
+// Leeds → York, about 35 km
+function offer(overrides: Partial<LiftOffer> = {}): LiftOffer {
+  return {
+    id: 'offer-1', driverId: 'driver',
+    fromLocation: 'Leeds', fromLat: 53.7997, fromLng: -1.5492, fromW3W: null,
+    toLocation: 'York', toLat: 53.9591, toLng: -1.0815, toW3W: null,
+    departureTime: departure, earliestDepart: null, latestArrive: null,
+    availableSeats: 2, detourKm: 10, priceType: 'Free', priceValue: null,
+    vehicleType: 'Hatchback', visibility: 'Everyone', repeatPattern: 'None', autoGenerated: false,
+    status: 'available', notes: null, createdAt: departure,
+    ...overrides,
+  };
+}
+
+// Seacroft (east Leeds) → Tadcaster, both close to the Leeds–York line
+function request(overrides: Partial<LiftRequest> = {}): LiftRequest {
+  return {
+    id: 'request-1', requesterId: 'passenger',
+    fromLocation: 'Seacroft', fromLat: 53.8226, fromLng: -1.4548, fromW3W: null,
+    toLocation: 'Tadcaster', toLat: 53.8847, toLng: -1.2620, toW3W: null,
+    requestedTime: minutes(15), earliestDepart: null, latestArrive: null,
+    hasBagsKit: false, maxBudget: null, status: 'active', notes: null, createdAt: departure,
+    ...overrides,
+  };
+}
+
+test('scores an on-route request by its detour and explains each component', () => {
+  const match = scoreLiftMatch(offer(), request());
+
+  expect(match.eligible).toBe(true);
+  expect(match.reasons).toEqual([]);
+  expect(match.detourKm).toBeLessThan(3);
+  expect(match.score).toBeGreaterThan(70);
+  expect(match.components.detour.detail).toContain("of the driver's 10 km limit");
+  expect(match.components.time.detail).toContain('driver leaves as planned');
+  expect(new Date(match.pickupAt!).getTime()).toBeGreaterThan(departure.getTime());
+
+  const sum = Object.values(match.components).reduce((total, c) => total + c.score, 0);
+  expect(match.score).toBe(Math.round(sum));
+});
+
+test("rejects requests beyond the driver's detour limit or outside the time windows", () => {
+  // Harrogate is well off the Leeds–York road
+  const offRoute = scoreLiftMatch(offer(), request({ fromLat: 53.9921, fromLng: -1.5418 }));
+  expect(offRoute.eligible).toBe(false);
+  expect(offRoute.score).toBe(0);
+  expect(offRoute.reasons[0]).toMatch(/exceeds the driver's 10 km limit/);
+  expect(scoreLiftMatch(offer({ detourKm: 60 }), request({ fromLat: 53.9921, fromLng: -1.5418 })).eligible).toBe(true);
+
+  const tooLate = scoreLiftMatch(
+    offer({ earliestDepart: minutes(-30), latestArrive: minutes(90) }),
+    request({ requestedTime: minutes(240), earliestDepart: minutes(210), latestArrive: minutes(300) }),
+  );
+  expect(tooLate.reasons).toContain("Time windows don't overlap once travel to the pickup is included");
+  expect(tooLate.pickupAt).toBeNull();
+
+  // The driver shifts departure to meet a later explicit pickup window
+  const shifted = scoreLiftMatch(offer(), request({ requestedTime: minutes(90), earliestDepart: minutes(80), latestArrive: minutes(180) }));
+  expect(shifted.eligible).toBe(true);
+  expect(new Date(shifted.departAt!).getTime()).toBeGreaterThan(departure.getTime());
+  expect(shifted.components.time.detail).toMatch(/driver leaves \d+ min off plan/);
+});
+
+test('applies seats, visibility, blocks and budget before ranking', () => {
+  expect(scoreLiftMatch(offer({ status: 'full', availableSeats: 0 }), request()).reasons).toEqual(['Offer has no seats available']);
+  expect(scoreLiftMatch(offer({ visibility: 'Followers' }), request()).eligible).toBe(false);
+  expect(scoreLiftMatch(offer(), request(), { blockedUserIds: new Set(['passenger']) }).reasons)
+    .toEqual(['One of the users has blocked the other']);
+  expect(scoreLiftMatch(offer({ priceType: 'Fixed', priceValue: 20 }), request({ maxBudget: 15 })).reasons)
+    .toEqual(["Price is over the passenger's budget"]);
+
+  const near = scoreLiftMatch(offer(), request());
+  const later = scoreLiftMatch(offer(), request({ id: 'request-2', requestedTime: minutes(100) }));
+  const blocked = scoreLiftMatch(offer(), request({ id: 'request-3', requesterId: 'blocked' }), { blockedUserIds: new Set(['blocked']) });
+
+  expect(rankMatches([later, blocked, near]).map(m => m.requestId)).toEqual(['request-1', 'request-2']);
+  expect(rankMatches([later, blocked, near], true).map(m => m.requestId)).toEqual(['request-1', 'request-2', 'request-3']);
+});
@@ -0,0 +1,66 @@
+import { test, expect } from './fixtures/test';
+import { subscribeLiftOffer, subscribeLiftRequest, type LiftMatchNotification } from '../server/match-subscriptions';
+import { createUsers } from './fixtures/users';
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+// Leeds → York with an on-route request from Seacroft to Tadcaster
+const route = {
+  fromLocation: 'Leeds', fromLat: 53.7997, fromLng: -1.5492,
+  toLocation: 'York', toLat: 53.9591, toLng: -1.0815,
+};
+const onRoute = {
+  fromLocation: 'Seacroft', fromLat: 53.8226, fromLng: -1.4548,
+  toLocation: 'Tadcaster', toLat: 53.8847, toLng: -1.2620,
+};
+
+test('alerts both parties once when a new post matches an open watch', async ({ storage, driver }) => {
+  const [passenger] = await createUsers(storage, 'passenger');
+  const notifications: LiftMatchNotification[] = [];
+  const notify = (n: LiftMatchNotification) => notifications.push(n);
+  const departure = hoursFromNow(3);
+
+  const request = await storage.createLiftRequest({ ...onRoute, requesterId: passenger.id, requestedTime: new Date(departure.getTime() + 15 * 60000) });
+  expect(await subscribeLiftRequest(storage, request, notify)).toEqual([]);
+
+  const offer = await storage.createLiftOffer({ ...route, driverId: driver.id, departureTime: departure, availableSeats: 2 });
+  const alerted = await subscribeLiftOffer(storage, offer, notify);
+
+  expect(alerted.map(m => m.requestId)).toEqual([request.id]);
+  expect(notifications.map(n => n.userId).sort()).toEqual([driver.id, passenger.id].sort());
+  expect(notifications[0]).toMatchObject({ type: 'lift-match', offerId: offer.id, requestId: request.id });
+  expect((await storage.getMessagesBetweenUsers(driver.id, passenger.id))).toHaveLength(2);
+  expect((await storage.getConversations(passenger.id))[0].lastMessage).toMatch(/^Lift Match \(\d+%\)!/);
+
+  // Re-posting the same request doesn't alert the pair again
+  await subscribeLiftRequest(storage, request, notify);
+  expect(notifications).toHaveLength(2);
+  expect(await storage.getMatchSubscriptionsByUserId(passenger.id)).toHaveLength(2);
+});
+
+test('stops watches once the request is fulfilled or its window has passed', async ({ storage, driver }) => {
+  const [passenger] = await createUsers(storage, 'passenger');
+  const notifications: LiftMatchNotification[] = [];
+  const notify = (n: LiftMatchNotification) => notifications.push(n);
+  const departure = hoursFromNow(3);
+
+  const fulfilled = await storage.createLiftRequest({ ...onRoute, requesterId: passenger.id, requestedTime: departure });
+  const stale = await storage.createLiftRequest({ ...onRoute, requesterId: passenger.id, requestedTime: hoursFromNow(-3) });
+  await subscribeLiftRequest(storage, fulfilled, notify);
+  await subscribeLiftRequest(storage, stale, notify);
+
+  // A booking accepted on another offer means the request is no longer looking for a lift
+  const other = await storage.createLiftOffer({ ...route, driverId: driver.id, departureTime: departure });
+  const booking = await storage.createLiftBooking({ offerId: other.id, passengerId: passenger.id, requestId: fulfilled.id });
+  await storage.transitionLiftBooking(booking.id, 'requested', 'accepted', driver.id);
+
+  const offer = await storage.createLiftOffer({ ...route, driverId: driver.id, departureTime: departure, availableSeats: 3 });
+  expect(await subscribeLiftOffer(storage, offer, notify)).toEqual([]);
+  expect(notifications).toEqual([]);
+
+  const watches = await storage.getMatchSubscriptionsByUserId(passenger.id);
+  expect(watches.map(w => [w.liftRequestId, w.status])).toEqual([
+    [fulfilled.id, 'fulfilled'],
+    [stale.id, 'expired'],
+  ]);
+});
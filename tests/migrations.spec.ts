@@ -0,0 +1,105 @@
+import { test, expect } from '@playwright/test';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { eq, sql } from 'drizzle-orm';
+import * as schema from '../shared/schema';
+import { loadMigrations, migrateDown, migrateUp, migrationStatus } from '../server/migrator';
+import { seedReferenceData } from '../server/seed';
+
+const departure = new Date('2025-03-03T09:00:00Z');
+const hours = (n: number) => n * 60 * 60 * 1000;
+
+test('migrations are numbered with up and down scripts', () => {
+  const versions = loadMigrations().map(m => m.version);
+  expect(versions).toEqual([...versions].sort((a, b) => a - b));
+  expect(versions[0]).toBe(1);
+});
+
+test('backfill migration derives time windows and metres, and rolls back cleanly', async () => {
+  const db = drizzle(new PGlite(), { schema });
+  await migrateUp(db, { to: 1 });
+
+  // Raw inserts: users, lift_offers and lift_requests have gained columns since the baseline
+  await db.execute(sql`INSERT INTO users (id, username, password, name, call_sign) VALUES ('u1', 'legacy', 'x', 'Legacy', 'LG1234')`);
+  await db.execute(sql`
+    INSERT INTO lift_offers (id, driver_id, from_location, from_lat, from_lng, to_location, to_lat, to_lng, departure_time)
+    VALUES ('o1', 'u1', 'Leeds', 53.8, -1.55, 'York', 53.96, -1.08, ${departure.toISOString()})
+  `);
+  const offerWindow = { earliestDepart: schema.liftOffers.earliestDepart, latestArrive: schema.liftOffers.latestArrive };
+  const explicitWindow = { earliestDepart: new Date('2025-03-03T08:30:00Z'), latestArrive: new Date('2025-03-03T10:00:00Z') };
+  await db.execute(sql`
+    INSERT INTO lift_requests (id, requester_id, from_location, from_lat, from_lng, to_location, to_lat, to_lng, requested_time, earliest_depart, latest_arrive)
+    VALUES ('r1', 'u1', 'A', 53.8, -1.55, 'B', 53.9, -1.1, ${departure.toISOString()}, NULL, NULL),
+           ('r2', 'u1', 'A', 53.8, -1.55, 'B', 53.9, -1.1, ${departure.toISOString()}, ${explicitWindow.earliestDepart.toISOString()}, ${explicitWindow.latestArrive.toISOString()})
+  `);
+  const requestWindow = { earliestDepart: schema.liftRequests.earliestDepart, latestArrive: schema.liftRequests.latestArrive };
+  await db.insert(schema.loaderSpaces).values({ id: 's1', userId: 'u1', lengthCm: 550, widthCm: 240, heightCm: null });
+
+  await migrateUp(db, { to: 2 });
+
+  const [offer] = await db.select(offerWindow).from(schema.liftOffers).where(eq(schema.liftOffers.id, 'o1'));
+  expect(offer.earliestDepart?.getTime()).toBe(departure.getTime() - hours(2));
+  expect(offer.latestArrive?.getTime()).toBe(departure.getTime() + hours(2));
+  const [untouched] = await db.select(requestWindow).from(schema.liftRequests).where(eq(schema.liftRequests.id, 'r2'));
+  expect(untouched).toMatchObject(explicitWindow);
+  const [space] = await db.select().from(schema.loaderSpaces);
+  expect(space.lengthM).toBeCloseTo(5.5);
+  expect(space.widthM).toBeCloseTo(2.4);
+  expect(space.heightM).toBeNull();
+
+  await migrateDown(db);
+
+  const [reverted] = await db.select(offerWindow).from(schema.liftOffers);
+  expect(reverted.earliestDepart).toBeNull();
+  expect((await db.select(requestWindow).from(schema.liftRequests).where(eq(schema.liftRequests.id, 'r2')))[0]).toMatchObject(explicitWindow);
+  expect((await db.select().from(schema.loaderSpaces))[0].lengthM).toBeNull();
+  expect((await migrationStatus(db)).filter(m => m.appliedAt).map(m => m.version)).toEqual([1]);
+});
+
+test('baseline adopts an existing schema and seeding is idempotent', async () => {
+  const db = drizzle(new PGlite(), { schema });
+  await migrateUp(db, { to: 1 });
+
+  // Re-running the baseline against existing tables must not fail (db:push environments)
+  const [baseline] = loadMigrations();
+  await migrateUp(db, { migrations: [{ ...baseline, version: 9999 }] });
+  await migrateUp(db);
+
+  const first = await seedReferenceData(db);
+  expect(first.users).toBe(4);
+  expect(first.liftRequests).toBe(2);
+  const second = await seedReferenceData(db);
+  expect(second).toMatchObject({ users: 0, userStats: 0, liftRequests: 0 });
+  expect(await db.select().from(schema.badges)).toHaveLength(first.badges);
+});
+
+test('rating integrity migration keeps repeat ratings as superseded and restores them on rollback', async () => {
+  const db = drizzle(new PGlite(), { schema });
+  await migrateUp(db, { to: 7 });
+
+  await db.execute(sql`
+    INSERT INTO users (id, username, password, name, call_sign)
+    VALUES ('u1', 'rater', 'x', 'Rater', 'RT1234'), ('u2', 'rated', 'x', 'Rated', 'RD1234')
+  `);
+  await db.execute(sql`
+    INSERT INTO ratings (id, rater_id, rated_user_id, lift_type, lift_id, stars, created_at)
+    VALUES ('first', 'u1', 'u2', 'offer', 'lift-1', 5, '2025-03-03T10:00:00Z'),
+           ('repeat', 'u1', 'u2', 'offer', 'lift-1', 1, '2025-03-03T11:00:00Z'),
+           ('other', 'u1', 'u2', 'offer', 'lift-2', 4, '2025-03-04T10:00:00Z')
+  `);
+
+  await migrateUp(db, { to: 8 });
+
+  const statuses = async () => Object.fromEntries(
+    (await db.select({ id: schema.ratings.id, status: schema.ratings.status }).from(schema.ratings)).map(r => [r.id, r.status]),
+  );
+  expect(await statuses()).toEqual({ first: 'active', repeat: 'superseded', other: 'active' });
+  await expect(db.execute(sql`
+    INSERT INTO ratings (rater_id, rated_user_id, lift_type, lift_id, stars) VALUES ('u1', 'u2', 'offer', 'lift-1', 3)
+  `)).rejects.toThrow();
+
+  await migrateDown(db);
+
+  const restored = await db.execute<{ id: string }>(sql`SELECT id FROM ratings ORDER BY id`);
+  expect(restored.rows.map(r => r.id)).toEqual(['first', 'other', 'repeat']);
+});
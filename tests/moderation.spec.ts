@@ -0,0 +1,59 @@
+import { test, expect } from './fixtures/test';
+import {
+  DEFAULT_SUSPENSION_DAYS, accountRestriction, blockUser, hiddenUserIds, reportUser, reviewReport, unblockUser,
+} from '../server/moderation';
+import { DAY } from './fixtures/time';
+import { createUsers } from './fixtures/users';
+
+test('users report someone once while it is open, and moderators warn, suspend or ban', async ({ storage }) => {
+  const [reporter, reported, moderator] = await createUsers(storage, 'reporter', 'reported', 'moderator');
+
+  await expect(reportUser(storage, reporter.id, { reportedUserId: reporter.id, reason: 'spam' })).rejects.toMatchObject({ status: 400 });
+  await expect(reportUser(storage, reporter.id, { reportedUserId: 'nobody', reason: 'spam' })).rejects.toMatchObject({ status: 404 });
+  const report = await reportUser(storage, reporter.id, { reportedUserId: reported.id, reason: 'harassment', description: 'Abusive messages' });
+  expect(report).toMatchObject({ status: 'pending', reporterId: reporter.id, reportedUserId: reported.id });
+  await expect(reportUser(storage, reporter.id, { reportedUserId: reported.id, reason: 'spam' })).rejects.toMatchObject({ status: 409 });
+
+  // The status and the action have to agree
+  await expect(reviewReport(storage, moderator.id, report.id, { status: 'action_taken' })).rejects.toMatchObject({ status: 400 });
+  await expect(reviewReport(storage, moderator.id, report.id, { status: 'dismissed', action: 'ban' })).rejects.toMatchObject({ status: 400 });
+
+  const warned = await reviewReport(storage, moderator.id, report.id, { status: 'action_taken', action: 'warn', notes: 'First offence' });
+  expect(warned.report).toMatchObject({ status: 'action_taken', action: 'warn', reviewedBy: moderator.id, reviewNotes: 'First offence' });
+  expect(warned.user).toMatchObject({ accountStatus: 'active', warningCount: 1 });
+  await expect(reviewReport(storage, moderator.id, report.id, { status: 'dismissed' })).rejects.toMatchObject({ status: 409 });
+
+  // Closed, so they can report again
+  const now = new Date();
+  const again = await reportUser(storage, reporter.id, { reportedUserId: reported.id, reason: 'harassment' });
+  const suspended = await reviewReport(storage, moderator.id, again.id, { status: 'action_taken', action: 'suspend' }, now);
+  expect(suspended.user.suspendedUntil).toEqual(new Date(now.getTime() + DEFAULT_SUSPENSION_DAYS * DAY));
+  expect(accountRestriction(suspended.user, now)).toContain('suspended until');
+  expect(accountRestriction(suspended.user, new Date(now.getTime() + (DEFAULT_SUSPENSION_DAYS + 1) * DAY))).toBeNull();
+
+  const third = await reportUser(storage, moderator.id, { reportedUserId: reported.id, reason: 'unsafe_driving' });
+  const banned = await reviewReport(storage, moderator.id, third.id, { status: 'action_taken', action: 'ban' });
+  expect(banned.user).toMatchObject({ accountStatus: 'banned', suspendedUntil: null, warningCount: 1 });
+  expect(accountRestriction(banned.user)).toBe('This account has been banned');
+  expect(accountRestriction(reporter)).toBeNull();
+});
+
+test('blocks hide both users from each other until lifted', async ({ storage }) => {
+  const [alice, bob] = await createUsers(storage, 'alice', 'bob');
+
+  await expect(blockUser(storage, alice.id, alice.id)).rejects.toMatchObject({ status: 400 });
+  await expect(blockUser(storage, alice.id, 'nobody')).rejects.toMatchObject({ status: 404 });
+  await storage.createMessage({ senderId: bob.id, receiverId: alice.id, content: 'Hi' });
+  await blockUser(storage, alice.id, bob.id);
+
+  expect(Array.from(await hiddenUserIds(storage, alice.id))).toEqual([bob.id]);
+  expect(Array.from(await hiddenUserIds(storage, bob.id))).toEqual([alice.id]);
+  expect((await hiddenUserIds(storage, undefined)).size).toBe(0);
+  expect(await storage.getConversations(bob.id)).toEqual([]);
+
+  // Only the blocker can lift it
+  await expect(unblockUser(storage, bob.id, alice.id)).rejects.toMatchObject({ status: 404 });
+  await unblockUser(storage, alice.id, bob.id);
+  expect((await hiddenUserIds(storage, bob.id)).size).toBe(0);
+  expect(await storage.getConversations(bob.id)).toHaveLength(1);
+});
@@ -0,0 +1,63 @@
+import { test, expect } from './fixtures/test';
+import { MemStorage } from '../server/storage';
+import { RATING_WINDOW_DAYS, disputeRating, rateLift, resolveRatingDispute } from '../server/ratings';
+import { DAY } from './fixtures/time';
+import { COMPLETED_LIFT, advanceBooking, bookLift, offerLift } from './fixtures/lifts';
+import { createUsers } from './fixtures/users';
+
+async function completedLift(storage: MemStorage) {
+  const [driver, passenger, stranger] = await createUsers(storage, 'driver', 'passenger', 'stranger');
+  const booking = await bookLift(storage, await offerLift(storage, driver.id), passenger.id);
+  const complete = () => advanceBooking(storage, booking, ...COMPLETED_LIFT);
+  return { storage, driver, passenger, stranger, booking, complete };
+}
+
+test('only the two people on a completed lift rate each other, once each, within the window', async ({ storage }) => {
+  const { driver, passenger, stranger, booking, complete } = await completedLift(storage);
+
+  await expect(rateLift(storage, passenger.id, booking.id, { stars: 5 })).rejects.toMatchObject({ status: 409, message: expect.stringContaining('completed') });
+  await complete();
+  await expect(rateLift(storage, stranger.id, booking.id, { stars: 1 })).rejects.toMatchObject({ status: 403 });
+  await expect(rateLift(storage, passenger.id, 'no-such-booking', { stars: 5 })).rejects.toMatchObject({ status: 404 });
+
+  // The passenger rates the driver and their car; the driver rates the passenger, where the car doesn't apply
+  const ofDriver = await rateLift(storage, passenger.id, booking.id, { stars: 5, vehicleCondition: 4 });
+  expect(ofDriver).toMatchObject({ raterId: passenger.id, ratedUserId: driver.id, liftType: 'offer', liftId: booking.id, vehicleCondition: 4, status: 'active' });
+  const ofPassenger = await rateLift(storage, driver.id, booking.id, { stars: 4, vehicleCondition: 1 });
+  expect(ofPassenger).toMatchObject({ ratedUserId: passenger.id, liftType: 'request', vehicleCondition: null });
+
+  await expect(rateLift(storage, passenger.id, booking.id, { stars: 1 })).rejects.toMatchObject({ status: 409, message: expect.stringContaining('already rated') });
+  expect(await storage.getRatingsByUserId(driver.id)).toHaveLength(1);
+
+  // The window closes RATING_WINDOW_DAYS after completion
+  const other = await completedLift(new MemStorage());
+  await other.complete();
+  const late = new Date(Date.now() + (RATING_WINDOW_DAYS + 1) * DAY);
+  await expect(rateLift(other.storage, other.passenger.id, other.booking.id, { stars: 2 }, late)).rejects.toMatchObject({ status: 409, message: expect.stringContaining('closed') });
+});
+
+test('the rated user disputes a rating once and a moderator upholds or removes it', async ({ storage, moderator }) => {
+  const { driver, passenger, booking, complete } = await completedLift(storage);
+  await complete();
+  const rating = await rateLift(storage, passenger.id, booking.id, { stars: 1 });
+  expect((await storage.getUserStats(driver.id))?.averageRating).toBe(1);
+
+  await expect(disputeRating(storage, passenger.id, rating.id, 'I changed my mind')).rejects.toMatchObject({ status: 403 });
+  const disputed = await disputeRating(storage, driver.id, rating.id, 'Rated me down after I reported them for smoking');
+  expect(disputed).toMatchObject({ status: 'disputed', disputeReason: expect.stringContaining('smoking') });
+  await expect(disputeRating(storage, driver.id, rating.id, 'Again')).rejects.toMatchObject({ status: 409 });
+  expect((await storage.getDisputedRatings()).map(r => r.id)).toEqual([rating.id]);
+  // Still counts while it's being looked at
+  expect(await storage.getRatingsByUserId(driver.id)).toHaveLength(1);
+
+  await expect(resolveRatingDispute(storage, passenger, rating.id, 'removed')).rejects.toMatchObject({ status: 403 });
+  const removed = await resolveRatingDispute(storage, moderator, rating.id, 'removed', 'Retaliation after a safety report');
+  expect(removed).toMatchObject({ status: 'removed', resolvedBy: moderator.id, resolutionNotes: 'Retaliation after a safety report' });
+  expect(await storage.getRatingsByUserId(driver.id)).toEqual([]);
+  expect((await storage.getUserStats(driver.id))?.averageRating).toBe(0);
+  expect(await storage.getDisputedRatings()).toEqual([]);
+
+  // Decided once; a removed rating still stops the passenger rating the lift again
+  await expect(resolveRatingDispute(storage, moderator, rating.id, 'upheld')).rejects.toMatchObject({ status: 409 });
+  await expect(rateLift(storage, passenger.id, booking.id, { stars: 1 })).rejects.toMatchObject({ status: 409 });
+});
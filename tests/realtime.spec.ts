@@ -0,0 +1,209 @@
+import { test, expect } from '@playwright/test';
+import express from 'express';
+import session from 'express-session';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { RealtimeHub } from '../server/realtime';
+import { LivePositionStore } from '../server/live-positions';
+import { MemStorage } from '../server/storage';
+import { regionTopic, regionTopicsAround, liftOfferTopic } from '../shared/realtime';
+import { createUsers } from './fixtures/users';
+
+let server: Server;
+let hub: RealtimeHub;
+let positions: LivePositionStore;
+let storage: MemStorage;
+let baseUrl: string;
+
+test.beforeEach(async () => {
+  const app = express();
+  const sessionMiddleware = session({ secret: 'test', resave: false, saveUninitialized: false, name: 'dn.sid' });
+  app.use(sessionMiddleware);
+  app.post('/login/:userId', (req, res) => {
+    req.session.userId = req.params.userId;
+    req.session.save(() => res.json({ ok: true }));
+  });
+  app.post('/logout', (req, res) => {
+    hub.closeSession(req.sessionID);
+    req.session.destroy(() => res.json({ ok: true }));
+  });
+
+  server = createServer(app);
+  positions = new LivePositionStore();
+  storage = new MemStorage();
+  hub = new RealtimeHub(positions, storage);
+  hub.attach(server, sessionMiddleware);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+test.afterEach(async () => {
+  hub.close();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+async function login(userId: string): Promise<string> {
+  const res = await fetch(`http://${baseUrl}/login/${userId}`, { method: 'POST' });
+  return res.headers.get('set-cookie')!.split(';')[0];
+}
+
+const protocolReplies = ['ack', 'pong', 'error'];
+
+// Opens a socket, keeping notifications apart from protocol replies
+async function connect(cookie?: string) {
+  const ws = new WebSocket(`ws://${baseUrl}/ws`, { headers: cookie ? { Cookie: cookie } : {} });
+  const received: any[] = [];
+  const replies: any[] = [];
+  ws.on('message', (data) => {
+    const message = JSON.parse(data.toString());
+    (protocolReplies.includes(message.type) ? replies : received).push(message);
+  });
+  await new Promise((resolve, reject) => {
+    ws.once('open', resolve);
+    ws.once('unexpected-response', (_req, res) => reject(new Error(`HTTP ${res.statusCode}`)));
+  });
+  const send = (message: unknown) => ws.send(typeof message === 'string' ? message : JSON.stringify(message));
+  return { ws, received, replies, send };
+}
+
+// Round-trip a ping so earlier sends have been processed by the server
+let flushes = 0;
+async function flush(client: Awaited<ReturnType<typeof connect>>) {
+  const id = `flush-${++flushes}`;
+  client.send({ type: 'ping', id });
+  await expect.poll(() => client.replies.some(r => r.type === 'pong' && r.id === id)).toBe(true);
+}
+
+test('rejects sockets without a signed-in session', async () => {
+  await expect(connect()).rejects.toThrow('HTTP 401');
+  await expect(connect('dn.sid=s%3Aforged.signature')).rejects.toThrow('HTTP 401');
+});
+
+test('sends private notifications only to the target user', async () => {
+  const alice = await login('alice');
+  const aliceTab1 = await connect(alice);
+  const aliceTab2 = await connect(alice);
+  const bob = await connect(await login('bob'));
+
+  expect(hub.sendToUser('alice', { type: 'schedule-match', userId: 'alice' })).toBe(2);
+  expect(hub.sendToUser('carol', { type: 'schedule-match', userId: 'carol' })).toBe(0);
+  expect(hub.sendToUsers(['alice', 'bob', 'alice'], { type: 'lift-booking' })).toBe(3);
+
+  await flush(aliceTab1);
+  await flush(aliceTab2);
+  await flush(bob);
+  expect(aliceTab1.received.map(m => m.type)).toEqual(['schedule-match', 'lift-booking']);
+  expect(aliceTab2.received.map(m => m.type)).toEqual(['schedule-match', 'lift-booking']);
+  expect(bob.received.map(m => m.type)).toEqual(['lift-booking']);
+});
+
+test('publishes topics to subscribers and closes sockets on logout', async () => {
+  const leeds = regionTopic(53.7997, -1.5492);
+  expect(regionTopicsAround(53.7997, -1.5492)).toContain(leeds);
+  expect(regionTopicsAround(53.7997, -1.5492)).toHaveLength(9);
+
+  const aliceCookie = await login('alice');
+  const alice = await connect(aliceCookie);
+  const bob = await connect(await login('bob'));
+
+  alice.send({ type: 'subscribe', topic: leeds, id: 's1' });
+  alice.send({ type: 'subscribe', topic: 'everything', id: 's2' });
+  bob.send({ type: 'subscribe', topic: liftOfferTopic('offer-1') });
+  await flush(alice);
+  await flush(bob);
+  expect(alice.replies.slice(0, 2)).toMatchObject([
+    { type: 'ack', id: 's1', of: 'subscribe' },
+    { type: 'error', id: 's2', code: 'invalid-message' },
+  ]);
+
+  expect(hub.publish(leeds, { type: 'driver-check-in', driverId: 'carol' })).toBe(1);
+  expect(hub.publish(liftOfferTopic('offer-1'), { type: 'lift-offer-updated' })).toBe(1);
+  expect(hub.publish(regionTopic(51.5, -0.12), { type: 'driver-check-in' })).toBe(0);
+
+  bob.send({ type: 'unsubscribe', topic: liftOfferTopic('offer-1') });
+  await flush(bob);
+  expect(hub.publish(liftOfferTopic('offer-1'), { type: 'lift-offer-updated' })).toBe(0);
+
+  await flush(alice);
+  expect(alice.received.map(m => m.type)).toEqual(['driver-check-in']);
+  expect(bob.received.map(m => m.type)).toEqual(['lift-offer-updated']);
+
+  const closed = new Promise<number>((resolve) => alice.ws.once('close', resolve));
+  await fetch(`http://${baseUrl}/logout`, { method: 'POST', headers: { Cookie: aliceCookie } });
+  expect(await closed).toBe(4001);
+  expect(hub.sendToUser('alice', { type: 'schedule-match' })).toBe(0);
+  await expect(connect(aliceCookie)).rejects.toThrow('HTTP 401');
+});
+
+test('validates protocol messages and stores rate-limited location fixes', async () => {
+  const driver = await connect(await login('driver'));
+  const watcher = await connect(await login('watcher'));
+  watcher.send({ type: 'subscribe', topic: regionTopic(53.7997, -1.5492) });
+
+  driver.send('not json');
+  driver.send({ type: 'teleport', id: 'x1' });
+  driver.send({ type: 'ping', v: 2, id: 'x2' });
+  driver.send({ type: 'location', lat: 123, lng: 0, id: 'x3' });
+  for (let i = 0; i < 4; i++) {
+    driver.send({ type: 'location', lat: 53.7997, lng: -1.5492 + i * 0.001, speedKph: 48, bearingDeg: 70, id: `fix-${i}` });
+  }
+  await flush(driver);
+  await flush(watcher);
+
+  expect(driver.replies.filter(r => r.type === 'error').map(r => [r.id, r.code])).toEqual([
+    [undefined, 'invalid-json'],
+    ['x1', 'invalid-message'],
+    ['x2', 'unsupported-version'],
+    ['x3', 'invalid-message'],
+    ['fix-3', 'rate-limited'],
+  ]);
+  expect(driver.replies.find(r => r.id === 'fix-3').retryAfterMs).toBeGreaterThan(0);
+  expect(driver.replies.filter(r => r.type === 'ack').map(r => r.id)).toEqual(['fix-0', 'fix-1', 'fix-2']);
+
+  // The latest accepted fix is stored and republished to the region
+  expect(positions.get('driver')).toMatchObject({ lat: 53.7997, lng: -1.5472, speedKph: 48, bearingDeg: 70 });
+  expect(watcher.received.filter(m => m.type === 'driver-position')).toHaveLength(3);
+  expect(watcher.received.at(-1)).toMatchObject({ type: 'driver-position', driverId: 'driver', lng: -1.5472 });
+});
+
+test('keeps events about a user from people on either side of a block, and refuses restricted accounts', async () => {
+  const [driver, blocker, other] = await createUsers(storage, 'driver', 'blocker', 'other');
+  await storage.createBlock({ blockerId: blocker.id, blockedUserId: driver.id });
+
+  const leeds = regionTopic(53.7997, -1.5492);
+  const driverSocket = await connect(await login(driver.id));
+  const watchers = await Promise.all([blocker, other].map(async (user) => connect(await login(user.id))));
+  for (const watcher of watchers) {
+    watcher.send({ type: 'subscribe', topic: leeds });
+    await flush(watcher);
+  }
+
+  driverSocket.send({ type: 'location', lat: 53.7997, lng: -1.5492 });
+  await flush(driverSocket);
+  expect(await hub.publishFrom(driver.id, leeds, { type: 'driver-check-in', driverId: driver.id })).toBe(1);
+  expect(await hub.publishFrom(other.id, leeds, { type: 'driver-check-in', driverId: other.id })).toBe(2);
+  for (const watcher of watchers) await flush(watcher);
+
+  const [fromBlocker, fromOther] = watchers.map((watcher) => watcher.received.map(m => `${m.type}:${m.driverId}`));
+  expect(fromBlocker).toEqual([`driver-check-in:${other.id}`]);
+  expect(fromOther).toEqual([`driver-position:${driver.id}`, `driver-check-in:${driver.id}`, `driver-check-in:${other.id}`]);
+
+  const cookie = await login(other.id);
+  await storage.updateUserModeration(other.id, { accountStatus: 'suspended', suspendedUntil: new Date(Date.now() + 60_000) });
+  await expect(connect(cookie)).rejects.toThrow('HTTP 403');
+  await storage.updateUserModeration(other.id, { suspendedUntil: new Date(Date.now() - 60_000) });
+  await expect(connect(cookie)).resolves.toBeDefined();
+});
+
+test('live positions expire after the TTL', () => {
+  const store = new LivePositionStore(60_000);
+  const start = new Date('2025-03-03T10:00:00Z');
+  store.update('near', { lat: 53.80, lng: -1.55 }, start);
+  store.update('far', { lat: 51.50, lng: -0.12 }, start);
+  store.update('stale', { lat: 53.81, lng: -1.54 }, new Date(start.getTime() - 120_000));
+
+  expect(store.nearby({ lat: 53.7997, lng: -1.5492 }, 10, start).map(p => p.userId)).toEqual(['near']);
+  expect(store.active(start).map(p => p.userId).sort()).toEqual(['far', 'near']);
+  expect(store.get('near', new Date(start.getTime() + 61_000))).toBeUndefined();
+});
@@ -0,0 +1,113 @@
+import { test, expect } from '@playwright/test';
+import { MemStorage } from '../server/storage';
+import { expandRecurrence, formatRecurrenceRule, fromWallClock, parseRecurrenceRule, wallClock } from '../server/recurrence';
+import {
+  bookedFutureOccurrences,
+  cancelFutureOccurrences,
+  generateAllOccurrences,
+  generateOccurrences,
+  recurrenceRuleFor,
+  RECURRENCE_HORIZON_DAYS,
+} from '../server/recurring-offers';
+
+// UK wall-clock times, as drivers enter them
+const local = (y: number, m: number, d: number, h = 7, min = 30) => fromWallClock(y, m, d, h, min);
+const days = (dates: Date[]) => dates.map(wallClock).map(c => `${c.month}/${c.day} ${c.hour}:${String(c.minute).padStart(2, '0')}`);
+
+test('parses and formats the supported RRULE subset', () => {
+  const rule = parseRecurrenceRule('RRULE:FREQ=weekly;INTERVAL=2;BYDAY=MO,WE;COUNT=5');
+  expect(rule).toEqual({ freq: 'WEEKLY', interval: 2, byDay: [1, 3], count: 5 });
+  expect(formatRecurrenceRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=5');
+
+  expect(() => parseRecurrenceRule('FREQ=MONTHLY')).toThrow('FREQ must be DAILY or WEEKLY');
+  expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=XX')).toThrow('Unknown BYDAY "XX"');
+  expect(() => parseRecurrenceRule('FREQ=DAILY;BYHOUR=7')).toThrow("BYHOUR isn't supported");
+  expect(() => parseRecurrenceRule('FREQ=DAILY;COUNT=3;UNTIL=20250301')).toThrow('Use COUNT or UNTIL, not both');
+  expect(() => parseRecurrenceRule('FREQ=DAILY;INTERVAL=0')).toThrow('INTERVAL must be a positive whole number');
+
+  expect(recurrenceRuleFor('Weekdays')).toBe('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+  expect(recurrenceRuleFor('None')).toBeUndefined();
+  expect(recurrenceRuleFor('Custom', 'freq=daily;interval=3')).toBe('FREQ=DAILY;INTERVAL=3');
+  expect(() => recurrenceRuleFor('Custom')).toThrow('Custom repeats need a recurrenceRule');
+});
+
+test('expands weekly, daily, COUNT and UNTIL rules at the same wall-clock time', () => {
+  const wednesday = local(2025, 3, 5);
+  const weekdays = parseRecurrenceRule('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+  expect(days(expandRecurrence(weekdays, wednesday, wednesday, local(2025, 3, 12, 0, 0))))
+    .toEqual(['3/5 7:30', '3/6 7:30', '3/7 7:30', '3/10 7:30', '3/11 7:30']);
+
+  // Every other week counts weeks from the start's Monday
+  const fortnightly = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR');
+  expect(days(expandRecurrence(fortnightly, wednesday, wednesday, local(2025, 3, 25))))
+    .toEqual(['3/7 7:30', '3/17 7:30', '3/21 7:30']);
+
+  // COUNT includes occurrences before the window
+  const threeTimes = parseRecurrenceRule('FREQ=DAILY;INTERVAL=2;COUNT=3');
+  expect(days(expandRecurrence(threeTimes, wednesday, local(2025, 3, 6), local(2025, 4, 1))))
+    .toEqual(['3/7 7:30', '3/9 7:30']);
+
+  // A date-only UNTIL includes that whole day
+  const untilFriday = parseRecurrenceRule('FREQ=DAILY;UNTIL=20250307');
+  expect(days(expandRecurrence(untilFriday, wednesday, wednesday, local(2025, 4, 1))))
+    .toEqual(['3/5 7:30', '3/6 7:30', '3/7 7:30']);
+
+  // Across the spring clock change the commute stays at 07:30 local
+  const daily = parseRecurrenceRule('FREQ=DAILY');
+  const acrossDst = expandRecurrence(daily, local(2025, 3, 29), local(2025, 3, 29), local(2025, 4, 1));
+  expect(acrossDst.map(d => wallClock(d).hour)).toEqual([7, 7, 7]);
+  expect(acrossDst.map(d => d.getUTCHours())).toEqual([7, 6, 6]);
+});
+
+test('generates occurrences over the horizon, keeps skips and edits, and cancels future ones', async () => {
+  const storage = new MemStorage();
+  const driver = await storage.createUser({ username: 'commuter', password: 'hashed', name: 'Commuter' });
+  await storage.updateUserVerification(driver.id, { verified: true, tradePlateDoc: null, insuranceDoc: null });
+  const now = local(2025, 3, 5, 6, 0);
+  const template = await storage.createLiftOffer({
+    driverId: driver.id,
+    fromLocation: 'Leeds', fromLat: 53.8, fromLng: -1.55,
+    toLocation: 'York', toLat: 53.96, toLng: -1.08,
+    departureTime: local(2025, 3, 5),
+    earliestDepart: local(2025, 3, 5, 7, 0),
+    latestArrive: local(2025, 3, 5, 9, 0),
+    availableSeats: 2,
+    repeatPattern: 'Weekdays',
+    recurrenceRule: recurrenceRuleFor('Weekdays'),
+    status: 'recurring',
+  });
+
+  const notified: string[] = [];
+  const first = await generateOccurrences(storage, template, now, (o) => { notified.push(o.id); });
+  expect(first).toHaveLength(10); // two working weeks in a 14 day horizon
+  expect(RECURRENCE_HORIZON_DAYS).toBe(14);
+  expect(notified).toEqual(first.map(o => o.id));
+  expect(first[0]).toMatchObject({
+    templateId: template.id, occurrenceDate: '2025-03-05', autoGenerated: true, status: 'available', availableSeats: 2, recurrenceRule: null,
+  });
+  // The time window moves with each occurrence
+  expect(first[1].earliestDepart).toEqual(local(2025, 3, 6, 7, 0));
+  expect(first[1].latestArrive).toEqual(local(2025, 3, 6, 9, 0));
+
+  // Skip one, move another; topping up the next day neither recreates nor resets them
+  await storage.updateLiftOfferStatus(first[1].id, 'skipped');
+  await storage.updateLiftOffer(first[2].id, { departureTime: local(2025, 3, 7, 8, 15) });
+  const topUp = await generateAllOccurrences(storage, local(2025, 3, 6, 6, 0));
+  expect(topUp.map(o => o.occurrenceDate)).toEqual(['2025-03-19']);
+  const occurrences = await storage.getLiftOfferOccurrences(template.id);
+  expect(occurrences).toHaveLength(11);
+  expect(occurrences.find(o => o.id === first[1].id)?.status).toBe('skipped');
+  expect(occurrences.find(o => o.id === first[2].id)?.departureTime).toEqual(local(2025, 3, 7, 8, 15));
+
+  // Deleting the template: departed, skipped and booked occurrences are left alone
+  const passenger = await storage.createUser({ username: 'rider', password: 'hashed', name: 'Rider' });
+  await storage.createLiftBooking({ offerId: first[3].id, passengerId: passenger.id });
+  expect((await bookedFutureOccurrences(storage, template.id, local(2025, 3, 6, 12, 0))).map(o => o.id)).toEqual([first[3].id]);
+  const cancelled = await cancelFutureOccurrences(storage, template.id, local(2025, 3, 6, 12, 0));
+  expect(cancelled).toHaveLength(8);
+  expect(await storage.deleteLiftOffer(template.id)).toBe(true);
+  const remaining = (await storage.getAllLiftOffers()).filter(o => o.occurrenceDate);
+  expect(remaining.filter(o => o.status === 'available').map(o => o.occurrenceDate)).toEqual(['2025-03-05', '2025-03-10']);
+  expect(remaining.every(o => o.templateId === null)).toBe(true);
+  expect(await storage.getRecurringLiftOfferTemplates()).toEqual([]);
+});
@@ -0,0 +1,62 @@
+import { test, expect } from '@playwright/test';
+import { planRoute, simulateRoute, type PlannerLeg } from '../server/route-planner';
+
+const leeds = { lat: 53.7997, lng: -1.5492 };
+const york = { lat: 53.9591, lng: -1.0815 };
+const harrogate = { lat: 53.9921, lng: -1.5418 };
+const london = { lat: 51.5074, lng: -0.1278 };
+
+const at = (hhmm: string) => new Date(`2025-03-04T${hhmm}:00Z`);
+const options = { start: leeds, startTime: at('08:00') };
+
+const leedsToYork: PlannerLeg = { leg_id: 'a', pickup: leeds, dropoff: york, earliestPickup: at('08:00'), latestPickup: at('09:00') };
+const yorkToHarrogate: PlannerLeg = { leg_id: 'b', pickup: york, dropoff: harrogate, earliestPickup: at('10:30'), latestPickup: at('12:00') };
+const harrogateToLeeds: PlannerLeg = { leg_id: 'c', pickup: harrogate, dropoff: leeds, earliestPickup: at('13:00'), latestPickup: at('15:00') };
+
+test('orders legs by their time windows and compares with the given order', () => {
+  const result = planRoute([harrogateToLeeds, leedsToYork, yorkToHarrogate], options);
+
+  expect(result.order.map(l => l.leg_id)).toEqual(['a', 'b', 'c']);
+  expect(result.infeasible).toEqual([]);
+  expect(result.plan.lateMinutes).toBe(0);
+  expect(result.original.lateMinutes).toBeGreaterThan(0);
+  expect(result.original.repositionMiles).toBeGreaterThan(result.plan.repositionMiles);
+
+  // Every pickup waits for its window and includes the 45 minute inspection
+  const [first, second] = result.plan.legs;
+  expect(first.inspectionStart).toEqual(at('08:00'));
+  expect(first.inspectionEnd).toEqual(at('08:45'));
+  expect(second.repositionMiles).toBe(0);
+  expect(second.waitMinutes).toBeGreaterThan(0);
+  expect(second.inspectionStart).toEqual(at('10:30'));
+
+  // Without optimisation the given order is kept
+  const kept = planRoute([harrogateToLeeds, leedsToYork], options, false);
+  expect(kept.order.map(l => l.leg_id)).toEqual(['c', 'a']);
+  expect(kept.plan).toEqual(kept.original);
+});
+
+test('repositioning between jobs is slower on foot than by lift', () => {
+  const legs = [leedsToYork, { ...harrogateToLeeds, earliestPickup: undefined, latestPickup: undefined }];
+  const lift = simulateRoute(legs, { ...options, reposition: 'lift' });
+  const foot = simulateRoute(legs, { ...options, reposition: 'foot' });
+
+  expect(foot.legs[1].repositionMiles).toBeCloseTo(lift.legs[1].repositionMiles);
+  expect(foot.legs[1].repositionMinutes).toBeGreaterThan(lift.legs[1].repositionMinutes * 3);
+  expect(foot.totalMinutes).toBeGreaterThan(lift.totalMinutes);
+});
+
+test('reports legs that cannot meet their windows with reasons', () => {
+  const unreachable: PlannerLeg = { leg_id: 'london', pickup: london, dropoff: leeds, latestPickup: at('08:30') };
+  const tooTight: PlannerLeg = { leg_id: 'tight', pickup: leeds, dropoff: york, earliestPickup: at('09:00'), latestDropoff: at('09:30') };
+  const squeezed: PlannerLeg = { leg_id: 'squeezed', pickup: york, dropoff: leeds, latestPickup: at('10:00') };
+
+  const result = planRoute([unreachable, tooTight, leedsToYork, squeezed], options);
+  const reasons = Object.fromEntries(result.infeasible.map(l => [l.leg_id, l.reasons]));
+
+  expect(reasons.london[0]).toMatch(/^Can't reach the pickup by 08:30 even as the first job: \d+ min by lift from the start$/);
+  expect(reasons.tight[0]).toMatch(/^The 45 min inspection and \d+ min drive can't finish by 09:30 after a 09:00 pickup$/);
+  expect(reasons.squeezed[0]).toMatch(/^Earliest pickup \d\d:\d\d is \d+ min after the window closes at 10:00/);
+  // A feasible leg on its own is fitted in rather than reported
+  expect(Object.keys(reasons)).not.toContain('a');
+});
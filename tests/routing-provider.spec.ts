@@ -0,0 +1,144 @@
+import { test, expect } from '@playwright/test';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { fileURLToPath } from 'url';
+import {
+  CachedRoutingProvider,
+  FailoverRoutingProvider,
+  FixtureRoutingProvider,
+  HeuristicRoutingProvider,
+  MapboxRoutingProvider,
+  OsrmRoutingProvider,
+  RoutingError,
+  createRoutingProvider,
+  type RouteQuery,
+  type RoutingProvider,
+} from '../server/routing-provider';
+import { estimateMinutes, haversineMiles } from '../server/ai-routing-utils';
+import { estimateDriveMinutes } from '../shared/speed-model';
+
+const fixtures = fileURLToPath(new URL('./fixtures/routes.json', import.meta.url));
+const leedsToYork: RouteQuery = {
+  from: { lat: 53.7997, lng: -1.5492 },
+  to: { lat: 53.9591, lng: -1.0815 },
+  departure: new Date('2025-03-04T11:20:00Z'),
+};
+
+function counting(provider: RoutingProvider) {
+  const calls: RouteQuery[] = [];
+  return { calls, provider: { name: provider.name, route: (q: RouteQuery) => { calls.push(q); return provider.route(q); } } };
+}
+
+const failing = (name: string): RoutingProvider => ({
+  name,
+  route: async () => { throw new RoutingError(name, 'HTTP 503'); },
+});
+
+test('fixtures answer recorded routes and miss everything else', async () => {
+  const provider = createRoutingProvider({ ROUTING_FIXTURES: fixtures });
+  // Rounded coordinates match the recording
+  const route = await provider.route({ ...leedsToYork, from: { lat: 53.79972, lng: -1.54918 } });
+  expect(route).toEqual({ distanceMiles: 25.8, drivingMinutes: 44, trafficAware: true, provider: 'fixture' });
+
+  await expect(provider.route({ ...leedsToYork, to: { lat: 51.5074, lng: -0.1278 } }))
+    .rejects.toThrow(RoutingError);
+});
+
+test('offline heuristic shares the speed model with the planner', async () => {
+  const route = await new HeuristicRoutingProvider().route(leedsToYork);
+  expect(route.provider).toBe('heuristic');
+  expect(route.trafficAware).toBe(false);
+  const straightLine = haversineMiles(leedsToYork.from, leedsToYork.to);
+  expect(route.distanceMiles).toBeCloseTo(straightLine * 1.25);
+  expect(route.drivingMinutes).toBe(estimateMinutes(straightLine, leedsToYork.departure!.toISOString()));
+
+  // Longer journeys average faster, and never get shorter as distance grows
+  const minutes = [5, 14.9, 15.1, 40, 100].map(miles => estimateDriveMinutes(miles));
+  expect([...minutes].sort((a, b) => a - b)).toEqual(minutes);
+  expect(100 / minutes[4]).toBeGreaterThan(5 / minutes[0]);
+});
+
+test('fails over to the next provider and cools down the failed one', async () => {
+  const primary = counting(failing('mapbox'));
+  const fallback = counting(new FixtureRoutingProvider([{ ...leedsToYork, distanceMiles: 26, drivingMinutes: 40 }]));
+  const offline = counting(new HeuristicRoutingProvider());
+  const failover = new FailoverRoutingProvider([primary.provider, fallback.provider, offline.provider]);
+
+  expect((await failover.route(leedsToYork)).provider).toBe('fixture');
+  const london = { ...leedsToYork, to: { lat: 51.5074, lng: -0.1278 } };
+  expect((await failover.route(london)).provider).toBe('heuristic');
+  // mapbox is skipped while cooling down
+  expect(primary.calls).toHaveLength(1);
+  expect(fallback.calls).toHaveLength(2);
+
+  await expect(new FailoverRoutingProvider([failing('mapbox'), failing('osrm')]).route(leedsToYork))
+    .rejects.toThrow(/all providers failed \(mapbox: HTTP 503; osrm: HTTP 503\)/);
+});
+
+test('caches by rounded coordinates and departure hour', async () => {
+  const inner = counting(new HeuristicRoutingProvider());
+  const cached = new CachedRoutingProvider(inner.provider, 60_000, 2);
+
+  await cached.route(leedsToYork);
+  await cached.route({ ...leedsToYork, from: { lat: 53.79968, lng: -1.54921 }, departure: new Date('2025-03-04T11:55:00Z') });
+  expect(inner.calls).toHaveLength(1);
+
+  await cached.route({ ...leedsToYork, departure: new Date('2025-03-04T12:05:00Z') });
+  expect(inner.calls).toHaveLength(2);
+
+  // Oldest entry is evicted past the size limit
+  await cached.route({ ...leedsToYork, to: { lat: 51.5074, lng: -0.1278 } });
+  expect(cached.size).toBe(2);
+  await cached.route(leedsToYork);
+  expect(inner.calls).toHaveLength(4);
+});
+
+test('reads OSRM-compatible responses over HTTP', async () => {
+  const requests: string[] = [];
+  const server: Server = createServer((req, res) => {
+    requests.push(req.url!);
+    res.setHeader('Content-Type', 'application/json');
+    if (req.url!.includes('-0.1278')) {
+      res.end(JSON.stringify({ code: 'NoRoute', routes: [] }));
+    } else {
+      res.end(JSON.stringify({ code: 'Ok', routes: [{ duration: 2610, distance: 41520 }] }));
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const osrm = new OsrmRoutingProvider(`http://127.0.0.1:${(server.address() as AddressInfo).port}/`);
+
+  try {
+    expect(await osrm.route(leedsToYork)).toEqual({ distanceMiles: 41520 / 1609.34, drivingMinutes: 44, trafficAware: false, provider: 'osrm' });
+    expect(requests[0]).toBe('/route/v1/driving/-1.5492,53.7997;-1.0815,53.9591?overview=false');
+    await expect(osrm.route({ ...leedsToYork, to: { lat: 51.5074, lng: -0.1278 } })).rejects.toThrow('osrm: no route (NoRoute)');
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
+
+test('asks Mapbox for predicted traffic on later departures', async () => {
+  const requests: URL[] = [];
+  const server: Server = createServer((req, res) => {
+    requests.push(new URL(req.url!, 'http://mapbox.test'));
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ code: 'Ok', routes: [{ duration: 2610, distance: 41520 }] }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const mapbox = new MapboxRoutingProvider('pk.test', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  try {
+    expect(await mapbox.route({ ...leedsToYork, departure: tomorrow })).toMatchObject({ trafficAware: true, provider: 'mapbox' });
+    expect(requests[0].pathname).toBe('/directions/v5/mapbox/driving-traffic/-1.5492,53.7997;-1.0815,53.9591');
+    expect(requests[0].searchParams.get('depart_at')).toBe(tomorrow.toISOString().slice(0, 16));
+
+    expect(await mapbox.route({ ...leedsToYork, departure: new Date() })).toMatchObject({ trafficAware: true });
+    expect(requests[1].searchParams.has('depart_at')).toBe(false);
+
+    // Only today's traffic is available for a journey that has already left
+    expect(await mapbox.route(leedsToYork)).toMatchObject({ trafficAware: false });
+    expect(requests[2].searchParams.has('depart_at')).toBe(false);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
@@ -0,0 +1,151 @@
+import { test, expect } from '@playwright/test';
+import { MemStorage } from '../server/storage';
+import { Gazetteer, Geocoder } from '../server/gazetteer';
+import {
+  calendarFeedToken,
+  importScheduleJobs,
+  jobsToIcs,
+  parseIcsEvents,
+  ScheduleImportError,
+  userCalendarIcs,
+  verifyCalendarFeedToken,
+} from '../server/schedule-calendar';
+import { fromWallClock } from '../server/recurrence';
+
+// Offline: the bundled gazetteer only
+const offline = new Geocoder(Gazetteer.fromDirectory());
+// UK times, as drivers enter them
+const local = (h: number, min = 0, day = 5) => fromWallClock(2025, 3, day, h, min);
+
+async function driverSchedule() {
+  const storage = new MemStorage();
+  const driver = await storage.createUser({ username: 'plates', password: 'hashed', name: 'Trade Plates' });
+  const schedule = await storage.createSchedule({ userId: driver.id, date: '2025-03-05' });
+  return { storage, driver, schedule };
+}
+
+test('imports CSV rows with header aliases, postcodes and row-level errors', async () => {
+  const { storage, schedule } = await driverSchedule();
+  const csv = [
+    'Collection Address,Collection Postcode,Delivery Address,Start Time,End Time',
+    '"Unit 4, Bilton Way",CV1 2GT,Leicester,09:00,11:30',
+    'Leicester LE1 1RE,,Coventry,1:00pm,',
+    'Atlantis,,Leicester,15:00,16:00',
+    'Coventry,,Leicester,25:00,',
+  ].join('\n');
+
+  const result = await importScheduleJobs(storage, schedule, csv, { geocoder: offline });
+  expect(result.imported.map(j => [j.fromLocation, j.toLocation, j.orderInSchedule])).toEqual([
+    ['Unit 4, Bilton Way, CV1 2GT', 'Leicester', 1],
+    ['Leicester LE1 1RE', 'Coventry', 2],
+  ]);
+  expect(result.imported[0]).toMatchObject({ fromLat: 52.4006, fromLng: -1.5134, status: 'pending' });
+  expect(result.imported[0].estimatedEndTime).toEqual(local(11, 30));
+  // No end given: the inspection plus the estimated drive
+  const second = result.imported[1];
+  expect(second.estimatedStartTime).toEqual(local(13));
+  expect(second.estimatedEndTime.getTime() - second.estimatedStartTime.getTime()).toBeGreaterThan(45 * 60 * 1000);
+
+  expect(result.errors).toEqual([
+    { row: 4, field: 'from', message: 'Couldn\'t find "Atlantis"; add a postcode' },
+    { row: 5, field: 'start', message: 'Unrecognised start time "25:00"' },
+  ]);
+
+  // Importing again skips what's already there
+  const again = await importScheduleJobs(storage, schedule, csv, { geocoder: offline });
+  expect(again.imported).toEqual([]);
+  expect(again.skipped.map(s => s.row)).toEqual([2, 3]);
+
+  // Explicit mapping, and whole-file problems
+  const mapped = await importScheduleJobs(storage, schedule, 'Origin,Destination,Slot\nLeicester,Coventry CV1 2GT,16:15', {
+    geocoder: offline, mapping: { from: 'Origin', to: 'Destination', start: 'Slot' },
+  });
+  expect(mapped.imported).toHaveLength(1);
+  expect(mapped.imported[0].orderInSchedule).toBe(3);
+  await expect(importScheduleJobs(storage, schedule, 'Origin,Destination\nA,B', { geocoder: offline }))
+    .rejects.toThrow(ScheduleImportError);
+  await expect(importScheduleJobs(storage, schedule, 'From,To,Start\nA,B,09:00', { geocoder: offline, mapping: { start: 'When' } }))
+    .rejects.toThrow('Column "When" mapped to start isn\'t in the file');
+});
+
+test('imports ICS events and exports jobs with inspection buffers that round-trip', async () => {
+  const { storage, schedule } = await driverSchedule();
+  const ics = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'BEGIN:VEVENT',
+    'UID:a@dispatch',
+    'DTSTART:20250305T090000',
+    'DTEND:20250305T113000',
+    'SUMMARY:Move BMW 3 Series',
+    'LOCATION:Coventry CV1 2GT → Leicester LE1 1RE',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:b@dispatch',
+    'DTSTART;VALUE=DATE:20250305',
+    'SUMMARY:Coventry to Leicester',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:c@dispatch',
+    'DTSTART:20250306T090000',
+    'SUMMARY:Coventry to Leicester',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:d@dispatch',
+    'DTSTART;TZID=Europe/London:20250305T130000',
+    'DTEND;TZID=Europe/London:20250305T14',
+    ' 3000',
+    'SUMMARY:Leicester to Coventry',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+  const result = await importScheduleJobs(storage, schedule, ics, { geocoder: offline });
+  expect(result.imported.map(j => [j.fromLocation, j.toLocation])).toEqual([
+    ['Coventry CV1 2GT', 'Leicester LE1 1RE'],
+    ['Leicester', 'Coventry'],
+  ]);
+  expect(result.imported[1].estimatedEndTime).toEqual(local(14, 30));
+  expect(result.errors).toEqual([
+    { row: 2, field: 'start', message: 'All-day events need a start time' },
+    { row: 3, field: 'start', message: 'Starts on 2025-03-06, not this schedule\'s day (2025-03-05)' },
+  ]);
+
+  const exported = jobsToIcs(result.imported, 'DriveNet jobs, 5 March', new Date('2025-03-01T00:00:00Z'));
+  expect(exported).toContain('X-WR-CALNAME:DriveNet jobs\\, 5 March\r\n');
+  expect(exported.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+  const events = parseIcsEvents(exported);
+  expect(events).toHaveLength(4);
+  const [job, inspection] = events;
+  expect(job.get('DTSTART')?.value).toBe(local(9).toISOString().replace(/[-:]/g, '').replace('.000', ''));
+  expect(job.get('X-DRIVENET-TO-GEO')?.value).toBe(`${result.imported[0].toLat};${result.imported[0].toLng}`);
+  expect(inspection.get('SUMMARY')?.value).toBe('Inspection: Coventry CV1 2GT');
+  expect(inspection.get('DTEND')?.value).toBe(local(9, 45).toISOString().replace(/[-:]/g, '').replace('.000', ''));
+  expect(inspection.get('RELATED-TO')?.value).toBe(`${result.imported[0].id}@drivenet`);
+
+  // Our own export imports into another schedule unchanged, without the inspection events
+  const other = await storage.createSchedule({ userId: schedule.userId, date: '2025-03-05' });
+  const roundTrip = await importScheduleJobs(storage, other, exported, { geocoder: offline });
+  expect(roundTrip.imported.map(j => [j.fromLocation, j.toLocation, j.fromLat, j.toLng])).toEqual(
+    result.imported.map(j => [j.fromLocation, j.toLocation, j.fromLat, j.toLng]),
+  );
+  expect(roundTrip.skipped.map(s => s.row)).toEqual([2, 4]);
+});
+
+test('signs per-user feeds and includes recent schedules only', async () => {
+  const { storage, driver, schedule } = await driverSchedule();
+  const old = await storage.createSchedule({ userId: driver.id, date: '2025-01-10' });
+  const job = { fromLocation: 'Coventry', fromLat: 52.41, fromLng: -1.51, toLocation: 'Leicester', toLat: 52.64, toLng: -1.13, orderInSchedule: 1 };
+  await storage.createJob({ ...job, scheduleId: schedule.id, estimatedStartTime: local(9), estimatedEndTime: local(11) });
+  await storage.createJob({ ...job, scheduleId: old.id, estimatedStartTime: fromWallClock(2025, 1, 10, 9), estimatedEndTime: fromWallClock(2025, 1, 10, 11) });
+
+  const feed = await userCalendarIcs(storage, driver.id, local(8));
+  expect(parseIcsEvents(feed).filter(e => !e.has('X-DRIVENET-PART'))).toHaveLength(1);
+
+  const token = calendarFeedToken(driver.id, 'secret');
+  expect(token).toBe(calendarFeedToken(driver.id, 'secret'));
+  expect(verifyCalendarFeedToken(driver.id, token, 'secret')).toBe(true);
+  expect(verifyCalendarFeedToken('someone-else', token, 'secret')).toBe(false);
+  expect(verifyCalendarFeedToken(driver.id, token, 'rotated')).toBe(false);
+  expect(verifyCalendarFeedToken(driver.id, '', 'secret')).toBe(false);
+});
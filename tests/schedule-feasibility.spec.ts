@@ -0,0 +1,112 @@
+import { test, expect } from '@playwright/test';
+import { checkJobFeasibility, type FeasibilityJob } from '../server/schedule-feasibility';
+import { RoutingError, type RoutingProvider } from '../server/routing-provider';
+import { fromWallClock } from '../server/recurrence';
+
+// UK times, as the messages show them
+const at = (h: number, min = 0) => fromWallClock(2025, 3, 5, h, min);
+
+const places = {
+  coventry: { location: 'Coventry', lat: 52.41, lng: -1.51 },
+  leicester: { location: 'Leicester', lat: 52.64, lng: -1.13 },
+  birmingham: { location: 'Birmingham', lat: 52.48, lng: -1.89 },
+};
+type Place = typeof places.coventry;
+
+// An hour between any two different places, none within one
+const hourApart: RoutingProvider = {
+  name: 'fixed',
+  route: async ({ from, to }) => ({
+    distanceMiles: 0,
+    drivingMinutes: from.lat === to.lat && from.lng === to.lng ? 0 : 60,
+    trafficAware: false,
+    provider: 'fixed',
+  }),
+};
+
+const job = (id: string | undefined, from: Place, to: Place, start: Date, end: Date): FeasibilityJob => ({
+  id,
+  fromLocation: from.location, fromLat: from.lat, fromLng: from.lng,
+  toLocation: to.location, toLat: to.lat, toLng: to.lng,
+  estimatedStartTime: start,
+  estimatedEndTime: end,
+});
+
+test('flags overlaps, unreachable pickups, tight connections and short jobs', async () => {
+  const day = [
+    job('morning', places.coventry, places.leicester, at(9), at(11)),
+    job('evening', places.coventry, places.birmingham, at(17), at(19)),
+  ];
+  const check = (start: Date, end: Date, from = places.birmingham, to = places.coventry) =>
+    checkJobFeasibility(job(undefined, from, to, start, end), day, hourApart);
+
+  const overlapping = await check(at(10, 30), at(12, 30));
+  expect(overlapping.feasible).toBe(false);
+  expect(overlapping.errors).toEqual([
+    { code: 'overlap', message: expect.stringContaining('Coventry → Leicester'), field: 'estimatedStartTime', relatedJobId: 'morning' },
+  ]);
+
+  // Leicester to Birmingham takes an hour; half an hour isn't enough
+  const unreachable = await check(at(11, 30), at(13, 30));
+  expect(unreachable.errors.map(e => [e.code, e.relatedJobId])).toEqual([['unreachable', 'morning']]);
+
+  // Enough to drive it, but not much more
+  const tight = await check(at(12, 15), at(14, 15));
+  expect(tight.feasible).toBe(true);
+  expect(tight.warnings.map(w => [w.code, w.field])).toEqual([['tight-connection', 'estimatedStartTime']]);
+
+  // The inspection and the drive don't fit in half an hour
+  const short = await check(at(13), at(13, 30));
+  expect(short.errors.map(e => [e.code, e.field])).toEqual([['job-too-short', 'estimatedEndTime']]);
+
+  // Picking up where the morning job dropped off, and dropping off where the evening one starts
+  const connected = await check(at(11), at(17), places.leicester, places.coventry);
+  expect(connected).toEqual({ feasible: true, errors: [], warnings: [] });
+
+  // Dropping off too far from the evening pickup
+  const late = await check(at(14), at(16, 30), places.leicester, places.birmingham);
+  expect(late.errors.map(e => [e.code, e.field, e.relatedJobId])).toEqual([['unreachable', 'estimatedEndTime', 'evening']]);
+
+  expect((await check(at(13), at(13))).errors.map(e => e.code)).toEqual(['invalid-times']);
+});
+
+test('checks edits against the rest of the day and the working-day limits', async () => {
+  const { coventry, leicester } = places;
+  const day = [
+    job('first', coventry, leicester, at(6), at(10)),
+    job('second', leicester, coventry, at(10), at(14)),
+    job('third', coventry, leicester, at(14), at(16)),
+  ];
+
+  // Moving a job later doesn't clash with where it used to be
+  const moved = await checkJobFeasibility({ ...day[2], estimatedEndTime: at(18, 30) }, day, hourApart);
+  expect(moved.errors).toEqual([]);
+  // 3h15 + 3h15 + 3h45 behind the wheel, after the inspections
+  expect(moved.warnings.map(w => w.code)).toEqual(['driving-hours']);
+
+  // Finishing at 19:30 makes a 13h30 day
+  const long = await checkJobFeasibility({ ...day[2], estimatedEndTime: at(19, 30) }, day, hourApart);
+  expect(long.errors).toEqual([
+    { code: 'working-day', message: expect.stringContaining('06:00–19:30'), field: 'estimatedEndTime' },
+  ]);
+
+  // Checked-in jobs are placed by when they actually happened
+  const ranLate = day.map(j => j.id === 'second' ? { ...j, actualStartTime: at(10), actualEndTime: at(14, 30) } : j);
+  const clash = await checkJobFeasibility(day[2], ranLate, hourApart);
+  expect(clash.errors.map(e => [e.code, e.relatedJobId])).toEqual([['overlap', 'second']]);
+});
+
+test('falls back to the speed model when routing fails', async () => {
+  const failing: RoutingProvider = {
+    name: 'down',
+    route: async () => { throw new RoutingError('down', 'unreachable'); },
+  };
+  const { coventry, leicester, birmingham } = places;
+  const report = await checkJobFeasibility(
+    job(undefined, birmingham, coventry, at(11, 5), at(13)),
+    [job('morning', coventry, leicester, at(9), at(11))],
+    failing,
+  );
+  expect(report.errors.map(e => e.code)).toEqual(['unreachable']);
+  expect(report.errors[0].message).toMatch(/about \d+ min by car, but only 5 min/);
+});
@@ -0,0 +1,160 @@
+import { test, expect } from '@playwright/test';
+import { MemStorage } from '../server/storage';
+import { deriveScheduleLifts, syncScheduleLifts, withdrawJobLifts } from '../server/schedule-lifts';
+import { bookLift } from './fixtures/lifts';
+
+const at = (h: number, min = 0) => new Date(2025, 2, 5, h, min);
+const now = at(7);
+
+const places = {
+  birmingham: { location: 'Birmingham', lat: 52.48, lng: -1.89 },
+  coventry: { location: 'Coventry', lat: 52.41, lng: -1.51 },
+  coventryStation: { location: 'Coventry Station', lat: 52.4005, lng: -1.5135 },
+  leicester: { location: 'Leicester', lat: 52.64, lng: -1.13 },
+  nottingham: { location: 'Nottingham', lat: 52.95, lng: -1.15 },
+};
+type Place = typeof places.coventry;
+
+async function driverDay() {
+  const storage = new MemStorage();
+  const driver = await storage.createUser({ username: 'plates', password: 'hashed', name: 'Trade Plates' });
+  await storage.updateUserVerification(driver.id, { verified: true, tradePlateDoc: null, insuranceDoc: null });
+  const schedule = await storage.createSchedule({ userId: driver.id, date: '2025-03-05' });
+  const addJob = (order: number, from: Place, to: Place, start: Date, end: Date) => storage.createJob({
+    scheduleId: schedule.id,
+    fromLocation: from.location, fromLat: from.lat, fromLng: from.lng,
+    toLocation: to.location, toLat: to.lat, toLng: to.lng,
+    estimatedStartTime: start,
+    estimatedEndTime: end,
+    orderInSchedule: order,
+  });
+  return { storage, driver, schedule, addJob };
+}
+
+test('derives an offer per job leg and a request per dead-leg', async () => {
+  const { storage, driver, schedule, addJob } = await driverDay();
+  // Entered out of order; the schedule's order decides which pickup follows which dropoff
+  const second = await addJob(2, places.leicester, places.nottingham, at(13), at(14, 30));
+  const first = await addJob(1, places.birmingham, places.coventry, at(9), at(11, 30));
+  // Next pickup where the last dropoff was: no dead-leg request
+  const third = await addJob(3, places.nottingham, places.coventryStation, at(15), at(15, 45));
+
+  const derived = deriveScheduleLifts(driver.id, await storage.getJobsByScheduleId(schedule.id), now);
+  expect(derived.offers.size).toBe(3);
+  expect(Array.from(derived.requests.keys())).toEqual([first.id]);
+
+  const created: string[] = [];
+  const changes = await syncScheduleLifts(storage, schedule.id, {
+    onOfferCreated: (offer) => { created.push(offer.id); },
+    onRequestCreated: (request) => { created.push(request.id); },
+  }, now);
+  expect(changes.createdOffers).toHaveLength(3);
+  expect(created).toHaveLength(4);
+
+  const offer = changes.createdOffers.find(o => o.sourceJobId === first.id);
+  expect(offer).toMatchObject({
+    driverId: driver.id, fromLocation: 'Birmingham', toLocation: 'Coventry',
+    availableSeats: 1, autoGenerated: true, status: 'available',
+  });
+  // The car leaves after its inspection and arrives by the job's end
+  expect(offer?.departureTime).toEqual(at(9, 45));
+  expect(offer?.latestArrive).toEqual(at(11, 30));
+
+  const deadLeg = changes.createdRequests.find(r => r.sourceJobId === first.id);
+  expect(deadLeg).toMatchObject({ requesterId: driver.id, fromLocation: 'Coventry', toLocation: 'Leicester', autoGenerated: true, status: 'active' });
+  expect(deadLeg?.earliestDepart).toEqual(at(11, 30));
+  expect(deadLeg?.latestArrive).toEqual(at(13));
+  expect(changes.createdRequests.find(r => r.sourceJobId === second.id || r.sourceJobId === third.id)).toBeUndefined();
+
+  // Nothing changed, nothing to do
+  const again = await syncScheduleLifts(storage, schedule.id, {}, now);
+  expect(Object.values(again).every(list => list.length === 0)).toBe(true);
+});
+
+test('follows edits, check-ins and check-outs', async () => {
+  const { storage, schedule, addJob } = await driverDay();
+  const first = await addJob(1, places.birmingham, places.coventry, at(9), at(11, 30));
+  const second = await addJob(2, places.leicester, places.nottingham, at(13), at(14, 30));
+  await syncScheduleLifts(storage, schedule.id, {}, now);
+  const [offer] = await storage.getLiftOffersBySourceJobIds([first.id]);
+  const [request] = await storage.getLiftRequestsBySourceJobIds([first.id]);
+
+  // The next pickup moves later: the dead-leg window moves with it, in place
+  await storage.updateJob(second.id, { estimatedStartTime: at(13, 30) });
+  const edited = await syncScheduleLifts(storage, schedule.id, {}, now);
+  expect(edited.updatedRequests.map(r => r.id)).toEqual([request.id]);
+  expect((await storage.getLiftRequest(request.id))?.latestArrive).toEqual(at(13, 30));
+
+  // Checking in early moves the offer's departure; checking out closes the leg and starts the dead-leg
+  const changed: string[] = [];
+  await storage.updateJobStatus(first.id, 'in-progress', at(8, 40));
+  await syncScheduleLifts(storage, schedule.id, { onOfferChanged: (o) => { changed.push(`${o.id}:${o.status}`); } }, at(8, 40));
+  expect((await storage.getLiftOffer(offer.id))?.departureTime).toEqual(at(9, 25));
+  await storage.updateJobStatus(first.id, 'completed', undefined, at(11, 10));
+  await syncScheduleLifts(storage, schedule.id, { onOfferChanged: (o) => { changed.push(`${o.id}:${o.status}`); } }, at(11, 10));
+  expect(changed).toEqual([`${offer.id}:available`, `${offer.id}:completed`]);
+  expect((await storage.getLiftRequest(request.id))?.requestedTime).toEqual(at(11, 10));
+
+  // Starting the next job means the driver made it: the dead-leg is done
+  await storage.updateJobStatus(second.id, 'in-progress', at(13, 25));
+  const started = await syncScheduleLifts(storage, schedule.id, {}, at(13, 25));
+  expect(started.withdrawnRequests.map(r => [r.id, r.status])).toEqual([[request.id, 'fulfilled']]);
+});
+
+test('re-derives dead-legs around a deleted job and leaves fulfilled ones alone', async () => {
+  const { storage, schedule, addJob } = await driverDay();
+  const first = await addJob(1, places.birmingham, places.coventry, at(9), at(11, 30));
+  const middle = await addJob(2, places.leicester, places.nottingham, at(13), at(14, 30));
+  await addJob(3, places.birmingham, places.coventry, at(16), at(17));
+  await syncScheduleLifts(storage, schedule.id, {}, now);
+  const [firstRequest] = await storage.getLiftRequestsBySourceJobIds([first.id]);
+
+  const withdrawn = await withdrawJobLifts(storage, middle.id);
+  expect(withdrawn.offers.map(o => o.status)).toEqual(['cancelled']);
+  expect(withdrawn.requests.map(r => r.status)).toEqual(['cancelled']);
+  await storage.deleteJob(middle.id);
+  await syncScheduleLifts(storage, schedule.id, {}, now);
+
+  // Coventry → Birmingham now, on the same request
+  expect(await storage.getLiftRequest(firstRequest.id)).toMatchObject({ toLocation: 'Birmingham', status: 'active' });
+  expect((await storage.getLiftRequest(firstRequest.id))?.latestArrive).toEqual(at(16));
+  expect(await storage.getLiftOffer(withdrawn.offers[0].id)).toMatchObject({ status: 'cancelled', sourceJobId: null });
+
+  // A dead-leg already sorted by a booking is neither reopened nor posted again
+  await storage.updateLiftRequest(firstRequest.id, { status: 'fulfilled' });
+  await storage.updateJob(first.id, { estimatedEndTime: at(11) });
+  const later = await syncScheduleLifts(storage, schedule.id, {}, now);
+  expect(later.createdRequests).toEqual([]);
+  expect(later.updatedRequests).toEqual([]);
+  expect(await storage.getLiftRequestsBySourceJobIds([first.id])).toHaveLength(1);
+});
+
+test('leaves offers with passengers booked where they are until the bookings are settled', async () => {
+  const { storage, schedule, addJob } = await driverDay();
+  const passenger = await storage.createUser({ username: 'rider', password: 'hashed', name: 'Rider' });
+  const first = await addJob(1, places.birmingham, places.coventry, at(9), at(11, 30));
+  const second = await addJob(2, places.leicester, places.nottingham, at(13), at(14, 30));
+  await syncScheduleLifts(storage, schedule.id, {}, now);
+  const [firstOffer] = await storage.getLiftOffersBySourceJobIds([first.id]);
+  const [secondOffer] = await storage.getLiftOffersBySourceJobIds([second.id]);
+  const accepted = await bookLift(storage, firstOffer, passenger.id, 'accepted');
+  await bookLift(storage, secondOffer, passenger.id);
+  expect(await storage.getLiftOffer(firstOffer.id)).toMatchObject({ status: 'full', availableSeats: 0 });
+
+  // The job moving doesn't move the lift the passenger booked, nor reopen it
+  await storage.updateJob(first.id, { estimatedStartTime: at(10), estimatedEndTime: at(12) });
+  const moved = await syncScheduleLifts(storage, schedule.id, {}, now);
+  expect(moved.updatedOffers).toEqual([]);
+  expect(await storage.getLiftOffer(firstOffer.id)).toMatchObject({ status: 'full', departureTime: firstOffer.departureTime });
+
+  // Nor does withdrawing a job whose lift has a booking request pending
+  const withdrawn = await withdrawJobLifts(storage, second.id);
+  expect(withdrawn.offers).toEqual([]);
+  expect((await storage.getLiftOffer(secondOffer.id))?.status).toBe('available');
+
+  // Once the passenger withdraws, the schedule owns the offer again
+  await storage.transitionLiftBooking(accepted.id, 'accepted', 'cancelled', passenger.id);
+  const settled = await syncScheduleLifts(storage, schedule.id, {}, now);
+  expect(settled.updatedOffers.map(o => o.id)).toEqual([firstOffer.id]);
+  expect((await storage.getLiftOffer(firstOffer.id))?.latestArrive).toEqual(at(12));
+});
@@ -0,0 +1,662 @@
+import { test, expect } from '@playwright/test';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import * as schema from '../shared/schema';
+import { MemStorage, DrizzleStorage, type IStorage } from '../server/storage';
+import { migrateUp } from '../server/migrator';
+
+// Every IStorage backend must pass the same suite
+
+const backends: { name: string; create: () => Promise<IStorage> }[] = [
+  { name: 'MemStorage', create: async () => new MemStorage() },
+  {
+    name: 'DrizzleStorage',
+    create: async () => {
+      const db = drizzle(new PGlite(), { schema });
+      await migrateUp(db);
+      return new DrizzleStorage(db);
+    },
+  },
+];
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+for (const backend of backends) {
+  test.describe(`${backend.name} conformance`, () => {
+    let storage: IStorage;
+
+    test.beforeEach(async () => {
+      storage = await backend.create();
+    });
+
+    async function createDriver(username: string) {
+      return storage.createUser({ username, password: 'hashed', name: `Driver ${username}` });
+    }
+
+    test('creates users with call signs and initial stats', async () => {
+      const user = await createDriver('alice');
+      expect(user.callSign).toMatch(/^[A-Z]{2}\d{4}$/);
+      expect(user.subscriptionStatus).toBe('inactive');
+      expect(await storage.getUserByUsername('alice')).toMatchObject({ id: user.id });
+
+      const stats = await storage.getUserStats(user.id);
+      expect(stats).toMatchObject({ reputationScore: 0, tier: 'bronze', totalLiftsShared: 0 });
+
+      const updated = await storage.updateUser(user.id, { name: 'Alice Smith' });
+      expect(updated?.name).toBe('Alice Smith');
+      await storage.updateUserSubscription(user.id, { stripeCustomerId: 'cus_1', subscriptionStatus: 'active' });
+      expect((await storage.getUserByStripeCustomerId('cus_1'))?.id).toBe(user.id);
+      expect(await storage.updateUser('missing', { name: 'x' })).toBeUndefined();
+    });
+
+    test('manages schedules and jobs with check-in/out', async () => {
+      const user = await createDriver('bob');
+      const schedule = await storage.createSchedule({ userId: user.id, date: '2025-01-01' });
+      expect(await storage.getScheduleByUserAndDate(user.id, '2025-01-01')).toMatchObject({ id: schedule.id });
+
+      const base = {
+        scheduleId: schedule.id,
+        fromLocation: 'Leeds', fromLat: 53.8, fromLng: -1.55,
+        toLocation: 'York', toLat: 53.96, toLng: -1.08,
+        estimatedStartTime: hoursFromNow(1),
+        estimatedEndTime: hoursFromNow(2),
+      };
+      const second = await storage.createJob({ ...base, orderInSchedule: 2 });
+      const first = await storage.createJob({ ...base, orderInSchedule: 1 });
+      expect(first.status).toBe('pending');
+      expect((await storage.getJobsByScheduleId(schedule.id)).map(j => j.id)).toEqual([first.id, second.id]);
+
+      // Checked in offline a minute ago: the server keeps the time it got the check-in too
+      const checkedIn = new Date(Date.now() - 60_000);
+      const started = await storage.updateJobStatus(first.id, 'in-progress', checkedIn, undefined, 53.8, -1.55);
+      expect(started).toMatchObject({ status: 'in-progress', checkInLat: 53.8, checkOutLat: null, checkOutReceivedAt: null });
+      expect(started?.actualStartTime?.getTime()).toBe(checkedIn.getTime());
+      expect(started!.checkInReceivedAt!.getTime()).toBeGreaterThan(checkedIn.getTime());
+      const finished = await storage.updateJobStatus(first.id, 'completed', undefined, new Date(), undefined, undefined, 53.96, -1.08);
+      expect(finished).toMatchObject({ status: 'completed', checkInLat: 53.8, checkOutLat: 53.96 });
+      expect(finished?.actualStartTime).toBeInstanceOf(Date);
+
+      expect((await storage.getRecentCheckIns(1)).map(j => j.id)).toEqual([first.id]);
+      const drivers = await storage.findMatchingDrivers(53.96, -1.08, 5, 1);
+      expect(drivers).toHaveLength(1);
+      expect(drivers[0].scheduleUserId).toBe(user.id);
+
+      expect(await storage.updateJob(second.id, { toLocation: 'Hull' })).toMatchObject({ toLocation: 'Hull' });
+      expect(await storage.deleteJob(second.id)).toBe(true);
+      expect(await storage.deleteJob(second.id)).toBe(false);
+    });
+
+    test('finds matching schedules for other drivers only', async () => {
+      const a = await createDriver('carol');
+      const b = await createDriver('dave');
+      const end = hoursFromNow(3);
+      const job = (scheduleId: string, toLat: number, minutesOffset: number) => ({
+        scheduleId,
+        fromLocation: 'Start', fromLat: 52.4, fromLng: -1.9,
+        toLocation: 'Coventry', toLat, toLng: -1.51,
+        estimatedStartTime: hoursFromNow(1),
+        estimatedEndTime: new Date(end.getTime() + minutesOffset * 60000),
+        orderInSchedule: 1,
+      });
+      const scheduleA = await storage.createSchedule({ userId: a.id, date: '2025-01-02' });
+      const scheduleB = await storage.createSchedule({ userId: b.id, date: '2025-01-02' });
+      const source = await storage.createJob(job(scheduleA.id, 52.41, 0));
+      await storage.createJob(job(scheduleA.id, 52.41, 0)); // same driver, ignored
+      const near = await storage.createJob(job(scheduleB.id, 52.412, 20));
+      await storage.createJob(job(scheduleB.id, 52.412, 120)); // outside the time window
+      await storage.createJob(job(scheduleB.id, 53.5, 0)); // too far away
+
+      const matches = await storage.findMatchingSchedules(source.id, 3, 60);
+      expect(matches.map(m => m.job.id)).toEqual([near.id]);
+      expect(matches[0]).toMatchObject({ scheduleUserId: b.id, userName: b.name });
+      expect(matches[0].timeDifferenceMinutes).toBeCloseTo(20);
+
+      // A block either way stops the match for both drivers
+      await storage.createBlock({ blockerId: b.id, blockedUserId: a.id });
+      expect(await storage.findMatchingSchedules(source.id, 3, 60)).toEqual([]);
+      expect(await storage.findMatchingSchedules(near.id, 3, 60)).toEqual([]);
+      await storage.deleteBlock(b.id, a.id);
+
+      const notes = await storage.createScheduleMatchMessage(a.id, b.id, 'Coventry', '11:30', 0.4);
+      expect(notes).toHaveLength(2);
+      expect(notes[0].content).toContain(b.callSign);
+      expect(notes[0].content).toContain('400m');
+    });
+
+    test('stores lift offers and requests with defaults', async () => {
+      const driver = await createDriver('erin');
+      const offer = await storage.createLiftOffer({
+        driverId: driver.id,
+        fromLocation: 'Leeds', fromLat: 53.8, fromLng: -1.55,
+        toLocation: 'Sheffield', toLat: 53.38, toLng: -1.47,
+        departureTime: hoursFromNow(2),
+      });
+      expect(offer).toMatchObject({
+        availableSeats: 1, detourKm: 10, priceType: 'Free', vehicleType: 'Hatchback',
+        visibility: 'Everyone', repeatPattern: 'None', autoGenerated: false, status: 'available',
+        fromW3W: null, priceValue: null, notes: null,
+      });
+      expect((await storage.getLiftOffersByDriverId(driver.id)).map(o => o.id)).toEqual([offer.id]);
+      expect(await storage.updateLiftOfferStatus(offer.id, 'booked')).toMatchObject({ status: 'booked' });
+
+      const request = await storage.createLiftRequest({
+        requesterId: driver.id,
+        fromLocation: 'Leeds', fromLat: 53.8, fromLng: -1.55,
+        toLocation: 'Sheffield', toLat: 53.38, toLng: -1.47,
+        requestedTime: hoursFromNow(2),
+      });
+      expect(request).toMatchObject({ status: 'active', hasBagsKit: false, maxBudget: null });
+      expect((await storage.getLiftRequestsByRequesterId(driver.id)).map(r => r.id)).toEqual([request.id]);
+
+      expect(await storage.deleteLiftOffer(offer.id)).toBe(true);
+      expect(await storage.getLiftOffer(offer.id)).toBeUndefined();
+      expect(await storage.deleteLiftRequest(request.id)).toBe(true);
+      expect(await storage.deleteLiftRequest(request.id)).toBe(false);
+    });
+
+    test('links recurring offer occurrences to their template once per date', async () => {
+      const driver = await createDriver('fay');
+      const base = {
+        driverId: driver.id,
+        fromLocation: 'Leeds', fromLat: 53.8, fromLng: -1.55,
+        toLocation: 'York', toLat: 53.96, toLng: -1.08,
+      };
+      const template = await storage.createLiftOffer({ ...base, departureTime: hoursFromNow(2), recurrenceRule: 'FREQ=DAILY', status: 'recurring' });
+      expect(template).toMatchObject({ recurrenceRule: 'FREQ=DAILY', templateId: null, occurrenceDate: null });
+      expect((await storage.getRecurringLiftOfferTemplates()).map(o => o.id)).toEqual([template.id]);
+
+      const later = await storage.createLiftOfferOccurrence({ ...base, departureTime: hoursFromNow(26), templateId: template.id, occurrenceDate: '2025-03-06', autoGenerated: true });
+      const sooner = await storage.createLiftOfferOccurrence({ ...base, departureTime: hoursFromNow(3), templateId: template.id, occurrenceDate: '2025-03-05', autoGenerated: true });
+      expect(later).toMatchObject({ templateId: template.id, autoGenerated: true, status: 'available' });
+      expect(await storage.createLiftOfferOccurrence({ ...base, departureTime: hoursFromNow(26), templateId: template.id, occurrenceDate: '2025-03-06' })).toBeUndefined();
+      expect((await storage.getLiftOfferOccurrences(template.id)).map(o => o.id)).toEqual([sooner!.id, later!.id]);
+
+      expect(await storage.updateLiftOffer(later!.id, { availableSeats: 3, notes: 'Leaving late' })).toMatchObject({ availableSeats: 3, notes: 'Leaving late', occurrenceDate: '2025-03-06' });
+      expect(await storage.updateLiftOffer('missing', { notes: 'x' })).toBeUndefined();
+
+      // Occurrences outlive their template
+      expect(await storage.deleteLiftOffer(template.id)).toBe(true);
+      expect(await storage.getLiftOffer(later!.id)).toMatchObject({ templateId: null, occurrenceDate: '2025-03-06' });
+    });
+
+    test('links schedule-derived lifts to their job and keeps them when it goes', async () => {
+      const driver = await createDriver('gus');
+      const schedule = await storage.createSchedule({ userId: driver.id, date: '2025-03-05' });
+      const job = await storage.createJob({
+        scheduleId: schedule.id,
+        fromLocation: 'Coventry', fromLat: 52.41, fromLng: -1.51,
+        toLocation: 'Leicester', toLat: 52.64, toLng: -1.13,
+        estimatedStartTime: hoursFromNow(1),
+        estimatedEndTime: hoursFromNow(2),
+        orderInSchedule: 1,
+      });
+      const route = { fromLocation: 'Leicester', fromLat: 52.64, fromLng: -1.13, toLocation: 'Derby', toLat: 52.92, toLng: -1.47 };
+      const offer = await storage.createLiftOffer({ ...route, driverId: driver.id, departureTime: hoursFromNow(1), autoGenerated: true, sourceJobId: job.id });
+      const request = await storage.createLiftRequest({ ...route, requesterId: driver.id, requestedTime: hoursFromNow(2), autoGenerated: true, sourceJobId: job.id });
+      const manual = await storage.createLiftRequest({ ...route, requesterId: driver.id, requestedTime: hoursFromNow(2) });
+      expect(manual).toMatchObject({ autoGenerated: false, sourceJobId: null });
+
+      expect((await storage.getLiftOffersBySourceJobIds([job.id])).map(o => o.id)).toEqual([offer.id]);
+      expect((await storage.getLiftRequestsBySourceJobIds([job.id, 'other'])).map(r => r.id)).toEqual([request.id]);
+      expect(await storage.getLiftRequestsBySourceJobIds([])).toEqual([]);
+
+      expect(await storage.updateLiftRequest(request.id, { status: 'cancelled', latestArrive: hoursFromNow(3) })).toMatchObject({ status: 'cancelled', sourceJobId: job.id });
+      expect(await storage.updateLiftRequest('missing', { status: 'cancelled' })).toBeUndefined();
+
+      // Derived lifts outlive their job
+      expect(await storage.deleteJob(job.id)).toBe(true);
+      expect(await storage.getLiftOffer(offer.id)).toMatchObject({ sourceJobId: null, autoGenerated: true });
+      expect(await storage.getLiftRequest(request.id)).toMatchObject({ sourceJobId: null, status: 'cancelled' });
+    });
+
+    test('books seats on lift offers and credits completed lifts', async () => {
+      const driver = await createDriver('lena');
+      const alice = await createDriver('mia');
+      const bob = await createDriver('ned');
+      await storage.createBadge({ id: 'first-lift', name: 'First Lift', description: 'd', category: 'milestone', icon: 'x', requirement: 'r', threshold: 1 });
+      const offer = await storage.createLiftOffer({
+        driverId: driver.id,
+        fromLocation: 'Leeds', fromLat: 53.8, fromLng: -1.55,
+        toLocation: 'York', toLat: 53.96, toLng: -1.08,
+        departureTime: hoursFromNow(2),
+        availableSeats: 2,
+      });
+      const request = await storage.createLiftRequest({
+        requesterId: alice.id,
+        fromLocation: 'Leeds', fromLat: 53.8, fromLng: -1.55,
+        toLocation: 'York', toLat: 53.96, toLng: -1.08,
+        requestedTime: hoursFromNow(2),
+      });
+
+      const first = await storage.createLiftBooking({ offerId: offer.id, passengerId: alice.id, requestId: request.id });
+      const second = await storage.createLiftBooking({ offerId: offer.id, passengerId: bob.id, seats: 2 });
+      expect(first).toMatchObject({ status: 'requested', seats: 1, acceptedAt: null, cancelledBy: null });
+      expect((await storage.getLiftBookingsByOfferId(offer.id)).map(b => b.id)).toEqual([first.id, second.id]);
+
+      // Stale compare-and-set and over-booking both fail without side effects
+      expect(await storage.transitionLiftBooking(first.id, 'accepted', 'picked-up', driver.id)).toBeUndefined();
+      const [accepted, overbooked] = await Promise.all([
+        storage.transitionLiftBooking(first.id, 'requested', 'accepted', driver.id),
+        storage.transitionLiftBooking(second.id, 'requested', 'accepted', driver.id),
+      ]);
+      expect(accepted?.acceptedAt).toBeInstanceOf(Date);
+      expect(overbooked).toBeUndefined();
+      expect(await storage.getLiftBooking(second.id)).toMatchObject({ status: 'requested' });
+      expect(await storage.getLiftOffer(offer.id)).toMatchObject({ availableSeats: 1, status: 'available' });
+      expect((await storage.getLiftRequest(request.id))?.status).toBe('fulfilled');
+
+      const bobSingle = await storage.createLiftBooking({ offerId: offer.id, passengerId: bob.id });
+      await storage.transitionLiftBooking(bobSingle.id, 'requested', 'accepted', driver.id);
+      expect(await storage.getLiftOffer(offer.id)).toMatchObject({ availableSeats: 0, status: 'full' });
+      const withdrawn = await storage.transitionLiftBooking(bobSingle.id, 'accepted', 'cancelled', bob.id);
+      expect(withdrawn).toMatchObject({ status: 'cancelled', cancelledBy: bob.id });
+      expect(await storage.getLiftOffer(offer.id)).toMatchObject({ availableSeats: 1, status: 'available' });
+
+      await storage.transitionLiftBooking(first.id, 'accepted', 'picked-up', driver.id);
+      const completed = await storage.transitionLiftBooking(first.id, 'picked-up', 'completed', alice.id);
+      expect(completed?.completedAt).toBeInstanceOf(Date);
+      expect(await storage.getUserStats(driver.id)).toMatchObject({ totalLiftsShared: 1, totalLiftsOffered: 1 });
+      expect(await storage.getUserStats(alice.id)).toMatchObject({ totalLiftsShared: 1, totalLiftsRequested: 1 });
+      expect((await storage.checkAndAwardBadges(alice.id)).map(b => b.badgeId)).toEqual(['first-lift']);
+      expect((await storage.getLiftBookingsByPassengerId(bob.id)).map(b => b.status)).toEqual(['requested', 'cancelled']);
+
+      await expect(storage.deleteLiftOffer(offer.id)).rejects.toThrow();
+      expect(await storage.getLiftBooking(first.id)).toMatchObject({ status: 'completed' });
+    });
+
+    test('tracks match watches and alerts each offer/request pair once', async () => {
+      const driver = await createDriver('olga');
+      const passenger = await createDriver('pete');
+      const trip = { fromLocation: 'Leeds', fromLat: 53.8, fromLng: -1.55, toLocation: 'York', toLat: 53.96, toLng: -1.08 };
+      const offer = await storage.createLiftOffer({ ...trip, driverId: driver.id, departureTime: hoursFromNow(2) });
+      const request = await storage.createLiftRequest({ ...trip, requesterId: passenger.id, requestedTime: hoursFromNow(2) });
+
+      const watch = await storage.createMatchSubscription({ userId: driver.id, liftOfferId: offer.id, expiresAt: hoursFromNow(4) });
+      await storage.createMatchSubscription({ userId: passenger.id, liftRequestId: request.id, expiresAt: hoursFromNow(4), minScore: 80 });
+      expect(watch).toMatchObject({ status: 'active', minScore: 60, liftRequestId: null });
+      expect(await storage.getActiveMatchSubscriptions()).toHaveLength(2);
+
+      expect(await storage.updateMatchSubscriptionStatus(watch.id, 'cancelled')).toMatchObject({ status: 'cancelled' });
+      expect((await storage.getActiveMatchSubscriptions()).map(s => s.userId)).toEqual([passenger.id]);
+      expect(await storage.getMatchSubscriptionsByUserId(driver.id)).toHaveLength(1);
+
+      expect(await storage.recordLiftMatchAlert({ offerId: offer.id, requestId: request.id, score: 75 })).toMatchObject({ score: 75 });
+      expect(await storage.recordLiftMatchAlert({ offerId: offer.id, requestId: request.id, score: 90 })).toBeUndefined();
+
+      // Watches and alerts go with their offer or request
+      expect(await storage.deleteLiftRequest(request.id)).toBe(true);
+      expect(await storage.getActiveMatchSubscriptions()).toEqual([]);
+      const replacement = await storage.createLiftRequest({ ...trip, requesterId: passenger.id, requestedTime: hoursFromNow(2) });
+      expect(await storage.recordLiftMatchAlert({ offerId: offer.id, requestId: replacement.id, score: 70 })).toBeDefined();
+    });
+
+    test('summarises conversations with unread counts', async () => {
+      const me = await createDriver('frank');
+      const other = await createDriver('gina');
+      await storage.createMessage({ senderId: other.id, receiverId: me.id, content: 'first' });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await storage.createMessage({ senderId: me.id, receiverId: other.id, content: 'second' });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await storage.createMessage({ senderId: other.id, receiverId: me.id, content: 'third' });
+
+      expect((await storage.getMessagesBetweenUsers(me.id, other.id)).map(m => m.content))
+        .toEqual(['first', 'second', 'third']);
+      expect(await storage.getConversations(me.id)).toEqual([
+        expect.objectContaining({ userId: other.id, name: other.callSign, lastMessage: 'third', unreadCount: 2 }),
+      ]);
+      expect((await storage.getConversations(other.id))[0].unreadCount).toBe(1);
+
+      // A message queued offline goes in at the time it was written
+      const written = new Date(Date.now() - 60_000);
+      const queued = await storage.createMessage({ senderId: me.id, receiverId: other.id, content: 'queued' }, written);
+      expect(queued.createdAt?.getTime()).toBe(written.getTime());
+      expect(queued.receivedAt!.getTime()).toBeGreaterThan(written.getTime());
+      expect((await storage.getMessagesBetweenUsers(me.id, other.id))[0].content).toBe('queued');
+
+      const block = await storage.createBlock({ blockerId: other.id, blockedUserId: me.id });
+      expect(await storage.getBlockedUserIds(me.id)).toEqual([other.id]);
+      expect(await storage.getBlockedUserIds(other.id)).toEqual([me.id]);
+      // Blocking twice keeps the one block; the conversation drops out for both of them
+      expect((await storage.createBlock({ blockerId: other.id, blockedUserId: me.id })).id).toBe(block.id);
+      expect((await storage.getBlocksByBlockerId(other.id)).map(b => b.blockedUserId)).toEqual([me.id]);
+      expect(await storage.getBlocksByBlockerId(me.id)).toEqual([]);
+      expect(await storage.getConversations(me.id)).toEqual([]);
+      expect(await storage.getConversations(other.id)).toEqual([]);
+
+      expect(await storage.deleteBlock(me.id, other.id)).toBe(false);
+      expect(await storage.deleteBlock(other.id, me.id)).toBe(true);
+      expect(await storage.getBlockedUserIds(me.id)).toEqual([]);
+      expect(await storage.getConversations(me.id)).toHaveLength(1);
+    });
+
+    test('queues reports and closes each one once', async () => {
+      const reporter = await createDriver('olga');
+      const reported = await createDriver('piet');
+      const moderator = await createDriver('quinn');
+      const first = await storage.createReport({ reporterId: reporter.id, reportedUserId: reported.id, reason: 'unsafe_driving' });
+      expect(first).toMatchObject({ status: 'pending', description: null, reviewedBy: null, action: null, reviewedAt: null });
+      expect((await storage.getOpenReport(reporter.id, reported.id))?.id).toBe(first.id);
+      expect(await storage.getOpenReport(reported.id, reporter.id)).toBeUndefined();
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const second = await storage.createReport({ reporterId: reported.id, reportedUserId: reporter.id, reason: 'spam', description: 'Adverts' });
+      expect((await storage.getReports('pending')).map(r => r.id)).toEqual([first.id, second.id]);
+
+      // Reviewed keeps it open for a later decision
+      const reviewed = await storage.reviewReport(first.id, { status: 'reviewed', reviewedBy: moderator.id, reviewNotes: 'Asked for dashcam footage' });
+      expect(reviewed).toMatchObject({ status: 'reviewed', reviewedBy: moderator.id, reviewNotes: 'Asked for dashcam footage' });
+      expect(reviewed?.reviewedAt).toBeInstanceOf(Date);
+      const actioned = await storage.reviewReport(first.id, { status: 'action_taken', action: 'suspend', reviewedBy: moderator.id });
+      expect(actioned).toMatchObject({ status: 'action_taken', action: 'suspend', reviewNotes: null });
+      expect(await storage.reviewReport(first.id, { status: 'dismissed', reviewedBy: moderator.id })).toBeUndefined();
+      expect(await storage.getOpenReport(reporter.id, reported.id)).toBeUndefined();
+      expect((await storage.getReports('pending')).map(r => r.id)).toEqual([second.id]);
+      expect(await storage.getReports()).toHaveLength(2);
+      expect(await storage.reviewReport('no-such-report', { status: 'dismissed', reviewedBy: moderator.id })).toBeUndefined();
+
+      const until = hoursFromNow(24);
+      expect(await storage.updateUserModeration(reported.id, { accountStatus: 'suspended', suspendedUntil: until, warningCount: 1 }))
+        .toMatchObject({ accountStatus: 'suspended', suspendedUntil: until, warningCount: 1 });
+      expect(await storage.getUser(reported.id)).toMatchObject({ accountStatus: 'suspended', warningCount: 1 });
+    });
+
+    test('moves verification documents through review once and reminds once per step', async () => {
+      const driver = await createDriver('rosa');
+      const moderator = await createDriver('sam');
+      const details = { userId: driver.id, documentNumber: 'TP-1', expiresAt: hoursFromNow(24 * 60), fileName: 'plate.pdf', contentType: 'application/pdf', sizeBytes: 10 };
+      const plate = await storage.createUserDocument({ ...details, type: 'trade_plate', blobKey: 'documents/a' });
+      expect(plate).toMatchObject({ status: 'pending', reviewedBy: null, rejectionReason: null, reminderDays: null });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const insurance = await storage.createUserDocument({ ...details, type: 'insurance', blobKey: 'documents/b' });
+      expect((await storage.getUserDocumentsByUserId(driver.id)).map(d => d.id)).toEqual([insurance.id, plate.id]);
+      expect((await storage.getUserDocumentsByStatus('pending')).map(d => d.id)).toEqual([plate.id, insurance.id]);
+
+      expect(await storage.markUserDocumentReminded(plate.id, 30)).toBeUndefined();
+      const approved = await storage.transitionUserDocument(plate.id, 'pending', 'approved', { reviewedBy: moderator.id });
+      expect(approved).toMatchObject({ status: 'approved', reviewedBy: moderator.id, rejectionReason: null });
+      expect(approved?.reviewedAt).toBeInstanceOf(Date);
+      expect(await storage.transitionUserDocument(plate.id, 'pending', 'rejected', { reviewedBy: moderator.id })).toBeUndefined();
+      expect(await storage.transitionUserDocument(insurance.id, 'pending', 'rejected', { reviewedBy: moderator.id, rejectionReason: 'Blurry' }))
+        .toMatchObject({ status: 'rejected', rejectionReason: 'Blurry' });
+
+      expect((await storage.markUserDocumentReminded(plate.id, 30))?.reminderDays).toBe(30);
+      expect(await storage.markUserDocumentReminded(plate.id, 30)).toBeUndefined();
+      expect((await storage.markUserDocumentReminded(plate.id, 7))?.reminderDays).toBe(7);
+      // Expiring keeps the review trail
+      expect(await storage.transitionUserDocument(plate.id, 'approved', 'expired')).toMatchObject({ status: 'expired', reviewedBy: moderator.id });
+
+      expect(await storage.updateUserVerification(driver.id, { verified: true, tradePlateDoc: '/a', insuranceDoc: null }))
+        .toMatchObject({ verified: true, tradePlateDoc: '/a', insuranceDoc: null });
+    });
+
+    test('recalculates reputation and awards badges from ratings and stats', async () => {
+      const rater = await createDriver('hank');
+      const rated = await createDriver('ivy');
+      await storage.createBadge({ id: 'first-lift', name: 'First Lift', description: 'd', category: 'milestone', icon: 'x', requirement: 'r', threshold: 1 });
+      await storage.createBadge({ id: '10-lifts', name: '10 Lifts', description: 'd', category: 'milestone', icon: 'x', requirement: 'r', threshold: 10 });
+
+      await storage.updateUserStats(rated.id, { punctualityScore: 80, completionRatio: 100, totalLiftsShared: 3 });
+      await storage.createRating({ raterId: rater.id, ratedUserId: rated.id, liftType: 'offer', liftId: 'lift-1', stars: 5 });
+      await storage.createRating({ raterId: rater.id, ratedUserId: rated.id, liftType: 'offer', liftId: 'lift-2', stars: 4 });
+
+      // (4.5 / 5) * 60 + 0.8 * 25 + 1.0 * 15 = 89
+      expect(await storage.calculateReputationScore(rated.id)).toBe(89);
+      expect(await storage.getUserStats(rated.id)).toMatchObject({ reputationScore: 89, tier: 'gold', averageRating: 4.5 });
+      expect((await storage.getRatingForLift(rater.id, 'lift-2'))?.stars).toBe(4);
+      expect(await storage.getRatingForLift(rater.id, 'lift-3')).toBeUndefined();
+
+      const badges = await storage.getUserBadges(rated.id);
+      expect(badges.map(b => b.badgeId)).toEqual(['first-lift']);
+      expect(badges[0].badge.name).toBe('First Lift');
+      expect(await storage.awardBadge(rated.id, 'first-lift')).toBeNull();
+      expect(await storage.checkAndAwardBadges(rated.id)).toEqual([]);
+    });
+
+    test('rates each lift once per rater and settles disputes once', async () => {
+      const rater = await createDriver('lena');
+      const rated = await createDriver('milo');
+      const moderator = await createDriver('nadia');
+      const first = await storage.createRating({ raterId: rater.id, ratedUserId: rated.id, liftType: 'offer', liftId: 'booking-1', stars: 1 });
+      expect(first).toMatchObject({ status: 'active', disputedAt: null });
+      expect(await storage.createRating({ raterId: rater.id, ratedUserId: rated.id, liftType: 'offer', liftId: 'booking-1', stars: 5 })).toBeUndefined();
+      await storage.createRating({ raterId: rater.id, ratedUserId: rated.id, liftType: 'offer', liftId: 'booking-2', stars: 5 });
+      expect((await storage.getUserStats(rated.id))?.averageRating).toBe(3);
+
+      expect(await storage.resolveRatingDispute(first!.id, 'removed', moderator.id)).toBeUndefined();
+      const disputed = await storage.disputeRating(first!.id, 'Retaliation');
+      expect(disputed).toMatchObject({ status: 'disputed', disputeReason: 'Retaliation' });
+      expect(disputed?.disputedAt).toBeInstanceOf(Date);
+      expect(await storage.disputeRating(first!.id, 'Again')).toBeUndefined();
+      expect((await storage.getDisputedRatings()).map(r => r.id)).toEqual([first!.id]);
+
+      const removed = await storage.resolveRatingDispute(first!.id, 'removed', moderator.id, 'Upheld the appeal');
+      expect(removed).toMatchObject({ status: 'removed', resolvedBy: moderator.id, resolutionNotes: 'Upheld the appeal' });
+      expect(await storage.resolveRatingDispute(first!.id, 'upheld', moderator.id)).toBeUndefined();
+      expect((await storage.getRatingsByUserId(rated.id)).map(r => r.stars)).toEqual([5]);
+      expect((await storage.getUserStats(rated.id))?.averageRating).toBe(5);
+      expect((await storage.getRating(first!.id))?.status).toBe('removed');
+      // Settled for good: a removed rating can't be disputed again
+      expect(await storage.disputeRating(first!.id, 'Once more')).toBeUndefined();
+    });
+
+    test('keeps badge progress on unearned rows until the badge is awarded', async () => {
+      const driver = await createDriver('ivan');
+      await storage.createBadge({ id: '10-lifts', name: '10 Lifts', description: 'd', category: 'milestone', icon: 'x', requirement: 'r', threshold: 10 });
+
+      const started = await storage.setBadgeProgress(driver.id, '10-lifts', 30);
+      expect(started).toMatchObject({ badgeId: '10-lifts', progress: 30, earnedAt: null });
+      expect((await storage.setBadgeProgress(driver.id, '10-lifts', 70))?.id).toBe(started?.id);
+      expect(await storage.setBadgeProgress(driver.id, 'no-such-badge', 10)).toBeUndefined();
+      expect(await storage.getUserBadges(driver.id)).toEqual([]);
+
+      const earned = await storage.awardBadge(driver.id, '10-lifts');
+      expect(earned).toMatchObject({ id: started?.id, progress: 100 });
+      expect(earned?.earnedAt).toBeInstanceOf(Date);
+      expect(await storage.setBadgeProgress(driver.id, '10-lifts', 50)).toBeUndefined();
+      expect((await storage.getUserBadgeProgress(driver.id)).map(b => [b.badgeId, b.progress])).toEqual([['10-lifts', 100]]);
+      expect((await storage.getUserBadges(driver.id)).map(b => b.badgeId)).toEqual(['10-lifts']);
+    });
+
+    test('records points once per source and keeps the total in step with the ledger', async () => {
+      const driver = await createDriver('jade');
+      const other = await createDriver('kofi');
+
+      const lift = await storage.recordPoints({ userId: driver.id, points: 50, reason: 'lift-driven', sourceId: 'booking-1' });
+      expect(lift).toMatchObject({ userId: driver.id, points: 50, reason: 'lift-driven', sourceId: 'booking-1' });
+      expect(await storage.recordPoints({ userId: driver.id, points: 50, reason: 'lift-driven', sourceId: 'booking-1' })).toBeUndefined();
+      // Same source, different reason
+      await storage.recordPoints({ userId: driver.id, points: 10, reason: 'on-time-delivery', sourceId: 'booking-1' });
+      await storage.recordPoints({ userId: other.id, points: 20, reason: 'lift-ridden', sourceId: 'booking-1' });
+
+      expect((await storage.getUserStats(driver.id))?.totalPoints).toBe(60);
+      expect((await storage.getPointsLedger(driver.id)).map(e => e.points).sort()).toEqual([10, 50]);
+      const totals = await storage.getPointsTotals();
+      expect(totals.sort((a, b) => b.points - a.points)).toEqual([
+        { userId: driver.id, points: 60 },
+        { userId: other.id, points: 20 },
+      ]);
+      expect(await storage.getPointsTotals(hoursFromNow(1))).toEqual([]);
+
+      expect((await storage.updateUser(driver.id, { leaderboardOptOut: true }))?.leaderboardOptOut).toBe(true);
+    });
+
+    test('ranks, filters and pages the leaderboard', async () => {
+      const [ada, bo, cy, di, ed] = await Promise.all(['ada', 'bo', 'cy', 'di', 'ed'].map(createDriver));
+      const earned: [typeof ada, number, string, string | null][] = [
+        [ada, 120, 'silver', 'North West'], [bo, 80, 'bronze', 'West Midlands'], [cy, 80, 'silver', null],
+        [di, 200, 'gold', 'West Midlands'], [ed, 40, 'bronze', 'North West'],
+      ];
+      for (const [user, points, tier, homeRegion] of earned) {
+        await storage.recordPoints({ userId: user.id, points, reason: 'job-completed', sourceId: `job-${user.id}` });
+        await storage.updateUserStats(user.id, { tier, homeRegion });
+      }
+      await storage.updateUser(di.id, { leaderboardOptOut: true });
+
+      const board = await storage.getLeaderboard({ offset: 0, limit: 10, userId: cy.id });
+      expect(board.entries.map(e => [e.rank, e.name, e.points, e.tier])).toEqual([
+        [1, 'Driver ada', 120, 'silver'], [2, 'Driver bo', 80, 'bronze'], [2, 'Driver cy', 80, 'silver'], [4, 'Driver ed', 40, 'bronze'],
+      ]);
+      expect(board).toMatchObject({ totalEntries: 4, regions: ['North West', 'West Midlands'] });
+      expect(board.currentUser).toMatchObject({ rank: 2, userId: cy.id, region: null });
+
+      const page = await storage.getLeaderboard({ offset: 1, limit: 2, userId: ada.id });
+      expect(page.entries.map(e => e.name)).toEqual(['Driver bo', 'Driver cy']);
+      expect(page).toMatchObject({ totalEntries: 4, currentUser: { rank: 1 } });
+
+      const silver = await storage.getLeaderboard({ tier: 'silver', offset: 0, limit: 10, userId: bo.id });
+      expect(silver.entries.map(e => [e.rank, e.name])).toEqual([[1, 'Driver ada'], [2, 'Driver cy']]);
+      expect(silver.currentUser).toBeNull();
+      const northWest = await storage.getLeaderboard({ region: 'North West', tier: 'bronze', offset: 0, limit: 10 });
+      expect(northWest.entries.map(e => [e.rank, e.name])).toEqual([[1, 'Driver ed']]);
+      expect(northWest.currentUser).toBeUndefined();
+      expect((await storage.getLeaderboard({ since: hoursFromNow(1), offset: 0, limit: 10 })).totalEntries).toBe(0);
+    });
+
+    test('filters check-ins and loader spaces', async () => {
+      const driver = await createDriver('jack');
+      const loader = await createDriver('kate');
+      expect(await storage.updateUserDriverType(loader.id, 'loader')).toMatchObject({ driverType: 'loader' });
+
+      const active = await storage.createCheckIn({ userId: driver.id, driverType: 'driver', lat: 52.49, lng: -1.89, fromTime: new Date(), toTime: hoursFromNow(2) });
+      await storage.createCheckIn({ userId: driver.id, driverType: 'driver', lat: 52.49, lng: -1.89, fromTime: hoursFromNow(-3), toTime: hoursFromNow(-1) });
+      await storage.createCheckIn({ userId: loader.id, driverType: 'loader', lat: 51.5, lng: -0.12, fromTime: new Date(), toTime: hoursFromNow(2) });
+
+      expect(await storage.getActiveCheckIns()).toHaveLength(2);
+      expect(await storage.getCheckInsByUserId(driver.id)).toHaveLength(2);
+      const nearby = await storage.getNearbyCheckIns(52.48, -1.9, 10);
+      expect(nearby.map(c => c.id)).toEqual([active.id]);
+      expect(nearby[0].user.id).toBe(driver.id);
+      expect(await storage.getNearbyCheckIns(51.5, -0.12, 10, 'driver')).toEqual([]);
+      expect(await storage.deleteCheckIn(active.id)).toBe(true);
+
+      const space = await storage.createLoaderSpace({ userId: loader.id, originLocation: 'London' });
+      expect(space).toMatchObject({ status: 'available', spaceAvailablePercent: 100, acceptsCars: true, priceType: 'Quote' });
+      expect((await storage.getAllAvailableLoaderSpaces()).map(s => s.user.id)).toEqual([loader.id]);
+      await storage.updateLoaderSpaceStatus(space.id, 'booked');
+      expect(await storage.getAllAvailableLoaderSpaces()).toEqual([]);
+      expect(await storage.getLoaderSpacesByUserId(loader.id)).toHaveLength(1);
+      expect(await storage.deleteLoaderSpace(space.id)).toBe(true);
+    });
+
+    test('finds and back-fills What3Words locations without coordinates', async () => {
+      const driver = await createDriver('liam');
+      const unresolved = await storage.createCheckIn({ userId: driver.id, driverType: 'driver', w3w: '///filled.count.soap', fromTime: new Date(), toTime: hoursFromNow(2) });
+      await storage.createCheckIn({ userId: driver.id, driverType: 'driver', w3w: '///index.home.raft', lat: 51.52, lng: -0.2, fromTime: new Date(), toTime: hoursFromNow(2) });
+      await storage.createCheckIn({ userId: driver.id, driverType: 'driver', lat: 52.49, lng: -1.89, fromTime: new Date(), toTime: hoursFromNow(2) });
+
+      expect((await storage.getCheckInsMissingCoordinates()).map(c => c.id)).toEqual([unresolved.id]);
+      expect(await storage.updateCheckInCoordinates(unresolved.id, 51.52, -0.2)).toMatchObject({ lat: 51.52, lng: -0.2 });
+      expect(await storage.getCheckInsMissingCoordinates()).toEqual([]);
+
+      const space = await storage.createLoaderSpace({ userId: driver.id, originW3W: '///filled.count.soap', originLat: 51.52, originLng: -0.2, destW3W: '///index.home.raft' });
+      await storage.createLoaderSpace({ userId: driver.id, originLocation: 'London' });
+      expect((await storage.getLoaderSpacesMissingCoordinates()).map(s => s.id)).toEqual([space.id]);
+      expect(await storage.updateLoaderSpaceCoordinates(space.id, { destLat: 53.8, destLng: -1.55 })).toMatchObject({ originLat: 51.52, destLat: 53.8, destLng: -1.55 });
+      expect(await storage.getLoaderSpacesMissingCoordinates()).toEqual([]);
+      expect(await storage.updateCheckInCoordinates('missing', 0, 0)).toBeUndefined();
+    });
+
+    test('keeps one trade plate log entry per job, with an audit trail of edits', async () => {
+      const driver = await createDriver('tara');
+      const schedule = await storage.createSchedule({ userId: driver.id, date: '2026-03-02' });
+      const job = await storage.createJob({
+        scheduleId: schedule.id, orderInSchedule: 1, tradePlateNumber: '123 A', vehicleRegistration: 'AB12 CDE',
+        fromLocation: 'Leeds', fromLat: 53.8, fromLng: -1.55, toLocation: 'York', toLat: 53.96, toLng: -1.08,
+        estimatedStartTime: hoursFromNow(1), estimatedEndTime: hoursFromNow(2),
+      });
+      expect(job).toMatchObject({ tradePlateNumber: '123 A', vehicleRegistration: 'AB12 CDE' });
+
+      const fields = { userId: driver.id, plateNumber: '123 A', startLocation: 'Leeds', endLocation: 'York' };
+      const entry = await storage.createTradePlateLogEntry({ ...fields, jobId: job.id, date: '2026-03-02', startTime: new Date('2026-03-02T09:00:00Z') });
+      expect(entry).toMatchObject({ purpose: 'Delivery', endTime: null, vehicleRegistration: null });
+      expect(await storage.createTradePlateLogEntry({ ...fields, jobId: job.id, date: '2026-03-02', startTime: new Date() })).toBeUndefined();
+      expect((await storage.getTradePlateLogEntryByJobId(job.id))?.id).toBe(entry!.id);
+      await storage.createTradePlateLogEntry({ ...fields, plateNumber: '456 B', date: '2026-03-01', startTime: new Date('2026-03-01T09:00:00Z') });
+      const later = await storage.createTradePlateLogEntry({ ...fields, date: '2026-03-04', startTime: new Date('2026-03-04T09:00:00Z') });
+
+      expect((await storage.getTradePlateLog(driver.id)).map(e => e.date)).toEqual(['2026-03-01', '2026-03-02', '2026-03-04']);
+      expect((await storage.getTradePlateLog(driver.id, { plateNumber: '123 A', from: '2026-03-02', to: '2026-03-03' })).map(e => e.id)).toEqual([entry!.id]);
+
+      expect(await storage.updateTradePlateLogEntry(later!.id, { endTime: new Date('2026-03-04T11:00:00Z') })).toMatchObject({ endTime: new Date('2026-03-04T11:00:00Z') });
+      const edited = await storage.editTradePlateLogEntry(entry!.id, { purpose: 'Collection', startLocation: 'Leeds' }, { editedBy: driver.id, reason: 'Was a collection' });
+      expect(edited?.entry.purpose).toBe('Collection');
+      // Unchanged fields aren't recorded
+      expect(edited?.edits.map(e => [e.field, e.oldValue, e.newValue, e.reason])).toEqual([['purpose', 'Delivery', 'Collection', 'Was a collection']]);
+      await storage.editTradePlateLogEntry(entry!.id, { endTime: new Date('2026-03-02T10:30:00Z') }, { editedBy: driver.id, reason: 'Forgot to check out' });
+      expect((await storage.getTradePlateLogEdits(entry!.id)).map(e => [e.field, e.oldValue, e.newValue])).toEqual([
+        ['purpose', 'Delivery', 'Collection'],
+        ['endTime', null, '2026-03-02T10:30:00.000Z'],
+      ]);
+      expect(await storage.editTradePlateLogEntry('missing', { purpose: 'x' }, { editedBy: driver.id, reason: 'r' })).toBeUndefined();
+
+      // The record outlives the job
+      await storage.deleteJob(job.id);
+      expect(await storage.getTradePlateLogEntry(entry!.id)).toMatchObject({ jobId: null, purpose: 'Collection' });
+    });
+
+    test('records one inspection per job and stage, with its checklist, damage and photos in order', async () => {
+      const driver = await createDriver('ivan');
+      const schedule = await storage.createSchedule({ userId: driver.id, date: '2026-03-02' });
+      const job = await storage.createJob({
+        scheduleId: schedule.id, orderInSchedule: 1,
+        fromLocation: 'Leeds', fromLat: 53.8, fromLng: -1.55, toLocation: 'York', toLat: 53.96, toLng: -1.08,
+        estimatedStartTime: hoursFromNow(1), estimatedEndTime: hoursFromNow(2),
+      });
+
+      const details = {
+        checklist: [{ item: 'Tyres', passed: true }, { item: 'Mirrors', passed: false, note: 'Cracked' }],
+        damage: [
+          { view: 'left', x: 0.3, y: 0.5, type: 'scratch', severity: 'minor' },
+          { view: 'front', x: 0.5, y: 0.2, type: 'chip', severity: 'moderate' },
+        ],
+        photos: [
+          { blobKey: `inspections/${job.id}/a`, contentType: 'image/jpeg', sizeBytes: 10, caption: 'Front' },
+          { blobKey: `inspections/${job.id}/b`, contentType: 'image/jpeg', sizeBytes: 20 },
+        ],
+      };
+      const pickup = await storage.createVehicleInspection({ jobId: job.id, userId: driver.id, stage: 'pickup', mileage: 100, fuelLevel: 4 }, details);
+      expect(pickup).toMatchObject({ stage: 'pickup', mileage: 100, fuelLevel: 4, notes: null, signaturePath: null });
+      expect(pickup!.checklist.map(i => [i.item, i.passed, i.note])).toEqual([['Tyres', true, null], ['Mirrors', false, 'Cracked']]);
+      expect(pickup!.damage.map(d => d.type)).toEqual(['scratch', 'chip']);
+      expect(pickup!.photos.map(p => p.sizeBytes)).toEqual([10, 20]);
+      expect(await storage.createVehicleInspection({ jobId: job.id, userId: driver.id, stage: 'pickup' }, details)).toBeUndefined();
+
+      await storage.createVehicleInspection({ jobId: job.id, userId: driver.id, stage: 'dropoff', mileage: 150 }, { checklist: [], damage: [], photos: [] });
+      const inspections = await storage.getVehicleInspectionsByJobId(job.id);
+      expect(inspections.map(i => i.stage)).toEqual(['pickup', 'dropoff']);
+      expect(inspections[0].damage.map(d => d.type)).toEqual(['scratch', 'chip']);
+      expect(await storage.getInspectionPhoto(pickup!.photos[1].id)).toMatchObject({ inspectionId: pickup!.id, blobKey: `inspections/${job.id}/b` });
+      expect(await storage.getInspectionPhoto('missing')).toBeUndefined();
+
+      // The reports outlive the job
+      await storage.deleteJob(job.id);
+      expect(await storage.getVehicleInspectionsByJobId(job.id)).toEqual([]);
+      expect(await storage.getInspectionPhoto(pickup!.photos[0].id)).toMatchObject({ caption: 'Front' });
+
+      expect(await storage.deleteVehicleInspection(pickup!.id)).toBe(true);
+      expect(await storage.getInspectionPhoto(pickup!.photos[0].id)).toBeUndefined();
+      expect(await storage.deleteVehicleInspection(pickup!.id)).toBe(false);
+    });
+
+    test('claims each idempotency key once and stores its response', async () => {
+      const request = { method: 'POST', path: '/api/jobs/j1/check-in', requestHash: 'abc' };
+      const claimed = await storage.createIdempotencyKey({ key: 'key-1', ...request });
+      expect(claimed).toMatchObject({ ...request, userId: null, statusCode: null, response: null, completedAt: null });
+      expect(await storage.createIdempotencyKey({ key: 'key-1', ...request, userId: 'someone' })).toBeUndefined();
+
+      const completed = await storage.completeIdempotencyKey('key-1', 200, '{"ok":true}');
+      expect(completed).toMatchObject({ statusCode: 200, response: '{"ok":true}' });
+      expect(completed?.completedAt).toBeInstanceOf(Date);
+      expect(await storage.getIdempotencyKey('key-1')).toMatchObject({ statusCode: 200, userId: null });
+      expect(await storage.completeIdempotencyKey('missing', 200, null)).toBeUndefined();
+
+      await storage.createIdempotencyKey({ key: 'key-2', ...request });
+      expect(await storage.deleteIdempotencyKey('key-2')).toBe(true);
+      expect(await storage.deleteIdempotencyKey('key-2')).toBe(false);
+      expect(await storage.createIdempotencyKey({ key: 'key-2', ...request })).toBeDefined();
+
+      expect(await storage.deleteIdempotencyKeysCreatedBefore(hoursFromNow(-1))).toBe(0);
+      expect(await storage.deleteIdempotencyKeysCreatedBefore(hoursFromNow(1))).toBe(2);
+      expect(await storage.getIdempotencyKey('key-1')).toBeUndefined();
+    });
+  });
+}
@@ -0,0 +1,103 @@
+import { test, expect } from './fixtures/test';
+import type { IStorage } from '../server/storage';
+import {
+  editLogEntry, getLogEntryEdits, syncJobLogEntry, tradePlateLogCsv, tradePlateLogFileName, tradePlateLogPdf,
+} from '../server/trade-plate-log';
+import { renderTablePdf } from '../server/pdf';
+import { fromWallClock } from '../server/recurrence';
+import { createJob } from './fixtures/jobs';
+import { createUsers } from './fixtures/users';
+
+// UK times, as the log's dates are UK dates
+const at = (day: number, hours: number, minutes = 0) => fromWallClock(2026, 3, day, hours, minutes);
+
+// A job on the 2 March schedule under the plate, if any, with the registration typed loosely
+const platedJob = (storage: IStorage, scheduleId: string, order: number, plate?: string) => createJob(storage, {
+  scheduleId, orderInSchedule: order, tradePlateNumber: plate, vehicleRegistration: plate && ' ab12  cde ',
+  estimatedStartTime: at(2, 9), estimatedEndTime: at(2, 11),
+});
+
+test('builds an entry from a checked-in job and fills in its end at check-out', async ({ storage, driver }) => {
+  const schedule = await storage.createSchedule({ userId: driver.id, date: '2026-03-02' });
+  const job = await platedJob(storage, schedule.id, 1, '123 a');
+  // Plates and registrations are stored the way they're printed
+  expect(job).toMatchObject({ tradePlateNumber: '123 A', vehicleRegistration: 'AB12 CDE' });
+  expect(await syncJobLogEntry(storage, job)).toBeUndefined();
+
+  const checkedIn = await storage.updateJobStatus(job.id, 'in-progress', at(2, 9, 5));
+  const entry = await syncJobLogEntry(storage, checkedIn!);
+  expect(entry).toMatchObject({
+    userId: driver.id, jobId: job.id, date: '2026-03-02', plateNumber: '123 A', vehicleRegistration: 'AB12 CDE',
+    startTime: at(2, 9, 5), endTime: null, startLocation: 'Leeds LS1 4DY', endLocation: 'York, YO1 7HH', purpose: 'Delivery',
+  });
+  expect((await syncJobLogEntry(storage, checkedIn!))?.id).toBe(entry!.id);
+
+  const checkedOut = await storage.updateJobStatus(job.id, 'completed', undefined, at(2, 10, 40));
+  expect((await syncJobLogEntry(storage, checkedOut!))?.endTime).toEqual(at(2, 10, 40));
+
+  // Jobs moved without a plate aren't logged
+  const unplated = await platedJob(storage, schedule.id, 2);
+  expect(await syncJobLogEntry(storage, (await storage.updateJobStatus(unplated.id, 'in-progress', at(2, 12)))!)).toBeUndefined();
+  expect(await storage.getTradePlateLog(driver.id)).toHaveLength(1);
+});
+
+test('a driver corrects their own entries with a reason, and the job no longer overwrites them', async ({ storage, driver }) => {
+  const schedule = await storage.createSchedule({ userId: driver.id, date: '2026-03-02' });
+  const job = await platedJob(storage, schedule.id, 1, '123 A');
+  const entry = (await syncJobLogEntry(storage, (await storage.updateJobStatus(job.id, 'in-progress', at(2, 9)))!))!;
+  const [other] = await createUsers(storage, 'other');
+
+  await expect(editLogEntry(storage, other.id, entry.id, { purpose: 'Repair' }, 'Mine now')).rejects.toMatchObject({ status: 403 });
+  await expect(editLogEntry(storage, driver.id, entry.id, { purpose: 'Repair' }, '  ')).rejects.toMatchObject({ status: 400 });
+  await expect(editLogEntry(storage, driver.id, entry.id, { plateNumber: null }, 'No plate')).rejects.toMatchObject({ status: 400 });
+  await expect(editLogEntry(storage, driver.id, entry.id, { endTime: at(2, 8) }, 'Typo')).rejects.toMatchObject({ status: 400 });
+  await expect(editLogEntry(storage, driver.id, 'missing', { purpose: 'Repair' }, 'Typo')).rejects.toMatchObject({ status: 404 });
+
+  const { entry: edited, edits } = await editLogEntry(storage, driver.id, entry.id, {
+    startTime: at(1, 23, 50), vehicleRegistration: 'WVWZZZ1JZXW000001', purpose: 'Road test',
+  }, 'Checked in late; wrong vehicle on the job sheet');
+  expect(edited).toMatchObject({ date: '2026-03-01', startTime: at(1, 23, 50), vehicleRegistration: 'WVWZZZ1JZXW000001', purpose: 'Road test' });
+  expect(edits.map(e => e.field).sort()).toEqual(['date', 'purpose', 'startTime', 'vehicleRegistration']);
+  expect((await getLogEntryEdits(storage, driver.id, entry.id)).every(e => e.reason === 'Checked in late; wrong vehicle on the job sheet')).toBe(true);
+  await expect(getLogEntryEdits(storage, other.id, entry.id)).rejects.toMatchObject({ status: 403 });
+
+  // Check-out still fills in the end, but the corrected start and vehicle stay
+  const updatedJob = await storage.updateJob(job.id, { vehicleRegistration: 'XY99 ZZZ', toLocation: 'Harrogate' });
+  const checkedOut = await storage.updateJobStatus(updatedJob!.id, 'completed', undefined, at(2, 10, 30));
+  expect(await syncJobLogEntry(storage, checkedOut!)).toMatchObject({
+    date: '2026-03-01', startTime: at(1, 23, 50), vehicleRegistration: 'WVWZZZ1JZXW000001', endLocation: 'Harrogate', endTime: at(2, 10, 30),
+  });
+});
+
+test('exports the log as CSV and as a paginated PDF', async ({ storage, driver }) => {
+  const schedule = await storage.createSchedule({ userId: driver.id, date: '2026-03-02' });
+  const job = await platedJob(storage, schedule.id, 1, '123 A');
+  await syncJobLogEntry(storage, (await storage.updateJobStatus(job.id, 'completed', at(2, 23), at(3, 0, 30)))!);
+  await storage.createTradePlateLogEntry({
+    userId: driver.id, date: '2026-03-04', plateNumber: '123 A', startTime: at(4, 8), endTime: at(4, 9),
+    startLocation: '=HYPERLINK("x")', endLocation: 'Depot', purpose: 'Collection',
+  });
+  const entries = await storage.getTradePlateLog(driver.id, { plateNumber: '123 A', from: '2026-03-01', to: '2026-03-31' });
+
+  expect(tradePlateLogCsv(entries).split('\r\n')).toEqual([
+    'Date,Plate number,Vehicle reg/VIN,Start,End,From,To,Purpose',
+    '2026-03-02,123 A,AB12 CDE,23:00,2026-03-03 00:30,Leeds LS1 4DY,"York, YO1 7HH",Delivery',
+    `2026-03-04,123 A,,08:00,09:00,"'=HYPERLINK(""x"")",Depot,Collection`,
+    '',
+  ]);
+  expect(tradePlateLogFileName('csv', { plateNumber: '123 A', from: '2026-03-01', to: '2026-03-31' })).toBe('trade-plate-log-123-A-2026-03-01-2026-03-31.csv');
+
+  const pdf = tradePlateLogPdf(entries, 'Dana Driver', { plateNumber: '123 A', from: '2026-03-01', to: '2026-03-31' }).toString('latin1');
+  expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+  expect(pdf).toContain('(Driver: Dana Driver   Plate: 123 A   Period: 2026-03-01 to 2026-03-31   Entries: 2)');
+  expect(pdf).toContain('(=HYPERLINK\\("x"\\))');
+  // The cross-reference table points at each object
+  const xref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+  const offsets = pdf.slice(xref).match(/^\d{10} 00000 n $/gm)!.map(line => Number(line.slice(0, 10)));
+  offsets.forEach((offset, i) => expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+
+  const long = renderTablePdf({ title: 'Long', columns: [{ header: 'N', width: 40 }], rows: Array.from({ length: 80 }, (_, i) => [`Row ${i} café and more text than fits`]) }).toString('latin1');
+  expect(long).toContain('/Count 3');
+  expect(long).toContain('(Page 3 of 3)');
+  expect(long).toContain('(Row 0 ...)');
+});
@@ -0,0 +1,70 @@
+import { test, expect } from '@playwright/test';
+import { MemStorage } from '../server/storage';
+import { refreshUserMetrics } from '../server/user-metrics';
+import { MINUTE } from './fixtures/time';
+import { COMPLETED_LIFT, COVENTRY_TO_LEICESTER as route, bookLift, offerLift } from './fixtures/lifts';
+import { createUsers } from './fixtures/users';
+
+const daysAgo = (days: number, h: number, min = 0) => {
+  const date = new Date();
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - days, h, min);
+};
+
+test('scores punctuality from check-ins and counts streaks of working days', async () => {
+  const storage = new MemStorage();
+  const driver = await storage.createUser({ username: 'plates', password: 'hashed', name: 'Trade Plates' });
+
+  // Two runs of days: three ending today, and four the week before
+  const days = [0, 1, 2, 5, 6, 7, 8];
+  for (const day of days) {
+    const schedule = await storage.createSchedule({ userId: driver.id, date: daysAgo(day, 0).toISOString().slice(0, 10) });
+    const job = await storage.createJob({
+      ...route, scheduleId: schedule.id, orderInSchedule: 1,
+      estimatedStartTime: daysAgo(day, 9), estimatedEndTime: daysAgo(day, 11),
+    });
+    // 35 minutes late is half marks; 90 minutes late is none
+    const start = day === 6 ? daysAgo(day, 10, 30) : daysAgo(day, 9);
+    const end = day === 1 ? daysAgo(day, 11, 35) : daysAgo(day, 11);
+    await storage.updateJobStatus(job.id, 'completed', start, end);
+  }
+  // Not started yet: nothing to score
+  const upcoming = await storage.createSchedule({ userId: driver.id, date: daysAgo(-1, 0).toISOString().slice(0, 10) });
+  await storage.createJob({ ...route, scheduleId: upcoming.id, orderInSchedule: 1, estimatedStartTime: daysAgo(-1, 9), estimatedEndTime: daysAgo(-1, 11) });
+
+  const metrics = await refreshUserMetrics(storage, driver.id, daysAgo(0, 23));
+  expect(metrics).toEqual({
+    punctualityScore: 89.3, // 12.5 of 14 check-ins and check-outs
+    currentStreak: 3,
+    longestStreak: 4,
+    lastActivityDate: daysAgo(0, 11),
+  });
+
+  // No lifts yet, so completion is left alone; the reputation score picks up the punctuality
+  const stats = await storage.getUserStats(driver.id);
+  expect(stats).toMatchObject({ punctualityScore: 89.3, completionRatio: 0, reputationScore: 22, tier: 'bronze' });
+
+  // A day off breaks the current streak but not the record
+  expect(await refreshUserMetrics(storage, driver.id, daysAgo(-2, 9))).toMatchObject({ currentStreak: 0, longestStreak: 4 });
+});
+
+test('scores pickups and completion from how lift bookings end', async () => {
+  const storage = new MemStorage();
+  const driver = await storage.createUser({ username: 'driver', password: 'hashed', name: 'Driver' });
+  const [rider, noShow, declined] = await createUsers(storage, 'rider', 'no-show', 'declined');
+
+  // Picked up half an hour after the offer's departure
+  const offer = await offerLift(storage, driver.id, { departureTime: new Date(Date.now() - 30 * MINUTE), availableSeats: 3 });
+  await bookLift(storage, offer, rider.id, ...COMPLETED_LIFT);
+  await bookLift(storage, offer, noShow.id, 'accepted', 'no-show');
+  // The driver pulling out of an accepted booking counts against them; declining a request doesn't
+  await bookLift(storage, offer, declined.id, 'accepted', 'cancelled');
+  await bookLift(storage, offer, declined.id, 'cancelled');
+
+  const driverMetrics = await refreshUserMetrics(storage, driver.id);
+  expect(driverMetrics).toMatchObject({ punctualityScore: 60, completionRatio: 50, currentStreak: 1, longestStreak: 1 });
+  expect(await refreshUserMetrics(storage, rider.id)).toMatchObject({ completionRatio: 100, currentStreak: 1 });
+  expect(await refreshUserMetrics(storage, noShow.id)).toEqual({ completionRatio: 0 });
+  // Only cancelled by the driver, so nothing to hold against the passenger
+  expect(await refreshUserMetrics(storage, declined.id)).toEqual({});
+  expect(await storage.getUserStats(declined.id)).toMatchObject({ reputationScore: 0, completionRatio: 0 });
+});
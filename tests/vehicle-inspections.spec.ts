@@ -0,0 +1,148 @@
+import { test as base, expect } from './fixtures/test';
+import {
+  InspectionError, MAX_INSPECTION_PHOTOS, compareInspections, discardInspection, getJobInspections, inspectionReportPdf,
+  inspectionReportToken, recordInspection, verifyInspectionReportToken, type InspectionInput,
+} from '../server/vehicle-inspections';
+import { parseSignaturePath } from '../shared/inspections';
+import type { Job } from '../shared/schema';
+import { createJob } from './fixtures/jobs';
+
+// Just enough of a JPEG for its size to be read: SOI, a 2x1 single-component SOF0 and EOI
+const jpeg = Buffer.from('ffd8ffc0000b080001000201011100ffd9', 'hex');
+
+// Each test inspects the driver's plated job on 2 March
+const test = base.extend<{ job: Job }>({
+  job: async ({ storage, driver }, use) => {
+    const schedule = await storage.createSchedule({ userId: driver.id, date: '2026-03-02' });
+    await use(await createJob(storage, {
+      scheduleId: schedule.id, tradePlateNumber: '123 A', vehicleRegistration: 'AB12 CDE',
+      estimatedStartTime: new Date(2026, 2, 2, 9), estimatedEndTime: new Date(2026, 2, 2, 11),
+    }));
+  },
+});
+
+const inspection = (overrides: Partial<InspectionInput> = {}): InspectionInput => ({
+  checklist: [{ item: 'Tyres and wheels', passed: true }, { item: 'Mirrors', passed: true }],
+  damage: [],
+  photos: [],
+  ...overrides,
+});
+
+test('records pickup and dropoff with their checklist, damage and photos', async ({ storage, blobs, driver, job }) => {
+  const pickup = await recordInspection(storage, blobs, job, 'pickup', inspection({
+    damage: [{ view: 'left', x: 0.3, y: 0.5, type: 'scratch', severity: 'minor', note: '  door  ' }],
+    mileage: 12000, fuelLevel: 6, notes: ' ',
+    signature: { name: ' Sam Customer ', path: 'M10 10 L20 20 L30 15' },
+    photos: [{ data: jpeg, caption: 'Front' }],
+  }), { lat: 53.8, lng: -1.55 }, new Date(2026, 2, 2, 9, 5));
+
+  expect(pickup).toMatchObject({
+    jobId: job.id, userId: driver.id, stage: 'pickup', mileage: 12000, fuelLevel: 6, notes: null,
+    signatureName: 'Sam Customer', signedAt: new Date(2026, 2, 2, 9, 5), lat: 53.8, lng: -1.55,
+  });
+  expect(pickup.checklist.map((item) => item.item)).toEqual(['Tyres and wheels', 'Mirrors']);
+  expect(pickup.damage[0]).toMatchObject({ view: 'left', type: 'scratch', note: 'door' });
+  expect(pickup.photos[0]).toMatchObject({ contentType: 'image/jpeg', sizeBytes: jpeg.length, caption: 'Front' });
+  expect(await blobs.get(pickup.photos[0].blobKey)).toEqual(jpeg);
+
+  await recordInspection(storage, blobs, job, 'dropoff', inspection({ mileage: 12040, fuelLevel: 4 }));
+  const recorded = await getJobInspections(storage, job.id);
+  expect(recorded.pickup?.photos[0]).not.toHaveProperty('blobKey');
+  expect(recorded.pickup?.photos[0].url).toBe(`/api/jobs/${job.id}/inspections/photos/${pickup.photos[0].id}`);
+  expect(recorded.comparison).toMatchObject({ newDamage: [], milesDriven: 40, fuelChange: -2 });
+});
+
+test('rejects bad inspections and leaves no photos behind', async ({ storage, blobs, job }) => {
+  const rejects = async (input: InspectionInput, status: number, stage: 'pickup' | 'dropoff' = 'pickup') => {
+    const error = await recordInspection(storage, blobs, job, stage, input).catch((e) => e);
+    expect(error).toBeInstanceOf(InspectionError);
+    expect(error.status).toBe(status);
+  };
+
+  await rejects(inspection({ photos: [{ data: Buffer.from('not a jpeg') }] }), 400);
+  await rejects(inspection({ photos: Array.from({ length: MAX_INSPECTION_PHOTOS + 1 }, () => ({ data: jpeg })) }), 400);
+  await rejects(inspection({ signature: { name: 'Sam', path: 'M10 10 L400 20' } }), 400);
+  await rejects(inspection({ fuelLevel: 9 }), 400);
+
+  const pickup = await recordInspection(storage, blobs, job, 'pickup', inspection({ mileage: 500, photos: [{ data: jpeg }] }));
+  await rejects(inspection({ photos: [{ data: jpeg }] }), 409);
+  await rejects(inspection({ mileage: 499, photos: [{ data: jpeg }] }), 400, 'dropoff');
+
+  // Only the recorded pickup's photo is stored
+  const stored = (blobs as unknown as { blobs: Map<string, Buffer> }).blobs;
+  expect([...stored.keys()]).toEqual([pickup.photos[0].blobKey]);
+});
+
+test('discarding an inspection removes its photos and lets the stage be recorded again', async ({ storage, blobs, job }) => {
+  const pickup = await recordInspection(storage, blobs, job, 'pickup', inspection({ photos: [{ data: jpeg }] }));
+  await discardInspection(storage, blobs, pickup);
+
+  expect(await getJobInspections(storage, job.id)).toMatchObject({ pickup: null, dropoff: null });
+  expect(await blobs.get(pickup.photos[0].blobKey)).toBeUndefined();
+  expect(await recordInspection(storage, blobs, job, 'pickup', inspection())).toMatchObject({ stage: 'pickup' });
+});
+
+test('flags damage with nothing close by on the same view at pickup as new', async ({ storage, blobs, job }) => {
+  const pickup = await recordInspection(storage, blobs, job, 'pickup', inspection({
+    damage: [
+      { view: 'left', x: 0.3, y: 0.5, type: 'scratch', severity: 'minor' },
+      { view: 'front', x: 0.5, y: 0.5, type: 'chip', severity: 'minor' },
+    ],
+  }));
+  const dropoff = await recordInspection(storage, blobs, job, 'dropoff', inspection({
+    checklist: [{ item: 'tyres and wheels', passed: false }, { item: 'Mirrors', passed: true }],
+    damage: [
+      { view: 'left', x: 0.32, y: 0.52, type: 'scratch', severity: 'minor' }, // Same scratch, marked slightly apart
+      { view: 'right', x: 0.3, y: 0.5, type: 'dent', severity: 'major' }, // Same place, other side
+      { view: 'front', x: 0.8, y: 0.5, type: 'crack', severity: 'moderate' },
+    ],
+  }));
+
+  const comparison = compareInspections(pickup, dropoff);
+  expect(comparison.existingDamage.map((damage) => damage.type)).toEqual(['scratch']);
+  expect(comparison.newDamage.map((damage) => damage.type)).toEqual(['dent', 'crack']);
+  expect(comparison.checklistFailures).toEqual(['tyres and wheels']);
+  expect(comparison).toMatchObject({ milesDriven: null, fuelChange: null });
+});
+
+test('builds a PDF report with the photos embedded', async ({ storage, blobs, job }) => {
+  // Signed at 09:05 on a summer morning in the UK
+  await recordInspection(storage, blobs, job, 'pickup', inspection({
+    signature: { name: 'Sam Customer', path: 'M10 10 L20 20' },
+    photos: [{ data: jpeg, caption: 'Front' }],
+  }), {}, new Date('2026-06-02T08:05:00Z'));
+  await recordInspection(storage, blobs, job, 'dropoff', inspection({
+    damage: [{ view: 'rear', x: 0.5, y: 0.5, type: 'dent', severity: 'major' }],
+  }));
+
+  const pdf = await inspectionReportPdf(storage, blobs, job);
+  const text = pdf.toString('latin1');
+  expect(text.startsWith('%PDF-')).toBe(true);
+  expect(text).toContain('(Vehicle condition report)');
+  expect(text).toContain('(Signed by Sam Customer at 2026-06-02 09:05)');
+  expect(text).toContain('/Im1 Do');
+  expect(text).toContain('/Filter /DCTDecode');
+  expect(pdf.includes(jpeg)).toBe(true);
+
+  // Every object starts where the cross-reference table says it does
+  const xref = Number(/startxref\s+(\d+)/.exec(text)![1]);
+  const offsets = text.slice(xref).match(/^\d{10} 00000 n/gm)!.map((line) => Number(line.slice(0, 10)));
+  offsets.forEach((offset, i) => expect(text.slice(offset, offset + 12)).toMatch(new RegExp(`^${i + 1} 0 obj`)));
+});
+
+test('report links only open the report for their own job', async () => {
+  const token = inspectionReportToken('job-1', 'secret');
+  expect(verifyInspectionReportToken('job-1', token, 'secret')).toBe(true);
+  expect(verifyInspectionReportToken('job-2', token, 'secret')).toBe(false);
+  expect(verifyInspectionReportToken('job-1', token, 'rotated')).toBe(false);
+  expect(verifyInspectionReportToken('job-1', '', 'secret')).toBe(false);
+});
+
+test('reads signatures drawn as M and L commands inside the signature box', async () => {
+  expect(parseSignaturePath('M0 0 L10.5,20 M300 100 L299 99')).toEqual([[[0, 0], [10.5, 20]], [[300, 100], [299, 99]]]);
+  expect(parseSignaturePath('')).toBeUndefined();
+  expect(parseSignaturePath('L10 10')).toBeUndefined();
+  expect(parseSignaturePath('M10 10 Z')).toBeUndefined();
+  expect(parseSignaturePath('M10 10 <script>')).toBeUndefined();
+  expect(parseSignaturePath('M10 101')).toBeUndefined();
+});
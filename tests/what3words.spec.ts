@@ -0,0 +1,71 @@
+import { test, expect } from '@playwright/test';
+import { MemStorage } from '../server/storage';
+import {
+  backfillThreeWordCoordinates,
+  normalizeThreeWordAddress,
+  resolveThreeWordAddresses,
+  StubThreeWordProvider,
+  ThreeWordAddressError,
+  LOADER_SPACE_W3W_FIELDS,
+  type ThreeWordProvider,
+} from '../server/what3words';
+
+const stub = new StubThreeWordProvider({
+  '///filled.count.soap': { lat: 51.520847, lng: -0.195521 },
+  'index.home.raft': { lat: 51.521251, lng: -0.203586 },
+});
+const unreachable: ThreeWordProvider = {
+  name: 'down',
+  toCoordinates: async () => { throw new ThreeWordAddressError('unavailable', 'What3Words timed out'); },
+};
+
+test('normalizes three-word addresses and rejects anything else', () => {
+  expect(normalizeThreeWordAddress(' ///Filled.Count.Soap ')).toBe('///filled.count.soap');
+  expect(normalizeThreeWordAddress('index.home.raft')).toBe('///index.home.raft');
+  expect(normalizeThreeWordAddress('///écoute.façon.été')).toBe('///écoute.façon.été');
+
+  expect(normalizeThreeWordAddress('filled.count')).toBeUndefined();
+  expect(normalizeThreeWordAddress('filled.count.soap.extra')).toBeUndefined();
+  expect(normalizeThreeWordAddress('filled count soap')).toBeUndefined();
+  expect(normalizeThreeWordAddress('LS14 6UF')).toBeUndefined();
+  expect(normalizeThreeWordAddress('filled.c0unt.soap')).toBeUndefined();
+});
+
+test('resolves missing coordinates on create without overriding sent ones', async () => {
+  const body = await resolveThreeWordAddresses(
+    { userId: 'u', originW3W: 'Filled.Count.Soap', destW3W: '///index.home.raft', destLat: 53.8, destLng: -1.55 },
+    LOADER_SPACE_W3W_FIELDS, stub,
+  );
+  expect(body).toMatchObject({
+    originW3W: '///filled.count.soap', originLat: 51.520847, originLng: -0.195521,
+    destW3W: '///index.home.raft', destLat: 53.8, destLng: -1.55,
+  });
+
+  // Empty inputs from the form are dropped rather than stored
+  expect(await resolveThreeWordAddresses({ originW3W: '', destW3W: '' }, LOADER_SPACE_W3W_FIELDS, stub)).toEqual({});
+
+  await expect(resolveThreeWordAddresses({ originW3W: 'Manchester' }, LOADER_SPACE_W3W_FIELDS, stub))
+    .rejects.toMatchObject({ code: 'invalid', field: 'originW3W' });
+  await expect(resolveThreeWordAddresses({ destW3W: 'not.real.words' }, LOADER_SPACE_W3W_FIELDS, stub))
+    .rejects.toMatchObject({ code: 'not-found', field: 'destW3W' });
+});
+
+test('keeps addresses for back-fill when the provider is missing or down', async () => {
+  expect(await resolveThreeWordAddresses({ originW3W: 'filled.count.soap' }, LOADER_SPACE_W3W_FIELDS, undefined))
+    .toEqual({ originW3W: '///filled.count.soap' });
+  expect(await resolveThreeWordAddresses({ originW3W: 'filled.count.soap' }, LOADER_SPACE_W3W_FIELDS, unreachable))
+    .toEqual({ originW3W: '///filled.count.soap' });
+
+  const storage = new MemStorage();
+  const user = await storage.createUser({ username: 'w3w', password: 'hashed', name: 'Loader' });
+  const space = await storage.createLoaderSpace({ userId: user.id, originW3W: '///filled.count.soap', destW3W: '///index.home.raft' });
+  const checkIn = await storage.createCheckIn({ userId: user.id, driverType: 'loader', w3w: '///unknown.words.here', fromTime: new Date(), toTime: new Date() });
+
+  expect(await backfillThreeWordCoordinates(storage, unreachable)).toEqual({ resolved: 0, notFound: [], unavailable: 3 });
+
+  const result = await backfillThreeWordCoordinates(storage, stub);
+  expect(result).toEqual({ resolved: 1, notFound: ['///unknown.words.here'], unavailable: 0 });
+  expect(await storage.getLoaderSpace(space.id)).toMatchObject({ originLat: 51.520847, destLng: -0.203586 });
+  expect(await storage.getCheckIn(checkIn.id)).toMatchObject({ lat: null });
+  expect(await storage.getLoaderSpacesMissingCoordinates()).toEqual([]);
+});